@@ -226,12 +226,22 @@ async function main() {
     process.exit(1)
   }
 
-  const recognizedFlagNames = new Set(allFlags.map((flag) => flag.name))
+  // Flags tied to another flag only count when that flag is set.
+  const recognizedFlags = allFlags.filter(
+    (flag) =>
+      !('onlyWith' in flag && flag.onlyWith) ||
+      result.values[flag.onlyWith] === true,
+  )
+  const recognizedFlagNames = new Set(
+    recognizedFlags
+      .filter((flag) => !('forwarded' in flag && flag.forwarded))
+      .map((flag) => flag.name),
+  )
 
   // Parse command flags, applying defaults and number coercion
   const parsedFlags: Record<string, string | number | boolean> = {}
   let missingFlag: string | null = null
-  for (const flag of allFlags) {
+  for (const flag of recognizedFlags) {
     const value = result.values[flag.name]
     if (value !== undefined) {
       parsedFlags[flag.name] =
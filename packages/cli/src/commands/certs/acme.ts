@@ -0,0 +1,71 @@
+import {
+  getGlobalConfig,
+  revocationUrls,
+  startAcmeServer,
+} from '@denvig/sdk/internal'
+
+import { Command } from '../../lib/command.ts'
+
+import type { AcmeServer } from '@denvig/sdk/internal'
+
+export const certsAcmeCommand = new Command({
+  name: 'certs:acme',
+  description:
+    'Run a local ACME server in the foreground that issues certificates signed by the local CA',
+  usage: 'certs acme [--port <port>] [--insecure]',
+  example: 'denvig certs acme --port 14000',
+  args: [],
+  flags: [
+    {
+      name: 'port',
+      description: 'Port to listen on (defaults to certs.acme.port)',
+      required: false,
+      type: 'number',
+    },
+    {
+      name: 'insecure',
+      description: 'Serve plain HTTP instead of HTTPS',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+  ],
+  handler: async ({ sdk, flags }) => {
+    const ca = await sdk.certs.ca.status()
+    if (!ca.initialized) {
+      console.error('CA not initialized. Run `denvig certs init` first.')
+      return { success: false, message: 'CA not initialized.' }
+    }
+
+    const { acme: config, revocation } = (await getGlobalConfig()).certs
+    const timestamp = () => new Date().toISOString()
+
+    let server: AcmeServer
+    try {
+      server = await startAcmeServer({
+        port: typeof flags.port === 'number' ? flags.port : config.port,
+        host: config.host,
+        insecure: flags.insecure === true,
+        domains: config.domains,
+        revocation: revocationUrls(revocation),
+        onLog: (message) => console.log(`[${timestamp()}] ${message}`),
+      })
+    } catch (e) {
+      const message = `Failed to start the ACME server: ${e instanceof Error ? e.message : String(e)}`
+      console.error(message)
+      return { success: false, message }
+    }
+
+    console.log(
+      `[${timestamp()}] ACME directory at ${server.url} for ${config.domains.join(', ')} and the gateway domains`,
+    )
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => resolve())
+      process.once('SIGTERM', () => resolve())
+    })
+
+    await server.close()
+    return { success: true, message: 'ACME server stopped' }
+  },
+})
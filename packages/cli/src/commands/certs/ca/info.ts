@@ -1,4 +1,5 @@
 import { Command } from '../../../lib/command.ts'
+import { formatTrustStoreStatus } from '../../../lib/formatters/trust-store.ts'
 
 export const certsCaInfoCommand = new Command({
   name: 'certs:ca:info',
@@ -29,6 +30,8 @@ export const certsCaInfoCommand = new Command({
       serialNumber: ca.serialNumber,
       fingerprint256: ca.fingerprint256,
       path: ca.path,
+      trusted: ca.trusted,
+      stores: ca.stores,
     }
 
     if (flags.json) {
@@ -43,6 +46,15 @@ export const certsCaInfoCommand = new Command({
     console.log('Serial:        ', info.serialNumber)
     console.log('Fingerprint:   ', info.fingerprint256)
     console.log('Path:          ', info.path)
+    console.log('')
+    if (info.stores.length === 0) {
+      console.log('Trust stores:   none found')
+    } else {
+      console.log('Trust stores:')
+      for (const store of info.stores) {
+        console.log(`  ${formatTrustStoreStatus(store)}`)
+      }
+    }
 
     return { success: true, message: 'CA info displayed.' }
   },
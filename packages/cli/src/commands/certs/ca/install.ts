@@ -1,31 +1,51 @@
 import { Command } from '../../../lib/command.ts'
+import { formatTrustStoreResult } from '../../../lib/formatters/trust-store.ts'
 
 export const certsCaInstallCommand = new Command({
   name: 'certs:ca:install',
   description:
-    'Initialize a local Certificate Authority and install it to the system keychain',
+    'Initialize a local Certificate Authority and install it into the system trust stores',
   usage: 'certs ca install',
   example: 'denvig certs ca install',
   args: [],
   flags: [],
-  handler: async ({ sdk }) => {
-    if ((await sdk.certs.ca.status()).initialized) {
-      const { path } = await sdk.certs.ca.configure()
-      console.log('CA already exists at', path)
-      console.log('Reinstalling CA to system keychain...')
-      console.log('CA reinstalled to system keychain.')
-      return {
-        success: true,
-        message: 'CA already exists, reinstalled to keychain.',
-      }
+  handler: async ({ sdk, flags }) => {
+    const existing = (await sdk.certs.ca.status()).initialized
+    if (!flags.json) {
+      console.log(
+        existing
+          ? 'Reinstalling the existing CA into the trust stores...'
+          : 'Generating new Certificate Authority...',
+      )
     }
 
-    console.log('Generating new Certificate Authority...')
-    const { path } = await sdk.certs.ca.configure()
-    console.log('CA certificate written to', path)
-    console.log('Installing CA to system keychain...')
-    console.log('CA installed to system keychain.')
+    const result = await sdk.certs.ca.configure()
+    const failed = result.stores.filter((store) => !store.success)
+    const success = result.stores.length > 0 && failed.length === 0
+    if (flags.json) {
+      console.log(JSON.stringify({ success, ...result }))
+      return { success }
+    }
 
-    return { success: true, message: 'CA initialized and installed.' }
+    console.log(
+      existing ? 'CA already exists at' : 'CA certificate written to',
+      result.path,
+    )
+    if (result.stores.length === 0) {
+      const message =
+        'No supported trust store found (macOS keychain, update-ca-certificates, update-ca-trust, trust or certutil); trust the CA manually.'
+      console.error(message)
+      return { success: false, message }
+    }
+    for (const store of result.stores) {
+      console.log(formatTrustStoreResult(store))
+    }
+
+    return {
+      success,
+      message: success
+        ? 'CA installed into the trust stores.'
+        : `CA could not be installed into ${failed.map((store) => store.name).join(', ')}.`,
+    }
   },
 })
@@ -1,9 +1,10 @@
 import { Command } from '../../../lib/command.ts'
+import { formatTrustStoreResult } from '../../../lib/formatters/trust-store.ts'
 
 export const certsCaUninstallCommand = new Command({
   name: 'certs:ca:uninstall',
   description:
-    'Remove the local Certificate Authority from the system keychain',
+    'Remove the local Certificate Authority from the system trust stores',
   usage: 'certs ca uninstall',
   example: 'denvig certs ca uninstall',
   args: [],
@@ -21,15 +22,22 @@ export const certsCaUninstallCommand = new Command({
       return { success: false, message }
     }
 
+    if (!flags.json) console.log('Removing CA from the trust stores...')
+    const result = await sdk.certs.ca.remove()
+    const success = result.stores.every((store) => store.success)
     if (flags.json) {
-      const { path } = await sdk.certs.ca.remove()
-      console.log(JSON.stringify({ success: true, path }))
+      console.log(JSON.stringify({ success, ...result }))
     } else {
-      console.log('Removing CA from system keychain...')
-      await sdk.certs.ca.remove()
-      console.log('CA removed from system keychain.')
+      for (const store of result.stores) {
+        console.log(formatTrustStoreResult(store))
+      }
     }
 
-    return { success: true, message: 'CA uninstalled from keychain.' }
+    return {
+      success,
+      message: success
+        ? 'CA uninstalled from the trust stores.'
+        : 'CA could not be removed from every trust store.',
+    }
   },
 })
@@ -1,9 +1,12 @@
 import { Command } from '../../lib/command.ts'
+import { certsAcmeCommand } from './acme.ts'
 import { certsCaCommand } from './ca/index.ts'
 import { certsGenerateCommand } from './generate.ts'
 import { certsImportCommand } from './import.ts'
 import { certsInitCommand } from './init.ts'
 import { certsListCommand } from './list.ts'
+import { certsRenewCommand } from './renew.ts'
+import { certsRevokeCommand } from './revoke.ts'
 import { certsRmCommand } from './rm.ts'
 
 export const certsCommand = new Command({
@@ -18,8 +21,11 @@ export const certsCommand = new Command({
     ca: certsCaCommand,
     init: certsInitCommand,
     generate: certsGenerateCommand,
+    renew: certsRenewCommand,
+    revoke: certsRevokeCommand,
     import: certsImportCommand,
     rm: certsRmCommand,
+    acme: certsAcmeCommand,
   },
   defaultSubcommand: 'list',
   handler: () => ({ success: true }),
@@ -24,6 +24,7 @@ type CertEntry = {
 /** Render the SDK certificate status into the CLI's display string. */
 const displayStatus = (cert: DenvigCertificate): string => {
   if (cert.status === 'expired') return 'expired'
+  if (cert.status === 'revoked') return 'revoked'
   if (cert.signedByLocalCa) {
     return cert.caTrusted ? 'valid (local-ca)' : 'untrusted'
   }
@@ -131,7 +132,7 @@ export const certsListCommand = new Command({
           format: (value, row) => {
             const trimmed = value.trim()
             if (!trimmed) return value
-            if (row.status === 'expired')
+            if (row.status === 'expired' || row.status === 'revoked')
               return `${COLORS.red}${trimmed}${COLORS.reset}`
             if (row.status === 'untrusted')
               return `${COLORS.yellow}${trimmed}${COLORS.reset}`
@@ -0,0 +1,89 @@
+import { DenvigValidationError } from '@denvig/sdk'
+
+import { Command } from '../../lib/command.ts'
+
+import type { RenewCertificatesResult } from '@denvig/sdk'
+
+const formatDate = (iso: string): string => iso.slice(0, 10)
+
+export const certsRenewCommand = new Command({
+  name: 'certs:renew',
+  description:
+    'Reissue locally-signed certificates before they expire, keeping their domains',
+  usage: 'certs renew [--within <duration>] [--all]',
+  example: 'denvig certs renew --within 60d',
+  args: [],
+  flags: [
+    {
+      name: 'within',
+      description:
+        'Renew certificates expiring within this duration, e.g. 30d or 2w (default: 30d)',
+      required: false,
+      type: 'string',
+    },
+    {
+      name: 'all',
+      description:
+        'Renew every locally-signed certificate regardless of expiry',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+  ],
+  handler: async ({ sdk, flags }) => {
+    let result: RenewCertificatesResult
+    try {
+      result = await sdk.certs.renew({
+        within: typeof flags.within === 'string' ? flags.within : undefined,
+        all: flags.all === true,
+      })
+    } catch (e) {
+      if (e instanceof DenvigValidationError) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message: e.message }))
+        } else {
+          console.error(e.message)
+        }
+        return { success: false, message: e.message }
+      }
+      throw e
+    }
+
+    const gatewayFailed = result.gateway !== null && !result.gateway.success
+    if (flags.json) {
+      console.log(JSON.stringify(result))
+      return { success: !gatewayFailed }
+    }
+
+    for (const cert of result.renewed) {
+      console.log(
+        `✓ Renewed ${cert.name} (${cert.domains.join(', ')}): expires ${formatDate(cert.expires)}, was ${formatDate(cert.previousExpires)}`,
+      )
+    }
+    for (const cert of result.skipped) {
+      if (cert.reason !== 'imported') continue
+      console.log(
+        `⚠ Skipped ${cert.name} (${cert.domains.join(', ')}): imported certificate expires ${formatDate(cert.expires)}; replace it with \`denvig certs import\``,
+      )
+    }
+    if (result.renewed.length === 0) {
+      console.log(
+        result.skipped.some((cert) => cert.reason === 'imported')
+          ? 'No locally-signed certificates were due for renewal.'
+          : 'No certificates are due for renewal.',
+      )
+    }
+
+    if (result.gateway) {
+      if (result.gateway.success) {
+        console.log('Gateway reconfigured with the renewed certificates.')
+      } else {
+        console.error(
+          `Gateway reconfiguration failed: ${result.gateway.message ?? 'unknown error'}`,
+        )
+      }
+    }
+
+    return { success: !gatewayFailed }
+  },
+})
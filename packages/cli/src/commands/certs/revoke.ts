@@ -0,0 +1,63 @@
+import { DenvigValidationError } from '@denvig/sdk'
+
+import { Command } from '../../lib/command.ts'
+import { confirm } from '../../lib/input.ts'
+
+import type { RevokeCertificateResult } from '@denvig/sdk'
+
+export const certsRevokeCommand = new Command({
+  name: 'certs:revoke',
+  description:
+    'Revoke a certificate issued by the local CA, adding it to the CRL served by the builtin gateway',
+  usage: 'certs revoke <domain>',
+  example: 'denvig certs revoke "*.denvig.localhost"',
+  args: [
+    {
+      name: 'domain',
+      description: 'Domain of the certificate to revoke (e.g., api.localhost)',
+      required: true,
+      type: 'string' as const,
+    },
+  ],
+  flags: [],
+  handler: async ({ sdk, args, flags }) => {
+    const domain = args.domain as string
+
+    if (!flags.json) {
+      const confirmed = await confirm(
+        `Revoke the certificate for ${domain}? This can't be undone.`,
+      )
+      if (!confirmed) {
+        console.log('Cancelled.')
+        return { success: true, message: 'Cancelled.' }
+      }
+    }
+
+    let result: RevokeCertificateResult
+    try {
+      result = await sdk.certs.revoke({ domain })
+    } catch (e) {
+      if (e instanceof DenvigValidationError) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message: e.message }))
+        } else {
+          console.error(e.message)
+        }
+        return { success: false, message: e.message }
+      }
+      throw e
+    }
+
+    if (flags.json) {
+      console.log(JSON.stringify({ success: true, ...result }))
+    } else {
+      console.log(
+        `Revoked ${result.name} (${result.domains.join(', ')}), serial ${result.serialNumber}`,
+      )
+      console.log(`  crl: ${result.crl}`)
+      console.log('Run `denvig certs renew` to issue a replacement.')
+    }
+
+    return { success: true, message: `Revoked ${result.name}.` }
+  },
+})
@@ -1,6 +1,7 @@
 import { resolve } from 'node:path'
 import { ProjectConfigSchema } from '@denvig/sdk'
 import { safeReadTextFile } from '@denvig/sdk/fs'
+import { verifyServiceDependencies } from '@denvig/sdk/internal'
 import { parse } from 'yaml'
 
 import { Command } from '../../lib/command.ts'
@@ -64,13 +65,19 @@ export const configVerifyCommand = new Command({
 
     const result = ProjectConfigSchema.safeParse(parsedYaml)
 
-    if (!result.success) {
+    // Service dependencies are checked once the schema passes: unknown
+    // same-project services and dependency cycles can't be started.
+    const issues = result.success
+      ? verifyServiceDependencies(result.data.services)
+      : result.error.issues
+
+    if (issues.length > 0) {
       if (flags.json) {
         console.log(
           JSON.stringify({
             valid: false,
             path: configPath,
-            errors: result.error.issues.map((issue) => ({
+            errors: issues.map((issue) => ({
               path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
               message: issue.message,
             })),
@@ -78,7 +85,7 @@ export const configVerifyCommand = new Command({
         )
       } else {
         console.error(`Config validation failed for ${configPath}:`)
-        for (const issue of result.error.issues) {
+        for (const issue of issues) {
           const path = issue.path.length > 0 ? issue.path.join('.') : '(root)'
           console.error(`  - ${path}: ${issue.message}`)
         }
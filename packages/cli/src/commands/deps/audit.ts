@@ -0,0 +1,131 @@
+import { DenvigValidationError } from '@denvig/sdk'
+import { ADVISORY_SEVERITIES, severityAtLeast } from '@denvig/sdk/internal'
+
+import { Command } from '../../lib/command.ts'
+import { COLORS } from '../../lib/formatters/table.ts'
+import { formatTree, mergeTreeNode } from '../../lib/formatters/tree.ts'
+
+import type {
+  AdvisorySeverity,
+  AuditDependenciesResult,
+  DependencyAdvisory,
+  TreeNode,
+} from '@denvig/sdk'
+
+const SEVERITY_COLORS: Record<AdvisorySeverity, string> = {
+  low: COLORS.grey,
+  moderate: COLORS.yellow,
+  high: COLORS.red,
+  critical: `${COLORS.bold}${COLORS.red}`,
+}
+
+/** Print an advisory with the dependency paths that pull it in. */
+const printAdvisory = (advisory: DependencyAdvisory) => {
+  const severity = advisory.severity ?? 'unknown'
+  const color = advisory.severity
+    ? SEVERITY_COLORS[advisory.severity]
+    : COLORS.grey
+  console.log(
+    `${color}${severity.toUpperCase()}${COLORS.reset} ${advisory.name}@${advisory.version} ${COLORS.grey}${advisory.id}${advisory.isDevDependency ? ' (dev)' : ''}${COLORS.reset}`,
+  )
+  if (advisory.summary) console.log(`  ${advisory.summary}`)
+  console.log(
+    `  ${COLORS.grey}Fixed in:${COLORS.reset} ${advisory.fixed.length > 0 ? advisory.fixed.join(', ') : 'no fix available'}`,
+  )
+
+  const trees: TreeNode[] = []
+  for (const path of advisory.paths) mergeTreeNode(trees, path)
+  const decorate = (node: TreeNode): TreeNode => ({
+    ...node,
+    color: node.name === advisory.name ? COLORS.white : COLORS.grey,
+    children: node.children.map(decorate),
+  })
+  for (const tree of trees) {
+    for (const line of formatTree(decorate(tree), '', true, true)) {
+      console.log(`  ${line}`)
+    }
+  }
+  console.log('')
+}
+
+export const depsAuditCommand = new Command({
+  name: 'deps:audit',
+  description: 'Check dependencies against a local OSV advisory database',
+  usage:
+    'deps audit [--database <path>] [--audit-level low|moderate|high|critical]',
+  example: 'denvig deps audit --audit-level high',
+  args: [],
+  flags: [
+    {
+      name: 'database',
+      description:
+        'OSV advisory JSON file or directory (defaults to ~/.cache/denvig/advisories)',
+      required: false,
+      type: 'string',
+      defaultValue: undefined,
+    },
+    {
+      name: 'audit-level',
+      description:
+        'Exit non-zero when an advisory at or above this severity is found: "low" (the default), "moderate", "high" or "critical"',
+      required: false,
+      type: 'string',
+      defaultValue: 'low',
+    },
+  ],
+  handler: async ({ project, flags }) => {
+    const level = (flags['audit-level'] as string | undefined) ?? 'low'
+
+    let result: AuditDependenciesResult
+    try {
+      if (!ADVISORY_SEVERITIES.includes(level as AdvisorySeverity)) {
+        throw new DenvigValidationError(
+          `Invalid --audit-level "${level}". Must be one of: ${ADVISORY_SEVERITIES.join(', ')}.`,
+        )
+      }
+      result = await project.dependencies.audit({
+        database: flags.database as string | undefined,
+      })
+    } catch (e) {
+      if (e instanceof DenvigValidationError) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message: e.message }))
+        } else {
+          console.error(e.message)
+        }
+        return { success: false, message: e.message }
+      }
+      throw e
+    }
+
+    const failing = result.advisories.filter((advisory) =>
+      severityAtLeast(advisory.severity, level as AdvisorySeverity),
+    )
+    const success = failing.length === 0
+    const count = result.advisories.length
+    const message =
+      count === 0
+        ? 'No known vulnerabilities found.'
+        : `Found ${count} vulnerabilit${count === 1 ? 'y' : 'ies'} (${ADVISORY_SEVERITIES.filter(
+            (severity) => result.counts[severity] > 0,
+          )
+            .reverse()
+            .map((severity) => `${result.counts[severity]} ${severity}`)
+            .join(', ')}).`
+
+    if (flags.json) {
+      console.log(JSON.stringify({ success, ...result }))
+      return { success, message }
+    }
+
+    for (const advisory of result.advisories) {
+      printAdvisory(advisory)
+    }
+    console.log(message)
+    if (!success && level !== 'low') {
+      console.log(`${failing.length} at or above the "${level}" audit level.`)
+    }
+
+    return { success, message }
+  },
+})
@@ -1,7 +1,9 @@
 import { Command } from '../../lib/command.ts'
+import { depsAuditCommand } from './audit.ts'
 import { depsDedupeCommand } from './dedupe.ts'
 import { depsListCommand } from './list.ts'
 import { depsOutdatedCommand } from './outdated.ts'
+import { depsUpgradeCommand } from './upgrade.ts'
 import { depsWhyCommand } from './why.ts'
 
 export const depsCommand = new Command({
@@ -14,7 +16,9 @@ export const depsCommand = new Command({
   subcommands: {
     list: depsListCommand,
     outdated: depsOutdatedCommand,
+    upgrade: depsUpgradeCommand,
     why: depsWhyCommand,
+    audit: depsAuditCommand,
     dedupe: depsDedupeCommand,
   },
   defaultSubcommand: 'list',
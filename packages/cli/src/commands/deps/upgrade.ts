@@ -0,0 +1,197 @@
+import { DenvigValidationError } from '@denvig/sdk'
+
+import { Command } from '../../lib/command.ts'
+import { COLORS, formatTable } from '../../lib/formatters/table.ts'
+
+import type { UpgradeDependenciesResult } from '@denvig/sdk'
+
+const LEVEL_COLORS = {
+  patch: COLORS.green,
+  minor: COLORS.yellow,
+  major: COLORS.red,
+}
+
+/** Print a manifest diff with removed lines red and added lines green. */
+const printDiff = (change: UpgradeDependenciesResult['changes'][number]) => {
+  console.log(change.path)
+  for (const line of change.diff) {
+    if (line.startsWith('-')) {
+      console.log(`${COLORS.red}${line}${COLORS.reset}`)
+    } else if (line.startsWith('+')) {
+      console.log(`${COLORS.green}${line}${COLORS.reset}`)
+    } else {
+      console.log(`${COLORS.grey}${line}${COLORS.reset}`)
+    }
+  }
+  console.log('')
+}
+
+export const depsUpgradeCommand = new Command({
+  name: 'deps:upgrade',
+  description:
+    'Upgrade outdated dependencies by rewriting their version ranges and reinstalling',
+  usage:
+    'deps upgrade [names...] [--semver patch|minor|major] [--ecosystem <name>] [--dry-run] [--no-install]',
+  example: 'denvig deps upgrade --semver minor --dry-run',
+  args: [
+    {
+      name: 'names',
+      description: 'Only upgrade these packages (defaults to all outdated)',
+      required: false,
+      type: 'string',
+    },
+  ],
+  flags: [
+    {
+      name: 'semver',
+      description:
+        'Highest update level to apply: "patch", "minor" (minor and patch) or "major" (any update, the default)',
+      required: false,
+      type: 'string',
+      defaultValue: undefined,
+    },
+    {
+      name: 'ecosystem',
+      description: 'Only upgrade dependencies from this ecosystem (e.g., npm)',
+      required: false,
+      type: 'string',
+      defaultValue: undefined,
+    },
+    {
+      name: 'dry-run',
+      description: 'Show the manifest changes without writing or installing',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'no-install',
+      description: 'Rewrite manifests without running the install action',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'no-cache',
+      description: 'Skip cache and fetch fresh data from registry',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'release-latency',
+      description:
+        'Only upgrade to versions released longer ago than this duration (e.g., "3h", "7d"). Use "auto" to read from pnpm minimumReleaseAge with a 24h fallback, or "0" to disable.',
+      required: false,
+      type: 'string',
+      defaultValue: 'auto',
+    },
+  ],
+  acceptsExtraArgs: true,
+  handler: async ({ project, args, flags, extraArgs = [] }) => {
+    const unknownFlag = extraArgs.find((arg) => arg.startsWith('-'))
+    if (unknownFlag) {
+      const message = `Unknown flag: ${unknownFlag}`
+      console.error(message)
+      return { success: false, message }
+    }
+    const names = [...(args.names ? [String(args.names)] : []), ...extraArgs]
+    const dryRun = flags['dry-run'] as boolean
+
+    let result: UpgradeDependenciesResult
+    try {
+      result = await project.dependencies.upgrade({
+        names,
+        semver: flags.semver as 'patch' | 'minor' | 'major' | undefined,
+        ecosystem: flags.ecosystem as string | undefined,
+        dryRun,
+        install: !flags['no-install'],
+        noCache: flags['no-cache'] as boolean,
+        releaseLatency: flags['release-latency'] as string | undefined,
+        ...(flags.json
+          ? {
+              onCommand: (line: string) => console.error(line),
+              onOutput: (line: string) => console.error(line),
+            }
+          : {}),
+      })
+    } catch (e) {
+      if (e instanceof DenvigValidationError) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message: e.message }))
+        } else {
+          console.error(e.message)
+        }
+        return { success: false, message: e.message }
+      }
+      throw e
+    }
+
+    const success = result.installs.every((install) => install.success)
+    const count = result.upgrades.length
+    const noun = `dependenc${count === 1 ? 'y' : 'ies'}`
+    const message =
+      count === 0
+        ? 'No dependencies to upgrade.'
+        : dryRun
+          ? `${count} ${noun} can be upgraded. Run without --dry-run to apply.`
+          : success
+            ? `Upgraded ${count} ${noun}.`
+            : `Upgraded ${count} ${noun}, but the install failed.`
+
+    if (flags.json) {
+      console.log(JSON.stringify({ success, ...result }))
+      return { success, message }
+    }
+
+    if (dryRun) {
+      for (const change of result.changes) {
+        printDiff(change)
+      }
+    }
+
+    if (count > 0) {
+      const lines = formatTable({
+        columns: [
+          { header: 'Package', accessor: (u) => u.name },
+          {
+            header: '',
+            accessor: (u) =>
+              u.isDevDependency ? `${COLORS.grey}(dev)${COLORS.reset}` : '    ',
+          },
+          { header: 'From', accessor: (u) => u.from },
+          {
+            header: 'To',
+            accessor: (u) => u.to,
+            format: (value, u) =>
+              `${LEVEL_COLORS[u.level]}${value}${COLORS.reset}`,
+          },
+          { header: 'Ecosystem', accessor: (u) => u.ecosystem },
+        ],
+        data: result.upgrades,
+      })
+      for (const line of lines) {
+        console.log(line)
+      }
+      console.log('')
+    }
+
+    // Explain each skipped package when they were named; otherwise just count
+    // them, as every outdated dependency without an allowed update is skipped.
+    if (names.length > 0) {
+      for (const skipped of result.skipped) {
+        console.log(
+          `${COLORS.grey}Skipped ${skipped.name}: ${skipped.reason}${COLORS.reset}`,
+        )
+      }
+    } else if (result.skipped.length > 0) {
+      console.log(
+        `${COLORS.grey}Skipped ${result.skipped.length} outdated dependenc${result.skipped.length === 1 ? 'y' : 'ies'} (use --json for reasons)${COLORS.reset}`,
+      )
+    }
+    if (result.skipped.length > 0) console.log('')
+
+    console.log(message)
+    return { success, message }
+  },
+})
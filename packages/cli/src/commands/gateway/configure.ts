@@ -1,10 +1,13 @@
 import { Command } from '../../lib/command.ts'
-import { formatGatewayService } from '../../lib/formatters/gateway-service.ts'
+import {
+  formatGatewayService,
+  gatewayHandlerLabel,
+} from '../../lib/formatters/gateway-service.ts'
 
 export const gatewayConfigureCommand = new Command({
   name: 'gateway:configure',
   description:
-    'Reconcile launchctl with ~/.denvig/state.json and rebuild all nginx configs',
+    'Reconcile the service supervisor with ~/.denvig/state.json and rebuild the gateway config (or start the builtin gateway)',
   usage: 'gateway configure',
   example: 'gateway configure',
   args: [],
@@ -52,6 +55,9 @@ export const gatewayConfigureCommand = new Command({
           `reconcile: ${err.project}/${err.service}: ${err.message}`,
         )
       }
+      for (const warning of reconcileResult.warnings) {
+        console.error(`⚠ cert ${warning.cert}: ${warning.message}`)
+      }
       console.log('')
 
       if (result.removed.length > 0) {
@@ -73,10 +79,14 @@ export const gatewayConfigureCommand = new Command({
               projectSlug: service.projectSlug,
               serviceName: service.serviceName,
               domains: [service.domain, ...service.cnames],
+              path: service.path,
+              stripPrefix: service.stripPrefix,
               port: service.port,
               certStatus: service.certStatus,
               certDir: service.certDir,
               certMessage: service.certMessage,
+              conflicts: service.conflicts,
+              handler: result.handler,
               nginxOk: service.configStatus === 'written',
               nginxLabel:
                 service.configStatus === 'written' ? 'configured' : 'error',
@@ -87,10 +97,31 @@ export const gatewayConfigureCommand = new Command({
         }
       }
 
-      if (result.nginxReload) {
-        console.log('Nginx reloaded successfully')
+      if (result.builtin) {
+        console.log(
+          result.builtin.running
+            ? `Builtin gateway running (pid ${result.builtin.pid})`
+            : `Builtin gateway failed to start: ${result.builtin.message}`,
+        )
+      } else if (result.reload === null) {
+        console.log(
+          `${gatewayHandlerLabel(result.handler)} picks up the new config through its file provider`,
+        )
+      } else if (result.reload.success) {
+        console.log(
+          `${gatewayHandlerLabel(result.handler)} reloaded successfully`,
+        )
       } else {
-        console.log(`Nginx reload failed: ${result.nginxReloadMessage}`)
+        console.log(
+          `${gatewayHandlerLabel(result.handler)} reload failed: ${result.reload.message}`,
+        )
+      }
+      if (result.dns) {
+        console.log(
+          result.dns.running
+            ? `DNS server running (pid ${result.dns.pid})`
+            : `DNS server failed to start: ${result.dns.message}`,
+        )
       }
       console.log('')
     }
@@ -0,0 +1,49 @@
+import { Command } from '../../../lib/command.ts'
+
+export const gatewayDnsHostsCommand = new Command({
+  name: 'gateway:dns:hosts',
+  description:
+    'Sync the routed gateway domains into a denvig-managed block of the hosts file',
+  usage: 'gateway dns hosts [--file <path>] [--remove]',
+  example: 'sudo denvig gateway dns hosts',
+  args: [],
+  flags: [
+    {
+      name: 'file',
+      description: 'Hosts file to update (defaults to gateway.dns.hostsFile)',
+      required: false,
+      type: 'string',
+    },
+    {
+      name: 'remove',
+      description: 'Remove the denvig block instead of updating it',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+  ],
+  handler: async ({ sdk, flags }) => {
+    const result = await sdk.gateway.dns.hosts({
+      file: typeof flags.file === 'string' ? flags.file : undefined,
+      remove: flags.remove === true,
+    })
+
+    const message = !result.success
+      ? (result.message ?? `Failed to update ${result.file}`)
+      : !result.changed
+        ? `${result.file} is already up to date`
+        : flags.remove
+          ? `Removed the denvig block from ${result.file}`
+          : `Wrote ${result.domains.length} domain${result.domains.length === 1 ? '' : 's'} to ${result.file}`
+
+    if (flags.json) {
+      console.log(JSON.stringify({ ...result, message }))
+    } else if (result.success) {
+      console.log(message)
+    } else {
+      console.error(message)
+    }
+
+    return { success: result.success, message }
+  },
+})
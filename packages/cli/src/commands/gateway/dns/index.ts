@@ -0,0 +1,21 @@
+import { Command } from '../../../lib/command.ts'
+import { gatewayDnsHostsCommand } from './hosts.ts'
+import { gatewayDnsServeCommand } from './serve.ts'
+import { gatewayDnsStatusCommand } from './status.ts'
+
+export const gatewayDnsCommand = new Command({
+  name: 'gateway:dns',
+  description:
+    'Resolve gateway domains with the denvig DNS server or hosts file',
+  usage: 'gateway dns <subcommand>',
+  example: 'denvig gateway dns status',
+  args: [],
+  flags: [],
+  subcommands: {
+    status: gatewayDnsStatusCommand,
+    hosts: gatewayDnsHostsCommand,
+    serve: gatewayDnsServeCommand,
+  },
+  defaultSubcommand: 'status',
+  handler: gatewayDnsStatusCommand.handler,
+})
@@ -0,0 +1,64 @@
+import {
+  getGlobalConfig,
+  removeGatewayProcessPid,
+  startDnsServer,
+  writeGatewayProcessPid,
+} from '@denvig/sdk/internal'
+
+import { Command } from '../../../lib/command.ts'
+
+import type { DnsServer } from '@denvig/sdk/internal'
+
+export const gatewayDnsServeCommand = new Command({
+  name: 'gateway:dns:serve',
+  description:
+    'Run the DNS server in the foreground (started automatically when gateway.dns.enabled is set)',
+  usage: 'gateway dns serve [--port <port>]',
+  example: 'gateway dns serve --port 5300',
+  args: [],
+  flags: [
+    {
+      name: 'port',
+      description: 'Port to listen on (defaults to gateway.dns.port)',
+      required: false,
+      type: 'number',
+    },
+  ],
+  handler: async ({ flags }) => {
+    const { dns: config } = (await getGlobalConfig()).gateway
+    const timestamp = () => new Date().toISOString()
+
+    let server: DnsServer
+    try {
+      server = await startDnsServer({
+        port: typeof flags.port === 'number' ? flags.port : config.port,
+        host: config.host,
+        suffix: config.suffix,
+        upstream: config.upstream,
+        onLog: (message) => console.log(`[${timestamp()}] ${message}`),
+      })
+    } catch (e) {
+      const message = `Failed to start the DNS server: ${e instanceof Error ? e.message : String(e)}`
+      console.error(message)
+      return { success: false, message }
+    }
+
+    await writeGatewayProcessPid('dns', process.pid)
+    const count = server.domains().length
+    console.log(
+      `[${timestamp()}] DNS server listening on ${config.host}:${server.ports.udp} with ${count} domain${count === 1 ? '' : 's'}${config.suffix ? ` and *.${config.suffix}` : ''}, forwarding to ${server.upstream ?? 'nothing (no upstream resolver)'}`,
+    )
+
+    const onHangup = () => void server.reload()
+    process.on('SIGHUP', onHangup)
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => resolve())
+      process.once('SIGTERM', () => resolve())
+    })
+    process.off('SIGHUP', onHangup)
+
+    await server.close()
+    await removeGatewayProcessPid('dns', process.pid)
+    return { success: true, message: 'DNS server stopped' }
+  },
+})
@@ -0,0 +1,49 @@
+import { Command } from '../../../lib/command.ts'
+
+export const gatewayDnsStatusCommand = new Command({
+  name: 'gateway:dns:status',
+  description: 'Show the DNS server state and the domains it answers for',
+  usage: 'gateway dns status',
+  example: 'denvig gateway dns status',
+  args: [],
+  flags: [],
+  handler: async ({ sdk, flags }) => {
+    const status = await sdk.gateway.dns.status()
+
+    if (flags.json) {
+      console.log(JSON.stringify(status))
+      return { success: true, message: 'DNS status retrieved' }
+    }
+
+    const statusLabel = status.process.running
+      ? `Started (pid ${status.process.pid})`
+      : status.enabled
+        ? 'Stopped (run `denvig gateway configure` to start it)'
+        : 'Stopped (set gateway.dns.enabled to start it with the gateway)'
+
+    console.log('')
+    console.log('Gateway DNS')
+    console.log('===========')
+    console.log('')
+    console.log(`Status:    ${statusLabel}`)
+    console.log(`Listen:    ${status.host}:${status.port} (udp, tcp)`)
+    console.log(`Suffix:    ${status.suffix ? `*.${status.suffix}` : 'none'}`)
+    console.log(`Upstream:  ${status.upstream ?? 'none'}`)
+    console.log(
+      `Hosts:     ${status.hostsFile} (${status.hostsSynced ? 'in sync' : 'out of sync, run `denvig gateway dns hosts`'})`,
+    )
+    console.log('')
+
+    if (status.domains.length === 0) {
+      console.log('No running services are routed through the gateway')
+    } else {
+      console.log('Domains:')
+      for (const domain of status.domains) {
+        console.log(`  ${domain}`)
+      }
+    }
+    console.log('')
+
+    return { success: true, message: 'DNS status retrieved' }
+  },
+})
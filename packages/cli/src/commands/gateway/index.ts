@@ -1,10 +1,13 @@
 import { Command } from '../../lib/command.ts'
 import { gatewayConfigureCommand } from './configure.ts'
+import { gatewayDnsCommand } from './dns/index.ts'
+import { gatewayLogsCommand } from './logs.ts'
+import { gatewayServeCommand } from './serve.ts'
 import { gatewayStatusCommand } from './status.ts'
 
 export const gatewayCommand = new Command({
   name: 'gateway',
-  description: 'Manage nginx gateway proxy for local domains',
+  description: 'Manage the gateway proxy for local domains',
   usage: 'gateway <subcommand>',
   example: 'denvig gateway status',
   args: [],
@@ -12,6 +15,9 @@ export const gatewayCommand = new Command({
   subcommands: {
     status: gatewayStatusCommand,
     configure: gatewayConfigureCommand,
+    serve: gatewayServeCommand,
+    logs: gatewayLogsCommand,
+    dns: gatewayDnsCommand,
   },
   defaultSubcommand: 'status',
   handler: () => ({ success: true }),
@@ -0,0 +1,100 @@
+import { DenvigValidationError } from '@denvig/sdk'
+
+import { Command } from '../../lib/command.ts'
+import { formatGatewayLogEntry } from '../../lib/formatters/gateway-log.ts'
+
+import type { GatewayLogEntry } from '@denvig/sdk'
+
+export const gatewayLogsCommand = new Command({
+  name: 'gateway:logs',
+  description:
+    'Show requests proxied by the gateway with their status and upstream latency',
+  usage: 'gateway logs [service] [-n <lines>] [-f] [--status <codes>] [--json]',
+  example: 'gateway logs api -f --status 5xx',
+  args: [
+    {
+      name: 'service',
+      description: 'Only show requests for this service (name or slug/name)',
+      required: false,
+      type: 'string',
+    },
+  ],
+  flags: [
+    {
+      name: 'lines',
+      description: 'Number of requests to show (use -n)',
+      required: false,
+      type: 'number',
+      defaultValue: 10,
+      short: 'n',
+    },
+    {
+      name: 'follow',
+      description: 'Keep printing requests as they arrive (use -f)',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+      short: 'f',
+    },
+    {
+      name: 'status',
+      description:
+        'Only show these status codes, e.g. 404, 5xx or 4xx,5xx (comma-separated)',
+      required: false,
+      type: 'string',
+    },
+  ],
+  handler: async ({ sdk, args, flags }) => {
+    const options = {
+      service: typeof args.service === 'string' ? args.service : undefined,
+      status: typeof flags.status === 'string' ? flags.status : undefined,
+    }
+    const print = (entry: GatewayLogEntry) =>
+      console.log(
+        flags.json ? JSON.stringify(entry) : formatGatewayLogEntry(entry),
+      )
+
+    let entries: GatewayLogEntry[]
+    try {
+      entries = await sdk.gateway.logs({
+        ...options,
+        lines: (flags.lines as number) ?? 10,
+      })
+    } catch (e) {
+      if (e instanceof DenvigValidationError) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message: e.message }))
+        } else {
+          console.error(e.message)
+        }
+        return { success: false, message: e.message }
+      }
+      throw e
+    }
+
+    if (!flags.follow) {
+      if (flags.json) {
+        console.log(JSON.stringify(entries))
+      } else if (entries.length === 0) {
+        console.log(
+          options.service || options.status
+            ? 'No matching gateway requests.'
+            : 'No gateway requests logged yet.',
+        )
+      } else {
+        for (const entry of entries) print(entry)
+      }
+      return { success: true }
+    }
+
+    // Following streams one JSON object per line with --json.
+    for (const entry of entries) print(entry)
+    const stop = await sdk.gateway.followLogs(options, print)
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => resolve())
+      process.once('SIGTERM', () => resolve())
+    })
+    stop()
+    return { success: true }
+  },
+})
@@ -0,0 +1,75 @@
+import {
+  getGlobalConfig,
+  removeBuiltinGatewayPid,
+  startBuiltinGateway,
+  writeBuiltinGatewayPid,
+} from '@denvig/sdk/internal'
+
+import { Command } from '../../lib/command.ts'
+
+import type { BuiltinGateway } from '@denvig/sdk/internal'
+
+export const gatewayServeCommand = new Command({
+  name: 'gateway:serve',
+  description:
+    'Run the builtin gateway proxy in the foreground (started automatically when gateway.handler is builtin)',
+  usage: 'gateway serve [--http-port <port>] [--https-port <port>]',
+  example: 'gateway serve --http-port 8080 --https-port 8443',
+  args: [],
+  flags: [
+    {
+      name: 'http-port',
+      description: 'Port to listen on for HTTP (defaults to gateway.httpPort)',
+      required: false,
+      type: 'number',
+    },
+    {
+      name: 'https-port',
+      description:
+        'Port to listen on for HTTPS (defaults to gateway.httpsPort)',
+      required: false,
+      type: 'number',
+    },
+  ],
+  handler: async ({ flags }) => {
+    const { gateway: config } = await getGlobalConfig()
+    const timestamp = () => new Date().toISOString()
+
+    let gateway: BuiltinGateway
+    try {
+      gateway = await startBuiltinGateway({
+        httpPort:
+          typeof flags['http-port'] === 'number'
+            ? flags['http-port']
+            : config.httpPort,
+        httpsPort:
+          typeof flags['https-port'] === 'number'
+            ? flags['https-port']
+            : config.httpsPort,
+        onLog: (message) => console.log(`[${timestamp()}] ${message}`),
+      })
+    } catch (e) {
+      const message = `Failed to start the builtin gateway: ${e instanceof Error ? e.message : String(e)}`
+      console.error(message)
+      return { success: false, message }
+    }
+
+    await writeBuiltinGatewayPid(process.pid)
+    console.log(
+      `[${timestamp()}] Builtin gateway listening on :${gateway.ports.http} (http) and :${gateway.ports.https} (https) with ${gateway.routes().length} route${gateway.routes().length === 1 ? '' : 's'}`,
+    )
+
+    // SIGHUP forces a reload, e.g. after certs are renewed in place.
+    const onHangup = () => void gateway.reload()
+    process.on('SIGHUP', onHangup)
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => resolve())
+      process.once('SIGTERM', () => resolve())
+    })
+    process.off('SIGHUP', onHangup)
+
+    await gateway.close()
+    await removeBuiltinGatewayPid(process.pid)
+    return { success: true, message: 'Builtin gateway stopped' }
+  },
+})
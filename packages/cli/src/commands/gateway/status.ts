@@ -15,7 +15,9 @@ export const gatewayStatusCommand = new Command({
       console.log(
         JSON.stringify({
           handler: status.handler,
+          configPath: status.configPath,
           nginx: status.nginx,
+          process: status.process,
           nginxConf: status.nginxConf,
           configsPath: status.configsPath,
           services: status.services,
@@ -30,14 +32,17 @@ export const gatewayStatusCommand = new Command({
     console.log('==============')
     console.log('')
 
-    const statusLabel = status.nginx.running
-      ? `Started (pid ${status.nginx.pid})`
+    const statusLabel = status.process.running
+      ? `Started (pid ${status.process.pid})`
       : 'Stopped'
 
     console.log(`Status:    ${statusLabel}`)
     console.log(`Handler:   ${status.handler}`)
-    console.log(`Config:    ${status.nginxConf}`)
-    console.log(`Configs:   ${status.configsPath}`)
+    console.log(`Config:    ${status.configPath}`)
+    if (status.handler === 'nginx') {
+      console.log(`Include:   ${status.nginxConf}`)
+      console.log(`Configs:   ${status.configsPath}`)
+    }
     console.log('')
 
     if (status.services.length === 0) {
@@ -64,12 +69,23 @@ export const gatewayStatusCommand = new Command({
           projectSlug: service.projectSlug,
           serviceName: service.name,
           domains: [service.domain, ...service.cnames],
+          path: service.path,
+          stripPrefix: service.stripPrefix,
           port: service.port,
           certStatus: service.certStatus,
           certDir: service.certDir,
           certMessage: service.certMessage,
+          conflicts: service.conflicts,
+          handler: status.handler,
           nginxOk: service.nginxConfigExists,
-          nginxLabel: service.nginxConfigExists ? 'configured' : 'missing',
+          nginxLabel:
+            status.handler === 'builtin'
+              ? service.nginxConfigExists
+                ? 'routed'
+                : 'not running'
+              : service.nginxConfigExists
+                ? 'configured'
+                : 'missing',
         }),
       )
       console.log('')
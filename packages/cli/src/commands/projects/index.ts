@@ -1,5 +1,6 @@
 import { Command } from '../../lib/command.ts'
 import { projectsListCommand } from './list.ts'
+import { projectsRunCommand } from './run.ts'
 
 export const projectsCommand = new Command({
   name: 'projects',
@@ -10,6 +11,7 @@ export const projectsCommand = new Command({
   flags: [],
   subcommands: {
     list: projectsListCommand,
+    run: projectsRunCommand,
   },
   defaultSubcommand: 'list',
   handler: () => ({ success: true }),
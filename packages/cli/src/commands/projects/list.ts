@@ -1,4 +1,7 @@
-import { type LaunchctlListItem, launchctl } from '@denvig/sdk/internal'
+import {
+  getServiceSupervisor,
+  type LaunchctlListItem,
+} from '@denvig/sdk/internal'
 import { prettyPath } from '@denvig/sdk/utils'
 
 import { Command } from '../../lib/command.ts'
@@ -62,7 +65,7 @@ export const projectsListCommand = new Command({
     }
 
     // JSON output: one entry per project, worktrees nested via the existing
-    // `worktrees` field. Skips launchctl calls for performance.
+    // `worktrees` field. Skips supervisor calls for performance.
     if (flags.json) {
       const entries: ProjectInfoJSON[] = []
       for (const project of projects) {
@@ -74,8 +77,8 @@ export const projectsListCommand = new Command({
       return { success: true, message: 'Projects listed successfully.' }
     }
 
-    // CLI output: pre-fetch launchctl list once to avoid N shell calls.
-    const launchctlList = await launchctl.list('denvig.')
+    // CLI output: pre-fetch the supervisor list once to avoid N shell calls.
+    const launchctlList = await getServiceSupervisor().list('denvig.')
 
     const rows: ProjectRow[] = []
     for (const project of projects) {
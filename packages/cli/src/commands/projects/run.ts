@@ -0,0 +1,141 @@
+import { prettyPath } from '@denvig/sdk/utils'
+
+import { Command } from '../../lib/command.ts'
+import { formatDuration } from '../../lib/formatters/duration.ts'
+import { COLORS, formatTable } from '../../lib/formatters/table.ts'
+
+import type { ProjectRunResult } from '@denvig/sdk'
+
+export const projectsRunCommand = new Command({
+  name: 'projects:run',
+  description: 'Run an action in every project that defines it',
+  usage:
+    'projects run <action> [--filter <pattern>] [--with-config] [--concurrency <n>]',
+  example: 'projects run outdated --filter "github:acme/*"',
+  args: [
+    {
+      name: 'action',
+      description: 'The action to run in each project',
+      required: true,
+      type: 'string',
+    },
+  ],
+  flags: [
+    {
+      name: 'filter',
+      description:
+        'Only run in projects whose slug or name matches one of these comma-separated globs',
+      required: false,
+      type: 'string',
+    },
+    {
+      name: 'with-config',
+      description: 'Only run in projects with a .denvig.yml configuration file',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'concurrency',
+      description:
+        'The maximum number of projects to run at once (defaults to the number of CPUs)',
+      required: false,
+      type: 'number',
+    },
+  ],
+  acceptsExtraArgs: true,
+  handler: async ({ sdk, args, flags, extraArgs = [] }) => {
+    const action = args.action as string
+    const concurrency =
+      typeof flags.concurrency === 'number' ? flags.concurrency : undefined
+    if (
+      concurrency !== undefined &&
+      (!Number.isInteger(concurrency) || concurrency < 1)
+    ) {
+      const message = '--concurrency must be a positive integer.'
+      if (flags.json) {
+        console.log(JSON.stringify({ success: false, message }))
+      } else {
+        console.error(message)
+      }
+      return { success: false, message }
+    }
+
+    const prefix = (project: { name: string }) => `[${project.name}]`
+    let results: ProjectRunResult[]
+    try {
+      results = await sdk.projects.run(action, {
+        args: extraArgs,
+        filter: typeof flags.filter === 'string' ? flags.filter : undefined,
+        withConfig: flags['with-config'] as boolean,
+        concurrency,
+        ...(flags.json
+          ? {}
+          : {
+              onCommand: (project, line) =>
+                console.log(`${prefix(project)} ${line}`),
+              onOutput: (project, line, stream) => {
+                const target = stream === 'stderr' ? console.error : console.log
+                target(`${prefix(project)} ${line}`)
+              },
+            }),
+      })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      if (flags.json) {
+        console.log(JSON.stringify({ success: false, message }))
+      } else {
+        console.error(message)
+      }
+      return { success: false, message }
+    }
+
+    const ran = results.filter((result) => result.status !== 'skipped')
+    const failed = ran.filter((result) => result.status === 'failed')
+    const success = failed.length === 0
+    const message =
+      ran.length === 0
+        ? `No projects define a "${action}" action.`
+        : success
+          ? `${action} passed in ${ran.length} project${ran.length === 1 ? '' : 's'}.`
+          : `${action} failed in ${failed.length} of ${ran.length} projects.`
+
+    if (flags.json) {
+      console.log(JSON.stringify({ success, results }))
+      return { success, message }
+    }
+
+    if (ran.length > 0) {
+      console.log('')
+      const lines = formatTable({
+        columns: [
+          { header: 'Project', accessor: (r) => r.name },
+          {
+            header: 'Status',
+            accessor: (r) =>
+              r.reason ? `${r.status} (${r.reason})` : r.status,
+            format: (value, r) =>
+              `${r.status === 'passed' ? COLORS.green : COLORS.red}${value}${COLORS.reset}`,
+          },
+          { header: 'Duration', accessor: (r) => formatDuration(r.durationMs) },
+          { header: 'Path', accessor: (r) => prettyPath(r.path) },
+        ],
+        data: ran,
+      })
+      for (const line of lines) {
+        console.log(line)
+      }
+      console.log('')
+    }
+
+    const skipped = results.length - ran.length
+    if (skipped > 0) {
+      console.log(
+        `${COLORS.grey}Skipped ${skipped} project${skipped === 1 ? '' : 's'} without a "${action}" action.${COLORS.reset}`,
+      )
+    }
+    console.log(message)
+
+    return { success, message }
+  },
+})
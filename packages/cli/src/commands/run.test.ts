@@ -1,4 +1,7 @@
 import { match, strictEqual } from 'node:assert'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { describe, it } from 'node:test'
 
 import { runTestCommand } from '../test/utils/runTestCommand.ts'
@@ -26,6 +29,74 @@ describe('commands / run', () => {
     )
   })
 
+  it('should pass --force and --explain through to the command', async () => {
+    const result = await runTestCommand('denvig run args --force --explain', {
+      cwd: 'src/test/examples/npm',
+      env: {
+        DENVIG_GLOBAL_CONFIG_PATH: `../../.denvig.global.test.yml`,
+      },
+    })
+
+    strictEqual(result.code, 0)
+    match(result.stdout, /^args --force --explain$/m)
+  })
+
+  it('should only consume --force and --explain for actions with inputs', async () => {
+    const home = mkdtempSync(join(tmpdir(), 'denvig-run-cache-'))
+    const options = {
+      cwd: 'src/test/examples/npm',
+      env: {
+        HOME: home,
+        DENVIG_GLOBAL_CONFIG_PATH: `../../.denvig.global.test.yml`,
+      },
+    }
+    try {
+      const forced = await runTestCommand(
+        'denvig run cached --force --explain',
+        options,
+      )
+      strictEqual(forced.code, 0)
+      match(forced.stdout, /cached: cache bypassed \(--force\)/)
+      match(forced.stdout, /^cached$/m)
+
+      const forwarded = await runTestCommand(
+        'denvig run cached -- --force',
+        options,
+      )
+      strictEqual(forwarded.code, 0)
+      match(forwarded.stdout, /^cached --force$/m)
+    } finally {
+      rmSync(home, { recursive: true, force: true })
+    }
+  })
+
+  it('should pass --filter and --concurrency through without --workspaces', async () => {
+    const result = await runTestCommand(
+      'denvig run args --filter api --concurrency 2',
+      {
+        cwd: 'src/test/examples/npm',
+        env: {
+          DENVIG_GLOBAL_CONFIG_PATH: `../../.denvig.global.test.yml`,
+        },
+      },
+    )
+
+    strictEqual(result.code, 0)
+    match(result.stdout, /^args --filter api --concurrency 2$/m)
+  })
+
+  it('should use --filter to select packages with --workspaces', async () => {
+    const result = await runTestCommand(
+      'denvig run lint --workspaces --filter nothing-matches',
+    )
+
+    strictEqual(result.code, 1)
+    strictEqual(
+      result.stderr,
+      'No workspace package matching "nothing-matches" defines a "lint" script.',
+    )
+  })
+
   it('should display usage when no action is provided', async () => {
     const result = await runTestCommand('denvig run')
 
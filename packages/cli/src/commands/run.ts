@@ -1,10 +1,116 @@
 import { Command } from '../lib/command.ts'
+import { formatDuration } from '../lib/formatters/duration.ts'
+import { COLORS, formatTable } from '../lib/formatters/table.ts'
+
+import type { DenvigProject, WorkspaceRunResult } from '@denvig/sdk'
+
+/**
+ * Remove the first occurrence of each flag from `args`. Flags given before a
+ * `--` separator come first, so later copies meant for the command are kept.
+ */
+const withoutFlags = (args: string[], flags: string[]): string[] => {
+  const remaining = [...args]
+  for (const flag of flags) {
+    const index = remaining.indexOf(flag)
+    if (index !== -1) remaining.splice(index, 1)
+  }
+  return remaining
+}
+
+/**
+ * Run an action in each workspace package and print a summary table.
+ */
+const runInWorkspaces = async (
+  project: DenvigProject,
+  action: string,
+  flags: Record<string, unknown>,
+  extraArgs: string[],
+): Promise<{ success: boolean; message: string }> => {
+  const concurrency =
+    typeof flags.concurrency === 'number' ? flags.concurrency : undefined
+  if (
+    concurrency !== undefined &&
+    (!Number.isInteger(concurrency) || concurrency < 1)
+  ) {
+    const message = '--concurrency must be a positive integer.'
+    console.error(message)
+    return { success: false, message }
+  }
+
+  let results: WorkspaceRunResult[]
+  try {
+    results = await project.workspaces.run(action, {
+      args: extraArgs,
+      filter: typeof flags.filter === 'string' ? flags.filter : undefined,
+      concurrency,
+      onStart: (pkg, command) =>
+        flags.json ? undefined : console.log(`[${pkg.name}] $ ${command}`),
+      onOutput: flags.json
+        ? () => {}
+        : (pkg, line, stream) => {
+            const target = stream === 'stderr' ? console.error : console.log
+            target(`[${pkg.name}] ${line}`)
+          },
+    })
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    if (flags.json) {
+      console.log(JSON.stringify({ success: false, message }))
+    } else {
+      console.error(message)
+    }
+    return { success: false, message }
+  }
+
+  const success = results.every((result) => result.status === 'passed')
+  const failed = results.filter((result) => result.status === 'failed').length
+  const message = success
+    ? `${action} passed in ${results.length} package${results.length === 1 ? '' : 's'}.`
+    : `${action} failed in ${failed} of ${results.length} packages.`
+
+  if (flags.json) {
+    console.log(JSON.stringify({ success, results }))
+    return { success, message }
+  }
+
+  const statusColors = {
+    passed: COLORS.green,
+    failed: COLORS.red,
+    skipped: COLORS.yellow,
+  }
+  console.log('')
+  const lines = formatTable({
+    columns: [
+      { header: 'Package', accessor: (r) => r.name },
+      {
+        header: 'Status',
+        accessor: (r) => (r.reason ? `${r.status} (${r.reason})` : r.status),
+        format: (value, r) =>
+          `${statusColors[r.status]}${value}${COLORS.reset}`,
+      },
+      {
+        header: 'Duration',
+        accessor: (r) =>
+          r.status === 'skipped' ? '-' : formatDuration(r.durationMs),
+      },
+    ],
+    data: results,
+  })
+  for (const line of lines) {
+    console.log(line)
+  }
+  console.log('')
+  console.log(message)
+
+  return { success, message }
+}
 
 export const runCommand = new Command({
   name: 'run',
   description:
     'Run an action from the project. If no action is specified, lists available actions.',
-  usage: 'run [action]',
+  usage:
+    'run [action] [--force] [--explain] [--workspaces [--filter <pattern>] [--concurrency <n>]]',
   example: 'run build',
   args: [
     {
@@ -14,7 +120,48 @@ export const runCommand = new Command({
       type: 'string',
     },
   ],
-  flags: [],
+  flags: [
+    {
+      name: 'force',
+      description:
+        'Run actions with inputs even when nothing changed since their last cached run (passed on to the commands of actions without inputs)',
+      required: false,
+      type: 'boolean',
+      forwarded: true,
+    },
+    {
+      name: 'explain',
+      description:
+        'Show why each action with inputs missed the cache (passed on to the commands of actions without inputs)',
+      required: false,
+      type: 'boolean',
+      forwarded: true,
+    },
+    {
+      name: 'workspaces',
+      description:
+        'Run the action as a package script in every pnpm, yarn or npm workspace package that defines it, in dependency order',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'filter',
+      description:
+        'With --workspaces, only run in packages whose name or path matches one of these comma-separated globs',
+      required: false,
+      type: 'string',
+      onlyWith: 'workspaces',
+    },
+    {
+      name: 'concurrency',
+      description:
+        'With --workspaces, the maximum number of packages to run at once (defaults to the number of CPUs)',
+      required: false,
+      type: 'number',
+      onlyWith: 'workspaces',
+    },
+  ],
   acceptsExtraArgs: true,
   completions: async ({ project }) => {
     const actions = await project.activeWorktree.actions
@@ -53,17 +200,39 @@ export const runCommand = new Command({
       return { success: true, message: 'No action specified.' }
     }
 
+    if (flags.workspaces) {
+      return runInWorkspaces(project, args.action as string, flags, extraArgs)
+    }
+
     let action: Awaited<ReturnType<typeof project.actions.retrieve>>
     try {
       action = await project.actions.retrieve(args.action as string)
-    } catch {
-      console.error(
-        `Action "${args.action}" not found in project ${worktree.name}.`,
-      )
-      return { success: false, message: `Action "${args.action}" not found.` }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      // Dependencies and steps can reference other actions, so only report the
+      // requested action as missing when it is the one that wasn't found.
+      if (message === `Action "${args.action}" not found.`) {
+        console.error(
+          `Action "${args.action}" not found in project ${worktree.name}.`,
+        )
+      } else {
+        console.error(message)
+      }
+      return { success: false, message }
     }
 
-    const result = await action.run({ args: extraArgs })
+    // --force and --explain only belong to denvig when the run cache applies;
+    // otherwise they are left for the action's commands.
+    const force = action.cached && flags.force === true
+    const explain = action.cached && flags.explain === true
+    const result = await action.run({
+      args: withoutFlags(extraArgs, [
+        ...(force ? ['--force'] : []),
+        ...(explain ? ['--explain'] : []),
+      ]),
+      force,
+      explain,
+    })
     return { success: result.success }
   },
 })
@@ -0,0 +1,102 @@
+import { prettyPath } from '@denvig/sdk/utils'
+
+import { Command } from '../../../lib/command.ts'
+
+export const servicesImportComposeCommand = new Command({
+  name: 'services:import:compose',
+  description:
+    'Import docker compose services into .denvig.yml as runtime: docker services',
+  usage: 'services import compose [file] [--dry-run] [--force]',
+  example: 'denvig services import compose docker-compose.yml',
+  args: [
+    {
+      name: 'file',
+      description:
+        'Compose file to import (defaults to compose.yaml, compose.yml, docker-compose.yaml or docker-compose.yml)',
+      required: false,
+      type: 'string',
+    },
+  ],
+  flags: [
+    {
+      name: 'dry-run',
+      description: 'Print the resulting .denvig.yml without writing it',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'force',
+      description: 'Replace services that are already configured',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+  ],
+  handler: async ({ project, args, flags }) => {
+    const dryRun = flags['dry-run'] as boolean
+
+    let result: Awaited<ReturnType<typeof project.services.importCompose>>
+    try {
+      result = await project.services.importCompose({
+        file: typeof args.file === 'string' ? args.file : undefined,
+        dryRun,
+        overwrite: flags.force as boolean,
+      })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      if (flags.json) {
+        console.log(JSON.stringify({ success: false, message }))
+      } else {
+        console.error(`✗ ${message}`)
+      }
+      return { success: false, message }
+    }
+
+    if (flags.json) {
+      const { content, ...summary } = result
+      console.log(
+        JSON.stringify({
+          success: true,
+          dryRun,
+          ...summary,
+          ...(dryRun ? { content } : {}),
+        }),
+      )
+      return { success: true, message: 'Compose services imported.' }
+    }
+
+    console.log(
+      `Importing ${prettyPath(result.composePath)} into ${prettyPath(result.configPath)}`,
+    )
+    console.log('')
+
+    for (const { from, to } of result.renamed) {
+      console.log(`  ${from} renamed to ${to}`)
+    }
+    for (const name of result.added) {
+      console.log(`✓ ${name}${dryRun ? ' would be added' : ' added'}`)
+    }
+    for (const name of result.skipped) {
+      console.log(`- ${name} is already configured (use --force to replace it)`)
+    }
+    if (result.added.length === 0 && result.skipped.length === 0) {
+      console.log('No services to import.')
+    }
+
+    if (result.unsupported.length > 0) {
+      console.log('')
+      console.log('Not imported:')
+      for (const { service, key, reason } of result.unsupported) {
+        console.log(`  ${service ? `${service}.${key}` : key}: ${reason}`)
+      }
+    }
+
+    if (dryRun) {
+      console.log('')
+      console.log(result.content.trimEnd())
+    }
+
+    return { success: true, message: 'Compose services imported.' }
+  },
+})
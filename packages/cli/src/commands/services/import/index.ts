@@ -0,0 +1,16 @@
+import { Command } from '../../../lib/command.ts'
+import { servicesImportComposeCommand } from './compose.ts'
+
+export const servicesImportCommand = new Command({
+  name: 'services:import',
+  description: 'Import services from other tools into .denvig.yml',
+  usage: 'services import <subcommand>',
+  example: 'denvig services import compose',
+  args: [],
+  flags: [],
+  subcommands: {
+    compose: servicesImportComposeCommand,
+  },
+  defaultSubcommand: 'compose',
+  handler: servicesImportComposeCommand.handler,
+})
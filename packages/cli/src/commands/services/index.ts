@@ -1,11 +1,14 @@
 import { Command } from '../../lib/command.ts'
+import { servicesImportCommand } from './import/index.ts'
 import { servicesListCommand } from './list.ts'
-import { logsCommand } from './logs.ts'
+import { servicesLogsCommand } from './logs/index.ts'
 import { servicesRestartCommand } from './restart.ts'
 import { servicesStartCommand } from './start.ts'
 import { servicesStatusCommand } from './status.ts'
 import { servicesStopCommand } from './stop.ts'
+import { servicesSupervisorCommand } from './supervisor/index.ts'
 import { servicesTeardownCommand } from './teardown.ts'
+import { servicesWatchCommand } from './watch/index.ts'
 
 export const servicesCommand = new Command({
   name: 'services',
@@ -20,8 +23,11 @@ export const servicesCommand = new Command({
     stop: servicesStopCommand,
     restart: servicesRestartCommand,
     status: servicesStatusCommand,
-    logs: logsCommand,
+    logs: servicesLogsCommand,
     teardown: servicesTeardownCommand,
+    import: servicesImportCommand,
+    supervisor: servicesSupervisorCommand,
+    watch: servicesWatchCommand,
   },
   defaultSubcommand: 'list',
   handler: () => ({ success: true }),
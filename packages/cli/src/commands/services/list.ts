@@ -12,7 +12,7 @@ export const servicesListCommand = new Command({
   name: 'services:list',
   description: 'List services for the current project',
   usage:
-    'services list [--all] [--no-worktrees] [--global] [--worktree <branch>] [--status <status>]',
+    'services list [--all] [--no-worktrees] [--global] [--worktree <branch>] [--status <status>] [--health]',
   example: 'services list',
   args: [],
   flags: [
@@ -52,6 +52,14 @@ export const servicesListCommand = new Command({
       required: false,
       type: 'string',
     },
+    {
+      name: 'health',
+      description:
+        'Run the healthcheck of each running service and show a Health column',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
   ],
   completions: () => {
     return []
@@ -77,6 +85,7 @@ export const servicesListCommand = new Command({
         worktrees: showWorktrees,
         worktree: worktreeFlag,
         status: statusFlag,
+        health: flags.health as boolean,
       })
     } catch (e) {
       if (e instanceof DenvigValidationError) {
@@ -128,6 +137,11 @@ export const servicesListCommand = new Command({
         (s.configPort === null || s.configPort !== s.port)
       return showLocal ? `${s.url}  ${s.localUrl}` : s.url
     }
+    // Health is only probed with --health and only applies to services with
+    // a healthcheck, so the column is shown once any listed service reports one.
+    const showHealthColumn = filteredServices.some(
+      (r) => r.service.health !== null,
+    )
     const lines = formatTable({
       columns: [
         {
@@ -146,6 +160,14 @@ export const servicesListCommand = new Command({
             ]
           : []),
         { header: 'Name', accessor: (r: ServiceRow) => r.service.name },
+        ...(showHealthColumn
+          ? [
+              {
+                header: 'Health',
+                accessor: (r: ServiceRow) => r.service.health ?? '-',
+              },
+            ]
+          : []),
         {
           header: 'URL',
           accessor: (r: ServiceRow) => formatUrlCell(r.service),
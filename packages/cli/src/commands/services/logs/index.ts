@@ -0,0 +1,20 @@
+import { Command } from '../../../lib/command.ts'
+import { servicesLogsPruneCommand } from './prune.ts'
+import { servicesLogsShowCommand } from './show.ts'
+
+export const servicesLogsCommand = new Command({
+  name: 'services:logs',
+  description: 'Show or prune service logs',
+  usage: 'services logs <name | subcommand>',
+  example: 'denvig services logs api -n 50',
+  args: [],
+  flags: [],
+  subcommands: {
+    show: servicesLogsShowCommand,
+    prune: servicesLogsPruneCommand,
+  },
+  defaultSubcommand: 'show',
+  // `services logs <name>` is shorthand for `services logs show <name>`.
+  acceptsExtraArgs: true,
+  handler: servicesLogsShowCommand.handler,
+})
@@ -0,0 +1,85 @@
+import { Command } from '../../../lib/command.ts'
+import { formatBytes } from '../../../lib/formatters/size.ts'
+
+export const servicesLogsPruneCommand = new Command({
+  name: 'services:logs:prune',
+  description:
+    'Rotate and remove service log files according to their logs settings',
+  usage: 'services logs prune [--all] [--worktree <branch>]',
+  example: 'denvig services logs prune --all',
+  args: [],
+  flags: [
+    {
+      name: 'all',
+      description: 'Prune the logs of every service across all projects',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'worktree',
+      description:
+        'Prune the logs of a sibling git worktree by branch name (use "main" for the primary checkout)',
+      required: false,
+      type: 'string',
+    },
+  ],
+  handler: async ({ project, flags }) => {
+    const all = !!flags.all
+
+    if (typeof flags.worktree === 'string') {
+      let message: string | null = null
+      if (all) {
+        message = 'Cannot use --all and --worktree together.'
+      } else {
+        try {
+          project.selectWorktree(flags.worktree)
+        } catch (e) {
+          message = e instanceof Error ? e.message : String(e)
+        }
+      }
+      if (message) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message }))
+        } else {
+          console.error(message)
+        }
+        return { success: false, message }
+      }
+    }
+
+    const result = await project.services.pruneLogs({ all })
+
+    if (flags.json) {
+      console.log(JSON.stringify(result))
+      return { success: true, message: 'Logs pruned' }
+    }
+
+    if (result.services.length === 0) {
+      console.log('No services found.')
+      return { success: true, message: 'Logs pruned' }
+    }
+
+    for (const service of result.services) {
+      const changes = [
+        service.rotated ? 'rotated current log' : null,
+        service.removed.length > 0
+          ? `removed ${service.removed.length} file${service.removed.length === 1 ? '' : 's'}`
+          : null,
+        service.compressed.length > 0
+          ? `compressed ${service.compressed.length} file${service.compressed.length === 1 ? '' : 's'}`
+          : null,
+      ].filter(Boolean)
+      const name = all
+        ? `${service.project}/${service.service}`
+        : service.service
+      console.log(
+        `${name}: ${changes.length > 0 ? changes.join(', ') : 'nothing to prune'}`,
+      )
+    }
+    console.log('')
+    console.log(`Reclaimed ${formatBytes(result.reclaimedBytes)}.`)
+
+    return { success: true, message: 'Logs pruned' }
+  },
+})
@@ -0,0 +1,171 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs'
+import { hostname, tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { describe, it } from 'node:test'
+import { DenvigSDK } from '@denvig/sdk'
+import { createMockProject } from '@denvig/sdk/testing'
+
+import { servicesLogsShowCommand } from './show.ts'
+
+import type { TestContext } from 'node:test'
+
+describe('servicesLogsShowCommand', () => {
+  it('should show last N lines using --lines flag', async () => {
+    const sdk = new DenvigSDK({ client: 'test' })
+    const project = createMockProject({
+      slug: 'workspace/denvig',
+      path: process.cwd(),
+    })
+    project.activeWorktree.config.services = {
+      'test-logs': {
+        command: 'echo hi',
+      },
+    }
+
+    const home = (await import('node:os')).homedir()
+    const { resolve } = await import('node:path')
+    const fs = await import('node:fs/promises')
+
+    // Set up new-format log directory: ~/.denvig/services/{serviceId}/logs/
+    const serviceId = `${project.id}.test-logs`
+    const logDir = resolve(home, '.denvig', 'services', serviceId, 'logs')
+    await fs.mkdir(logDir, { recursive: true })
+
+    // Create a timestamped log file
+    const logFile = '1700000000.log'
+    const logPath = resolve(logDir, logFile)
+    const lines = Array.from({ length: 20 }, (_, i) => `line-${i + 1}`)
+    await fs.writeFile(logPath, `${lines.join('\n')}\n`, 'utf-8')
+
+    // Create the latest symlink
+    const symlinkPath = resolve(logDir, `latest.${hostname()}.log`)
+    await fs.unlink(symlinkPath).catch(() => {})
+    await fs.symlink(logFile, symlinkPath)
+
+    // Run using --lines
+    const result1 = await servicesLogsShowCommand.run(
+      sdk,
+      project,
+      { name: 'test-logs' },
+      {
+        lines: 5,
+        follow: false,
+        format: 'table',
+      },
+    )
+    ok(result1.success)
+
+    // Run using -n alias
+    const result2 = await servicesLogsShowCommand.run(
+      sdk,
+      project,
+      { name: 'test-logs' },
+      {
+        n: 3,
+        follow: false,
+        format: 'table',
+      },
+    )
+    ok(result2.success)
+
+    // Clean up
+    await fs
+      .rm(resolve(home, '.denvig', 'services', serviceId), {
+        recursive: true,
+        force: true,
+      })
+      .catch(() => {})
+  })
+
+  describe('several services', () => {
+    /** Run the command with HOME pointed at a temp dir holding two logs. */
+    const run = async (
+      t: TestContext,
+      args: { name?: string },
+      flags: Record<string, unknown>,
+    ) => {
+      const home = mkdtempSync(resolve(tmpdir(), 'denvig-logs-show-'))
+      const originalHome = process.env.HOME
+      process.env.HOME = home
+      try {
+        const sdk = new DenvigSDK({ client: 'test' })
+        const project = createMockProject({ slug: 'workspace/app' })
+        project.activeWorktree.config.services = {
+          api: { command: 'node api.js' },
+          worker: { command: 'node worker.js' },
+        }
+        const logs = {
+          api: '[2026-10-19T10:00:01Z] api up\n[2026-10-19T10:00:03Z] GET /\n',
+          worker: '[2026-10-19T10:00:02Z] worker up\n',
+        }
+        for (const [name, content] of Object.entries(logs)) {
+          const logDir = resolve(
+            home,
+            '.denvig',
+            'services',
+            `${project.id}.${name}`,
+            'logs',
+          )
+          mkdirSync(logDir, { recursive: true })
+          writeFileSync(resolve(logDir, '1.log'), content)
+          symlinkSync('1.log', resolve(logDir, `latest.${hostname()}.log`))
+        }
+
+        const output: string[] = []
+        t.mock.method(console, 'log', (line: string) => output.push(line))
+        const result = await servicesLogsShowCommand.run(sdk, project, args, {
+          lines: 10,
+          follow: false,
+          ...flags,
+        })
+        return { result, output }
+      } finally {
+        process.env.HOME = originalHome
+        rmSync(home, { recursive: true, force: true })
+      }
+    }
+
+    it('interleaves their lines by time with service prefixes', async (t) => {
+      const { result, output } = await run(t, {}, { all: true })
+      ok(result.success)
+      deepStrictEqual(output, [
+        '[api] [2026-10-19T10:00:01Z] api up',
+        '[worker] [2026-10-19T10:00:02Z] worker up',
+        '[api] [2026-10-19T10:00:03Z] GET /',
+      ])
+    })
+
+    it('filters by --grep and prints JSON entries', async (t) => {
+      const { output } = await run(
+        t,
+        { name: 'api' },
+        { grep: 'up$', json: true },
+      )
+      strictEqual(output.length, 1)
+      deepStrictEqual(JSON.parse(output[0]), [
+        {
+          project: 'workspace/app',
+          service: 'api',
+          time: '2026-10-19T10:00:01Z',
+          line: '[2026-10-19T10:00:01Z] api up',
+        },
+      ])
+    })
+
+    it('rejects an invalid --since', async (t) => {
+      const { result } = await run(
+        t,
+        {},
+        { all: true, since: 'soon', json: true },
+      )
+      strictEqual(result.success, false)
+    })
+  })
+})
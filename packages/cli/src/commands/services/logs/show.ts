@@ -0,0 +1,236 @@
+import { spawn } from 'node:child_process'
+import { readFile } from 'node:fs/promises'
+import { DenvigValidationError } from '@denvig/sdk'
+
+import { Command } from '../../../lib/command.ts'
+import { createServiceLogFormatter } from '../../../lib/formatters/service-log.ts'
+import { serviceCompletions } from '../../../lib/zsh/service-completions.ts'
+
+import type {
+  DenvigProject,
+  ServiceLogEntry,
+  ServiceLogsOptions,
+} from '@denvig/sdk'
+
+/**
+ * Interleave several services' logs (or filter one), ordered by time and
+ * prefixed with each line's service.
+ */
+const showServiceLogs = async (
+  project: DenvigProject,
+  options: Omit<ServiceLogsOptions, 'lines'>,
+  flags: Record<string, unknown>,
+  fail: (message: string) => { success: boolean; message: string },
+) => {
+  // A single service needs no prefix.
+  const format =
+    options.services?.length === 1 && !options.all
+      ? (entry: ServiceLogEntry) => entry.line
+      : createServiceLogFormatter(project.activeWorktree.slug)
+  const print = (entry: ServiceLogEntry) =>
+    console.log(flags.json ? JSON.stringify(entry) : format(entry))
+
+  let entries: ServiceLogEntry[]
+  try {
+    entries = await project.services.logs({
+      ...options,
+      lines: (flags.lines as number) ?? 10,
+    })
+  } catch (e) {
+    if (e instanceof DenvigValidationError) return fail(e.message)
+    throw e
+  }
+
+  if (!flags.follow) {
+    if (flags.json) {
+      console.log(JSON.stringify(entries))
+    } else if (entries.length === 0) {
+      console.log('No matching log lines.')
+    } else {
+      for (const entry of entries) print(entry)
+    }
+    return { success: true }
+  }
+
+  // Following streams one JSON object per line with --json.
+  for (const entry of entries) print(entry)
+  const stop = await project.services.followLogs(options, print)
+  await new Promise<void>((resolve) => {
+    process.once('SIGINT', () => resolve())
+    process.once('SIGTERM', () => resolve())
+  })
+  stop()
+  return { success: true }
+}
+
+export const servicesLogsShowCommand = new Command({
+  name: 'services:logs:show',
+  description: 'Show logs for one or more services',
+  usage:
+    'services logs <name...> | --all [-n <lines>] [--follow] [--grep <pattern>] [--since <duration>] [--worktree <branch>]',
+  example: 'services logs api worker --since 10m --follow',
+  args: [
+    {
+      name: 'name',
+      description: 'Name of the service; pass several to interleave their logs',
+      required: false,
+      type: 'string',
+    },
+  ],
+  flags: [
+    {
+      name: 'lines',
+      description: 'Number of lines to show per service (use -n)',
+      required: false,
+      type: 'number',
+      defaultValue: 10,
+      short: 'n',
+    },
+    {
+      name: 'follow',
+      description: 'Follow the log output (use -f)',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+      short: 'f',
+    },
+    {
+      name: 'all',
+      description: 'Show the logs of every service in the project',
+      required: false,
+      type: 'boolean',
+      defaultValue: false,
+    },
+    {
+      name: 'grep',
+      description: 'Only show lines matching this regular expression',
+      required: false,
+      type: 'string',
+    },
+    {
+      name: 'since',
+      description: 'Only show lines written within this duration, e.g. 10m',
+      required: false,
+      type: 'string',
+    },
+    {
+      name: 'worktree',
+      description:
+        'Target the service in a sibling git worktree by branch name (use "main" for the primary checkout)',
+      required: false,
+      type: 'string',
+    },
+  ],
+  acceptsExtraArgs: true,
+  completions: ({ project, sdk }) => {
+    return serviceCompletions(project, sdk)
+  },
+  handler: async ({ project, args, flags, extraArgs = [] }) => {
+    const fail = (message: string) => {
+      if (flags.json) {
+        console.log(JSON.stringify({ success: false, message }))
+      } else {
+        console.error(message)
+      }
+      return { success: false, message }
+    }
+
+    const unknownFlag = extraArgs.find((arg) => arg.startsWith('-'))
+    if (unknownFlag) return fail(`Unknown flag: ${unknownFlag}`)
+
+    if (typeof flags.worktree === 'string') {
+      try {
+        project.selectWorktree(flags.worktree)
+      } catch (e) {
+        return fail(e instanceof Error ? e.message : String(e))
+      }
+    }
+
+    const names = [
+      ...(typeof args.name === 'string' ? [args.name] : []),
+      ...extraArgs,
+    ]
+    const options: Omit<ServiceLogsOptions, 'lines'> = {
+      services: names,
+      all: !!flags.all,
+      grep: typeof flags.grep === 'string' ? flags.grep : undefined,
+      since: typeof flags.since === 'string' ? flags.since : undefined,
+    }
+    if (
+      names.length !== 1 ||
+      options.all ||
+      options.grep !== undefined ||
+      options.since !== undefined
+    ) {
+      return showServiceLogs(project, options, flags, fail)
+    }
+
+    const nameArg = names[0]
+    const { manager, serviceName: name } =
+      await project.services.context(nameArg)
+    const lines = (flags.lines as number) ?? 10
+    const follow = !!flags.follow
+
+    const logPath = manager.getLogPath(name)
+
+    if (follow) {
+      if (flags.json) {
+        console.log(
+          JSON.stringify({
+            success: false,
+            error: 'JSON format is not supported with --follow',
+          }),
+        )
+        return {
+          success: false,
+          message: 'JSON format not supported with follow',
+        }
+      }
+
+      // Use system tail for follow behavior — acceptable on macOS
+      const tailArgs = ['-n', `${lines}`, '-f', logPath]
+      spawn('tail', tailArgs, { stdio: 'inherit' })
+
+      // Return a Promise that never resolves until the process is killed by the user
+      return new Promise(() => {
+        /* keep process alive */
+      }) as unknown as { success: boolean; message?: string }
+    }
+
+    try {
+      const content = await readFile(logPath, 'utf-8')
+      const allLines = content.trim().split('\n').filter(Boolean)
+      const toShow = allLines.slice(-lines)
+
+      if (flags.json) {
+        console.log(
+          JSON.stringify({
+            service: name,
+            logPath,
+            lines: toShow,
+          }),
+        )
+        return { success: true }
+      }
+
+      for (const line of toShow) {
+        console.log(line)
+      }
+      return { success: true }
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : String(e)
+      if (flags.json) {
+        console.log(
+          JSON.stringify({
+            success: false,
+            service: name,
+            error: errorMessage,
+          }),
+        )
+      } else {
+        console.error(`Failed to read logs for ${name}:`, errorMessage)
+      }
+      return { success: false, message: 'failed to read logs' }
+    }
+  },
+})
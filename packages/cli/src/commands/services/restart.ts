@@ -2,6 +2,7 @@ import { z } from 'zod'
 
 import { Command } from '../../lib/command.ts'
 import { ensureServiceCerts } from '../../lib/services/certs.ts'
+import { printHookOutput, warnFailedHooks } from '../../lib/services/hooks.ts'
 import { reconcileAfterCommand } from '../../lib/services/reconcileLogger.ts'
 import { resolveServicePortForCli } from '../../lib/services/resolvePort.ts'
 import { serviceCompletions } from '../../lib/zsh/service-completions.ts'
@@ -104,6 +105,7 @@ export const servicesRestartCommand = new Command({
       port: portResolution.port,
       portResolved: true,
       domains: domains && domains.length > 0 ? domains : undefined,
+      onHookOutput: printHookOutput({ json: !!flags.json }),
     })
 
     if (!result.success) {
@@ -114,6 +116,7 @@ export const servicesRestartCommand = new Command({
             service: serviceName,
             project: targetProject.slug,
             message: result.message,
+            hooks: result.hooks,
           }),
         )
       } else {
@@ -123,6 +126,7 @@ export const servicesRestartCommand = new Command({
       }
       return { success: false, message: result.message }
     }
+    warnFailedHooks(result.hooks, { json: !!flags.json })
 
     // Wait for service to start
     await new Promise((resolve) => setTimeout(resolve, 2000))
@@ -12,7 +12,7 @@ describe('servicesStartCommand', () => {
   it('should have correct usage', () => {
     ok(
       servicesStartCommand.usage ===
-        'services start <name> [--worktree <branch>] [--port <port>] [--domains <list>] [--no-domains]',
+        'services start <name> [--worktree <branch>] [--port <port>] [--domains <list>] [--no-domains] [--wait]',
     )
   })
 
@@ -21,4 +21,10 @@ describe('servicesStartCommand', () => {
     ok(flag)
     ok(flag.type === 'boolean')
   })
+
+  it('should expose a boolean --wait flag', () => {
+    const flag = servicesStartCommand.flags.find((f) => f.name === 'wait')
+    ok(flag)
+    ok(flag.type === 'boolean')
+  })
 })
@@ -1,8 +1,12 @@
-import { CONFIG_CHANGED_REASON } from '@denvig/sdk/internal'
+import {
+  CONFIG_CHANGED_REASON,
+  type ServiceReadiness,
+} from '@denvig/sdk/internal'
 import { z } from 'zod'
 
 import { Command } from '../../lib/command.ts'
 import { ensureServiceCerts } from '../../lib/services/certs.ts'
+import { printHookOutput, warnFailedHooks } from '../../lib/services/hooks.ts'
 import { reconcileAfterCommand } from '../../lib/services/reconcileLogger.ts'
 import { resolveServicePortForCli } from '../../lib/services/resolvePort.ts'
 import { serviceCompletions } from '../../lib/zsh/service-completions.ts'
@@ -11,7 +15,7 @@ export const servicesStartCommand = new Command({
   name: 'services:start',
   description: 'Start a service',
   usage:
-    'services start <name> [--worktree <branch>] [--port <port>] [--domains <list>] [--no-domains]',
+    'services start <name> [--worktree <branch>] [--port <port>] [--domains <list>] [--no-domains] [--wait]',
   example: 'services start api',
   args: [
     {
@@ -51,6 +55,13 @@ export const servicesStartCommand = new Command({
       required: false,
       type: 'boolean',
     },
+    {
+      name: 'wait',
+      description:
+        'Wait for the service (and each dependency) to pass its healthcheck before reporting success; services without a healthcheck must stay running',
+      required: false,
+      type: 'boolean',
+    },
   ],
   completions: ({ project, sdk }) => {
     return serviceCompletions(project, sdk)
@@ -73,12 +84,109 @@ export const servicesStartCommand = new Command({
       }
     }
 
-    const { manager, serviceName, target } =
-      await project.services.context(serviceArg)
+    const context = await project.services.context(serviceArg)
+    const { manager, serviceName, target } = context
     const targetProject = target
 
     const projectPrefix =
       targetProject.slug !== activeWorktree.slug ? `${targetProject.slug}/` : ''
+    const onHookOutput = printHookOutput({ json: !!flags.json })
+
+    // Bring up everything the service depends on first, in dependency order.
+    // Dependencies resolve their own ports non-interactively.
+    let dependencies: Awaited<ReturnType<typeof project.services.dependencies>>
+    try {
+      dependencies = await project.services.dependencies(context)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e)
+      if (flags.json) {
+        console.log(
+          JSON.stringify({
+            success: false,
+            service: serviceName,
+            project: targetProject.slug,
+            message,
+          }),
+        )
+      } else {
+        console.error(
+          `✗ Failed to start ${projectPrefix}${serviceName}: ${message}`,
+        )
+      }
+      return { success: false, message }
+    }
+    for (const dependency of dependencies) {
+      const dependencyName = `${
+        dependency.target.slug !== activeWorktree.slug
+          ? `${dependency.target.slug}/`
+          : ''
+      }${dependency.serviceName}`
+      const dependencyConfig =
+        dependency.target.config.services?.[dependency.serviceName]
+      if (dependencyConfig) {
+        await ensureServiceCerts(dependency.serviceName, dependencyConfig, {
+          json: !!flags.json,
+        })
+      }
+      const dependencyResult = await dependency.manager.startService(
+        dependency.serviceName,
+        { onHookOutput },
+      )
+      if (!dependencyResult.success) {
+        const message = `Dependency ${dependencyName} failed to start: ${dependencyResult.message}`
+        if (flags.json) {
+          console.log(
+            JSON.stringify({
+              success: false,
+              service: serviceName,
+              project: targetProject.slug,
+              dependency: dependency.serviceName,
+              message,
+            }),
+          )
+        } else {
+          console.error(
+            `✗ Failed to start ${projectPrefix}${serviceName}: ${message}`,
+          )
+        }
+        return { success: false, message }
+      }
+      if (flags.wait && !dependencyResult.alreadyRunning) {
+        if (!flags.json) {
+          console.log(`Waiting for ${dependencyName}...`)
+        }
+        const readiness = await dependency.manager.waitForService(
+          dependency.serviceName,
+        )
+        if (!readiness.ready) {
+          const message = `Dependency ${dependencyName} is not ready: ${readiness.message}`
+          if (flags.json) {
+            console.log(
+              JSON.stringify({
+                success: false,
+                service: serviceName,
+                project: targetProject.slug,
+                dependency: dependency.serviceName,
+                health: readiness.health,
+                message,
+              }),
+            )
+          } else {
+            console.error(
+              `✗ Failed to start ${projectPrefix}${serviceName}: ${message}`,
+            )
+          }
+          return { success: false, message }
+        }
+      }
+      if (!flags.json) {
+        console.log(
+          dependencyResult.alreadyRunning
+            ? `✓ ${dependencyName} is already running`
+            : `✓ ${dependencyName} started (dependency of ${projectPrefix}${serviceName})`,
+        )
+      }
+    }
 
     const serviceConfig = targetProject.config.services?.[serviceName]
     if (serviceConfig) {
@@ -112,6 +220,7 @@ export const servicesStartCommand = new Command({
         : domains && domains.length > 0
           ? domains
           : undefined,
+      onHookOutput,
     })
 
     if (!result.success) {
@@ -122,6 +231,7 @@ export const servicesStartCommand = new Command({
             service: serviceName,
             project: targetProject.slug,
             message: result.message,
+            hooks: result.hooks,
           }),
         )
       } else {
@@ -131,6 +241,7 @@ export const servicesStartCommand = new Command({
       }
       return { success: false, message: result.message }
     }
+    warnFailedHooks(result.hooks, { json: !!flags.json })
 
     // An already-running service with matching config was left untouched — it's
     // already up. A running service whose config changed was restarted in place
@@ -153,7 +264,18 @@ export const servicesStartCommand = new Command({
           console.log(`Starting ${projectPrefix}${serviceName}...`)
         }
       }
-      // Wait for service to start
+    }
+
+    // With --wait, block until the service passes its healthcheck (or has
+    // stayed up, without one); otherwise give a fresh launch a moment to
+    // settle before checking on it.
+    let readiness: ServiceReadiness | null = null
+    if (flags.wait) {
+      if (!flags.json && !alreadyRunning) {
+        console.log(`Waiting for ${projectPrefix}${serviceName}...`)
+      }
+      readiness = await manager.waitForService(serviceName)
+    } else if (!alreadyRunning) {
       await new Promise((resolve) => setTimeout(resolve, 2000))
     }
 
@@ -162,7 +284,7 @@ export const servicesStartCommand = new Command({
       includeLogs: true,
     })
 
-    if (response?.status === 'running') {
+    if (response?.status === 'running' && readiness?.ready !== false) {
       // Reconfigure gateway nginx configs
       await manager.reconfigureGateway()
       await reconcileAfterCommand({ json: !!flags.json })
@@ -194,7 +316,11 @@ export const servicesStartCommand = new Command({
     if (flags.json) {
       console.log(JSON.stringify(response))
     } else {
-      console.error(`✗ ${projectPrefix}${serviceName} failed to start`)
+      console.error(
+        readiness && !readiness.ready
+          ? `✗ ${projectPrefix}${serviceName} failed to start: ${readiness.message}`
+          : `✗ ${projectPrefix}${serviceName} failed to start`,
+      )
       if (response?.logs && response.logs.length > 0) {
         console.error('')
         console.error('Recent logs:')
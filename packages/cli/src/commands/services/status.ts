@@ -56,6 +56,7 @@ export const servicesStatusCommand = new Command({
 
     const response = await manager.getServiceResponse(serviceName, {
       includeLogs: true,
+      includeHealth: true,
     })
 
     if (!response) {
@@ -100,6 +101,9 @@ export const servicesStatusCommand = new Command({
 
     console.log(`Service: ${projectPrefix}${response.name}`)
     console.log(`Status:  ${statusText}`)
+    if (response.health) {
+      console.log(`Health:  ${response.health}`)
+    }
 
     if (response.status === 'running' && response.pid) {
       console.log(`PID:     ${response.pid}`)
@@ -120,9 +124,11 @@ export const servicesStatusCommand = new Command({
     console.log(`CWD:     ${response.cwd.replace(homedir(), '~')}`)
     console.log(`Logs:    ${response.logPath.replace(homedir(), '~')}`)
 
-    const plistPath = manager.getPlistPath(serviceName)
-    if (await pathExists(plistPath)) {
-      console.log(`Plist:   ${plistPath.replace(homedir(), '~')}`)
+    const unitPath = manager.getUnitPath(serviceName)
+    if (await pathExists(unitPath)) {
+      const unitLabel =
+        manager.getSupervisorName() === 'launchd' ? 'Plist:  ' : 'Unit:   '
+      console.log(`${unitLabel} ${unitPath.replace(homedir(), '~')}`)
     }
 
     // Show the combined nginx config path if the service has a domain
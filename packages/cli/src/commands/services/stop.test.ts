@@ -12,7 +12,15 @@ describe('servicesStopCommand', () => {
   it('should have correct usage', () => {
     ok(
       servicesStopCommand.usage ===
-        'services stop <name> [--worktree <branch>]',
+        'services stop <name> [--worktree <branch>] [--with-dependents]',
     )
   })
+
+  it('should expose a boolean --with-dependents flag', () => {
+    const flag = servicesStopCommand.flags.find(
+      (f) => f.name === 'with-dependents',
+    )
+    ok(flag)
+    ok(flag.type === 'boolean')
+  })
 })
@@ -1,13 +1,15 @@
 import { z } from 'zod'
 
 import { Command } from '../../lib/command.ts'
+import { confirm } from '../../lib/input.ts'
+import { printHookOutput, warnFailedHooks } from '../../lib/services/hooks.ts'
 import { reconcileAfterCommand } from '../../lib/services/reconcileLogger.ts'
 import { serviceCompletions } from '../../lib/zsh/service-completions.ts'
 
 export const servicesStopCommand = new Command({
   name: 'services:stop',
   description: 'Stop a service',
-  usage: 'services stop <name> [--worktree <branch>]',
+  usage: 'services stop <name> [--worktree <branch>] [--with-dependents]',
   example: 'services stop api',
   args: [
     {
@@ -26,6 +28,13 @@ export const servicesStopCommand = new Command({
       required: false,
       type: 'string',
     },
+    {
+      name: 'with-dependents',
+      description:
+        'Also stop running services that depend on this one (interactive sessions are asked instead)',
+      required: false,
+      type: 'boolean',
+    },
   ],
   completions: ({ project, sdk }) => {
     return serviceCompletions(project, sdk)
@@ -48,17 +57,73 @@ export const servicesStopCommand = new Command({
       }
     }
 
-    const { manager, serviceName, target } =
-      await project.services.context(serviceArg)
+    const context = await project.services.context(serviceArg)
+    const { manager, serviceName, target } = context
 
     const projectPrefix =
       target.slug !== activeWorktree.slug ? `${target.slug}/` : ''
+    const onHookOutput = printHookOutput({ json: !!flags.json })
+
+    // Running services that depend on this one are stopped first when asked
+    // to. Finding them scans every project, so only look when the answer can
+    // be acted on: with --with-dependents, or when we can prompt.
+    const interactive =
+      !flags.json &&
+      process.stdin.isTTY === true &&
+      process.stdout.isTTY === true
+    if (flags['with-dependents'] || interactive) {
+      const dependents = await project.services.dependents(context)
+      const dependentNames = dependents.map(
+        (dependent) =>
+          `${
+            dependent.target.slug !== activeWorktree.slug
+              ? `${dependent.target.slug}/`
+              : ''
+          }${dependent.serviceName}`,
+      )
+      const stopDependents =
+        dependents.length > 0 &&
+        (flags['with-dependents'] ||
+          (await confirm(
+            `${dependentNames.join(', ')} ${dependents.length === 1 ? 'depends' : 'depend'} on ${projectPrefix}${serviceName}. Stop ${dependents.length === 1 ? 'it' : 'them'} too?`,
+          )))
+      if (stopDependents) {
+        for (const [index, dependent] of dependents.entries()) {
+          if (!flags.json) {
+            console.log(`Stopping ${dependentNames[index]}...`)
+          }
+          const dependentResult = await dependent.manager.stopService(
+            dependent.serviceName,
+            { onHookOutput },
+          )
+          if (!dependentResult.success) {
+            const message = `Dependent ${dependentNames[index]} failed to stop: ${dependentResult.message}`
+            if (flags.json) {
+              console.log(
+                JSON.stringify({
+                  success: false,
+                  service: serviceName,
+                  project: target.slug,
+                  dependent: dependent.serviceName,
+                  message,
+                }),
+              )
+            } else {
+              console.error(
+                `✗ Failed to stop ${projectPrefix}${serviceName}: ${message}`,
+              )
+            }
+            return { success: false, message }
+          }
+        }
+      }
+    }
 
     if (!flags.json) {
       console.log(`Stopping ${projectPrefix}${serviceName}...`)
     }
 
-    const result = await manager.stopService(serviceName)
+    const result = await manager.stopService(serviceName, { onHookOutput })
 
     if (!result.success) {
       if (flags.json) {
@@ -68,6 +133,7 @@ export const servicesStopCommand = new Command({
             service: serviceName,
             project: target.slug,
             message: result.message,
+            hooks: result.hooks,
           }),
         )
       } else {
@@ -77,6 +143,7 @@ export const servicesStopCommand = new Command({
       }
       return { success: false, message: result.message }
     }
+    warnFailedHooks(result.hooks, { json: !!flags.json })
 
     // Get service response after stopping
     const response = await manager.getServiceResponse(serviceName)
@@ -0,0 +1,18 @@
+import { Command } from '../../../lib/command.ts'
+import { servicesSupervisorServeCommand } from './serve.ts'
+import { servicesSupervisorStatusCommand } from './status.ts'
+
+export const servicesSupervisorCommand = new Command({
+  name: 'services:supervisor',
+  description: 'Inspect or run the process supervisor that keeps services up',
+  usage: 'services supervisor <subcommand>',
+  example: 'denvig services supervisor status',
+  args: [],
+  flags: [],
+  subcommands: {
+    status: servicesSupervisorStatusCommand,
+    serve: servicesSupervisorServeCommand,
+  },
+  defaultSubcommand: 'status',
+  handler: servicesSupervisorStatusCommand.handler,
+})
@@ -0,0 +1,41 @@
+import { startSupervisorDaemon } from '@denvig/sdk/internal'
+
+import { Command } from '../../../lib/command.ts'
+
+import type { SupervisorDaemon } from '@denvig/sdk/internal'
+
+export const servicesSupervisorServeCommand = new Command({
+  name: 'services:supervisor:serve',
+  description:
+    'Run the denvig supervisor daemon in the foreground (started automatically when it is the active supervisor)',
+  usage: 'services supervisor serve',
+  example: 'denvig services supervisor serve',
+  args: [],
+  flags: [],
+  handler: async () => {
+    const timestamp = () => new Date().toISOString()
+
+    let daemon: SupervisorDaemon
+    try {
+      daemon = await startSupervisorDaemon({
+        onLog: (message) => console.log(`[${timestamp()}] ${message}`),
+      })
+    } catch (e) {
+      const message = `Failed to start the supervisor daemon: ${e instanceof Error ? e.message : String(e)}`
+      console.error(message)
+      return { success: false, message }
+    }
+
+    console.log(
+      `[${timestamp()}] Supervisor daemon listening on ${daemon.socketPath}`,
+    )
+
+    await new Promise<void>((resolve) => {
+      process.once('SIGINT', () => resolve())
+      process.once('SIGTERM', () => resolve())
+    })
+
+    await daemon.close()
+    return { success: true, message: 'Supervisor daemon stopped' }
+  },
+})
@@ -0,0 +1,58 @@
+import { DenvigValidationError } from '@denvig/sdk'
+import { daemonctl, getServiceSupervisor } from '@denvig/sdk/internal'
+
+import { Command } from '../../../lib/command.ts'
+
+import type { ServiceSupervisor } from '@denvig/sdk/internal'
+
+export const servicesSupervisorStatusCommand = new Command({
+  name: 'services:supervisor:status',
+  description: 'Show which process supervisor runs services',
+  usage: 'services supervisor status',
+  example: 'denvig services supervisor status',
+  args: [],
+  flags: [],
+  handler: async ({ flags }) => {
+    let supervisor: ServiceSupervisor
+    try {
+      supervisor = getServiceSupervisor()
+    } catch (e) {
+      if (e instanceof DenvigValidationError) {
+        if (flags.json) {
+          console.log(JSON.stringify({ success: false, message: e.message }))
+        } else {
+          console.error(e.message)
+        }
+        return { success: false, message: e.message }
+      }
+      throw e
+    }
+
+    const services = await supervisor.list('denvig.')
+    const daemonRunning =
+      supervisor.name === 'denvig' ? await daemonctl.isRunning() : null
+
+    if (flags.json) {
+      console.log(
+        JSON.stringify({
+          name: supervisor.name,
+          unitDir: supervisor.unitDir(),
+          daemonRunning,
+          services: services.length,
+        }),
+      )
+      return { success: true, message: 'Supervisor status retrieved' }
+    }
+
+    console.log(`Supervisor: ${supervisor.name}`)
+    console.log(`Units:      ${supervisor.unitDir()}`)
+    if (daemonRunning !== null) {
+      console.log(
+        `Daemon:     ${daemonRunning ? 'running' : 'stopped (started by the next service start)'}`,
+      )
+    }
+    console.log(`Services:   ${services.length} loaded`)
+
+    return { success: true, message: 'Supervisor status retrieved' }
+  },
+})
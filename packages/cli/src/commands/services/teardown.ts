@@ -1,11 +1,13 @@
 import { teardownGlobal } from '@denvig/sdk/internal'
 
 import { Command } from '../../lib/command.ts'
+import { formatBytes } from '../../lib/formatters/size.ts'
 import { reconcileAfterCommand } from '../../lib/services/reconcileLogger.ts'
 
 export const servicesTeardownCommand = new Command({
   name: 'services:teardown',
-  description: 'Stop all services and remove them from launchctl',
+  description:
+    'Stop all services and remove them from the service supervisor (launchd or systemd)',
   usage: 'services teardown [--global] [--remove-logs] [--worktree <branch>]',
   example: 'services teardown',
   args: [],
@@ -89,7 +91,9 @@ export const servicesTeardownCommand = new Command({
             `Teardown complete. ${result.services.filter((r) => r.success).length}/${result.services.length} services removed.`,
           )
           if (removeLogs) {
-            console.log('Log files have been removed.')
+            console.log(
+              `Log files have been removed (${formatBytes(result.reclaimedBytes)} reclaimed).`,
+            )
           }
         }
       }
@@ -123,7 +127,9 @@ export const servicesTeardownCommand = new Command({
           `Teardown complete. ${result.services.filter((r) => r.success).length}/${result.services.length} services removed.`,
         )
         if (removeLogs) {
-          console.log('Log files have been removed.')
+          console.log(
+            `Log files have been removed (${formatBytes(result.reclaimedBytes)} reclaimed).`,
+          )
         }
       }
     }
@@ -0,0 +1,19 @@
+import { Command } from '../../../lib/command.ts'
+import { servicesWatchServeCommand } from './serve.ts'
+import { servicesWatchStatusCommand } from './status.ts'
+
+export const servicesWatchCommand = new Command({
+  name: 'services:watch',
+  description:
+    'Inspect or run the file watcher that restarts services with a watch block',
+  usage: 'services watch <subcommand>',
+  example: 'denvig services watch status',
+  args: [],
+  flags: [],
+  subcommands: {
+    status: servicesWatchStatusCommand,
+    serve: servicesWatchServeCommand,
+  },
+  defaultSubcommand: 'status',
+  handler: servicesWatchStatusCommand.handler,
+})
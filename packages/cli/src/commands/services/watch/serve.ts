@@ -0,0 +1,57 @@
+import {
+  removeServiceWatcherPid,
+  watchServices,
+  writeServiceWatcherPid,
+} from '@denvig/sdk/internal'
+
+import { Command } from '../../../lib/command.ts'
+
+import type { ServiceWatcher } from '@denvig/sdk/internal'
+
+export const servicesWatchServeCommand = new Command({
+  name: 'services:watch:serve',
+  description:
+    'Run the service file watcher in the foreground (started automatically while a running service has a watch block)',
+  usage: 'services watch serve',
+  example: 'denvig services watch serve',
+  args: [],
+  flags: [],
+  handler: async () => {
+    const timestamp = () => new Date().toISOString()
+    const log = (message: string) => console.log(`[${timestamp()}] ${message}`)
+
+    let stop: () => void = () => {}
+    const stopped = new Promise<void>((resolve) => {
+      stop = resolve
+      process.once('SIGINT', () => resolve())
+      process.once('SIGTERM', () => resolve())
+    })
+
+    let watcher: ServiceWatcher
+    try {
+      watcher = await watchServices({
+        onLog: log,
+        onEvent: (event) =>
+          log(`${event.project}/${event.service}: ${event.message}`),
+        // Nothing is left to watch once every watched service has stopped;
+        // the reconciler starts the watcher again when one is started.
+        onIdle: () => stop(),
+      })
+    } catch (e) {
+      const message = `Failed to start the service watcher: ${e instanceof Error ? e.message : String(e)}`
+      console.error(message)
+      return { success: false, message }
+    }
+
+    await writeServiceWatcherPid(process.pid)
+    log(
+      `Service watcher watching ${watcher.services().length} service${watcher.services().length === 1 ? '' : 's'}`,
+    )
+
+    await stopped
+    await watcher.close()
+    await removeServiceWatcherPid(process.pid)
+    log('Service watcher stopped')
+    return { success: true, message: 'Service watcher stopped' }
+  },
+})
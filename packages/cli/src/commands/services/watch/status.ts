@@ -0,0 +1,45 @@
+import { getServiceWatcherStatus } from '@denvig/sdk/internal'
+
+import { Command } from '../../../lib/command.ts'
+
+export const servicesWatchStatusCommand = new Command({
+  name: 'services:watch:status',
+  description: 'Show the file watcher and the services it restarts',
+  usage: 'services watch status',
+  example: 'denvig services watch status',
+  args: [],
+  flags: [],
+  handler: async ({ flags }) => {
+    const status = await getServiceWatcherStatus()
+
+    if (flags.json) {
+      console.log(JSON.stringify(status))
+      return { success: true, message: 'Watcher status retrieved' }
+    }
+
+    console.log(
+      `Watcher:  ${status.running ? `running (pid ${status.pid})` : 'stopped'}`,
+    )
+    console.log(`Log:      ${status.logPath}`)
+    console.log('')
+
+    if (status.services.length === 0) {
+      console.log('No running services have a watch block.')
+      return { success: true, message: 'Watcher status retrieved' }
+    }
+
+    for (const service of status.services) {
+      const { settings } = service
+      const action =
+        settings.action === 'signal' ? `send ${settings.signal}` : 'restart'
+      console.log(`${service.project}/${service.service}: ${action}`)
+      console.log(`  cwd:     ${service.cwd}`)
+      console.log(`  include: ${settings.include.join(', ')}`)
+      if (settings.exclude.length > 0) {
+        console.log(`  exclude: ${settings.exclude.join(', ')}`)
+      }
+    }
+
+    return { success: true, message: 'Watcher status retrieved' }
+  },
+})
@@ -40,6 +40,18 @@ type FlagDefinition = {
   type: 'string' | 'number' | 'boolean' | 'array'
   defaultValue?: string | number | boolean
   short?: string
+  /**
+   * Name of a boolean flag this one belongs to. Without it, this flag is not
+   * consumed and is passed through in `extraArgs` like any unknown flag, so
+   * commands that forward arguments don't swallow a common flag name.
+   */
+  onlyWith?: string
+  /**
+   * Parse this flag but also leave it in `extraArgs`, for flags the handler
+   * only claims in some cases and otherwise forwards. Requires
+   * `acceptsExtraArgs`.
+   */
+  forwarded?: boolean
 }
 
 type CommandResponse = {
@@ -0,0 +1,6 @@
+/**
+ * Format a duration in milliseconds for summaries.
+ * Examples: "850ms", "2.1s", "64.0s"
+ */
+export const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
@@ -0,0 +1,44 @@
+import { ok, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { formatGatewayLogEntry } from './gateway-log.ts'
+
+import type { GatewayLogEntry } from '@denvig/sdk'
+
+const entry: GatewayLogEntry = {
+  time: '2026-10-19T10:00:01.000Z',
+  handler: 'builtin',
+  host: 'app.localhost',
+  method: 'GET',
+  path: '/api/users?page=2',
+  status: 200,
+  upstreamMs: 12,
+  projectId: 'abc123',
+  serviceName: 'api',
+  project: 'github:owner/app',
+}
+
+describe('formatGatewayLogEntry()', () => {
+  it('shows the method, status, latency, url and service', () => {
+    const line = formatGatewayLogEntry(entry)
+    ok(
+      line.endsWith(
+        'GET    200 12ms    app.localhost/api/users?page=2 github:owner/app/api',
+      ),
+    )
+  })
+
+  it('shows a dash when the service never answered', () => {
+    const line = formatGatewayLogEntry({
+      ...entry,
+      status: 502,
+      upstreamMs: null,
+    })
+    ok(line.includes(' 502 -       app.localhost'))
+  })
+
+  it('keeps an unparseable time as-is', () => {
+    const line = formatGatewayLogEntry({ ...entry, time: 'unknown' })
+    strictEqual(line.split(' ')[0], 'unknown')
+  })
+})
@@ -0,0 +1,45 @@
+import { formatDuration } from './duration.ts'
+import { COLORS } from './table.ts'
+
+import type { GatewayLogEntry } from '@denvig/sdk'
+
+const pad = (value: number): string => String(value).padStart(2, '0')
+
+/** Local `YYYY-MM-DD HH:MM:SS`, or the raw value when it doesn't parse. */
+const formatLogTime = (time: string): string => {
+  const date = new Date(time)
+  if (Number.isNaN(date.getTime())) return time
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+}
+
+const statusColor = (status: number): string =>
+  status >= 500
+    ? COLORS.red
+    : status >= 400
+      ? COLORS.yellow
+      : status >= 300
+        ? COLORS.white
+        : COLORS.green
+
+/**
+ * Render one gateway request as a single line for `gateway logs`:
+ *
+ * ```
+ * 2026-10-19 10:00:01 GET    502 -       app.localhost/api/users  my-app/api
+ * ```
+ *
+ * The latency is the time the service took to respond, `-` when it never
+ * answered.
+ */
+export const formatGatewayLogEntry = (entry: GatewayLogEntry): string => {
+  const latency =
+    entry.upstreamMs === null ? '-' : formatDuration(entry.upstreamMs)
+  return [
+    `${COLORS.grey}${formatLogTime(entry.time)}${COLORS.reset}`,
+    entry.method.padEnd(6),
+    `${statusColor(entry.status)}${entry.status}${COLORS.reset}`,
+    latency.padEnd(7),
+    `${entry.host}${entry.path}`,
+    `${COLORS.grey}${entry.project}/${entry.serviceName}${COLORS.reset}`,
+  ].join(' ')
+}
@@ -4,17 +4,30 @@ export type GatewayServiceView = {
   serviceName: string
   /** Primary domain first, then any cnames. */
   domains: string[]
+  /** Path prefix routed to the service; omitted or `/` for every path. */
+  path?: string
+  stripPrefix?: boolean
   port: number
   certStatus: 'valid' | 'missing' | 'not_configured'
   certDir?: string | null
   certMessage?: string
+  /** The gateway handler; labels the last line. Defaults to `nginx`. */
+  handler?: string
   /** Whether the service's server block is present in / written to nginx. */
   nginxOk: boolean
   /** Short nginx state label, e.g. `configured`, `missing`, `error`. */
   nginxLabel: string
   nginxMessage?: string
+  /** Clashes with other claims on the domains, one line each. */
+  conflicts?: string[]
 }
 
+/** Display name for a gateway handler, e.g. `Nginx` or `Traefik`. */
+export const gatewayHandlerLabel = (handler = 'nginx'): string =>
+  handler === 'builtin'
+    ? 'Gateway'
+    : `${handler.charAt(0).toUpperCase()}${handler.slice(1)}`
+
 const certIcon = (status: GatewayServiceView['certStatus']): string =>
   status === 'valid' ? '✓' : status === 'missing' ? '✗' : '-'
 
@@ -28,6 +41,9 @@ const certIcon = (status: GatewayServiceView['certStatus']): string =>
  *     Certs:   ✓ valid (wildcard)
  *     Nginx:   ✓ configured
  * ```
+ *
+ * A path route appends its prefix to each domain, and conflicts follow as
+ * `Conflict:` lines.
  */
 export const formatGatewayService = (view: GatewayServiceView): string => {
   const certDetail =
@@ -37,11 +53,16 @@ export const formatGatewayService = (view: GatewayServiceView): string => {
         ? ` (${view.certMessage})`
         : ''
   const nginxMessage = view.nginxMessage ? ` (${view.nginxMessage})` : ''
+  const handlerLabel = `${gatewayHandlerLabel(view.handler)}:`.padEnd(8)
+
+  const path = view.path && view.path !== '/' ? view.path : ''
+  const stripped = path && view.stripPrefix ? ' (prefix stripped)' : ''
 
   return [
     `  ${view.projectSlug}/${view.serviceName}`,
-    `    Domains: ${view.domains.join(', ')} -> localhost:${view.port}`,
+    `    Domains: ${view.domains.map((domain) => `${domain}${path}`).join(', ')} -> localhost:${view.port}${stripped}`,
     `    Certs:   ${certIcon(view.certStatus)} ${view.certStatus}${certDetail}`,
-    `    Nginx:   ${view.nginxOk ? '✓' : '✗'} ${view.nginxLabel}${nginxMessage}`,
+    `    ${handlerLabel} ${view.nginxOk ? '✓' : '✗'} ${view.nginxLabel}${nginxMessage}`,
+    ...(view.conflicts ?? []).map((conflict) => `    Conflict: ✗ ${conflict}`),
   ].join('\n')
 }
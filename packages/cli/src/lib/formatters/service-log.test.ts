@@ -0,0 +1,53 @@
+import { strictEqual } from 'node:assert'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { createServiceLogFormatter } from './service-log.ts'
+
+describe('createServiceLogFormatter()', () => {
+  let originalNoColor: string | undefined
+
+  beforeEach(() => {
+    originalNoColor = process.env.NO_COLOR
+  })
+
+  afterEach(() => {
+    if (originalNoColor !== undefined) {
+      process.env.NO_COLOR = originalNoColor
+    } else {
+      delete process.env.NO_COLOR
+    }
+    delete process.env.FORCE_COLOR
+  })
+
+  const entry = (project: string, service: string, line: string) => ({
+    project,
+    service,
+    time: '2026-10-19T10:00:01Z',
+    line,
+  })
+
+  it('prefixes lines with their service', () => {
+    process.env.NO_COLOR = '1'
+    const format = createServiceLogFormatter('github:acme/app')
+    strictEqual(
+      format(entry('github:acme/app', 'api', '[2026-10-19T10:00:01Z] ready')),
+      '[api] [2026-10-19T10:00:01Z] ready',
+    )
+    strictEqual(
+      format(entry('global', 'redis', 'accepting connections')),
+      '[global/redis] accepting connections',
+    )
+  })
+
+  it('gives each service its own colour', () => {
+    process.env.FORCE_COLOR = '1'
+    delete process.env.NO_COLOR
+    const format = createServiceLogFormatter('app')
+    strictEqual(format(entry('app', 'api', 'a')), '\x1b[36m[api]\x1b[0m a')
+    strictEqual(
+      format(entry('app', 'worker', 'b')),
+      '\x1b[33m[worker]\x1b[0m b',
+    )
+    strictEqual(format(entry('app', 'api', 'c')), '\x1b[36m[api]\x1b[0m c')
+  })
+})
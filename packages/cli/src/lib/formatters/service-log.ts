@@ -0,0 +1,33 @@
+import { COLORS } from './table.ts'
+
+import type { ServiceLogEntry } from '@denvig/sdk'
+
+const PREFIX_COLORS = ['cyan', 'yellow', 'green', 'magenta', 'blue'] as const
+
+/**
+ * Create the renderer for multiplexed `services logs` output. Each line is
+ * prefixed with its service, colour-coded in the order services first appear:
+ *
+ * ```
+ * [api] [2026-10-19T10:00:01Z] Listening on :3000
+ * [worker] [2026-10-19T10:00:02Z] Processing job 42
+ * ```
+ *
+ * Services of other projects than `currentProject` are shown as
+ * `slug/service`.
+ */
+export const createServiceLogFormatter = (currentProject: string) => {
+  const colors = new Map<string, string>()
+  return (entry: ServiceLogEntry): string => {
+    const label =
+      entry.project === currentProject
+        ? entry.service
+        : `${entry.project}/${entry.service}`
+    let color = colors.get(label)
+    if (color === undefined) {
+      color = COLORS[PREFIX_COLORS[colors.size % PREFIX_COLORS.length]]
+      colors.set(label, color)
+    }
+    return `${color}[${label}]${COLORS.reset} ${entry.line}`
+  }
+}
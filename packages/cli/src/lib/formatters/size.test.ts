@@ -0,0 +1,14 @@
+import { strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { formatBytes } from './size.ts'
+
+describe('formatBytes()', () => {
+  it('formats bytes with the largest fitting unit', () => {
+    strictEqual(formatBytes(0), '0 B')
+    strictEqual(formatBytes(1023), '1023 B')
+    strictEqual(formatBytes(1536), '1.5 KB')
+    strictEqual(formatBytes(10_485_760), '10 MB')
+    strictEqual(formatBytes(1_610_612_736), '1.5 GB')
+  })
+})
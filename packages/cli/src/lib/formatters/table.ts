@@ -31,6 +31,15 @@ export const COLORS = {
   get red() {
     return shouldUseColors() ? '\x1b[31m' : ''
   },
+  get blue() {
+    return shouldUseColors() ? '\x1b[34m' : ''
+  },
+  get magenta() {
+    return shouldUseColors() ? '\x1b[35m' : ''
+  },
+  get cyan() {
+    return shouldUseColors() ? '\x1b[36m' : ''
+  },
   get bold() {
     return shouldUseColors() ? '\x1b[1m' : ''
   },
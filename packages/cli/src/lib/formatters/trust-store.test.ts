@@ -0,0 +1,42 @@
+import { strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import {
+  formatTrustStoreResult,
+  formatTrustStoreStatus,
+} from './trust-store.ts'
+
+describe('formatTrustStoreStatus()', () => {
+  it('marks the store and appends its detail', () => {
+    strictEqual(
+      formatTrustStoreStatus({
+        name: 'nss',
+        label: 'NSS databases (Firefox, Chromium)',
+        trusted: false,
+        detail: '1/2 databases',
+      }),
+      '✗ nss              NSS databases (Firefox, Chromium) — 1/2 databases',
+    )
+  })
+})
+
+describe('formatTrustStoreResult()', () => {
+  it('shows the error for a failed store', () => {
+    const store = {
+      name: 'ca-certificates' as const,
+      label: 'system store (update-ca-certificates)',
+    }
+    strictEqual(
+      formatTrustStoreResult({ ...store, success: true }),
+      '✓ system store (update-ca-certificates)',
+    )
+    strictEqual(
+      formatTrustStoreResult({
+        ...store,
+        success: false,
+        message: 'Command failed: sudo update-ca-certificates',
+      }),
+      '✗ system store (update-ca-certificates): Command failed: sudo update-ca-certificates',
+    )
+  })
+})
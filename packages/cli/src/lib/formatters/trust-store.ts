@@ -0,0 +1,20 @@
+import type { CaTrustStoreResult, CaTrustStoreStatus } from '@denvig/sdk'
+
+/**
+ * Render whether a trust store trusts the local CA for `certs ca info`:
+ *
+ * ```
+ * ✓ nss              NSS databases (Firefox, Chromium) — 2/2 databases
+ * ```
+ */
+export const formatTrustStoreStatus = (status: CaTrustStoreStatus): string =>
+  `${status.trusted ? '✓' : '✗'} ${status.name.padEnd(16)} ${status.label}${status.detail ? ` — ${status.detail}` : ''}`
+
+/**
+ * Render the outcome of installing the CA into (or removing it from) a trust
+ * store, with the error message when it failed.
+ */
+export const formatTrustStoreResult = (result: CaTrustStoreResult): string =>
+  result.success
+    ? `✓ ${result.label}`
+    : `✗ ${result.label}: ${result.message ?? 'failed'}`
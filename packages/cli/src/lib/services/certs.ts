@@ -3,7 +3,7 @@ import {
   generateCaCert,
   generateMissingCerts,
   getCaCertPath,
-  installCaToKeychain,
+  installCaToTrustStores,
   isCaInitialized,
   writeCaFiles,
 } from '@denvig/sdk/internal'
@@ -60,7 +60,7 @@ export async function ensureServiceCerts(
 
     const { certPem, keyPem } = await generateCaCert()
     await writeCaFiles(certPem, keyPem)
-    installCaToKeychain(getCaCertPath())
+    installCaToTrustStores(getCaCertPath())
   }
 
   // Generate missing domain certs
@@ -0,0 +1,31 @@
+import type { ServiceHookName, ServiceHookResult } from '@denvig/sdk/internal'
+
+/**
+ * Print lifecycle hook output as it is written, tagged with the hook name.
+ * JSON output stays machine-readable, so hooks run silently there and their
+ * output is only included in the result.
+ */
+export const printHookOutput = (options: {
+  json?: boolean
+}): ((hook: ServiceHookName, line: string) => void) | undefined =>
+  options.json ? undefined : (hook, line) => console.log(`  [${hook}] ${line}`)
+
+/**
+ * Warn about hooks that failed without failing the command: postStart,
+ * preStop and postStop. A failed preStart aborts the start and is reported
+ * as its error instead.
+ */
+export const warnFailedHooks = (
+  hooks: ServiceHookResult[] | undefined,
+  options: { json?: boolean },
+): void => {
+  if (options.json) return
+  for (const hook of hooks ?? []) {
+    if (hook.exitCode === 0) continue
+    console.error(
+      hook.exitCode === null
+        ? `Warning: ${hook.hook} hook failed to run`
+        : `Warning: ${hook.hook} hook exited with code ${hook.exitCode}`,
+    )
+  }
+}
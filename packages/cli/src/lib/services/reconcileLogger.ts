@@ -1,7 +1,7 @@
 import { reconcileServices } from '@denvig/sdk/internal'
 
 /**
- * Run the state.json → launchctl reconciler after a `services` command
+ * Run the state.json → supervisor reconciler after a `services` command
  * mutated state. Errors are surfaced to stderr so they don't break the
  * command's own JSON/output contract, but a hard failure is not fatal —
  * the user can re-run `denvig gateway configure` to retry.
@@ -39,6 +39,9 @@ export const reconcileAfterCommand = async (options: {
     for (const err of result.errors) {
       console.error(`reconcile: ${err.project}/${err.service}: ${err.message}`)
     }
+    for (const warning of result.warnings) {
+      console.error(`⚠ cert ${warning.cert}: ${warning.message}`)
+    }
   } catch (e) {
     if (options.json) return
     console.error(
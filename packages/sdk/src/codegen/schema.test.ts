@@ -301,6 +301,18 @@ describe('zodToJsonSchema()', () => {
   })
 
   describe('complex nested types', () => {
+    it('should convert ZodUnion to anyOf', () => {
+      const schema = z
+        .union([z.literal(true), z.number()])
+        .describe('A port, or true')
+      const result = zodToJsonSchema(schema)
+
+      deepStrictEqual(result, {
+        anyOf: [{ type: 'boolean', const: true }, { type: 'number' }],
+        description: 'A port, or true',
+      })
+    })
+
     it('should convert complex schema with all types', () => {
       const schema = z.object({
         name: z.string(),
@@ -400,6 +412,26 @@ describe('generateConfigSchema()', () => {
     deepStrictEqual(service.else, { required: ['command'] })
   })
 
+  it('accepts true or a port for healthcheck.tcp', () => {
+    const schema = generateConfigSchema()
+    const service = schema.properties?.services?.additionalProperties
+    ok(service && typeof service === 'object')
+    deepStrictEqual(service.properties?.healthcheck?.properties?.tcp?.anyOf, [
+      { type: 'boolean', const: true },
+      { type: 'number' },
+    ])
+  })
+
+  it('accepts command strings and action references as steps', () => {
+    const schema = generateConfigSchema()
+    const action = schema.properties?.actions?.additionalProperties
+    ok(action && typeof action === 'object')
+    const steps = action.properties?.steps?.items?.anyOf
+    strictEqual(steps?.[0]?.type, 'string')
+    strictEqual(steps?.[1]?.type, 'object')
+    deepStrictEqual(steps?.[1]?.required, ['action'])
+  })
+
   it('applies the command conditional to global services too', () => {
     const schema = generateGlobalConfigSchema()
     const service = schema.properties?.services?.additionalProperties
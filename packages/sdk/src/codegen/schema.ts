@@ -15,6 +15,7 @@ type JsonSchemaIsh = {
   items?: JsonSchemaIsh
   enum?: string[]
   const?: unknown
+  anyOf?: JsonSchemaIsh[]
   if?: JsonSchemaIsh
   else?: JsonSchemaIsh
 }
@@ -138,6 +139,30 @@ export const zodToJsonSchema = (schema: z.ZodTypeAny): JsonSchemaIsh => {
     return result
   }
 
+  // Handle ZodUnion (Zod v4 stores the alternatives in def.options)
+  if (def.type === 'union' && Array.isArray(def.options)) {
+    const result: JsonSchemaIsh = {
+      anyOf: def.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)),
+    }
+    if (description) {
+      result.description = description
+    }
+    return result
+  }
+
+  // Handle ZodLiteral (Zod v4 stores the allowed values in def.values)
+  if (def.type === 'literal' && Array.isArray(def.values)) {
+    const values: unknown[] = def.values
+    const result: JsonSchemaIsh =
+      values.length === 1
+        ? { type: typeof values[0], const: values[0] }
+        : { enum: values as string[] }
+    if (description) {
+      result.description = description
+    }
+    return result
+  }
+
   // Handle ZodString (has just type property with no other props)
   if (
     def.typeName === 'ZodString' ||
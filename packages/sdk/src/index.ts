@@ -25,16 +25,81 @@ export { DenvigWorktree } from './resources/worktree.ts'
 export { ProjectConfigSchema } from './schemas/config.ts'
 export { DenvigSDK } from './sdk.ts'
 
+export type {
+  ProjectRunResult,
+  ProjectRunStatus,
+  ProjectRunTarget,
+  RunProjectsActionOptions,
+} from './lib/actions/projects.ts'
+export type { ActionCacheConfig, ActionStep } from './lib/actions/types.ts'
+export type {
+  RunWorkspaceActionOptions,
+  WorkspaceRunResult,
+  WorkspaceRunStatus,
+} from './lib/actions/workspaces.ts'
+export type { AdvisorySeverity } from './lib/deps/audit.ts'
 export type { TreeNode } from './lib/formatters/tree-node.ts'
+export type {
+  WorkspaceManager,
+  WorkspacePackage,
+} from './lib/project/workspaces.ts'
 export type {
   ProjectInfo,
   ServiceStatus as ProjectServiceStatus,
 } from './lib/projectInfo.ts'
-export type { CaStatus, DenvigCertificate } from './operations/certs.ts'
-export type { GatewayStatus } from './operations/gateway.ts'
-export type { ServiceRow } from './operations/services.ts'
+export type { ServiceHealth } from './lib/services/health.ts'
+export type { LogRotationResult } from './lib/services/logs.ts'
+export type {
+  CaTrustStoreResult,
+  CaTrustStoreStatus,
+  TrustStoreName,
+} from './lib/trust-stores.ts'
+export type {
+  CaStatus,
+  ConfigureCaResult,
+  DenvigCertificate,
+  RemoveCaResult,
+  RenewCertificatesResult,
+  RenewedCertificate,
+  RevokeCertificateResult,
+  SkippedCertificateRenewal,
+} from './operations/certs.ts'
+export type {
+  AuditDependenciesResult,
+  DependencyAdvisory,
+  DependencyManifestChange,
+  DependencyUpgrade,
+  SkippedDependencyUpgrade,
+  UpgradeDependenciesResult,
+} from './operations/deps.ts'
+export type {
+  GatewayDnsStatus,
+  GatewayLogEntry,
+  GatewayLogsOptions,
+  GatewayStatus,
+  SyncGatewayHostsOptions,
+  SyncGatewayHostsResult,
+} from './operations/gateway.ts'
+export type {
+  ImportComposeOptions,
+  ImportComposeResult,
+  PruneServiceLogsOptions,
+  PruneServiceLogsResult,
+  ServiceLogEntry,
+  ServiceLogsOptions,
+  ServiceLogsPruneResult,
+  ServiceRow,
+} from './operations/services.ts'
+export type { ActionRunOptions } from './resources/action.ts'
 export type { DenvigConfig } from './resources/config.ts'
 export type { DenvigDependency } from './resources/dependency.ts'
-export type { ServiceStartOptions } from './resources/service.ts'
+export type {
+  DependenciesAuditOptions,
+  DependenciesUpgradeOptions,
+} from './resources/project.ts'
+export type {
+  ServiceStartOptions,
+  ServiceStopOptions,
+} from './resources/service.ts'
 export type { DenvigSDKOptions } from './sdk.ts'
 export type { ServiceResponse } from './types/responses.ts'
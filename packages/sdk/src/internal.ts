@@ -9,20 +9,35 @@
  * @module
  */
 
+export { startAcmeServer } from './lib/acme.ts'
 export {
   countCertsExpiringWithin,
   generateCaCert,
   getCaCertPath,
-  installCaToKeychain,
   isCaInitialized,
   writeCaFiles,
 } from './lib/certs.ts'
 export { createCliLogTracker } from './lib/cli-logs.ts'
 export { getGlobalConfig } from './lib/config.ts'
+export { ADVISORY_SEVERITIES, severityAtLeast } from './lib/deps/audit.ts'
 export { buildReverseChain, isDevDependenciesSource } from './lib/deps/tree.ts'
+export {
+  removeBuiltinGatewayPid,
+  startBuiltinGateway,
+  writeBuiltinGatewayPid,
+} from './lib/gateway/builtin.ts'
 export { findCertForDomain, generateMissingCerts } from './lib/gateway/certs.ts'
+export { startDnsServer } from './lib/gateway/dns.ts'
 export { getDenvigNginxConfPath } from './lib/gateway/nginx.ts'
+export {
+  removeGatewayProcessPid,
+  writeGatewayProcessPid,
+} from './lib/gateway/process.ts'
 export { gitPull, isWorkingTreeDirty } from './lib/project/git.ts'
+export { revocationUrls } from './lib/revocation.ts'
+export { startSupervisorDaemon } from './lib/services/daemon.ts'
+export { default as daemonctl } from './lib/services/daemonctl.ts'
+export { verifyServiceDependencies } from './lib/services/graph.ts'
 export { default as launchctl } from './lib/services/launchctl.ts'
 export { ServiceManager } from './lib/services/manager.ts'
 export {
@@ -30,6 +45,12 @@ export {
   reconcileServices,
 } from './lib/services/reconcile.ts'
 export { getGatewayRoute, setGatewayRoute } from './lib/services/state.ts'
+export { getServiceSupervisor } from './lib/services/supervisor.ts'
+export {
+  getServiceWatcherStatus,
+  removeServiceWatcherPid,
+  writeServiceWatcherPid,
+} from './lib/services/watch.ts'
 export { brewUpdate, brewUpgrade, getBrewOutdated } from './lib/system/brew.ts'
 export { runDenvig } from './lib/system/denvig.ts'
 export {
@@ -50,7 +71,35 @@ export {
 } from './lib/system/sudoTouchId.ts'
 export { installXcodeCli, isXcodeCliInstalled } from './lib/system/xcodeCli.ts'
 export { teardownGlobal } from './lib/teardown.ts'
+export { installCaToTrustStores } from './lib/trust-stores.ts'
+export { watchServices } from './operations/services.ts'
 
+export type { AcmeServer, AcmeServerOptions } from './lib/acme.ts'
+export type {
+  BuiltinGateway,
+  BuiltinGatewayOptions,
+} from './lib/gateway/builtin.ts'
+export type { DnsServer, DnsServerOptions } from './lib/gateway/dns.ts'
+export type { SupervisorDaemon } from './lib/services/daemon.ts'
+export type {
+  ServiceHookName,
+  ServiceHookResult,
+} from './lib/services/hooks.ts'
 export type { LaunchctlListItem } from './lib/services/launchctl.ts'
-export type { ServiceManagerProject } from './lib/services/manager.ts'
+export type {
+  ServiceManagerProject,
+  ServiceReadiness,
+} from './lib/services/manager.ts'
 export type { GatewayRoute } from './lib/services/state.ts'
+export type {
+  ServiceSupervisor,
+  SupervisorName,
+} from './lib/services/supervisor.ts'
+export type {
+  ServiceWatcher,
+  ServiceWatcherStatus,
+} from './lib/services/watch.ts'
+export type {
+  ServiceWatchEvent,
+  WatchServicesOptions,
+} from './operations/services.ts'
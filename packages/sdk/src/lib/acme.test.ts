@@ -0,0 +1,301 @@
+import assert from 'node:assert'
+import { generateKeyPairSync, sign, X509Certificate } from 'node:crypto'
+import https from 'node:https'
+import { after, before, describe, it } from 'node:test'
+import forge from 'node-forge'
+
+import {
+  isAcmeIdentifierAllowed,
+  parseAcmeCsr,
+  startAcmeServer,
+} from './acme.ts'
+import { generateCaCert } from './certs.ts'
+
+import type { KeyObject } from 'node:crypto'
+import type { AcmeServer } from './acme.ts'
+
+/** A CSR for `names` signed with an RSA key generated by Node. */
+const createCsr = (names: string[]) => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  })
+  const csr = forge.pki.createCertificationRequest()
+  csr.publicKey = forge.pki.publicKeyFromPem(
+    publicKey.export({ type: 'spki', format: 'pem' }) as string,
+  )
+  csr.setSubject([{ name: 'commonName', value: names[0] }])
+  csr.setAttributes([
+    {
+      name: 'extensionRequest',
+      extensions: [
+        {
+          name: 'subjectAltName',
+          altNames: names.map((value) => ({ type: 2, value })),
+        },
+      ],
+    },
+  ])
+  csr.sign(
+    forge.pki.privateKeyFromPem(
+      privateKey.export({ type: 'pkcs1', format: 'pem' }) as string,
+    ) as forge.pki.rsa.PrivateKey,
+    forge.md.sha256.create(),
+  )
+  const der = Buffer.from(
+    forge.asn1.toDer(forge.pki.certificationRequestToAsn1(csr)).getBytes(),
+    'binary',
+  )
+  return { der, publicKey }
+}
+
+/** A minimal ACME client signing requests with an ES256 account key. */
+const createClient = (directoryUrl: string) => {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  })
+  let kid: string | null = null
+  let nonce: string | null = null
+
+  const directory = async () =>
+    (await (await fetch(directoryUrl)).json()) as Record<string, string>
+
+  const post = async (
+    url: string,
+    payload: unknown,
+    key: KeyObject = privateKey,
+  ) => {
+    if (!nonce) {
+      const response = await fetch((await directory()).newNonce, {
+        method: 'HEAD',
+      })
+      nonce = response.headers.get('replay-nonce')
+    }
+    const header = kid
+      ? { alg: 'ES256', kid, nonce, url }
+      : { alg: 'ES256', jwk: publicKey.export({ format: 'jwk' }), nonce, url }
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString('base64url')
+    const protectedHeader = encode(header)
+    const body = payload === '' ? '' : encode(payload)
+    const signature = sign(
+      'sha256',
+      Buffer.from(`${protectedHeader}.${body}`),
+      {
+        key,
+        dsaEncoding: 'ieee-p1363',
+      },
+    ).toString('base64url')
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/jose+json' },
+      body: JSON.stringify({
+        protected: protectedHeader,
+        payload: body,
+        signature,
+      }),
+    })
+    nonce = response.headers.get('replay-nonce')
+    const text = await response.text()
+    const json = response.headers.get('content-type')?.includes('json')
+      ? (JSON.parse(text) as Record<string, unknown>)
+      : {}
+    return { response, text, json }
+  }
+
+  // Account lookups are signed with the key itself rather than the kid.
+  const register = async () => {
+    kid = null
+    const { response } = await post((await directory()).newAccount, {
+      termsOfServiceAgreed: true,
+    })
+    kid = response.headers.get('location')
+    return response
+  }
+
+  return { directory, post, register }
+}
+
+describe('isAcmeIdentifierAllowed()', () => {
+  const patterns = ['localhost', '*.localhost', 'api.test', '127.0.0.1']
+
+  it('allows exact names and subdomains of wildcard patterns', () => {
+    assert.ok(isAcmeIdentifierAllowed('localhost', patterns))
+    assert.ok(isAcmeIdentifierAllowed('a.b.localhost', patterns))
+    assert.ok(isAcmeIdentifierAllowed('API.test', patterns))
+    assert.ok(isAcmeIdentifierAllowed('127.0.0.1', patterns))
+    assert.ok(!isAcmeIdentifierAllowed('example.com', patterns))
+    assert.ok(!isAcmeIdentifierAllowed('www.api.test', patterns))
+  })
+
+  it('allows wildcard identifiers when their base name is allowed', () => {
+    assert.ok(isAcmeIdentifierAllowed('*.api.test', patterns))
+    assert.ok(isAcmeIdentifierAllowed('*.app.localhost', patterns))
+    assert.ok(!isAcmeIdentifierAllowed('*.example.com', patterns))
+  })
+})
+
+describe('parseAcmeCsr()', () => {
+  it('returns the key and names of a signed request', () => {
+    const { der, publicKey } = createCsr(['app.localhost', 'www.app.localhost'])
+    const csr = parseAcmeCsr(der)
+    assert.strictEqual(csr.commonName, 'app.localhost')
+    assert.deepStrictEqual(csr.names, [
+      { type: 'dns', value: 'app.localhost' },
+      { type: 'dns', value: 'www.app.localhost' },
+    ])
+    assert.ok(
+      csr.publicKey.equals(publicKey.export({ type: 'spki', format: 'der' })),
+    )
+  })
+
+  it('rejects requests whose signature does not verify', () => {
+    const { der } = createCsr(['app.localhost'])
+    der[der.length - 1] ^= 0xff
+    assert.throws(() => parseAcmeCsr(der), /CSR signature does not verify/)
+  })
+})
+
+describe('startAcmeServer()', () => {
+  let ca: Awaited<ReturnType<typeof generateCaCert>>
+  let server: AcmeServer
+
+  before(async () => {
+    ca = await generateCaCert()
+    server = await startAcmeServer({
+      port: 0,
+      insecure: true,
+      ca,
+      domains: ['*.localhost'],
+      loadDomains: async () => ['api.test'],
+    })
+  })
+  after(async () => {
+    await server.close()
+  })
+
+  it('serves a directory with a nonce on every response', async () => {
+    const response = await fetch(server.url)
+    const directory = (await response.json()) as Record<string, string>
+    assert.strictEqual(
+      directory.newOrder,
+      `http://127.0.0.1:${server.port}/acme/new-order`,
+    )
+    assert.ok(response.headers.get('replay-nonce'))
+  })
+
+  it('issues a certificate for an allowed order', async () => {
+    const client = createClient(server.url)
+    assert.strictEqual((await client.register()).status, 201)
+    assert.strictEqual((await client.register()).status, 200)
+
+    const order = await client.post((await client.directory()).newOrder, {
+      identifiers: [
+        { type: 'dns', value: 'app.localhost' },
+        { type: 'dns', value: 'api.test' },
+      ],
+    })
+    assert.strictEqual(order.response.status, 201)
+    assert.strictEqual(order.json.status, 'ready')
+
+    const authorizations = order.json.authorizations as string[]
+    const authz = await client.post(authorizations[0], '')
+    assert.strictEqual(authz.json.status, 'valid')
+    assert.deepStrictEqual(
+      (authz.json.challenges as { type: string; status: string }[]).map((c) => [
+        c.type,
+        c.status,
+      ]),
+      [
+        ['http-01', 'valid'],
+        ['dns-01', 'valid'],
+      ],
+    )
+
+    const { der, publicKey } = createCsr(['app.localhost', 'api.test'])
+    const finalized = await client.post(order.json.finalize as string, {
+      csr: der.toString('base64url'),
+    })
+    assert.strictEqual(finalized.json.status, 'valid')
+
+    const certificate = await client.post(
+      finalized.json.certificate as string,
+      '',
+    )
+    assert.strictEqual(
+      certificate.response.headers.get('content-type'),
+      'application/pem-certificate-chain',
+    )
+    assert.strictEqual(certificate.text.match(/BEGIN CERTIFICATE/g)?.length, 2)
+    const leaf = new X509Certificate(certificate.text)
+    assert.strictEqual(leaf.subjectAltName, 'DNS:app.localhost, DNS:api.test')
+    assert.ok(leaf.publicKey.equals(publicKey))
+    assert.ok(leaf.verify(new X509Certificate(ca.certPem).publicKey))
+  })
+
+  it('rejects names that are not denvig domains', async () => {
+    const client = createClient(server.url)
+    await client.register()
+    const order = await client.post((await client.directory()).newOrder, {
+      identifiers: [{ type: 'dns', value: 'example.com' }],
+    })
+    assert.strictEqual(order.response.status, 400)
+    assert.strictEqual(
+      order.json.type,
+      'urn:ietf:params:acme:error:rejectedIdentifier',
+    )
+  })
+
+  it('rejects a CSR that does not match the order', async () => {
+    const client = createClient(server.url)
+    await client.register()
+    const order = await client.post((await client.directory()).newOrder, {
+      identifiers: [{ type: 'dns', value: 'app.localhost' }],
+    })
+    const finalized = await client.post(order.json.finalize as string, {
+      csr: createCsr(['other.localhost']).der.toString('base64url'),
+    })
+    assert.strictEqual(finalized.json.type, 'urn:ietf:params:acme:error:badCSR')
+  })
+
+  it('rejects reused nonces and bad signatures', async () => {
+    const client = createClient(server.url)
+    const newAccount = (await client.directory()).newAccount
+    const other = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const forged = await client.post(newAccount, {}, other.privateKey)
+    assert.strictEqual(forged.response.status, 403)
+
+    const nonce = (await fetch(server.url)).headers.get('replay-nonce')
+    const body = JSON.stringify({ protected: '', payload: '', signature: '' })
+    const request = () =>
+      fetch(newAccount, {
+        method: 'POST',
+        body: body.replace(
+          '"protected":""',
+          `"protected":"${Buffer.from(JSON.stringify({ alg: 'ES256', nonce, url: newAccount })).toString('base64url')}"`,
+        ),
+      })
+    await request()
+    const reused = (await (await request()).json()) as { type: string }
+    assert.strictEqual(reused.type, 'urn:ietf:params:acme:error:badNonce')
+  })
+
+  it('serves HTTPS with a certificate from the CA', async () => {
+    const secure = await startAcmeServer({ port: 0, ca, domains: [] })
+    try {
+      const status = await new Promise<number | undefined>(
+        (resolve, reject) => {
+          https
+            .get(secure.url, { ca: ca.certPem }, (res) => {
+              res.resume()
+              resolve(res.statusCode)
+            })
+            .on('error', reject)
+        },
+      )
+      assert.strictEqual(status, 200)
+      assert.match(secure.url, /^https:\/\/127\.0\.0\.1:\d+\/directory$/)
+    } finally {
+      await secure.close()
+    }
+  })
+})
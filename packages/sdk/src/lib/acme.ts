@@ -0,0 +1,862 @@
+import {
+  createHash,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  verify,
+} from 'node:crypto'
+import http from 'node:http'
+import https from 'node:https'
+import { isIP } from 'node:net'
+
+import { issueDomainCert, loadIssuingCa } from './certs.ts'
+import { loadGatewayDomains } from './gateway/dns.ts'
+
+import type { KeyObject } from 'node:crypto'
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type forge from 'node-forge'
+import type { RevocationUrls } from './certs.ts'
+
+export type AcmeServerOptions = {
+  /** Port to listen on. `0` picks a free port. */
+  port: number
+  /** Address to bind. Defaults to `127.0.0.1`. */
+  host?: string
+  /**
+   * Serve plain HTTP instead of HTTPS with a certificate from the local CA.
+   * Most ACME clients refuse directories that are not HTTPS.
+   */
+  insecure?: boolean
+  /** CA that signs certificates. Defaults to `loadIssuingCa()`. */
+  ca?: { cert: forge.pki.Certificate; key: forge.pki.rsa.PrivateKey }
+  /** CRL and OCSP URLs listed in issued certificates. */
+  revocation?: RevocationUrls
+  /**
+   * Names certificates may be issued for, besides the routed gateway
+   * domains: exact names, IP addresses and `*.suffix` patterns matching every
+   * subdomain of `suffix`.
+   */
+  domains?: string[]
+  /** Load the routed domains. Defaults to `loadGatewayDomains()`. */
+  loadDomains?: () => Promise<string[]>
+  /** Sink for issuance and error messages. */
+  onLog?: (message: string) => void
+}
+
+export type AcmeServer = {
+  /** Directory URL to configure ACME clients with. */
+  url: string
+  /** Port actually bound, which differs from the options when `0` is used. */
+  port: number
+  close: () => Promise<void>
+}
+
+type AcmeIdentifier = { type: 'dns' | 'ip'; value: string }
+
+type AcmeAccount = {
+  id: string
+  key: KeyObject
+  thumbprint: string
+  contact: string[]
+  status: 'valid' | 'deactivated'
+  orderIds: string[]
+}
+
+type AcmeChallenge = {
+  id: string
+  authzId: string
+  type: 'http-01' | 'dns-01'
+  token: string
+}
+
+type AcmeAuthorization = {
+  id: string
+  identifier: AcmeIdentifier
+  wildcard: boolean
+  challengeIds: string[]
+}
+
+type AcmeOrder = {
+  id: string
+  accountId: string
+  status: 'ready' | 'valid'
+  identifiers: AcmeIdentifier[]
+  authzIds: string[]
+  expires: string
+  certId?: string
+}
+
+/** How long orders and authorizations stay usable. */
+const ORDER_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Requests larger than this are rejected before parsing. */
+const MAX_BODY_BYTES = 1024 * 1024
+
+/** Unused nonces kept before the oldest are forgotten. */
+const MAX_NONCES = 1000
+
+/** An ACME error, sent as an RFC 7807 problem document. */
+class AcmeProblem extends Error {
+  readonly status: number
+  readonly type: string
+
+  constructor(status: number, type: string, detail: string) {
+    super(detail)
+    this.status = status
+    this.type = type
+  }
+}
+
+/**
+ * Check whether `identifier` may be issued under `patterns`. A wildcard
+ * identifier such as `*.app.localhost` is allowed when its base name is.
+ */
+export const isAcmeIdentifierAllowed = (
+  identifier: string,
+  patterns: string[],
+): boolean => {
+  const name = identifier.toLowerCase()
+  const base = name.replace(/^\*\./, '')
+  return patterns.some((raw) => {
+    const pattern = raw.toLowerCase()
+    if (pattern === name || pattern === base) return true
+    return pattern.startsWith('*.') && base.endsWith(pattern.slice(1))
+  })
+}
+
+const newId = (): string => randomBytes(12).toString('base64url')
+
+const base64UrlJson = (value: string): unknown =>
+  JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'))
+
+/** RFC 7638 thumbprint, used to recognise an account key seen before. */
+const jwkThumbprint = (jwk: JsonWebKey): string => {
+  const members =
+    jwk.kty === 'RSA'
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : jwk.kty === 'EC'
+        ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+  return createHash('sha256')
+    .update(JSON.stringify(members))
+    .digest('base64url')
+}
+
+/** JWS algorithms accepted for account requests, by digest and encoding. */
+const JWS_ALGORITHMS: Record<
+  string,
+  { digest: string | null; dsaEncoding?: 'ieee-p1363' }
+> = {
+  RS256: { digest: 'sha256' },
+  ES256: { digest: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { digest: 'sha384', dsaEncoding: 'ieee-p1363' },
+  ES512: { digest: 'sha512', dsaEncoding: 'ieee-p1363' },
+  EdDSA: { digest: null },
+}
+
+/** CSR signature algorithms by their DER-encoded OID. */
+const CSR_SIGNATURE_DIGESTS: Record<string, string | null> = {
+  '2a864886f70d01010b': 'sha256',
+  '2a864886f70d01010c': 'sha384',
+  '2a864886f70d01010d': 'sha512',
+  '2a8648ce3d040302': 'sha256',
+  '2a8648ce3d040303': 'sha384',
+  '2a8648ce3d040304': 'sha512',
+  '2b6570': null,
+}
+
+const OID_COMMON_NAME = '550403'
+const OID_EXTENSION_REQUEST = '2a864886f70d01090e'
+const OID_SUBJECT_ALT_NAME = '551d11'
+
+type DerNode = { tag: number; content: Buffer; raw: Buffer }
+
+const readDer = (buffer: Buffer, offset = 0): DerNode => {
+  const tag = buffer[offset]
+  let length = buffer[offset + 1]
+  let header = 2
+  if (tag === undefined || length === undefined) throw new Error('Truncated')
+  if (length & 0x80) {
+    const bytes = length & 0x7f
+    if (bytes === 0 || bytes > 4) throw new Error('Unsupported length')
+    length = buffer.readUIntBE(offset + 2, bytes)
+    header += bytes
+  }
+  const end = offset + header + length
+  if (end > buffer.length) throw new Error('Truncated')
+  return {
+    tag,
+    content: buffer.subarray(offset + header, end),
+    raw: buffer.subarray(offset, end),
+  }
+}
+
+const derChildren = (node: DerNode): DerNode[] => {
+  const children: DerNode[] = []
+  let offset = 0
+  while (offset < node.content.length) {
+    const child = readDer(node.content, offset)
+    children.push(child)
+    offset += child.raw.length
+  }
+  return children
+}
+
+/** Canonical text form of an IP address, so equal addresses compare equal. */
+const normalizeIp = (value: string): string =>
+  isIP(value) === 6 ? new URL(`http://[${value}]`).hostname.slice(1, -1) : value
+
+const formatIpBytes = (bytes: Buffer): string => {
+  if (bytes.length === 4) return [...bytes].join('.')
+  const groups: string[] = []
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    groups.push(bytes.readUInt16BE(i).toString(16))
+  }
+  return normalizeIp(groups.join(':'))
+}
+
+/** The parts of a PKCS#10 certificate signing request needed to issue it. */
+export type AcmeCsr = {
+  /** DER-encoded SubjectPublicKeyInfo of the requested key. */
+  publicKey: Buffer
+  commonName: string | null
+  /** DNS and IP subject alternative names, in request order. */
+  names: AcmeIdentifier[]
+}
+
+/**
+ * Parse a DER-encoded certificate signing request and verify its
+ * self-signature. Throws when the request is malformed, unsigned or signed
+ * with an unsupported algorithm.
+ */
+export const parseAcmeCsr = (der: Buffer): AcmeCsr => {
+  const [info, algorithm, signature] = derChildren(readDer(der))
+  if (!info || !algorithm || !signature) throw new Error('Malformed CSR')
+  const [, subject, publicKey, attributes] = derChildren(info)
+  if (!subject || !publicKey) throw new Error('Malformed CSR')
+
+  const oid = derChildren(algorithm)[0]?.content.toString('hex') ?? ''
+  if (!(oid in CSR_SIGNATURE_DIGESTS)) {
+    throw new Error('Unsupported CSR signature algorithm')
+  }
+  const key = createPublicKey({
+    key: publicKey.raw,
+    format: 'der',
+    type: 'spki',
+  })
+  const signed = verify(
+    CSR_SIGNATURE_DIGESTS[oid],
+    info.raw,
+    key,
+    signature.content.subarray(1),
+  )
+  if (!signed) throw new Error('CSR signature does not verify')
+
+  let commonName: string | null = null
+  for (const set of derChildren(subject)) {
+    for (const attribute of derChildren(set)) {
+      const [type, value] = derChildren(attribute)
+      if (type?.content.toString('hex') === OID_COMMON_NAME && value) {
+        commonName = value.content.toString('utf-8')
+      }
+    }
+  }
+
+  const names: AcmeIdentifier[] = []
+  // Requested extensions sit in the context-specific [0] attributes.
+  for (const attribute of attributes?.tag === 0xa0
+    ? derChildren(attributes)
+    : []) {
+    const [type, values] = derChildren(attribute)
+    if (type?.content.toString('hex') !== OID_EXTENSION_REQUEST || !values) {
+      continue
+    }
+    for (const extensions of derChildren(values)) {
+      for (const extension of derChildren(extensions)) {
+        const parts = derChildren(extension)
+        if (parts[0]?.content.toString('hex') !== OID_SUBJECT_ALT_NAME) {
+          continue
+        }
+        const octets = parts[parts.length - 1]
+        for (const name of derChildren(readDer(octets.content))) {
+          if (name.tag === 0x82) {
+            names.push({ type: 'dns', value: name.content.toString('ascii') })
+          } else if (name.tag === 0x87) {
+            names.push({ type: 'ip', value: formatIpBytes(name.content) })
+          }
+        }
+      }
+    }
+  }
+
+  return { publicKey: publicKey.raw, commonName, names }
+}
+
+const identifierKey = (identifier: AcmeIdentifier): string =>
+  `${identifier.type}:${identifier.value.toLowerCase()}`
+
+const parseIdentifiers = (value: unknown): AcmeIdentifier[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new AcmeProblem(400, 'malformed', 'An order needs identifiers')
+  }
+  return value.map((entry) => {
+    const { type, value: name } = (entry ?? {}) as Record<string, unknown>
+    if (typeof name !== 'string' || name === '') {
+      throw new AcmeProblem(400, 'malformed', 'Identifiers need a value')
+    }
+    if (type === 'dns') return { type, value: name.toLowerCase() }
+    if (type === 'ip' && isIP(name)) return { type, value: normalizeIp(name) }
+    throw new AcmeProblem(
+      400,
+      'unsupportedIdentifier',
+      `Unsupported identifier ${String(type)}:${name}`,
+    )
+  })
+}
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolveBody, rejectBody) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        rejectBody(new AcmeProblem(413, 'malformed', 'Request too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolveBody(Buffer.concat(chunks)))
+    req.on('error', rejectBody)
+  })
+
+/**
+ * Start a local ACME (RFC 8555) server that issues certificates signed by
+ * the denvig CA. Accounts, orders and certificates live in memory only.
+ * Authorizations for allowed names are created already valid, so clients
+ * never have to answer their http-01 or dns-01 challenges; names that are
+ * not allowed are rejected when the order is placed.
+ */
+export const startAcmeServer = async (
+  options: AcmeServerOptions,
+): Promise<AcmeServer> => {
+  const host = options.host ?? '127.0.0.1'
+  const loadDomains = options.loadDomains ?? loadGatewayDomains
+  const log = options.onLog ?? (() => {})
+  const ca = options.ca ?? (await loadIssuingCa())
+  const caPem = (await import('node-forge')).default.pki.certificateToPem(
+    ca.cert,
+  )
+
+  const nonces = new Set<string>()
+  const accounts = new Map<string, AcmeAccount>()
+  const accountsByThumbprint = new Map<string, AcmeAccount>()
+  const orders = new Map<string, AcmeOrder>()
+  const authorizations = new Map<string, AcmeAuthorization>()
+  const challenges = new Map<string, AcmeChallenge>()
+  const certificates = new Map<string, string>()
+
+  const newNonce = (): string => {
+    const nonce = randomBytes(16).toString('base64url')
+    nonces.add(nonce)
+    if (nonces.size > MAX_NONCES) {
+      nonces.delete(nonces.values().next().value as string)
+    }
+    return nonce
+  }
+
+  type Signed = { payload: unknown; account?: AcmeAccount; jwk?: JsonWebKey }
+
+  /** Verify a flattened JWS request body sent to `url`. */
+  const verifyJws = (body: Buffer, url: string): Signed => {
+    let encoded: Record<string, unknown>
+    let header: Record<string, unknown>
+    try {
+      encoded = JSON.parse(body.toString('utf-8'))
+      header = base64UrlJson(String(encoded.protected)) as Record<
+        string,
+        unknown
+      >
+    } catch {
+      throw new AcmeProblem(400, 'malformed', 'Request is not a JWS')
+    }
+    if (header.url !== url) {
+      throw new AcmeProblem(401, 'unauthorized', 'JWS url does not match')
+    }
+    if (typeof header.nonce !== 'string' || !nonces.delete(header.nonce)) {
+      throw new AcmeProblem(400, 'badNonce', 'Nonce is missing or was used')
+    }
+    const algorithm = JWS_ALGORITHMS[String(header.alg)]
+    if (!algorithm) {
+      throw new AcmeProblem(
+        400,
+        'badSignatureAlgorithm',
+        `Unsupported JWS algorithm ${String(header.alg)}`,
+      )
+    }
+
+    let key: KeyObject
+    let account: AcmeAccount | undefined
+    const jwk = header.jwk as JsonWebKey | undefined
+    if (jwk && header.kid === undefined) {
+      try {
+        key = createPublicKey({ key: jwk, format: 'jwk' })
+      } catch {
+        throw new AcmeProblem(400, 'badPublicKey', 'JWK is not a public key')
+      }
+    } else if (typeof header.kid === 'string' && !jwk) {
+      account = accounts.get(header.kid.split('/').pop() ?? '')
+      if (!account) {
+        throw new AcmeProblem(400, 'accountDoesNotExist', 'Unknown account')
+      }
+      if (account.status !== 'valid') {
+        throw new AcmeProblem(401, 'unauthorized', 'Account is deactivated')
+      }
+      key = account.key
+    } else {
+      throw new AcmeProblem(400, 'malformed', 'JWS needs one of jwk or kid')
+    }
+
+    const valid = verify(
+      algorithm.digest,
+      Buffer.from(`${encoded.protected}.${encoded.payload}`),
+      algorithm.dsaEncoding ? { key, dsaEncoding: algorithm.dsaEncoding } : key,
+      Buffer.from(String(encoded.signature), 'base64url'),
+    )
+    if (!valid) {
+      throw new AcmeProblem(403, 'unauthorized', 'JWS signature is invalid')
+    }
+
+    let payload: unknown = null
+    if (encoded.payload !== '') {
+      try {
+        payload = base64UrlJson(String(encoded.payload))
+      } catch {
+        throw new AcmeProblem(400, 'malformed', 'Payload is not JSON')
+      }
+    }
+    return { payload, account, jwk }
+  }
+
+  const requireAccount = (signed: Signed): AcmeAccount => {
+    if (!signed.account) {
+      throw new AcmeProblem(400, 'malformed', 'Request must be signed by kid')
+    }
+    return signed.account
+  }
+
+  const owned = <T extends { accountId: string }>(
+    record: T | undefined,
+    account: AcmeAccount,
+  ): T => {
+    if (!record || record.accountId !== account.id) {
+      throw new AcmeProblem(404, 'malformed', 'Not found')
+    }
+    return record
+  }
+
+  const orderForAuthorization = (authzId: string): AcmeOrder | undefined =>
+    [...orders.values()].find((order) => order.authzIds.includes(authzId))
+
+  const renderAccount = (account: AcmeAccount, base: string) => ({
+    status: account.status,
+    contact: account.contact,
+    orders: `${base}/acme/account/${account.id}/orders`,
+  })
+
+  const renderChallenge = (
+    challenge: AcmeChallenge,
+    base: string,
+    validated: string,
+  ) => ({
+    type: challenge.type,
+    url: `${base}/acme/chall/${challenge.id}`,
+    token: challenge.token,
+    status: 'valid',
+    validated,
+  })
+
+  const renderAuthorization = (
+    authz: AcmeAuthorization,
+    order: AcmeOrder,
+    base: string,
+  ) => ({
+    status: 'valid',
+    expires: order.expires,
+    identifier: authz.identifier,
+    challenges: authz.challengeIds.map((id) =>
+      renderChallenge(challenges.get(id) as AcmeChallenge, base, order.expires),
+    ),
+    ...(authz.wildcard ? { wildcard: true } : {}),
+  })
+
+  const renderOrder = (order: AcmeOrder, base: string) => ({
+    status: order.status,
+    expires: order.expires,
+    identifiers: order.identifiers,
+    authorizations: order.authzIds.map((id) => `${base}/acme/authz/${id}`),
+    finalize: `${base}/acme/finalize/${order.id}`,
+    ...(order.certId
+      ? { certificate: `${base}/acme/cert/${order.certId}` }
+      : {}),
+  })
+
+  const createOrder = async (
+    account: AcmeAccount,
+    payload: Record<string, unknown>,
+  ): Promise<AcmeOrder> => {
+    const identifiers = parseIdentifiers(payload.identifiers)
+    const allowed = [...(options.domains ?? []), ...(await loadDomains())]
+    for (const identifier of identifiers) {
+      if (!isAcmeIdentifierAllowed(identifier.value, allowed)) {
+        throw new AcmeProblem(
+          400,
+          'rejectedIdentifier',
+          `${identifier.value} is not a denvig domain; allow it in certs.acme.domains`,
+        )
+      }
+    }
+
+    const order: AcmeOrder = {
+      id: newId(),
+      accountId: account.id,
+      status: 'ready',
+      identifiers,
+      authzIds: [],
+      expires: new Date(Date.now() + ORDER_LIFETIME_MS).toISOString(),
+    }
+    for (const identifier of identifiers) {
+      const wildcard = identifier.value.startsWith('*.')
+      const authz: AcmeAuthorization = {
+        id: newId(),
+        identifier: {
+          type: identifier.type,
+          value: identifier.value.replace(/^\*\./, ''),
+        },
+        wildcard,
+        challengeIds: [],
+      }
+      // Wildcards can only be proven over DNS, and IPs have no DNS records.
+      const types: AcmeChallenge['type'][] = wildcard
+        ? ['dns-01']
+        : identifier.type === 'ip'
+          ? ['http-01']
+          : ['http-01', 'dns-01']
+      for (const type of types) {
+        const challenge: AcmeChallenge = {
+          id: newId(),
+          authzId: authz.id,
+          type,
+          token: randomBytes(32).toString('base64url'),
+        }
+        challenges.set(challenge.id, challenge)
+        authz.challengeIds.push(challenge.id)
+      }
+      authorizations.set(authz.id, authz)
+      order.authzIds.push(authz.id)
+    }
+    orders.set(order.id, order)
+    account.orderIds.push(order.id)
+    return order
+  }
+
+  const finalizeOrder = async (
+    order: AcmeOrder,
+    payload: Record<string, unknown>,
+  ): Promise<void> => {
+    if (order.status !== 'ready') {
+      throw new AcmeProblem(403, 'orderNotReady', 'Order is already finalized')
+    }
+    let csr: AcmeCsr
+    try {
+      csr = parseAcmeCsr(Buffer.from(String(payload.csr), 'base64url'))
+    } catch (error) {
+      throw new AcmeProblem(
+        400,
+        'badCSR',
+        error instanceof Error ? error.message : String(error),
+      )
+    }
+
+    const requested = new Map(
+      order.identifiers.map((i) => [identifierKey(i), i]),
+    )
+    const names = [...csr.names]
+    if (csr.commonName) {
+      names.push({
+        type: isIP(csr.commonName) ? 'ip' : 'dns',
+        value: isIP(csr.commonName)
+          ? normalizeIp(csr.commonName)
+          : csr.commonName,
+      })
+    }
+    const csrKeys = new Set(names.map(identifierKey))
+    if (
+      csrKeys.size !== requested.size ||
+      [...csrKeys].some((key) => !requested.has(key))
+    ) {
+      throw new AcmeProblem(
+        400,
+        'badCSR',
+        'CSR names do not match the order identifiers',
+      )
+    }
+
+    const ordered = order.identifiers.map((i) => i.value)
+    if (csr.commonName) {
+      const common = csr.commonName.toLowerCase()
+      ordered.sort((a, b) => Number(b === common) - Number(a === common))
+    }
+    const certPem = await issueDomainCert(
+      ordered,
+      csr.publicKey,
+      ca.cert,
+      ca.key,
+      options.revocation,
+    )
+    const certId = newId()
+    certificates.set(certId, certPem + caPem)
+    order.certId = certId
+    order.status = 'valid'
+    log(`Issued a certificate for ${ordered.join(', ')}`)
+  }
+
+  const handleSigned = async (
+    path: string,
+    signed: Signed,
+    base: string,
+    res: ServerResponse,
+    send: (
+      status: number,
+      body: unknown,
+      headers?: Record<string, string>,
+    ) => void,
+  ): Promise<void> => {
+    const payload = (signed.payload ?? {}) as Record<string, unknown>
+    const [, , resource, id, sub] = path.split('/')
+
+    if (resource === 'new-account') {
+      if (!signed.jwk) {
+        throw new AcmeProblem(400, 'malformed', 'new-account needs a jwk')
+      }
+      const thumbprint = jwkThumbprint(signed.jwk)
+      const existing = accountsByThumbprint.get(thumbprint)
+      if (existing) {
+        send(200, renderAccount(existing, base), {
+          Location: `${base}/acme/account/${existing.id}`,
+        })
+        return
+      }
+      if (payload.onlyReturnExisting === true) {
+        throw new AcmeProblem(400, 'accountDoesNotExist', 'No such account')
+      }
+      const account: AcmeAccount = {
+        id: newId(),
+        key: createPublicKey({ key: signed.jwk, format: 'jwk' }),
+        thumbprint,
+        contact: Array.isArray(payload.contact)
+          ? payload.contact.map(String)
+          : [],
+        status: 'valid',
+        orderIds: [],
+      }
+      accounts.set(account.id, account)
+      accountsByThumbprint.set(thumbprint, account)
+      send(201, renderAccount(account, base), {
+        Location: `${base}/acme/account/${account.id}`,
+      })
+      return
+    }
+
+    const account = requireAccount(signed)
+    if (resource === 'account') {
+      if (id !== account.id) {
+        throw new AcmeProblem(401, 'unauthorized', 'Not your account')
+      }
+      if (sub === 'orders') {
+        send(200, {
+          orders: account.orderIds.map((o) => `${base}/acme/order/${o}`),
+        })
+        return
+      }
+      if (Array.isArray(payload.contact)) {
+        account.contact = payload.contact.map(String)
+      }
+      if (payload.status === 'deactivated') account.status = 'deactivated'
+      send(200, renderAccount(account, base))
+      return
+    }
+
+    if (resource === 'new-order') {
+      const order = await createOrder(account, payload)
+      send(201, renderOrder(order, base), {
+        Location: `${base}/acme/order/${order.id}`,
+      })
+      return
+    }
+
+    if (resource === 'order') {
+      send(200, renderOrder(owned(orders.get(id), account), base))
+      return
+    }
+
+    if (resource === 'finalize') {
+      const order = owned(orders.get(id), account)
+      await finalizeOrder(order, payload)
+      send(200, renderOrder(order, base), {
+        Location: `${base}/acme/order/${order.id}`,
+      })
+      return
+    }
+
+    if (resource === 'authz') {
+      const authz = authorizations.get(id)
+      const order = owned(
+        authz ? orderForAuthorization(authz.id) : undefined,
+        account,
+      )
+      send(200, renderAuthorization(authz as AcmeAuthorization, order, base))
+      return
+    }
+
+    if (resource === 'chall') {
+      const challenge = challenges.get(id)
+      const order = owned(
+        challenge ? orderForAuthorization(challenge.authzId) : undefined,
+        account,
+      )
+      const rendered = renderChallenge(
+        challenge as AcmeChallenge,
+        base,
+        order.expires,
+      )
+      send(200, rendered, {
+        Link: `<${base}/acme/authz/${challenge?.authzId}>;rel="up"`,
+      })
+      return
+    }
+
+    if (resource === 'cert') {
+      const certificate = certificates.get(id)
+      const order = [...orders.values()].find((o) => o.certId === id)
+      owned(certificate ? order : undefined, account)
+      res.writeHead(200, {
+        'Content-Type': 'application/pem-certificate-chain',
+      })
+      res.end(certificate)
+      return
+    }
+
+    throw new AcmeProblem(404, 'malformed', 'Not found')
+  }
+
+  const protocol = options.insecure ? 'http' : 'https'
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const base = `${protocol}://${req.headers.host ?? host}`
+    const path = new URL(req.url ?? '/', base).pathname
+    res.setHeader('Replay-Nonce', newNonce())
+    res.setHeader('Cache-Control', 'no-store')
+    res.setHeader('Link', `<${base}/directory>;rel="index"`)
+    const send = (
+      status: number,
+      body: unknown,
+      headers: Record<string, string> = {},
+    ) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+      res.end(JSON.stringify(body))
+    }
+
+    try {
+      if (path === '/directory' && req.method === 'GET') {
+        send(200, {
+          newNonce: `${base}/acme/new-nonce`,
+          newAccount: `${base}/acme/new-account`,
+          newOrder: `${base}/acme/new-order`,
+          meta: {
+            website: 'https://denvig.com',
+            externalAccountRequired: false,
+          },
+        })
+        return
+      }
+      if (path === '/acme/new-nonce') {
+        res.writeHead(req.method === 'HEAD' ? 200 : 204)
+        res.end()
+        return
+      }
+      if (req.method !== 'POST' || !path.startsWith('/acme/')) {
+        throw new AcmeProblem(404, 'malformed', 'Not found')
+      }
+      const signed = verifyJws(await readBody(req), `${base}${path}`)
+      await handleSigned(path, signed, base, res, send)
+    } catch (error) {
+      const problem =
+        error instanceof AcmeProblem
+          ? error
+          : new AcmeProblem(
+              500,
+              'serverInternal',
+              error instanceof Error ? error.message : String(error),
+            )
+      if (problem.status === 500) log(`ACME request failed: ${problem.message}`)
+      if (res.headersSent) return res.destroy()
+      res.writeHead(problem.status, {
+        'Content-Type': 'application/problem+json',
+      })
+      res.end(
+        JSON.stringify({
+          type: `urn:ietf:params:acme:error:${problem.type}`,
+          detail: problem.message,
+          status: problem.status,
+        }),
+      )
+    }
+  }
+
+  const listener = (req: IncomingMessage, res: ServerResponse) =>
+    void handle(req, res)
+  let server: http.Server | https.Server
+  if (options.insecure) {
+    server = http.createServer(listener)
+  } else {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    })
+    const names = [...new Set(['localhost', '127.0.0.1', host])]
+    const cert = await issueDomainCert(
+      names.filter((name) => name !== '0.0.0.0' && name !== '::'),
+      publicKey.export({ type: 'spki', format: 'der' }),
+      ca.cert,
+      ca.key,
+    )
+    server = https.createServer(
+      {
+        key: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+        cert: cert + caPem,
+      },
+      listener,
+    )
+  }
+
+  const port = await new Promise<number>((resolveListen, rejectListen) => {
+    server.once('error', rejectListen)
+    server.listen(options.port, host, () => {
+      server.off('error', rejectListen)
+      resolveListen((server.address() as AddressInfo).port)
+    })
+  })
+  server.on('error', (error) => log(`ACME server error: ${error.message}`))
+
+  const urlHost = isIP(host) === 6 ? `[${host}]` : host
+  return {
+    url: `${protocol}://${urlHost}:${port}/directory`,
+    port,
+    close: () =>
+      new Promise<void>((resolveClose) => {
+        server.closeAllConnections()
+        server.close(() => resolveClose())
+      }),
+  }
+}
@@ -1,5 +1,6 @@
 import plugins from '../plugins.ts'
 import { mergeActions } from './mergeActions.ts'
+import { describeActionCommands } from './resolve.ts'
 
 import type { Worktree } from '../project/worktree.ts'
 import type { Actions } from './types.ts'
@@ -20,7 +21,7 @@ export const detectActions = async (project: Worktree): Promise<Actions> => {
   if (project.config.actions) {
     actions = {
       ...Object.entries(project.config.actions).reduce((acc, [key, value]) => {
-        acc[key] = [(value as { command: string }).command]
+        acc[key] = describeActionCommands(value)
         return acc
       }, {} as Actions),
     }
@@ -0,0 +1,169 @@
+import { deepStrictEqual, notStrictEqual, ok, strictEqual } from 'node:assert'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  computeActionCacheManifest,
+  explainActionCacheMiss,
+  findActionCacheEntry,
+  getActionCacheDir,
+  restoreActionOutputs,
+  saveActionCacheEntry,
+} from './cache.ts'
+
+import type { ActionCacheManifest } from './cache.ts'
+
+let originalHome: string | undefined
+let tmpHome = ''
+let cwd = ''
+
+const cacheConfig = () => ({
+  action: 'build',
+  root: cwd,
+  cwd,
+  inputs: ['src/**/*.ts'],
+  outputs: ['dist/**'],
+})
+
+describe('cache', () => {
+  beforeEach(async () => {
+    originalHome = process.env.HOME
+    tmpHome = mkdtempSync(`${tmpdir()}/denvig-action-cache-`)
+    process.env.HOME = tmpHome
+    cwd = join(tmpHome, 'project')
+    await mkdir(join(cwd, 'src'), { recursive: true })
+    await writeFile(join(cwd, 'src/index.ts'), 'export {}')
+  })
+  afterEach(() => {
+    if (originalHome !== undefined) process.env.HOME = originalHome
+    else delete process.env.HOME
+    rmSync(tmpHome, { recursive: true, force: true })
+  })
+
+  describe('computeActionCacheManifest()', () => {
+    it('hashes the inputs, commands and env', async () => {
+      const manifest = await computeActionCacheManifest(cacheConfig(), {
+        commands: ['tsc'],
+        env: { NODE_ENV: 'production' },
+      })
+      deepStrictEqual(Object.keys(manifest.inputs), ['src/index.ts'])
+      deepStrictEqual(Object.keys(manifest.env), ['NODE_ENV'])
+      notStrictEqual(manifest.env.NODE_ENV, 'production')
+
+      const same = await computeActionCacheManifest(cacheConfig(), {
+        commands: ['tsc'],
+        env: { NODE_ENV: 'production' },
+      })
+      strictEqual(same.key, manifest.key)
+    })
+
+    it('changes the key when an input changes', async () => {
+      const before = await computeActionCacheManifest(cacheConfig(), {
+        commands: ['tsc'],
+      })
+      await writeFile(join(cwd, 'src/index.ts'), 'export const a = 1')
+      const after = await computeActionCacheManifest(cacheConfig(), {
+        commands: ['tsc'],
+      })
+      notStrictEqual(after.key, before.key)
+    })
+  })
+
+  describe('saveActionCacheEntry()', () => {
+    it('stores outputs and restores them on a hit', async () => {
+      await mkdir(join(cwd, 'dist'), { recursive: true })
+      await writeFile(join(cwd, 'dist/index.js'), 'built')
+      const manifest = await computeActionCacheManifest(cacheConfig(), {
+        commands: ['tsc'],
+      })
+      await saveActionCacheEntry(cacheConfig(), manifest)
+
+      await rm(join(cwd, 'dist'), { recursive: true })
+      const entry = await findActionCacheEntry(cacheConfig(), manifest.key)
+      ok(entry)
+      deepStrictEqual(entry.outputs, ['dist/index.js'])
+      strictEqual(await restoreActionOutputs(cacheConfig(), entry), 1)
+      strictEqual(await readFile(join(cwd, 'dist/index.js'), 'utf8'), 'built')
+    })
+
+    it('only stores and restores outputs inside the worktree root', async () => {
+      const app = join(cwd, 'app')
+      await mkdir(join(cwd, 'shared'), { recursive: true })
+      await writeFile(join(cwd, 'shared/types.d.ts'), 'types')
+      await mkdir(join(tmpHome, 'outside'), { recursive: true })
+      await writeFile(join(tmpHome, 'outside/secret'), 'secret')
+      await mkdir(app, { recursive: true })
+      const config = {
+        ...cacheConfig(),
+        cwd: app,
+        outputs: ['../shared/**', '../../outside/**'],
+      }
+      const manifest = await computeActionCacheManifest(config, {
+        commands: ['tsc'],
+      })
+      await saveActionCacheEntry(config, manifest)
+
+      const entry = await findActionCacheEntry(config, manifest.key)
+      ok(entry)
+      deepStrictEqual(entry.outputs, ['../shared/types.d.ts'])
+      await rm(join(cwd, 'shared'), { recursive: true })
+      strictEqual(await restoreActionOutputs(config, entry), 1)
+      strictEqual(
+        await readFile(join(cwd, 'shared/types.d.ts'), 'utf8'),
+        'types',
+      )
+
+      const escaping = { ...entry, outputs: ['../../outside/secret'] }
+      strictEqual(await restoreActionOutputs(config, escaping), 0)
+      await writeFile(
+        join(getActionCacheDir(config), manifest.key, 'manifest.json'),
+        JSON.stringify(escaping),
+      )
+      strictEqual(await findActionCacheEntry(config, manifest.key), null)
+    })
+
+    it('misses when there is no entry for the key', async () => {
+      strictEqual(await findActionCacheEntry(cacheConfig(), 'missing'), null)
+    })
+  })
+
+  describe('explainActionCacheMiss()', () => {
+    const manifest: ActionCacheManifest = {
+      key: 'a',
+      action: 'build',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      commands: ['tsc'],
+      env: { CI: '1' },
+      inputs: { 'src/a.ts': '1', 'src/b.ts': '2' },
+      outputs: [],
+    }
+
+    it('reports a first run', () => {
+      deepStrictEqual(explainActionCacheMiss(null, manifest), [
+        'no previous run',
+      ])
+    })
+
+    it('lists what changed since the previous run', () => {
+      deepStrictEqual(
+        explainActionCacheMiss(manifest, {
+          ...manifest,
+          key: 'b',
+          commands: ['tsc --build'],
+          env: { CI: '2' },
+          inputs: { 'src/a.ts': '3', 'src/c.ts': '4' },
+        }),
+        [
+          'command changed',
+          'env CI changed',
+          'src/a.ts changed',
+          'src/b.ts removed',
+          'src/c.ts added',
+        ],
+      )
+    })
+  })
+})
@@ -0,0 +1,272 @@
+import { createHash } from 'node:crypto'
+import {
+  copyFile,
+  glob,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path'
+
+import { loadEnvFiles } from '../services/env.ts'
+
+import type { ActionCacheConfig } from './types.ts'
+
+/** Cached runs kept per action; older entries are pruned after each save. */
+const MAX_ENTRIES_PER_ACTION = 5
+
+/**
+ * Everything a cached run was keyed on. Env values and file contents are
+ * stored as hashes so secrets never end up in the cache.
+ */
+export type ActionCacheManifest = {
+  key: string
+  action: string
+  createdAt: string
+  commands: string[]
+  /** Env var name → hash of its value. */
+  env: Record<string, string>
+  /** Input path (relative to the action cwd) → hash of its contents. */
+  inputs: Record<string, string>
+  /** Output paths (relative to the action cwd) stored with the entry. */
+  outputs: string[]
+}
+
+const sha256 = (value: string | Buffer): string =>
+  createHash('sha256').update(value).digest('hex')
+
+/**
+ * Directory holding an action's cache entries. Entries are scoped to the
+ * checkout so worktrees don't restore each other's outputs.
+ */
+export const getActionCacheDir = (cache: ActionCacheConfig): string => {
+  const scope = sha256(cache.root).slice(0, 16)
+  const action = cache.action.replace(/[^a-zA-Z0-9\-_.]/g, '_')
+  return `${homedir()}/.cache/denvig/actions/${scope}/${action}`
+}
+
+/**
+ * Expand globs relative to `cwd` into a sorted list of matching files.
+ */
+export const expandGlobs = async (
+  patterns: string[],
+  cwd: string,
+): Promise<string[]> => {
+  const files = new Set<string>()
+  for await (const entry of glob(patterns, { cwd, withFileTypes: true })) {
+    if (entry.isFile()) {
+      files.add(relative(cwd, join(entry.parentPath, entry.name)))
+    }
+  }
+  return [...files].sort()
+}
+
+/**
+ * Where an output is stored in a cache entry: its path relative to the
+ * worktree root, or null when it resolves outside the root (e.g. a glob like
+ * `../shared/**`) and must be neither saved nor restored.
+ */
+const outputStoragePath = (
+  cache: ActionCacheConfig,
+  output: string,
+): string | null => {
+  const path = relative(cache.root, resolve(cache.cwd, output))
+  if (path === '' || path.split(sep)[0] === '..' || isAbsolute(path)) {
+    return null
+  }
+  return path
+}
+
+/**
+ * Build the manifest for a run: the commands, the action's env (including
+ * its env files) and the contents of every input file.
+ */
+export const computeActionCacheManifest = async (
+  cache: ActionCacheConfig,
+  run: {
+    commands: string[]
+    env?: Record<string, string>
+    envFiles?: string[]
+  },
+): Promise<ActionCacheManifest> => {
+  const env = {
+    ...(run.envFiles
+      ? await loadEnvFiles(run.envFiles, { skipMissing: true })
+      : {}),
+    ...run.env,
+  }
+  const envHashes = Object.fromEntries(
+    Object.keys(env)
+      .sort()
+      .map((name) => [name, sha256(env[name])]),
+  )
+
+  const inputs: Record<string, string> = {}
+  for (const file of await expandGlobs(cache.inputs, cache.cwd)) {
+    inputs[file] = sha256(await readFile(join(cache.cwd, file)))
+  }
+
+  const key = sha256(
+    JSON.stringify({ commands: run.commands, env: envHashes, inputs }),
+  )
+  return {
+    key,
+    action: cache.action,
+    createdAt: new Date().toISOString(),
+    commands: run.commands,
+    env: envHashes,
+    inputs,
+    outputs: [],
+  }
+}
+
+const readManifest = async (
+  path: string,
+): Promise<ActionCacheManifest | null> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as ActionCacheManifest
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Look up a cached run by its manifest key. Returns null when there is no
+ * entry or one of its stored outputs has gone missing or lies outside the
+ * worktree root.
+ */
+export const findActionCacheEntry = async (
+  cache: ActionCacheConfig,
+  key: string,
+): Promise<ActionCacheManifest | null> => {
+  const entryDir = join(getActionCacheDir(cache), key)
+  const manifest = await readManifest(join(entryDir, 'manifest.json'))
+  if (!manifest) return null
+  for (const output of manifest.outputs) {
+    const stored = outputStoragePath(cache, output)
+    if (!stored) return null
+    try {
+      await stat(join(entryDir, 'outputs', stored))
+    } catch {
+      return null
+    }
+  }
+  return manifest
+}
+
+/**
+ * Copy a cached run's outputs back into the action's working directory.
+ * Outputs outside the worktree root are skipped. Returns the number of files
+ * restored.
+ */
+export const restoreActionOutputs = async (
+  cache: ActionCacheConfig,
+  manifest: ActionCacheManifest,
+): Promise<number> => {
+  const outputsDir = join(getActionCacheDir(cache), manifest.key, 'outputs')
+  let restored = 0
+  for (const output of manifest.outputs) {
+    const stored = outputStoragePath(cache, output)
+    if (!stored) continue
+    const target = join(cache.root, stored)
+    await mkdir(dirname(target), { recursive: true })
+    await copyFile(join(outputsDir, stored), target)
+    restored++
+  }
+  return restored
+}
+
+/**
+ * Store a successful run: its manifest, a copy of its outputs inside the
+ * worktree root, and the manifest as `latest.json` so the next miss can be
+ * explained. Older entries beyond the per-action limit are removed.
+ */
+export const saveActionCacheEntry = async (
+  cache: ActionCacheConfig,
+  manifest: ActionCacheManifest,
+): Promise<void> => {
+  const cacheDir = getActionCacheDir(cache)
+  const entryDir = join(cacheDir, manifest.key)
+  await rm(entryDir, { recursive: true, force: true })
+
+  const outputs: string[] = []
+  for (const output of await expandGlobs(cache.outputs, cache.cwd)) {
+    const stored = outputStoragePath(cache, output)
+    if (!stored) continue
+    const target = join(entryDir, 'outputs', stored)
+    await mkdir(dirname(target), { recursive: true })
+    await copyFile(join(cache.cwd, output), target)
+    outputs.push(output)
+  }
+
+  const saved = { ...manifest, outputs }
+  await mkdir(entryDir, { recursive: true })
+  await writeFile(join(entryDir, 'manifest.json'), JSON.stringify(saved))
+  await writeFile(join(cacheDir, 'latest.json'), JSON.stringify(saved))
+
+  const entries = await readdir(cacheDir, { withFileTypes: true })
+  const dated = await Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory())
+      .map(async (entry) => ({
+        name: entry.name,
+        mtime: (await stat(join(cacheDir, entry.name))).mtimeMs,
+      })),
+  )
+  const stale = dated
+    .sort((a, b) => b.mtime - a.mtime)
+    .slice(MAX_ENTRIES_PER_ACTION)
+  for (const entry of stale) {
+    await rm(join(cacheDir, entry.name), { recursive: true, force: true })
+  }
+}
+
+/**
+ * Read the manifest of an action's most recent successful run.
+ */
+export const readLatestActionCacheManifest = (
+  cache: ActionCacheConfig,
+): Promise<ActionCacheManifest | null> =>
+  readManifest(join(getActionCacheDir(cache), 'latest.json'))
+
+/**
+ * Explain why a run missed the cache by comparing it with the most recent
+ * successful run.
+ */
+export const explainActionCacheMiss = (
+  previous: ActionCacheManifest | null,
+  current: ActionCacheManifest,
+): string[] => {
+  if (!previous) return ['no previous run']
+  if (previous.key === current.key) return ['cached outputs are missing']
+
+  const reasons: string[] = []
+  if (JSON.stringify(previous.commands) !== JSON.stringify(current.commands)) {
+    reasons.push('command changed')
+  }
+
+  const diff = (
+    label: (name: string) => string,
+    before: Record<string, string>,
+    after: Record<string, string>,
+  ) => {
+    const names = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const name of [...names].sort()) {
+      if (before[name] === undefined) {
+        reasons.push(`${label(name)} added`)
+      } else if (after[name] === undefined) {
+        reasons.push(`${label(name)} removed`)
+      } else if (before[name] !== after[name]) {
+        reasons.push(`${label(name)} changed`)
+      }
+    }
+  }
+  diff((name) => `env ${name}`, previous.env, current.env)
+  diff((path) => path, previous.inputs, current.inputs)
+
+  return reasons
+}
@@ -0,0 +1,132 @@
+import { deepStrictEqual, strictEqual, throws } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { planAction } from './plan.ts'
+
+import type { ResolvedAction } from './resolve.ts'
+import type { ActionConfig } from './types.ts'
+
+const project = (name: string, config: ActionConfig): ResolvedAction => ({
+  name,
+  ecosystem: 'project',
+  commands: [],
+  config,
+})
+
+const commandsOf = (resolved: ResolvedAction[], name: string) =>
+  planAction(resolved, name, { rootPath: '/project' }).map(
+    (step) => step.command,
+  )
+
+describe('planAction()', () => {
+  it('runs dependencies before the action, once each', () => {
+    const resolved = [
+      project('ci', { dependsOn: ['lint', 'test'], command: 'echo done' }),
+      project('lint', { dependsOn: ['install'], command: 'biome check' }),
+      project('test', { dependsOn: ['install'], command: 'node --test' }),
+      project('install', { command: 'pnpm install' }),
+    ]
+    deepStrictEqual(commandsOf(resolved, 'ci'), [
+      'pnpm install',
+      'biome check',
+      'node --test',
+      'echo done',
+    ])
+  })
+
+  it('expands action references in steps', () => {
+    const resolved = [
+      project('release', {
+        steps: ['git pull', { action: 'build' }, 'npm publish'],
+      }),
+      project('build', { steps: ['tsc', 'vite build'] }),
+    ]
+    deepStrictEqual(commandsOf(resolved, 'release'), [
+      'git pull',
+      'tsc',
+      'vite build',
+      'npm publish',
+    ])
+  })
+
+  it('references plugin actions', () => {
+    const resolved = [
+      project('ci', { steps: [{ action: 'npm:test' }] }),
+      { name: 'test', ecosystem: 'npm', commands: ['npm run test'] },
+    ]
+    deepStrictEqual(commandsOf(resolved, 'ci'), ['npm run test'])
+  })
+
+  it('applies each action settings to its own commands', () => {
+    const resolved = [
+      project('ci', {
+        dependsOn: ['build'],
+        command: 'node --test',
+        env: { CI: 'true' },
+        continueOnError: true,
+      }),
+      project('build', {
+        command: 'tsc',
+        cwd: 'packages/sdk',
+        envFiles: ['.env'],
+      }),
+    ]
+    deepStrictEqual(planAction(resolved, 'ci', { rootPath: '/project' }), [
+      {
+        action: 'build',
+        command: 'tsc',
+        cwd: '/project/packages/sdk',
+        envFiles: ['/project/packages/sdk/.env'],
+        appendArgs: false,
+      },
+      {
+        action: 'ci',
+        command: 'node --test',
+        cwd: '/project',
+        env: { CI: 'true' },
+        continueOnError: true,
+        appendArgs: true,
+      },
+    ])
+  })
+
+  it('shares one cache config across an action with inputs', () => {
+    const steps = planAction(
+      [
+        project('build', {
+          steps: ['tsc', 'vite build'],
+          inputs: ['src/**'],
+          outputs: ['dist/**'],
+        }),
+      ],
+      'build',
+      { rootPath: '/project' },
+    )
+    deepStrictEqual(steps[0].cache, {
+      action: 'build',
+      root: '/project',
+      cwd: '/project',
+      inputs: ['src/**'],
+      outputs: ['dist/**'],
+    })
+    strictEqual(steps[0].cache, steps[1].cache)
+  })
+
+  it('rejects a dependency cycle', () => {
+    const resolved = [
+      project('a', { dependsOn: ['b'], command: 'a' }),
+      project('b', { steps: [{ action: 'a' }] }),
+    ]
+    throws(() => commandsOf(resolved, 'a'), {
+      name: 'DenvigValidationError',
+      message: 'Action dependency cycle: a → b → a',
+    })
+  })
+
+  it('rejects a reference to an unknown action', () => {
+    throws(() => commandsOf([project('ci', { dependsOn: ['lint'] })], 'ci'), {
+      name: 'DenvigValidationError',
+      message: 'Action "lint" not found.',
+    })
+  })
+})
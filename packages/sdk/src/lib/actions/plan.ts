@@ -0,0 +1,107 @@
+import { resolve } from 'node:path'
+
+import { DenvigValidationError } from '../errors.ts'
+import { matchActions } from './resolve.ts'
+
+import type { ResolvedAction } from './resolve.ts'
+import type { ActionCacheConfig, ActionConfig, ActionStep } from './types.ts'
+
+/**
+ * Expand an action into the ordered list of commands to run.
+ *
+ * Each `dependsOn` action is expanded first and runs once per plan, even when
+ * several actions depend on it. `steps` that reference another action expand
+ * that action in place. Every command carries the `cwd`, `env`, `envFiles` and
+ * `continueOnError` of the action that declared it; only the invoked action's
+ * own commands receive extra CLI arguments. Commands of an action with
+ * `inputs` share one cache config, so they are cached as a unit. Plugin
+ * actions contribute their commands as-is.
+ *
+ * Throws {@link DenvigValidationError} for unknown actions and cycles.
+ */
+export const planAction = (
+  resolved: ResolvedAction[],
+  name: string,
+  options: { ecosystem?: string; rootPath: string },
+): ActionStep[] => {
+  const steps: ActionStep[] = []
+  const completedDependencies = new Set<string>()
+  const stack: string[] = []
+
+  const stepFor = (
+    action: ResolvedAction,
+    config: ActionConfig,
+    command: string,
+    root: boolean,
+    cache: ActionCacheConfig | undefined,
+  ): ActionStep => {
+    const cwd = resolve(options.rootPath, config.cwd ?? '.')
+    return {
+      action: action.name,
+      command,
+      cwd,
+      ...(config.env ? { env: config.env } : {}),
+      ...(config.envFiles
+        ? { envFiles: config.envFiles.map((file) => resolve(cwd, file)) }
+        : {}),
+      ...(config.continueOnError ? { continueOnError: true } : {}),
+      appendArgs: root,
+      ...(cache ? { cache } : {}),
+    }
+  }
+
+  const expand = (
+    ref: string,
+    ecosystem: string | undefined,
+    root: boolean,
+  ) => {
+    if (stack.includes(ref)) {
+      const cycle = [...stack.slice(stack.indexOf(ref)), ref]
+      throw new DenvigValidationError(
+        `Action dependency cycle: ${cycle.join(' → ')}`,
+      )
+    }
+    stack.push(ref)
+
+    for (const action of matchActions(resolved, ref, ecosystem)) {
+      const config = action.config
+      if (!config) {
+        for (const command of action.commands) {
+          steps.push({ action: action.name, command, appendArgs: root })
+        }
+        continue
+      }
+
+      const cache: ActionCacheConfig | undefined = config.inputs
+        ? {
+            action: action.name,
+            root: options.rootPath,
+            cwd: resolve(options.rootPath, config.cwd ?? '.'),
+            inputs: config.inputs,
+            outputs: config.outputs ?? [],
+          }
+        : undefined
+
+      for (const dependency of config.dependsOn ?? []) {
+        if (completedDependencies.has(dependency)) continue
+        expand(dependency, undefined, false)
+        completedDependencies.add(dependency)
+      }
+      if (config.command !== undefined) {
+        steps.push(stepFor(action, config, config.command, root, cache))
+      }
+      for (const step of config.steps ?? []) {
+        if (typeof step === 'string') {
+          steps.push(stepFor(action, config, step, root, cache))
+        } else {
+          expand(step.action, undefined, false)
+        }
+      }
+    }
+
+    stack.pop()
+  }
+
+  expand(name, options.ecosystem, true)
+  return steps
+}
@@ -0,0 +1,98 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { execSync } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { DenvigProject } from '../project.ts'
+import { filterProjects, runActionInProjects } from './projects.ts'
+
+let root = ''
+
+const createProject = async (name: string, config: string) => {
+  const path = join(root, name)
+  await mkdir(path, { recursive: true })
+  execSync('git init -q', { cwd: path })
+  await writeFile(join(path, '.denvig.yml'), `name: ${name}\n${config}`)
+  return DenvigProject.retrieve(path)
+}
+
+describe('projects', () => {
+  beforeEach(() => {
+    root = mkdtempSync(`${tmpdir()}/denvig-projects-run-`)
+  })
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('filterProjects()', () => {
+    it('should match project slugs or names', async () => {
+      const projects = [
+        await createProject('alpha', ''),
+        await createProject('beta', ''),
+      ]
+      deepStrictEqual(
+        filterProjects(projects, 'al*').map((project) => project.name),
+        ['alpha'],
+      )
+      deepStrictEqual(
+        filterProjects(projects, `local:${root}/beta`).map(
+          (project) => project.name,
+        ),
+        ['beta'],
+      )
+    })
+  })
+
+  describe('runActionInProjects()', () => {
+    it('should run the action where defined and skip the rest', async () => {
+      const projects = [
+        await createProject(
+          'alpha',
+          'actions:\n  check:\n    command: echo alpha ok\n',
+        ),
+        await createProject(
+          'beta',
+          'actions:\n  check:\n    command: echo beta bad >&2; exit 1\n',
+        ),
+        await createProject('gamma', ''),
+      ]
+
+      const lines: string[] = []
+      const results = await runActionInProjects(projects, 'check', {
+        concurrency: 2,
+        onCommand: (project, line) => lines.push(`${project.name}:${line}`),
+        onOutput: (project, line, stream) =>
+          lines.push(`${project.name}:${stream}:${line}`),
+      })
+
+      deepStrictEqual(
+        results.map((result) => [result.name, result.status, result.reason]),
+        [
+          ['alpha', 'passed', undefined],
+          ['beta', 'failed', undefined],
+          ['gamma', 'skipped', 'action not defined'],
+        ],
+      )
+      strictEqual(lines.includes('alpha:$ echo alpha ok'), true)
+      strictEqual(lines.includes('alpha:stdout:alpha ok'), true)
+      strictEqual(lines.includes('beta:stderr:beta bad'), true)
+    })
+
+    it('should report planning errors as failures', async () => {
+      const projects = [
+        await createProject(
+          'loop',
+          'actions:\n  a:\n    dependsOn: [b]\n  b:\n    dependsOn: [a]\n',
+        ),
+      ]
+      const [result] = await runActionInProjects(projects, 'a', {
+        onCommand: () => {},
+      })
+      strictEqual(result.status, 'failed')
+      strictEqual(result.reason, 'Action dependency cycle: a → b → a')
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { availableParallelism } from 'node:os'
+
+import { globToRegExp } from '../project/workspaces.ts'
+import { planAction } from './plan.ts'
+import { detectActionsByEcosystem, matchActions } from './resolve.ts'
+import { runActionCommands } from './run.ts'
+
+import type { DenvigProject } from '../project.ts'
+import type { ResolvedAction } from './resolve.ts'
+import type { OutputStream } from './run.ts'
+
+export type ProjectRunStatus = 'passed' | 'failed' | 'skipped'
+
+/** The project an action runs in, as reported to callbacks. */
+export type ProjectRunTarget = {
+  slug: string
+  name: string
+  /** Absolute path of the checkout the action runs in. */
+  path: string
+}
+
+/** Outcome of running an action in one project. */
+export type ProjectRunResult = ProjectRunTarget & {
+  status: ProjectRunStatus
+  /** Milliseconds the action ran for; 0 when it was skipped. */
+  durationMs: number
+  /** Why the project was skipped, or why it failed before running. */
+  reason?: string
+}
+
+export type RunProjectsActionOptions = {
+  /** Extra arguments passed to the action's commands. */
+  args?: string[]
+  /** Comma-separated globs matched against project slugs and names. */
+  filter?: string
+  /** Maximum projects running at once. Defaults to the number of CPUs. */
+  concurrency?: number
+  /** Called before a project's action starts. */
+  onStart?: (project: ProjectRunTarget) => void
+  /** Sink for the `$ <command>` echo lines and cache status lines. */
+  onCommand?: (project: ProjectRunTarget, line: string) => void
+  /** Sink for each complete line the action's commands print. */
+  onOutput?: (
+    project: ProjectRunTarget,
+    line: string,
+    stream: OutputStream,
+  ) => void
+}
+
+/**
+ * Select projects whose slug or name matches any of the comma-separated glob
+ * patterns (e.g. `github:acme/*,docs`).
+ */
+export const filterProjects = (
+  projects: DenvigProject[],
+  filter: string,
+): DenvigProject[] => {
+  const patterns = filter
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .map(globToRegExp)
+  return projects.filter((project) =>
+    patterns.some(
+      (regexp) => regexp.test(project.slug) || regexp.test(project.name),
+    ),
+  )
+}
+
+const definesAction = (resolved: ResolvedAction[], action: string): boolean => {
+  try {
+    matchActions(resolved, action)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Run an action in the active checkout of each project, with up to
+ * `concurrency` projects running at once. The action is resolved per project
+ * like `denvig run`; projects that don't define it are reported as skipped.
+ * Results are returned in project order.
+ */
+export const runActionInProjects = async (
+  projects: DenvigProject[],
+  action: string,
+  options: RunProjectsActionOptions = {},
+): Promise<ProjectRunResult[]> => {
+  const selected = options.filter
+    ? filterProjects(projects, options.filter)
+    : projects
+  const concurrency = Math.max(1, options.concurrency ?? availableParallelism())
+  const results: ProjectRunResult[] = selected.map((project) => ({
+    slug: project.slug,
+    name: project.name,
+    path: project.activeWorktree.path,
+    status: 'skipped',
+    durationMs: 0,
+  }))
+
+  const runProject = async (
+    project: DenvigProject,
+    result: ProjectRunResult,
+  ) => {
+    const worktree = project.activeWorktree
+    const target = { slug: result.slug, name: result.name, path: result.path }
+    const startedAt = Date.now()
+    try {
+      const resolved = await detectActionsByEcosystem(worktree)
+      if (!definesAction(resolved, action)) {
+        result.reason = 'action not defined'
+        return
+      }
+      const steps = planAction(resolved, action, { rootPath: worktree.path })
+      options.onStart?.(target)
+      const { success } = await runActionCommands(steps, {
+        args: options.args,
+        projectSlug: worktree.slug,
+        cwd: worktree.path,
+        onCommand: (line) => options.onCommand?.(target, line),
+        onOutput: (line, stream) => options.onOutput?.(target, line, stream),
+      })
+      result.status = success ? 'passed' : 'failed'
+    } catch (e) {
+      result.status = 'failed'
+      result.reason = e instanceof Error ? e.message : String(e)
+    }
+    result.durationMs = Date.now() - startedAt
+  }
+
+  let next = 0
+  const worker = async () => {
+    while (next < selected.length) {
+      const index = next++
+      await runProject(selected[index], results[index])
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, selected.length) }, worker),
+  )
+
+  return results
+}
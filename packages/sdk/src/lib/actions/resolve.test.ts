@@ -2,7 +2,11 @@ import { deepStrictEqual, strictEqual, throws } from 'node:assert'
 import { describe, it } from 'node:test'
 
 import { DenvigValidationError } from '../errors.ts'
-import { type ResolvedAction, resolveAction } from './resolve.ts'
+import {
+  describeActionCommands,
+  type ResolvedAction,
+  resolveAction,
+} from './resolve.ts'
 
 const actions: ResolvedAction[] = [
   { name: 'build', ecosystem: 'project', commands: ['tsc'] },
@@ -49,3 +53,15 @@ describe('resolveAction()', () => {
     )
   })
 })
+
+describe('describeActionCommands()', () => {
+  it('lists dependencies and referenced actions as denvig run commands', () => {
+    deepStrictEqual(
+      describeActionCommands({
+        dependsOn: ['install'],
+        steps: ['pnpm lint', { action: 'test' }],
+      }),
+      ['denvig run install', 'pnpm lint', 'denvig run test'],
+    )
+  })
+})
@@ -2,6 +2,7 @@ import { DenvigValidationError } from '../errors.ts'
 import plugins from '../plugins.ts'
 
 import type { Worktree } from '../project/worktree.ts'
+import type { ActionConfig } from './types.ts'
 
 /** An action tagged with the source that produced it. */
 export type ResolvedAction = {
@@ -9,8 +10,22 @@ export type ResolvedAction = {
   /** `project` for `.denvig.yml` actions, otherwise the plugin ecosystem. */
   ecosystem: string
   commands: string[]
+  /** The `.denvig.yml` definition, for `project` actions. */
+  config?: ActionConfig
 }
 
+/**
+ * Describe a project action's config as the commands it runs, for listings.
+ * Dependencies and referenced actions are shown as `denvig run <name>`.
+ */
+export const describeActionCommands = (config: ActionConfig): string[] => [
+  ...(config.dependsOn ?? []).map((name) => `denvig run ${name}`),
+  ...(config.command !== undefined ? [config.command] : []),
+  ...(config.steps ?? []).map((step) =>
+    typeof step === 'string' ? step : `denvig run ${step.action}`,
+  ),
+]
+
 /**
  * Detect a worktree's actions while preserving which source defined each one.
  * Unlike {@link detectActions}, this does not merge sources into a flat map, so
@@ -25,11 +40,12 @@ export const detectActionsByEcosystem = async (
   const resolved: ResolvedAction[] = []
 
   if (worktree.config.actions) {
-    for (const [name, value] of Object.entries(worktree.config.actions)) {
+    for (const [name, config] of Object.entries(worktree.config.actions)) {
       resolved.push({
         name,
         ecosystem: 'project',
-        commands: [(value as { command: string }).command],
+        commands: describeActionCommands(config),
+        config,
       })
     }
   }
@@ -45,24 +61,22 @@ export const detectActionsByEcosystem = async (
 }
 
 /**
- * Resolve a single action by name, optionally scoped to an ecosystem. Supports
- * the `ecosystem:name` shorthand (e.g. `npm:build`), which takes precedence over
- * the `ecosystem` argument.
+ * Find the sources that define an action, optionally scoped to an ecosystem.
+ * Supports the `ecosystem:name` shorthand (e.g. `npm:build`), which takes
+ * precedence over the `ecosystem` argument.
  *
  * A literal action name always wins over the shorthand, so an action defined
  * with a colon in its name (e.g. `compile:darwin-x64`) resolves as-is rather
  * than being read as `ecosystem:name`.
  *
- * Without an ecosystem the commands from every source that defines the action
- * are concatenated (project first), matching the merged behaviour of
- * {@link detectActions}. Throws {@link DenvigValidationError} when nothing
- * matches.
+ * Without an ecosystem every source that defines the action is returned,
+ * project first. Throws {@link DenvigValidationError} when nothing matches.
  */
-export const resolveAction = (
+export const matchActions = (
   resolved: ResolvedAction[],
   name: string,
   ecosystem?: string,
-): ResolvedAction => {
+): ResolvedAction[] => {
   let targetName = name
   let targetEcosystem = ecosystem
 
@@ -86,12 +100,34 @@ export const resolveAction = (
         `Action "${targetName}" not found for ecosystem "${targetEcosystem}".`,
       )
     }
-    return match
+    return [match]
+  }
+
+  return matches
+}
+
+/**
+ * Resolve a single action by name, optionally scoped to an ecosystem (see
+ * {@link matchActions}).
+ *
+ * Without an ecosystem the commands from every source that defines the action
+ * are concatenated (project first), matching the merged behaviour of
+ * {@link detectActions}. Throws {@link DenvigValidationError} when nothing
+ * matches.
+ */
+export const resolveAction = (
+  resolved: ResolvedAction[],
+  name: string,
+  ecosystem?: string,
+): ResolvedAction => {
+  const matches = matchActions(resolved, name, ecosystem)
+  if (matches.length === 1) {
+    return matches[0]
   }
 
   // No ecosystem: merge every source's commands, preserving project-first order.
   return {
-    name: targetName,
+    name: matches[0].name,
     ecosystem: matches[0].ecosystem,
     commands: matches.flatMap((action) => action.commands),
   }
@@ -0,0 +1,104 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+
+import { runActionCommands } from './run.ts'
+
+describe('runActionCommands()', () => {
+  let dir: string
+  let originalHome: string | undefined
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'denvig-run-'))
+    originalHome = process.env.HOME
+    process.env.HOME = dir
+  })
+
+  after(async () => {
+    if (originalHome !== undefined) process.env.HOME = originalHome
+    else delete process.env.HOME
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  const run = async (
+    commands: Parameters<typeof runActionCommands>[0],
+    options: { force?: boolean; explain?: boolean } = {},
+  ) => {
+    const lines: string[] = []
+    const result = await runActionCommands(commands, {
+      projectSlug: 'test',
+      cwd: dir,
+      args: ['--flag'],
+      interactive: false,
+      onCommand: (line) => lines.push(line),
+      ...options,
+    })
+    return { ...result, lines }
+  }
+
+  it('stops at the first failing command', async () => {
+    const result = await run(['true', 'false', 'true'])
+    strictEqual(result.success, false)
+    deepStrictEqual(result.lines, ['$ true --flag', '$ false --flag'])
+  })
+
+  it('continues past a failing step with continueOnError', async () => {
+    const result = await run([
+      { action: 'a', command: 'false', continueOnError: true },
+      { action: 'b', command: 'true' },
+    ])
+    strictEqual(result.success, false)
+    deepStrictEqual(result.lines, ['$ false', '$ true'])
+  })
+
+  it('runs steps with their own env and env files', async () => {
+    await writeFile(join(dir, '.env'), 'FROM_FILE=file\nSHARED=file\n')
+    const result = await run([
+      {
+        action: 'check',
+        command:
+          'test "$FROM_FILE" = file && test "$SHARED" = env && test "$DENVIG_PROJECT" = test',
+        cwd: dir,
+        env: { SHARED: 'env' },
+        envFiles: [join(dir, '.env'), join(dir, '.env.missing')],
+      },
+    ])
+    strictEqual(result.success, true)
+  })
+  it('skips cached steps until their inputs change', async () => {
+    await writeFile(join(dir, 'input.txt'), 'one')
+    const cache = {
+      action: 'build',
+      root: dir,
+      cwd: dir,
+      inputs: ['input.txt'],
+      outputs: ['output.txt'],
+    }
+    const steps = [
+      { action: 'build', command: 'cp input.txt output.txt', cwd: dir, cache },
+    ]
+
+    const first = await run(steps, { explain: true })
+    deepStrictEqual(first.lines, [
+      'build: cache miss (no previous run)',
+      '$ cp input.txt output.txt',
+    ])
+
+    await rm(join(dir, 'output.txt'))
+    const second = await run(steps)
+    deepStrictEqual(second.lines, ['✓ build is up to date (restored 1 output)'])
+    strictEqual(await readFile(join(dir, 'output.txt'), 'utf8'), 'one')
+
+    const forced = await run(steps, { force: true })
+    deepStrictEqual(forced.lines, ['$ cp input.txt output.txt'])
+
+    await writeFile(join(dir, 'input.txt'), 'two')
+    const changed = await run(steps, { explain: true })
+    deepStrictEqual(changed.lines, [
+      'build: cache miss (input.txt changed)',
+      '$ cp input.txt output.txt',
+    ])
+  })
+})
@@ -1,83 +1,262 @@
 import { spawn } from 'node:child_process'
 
+import { loadEnvFiles } from '../services/env.ts'
+import {
+  computeActionCacheManifest,
+  explainActionCacheMiss,
+  findActionCacheEntry,
+  readLatestActionCacheManifest,
+  restoreActionOutputs,
+  saveActionCacheEntry,
+} from './cache.ts'
+
+import type { ChildProcess } from 'node:child_process'
+import type { ActionCacheManifest } from './cache.ts'
+import type { ActionCacheConfig, ActionStep } from './types.ts'
+
 export type RunActionOptions = {
-  /** Extra arguments appended to every command. */
+  /**
+   * Extra arguments appended to every plain command, and to steps with
+   * `appendArgs` set.
+   */
   args?: string[]
   /** Worktree slug, exported to the spawned process as `DENVIG_PROJECT`. */
   projectSlug: string
-  /** Working directory the commands run in. */
+  /** Working directory for commands without a `cwd` of their own. */
   cwd: string
   /**
    * Force interactive (TTY-preserving) execution. Defaults to whether the
    * parent process has a TTY on both stdin and stdout.
    */
   interactive?: boolean
-  /** Sink for the `$ <command>` echo lines. Defaults to `console.log`. */
+  /**
+   * Sink for the `$ <command>` echo lines and cache status lines. Defaults to
+   * `console.log`.
+   */
   onCommand?: (line: string) => void
+  /** Run cached actions even when their inputs are unchanged. */
+  force?: boolean
+  /** Report why each cached action missed the cache. */
+  explain?: boolean
+  /**
+   * Receive each line the commands print instead of inheriting stdio, so the
+   * caller can prefix or collect it. Implies non-interactive execution.
+   */
+  onOutput?: (line: string, stream: OutputStream) => void
 }
 
+export type OutputStream = 'stdout' | 'stderr'
+
 export type RunActionResult = { success: boolean }
 
+/** Cache state of one action's commands within a run. */
+type CacheUnit = {
+  manifest: ActionCacheManifest | null
+  skip: boolean
+  failed: boolean
+  lastIndex: number
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+/**
+ * Forward a child process's piped stdout and stderr line by line. A trailing
+ * partial line is flushed when its stream ends.
+ */
+export const forwardOutputLines = (
+  child: ChildProcess,
+  onLine: (line: string, stream: OutputStream) => void,
+): void => {
+  for (const stream of ['stdout', 'stderr'] as const) {
+    const source = child[stream]
+    if (!source) continue
+    let buffer = ''
+    source.setEncoding('utf8')
+    source.on('data', (chunk: string) => {
+      buffer += chunk
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) onLine(line, stream)
+    })
+    source.on('end', () => {
+      if (buffer) onLine(buffer, stream)
+    })
+  }
+}
+
+/**
+ * Spawn a single shell command and resolve whether it exited 0. Stdio is
+ * inherited unless `onOutput` is given, in which case output is piped to it
+ * line by line.
+ */
+const spawnCommand = (
+  command: string,
+  cwd: string,
+  env: NodeJS.ProcessEnv,
+  interactive: boolean,
+  onOutput?: RunActionOptions['onOutput'],
+): Promise<boolean> => {
+  let commandName: string
+  let commandArgs: string[]
+
+  if (interactive) {
+    // Use `script` to preserve TTY behaviour in interactive environments.
+    if (process.platform === 'darwin') {
+      // macOS (BSD script): script [options] [file [command]]
+      commandName = 'script'
+      commandArgs = ['-q', '/dev/null', 'sh', '-c', command]
+    } else {
+      // Linux (util-linux script): script [options] [file]
+      commandName = 'script'
+      commandArgs = ['-q', '-c', command, '/dev/null']
+    }
+  } else {
+    // Direct execution in non-TTY environments (tests, CI, pipes).
+    commandName = 'sh'
+    commandArgs = ['-c', command]
+  }
+
+  const child = spawn(commandName, commandArgs, {
+    cwd,
+    env,
+    stdio: onOutput ? ['ignore', 'pipe', 'pipe'] : 'inherit',
+  })
+  if (onOutput) forwardOutputLines(child, onOutput)
+
+  return new Promise<boolean>((resolve) => {
+    child.on('error', () => resolve(false))
+    child.on('close', (code: number | null) => resolve(code === 0))
+  })
+}
+
 /**
  * Run a sequence of shell commands, streaming their stdio to the parent
  * process. TTY-aware: wraps each command in `script` when interactive so colour
  * and prompts are preserved, falling back to `sh -c` otherwise. Commands run
- * sequentially; the first failure marks the run failed but the remaining
- * commands still run.
+ * sequentially and the first failure stops the run, unless the failing step
+ * sets `continueOnError` (the run still reports the failure).
+ *
+ * Plain strings run in `options.cwd` with the extra arguments appended; steps
+ * run with their own `cwd`, `env` and `envFiles`. Steps sharing a `cache`
+ * config are skipped together when a previous successful run had the same
+ * commands, env and input contents, restoring that run's outputs; otherwise
+ * they run and are cached once the last of them succeeds.
  */
 export const runActionCommands = async (
-  commands: string[],
+  commands: Array<string | ActionStep>,
   options: RunActionOptions,
 ): Promise<RunActionResult> => {
-  const { args = [], projectSlug, cwd } = options
+  const { args = [], projectSlug } = options
   const onCommand = options.onCommand ?? ((line: string) => console.log(line))
   const interactive =
-    options.interactive ?? !!(process.stdout.isTTY && process.stdin.isTTY)
+    !options.onOutput &&
+    (options.interactive ?? !!(process.stdout.isTTY && process.stdin.isTTY))
+
+  const steps: Array<Omit<ActionStep, 'action'> & { action?: string }> =
+    commands.map((entry) =>
+      typeof entry === 'string' ? { command: entry, appendArgs: true } : entry,
+    )
+  const proxied = steps.map((step) =>
+    step.appendArgs ? `${step.command} ${args.join(' ')}`.trim() : step.command,
+  )
+
+  const units = new Map<ActionCacheConfig, CacheUnit>()
+  const openCacheUnit = async (
+    cache: ActionCacheConfig,
+    step: (typeof steps)[number],
+  ): Promise<CacheUnit> => {
+    const indexes = steps.flatMap((s, i) => (s.cache === cache ? [i] : []))
+    const unit: CacheUnit = {
+      manifest: null,
+      skip: false,
+      failed: false,
+      lastIndex: indexes[indexes.length - 1],
+    }
+
+    try {
+      unit.manifest = await computeActionCacheManifest(cache, {
+        commands: indexes.map((i) => proxied[i]),
+        env: step.env,
+        envFiles: step.envFiles,
+      })
+      if (options.force) {
+        if (options.explain) {
+          onCommand(`${cache.action}: cache bypassed (--force)`)
+        }
+        return unit
+      }
+
+      const entry = await findActionCacheEntry(cache, unit.manifest.key)
+      if (entry) {
+        const restored = await restoreActionOutputs(cache, entry)
+        onCommand(
+          `✓ ${cache.action} is up to date${restored > 0 ? ` (restored ${restored} output${restored === 1 ? '' : 's'})` : ''}`,
+        )
+        unit.skip = true
+      } else if (options.explain) {
+        const previous = await readLatestActionCacheManifest(cache)
+        const reasons = explainActionCacheMiss(previous, unit.manifest)
+        onCommand(`${cache.action}: cache miss (${reasons.join(', ')})`)
+      }
+    } catch (e) {
+      onCommand(`${cache.action}: cache unavailable (${errorMessage(e)})`)
+      unit.manifest = null
+    }
+    return unit
+  }
 
   let status: RunActionResult = { success: true }
 
-  for (const command of commands) {
-    const commandToProxy = `${command} ${args.join(' ')}`.trim()
+  for (const [index, step] of steps.entries()) {
+    let unit: CacheUnit | undefined
+    if (step.cache) {
+      unit = units.get(step.cache)
+      if (!unit) {
+        unit = await openCacheUnit(step.cache, step)
+        units.set(step.cache, unit)
+      }
+      if (unit.skip) continue
+    }
+
+    const commandToProxy = proxied[index]
     onCommand(`$ ${commandToProxy}`)
 
     const env = {
       ...process.env,
+      ...(step.envFiles
+        ? await loadEnvFiles(step.envFiles, { skipMissing: true })
+        : {}),
+      ...step.env,
       DENVIG_PROJECT: projectSlug,
     }
 
-    let commandName: string
-    let commandArgs: string[]
-
-    if (interactive) {
-      // Use `script` to preserve TTY behaviour in interactive environments.
-      if (process.platform === 'darwin') {
-        // macOS (BSD script): script [options] [file [command]]
-        commandName = 'script'
-        commandArgs = ['-q', '/dev/null', 'sh', '-c', commandToProxy]
-      } else {
-        // Linux (util-linux script): script [options] [file]
-        commandName = 'script'
-        commandArgs = ['-q', '-c', commandToProxy, '/dev/null']
-      }
-    } else {
-      // Direct execution in non-TTY environments (tests, CI, pipes).
-      commandName = 'sh'
-      commandArgs = ['-c', commandToProxy]
-    }
-
-    const child = spawn(commandName, commandArgs, {
-      cwd,
+    const success = await spawnCommand(
+      commandToProxy,
+      step.cwd ?? options.cwd,
       env,
-      stdio: 'inherit',
-    })
+      interactive,
+      options.onOutput,
+    )
+    if (!success) {
+      status = { success: false }
+      if (unit) unit.failed = true
+      if (!step.continueOnError) break
+    }
 
-    const commandStatus = await new Promise<RunActionResult>((resolve) => {
-      child.on('close', (code: number | null) => {
-        resolve({ success: code === 0 })
-      })
-    })
-    if (!commandStatus.success) {
-      status = commandStatus
+    if (
+      step.cache &&
+      unit?.manifest &&
+      !unit.failed &&
+      index === unit.lastIndex
+    ) {
+      try {
+        await saveActionCacheEntry(step.cache, unit.manifest)
+      } catch (e) {
+        onCommand(
+          `${step.cache.action}: failed to save cache (${errorMessage(e)})`,
+        )
+      }
     }
   }
 
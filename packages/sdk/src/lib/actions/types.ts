@@ -1 +1,43 @@
+import type { ProjectConfigSchema } from '../../schemas/config.ts'
+
 export type Actions = Record<string, string[]>
+
+export type ActionConfig = NonNullable<ProjectConfigSchema['actions']>[string]
+
+/**
+ * Caching settings shared by the commands of one action that declares
+ * `inputs`.
+ */
+export type ActionCacheConfig = {
+  action: string
+  /** Worktree root, used to scope the cache to the checkout. */
+  root: string
+  /** Absolute working directory the globs are relative to. */
+  cwd: string
+  inputs: string[]
+  outputs: string[]
+}
+
+/**
+ * A single command in a planned action run, carrying the settings of the
+ * action that declared it.
+ */
+export type ActionStep = {
+  /** Name of the action the command belongs to. */
+  action: string
+  command: string
+  /** Absolute working directory. Defaults to the worktree root. */
+  cwd?: string
+  env?: Record<string, string>
+  /** Absolute paths of .env files to load; missing files are skipped. */
+  envFiles?: string[]
+  /** Keep running the remaining steps when this one fails. */
+  continueOnError?: boolean
+  /** Append the extra CLI arguments (only the invoked action's own commands). */
+  appendArgs?: boolean
+  /**
+   * Cache settings of the declaring action. Steps sharing the same object are
+   * skipped or run together as one cached unit.
+   */
+  cache?: ActionCacheConfig
+}
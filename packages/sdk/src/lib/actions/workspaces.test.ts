@@ -0,0 +1,125 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  runWorkspaceAction,
+  selectedDependencies,
+  workspaceScriptCommand,
+} from './workspaces.ts'
+
+let root = ''
+
+const writePackage = async (
+  directory: string,
+  content: Record<string, unknown>,
+) => {
+  await mkdir(join(root, directory), { recursive: true })
+  await writeFile(
+    join(root, directory, 'package.json'),
+    JSON.stringify(content),
+  )
+}
+
+const pkg = (name: string, dependencies: string[] = []) => ({
+  name,
+  path: `/tmp/${name}`,
+  relativePath: name,
+  scripts: {},
+  dependencies,
+})
+
+describe('workspaces', () => {
+  describe('workspaceScriptCommand()', () => {
+    it('should build the script command for each package manager', () => {
+      strictEqual(
+        workspaceScriptCommand('pnpm', 'test', ['--watch']),
+        'pnpm --reporter=silent run test --watch',
+      )
+      strictEqual(workspaceScriptCommand('yarn', 'test'), 'yarn run test')
+      strictEqual(
+        workspaceScriptCommand('npm', 'test', ['--watch']),
+        'npm run --silent test -- --watch',
+      )
+    })
+  })
+
+  describe('selectedDependencies()', () => {
+    it('should follow dependencies through unselected packages', () => {
+      const all = [pkg('a'), pkg('b', ['a']), pkg('c', ['b'])]
+      deepStrictEqual(selectedDependencies(all, [all[0], all[2]]), {
+        a: [],
+        c: ['a'],
+      })
+    })
+  })
+
+  describe('runWorkspaceAction()', () => {
+    beforeEach(() => {
+      root = mkdtempSync(`${tmpdir()}/denvig-workspace-run-`)
+    })
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true })
+    })
+
+    it('should run dependencies first and skip dependents of failures', async () => {
+      await writePackage('.', { workspaces: ['packages/*'] })
+      await writePackage('packages/core', {
+        name: 'core',
+        scripts: { check: 'echo core ok' },
+      })
+      await writePackage('packages/broken', {
+        name: 'broken',
+        scripts: { check: 'echo oops >&2; exit 3' },
+      })
+      await writePackage('packages/web', {
+        name: 'web',
+        scripts: { check: 'echo web ok' },
+        dependencies: { core: '*', broken: '*' },
+      })
+      await writePackage('packages/docs', { name: 'docs' })
+
+      const lines: string[] = []
+      const results = await runWorkspaceAction(root, 'check', {
+        projectSlug: 'test',
+        concurrency: 1,
+        onOutput: (pkg, line, stream) =>
+          lines.push(`${stream}:${pkg.name}:${line}`),
+      })
+
+      deepStrictEqual(
+        results.map((result) => [result.name, result.status, result.exitCode]),
+        [
+          ['broken', 'failed', 3],
+          ['core', 'passed', 0],
+          ['web', 'skipped', null],
+        ],
+      )
+      strictEqual(results[2].reason, 'broken failed')
+      strictEqual(lines.includes('stderr:broken:oops'), true)
+      strictEqual(lines.includes('stdout:core:core ok'), true)
+    })
+
+    it('should reject directories that are not workspaces', async () => {
+      await rejects(
+        runWorkspaceAction(root, 'build', { projectSlug: 'test' }),
+        /No pnpm, yarn or npm workspace found/,
+      )
+    })
+
+    it('should reject when no package defines the script', async () => {
+      await writePackage('.', { workspaces: ['packages/*'] })
+      await writePackage('packages/core', { name: 'core' })
+      await rejects(
+        runWorkspaceAction(root, 'build', {
+          projectSlug: 'test',
+          filter: 'core',
+        }),
+        /No workspace package matching "core" defines a "build" script/,
+      )
+    })
+  })
+})
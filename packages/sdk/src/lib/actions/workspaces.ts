@@ -0,0 +1,235 @@
+import { spawn } from 'node:child_process'
+import { availableParallelism } from 'node:os'
+
+import { DenvigValidationError } from '../errors.ts'
+import {
+  discoverWorkspace,
+  filterWorkspacePackages,
+  type WorkspaceManager,
+  type WorkspacePackage,
+} from '../project/workspaces.ts'
+import { findDependencyCycle } from '../services/graph.ts'
+import { forwardOutputLines } from './run.ts'
+
+export type WorkspaceRunStatus = 'passed' | 'failed' | 'skipped'
+
+/** Outcome of running an action in one workspace package. */
+export type WorkspaceRunResult = {
+  name: string
+  relativePath: string
+  status: WorkspaceRunStatus
+  /** Milliseconds the script ran for; 0 when it was skipped. */
+  durationMs: number
+  exitCode: number | null
+  /** Why the package was skipped. */
+  reason?: string
+}
+
+export type RunWorkspaceActionOptions = {
+  /** Worktree slug, exported to the spawned processes as `DENVIG_PROJECT`. */
+  projectSlug: string
+  /** Extra arguments passed to every package's script. */
+  args?: string[]
+  /** Comma-separated globs matched against package names and paths. */
+  filter?: string
+  /** Maximum scripts running at once. Defaults to the number of CPUs. */
+  concurrency?: number
+  /** Called before a package's script starts. */
+  onStart?: (pkg: WorkspacePackage, command: string) => void
+  /**
+   * Sink for each complete line a script prints. Defaults to writing
+   * `[name] line` to the matching stream of the parent process.
+   */
+  onOutput?: (
+    pkg: WorkspacePackage,
+    line: string,
+    stream: 'stdout' | 'stderr',
+  ) => void
+}
+
+/**
+ * The command that runs a package script with the workspace's package
+ * manager.
+ */
+export const workspaceScriptCommand = (
+  manager: WorkspaceManager,
+  script: string,
+  args: string[] = [],
+): string => {
+  const base = {
+    pnpm: `pnpm --reporter=silent run ${script}`,
+    yarn: `yarn run ${script}`,
+    npm: `npm run --silent ${script}`,
+  }[manager]
+  if (args.length === 0) return base
+  return manager === 'npm'
+    ? `${base} -- ${args.join(' ')}`
+    : `${base} ${args.join(' ')}`
+}
+
+/**
+ * For each selected package, the selected packages it depends on, following
+ * dependencies through packages that aren't selected.
+ */
+export const selectedDependencies = (
+  all: WorkspacePackage[],
+  selected: WorkspacePackage[],
+): Record<string, string[]> => {
+  const byName = new Map(all.map((pkg) => [pkg.name, pkg]))
+  const selectedNames = new Set(selected.map((pkg) => pkg.name))
+  const edges: Record<string, string[]> = {}
+
+  for (const pkg of selected) {
+    const found = new Set<string>()
+    const seen = new Set<string>([pkg.name])
+    const queue = [...pkg.dependencies]
+    while (queue.length > 0) {
+      const name = queue.shift() as string
+      if (seen.has(name)) continue
+      seen.add(name)
+      if (selectedNames.has(name)) {
+        found.add(name)
+      } else {
+        queue.push(...(byName.get(name)?.dependencies ?? []))
+      }
+    }
+    edges[pkg.name] = [...found].sort()
+  }
+  return edges
+}
+
+/**
+ * Run a script in one package, forwarding its output line by line.
+ */
+const runPackageScript = (
+  pkg: WorkspacePackage,
+  command: string,
+  options: RunWorkspaceActionOptions,
+): Promise<number | null> =>
+  new Promise((resolve) => {
+    const onOutput =
+      options.onOutput ??
+      ((pkg, line, stream) => {
+        const target = stream === 'stderr' ? process.stderr : process.stdout
+        target.write(`[${pkg.name}] ${line}\n`)
+      })
+
+    const child = spawn('sh', ['-c', command], {
+      cwd: pkg.path,
+      env: { ...process.env, DENVIG_PROJECT: options.projectSlug },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+
+    forwardOutputLines(child, (line, stream) => onOutput(pkg, line, stream))
+
+    child.on('error', () => resolve(null))
+    child.on('close', (code: number | null) => resolve(code))
+  })
+
+/**
+ * Run an action (a package script) in every workspace package that defines
+ * it. Packages start once the packages they depend on have passed, with up
+ * to `concurrency` scripts running at once; when a package fails, the
+ * packages depending on it are skipped. Results are returned in the order the
+ * packages started, followed by skipped packages.
+ *
+ * Throws {@link DenvigValidationError} when the directory isn't a workspace,
+ * no selected package defines the script, or packages depend on each other
+ * in a cycle.
+ */
+export const runWorkspaceAction = async (
+  rootPath: string,
+  action: string,
+  options: RunWorkspaceActionOptions,
+): Promise<WorkspaceRunResult[]> => {
+  const workspace = await discoverWorkspace(rootPath)
+  if (!workspace) {
+    throw new DenvigValidationError(
+      'No pnpm, yarn or npm workspace found (pnpm-workspace.yaml or package.json workspaces).',
+    )
+  }
+
+  const candidates = options.filter
+    ? filterWorkspacePackages(workspace.packages, options.filter)
+    : workspace.packages
+  const selected = candidates.filter((pkg) => action in pkg.scripts)
+  if (selected.length === 0) {
+    throw new DenvigValidationError(
+      `No workspace package${options.filter ? ` matching "${options.filter}"` : ''} defines a "${action}" script.`,
+    )
+  }
+
+  const edges = selectedDependencies(workspace.packages, selected)
+  const cycle = findDependencyCycle(edges)
+  if (cycle) {
+    throw new DenvigValidationError(
+      `Workspace dependency cycle: ${cycle.join(' → ')}`,
+    )
+  }
+
+  const concurrency = Math.max(1, options.concurrency ?? availableParallelism())
+  const command = workspaceScriptCommand(
+    workspace.manager,
+    action,
+    options.args,
+  )
+  const results: WorkspaceRunResult[] = []
+  const statuses = new Map<string, WorkspaceRunStatus>()
+  const pending = [...selected]
+  const running = new Set<Promise<void>>()
+
+  const start = (pkg: WorkspacePackage) => {
+    options.onStart?.(pkg, command)
+    const result: WorkspaceRunResult = {
+      name: pkg.name,
+      relativePath: pkg.relativePath,
+      status: 'passed',
+      durationMs: 0,
+      exitCode: null,
+    }
+    results.push(result)
+    const startedAt = Date.now()
+    const task = runPackageScript(pkg, command, options).then((exitCode) => {
+      result.exitCode = exitCode
+      result.durationMs = Date.now() - startedAt
+      result.status = exitCode === 0 ? 'passed' : 'failed'
+      statuses.set(pkg.name, result.status)
+      running.delete(task)
+    })
+    running.add(task)
+  }
+
+  while (pending.length > 0 || running.size > 0) {
+    for (const pkg of [...pending]) {
+      const dependencies = edges[pkg.name] ?? []
+      const blocked = dependencies.find(
+        (name) => statuses.has(name) && statuses.get(name) !== 'passed',
+      )
+      if (blocked) {
+        pending.splice(pending.indexOf(pkg), 1)
+        statuses.set(pkg.name, 'skipped')
+        results.push({
+          name: pkg.name,
+          relativePath: pkg.relativePath,
+          status: 'skipped',
+          durationMs: 0,
+          exitCode: null,
+          reason: `${blocked} ${statuses.get(blocked) === 'failed' ? 'failed' : 'was skipped'}`,
+        })
+        continue
+      }
+      if (running.size >= concurrency) continue
+      if (dependencies.every((name) => statuses.get(name) === 'passed')) {
+        pending.splice(pending.indexOf(pkg), 1)
+        start(pkg)
+      }
+    }
+    if (running.size > 0) {
+      await Promise.race(running)
+    }
+  }
+
+  const order = (result: WorkspaceRunResult) =>
+    result.status === 'skipped' ? 1 : 0
+  return results.sort((a, b) => order(a) - order(b))
+}
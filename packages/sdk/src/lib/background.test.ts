@@ -0,0 +1,77 @@
+import { ok, strictEqual } from 'node:assert'
+import {
+  chmodSync,
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  isProcessAlive,
+  readLivePid,
+  removePidFile,
+  startBackgroundProcess,
+  writePidFile,
+} from './background.ts'
+
+describe('background processes', () => {
+  let dir: string
+  let originalPath: string | undefined
+
+  beforeEach(() => {
+    dir = mkdtempSync(resolve(tmpdir(), 'denvig-background-'))
+    originalPath = process.env.PATH
+  })
+
+  afterEach(() => {
+    process.env.PATH = originalPath
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads back the pid of a live process only', async () => {
+    const pidPath = resolve(dir, 'nested', 'test.pid')
+    strictEqual(await readLivePid(pidPath), null)
+
+    await writePidFile(pidPath, process.pid)
+    strictEqual(await readLivePid(pidPath), process.pid)
+    ok(isProcessAlive(process.pid))
+
+    writeFileSync(pidPath, 'not a pid\n')
+    strictEqual(await readLivePid(pidPath), null)
+  })
+
+  it('leaves a pid file claimed by another process', async () => {
+    const pidPath = resolve(dir, 'test.pid')
+    await writePidFile(pidPath, process.pid)
+    await removePidFile(pidPath, process.pid + 1)
+    ok(existsSync(pidPath))
+    await removePidFile(pidPath, process.pid)
+    ok(!existsSync(pidPath))
+  })
+
+  it('reports a process that exits during startup', async () => {
+    const logPath = resolve(dir, 'logs', 'test.log')
+    writeFileSync(resolve(dir, 'denvig'), '#!/bin/sh\necho "$@"\nexit 1\n')
+    chmodSync(resolve(dir, 'denvig'), 0o755)
+    process.env.PATH = `${dir}:${originalPath}`
+
+    const result = await startBackgroundProcess({
+      args: ['test', 'serve'],
+      logPath,
+      label: 'Test process',
+      ready: async () => null,
+    })
+
+    strictEqual(result.success, false)
+    strictEqual(
+      !result.success && result.message,
+      `Test process exited during startup; see ${logPath}`,
+    )
+    strictEqual(readFileSync(logPath, 'utf-8'), 'test serve\n')
+  })
+})
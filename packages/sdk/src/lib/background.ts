@@ -0,0 +1,95 @@
+import { spawn } from 'node:child_process'
+import { closeSync, openSync } from 'node:fs'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+/** How long to wait for a spawned background process to become ready. */
+export const BACKGROUND_START_TIMEOUT_MS = 5000
+
+/**
+ * Whether a process exists. EPERM means it exists but belongs to another
+ * user, so that counts as alive.
+ */
+export const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM'
+  }
+}
+
+/** Record a background process's pid. */
+export const writePidFile = async (
+  path: string,
+  pid: number,
+): Promise<void> => {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${pid}\n`, 'utf-8')
+}
+
+/** Remove a pid file, unless another process has since claimed it. */
+export const removePidFile = async (
+  path: string,
+  pid: number,
+): Promise<void> => {
+  const recorded = await readFile(path, 'utf-8').catch(() => null)
+  if (recorded !== null && Number.parseInt(recorded, 10) !== pid) return
+  await rm(path, { force: true })
+}
+
+/** The pid in a pid file, or null when it is missing or not running. */
+export const readLivePid = async (path: string): Promise<number | null> => {
+  const content = await readFile(path, 'utf-8').catch(() => null)
+  const pid = content ? Number.parseInt(content, 10) : Number.NaN
+  if (!Number.isInteger(pid) || pid <= 0 || !isProcessAlive(pid)) return null
+  return pid
+}
+
+/**
+ * Start `denvig <args>` detached, appending its output to `logPath`, and wait
+ * until `ready` resolves to a value. Another process started concurrently
+ * may win and make this one exit, so `ready` is checked once more after an
+ * exit before giving up. `label` names the process in error messages.
+ */
+export const startBackgroundProcess = async <T>(options: {
+  args: string[]
+  logPath: string
+  label: string
+  ready: () => Promise<T | null>
+}): Promise<
+  { success: true; value: T } | { success: false; message: string }
+> => {
+  const { args, logPath, label, ready } = options
+  await mkdir(dirname(logPath), { recursive: true })
+  const output = openSync(logPath, 'a')
+  const child = spawn('denvig', args, {
+    detached: true,
+    stdio: ['ignore', output, output],
+  })
+  let exited = false
+  child.once('exit', () => {
+    exited = true
+  })
+  child.once('error', () => {
+    exited = true
+  })
+  child.unref()
+  closeSync(output)
+
+  const deadline = Date.now() + BACKGROUND_START_TIMEOUT_MS
+  while (Date.now() < deadline) {
+    const value = await ready()
+    if (value !== null) return { success: true, value }
+    if (exited) break
+    await new Promise((resolveWait) => setTimeout(resolveWait, 100))
+  }
+  const value = await ready()
+  if (value !== null) return { success: true, value }
+  return {
+    success: false,
+    message: exited
+      ? `${label} exited during startup; see ${logPath}`
+      : `${label} did not start within ${BACKGROUND_START_TIMEOUT_MS / 1000}s; see ${logPath}`,
+  }
+}
@@ -1,11 +1,12 @@
 import { deepStrictEqual, ok, strictEqual } from 'node:assert'
-import { X509Certificate } from 'node:crypto'
+import { generateKeyPairSync, X509Certificate } from 'node:crypto'
 import { before, describe, it } from 'node:test'
 import forge from 'node-forge'
 
 import {
   generateCaCert,
   generateDomainCert,
+  generateIntermediateCaCert,
   getCaCertPath,
   getCaDir,
   getCaKeyPath,
@@ -14,6 +15,7 @@ import {
   getCertsDir,
   isCertIssuedBy,
   isIssuedByLocalCa,
+  issueDomainCert,
   parseCertDomains,
 } from './certs.ts'
 
@@ -120,6 +122,46 @@ describe('generateCaCert()', () => {
   })
 })
 
+describe('generateIntermediateCaCert()', () => {
+  let root: Awaited<ReturnType<typeof generateCaCert>>
+  let intermediate: Awaited<ReturnType<typeof generateIntermediateCaCert>>
+
+  before(async () => {
+    root = await generateCaCert()
+    intermediate = await generateIntermediateCaCert(root.cert, root.key)
+  })
+
+  it('is a CA signed by the root that can only sign leaves', () => {
+    const x509 = new X509Certificate(intermediate.certPem)
+    strictEqual(x509.ca, true)
+    ok(x509.subject.includes('CN=Denvig Local Intermediate CA'))
+    ok(x509.verify(new X509Certificate(root.certPem).publicKey))
+    const basicConstraints = intermediate.cert.getExtension(
+      'basicConstraints',
+    ) as { pathLenConstraint?: number }
+    strictEqual(basicConstraints.pathLenConstraint, 0)
+  })
+
+  it('expires with the root', () => {
+    strictEqual(
+      intermediate.cert.validity.notAfter.getTime(),
+      root.cert.validity.notAfter.getTime(),
+    )
+  })
+
+  it('issues leaves that chain to the root', async () => {
+    const { fullchain } = await generateDomainCert(
+      'chained.example.com',
+      intermediate.cert,
+      intermediate.key,
+    )
+    strictEqual(fullchain.match(/BEGIN CERTIFICATE/g)?.length, 2)
+    strictEqual(isCertIssuedBy(fullchain, intermediate.certPem), true)
+    strictEqual(isCertIssuedBy(fullchain, root.certPem), true)
+    strictEqual(isIssuedByLocalCa(fullchain), true)
+  })
+})
+
 describe('generateDomainCert()', () => {
   let ca: Awaited<ReturnType<typeof generateCaCert>>
   let result: Awaited<ReturnType<typeof generateDomainCert>>
@@ -153,6 +195,7 @@ describe('generateDomainCert()', () => {
     const caX509 = new X509Certificate(ca.certPem)
     ok(x509.issuer.includes('CN=Denvig Local CA'))
     ok(x509.checkIssued(caX509))
+    ok(x509.verify(caX509.publicKey))
   })
 
   it('has basicConstraints CA:false', () => {
@@ -163,6 +206,23 @@ describe('generateDomainCert()', () => {
     strictEqual(ext?.cA, false)
   })
 
+  it('lists every domain as a SAN with the first as CN', async () => {
+    const multi = await generateDomainCert(
+      ['app.example.com', 'www.example.com'],
+      ca.cert,
+      ca.key,
+    )
+    deepStrictEqual(parseCertDomains(multi.fullchain), [
+      'app.example.com',
+      'www.example.com',
+    ])
+    ok(
+      new X509Certificate(multi.fullchain).subject.includes(
+        'CN=app.example.com',
+      ),
+    )
+  })
+
   it('supports wildcard domains', async () => {
     const wildcard = await generateDomainCert('*.example.com', ca.cert, ca.key)
     const x509 = new X509Certificate(wildcard.fullchain)
@@ -171,6 +231,49 @@ describe('generateDomainCert()', () => {
   })
 })
 
+describe('issueDomainCert()', () => {
+  let ca: Awaited<ReturnType<typeof generateCaCert>>
+
+  before(async () => {
+    ca = await generateCaCert()
+  })
+
+  it('certifies an EC key for every name', async () => {
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const pem = await issueDomainCert(
+      ['app.localhost', '*.app.localhost', '127.0.0.1'],
+      publicKey.export({ type: 'spki', format: 'der' }),
+      ca.cert,
+      ca.key,
+    )
+    const x509 = new X509Certificate(pem)
+    ok(x509.subject.includes('CN=app.localhost'))
+    strictEqual(
+      x509.subjectAltName,
+      'DNS:app.localhost, DNS:*.app.localhost, IP Address:127.0.0.1',
+    )
+    ok(x509.publicKey.equals(publicKey))
+    ok(x509.verify(new X509Certificate(ca.certPem).publicKey))
+  })
+  it('lists the CRL and OCSP responder when given', async () => {
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const pem = await issueDomainCert(
+      ['app.localhost'],
+      publicKey.export({ type: 'spki', format: 'der' }),
+      ca.cert,
+      ca.key,
+      {
+        crlUrl: 'http://localhost/.denvig/ca/intermediate.crl',
+        ocspUrl: 'http://localhost/.denvig/ca/ocsp',
+      },
+    )
+    const x509 = new X509Certificate(pem)
+    strictEqual(x509.infoAccess, 'OCSP - URI:http://localhost/.denvig/ca/ocsp')
+    ok(x509.raw.includes('http://localhost/.denvig/ca/intermediate.crl'))
+    ok(x509.verify(new X509Certificate(ca.certPem).publicKey))
+  })
+})
+
 describe('parseCertDomains()', () => {
   let ca: Awaited<ReturnType<typeof generateCaCert>>
 
@@ -287,6 +390,25 @@ describe('isCertIssuedBy()', () => {
     strictEqual(isCertIssuedBy(fullchain, otherCa.certPem), false)
   })
 
+  it('follows intermediates passed separately from the cert', async () => {
+    const intermediate = await generateIntermediateCaCert(ca.cert, ca.key)
+    const { fullchain } = await generateDomainCert(
+      'leaf.example.com',
+      intermediate.cert,
+      intermediate.key,
+    )
+    const leaf = fullchain.slice(
+      0,
+      fullchain.indexOf('-----END CERTIFICATE-----') + 25,
+    )
+    strictEqual(isCertIssuedBy(leaf, ca.certPem), false)
+    strictEqual(isCertIssuedBy(leaf, ca.certPem, [intermediate.certPem]), true)
+    strictEqual(
+      isCertIssuedBy(leaf, otherCa.certPem, [intermediate.certPem]),
+      false,
+    )
+  })
+
   it('returns false for invalid PEM inputs', () => {
     strictEqual(isCertIssuedBy('not-a-cert', ca.certPem), false)
     strictEqual(isCertIssuedBy(ca.certPem, 'not-a-cert'), false)
@@ -2,6 +2,7 @@ import { execSync, spawnSync } from 'node:child_process'
 import { X509Certificate } from 'node:crypto'
 import { readdirSync, readFileSync, statSync } from 'node:fs'
 import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { isIP } from 'node:net'
 import { resolve } from 'node:path'
 
 import { pathExists } from './safeReadFile.ts'
@@ -18,6 +19,11 @@ const importNodeForge = async (): Promise<typeof forge> => {
 
 const HOME = process.env.HOME || ''
 
+const INTERMEDIATE_CA_COMMON_NAME = 'Denvig Local Intermediate CA'
+
+/** id-ad-ocsp, the access method of an OCSP responder. */
+const OCSP_ACCESS_METHOD_OID = '1.3.6.1.5.5.7.48.1'
+
 /**
  * Directory containing the CA key and certificate.
  */
@@ -38,6 +44,18 @@ export const getCaKeyPath = (): string => resolve(getCaDir(), 'rootCA-key.pem')
  */
 export const getCaCertPath = (): string => resolve(getCaDir(), 'rootCA.pem')
 
+/**
+ * Path to the intermediate CA private key.
+ */
+export const getIntermediateCaKeyPath = (): string =>
+  resolve(getCaDir(), 'intermediateCA-key.pem')
+
+/**
+ * Path to the intermediate CA certificate, which signs domain certificates.
+ */
+export const getIntermediateCaCertPath = (): string =>
+  resolve(getCaDir(), 'intermediateCA.pem')
+
 /**
  * Directory for a specific domain's certificates.
  * Wildcards are converted to `_wildcard` (e.g., `*.example.com` → `_wildcard.example.com`).
@@ -65,6 +83,46 @@ export const loadCaCert = async (): Promise<{
   }
 }
 
+/**
+ * Load the intermediate CA that signs domain certificates, generating it from
+ * the root CA when it is missing, expired or was issued by an earlier root.
+ * Keeping the root key out of day-to-day signing means a leaked leaf can be
+ * revoked through the intermediate's CRL.
+ */
+export const loadIssuingCa = async (): Promise<{
+  cert: forge.pki.Certificate
+  key: forge.pki.rsa.PrivateKey
+}> => {
+  const forge = await importNodeForge()
+  const rootPem = await readFile(getCaCertPath(), 'utf-8')
+  const [certPem, keyPem] = await Promise.all([
+    readFile(getIntermediateCaCertPath(), 'utf-8').catch(() => null),
+    readFile(getIntermediateCaKeyPath(), 'utf-8').catch(() => null),
+  ])
+  if (
+    certPem &&
+    keyPem &&
+    isCertIssuedBy(certPem, rootPem) &&
+    getCertExpiry(certPem).getTime() > Date.now()
+  ) {
+    return {
+      cert: forge.pki.certificateFromPem(certPem),
+      key: forge.pki.privateKeyFromPem(keyPem) as forge.pki.rsa.PrivateKey,
+    }
+  }
+
+  const root = await loadCaCert()
+  const intermediate = await generateIntermediateCaCert(root.cert, root.key)
+  await mkdir(getCaDir(), { recursive: true })
+  await Promise.all([
+    writeFile(getIntermediateCaKeyPath(), intermediate.keyPem, {
+      mode: 0o600,
+    }),
+    writeFile(getIntermediateCaCertPath(), intermediate.certPem),
+  ])
+  return { cert: intermediate.cert, key: intermediate.key }
+}
+
 /**
  * Generate a new self-signed CA certificate with an RSA 2048 key pair.
  * Valid for 10 years with basicConstraints CA:true.
@@ -117,27 +175,136 @@ export const generateCaCert = async (): Promise<{
   }
 }
 
+/**
+ * Generate an intermediate CA certificate signed by the root CA, valid until
+ * the root expires. Its path length is 0, so it can only sign leaves.
+ */
+export const generateIntermediateCaCert = async (
+  rootCert: forge.pki.Certificate,
+  rootKey: forge.pki.rsa.PrivateKey,
+): Promise<{
+  cert: forge.pki.Certificate
+  key: forge.pki.rsa.PrivateKey
+  certPem: string
+  keyPem: string
+}> => {
+  const forge = await importNodeForge()
+  const keys = forge.pki.rsa.generateKeyPair(2048)
+  const cert = forge.pki.createCertificate()
+
+  cert.publicKey = keys.publicKey
+  cert.serialNumber = await generateSerialNumber()
+  cert.validity.notBefore = new Date()
+  cert.validity.notAfter = rootCert.validity.notAfter
+
+  cert.setSubject([
+    { name: 'organizationName', value: 'denvig.com' },
+    { name: 'commonName', value: INTERMEDIATE_CA_COMMON_NAME },
+  ])
+  cert.setIssuer(rootCert.subject.attributes)
+
+  cert.setExtensions([
+    {
+      name: 'basicConstraints',
+      cA: true,
+      pathLenConstraint: 0,
+      critical: true,
+    },
+    {
+      name: 'keyUsage',
+      digitalSignature: true,
+      keyCertSign: true,
+      cRLSign: true,
+      critical: true,
+    },
+    { name: 'subjectKeyIdentifier' },
+    {
+      name: 'authorityKeyIdentifier',
+      keyIdentifier: rootCert.generateSubjectKeyIdentifier().getBytes(),
+    },
+  ])
+
+  cert.sign(rootKey, forge.md.sha256.create())
+
+  return {
+    cert,
+    key: keys.privateKey,
+    certPem: forge.pki.certificateToPem(cert),
+    keyPem: forge.pki.privateKeyToPem(keys.privateKey),
+  }
+}
+
+/**
+ * Where relying parties can check whether a certificate was revoked. Both
+ * are embedded in issued certificates when set.
+ */
+export type RevocationUrls = {
+  /** CRL distribution point. */
+  crlUrl?: string
+  /** OCSP responder, listed in the Authority Information Access extension. */
+  ocspUrl?: string
+}
+
 /**
  * Generate a domain certificate signed by the given CA.
+ * Pass several domains to list them all as SANs, with the first as CN.
  * Returns PEM-encoded private key and fullchain (domain cert + CA cert).
  */
 export const generateDomainCert = async (
-  domain: string,
+  domain: string | string[],
   caCert: forge.pki.Certificate,
   caKey: forge.pki.rsa.PrivateKey,
+  revocation: RevocationUrls = {},
 ): Promise<{ privkey: string; fullchain: string }> => {
   const forge = await importNodeForge()
   const keys = forge.pki.rsa.generateKeyPair(2048)
+  const publicKeyDer = Buffer.from(
+    forge.asn1.toDer(forge.pki.publicKeyToAsn1(keys.publicKey)).getBytes(),
+    'binary',
+  )
+  const names = typeof domain === 'string' ? [domain] : domain
+  const certPem = await issueDomainCert(
+    names,
+    publicKeyDer,
+    caCert,
+    caKey,
+    revocation,
+  )
+
+  return {
+    privkey: forge.pki.privateKeyToPem(keys.privateKey),
+    fullchain: certPem + forge.pki.certificateToPem(caCert),
+  }
+}
+
+/**
+ * Issue a certificate signed by the given CA for a public key held
+ * elsewhere, such as one taken from a certificate signing request.
+ * `publicKeyDer` is a DER-encoded SubjectPublicKeyInfo of any key type
+ * Node.js understands. The first name becomes the common name and every
+ * name is listed as a DNS or IP subject alternative name.
+ * Returns the PEM-encoded certificate without the CA.
+ */
+export const issueDomainCert = async (
+  names: string[],
+  publicKeyDer: Buffer,
+  caCert: forge.pki.Certificate,
+  caKey: forge.pki.rsa.PrivateKey,
+  revocation: RevocationUrls = {},
+): Promise<string> => {
+  const forge = await importNodeForge()
   const cert = forge.pki.createCertificate()
 
-  cert.publicKey = keys.publicKey
+  // forge only encodes RSA keys, so the certificate is built around the CA's
+  // key and the requested key is swapped into the signed TBSCertificate.
+  cert.publicKey = caCert.publicKey
   cert.serialNumber = await generateSerialNumber()
 
   const now = new Date()
   cert.validity.notBefore = now
   cert.validity.notAfter = new Date(now.getTime() + 720 * 24 * 60 * 60 * 1000)
 
-  cert.setSubject([{ name: 'commonName', value: domain }])
+  cert.setSubject([{ name: 'commonName', value: names[0] }])
   cert.setIssuer(caCert.subject.attributes)
 
   cert.setExtensions([
@@ -154,18 +321,68 @@ export const generateDomainCert = async (
     },
     {
       name: 'subjectAltName',
-      altNames: [{ type: 2, value: domain }],
+      altNames: names.map((name) =>
+        isIP(name) ? { type: 7, ip: name } : { type: 2, value: name },
+      ),
+    },
+    {
+      name: 'authorityKeyIdentifier',
+      keyIdentifier: caCert.generateSubjectKeyIdentifier().getBytes(),
     },
+    ...(revocation.crlUrl
+      ? [
+          {
+            name: 'cRLDistributionPoints',
+            altNames: [{ type: 6, value: revocation.crlUrl }],
+          },
+        ]
+      : []),
+    ...(revocation.ocspUrl
+      ? [await authorityInfoAccessExtension(revocation.ocspUrl)]
+      : []),
   ])
 
-  cert.sign(caKey, forge.md.sha256.create())
+  cert.signatureOid = forge.pki.oids.sha256WithRSAEncryption
+  cert.siginfo.algorithmOid = forge.pki.oids.sha256WithRSAEncryption
+  const tbs = (
+    forge.pki as unknown as {
+      getTBSCertificate: (cert: forge.pki.Certificate) => forge.asn1.Asn1
+    }
+  ).getTBSCertificate(cert)
+  const fields = tbs.value as forge.asn1.Asn1[]
+  // Fields: version, serial, signature, issuer, validity, subject, key.
+  fields[6] = forge.asn1.fromDer(
+    forge.util.createBuffer(publicKeyDer.toString('binary')),
+  )
+
+  const md = forge.md.sha256.create()
+  md.update(forge.asn1.toDer(tbs).getBytes())
+  cert.tbsCertificate = tbs
+  cert.signature = caKey.sign(md)
 
-  const certPem = forge.pki.certificateToPem(cert)
-  const caCertPem = forge.pki.certificateToPem(caCert)
+  return forge.pki.certificateToPem(cert)
+}
 
+/**
+ * An Authority Information Access extension pointing at an OCSP responder,
+ * which forge can't build itself.
+ */
+const authorityInfoAccessExtension = async (ocspUrl: string) => {
+  const { asn1 } = await importNodeForge()
   return {
-    privkey: forge.pki.privateKeyToPem(keys.privateKey),
-    fullchain: certPem + caCertPem,
+    id: '1.3.6.1.5.5.7.1.1',
+    value: asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+        asn1.create(
+          asn1.Class.UNIVERSAL,
+          asn1.Type.OID,
+          false,
+          asn1.oidToDer(OCSP_ACCESS_METHOD_OID).getBytes(),
+        ),
+        // uniformResourceIdentifier [6] IA5String
+        asn1.create(asn1.Class.CONTEXT_SPECIFIC, 6, false, ocspUrl),
+      ]),
+    ]),
   }
 }
 
@@ -262,8 +479,18 @@ export const writeDomainCertFiles = async (
   domain: string,
   privkey: string,
   fullchain: string,
+): Promise<string> =>
+  writeCertFilesToDir(getCertDir(domain), privkey, fullchain)
+
+/**
+ * Write cert files into an existing or new cert directory, such as one whose
+ * name doesn't follow `getCertDir()`. The private key is written with mode 0600.
+ */
+export const writeCertFilesToDir = async (
+  certDir: string,
+  privkey: string,
+  fullchain: string,
 ): Promise<string> => {
-  const certDir = getCertDir(domain)
   await mkdir(certDir, { recursive: true })
   await Promise.all([
     writeFile(resolve(certDir, 'privkey.pem'), privkey, { mode: 0o600 }),
@@ -298,29 +525,57 @@ export const isCaTrustedInKeychain = async (): Promise<boolean> => {
 }
 
 /**
- * Check if a certificate was issued by the given CA certificate.
- * Uses cryptographic signature verification, not just issuer name matching.
- * Handles fullchain bundles by extracting the first cert.
+ * Split a PEM bundle into its certificates, in order.
  */
-export const isCertIssuedBy = (certPem: string, caCertPem: string): boolean => {
+const splitCerts = (pem: string): string[] =>
+  pem.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) ??
+  []
+
+/**
+ * Check if a certificate was issued by the given CA certificate, directly or
+ * through intermediates that follow it in the bundle (as in a fullchain) or
+ * are passed in `intermediates`. Uses cryptographic signature verification,
+ * not just issuer name matching.
+ */
+export const isCertIssuedBy = (
+  certPem: string,
+  caCertPem: string,
+  intermediates: string[] = [],
+): boolean => {
   try {
-    const cert = new X509Certificate(extractFirstCert(certPem))
+    const [leafPem, ...chainPems] = splitCerts(certPem)
+    if (!leafPem) return false
     const caCert = new X509Certificate(extractFirstCert(caCertPem))
-    return cert.checkIssued(caCert) && cert.verify(caCert.publicKey)
+    const candidates = [...chainPems, ...intermediates]
+      .map((pem) => new X509Certificate(pem))
+      .filter((cert) => cert.ca)
+    const isIssuer = (cert: X509Certificate, issuer: X509Certificate) =>
+      cert.checkIssued(issuer) && cert.verify(issuer.publicKey)
+
+    let cert = new X509Certificate(leafPem)
+    for (let depth = 0; depth <= candidates.length; depth++) {
+      if (isIssuer(cert, caCert)) return true
+      const next = candidates.find((candidate) => isIssuer(cert, candidate))
+      if (!next) return false
+      cert = next
+    }
+    return false
   } catch {
     return false
   }
 }
 
 /**
- * Check if a certificate's issuer matches the Denvig Local CA distinguished name.
- * This works even when the CA files have been deleted from disk.
+ * Check if a certificate's issuer matches the Denvig Local CA or intermediate
+ * CA distinguished name. This works even when the CA files have been deleted
+ * from disk.
  */
 export const isIssuedByLocalCa = (certPem: string): boolean => {
   try {
     const cert = new X509Certificate(extractFirstCert(certPem))
     return (
-      cert.issuer.includes('CN=Denvig Local CA') &&
+      (cert.issuer.includes('CN=Denvig Local CA') ||
+        cert.issuer.includes(`CN=${INTERMEDIATE_CA_COMMON_NAME}`)) &&
       cert.issuer.includes('O=denvig.com')
     )
   } catch {
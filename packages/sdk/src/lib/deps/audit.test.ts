@@ -0,0 +1,232 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  advisoryAffects,
+  advisoryKey,
+  advisorySeverity,
+  cvss3BaseScore,
+  fixedVersions,
+  isVersionAffected,
+  loadAdvisories,
+  severityAtLeast,
+} from './audit.ts'
+
+import type { OsvAdvisory } from './audit.ts'
+
+const advisory = (overrides: Partial<OsvAdvisory> = {}): OsvAdvisory => ({
+  id: 'GHSA-test-0001',
+  summary: 'Prototype pollution',
+  affected: [
+    {
+      package: { ecosystem: 'npm', name: 'lodash' },
+      ranges: [
+        {
+          type: 'SEMVER',
+          events: [{ introduced: '0' }, { fixed: '4.17.21' }],
+        },
+      ],
+    },
+  ],
+  ...overrides,
+})
+
+describe('isVersionAffected()', () => {
+  it('should match versions between introduced and fixed', () => {
+    const [affected] = advisory().affected ?? []
+    strictEqual(isVersionAffected('4.17.20', affected), true)
+    strictEqual(isVersionAffected('1.0.0', affected), true)
+    strictEqual(isVersionAffected('4.17.21', affected), false)
+    strictEqual(isVersionAffected('5.0.0', affected), false)
+  })
+
+  it('should include last_affected and handle multiple intervals', () => {
+    const affected = {
+      ranges: [
+        {
+          type: 'ECOSYSTEM',
+          events: [
+            { introduced: '1.0.0' },
+            { fixed: '1.2.0' },
+            { introduced: '2.0.0' },
+            { last_affected: '2.1.0' },
+          ],
+        },
+      ],
+    }
+    strictEqual(isVersionAffected('0.9.0', affected), false)
+    strictEqual(isVersionAffected('1.1.0', affected), true)
+    strictEqual(isVersionAffected('1.5.0', affected), false)
+    strictEqual(isVersionAffected('2.1.0', affected), true)
+    strictEqual(isVersionAffected('2.1.1', affected), false)
+  })
+
+  it('should match explicitly listed versions and ignore GIT ranges', () => {
+    const affected = {
+      versions: ['2.1'],
+      ranges: [{ type: 'GIT', events: [{ introduced: '0' }] }],
+    }
+    strictEqual(isVersionAffected('2.1', affected), true)
+    strictEqual(isVersionAffected('2.2', affected), false)
+  })
+})
+
+describe('advisoryKey()', () => {
+  it('should map denvig ecosystems to OSV ecosystems', () => {
+    strictEqual(advisoryKey('npm', 'lodash'), 'npm:lodash')
+    strictEqual(advisoryKey('rubygems', 'rack'), 'RubyGems:rack')
+    strictEqual(advisoryKey('unknown', 'x'), null)
+  })
+
+  it('should normalize PyPI package names', () => {
+    strictEqual(advisoryKey('pypi', 'Flask_Cors'), 'PyPI:flask-cors')
+  })
+})
+
+describe('advisoryAffects() and fixedVersions()', () => {
+  it('should only consider entries for the same package', () => {
+    const record = advisory({
+      affected: [
+        ...(advisory().affected ?? []),
+        {
+          package: { ecosystem: 'npm', name: 'lodash-es' },
+          ranges: [
+            {
+              type: 'SEMVER',
+              events: [{ introduced: '0' }, { fixed: '4.17.22' }],
+            },
+          ],
+        },
+      ],
+    })
+    strictEqual(advisoryAffects(record, 'npm:lodash', '4.17.21'), false)
+    strictEqual(advisoryAffects(record, 'npm:lodash-es', '4.17.21'), true)
+    deepStrictEqual(fixedVersions(record, 'npm:lodash'), ['4.17.21'])
+  })
+})
+
+describe('cvss3BaseScore()', () => {
+  it('should compute base scores for unchanged and changed scope', () => {
+    strictEqual(
+      cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H'),
+      9.8,
+    )
+    strictEqual(
+      cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N'),
+      6.1,
+    )
+    strictEqual(
+      cvss3BaseScore('CVSS:3.0/AV:N/AC:H/PR:N/UI:N/S:U/C:N/I:N/A:H'),
+      5.9,
+    )
+  })
+
+  it('should return 0 without impact and null for other formats', () => {
+    strictEqual(
+      cvss3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N'),
+      0,
+    )
+    strictEqual(cvss3BaseScore('CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N'), null)
+  })
+})
+
+describe('advisorySeverity()', () => {
+  it('should prefer the database severity label', () => {
+    const result = advisorySeverity(
+      advisory({
+        database_specific: { severity: 'MODERATE' },
+        severity: [
+          {
+            type: 'CVSS_V3',
+            score: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H',
+          },
+        ],
+      }),
+    )
+    deepStrictEqual(result, { severity: 'moderate', score: 9.8 })
+  })
+
+  it('should fall back to the CVSS score', () => {
+    const result = advisorySeverity(
+      advisory({
+        severity: [
+          {
+            type: 'CVSS_V3',
+            score: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:N/I:N/A:H',
+          },
+        ],
+      }),
+    )
+    deepStrictEqual(result, { severity: 'moderate', score: 5.9 })
+    deepStrictEqual(advisorySeverity(advisory()), {
+      severity: null,
+      score: null,
+    })
+  })
+})
+
+describe('severityAtLeast()', () => {
+  it('should compare severities and treat unknown as low', () => {
+    strictEqual(severityAtLeast('high', 'moderate'), true)
+    strictEqual(severityAtLeast('moderate', 'high'), false)
+    strictEqual(severityAtLeast(null, 'low'), true)
+    strictEqual(severityAtLeast(null, 'moderate'), false)
+  })
+})
+
+describe('loadAdvisories()', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(`${tmpdir()}/denvig-advisories-`)
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should load advisories for requested packages from a directory', async () => {
+    mkdirSync(`${dir}/npm`)
+    writeFileSync(`${dir}/npm/GHSA-test-0001.json`, JSON.stringify(advisory()))
+    writeFileSync(
+      `${dir}/npm/other.json`,
+      JSON.stringify([
+        advisory({
+          id: 'GHSA-test-0002',
+          affected: [{ package: { ecosystem: 'npm', name: 'left-pad' } }],
+        }),
+        advisory({ id: 'GHSA-test-0003', withdrawn: '2024-01-01T00:00:00Z' }),
+      ]),
+    )
+    writeFileSync(`${dir}/broken.json`, '{')
+
+    const { files, advisories } = await loadAdvisories(
+      dir,
+      new Set(['npm:lodash']),
+    )
+    strictEqual(files, 3)
+    deepStrictEqual([...advisories.keys()], ['npm:lodash'])
+    deepStrictEqual(
+      advisories.get('npm:lodash')?.map((record) => record.id),
+      ['GHSA-test-0001'],
+    )
+  })
+
+  it('should load an OSV API response file', async () => {
+    writeFileSync(`${dir}/osv.json`, JSON.stringify({ vulns: [advisory()] }))
+    const { advisories } = await loadAdvisories(
+      `${dir}/osv.json`,
+      new Set(['npm:lodash']),
+    )
+    strictEqual(advisories.get('npm:lodash')?.length, 1)
+  })
+
+  it('should reject a missing database', async () => {
+    await rejects(
+      loadAdvisories(`${dir}/missing`, new Set()),
+      /No advisory database found/,
+    )
+  })
+})
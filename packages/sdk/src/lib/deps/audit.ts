@@ -0,0 +1,330 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import semver from 'semver'
+
+import { DenvigValidationError } from '../errors.ts'
+
+export type AdvisorySeverity = 'low' | 'moderate' | 'high' | 'critical'
+
+export const ADVISORY_SEVERITIES: AdvisorySeverity[] = [
+  'low',
+  'moderate',
+  'high',
+  'critical',
+]
+
+/** Default location of the OSV advisory database. */
+export const getAdvisoryDatabaseDir = (): string =>
+  `${homedir()}/.cache/denvig/advisories`
+
+/** The subset of the OSV schema (https://ossf.github.io/osv-schema/) used. */
+export type OsvAdvisory = {
+  id: string
+  summary?: string
+  details?: string
+  aliases?: string[]
+  withdrawn?: string
+  severity?: Array<{ type: string; score: string }>
+  affected?: Array<{
+    package?: { ecosystem: string; name: string }
+    ranges?: Array<{
+      type: string
+      events: Array<{
+        introduced?: string
+        fixed?: string
+        last_affected?: string
+        limit?: string
+      }>
+    }>
+    versions?: string[]
+    ecosystem_specific?: { severity?: string }
+    database_specific?: { severity?: string }
+  }>
+  database_specific?: { severity?: string }
+}
+
+/** OSV ecosystem names for denvig's dependency ecosystems. */
+const OSV_ECOSYSTEMS: Record<string, string> = {
+  npm: 'npm',
+  jsr: 'JSR',
+  pypi: 'PyPI',
+  rubygems: 'RubyGems',
+}
+
+/**
+ * Normalize a package name for lookups. PyPI names compare case-insensitively
+ * with `_`, `-` and `.` treated as equal (PEP 503).
+ */
+const packageKey = (osvEcosystem: string, name: string): string =>
+  osvEcosystem === 'PyPI'
+    ? `${osvEcosystem}:${name.toLowerCase().replace(/[-_.]+/g, '-')}`
+    : `${osvEcosystem}:${name}`
+
+/** Key an advisory lookup by denvig ecosystem and package name. */
+export const advisoryKey = (ecosystem: string, name: string): string | null => {
+  const osvEcosystem = OSV_ECOSYSTEMS[ecosystem]
+  return osvEcosystem ? packageKey(osvEcosystem, name) : null
+}
+
+const listJsonFiles = async (dir: string): Promise<string[]> => {
+  const files: string[] = []
+  for (const entry of await readdir(dir, {
+    recursive: true,
+    withFileTypes: true,
+  })) {
+    if (entry.isFile() && entry.name.endsWith('.json')) {
+      files.push(join(entry.parentPath, entry.name))
+    }
+  }
+  return files.sort()
+}
+
+/**
+ * Load OSV advisories from a JSON file (one advisory, an array, or an OSV API
+ * `{ vulns: [...] }` response) or a directory of such files, such as an
+ * unzipped OSV ecosystem export. Only advisories affecting one of `keys` (see
+ * {@link advisoryKey}) are kept, indexed by key. Withdrawn advisories are
+ * ignored.
+ *
+ * Throws {@link DenvigValidationError} when the path doesn't exist.
+ */
+export const loadAdvisories = async (
+  path: string,
+  keys: Set<string>,
+): Promise<{ files: number; advisories: Map<string, OsvAdvisory[]> }> => {
+  const info = await stat(path).catch(() => null)
+  if (!info) {
+    throw new DenvigValidationError(
+      `No advisory database found at ${path}. Download an OSV export (e.g. https://osv-vulnerabilities.storage.googleapis.com/npm/all.zip), unzip it there, or pass --database <path>.`,
+    )
+  }
+
+  const files = info.isDirectory() ? await listJsonFiles(path) : [path]
+  const advisories = new Map<string, OsvAdvisory[]>()
+  for (const file of files) {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(await readFile(file, 'utf-8'))
+    } catch {
+      continue
+    }
+    const records = Array.isArray(parsed)
+      ? parsed
+      : Array.isArray((parsed as { vulns?: unknown })?.vulns)
+        ? (parsed as { vulns: unknown[] }).vulns
+        : [parsed]
+
+    for (const record of records as OsvAdvisory[]) {
+      if (!record?.id || record.withdrawn) continue
+      const recordKeys = new Set(
+        (record.affected ?? [])
+          .filter((affected) => affected.package)
+          .map((affected) =>
+            packageKey(
+              affected.package?.ecosystem ?? '',
+              affected.package?.name ?? '',
+            ),
+          ),
+      )
+      for (const key of recordKeys) {
+        if (!keys.has(key)) continue
+        const list = advisories.get(key) ?? []
+        list.push(record)
+        advisories.set(key, list)
+      }
+    }
+  }
+  return { files: files.length, advisories }
+}
+
+const coerceVersion = (version: string): string | null =>
+  semver.valid(version) ?? semver.coerce(version)?.version ?? null
+
+/**
+ * Compare two versions, coercing ecosystem versions (e.g. `2.1` on PyPI) to
+ * semver. The OSV `0` introduced event sorts first.
+ */
+const compareVersions = (a: string, b: string): number => {
+  if (a === b) return 0
+  if (a === '0') return -1
+  if (b === '0') return 1
+  const left = coerceVersion(a)
+  const right = coerceVersion(b)
+  if (!left || !right) return a.localeCompare(b)
+  return semver.compare(left, right)
+}
+
+/**
+ * Whether a version is affected by one OSV `affected` entry: listed in
+ * `versions`, or inside a `SEMVER`/`ECOSYSTEM` range. Ranges are evaluated by
+ * walking their events in version order; `GIT` ranges are ignored.
+ */
+export const isVersionAffected = (
+  version: string,
+  affected: NonNullable<OsvAdvisory['affected']>[number],
+): boolean => {
+  if (affected.versions?.includes(version)) return true
+
+  for (const range of affected.ranges ?? []) {
+    if (range.type !== 'SEMVER' && range.type !== 'ECOSYSTEM') continue
+    const events = range.events
+      .map((event) => {
+        const [type, value] = Object.entries(event)[0] ?? []
+        return { type, value: String(value) }
+      })
+      .filter((event) => event.type && event.type !== 'limit')
+      .sort((a, b) => compareVersions(a.value, b.value))
+
+    let vulnerable = false
+    for (const event of events) {
+      const order = compareVersions(version, event.value)
+      if (event.type === 'introduced' && order >= 0) vulnerable = true
+      if (event.type === 'fixed' && order >= 0) vulnerable = false
+      if (event.type === 'last_affected' && order > 0) vulnerable = false
+    }
+    if (vulnerable) return true
+  }
+  return false
+}
+
+/** The `affected` entries of an advisory for one package key. */
+const affectedEntries = (advisory: OsvAdvisory, key: string) =>
+  (advisory.affected ?? []).filter(
+    (affected) =>
+      affected.package &&
+      packageKey(affected.package.ecosystem, affected.package.name) === key,
+  )
+
+/** Whether an advisory affects a version of the package with `key`. */
+export const advisoryAffects = (
+  advisory: OsvAdvisory,
+  key: string,
+  version: string,
+): boolean =>
+  affectedEntries(advisory, key).some((affected) =>
+    isVersionAffected(version, affected),
+  )
+
+/** Versions that fix an advisory for a package, from its range events. */
+export const fixedVersions = (advisory: OsvAdvisory, key: string): string[] => {
+  const fixed = new Set<string>()
+  for (const affected of affectedEntries(advisory, key)) {
+    for (const range of affected.ranges ?? []) {
+      for (const event of range.events) {
+        if (event.fixed) fixed.add(event.fixed)
+      }
+    }
+  }
+  return [...fixed].sort(compareVersions)
+}
+
+const CVSS3_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+}
+
+/** CVSS v3 "round up" to one decimal place. */
+const roundUp = (value: number): number => {
+  const integer = Math.round(value * 100000)
+  return integer % 10000 === 0
+    ? integer / 100000
+    : (Math.floor(integer / 10000) + 1) / 10
+}
+
+/**
+ * Compute the base score of a CVSS v3.x vector
+ * (`CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H`). Returns null for other
+ * vector formats.
+ */
+export const cvss3BaseScore = (vector: string): number | null => {
+  if (!vector.startsWith('CVSS:3')) return null
+  const metrics = Object.fromEntries(
+    vector
+      .split('/')
+      .slice(1)
+      .map((part) => part.split(':')),
+  ) as Record<string, string>
+
+  const changed = metrics.S === 'C'
+  const pr = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[
+    metrics.PR
+  ]
+  const [av, ac, ui, c, i, a] = ['AV', 'AC', 'UI', 'C', 'I', 'A'].map(
+    (name) => CVSS3_WEIGHTS[name][metrics[name]],
+  )
+  if ([pr, av, ac, ui, c, i, a].some((value) => value === undefined)) {
+    return null
+  }
+
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a)
+  const impact = changed
+    ? 7.52 * (iss - 0.029) - 3.25 * (iss - 0.02) ** 15
+    : 6.42 * iss
+  if (impact <= 0) return 0
+  const exploitability = 8.22 * av * ac * (pr as number) * ui
+  return changed
+    ? roundUp(Math.min(1.08 * (impact + exploitability), 10))
+    : roundUp(Math.min(impact + exploitability, 10))
+}
+
+const severityFromScore = (score: number): AdvisorySeverity | null => {
+  if (score >= 9) return 'critical'
+  if (score >= 7) return 'high'
+  if (score >= 4) return 'moderate'
+  if (score > 0) return 'low'
+  return null
+}
+
+const severityFromLabel = (
+  label: string | undefined,
+): AdvisorySeverity | null => {
+  const normalized = label?.toLowerCase()
+  if (normalized === 'medium') return 'moderate'
+  return ADVISORY_SEVERITIES.find((level) => level === normalized) ?? null
+}
+
+/**
+ * Determine an advisory's severity from its database label (e.g. GitHub's
+ * `MODERATE`), falling back to the score of a CVSS v3 vector. Returns null
+ * when neither is available.
+ */
+export const advisorySeverity = (
+  advisory: OsvAdvisory,
+): { severity: AdvisorySeverity | null; score: number | null } => {
+  const score =
+    (advisory.severity ?? [])
+      .map((entry) => cvss3BaseScore(entry.score))
+      .find((value) => value !== null) ?? null
+
+  const label =
+    severityFromLabel(advisory.database_specific?.severity) ??
+    (advisory.affected ?? [])
+      .map(
+        (affected) =>
+          severityFromLabel(affected.ecosystem_specific?.severity) ??
+          severityFromLabel(affected.database_specific?.severity),
+      )
+      .find((value) => value !== null) ??
+    null
+
+  return {
+    severity: label ?? (score !== null ? severityFromScore(score) : null),
+    score,
+  }
+}
+
+/**
+ * Whether a severity is at or above a threshold. Advisories without a
+ * severity are treated as `low`.
+ */
+export const severityAtLeast = (
+  severity: AdvisorySeverity | null,
+  threshold: AdvisorySeverity,
+): boolean =>
+  ADVISORY_SEVERITIES.indexOf(severity ?? 'low') >=
+  ADVISORY_SEVERITIES.indexOf(threshold)
@@ -0,0 +1,151 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import {
+  DEPENDENCY_MANIFESTS,
+  selectUpgradeVersion,
+  upgradeLevel,
+  upgradeSpecifier,
+} from './upgrade.ts'
+
+const manifest = (file: string) =>
+  DEPENDENCY_MANIFESTS.find(
+    (entry) => entry.file === file,
+  ) as (typeof DEPENDENCY_MANIFESTS)[number]
+
+describe('upgradeSpecifier()', () => {
+  it('should keep the range operator', () => {
+    strictEqual(upgradeSpecifier('^1.2.0', '2.0.1'), '^2.0.1')
+    strictEqual(upgradeSpecifier('~1.2.0', '1.2.5'), '~1.2.5')
+    strictEqual(upgradeSpecifier('1.2.0', '1.3.0'), '1.3.0')
+    strictEqual(upgradeSpecifier('>=0.119.0', '0.120.1'), '>=0.120.1')
+    strictEqual(upgradeSpecifier('== 1.0', '1.4.2'), '== 1.4.2')
+  })
+
+  it('should keep the precision of pessimistic operators', () => {
+    strictEqual(upgradeSpecifier('~> 7.0', '8.1.2'), '~> 8.1')
+    strictEqual(upgradeSpecifier('~> 7.0.4', '8.1.2'), '~> 8.1.2')
+    strictEqual(upgradeSpecifier('~=1.2', '1.5.0'), '~=1.5')
+  })
+
+  it('should refuse specifiers it cannot rewrite safely', () => {
+    strictEqual(upgradeSpecifier('*', '2.0.0'), null)
+    strictEqual(upgradeSpecifier('workspace:*', '2.0.0'), null)
+    strictEqual(upgradeSpecifier('catalog:', '2.0.0'), null)
+    strictEqual(upgradeSpecifier('>=1.0, <2.0', '2.1.0'), null)
+    strictEqual(upgradeSpecifier('^1.0.0 || ^2.0.0', '3.0.0'), null)
+    strictEqual(upgradeSpecifier('^2.0.0', '2.0.0'), null)
+  })
+})
+
+describe('upgradeLevel()', () => {
+  it('should coerce versions that are not strict semver', () => {
+    strictEqual(upgradeLevel('1.2.3', '1.2.4'), 'patch')
+    strictEqual(upgradeLevel('2.1', '2.2'), 'minor')
+    strictEqual(upgradeLevel('2.0.0', '1.9.0'), null)
+  })
+})
+
+describe('selectUpgradeVersion()', () => {
+  const dep = { current: '1.2.3', wanted: '1.4.0', latest: '2.1.0' }
+
+  it('should pick latest when its level is allowed', () => {
+    deepStrictEqual(selectUpgradeVersion(dep), {
+      version: '2.1.0',
+      level: 'major',
+    })
+  })
+
+  it('should fall back to wanted, then published versions', () => {
+    deepStrictEqual(selectUpgradeVersion(dep, 'minor'), {
+      version: '1.4.0',
+      level: 'minor',
+    })
+    strictEqual(selectUpgradeVersion(dep, 'patch'), null)
+    deepStrictEqual(
+      selectUpgradeVersion(
+        {
+          ...dep,
+          versions: ['1.2.3', '1.2.4', '1.2.5-beta.1', '1.2.9', '1.4.0'],
+        },
+        'patch',
+      ),
+      { version: '1.2.9', level: 'patch' },
+    )
+  })
+})
+
+describe('DEPENDENCY_MANIFESTS', () => {
+  it('should rewrite package.json dependencies in place', () => {
+    const content = [
+      '{',
+      '  "peerDependencies": { "react": "^18.0.0" },',
+      '  "devDependencies": {',
+      '    "react": "^18.0.0",',
+      '    "typescript": "^5.0.0"',
+      '  }',
+      '}',
+    ].join('\n')
+    strictEqual(
+      manifest('package.json').rewrite(
+        content,
+        { ecosystem: 'npm', name: 'react', specifier: '^18.0.0' },
+        '^19.1.0',
+      ),
+      content.replace('"react": "^18.0.0",', '"react": "^19.1.0",'),
+    )
+    strictEqual(
+      manifest('package.json').rewrite(
+        content,
+        { ecosystem: 'npm', name: 'zod', specifier: '^3.0.0' },
+        '^4.0.0',
+      ),
+      null,
+    )
+  })
+
+  it('should rewrite deno.json imports', () => {
+    const content =
+      '{ "imports": { "@std/assert": "jsr:@std/assert@^1.0.14" } }'
+    strictEqual(
+      manifest('deno.json').rewrite(
+        content,
+        { ecosystem: 'jsr', name: '@std/assert', specifier: '^1.0.14' },
+        '^1.0.16',
+      ),
+      '{ "imports": { "@std/assert": "jsr:@std/assert@^1.0.16" } }',
+    )
+  })
+
+  it('should rewrite Gemfile declarations', () => {
+    const content =
+      "source 'https://rubygems.org'\ngem 'rails', '~> 7.0'\ngem 'puma'\n"
+    strictEqual(
+      manifest('Gemfile').rewrite(
+        content,
+        { ecosystem: 'rubygems', name: 'rails', specifier: '~> 7.0' },
+        '~> 8.1',
+      ),
+      "source 'https://rubygems.org'\ngem 'rails', '~> 8.1'\ngem 'puma'\n",
+    )
+  })
+
+  it('should rewrite pyproject.toml requirements', () => {
+    const content =
+      'dependencies = [\n  "fastapi[all]>=0.119.0",\n  "httpx>=0.27; python_version >= \'3.9\'",\n]\n'
+    const upgraded = manifest('pyproject.toml').rewrite(
+      content,
+      { ecosystem: 'pypi', name: 'fastapi', specifier: '>=0.119.0' },
+      '>=0.120.1',
+    )
+    strictEqual(upgraded, content.replace('>=0.119.0', '>=0.120.1'))
+    strictEqual(
+      manifest('pyproject.toml').rewrite(
+        content,
+        { ecosystem: 'pypi', name: 'httpx', specifier: '>=0.27' },
+        '>=0.28.1',
+      ),
+      content.replace('>=0.27;', '>=0.28.1;'),
+    )
+  })
+})
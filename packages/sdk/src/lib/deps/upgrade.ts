@@ -0,0 +1,241 @@
+import semver from 'semver'
+
+import { getSemverLevel } from '../semver.ts'
+
+import type { SemverLevel } from '../semver.ts'
+
+/** A manifest file that declares direct dependencies. */
+export type DependencyManifest = {
+  /** File name within the package directory. */
+  file: string
+  /** Dependency ecosystems the manifest can declare. */
+  ecosystems: string[]
+  /** Plugins whose `install` action installs from this manifest. */
+  installEcosystems: string[]
+  /**
+   * Rewrite the version specifier of a dependency. Returns the new content,
+   * or null when the manifest doesn't declare the dependency.
+   */
+  rewrite: (
+    content: string,
+    dependency: { ecosystem: string; name: string; specifier: string },
+    specifier: string,
+  ) => string | null
+}
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Replace the first match of `pattern` in `content` with the captured prefix
+ * and suffix around the new specifier. Returns null when nothing matches.
+ */
+const replaceSpecifier = (
+  content: string,
+  pattern: RegExp,
+  specifier: string,
+): string | null => {
+  if (!pattern.test(content)) return null
+  return content.replace(
+    pattern,
+    (_, prefix: string, suffix: string) => `${prefix}${specifier}${suffix}`,
+  )
+}
+
+/**
+ * Rewrite a dependency inside the `dependencies` and `devDependencies`
+ * objects of a package.json, preserving the rest of the file as written.
+ */
+const rewritePackageJson: DependencyManifest['rewrite'] = (
+  content,
+  dependency,
+  specifier,
+) => {
+  let result: string | null = null
+  for (const section of ['dependencies', 'devDependencies']) {
+    const source: string = result ?? content
+    const start = source.search(new RegExp(`"${section}"\\s*:\\s*\\{`))
+    if (start === -1) continue
+    const open = source.indexOf('{', start)
+    const close = source.indexOf('}', open)
+    if (close === -1) continue
+
+    const block = source.slice(open, close)
+    const rewritten = replaceSpecifier(
+      block,
+      new RegExp(
+        `("${escapeRegExp(dependency.name)}"\\s*:\\s*")${escapeRegExp(dependency.specifier)}(")`,
+      ),
+      specifier,
+    )
+    if (rewritten !== null) {
+      result = source.slice(0, open) + rewritten + source.slice(close)
+    }
+  }
+  return result
+}
+
+/**
+ * Rewrite an `npm:` or `jsr:` import specifier in a deno.json `imports` map.
+ */
+const rewriteDenoJson: DependencyManifest['rewrite'] = (
+  content,
+  dependency,
+  specifier,
+) =>
+  replaceSpecifier(
+    content,
+    new RegExp(
+      `("${dependency.ecosystem}:${escapeRegExp(dependency.name)}@)${escapeRegExp(dependency.specifier)}(")`,
+    ),
+    specifier,
+  )
+
+/**
+ * Rewrite the version requirement of a `gem` declaration in a Gemfile.
+ */
+const rewriteGemfile: DependencyManifest['rewrite'] = (
+  content,
+  dependency,
+  specifier,
+) =>
+  replaceSpecifier(
+    content,
+    new RegExp(
+      `^(\\s*gem\\s+['"]${escapeRegExp(dependency.name)}['"]\\s*,\\s*['"])${escapeRegExp(dependency.specifier)}(['"])`,
+      'm',
+    ),
+    specifier,
+  )
+
+/**
+ * Rewrite a PEP 508 requirement string (e.g. `"fastapi[all]>=0.119.0"`) in
+ * pyproject.toml.
+ */
+const rewritePyProject: DependencyManifest['rewrite'] = (
+  content,
+  dependency,
+  specifier,
+) =>
+  replaceSpecifier(
+    content,
+    new RegExp(
+      `(["']${escapeRegExp(dependency.name)}(?:\\[[^\\]]*\\])?\\s*)${escapeRegExp(dependency.specifier)}(\\s*(?:;[^"']*)?["'])`,
+      'i',
+    ),
+    specifier,
+  )
+
+/** Manifests `deps upgrade` can rewrite, in the order they're tried. */
+export const DEPENDENCY_MANIFESTS: DependencyManifest[] = [
+  {
+    file: 'package.json',
+    ecosystems: ['npm'],
+    installEcosystems: ['pnpm', 'yarn', 'npm'],
+    rewrite: rewritePackageJson,
+  },
+  {
+    file: 'deno.json',
+    ecosystems: ['npm', 'jsr'],
+    installEcosystems: ['deno'],
+    rewrite: rewriteDenoJson,
+  },
+  {
+    file: 'deno.jsonc',
+    ecosystems: ['npm', 'jsr'],
+    installEcosystems: ['deno'],
+    rewrite: rewriteDenoJson,
+  },
+  {
+    file: 'Gemfile',
+    ecosystems: ['rubygems'],
+    installEcosystems: ['ruby'],
+    rewrite: rewriteGemfile,
+  },
+  {
+    file: 'pyproject.toml',
+    ecosystems: ['pypi'],
+    installEcosystems: ['uv'],
+    rewrite: rewritePyProject,
+  },
+]
+
+/** Operators whose meaning depends on how many version segments follow. */
+const PESSIMISTIC_OPERATORS = ['~>', '~=']
+
+/**
+ * Rewrite a version specifier to require `version`, keeping its operator
+ * (`^`, `~`, `>=`, `==`, `~>`, `~=`, …). Pessimistic operators keep their
+ * number of segments, so `~> 7.0` becomes `~> 8.1` rather than `~> 8.1.2`.
+ *
+ * Returns null for specifiers that can't be rewritten safely: wildcards,
+ * compound ranges, tags and protocols such as `workspace:` or `catalog:`.
+ */
+export const upgradeSpecifier = (
+  specifier: string,
+  version: string,
+): string | null => {
+  const match = specifier
+    .trim()
+    .match(/^(\^|~>|~=|~|>=|==|=)?(\s*)v?(\d+(?:\.\d+)*(?:[-+][\w.-]+)?)$/)
+  if (!match) return null
+
+  const [, operator = '', space] = match
+  let target = version
+  if (PESSIMISTIC_OPERATORS.includes(operator)) {
+    const segments = match[3].split(/[-+]/)[0].split('.').length
+    target = version.split('.').slice(0, segments).join('.')
+  }
+
+  const upgraded = `${operator}${space}${target}`
+  return upgraded === specifier.trim() ? null : upgraded
+}
+
+/**
+ * The semver level of an update, coercing versions that aren't strict semver
+ * (e.g. `2.1` on PyPI). Returns null when the versions can't be compared or
+ * `target` isn't newer.
+ */
+export const upgradeLevel = (
+  current: string,
+  target: string,
+): SemverLevel | null => {
+  const from = semver.valid(current) ?? semver.coerce(current)?.version
+  const to = semver.valid(target) ?? semver.coerce(target)?.version
+  if (!from || !to || !semver.gt(to, from)) return null
+  return getSemverLevel(from, to)
+}
+
+const ALLOWED_LEVELS: Record<SemverLevel, SemverLevel[]> = {
+  patch: ['patch'],
+  minor: ['patch', 'minor'],
+  major: ['patch', 'minor', 'major'],
+}
+
+/**
+ * Pick the version to upgrade to: the latest version when its update level is
+ * allowed by `maxLevel`, otherwise the highest version the current range
+ * allows, otherwise the newest stable release from `versions` (all published
+ * versions, when known) that is allowed. Returns null when there is none.
+ */
+export const selectUpgradeVersion = (
+  dependency: {
+    current: string
+    wanted: string
+    latest: string
+    versions?: string[]
+  },
+  maxLevel: SemverLevel = 'major',
+): { version: string; level: SemverLevel } | null => {
+  const published = (dependency.versions ?? [])
+    .filter((version) => semver.valid(version) && !semver.prerelease(version))
+    .sort(semver.rcompare)
+  for (const version of [dependency.latest, dependency.wanted, ...published]) {
+    if (!version || version === dependency.current) continue
+    const level = upgradeLevel(dependency.current, version)
+    if (level && ALLOWED_LEVELS[maxLevel].includes(level)) {
+      return { version, level }
+    }
+  }
+  return null
+}
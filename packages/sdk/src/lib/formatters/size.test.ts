@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { parseSize } from './size.ts'
+
+describe('parseSize', () => {
+  it('parses plain bytes', () => {
+    assert.equal(parseSize('512'), 512)
+    assert.equal(parseSize('512B'), 512)
+  })
+
+  it('parses binary units', () => {
+    assert.equal(parseSize('100K'), 102_400)
+    assert.equal(parseSize('10MB'), 10_485_760)
+    assert.equal(parseSize('1.5gb'), 1_610_612_736)
+    assert.equal(parseSize('2 MB'), 2_097_152)
+  })
+
+  it('returns null for invalid input', () => {
+    assert.equal(parseSize(''), null)
+    assert.equal(parseSize('MB'), null)
+    assert.equal(parseSize('10XB'), null)
+    assert.equal(parseSize('-1MB'), null)
+  })
+})
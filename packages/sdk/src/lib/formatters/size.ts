@@ -0,0 +1,23 @@
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+}
+
+/**
+ * Parse a human-readable size string into bytes.
+ * Supported formats: "512", "512B", "100K", "10MB", "1.5GB" (binary units,
+ * case-insensitive).
+ */
+export const parseSize = (input: string): number | null => {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]*)$/i)
+  if (!match) return null
+
+  const multiplier = SIZE_UNITS[match[2].toLowerCase() || 'b']
+  if (multiplier === undefined) return null
+  return Math.floor(Number.parseFloat(match[1]) * multiplier)
+}
@@ -0,0 +1,377 @@
+import assert from 'node:assert'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import http from 'node:http'
+import https from 'node:https'
+import { connect } from 'node:net'
+import { tmpdir } from 'node:os'
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test'
+
+import { generateCaCert, generateDomainCert } from '../certs.ts'
+import { findBuiltinGatewayRoute, startBuiltinGateway } from './builtin.ts'
+
+import type { AddressInfo } from 'node:net'
+import type { BuiltinGateway, BuiltinGatewayRoute } from './builtin.ts'
+import type { GatewayAccessLogRecord } from './logs.ts'
+
+const route = (
+  overrides: Partial<BuiltinGatewayRoute> = {},
+): BuiltinGatewayRoute => ({
+  domain: 'api.denvig.localhost',
+  cnames: [],
+  port: 3000,
+  secure: false,
+  ...overrides,
+})
+
+type Response = {
+  status: number
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+const request = (
+  port: number,
+  host: string,
+  path = '/',
+  client: typeof http | typeof https = http,
+  extra: https.RequestOptions = {},
+): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const req = client.request(
+      { host: '127.0.0.1', port, path, headers: { host }, ...extra },
+      (res) => {
+        let body = ''
+        res.setEncoding('utf-8')
+        res.on('data', (chunk) => {
+          body += chunk
+        })
+        res.on('end', () =>
+          resolve({ status: res.statusCode ?? 0, headers: res.headers, body }),
+        )
+      },
+    )
+    req.on('error', reject)
+    req.end()
+  })
+
+describe('findBuiltinGatewayRoute()', () => {
+  it('matches domains and cnames ignoring case and port', () => {
+    const routes = [route({ cnames: ['www.denvig.localhost'] })]
+    assert.strictEqual(
+      findBuiltinGatewayRoute(routes, 'API.denvig.localhost:8080'),
+      routes[0],
+    )
+    assert.strictEqual(
+      findBuiltinGatewayRoute(routes, 'www.denvig.localhost'),
+      routes[0],
+    )
+    assert.strictEqual(
+      findBuiltinGatewayRoute(routes, 'other.denvig.localhost'),
+      undefined,
+    )
+    assert.strictEqual(findBuiltinGatewayRoute(routes, undefined), undefined)
+  })
+
+  it('picks the longest matching path prefix', () => {
+    const routes = [
+      route({ port: 3000 }),
+      route({ port: 4000, path: '/api' }),
+      route({ port: 4001, path: '/api/v2' }),
+    ]
+    const host = 'api.denvig.localhost'
+    assert.strictEqual(findBuiltinGatewayRoute(routes, host, '/')?.port, 3000)
+    assert.strictEqual(
+      findBuiltinGatewayRoute(routes, host, '/apix')?.port,
+      3000,
+    )
+    assert.strictEqual(
+      findBuiltinGatewayRoute(routes, host, '/api')?.port,
+      4000,
+    )
+    assert.strictEqual(
+      findBuiltinGatewayRoute(routes, host, '/api/v2/users?x=1')?.port,
+      4001,
+    )
+    assert.strictEqual(
+      findBuiltinGatewayRoute([routes[1]], host, '/other'),
+      undefined,
+    )
+  })
+})
+
+describe('startBuiltinGateway()', () => {
+  let upstream: http.Server
+  let upstreamPort = 0
+  let gateway: BuiltinGateway | null = null
+  let routes: BuiltinGatewayRoute[] = []
+  let accessLog: GatewayAccessLogRecord[] = []
+  let crlError: Error | null = null
+
+  before(async () => {
+    upstream = http.createServer((req, res) => {
+      res.setHeader('content-type', 'application/json')
+      res.end(
+        JSON.stringify({
+          url: req.url,
+          host: req.headers.host,
+          forwardedHost: req.headers['x-forwarded-host'],
+          forwardedProto: req.headers['x-forwarded-proto'],
+        }),
+      )
+    })
+    upstream.on('upgrade', (_req, socket) => {
+      socket.write(
+        'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n',
+      )
+      socket.on('data', (data) => socket.write(`echo:${data}`))
+    })
+    await new Promise<void>((resolve) => upstream.listen(0, resolve))
+    upstreamPort = (upstream.address() as AddressInfo).port
+  })
+
+  after(() => {
+    upstream.close()
+  })
+
+  beforeEach(async () => {
+    routes = [route({ port: upstreamPort, cnames: ['www.denvig.localhost'] })]
+    accessLog = []
+    crlError = null
+    gateway = await startBuiltinGateway({
+      httpPort: 0,
+      httpsPort: 0,
+      host: '127.0.0.1',
+      loadRoutes: async () => routes,
+      watchPath: null,
+      onAccess: (record) => accessLog.push(record),
+      revocation: {
+        loadCrl: async () => {
+          if (crlError) throw crlError
+          return Buffer.from('crl')
+        },
+        respondToOcsp: async (ocspRequest) =>
+          Buffer.from(`ocsp:${ocspRequest}`),
+      },
+    })
+  })
+
+  afterEach(async () => {
+    await gateway?.close()
+    gateway = null
+  })
+
+  it('proxies requests with forwarded headers', async () => {
+    const res = await request(
+      gateway?.ports.http ?? 0,
+      'www.denvig.localhost',
+      '/hello?x=1',
+    )
+    assert.strictEqual(res.status, 200)
+    assert.deepStrictEqual(JSON.parse(res.body), {
+      url: '/hello?x=1',
+      host: 'www.denvig.localhost',
+      forwardedHost: 'www.denvig.localhost',
+      forwardedProto: 'http',
+    })
+  })
+
+  it('logs requests for routes with a project and service', async () => {
+    const port = gateway?.ports.http ?? 0
+    await request(port, 'api.denvig.localhost', '/untracked')
+    assert.strictEqual(accessLog.length, 0)
+
+    routes = [
+      route({ port: upstreamPort, projectId: 'abc123', serviceName: 'api' }),
+    ]
+    await gateway?.reload()
+    await request(port, 'api.denvig.localhost', '/users?x=1')
+    assert.strictEqual(accessLog.length, 1)
+    const [record] = accessLog
+    assert.strictEqual(record.handler, 'builtin')
+    assert.strictEqual(record.method, 'GET')
+    assert.strictEqual(record.path, '/users?x=1')
+    assert.strictEqual(record.status, 200)
+    assert.strictEqual(typeof record.upstreamMs, 'number')
+    assert.strictEqual(record.serviceName, 'api')
+  })
+
+  it('serves the landing and 404 pages for unknown hosts', async () => {
+    const port = gateway?.ports.http ?? 0
+    const index = await request(port, 'unknown.localhost', '/')
+    assert.strictEqual(index.status, 200)
+    assert.match(index.body, /Denvig Gateway/)
+
+    const missing = await request(port, 'unknown.localhost', '/missing')
+    assert.strictEqual(missing.status, 404)
+    assert.match(missing.body, /Service Not Found/)
+  })
+
+  it('serves the CRL and OCSP responder for unknown hosts', async () => {
+    const port = gateway?.ports.http ?? 0
+    const crl = await request(port, 'localhost', '/.denvig/ca/intermediate.crl')
+    assert.strictEqual(crl.status, 200)
+    assert.strictEqual(crl.headers['content-type'], 'application/pkix-crl')
+    assert.strictEqual(crl.body, 'crl')
+
+    const posted = await fetch(`http://127.0.0.1:${port}/.denvig/ca/ocsp`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/ocsp-request' },
+      body: 'req',
+    })
+    assert.strictEqual(
+      posted.headers.get('content-type'),
+      'application/ocsp-response',
+    )
+    assert.strictEqual(await posted.text(), 'ocsp:req')
+
+    const encoded = encodeURIComponent(Buffer.from('req').toString('base64'))
+    const viaGet = await request(
+      port,
+      'localhost',
+      `/.denvig/ca/ocsp/${encoded}`,
+    )
+    assert.strictEqual(viaGet.body, 'ocsp:req')
+
+    const missing = await request(port, 'localhost', '/.denvig/ca/other')
+    assert.strictEqual(missing.status, 404)
+  })
+
+  it('serves the error page with a 503 when the CRL cannot be loaded', async () => {
+    crlError = new Error('no CA')
+    const res = await request(
+      gateway?.ports.http ?? 0,
+      'localhost',
+      '/.denvig/ca/intermediate.crl',
+    )
+    assert.strictEqual(res.status, 503)
+    assert.match(res.body, /Service Unavailable/)
+  })
+
+  it('serves the error page when the service is down', async () => {
+    const closed = http.createServer()
+    await new Promise<void>((resolve) => closed.listen(0, resolve))
+    const port = (closed.address() as AddressInfo).port
+    await new Promise<void>((resolve) => closed.close(() => resolve()))
+
+    routes = [route({ port })]
+    await gateway?.reload()
+    const res = await request(gateway?.ports.http ?? 0, 'api.denvig.localhost')
+    assert.strictEqual(res.status, 504)
+    assert.match(res.body, /Service Unavailable/)
+  })
+
+  it('strips path prefixes before proxying', async () => {
+    routes = [
+      ...routes,
+      route({ port: upstreamPort, path: '/api', stripPrefix: true }),
+    ]
+    await gateway?.reload()
+    const port = gateway?.ports.http ?? 0
+
+    const stripped = await request(
+      port,
+      'api.denvig.localhost',
+      '/api/users?x=1',
+    )
+    assert.strictEqual(JSON.parse(stripped.body).url, '/users?x=1')
+    const bare = await request(port, 'api.denvig.localhost', '/api')
+    assert.strictEqual(JSON.parse(bare.body).url, '/')
+    const other = await request(port, 'api.denvig.localhost', '/web')
+    assert.strictEqual(JSON.parse(other.body).url, '/web')
+  })
+
+  it('picks up new routes on reload', async () => {
+    const port = gateway?.ports.http ?? 0
+    assert.strictEqual((await request(port, 'new.localhost', '/x')).status, 404)
+
+    routes = [...routes, route({ domain: 'new.localhost', port: upstreamPort })]
+    await gateway?.reload()
+    assert.strictEqual((await request(port, 'new.localhost', '/x')).status, 200)
+  })
+
+  it('tunnels websocket upgrades', async () => {
+    const socket = connect(gateway?.ports.http ?? 0, '127.0.0.1')
+    const received = await new Promise<string>((resolve, reject) => {
+      let data = ''
+      socket.on('data', (chunk) => {
+        data += chunk
+        if (data.includes('echo:ping')) resolve(data)
+        else if (data.endsWith('\r\n\r\n')) socket.write('ping')
+      })
+      socket.on('error', reject)
+      socket.write(
+        'GET /ws HTTP/1.1\r\nHost: api.denvig.localhost\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\n',
+      )
+    })
+    socket.destroy()
+    assert.match(received, /^HTTP\/1\.1 101/)
+    assert.match(received, /echo:ping$/)
+  })
+})
+
+describe('startBuiltinGateway() with TLS', () => {
+  let certsDir = ''
+  let ca = ''
+
+  before(async () => {
+    certsDir = mkdtempSync(`${tmpdir()}/denvig-builtin-gateway-`)
+    const { cert, key, certPem } = await generateCaCert()
+    const { privkey, fullchain } = await generateDomainCert(
+      'secure.denvig.localhost',
+      cert,
+      key,
+    )
+    writeFileSync(`${certsDir}/fullchain.pem`, fullchain)
+    writeFileSync(`${certsDir}/privkey.pem`, privkey)
+    ca = certPem
+  })
+
+  after(() => {
+    rmSync(certsDir, { recursive: true, force: true })
+  })
+
+  it('terminates TLS with the route cert chosen by SNI', async () => {
+    const upstream = http.createServer((req, res) =>
+      res.end(String(req.headers['x-forwarded-proto'])),
+    )
+    await new Promise<void>((resolve) => upstream.listen(0, resolve))
+    const gateway = await startBuiltinGateway({
+      httpPort: 0,
+      httpsPort: 0,
+      host: '127.0.0.1',
+      watchPath: null,
+      loadRoutes: async () => [
+        route({
+          domain: 'secure.denvig.localhost',
+          port: (upstream.address() as AddressInfo).port,
+          secure: true,
+          sslCertPath: `${certsDir}/fullchain.pem`,
+          sslKeyPath: `${certsDir}/privkey.pem`,
+        }),
+      ],
+    })
+
+    try {
+      const res = await request(
+        gateway.ports.https,
+        'secure.denvig.localhost',
+        '/',
+        https,
+        { servername: 'secure.denvig.localhost', ca, agent: false },
+      )
+      assert.strictEqual(res.status, 200)
+      assert.strictEqual(res.body, 'https')
+
+      await assert.rejects(
+        request(gateway.ports.https, 'other.localhost', '/', https, {
+          servername: 'other.localhost',
+          ca,
+          agent: false,
+        }),
+      )
+    } finally {
+      await gateway.close()
+      upstream.close()
+    }
+  })
+})
@@ -0,0 +1,544 @@
+import { readFile } from 'node:fs/promises'
+import http from 'node:http'
+import https from 'node:https'
+import { resolve } from 'node:path'
+import tls from 'node:tls'
+
+import {
+  loadCrl,
+  REVOCATION_PATH,
+  respondToOcspRequest,
+} from '../revocation.ts'
+import { stateFilePath } from '../services/state.ts'
+import {
+  error404Html,
+  error504Html,
+  getGatewayHtmlDir,
+  indexHtml,
+} from './html.ts'
+import { writeGatewayAccessLog } from './logs.ts'
+import {
+  ensureGatewayProcessRunning,
+  getGatewayProcessLogPath,
+  getGatewayProcessStatus,
+  removeGatewayProcessPid,
+  writeGatewayProcessPid,
+} from './process.ts'
+import { resolveGatewayServices } from './routes.ts'
+import { watchForReload } from './watch.ts'
+
+import type { Duplex } from 'node:stream'
+import type { GatewayAccessLogRecord } from './logs.ts'
+import type { GatewayProcessPidStatus } from './process.ts'
+import type { GatewayServiceRoute } from './routes.ts'
+
+/**
+ * The parts of a resolved gateway route the builtin proxy needs. Without a
+ * `path`, the route serves every path of its domains; without a project and
+ * service, its requests are not logged.
+ */
+export type BuiltinGatewayRoute = Pick<
+  GatewayServiceRoute,
+  'domain' | 'cnames' | 'port' | 'secure' | 'sslCertPath' | 'sslKeyPath'
+> &
+  Partial<
+    Pick<
+      GatewayServiceRoute,
+      'path' | 'stripPrefix' | 'projectId' | 'serviceName'
+    >
+  >
+
+export type BuiltinGatewayOptions = {
+  httpPort: number
+  httpsPort: number
+  /** Address to bind. Defaults to all interfaces. */
+  host?: string
+  /** Load the routing table. Defaults to `resolveGatewayServices()`. */
+  loadRoutes?: () => Promise<BuiltinGatewayRoute[]>
+  /**
+   * File whose changes trigger a reload. Defaults to `~/.denvig/state.json`;
+   * pass `null` to only reload on `reload()`.
+   */
+  watchPath?: string | null
+  /** Sink for reload and proxy error messages. */
+  onLog?: (message: string) => void
+  /**
+   * Sink for proxied requests. Defaults to appending to the service's
+   * access log.
+   */
+  onAccess?: (record: GatewayAccessLogRecord) => void
+  /**
+   * Revocation data served under `/.denvig/ca` on hosts without a route.
+   * Defaults to the intermediate CA's CRL and OCSP responses from disk.
+   */
+  revocation?: {
+    loadCrl: () => Promise<Buffer>
+    respondToOcsp: (request: Buffer) => Promise<Buffer>
+  }
+}
+
+export type BuiltinGateway = {
+  /** Ports actually bound, which differ from the options when `0` is used. */
+  ports: { http: number; https: number }
+  /** The current routing table. */
+  routes: () => BuiltinGatewayRoute[]
+  /** Re-read routes and drop cached TLS contexts. */
+  reload: () => Promise<void>
+  close: () => Promise<void>
+}
+
+/** Headers that apply to a single connection and must not be forwarded. */
+const HOP_BY_HOP_HEADERS = [
+  'connection',
+  'keep-alive',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'upgrade',
+]
+
+const routePath = (route: BuiltinGatewayRoute): string => route.path ?? '/'
+
+/**
+ * Find the route serving a `Host` header or SNI server name. The port is
+ * ignored and matching is case-insensitive. With a request `url`, the route
+ * with the longest path prefix matching it wins; without one (SNI), any route
+ * on the host does.
+ */
+export const findBuiltinGatewayRoute = (
+  routes: BuiltinGatewayRoute[],
+  host: string | undefined,
+  url?: string,
+): BuiltinGatewayRoute | undefined => {
+  if (!host) return undefined
+  const name = host.replace(/:\d+$/, '').replace(/\.$/, '').toLowerCase()
+  const onHost = routes.filter(
+    (route) =>
+      route.domain.toLowerCase() === name ||
+      route.cnames.some((cname) => cname.toLowerCase() === name),
+  )
+  if (url === undefined) return onHost[0]
+
+  const pathname = url.split('?')[0]
+  return onHost
+    .filter((route) => {
+      const path = routePath(route)
+      return (
+        path === '/' || pathname === path || pathname.startsWith(`${path}/`)
+      )
+    })
+    .sort((a, b) => routePath(b).length - routePath(a).length)[0]
+}
+
+/** The request path sent upstream, without the prefix when it is stripped. */
+const upstreamPath = (route: BuiltinGatewayRoute, url = '/'): string => {
+  const path = routePath(route)
+  if (path === '/' || !route.stripPrefix) return url
+  const rest = url.slice(path.length)
+  return rest.startsWith('/') ? rest : `/${rest}`
+}
+
+/**
+ * Headers sent upstream, mirroring the nginx handler: the original `Host` is
+ * kept and `X-Forwarded-*` describe the client request.
+ */
+const forwardedHeaders = (
+  req: http.IncomingMessage,
+  protocol: 'http' | 'https',
+): http.OutgoingHttpHeaders => {
+  const headers: http.OutgoingHttpHeaders = { ...req.headers }
+  for (const name of HOP_BY_HOP_HEADERS) delete headers[name]
+  const forwardedFor = req.headers['x-forwarded-for']
+  const remote = req.socket.remoteAddress ?? ''
+  headers['x-forwarded-for'] = forwardedFor
+    ? `${forwardedFor}, ${remote}`
+    : remote
+  headers['x-forwarded-host'] = req.headers.host
+  headers['x-forwarded-proto'] = protocol
+  return headers
+}
+
+/**
+ * A page written by `gateway configure` (the dashboard lists the running
+ * routes), or the placeholder when it hasn't been written yet.
+ */
+const readGatewayPage = (path: string, fallback: string): Promise<string> =>
+  readFile(resolve(getGatewayHtmlDir(), path), 'utf-8').catch(() => fallback)
+
+const sendHtml = (
+  res: http.ServerResponse,
+  statusCode: number,
+  html: string,
+): void => {
+  res.writeHead(statusCode, {
+    'content-type': 'text/html; charset=utf-8',
+    'content-length': Buffer.byteLength(html),
+  })
+  res.end(html)
+}
+
+const sendDer = (
+  res: http.ServerResponse,
+  contentType: string,
+  body: Buffer,
+): void => {
+  res.writeHead(200, {
+    'content-type': contentType,
+    'content-length': body.length,
+    'cache-control': 'no-cache',
+  })
+  res.end(body)
+}
+
+/** Largest OCSP request body accepted; real requests are a few hundred bytes. */
+const MAX_OCSP_REQUEST_BYTES = 64 * 1024
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> =>
+  new Promise((resolveBody, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_OCSP_REQUEST_BYTES) {
+        reject(new Error('OCSP request too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolveBody(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+
+/** Serialize a response head for writing to a raw upgraded socket. */
+const formatResponseHead = (res: http.IncomingMessage): string => {
+  const lines = [`HTTP/1.1 ${res.statusCode} ${res.statusMessage ?? ''}`]
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    lines.push(`${res.rawHeaders[i]}: ${res.rawHeaders[i + 1]}`)
+  }
+  return `${lines.join('\r\n')}\r\n\r\n`
+}
+
+/**
+ * Start the builtin gateway: an HTTP and an HTTPS server that proxy each
+ * routed domain to its service on `127.0.0.1`, as the generated nginx config
+ * does. HTTPS terminates TLS with the route's cert chosen by SNI, WebSocket
+ * upgrades are tunnelled, unreachable services get the 504 error page and
+ * unknown hosts get the dashboard or 404 page, or the local CA's CRL and OCSP
+ * responder under `/.denvig/ca`. Routes are reloaded whenever
+ * `~/.denvig/state.json` changes, so no restart or reload command is needed.
+ */
+export const startBuiltinGateway = async (
+  options: BuiltinGatewayOptions,
+): Promise<BuiltinGateway> => {
+  const loadRoutes = options.loadRoutes ?? resolveGatewayServices
+  const log = options.onLog ?? (() => {})
+  const onAccess =
+    options.onAccess ??
+    ((record: GatewayAccessLogRecord) => {
+      writeGatewayAccessLog(record).catch((error: Error) =>
+        log(`Failed to write the access log: ${error.message}`),
+      )
+    })
+  const logAccess = (
+    route: BuiltinGatewayRoute,
+    req: http.IncomingMessage,
+    status: number,
+    startedAt: number | null,
+  ) => {
+    if (!route.projectId || !route.serviceName) return
+    onAccess({
+      time: new Date().toISOString(),
+      handler: 'builtin',
+      host: req.headers.host ?? '',
+      method: req.method ?? '',
+      path: req.url ?? '/',
+      status,
+      upstreamMs:
+        startedAt === null ? null : Math.round(performance.now() - startedAt),
+      projectId: route.projectId,
+      serviceName: route.serviceName,
+    })
+  }
+  const agent = new http.Agent({ keepAlive: true })
+  const revocation = options.revocation ?? {
+    loadCrl,
+    respondToOcsp: respondToOcspRequest,
+  }
+
+  /**
+   * Serve the CRL at `/.denvig/ca/intermediate.crl` and answer OCSP requests
+   * POSTed to `/.denvig/ca/ocsp` or sent base64-encoded in a GET path.
+   */
+  const serveRevocation = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> => {
+    const path = (req.url ?? '').split('?')[0].slice(REVOCATION_PATH.length)
+    try {
+      if (path === '/intermediate.crl' && req.method === 'GET') {
+        sendDer(res, 'application/pkix-crl', await revocation.loadCrl())
+      } else if (path === '/ocsp' && req.method === 'POST') {
+        const request = await readBody(req)
+        sendDer(
+          res,
+          'application/ocsp-response',
+          await revocation.respondToOcsp(request),
+        )
+      } else if (path.startsWith('/ocsp/') && req.method === 'GET') {
+        const request = Buffer.from(
+          decodeURIComponent(path.slice('/ocsp/'.length)),
+          'base64',
+        )
+        sendDer(
+          res,
+          'application/ocsp-response',
+          await revocation.respondToOcsp(request),
+        )
+      } else {
+        sendHtml(res, 404, error404Html)
+      }
+    } catch (error) {
+      log(
+        `Failed to serve ${req.url}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+      if (!res.headersSent) sendHtml(res, 503, error504Html)
+    }
+  }
+
+  let routes = await loadRoutes()
+  let contexts = new Map<string, Promise<tls.SecureContext>>()
+
+  const secureContext = (
+    route: BuiltinGatewayRoute,
+  ): Promise<tls.SecureContext> | null => {
+    if (!route.sslCertPath || !route.sslKeyPath) return null
+    const cacheKey = `${route.sslCertPath}\0${route.sslKeyPath}`
+    let context = contexts.get(cacheKey)
+    if (!context) {
+      context = Promise.all([
+        readFile(route.sslCertPath),
+        readFile(route.sslKeyPath),
+      ]).then(([cert, key]) => tls.createSecureContext({ cert, key }))
+      // Don't cache failures, so a cert written later is picked up.
+      context.catch(() => contexts.delete(cacheKey))
+      contexts.set(cacheKey, context)
+    }
+    return context
+  }
+
+  const handleRequest =
+    (protocol: 'http' | 'https') =>
+    (req: http.IncomingMessage, res: http.ServerResponse) => {
+      const route = findBuiltinGatewayRoute(routes, req.headers.host, req.url)
+      if (!route) {
+        if (req.url?.startsWith(`${REVOCATION_PATH}/`)) {
+          void serveRevocation(req, res)
+          return
+        }
+        const isIndex = req.url === '/' || req.url === '/index.html'
+        void readGatewayPage(
+          isIndex ? 'index.html' : 'errors/404.html',
+          isIndex ? indexHtml : error404Html,
+        ).then((html) => sendHtml(res, isIndex ? 200 : 404, html))
+        return
+      }
+
+      const startedAt = performance.now()
+      const upstream = http.request(
+        {
+          host: '127.0.0.1',
+          port: route.port,
+          method: req.method,
+          path: upstreamPath(route, req.url),
+          headers: forwardedHeaders(req, protocol),
+          agent,
+        },
+        (upstreamRes) => {
+          logAccess(route, req, upstreamRes.statusCode ?? 502, startedAt)
+          const headers = { ...upstreamRes.headers }
+          for (const name of HOP_BY_HOP_HEADERS) delete headers[name]
+          res.writeHead(upstreamRes.statusCode ?? 502, headers)
+          upstreamRes.pipe(res)
+        },
+      )
+      upstream.on('error', (error) => {
+        log(`${route.domain}: ${error.message}`)
+        if (res.headersSent) {
+          res.destroy()
+        } else {
+          logAccess(route, req, 504, null)
+          sendHtml(res, 504, error504Html)
+        }
+      })
+      res.on('close', () => {
+        if (!res.writableFinished) upstream.destroy()
+      })
+      req.pipe(upstream)
+    }
+
+  // Upgraded sockets are detached from their server, so track them to close.
+  const tunnels = new Set<Duplex>()
+  const handleUpgrade =
+    (protocol: 'http' | 'https') =>
+    (req: http.IncomingMessage, socket: Duplex, head: Buffer) => {
+      const route = findBuiltinGatewayRoute(routes, req.headers.host, req.url)
+      if (!route) {
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n')
+        return
+      }
+
+      const startedAt = performance.now()
+      const upstream = http.request({
+        host: '127.0.0.1',
+        port: route.port,
+        method: req.method,
+        path: upstreamPath(route, req.url),
+        headers: {
+          ...forwardedHeaders(req, protocol),
+          connection: 'upgrade',
+          upgrade: req.headers.upgrade,
+        },
+      })
+      upstream.on('upgrade', (upstreamRes, upstreamSocket, upstreamHead) => {
+        logAccess(route, req, upstreamRes.statusCode ?? 101, startedAt)
+        socket.write(formatResponseHead(upstreamRes))
+        if (upstreamHead.length > 0) socket.write(upstreamHead)
+        if (head.length > 0) upstreamSocket.write(head)
+        tunnels.add(socket)
+        upstreamSocket.on('close', () => socket.destroy())
+        socket.on('close', () => {
+          tunnels.delete(socket)
+          upstreamSocket.destroy()
+        })
+        upstreamSocket.on('error', () => socket.destroy())
+        upstreamSocket.pipe(socket).pipe(upstreamSocket)
+      })
+      // The service answered without switching protocols; relay as-is.
+      upstream.on('response', (upstreamRes) => {
+        logAccess(route, req, upstreamRes.statusCode ?? 502, startedAt)
+        socket.write(formatResponseHead(upstreamRes))
+        upstreamRes.pipe(socket)
+      })
+      upstream.on('error', (error) => {
+        log(`${route.domain}: ${error.message}`)
+        logAccess(route, req, 504, null)
+        socket.end('HTTP/1.1 504 Gateway Timeout\r\nConnection: close\r\n\r\n')
+      })
+      socket.on('error', () => upstream.destroy())
+      upstream.end()
+    }
+
+  const httpServer = http.createServer(handleRequest('http'))
+  httpServer.on('upgrade', handleUpgrade('http'))
+
+  const httpsServer = https.createServer(
+    {
+      SNICallback: (servername, callback) => {
+        const route = findBuiltinGatewayRoute(routes, servername)
+        const context = route ? secureContext(route) : null
+        if (!context) {
+          callback(new Error(`No certificate for ${servername}`))
+          return
+        }
+        context.then(
+          (value) => callback(null, value),
+          (error: Error) => callback(error),
+        )
+      },
+    },
+    handleRequest('https'),
+  )
+  httpsServer.on('upgrade', handleUpgrade('https'))
+
+  const listen = (server: http.Server, port: number) =>
+    new Promise<number>((resolvePort, reject) => {
+      server.once('error', reject)
+      server.listen(port, options.host, () => {
+        server.off('error', reject)
+        const address = server.address()
+        resolvePort(
+          typeof address === 'object' && address ? address.port : port,
+        )
+      })
+    })
+  const closeServer = (server: http.Server) =>
+    new Promise<void>((resolveClose) => {
+      if (!server.listening) return resolveClose()
+      server.close(() => resolveClose())
+      server.closeAllConnections()
+    })
+
+  let ports: BuiltinGateway['ports']
+  try {
+    ports = {
+      http: await listen(httpServer, options.httpPort),
+      https: await listen(httpsServer, options.httpsPort),
+    }
+  } catch (error) {
+    await closeServer(httpServer)
+    throw error
+  }
+
+  const reload = async () => {
+    try {
+      routes = await loadRoutes()
+      contexts = new Map()
+      log(
+        `Loaded ${routes.length} gateway route${routes.length === 1 ? '' : 's'}`,
+      )
+    } catch (error) {
+      log(
+        `Failed to reload routes: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  // state.json is replaced by rename on every write, so watch its directory.
+  const watchPath =
+    options.watchPath === undefined ? stateFilePath() : options.watchPath
+  const stopWatching = watchPath
+    ? await watchForReload(watchPath, () => void reload())
+    : null
+
+  return {
+    ports,
+    routes: () => routes,
+    reload,
+    close: async () => {
+      stopWatching?.()
+      agent.destroy()
+      for (const socket of tunnels) socket.destroy()
+      await Promise.all([closeServer(httpServer), closeServer(httpsServer)])
+    },
+  }
+}
+
+/** Log file the background builtin gateway writes to. */
+export const getBuiltinGatewayLogPath = (): string =>
+  getGatewayProcessLogPath('builtin')
+
+/** Record the pid of the process serving the builtin gateway. */
+export const writeBuiltinGatewayPid = (pid: number): Promise<void> =>
+  writeGatewayProcessPid('builtin', pid)
+
+/** Remove the pid file, unless another process has since claimed it. */
+export const removeBuiltinGatewayPid = (pid: number): Promise<void> =>
+  removeGatewayProcessPid('builtin', pid)
+
+/** The builtin gateway process state, from its pid file. */
+export type BuiltinGatewayProcessStatus = GatewayProcessPidStatus
+
+export const getBuiltinGatewayProcessStatus =
+  (): Promise<BuiltinGatewayProcessStatus> => getGatewayProcessStatus('builtin')
+
+/**
+ * Make sure the builtin gateway is running, starting `denvig gateway serve`
+ * in the background when it isn't.
+ */
+export const ensureBuiltinGatewayRunning = () =>
+  ensureGatewayProcessRunning(
+    'builtin',
+    ['gateway', 'serve'],
+    'Builtin gateway',
+  )
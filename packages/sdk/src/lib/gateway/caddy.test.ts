@@ -0,0 +1,124 @@
+import { ok } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import {
+  generateCaddyConfig,
+  generateDenvigCaddyfile,
+  getDenvigCaddyfilePath,
+} from './caddy.ts'
+
+const base = {
+  projectId: 'abc123',
+  projectPath: '/Users/test/project',
+  projectSlug: 'test/project',
+  serviceName: 'api',
+  port: 3000,
+  domain: 'api.denvig.localhost',
+}
+
+describe('caddy gateway', () => {
+  describe('generateCaddyConfig()', () => {
+    it('should generate an http site block without SSL', () => {
+      const config = generateCaddyConfig(base)
+
+      ok(config.includes('# slug: test/project'))
+      ok(config.includes('# upstream: denvig-abc123--api'))
+      ok(config.includes('http://api.denvig.localhost {'))
+      ok(config.includes('reverse_proxy 127.0.0.1:3000'))
+      ok(!config.includes('https://'))
+      ok(!config.includes('tls '))
+    })
+
+    it('should serve https with the denvig cert when SSL paths are provided', () => {
+      const config = generateCaddyConfig({
+        ...base,
+        sslCertPath: '/certs/fullchain.pem',
+        sslKeyPath: '/certs/privkey.pem',
+      })
+
+      ok(
+        config.includes(
+          'http://api.denvig.localhost, https://api.denvig.localhost {',
+        ),
+      )
+      ok(config.includes('tls /certs/fullchain.pem /certs/privkey.pem'))
+    })
+
+    it('should include cnames as site addresses', () => {
+      const config = generateCaddyConfig({
+        ...base,
+        cnames: ['www.denvig.localhost'],
+      })
+
+      ok(
+        config.includes(
+          'http://api.denvig.localhost, http://www.denvig.localhost {',
+        ),
+      )
+    })
+
+    it('should serve the gateway error page when the service is down', () => {
+      const config = generateCaddyConfig(base)
+
+      ok(config.includes('handle_errors 502 503 504'))
+      ok(config.includes('rewrite * /504.html'))
+    })
+
+    it('should log requests to the shared access log tagged by service', () => {
+      const config = generateCaddyConfig(base)
+
+      ok(config.includes('output file '))
+      ok(config.includes('/.denvig/gateway/access/caddy.log'))
+      ok(config.includes('format json'))
+      ok(config.includes('log_append denvig_service denvig-abc123--api'))
+    })
+  })
+
+  describe('getDenvigCaddyfilePath()', () => {
+    it('should resolve to ~/.denvig/Caddyfile', () => {
+      ok(getDenvigCaddyfilePath().endsWith('/.denvig/Caddyfile'))
+    })
+  })
+
+  describe('generateDenvigCaddyfile()', () => {
+    it('should only contain the header when there are no services', () => {
+      const config = generateDenvigCaddyfile([])
+      ok(config.includes('Managed by denvig'))
+      ok(!config.includes('reverse_proxy'))
+    })
+
+    it('should handle path prefixes of a shared domain in one site block', () => {
+      const config = generateDenvigCaddyfile([
+        { ...base, serviceName: 'web', domain: 'app.denvig.localhost' },
+        {
+          ...base,
+          port: 4000,
+          domain: 'app.denvig.localhost',
+          path: '/api',
+          stripPrefix: true,
+        },
+      ])
+
+      ok(config.includes('@route0 path /api /api/*'))
+      ok(config.includes('uri strip_prefix /api'))
+      ok(config.includes('reverse_proxy 127.0.0.1:4000'))
+      ok(
+        config.includes(
+          'handle {\n    log_append denvig_service denvig-abc123--web\n    reverse_proxy 127.0.0.1:3000',
+        ),
+      )
+      ok(!config.includes('error 404'))
+    })
+
+    it('should sort site blocks alphabetically by domain', () => {
+      const config = generateDenvigCaddyfile([
+        { ...base, serviceName: 'web', domain: 'web.denvig.localhost' },
+        base,
+      ])
+      ok(
+        config.indexOf('http://api.denvig.localhost') <
+          config.indexOf('http://web.denvig.localhost'),
+      )
+    })
+  })
+})
@@ -0,0 +1,204 @@
+import { exec } from 'node:child_process'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, resolve } from 'node:path'
+import { promisify } from 'node:util'
+
+import { safeReadTextFile } from '../safeReadFile.ts'
+import { getGatewayHtmlDir } from './html.ts'
+import {
+  getGatewayAccessLogDir,
+  getGatewaySharedAccessLogPath,
+} from './logs.ts'
+import { groupGatewayServers } from './servers.ts'
+
+import type { NginxConfigOptions } from './nginx.ts'
+import type { GatewayServer } from './servers.ts'
+
+const execAsync = promisify(exec)
+
+/**
+ * Path to the Caddyfile fragment holding every service's site block. The main
+ * Caddyfile pulls it in with `import`.
+ */
+export function getDenvigCaddyfilePath(): string {
+  return resolve(homedir(), '.denvig', 'Caddyfile')
+}
+
+/**
+ * Generate the Caddyfile site block for a service. Like the nginx handler,
+ * secure services are served over both HTTP and HTTPS (without a redirect),
+ * using the denvig-managed cert instead of Caddy's automatic HTTPS.
+ */
+export function generateCaddyConfig(options: NginxConfigOptions): string {
+  return generateCaddySiteConfig({
+    domains: [options.domain, ...(options.cnames || [])],
+    sslCertPath: options.sslCertPath,
+    sslKeyPath: options.sslKeyPath,
+    routes: [options],
+  })
+}
+
+/**
+ * Generate the site block for a group of domains. A single route for the
+ * whole domain proxies directly; otherwise each path prefix gets a `handle`
+ * block, most specific first, and unclaimed paths get the not-found page.
+ * Requests are logged as JSON to the shared Caddy access log, tagged with
+ * the service that handled them.
+ */
+export function generateCaddySiteConfig(server: GatewayServer): string {
+  const { domains, sslCertPath, sslKeyPath, routes } = server
+  const hasSsl = !!(sslCertPath && sslKeyPath)
+  const addresses = [
+    ...domains.map((name) => `http://${name}`),
+    ...(hasSsl ? domains.map((name) => `https://${name}`) : []),
+  ].join(', ')
+
+  const comments = routes.map((route) => {
+    const path = route.path ?? '/'
+    const routeComment =
+      path === '/'
+        ? ''
+        : `\n# route: ${path}${route.stripPrefix ? ' (prefix stripped)' : ''}`
+    const logComment = route.logPath ? `\n# log: ${route.logPath}` : ''
+    return `# denvig:
+# slug: ${route.projectSlug}
+# path: ${route.projectPath}
+# service: ${route.serviceName}
+# domain: ${domains.join(' ')}${routeComment}
+# port: ${route.port}${logComment}
+# upstream: denvig-${route.projectId}--${route.serviceName}`
+  })
+
+  const tlsBlock = hasSsl ? `\n  tls ${sslCertPath} ${sslKeyPath}` : ''
+  const errorsRoot = `${getGatewayHtmlDir()}/errors`
+  const hasRoot = routes.some((route) => (route.path ?? '/') === '/')
+
+  // Every site logs to one file, so each route tags its requests.
+  const logTag = (route: NginxConfigOptions) =>
+    `log_append denvig_service denvig-${route.projectId}--${route.serviceName}`
+  const logBlock = `  log {
+    output file ${getGatewaySharedAccessLogPath('caddy')}
+    format json
+  }`
+
+  let body: string
+  if (routes.length === 1 && hasRoot) {
+    body = `  ${logTag(routes[0])}
+  reverse_proxy 127.0.0.1:${routes[0].port}`
+  } else {
+    const handlers = routes.map((route, index) => {
+      const path = route.path ?? '/'
+      if (path === '/') {
+        return `  handle {
+    ${logTag(route)}
+    reverse_proxy 127.0.0.1:${route.port}
+  }`
+      }
+      const strip = route.stripPrefix ? `\n    uri strip_prefix ${path}` : ''
+      return `  @route${index} path ${path} ${path}/*
+  handle @route${index} {${strip}
+    ${logTag(route)}
+    reverse_proxy 127.0.0.1:${route.port}
+  }`
+    })
+    if (!hasRoot) {
+      handlers.push(`  handle {
+    error 404
+  }`)
+    }
+    body = handlers.join('\n\n')
+  }
+
+  const notFound = hasRoot
+    ? ''
+    : `
+
+  handle_errors 404 {
+    root * ${errorsRoot}
+    rewrite * /404.html
+    file_server
+  }`
+
+  return `${comments.join('\n')}
+${addresses} {${tlsBlock}
+${logBlock}
+
+${body}
+
+  handle_errors 502 503 504 {
+    root * ${errorsRoot}
+    rewrite * /504.html
+    file_server
+  }${notFound}
+}
+`
+}
+
+/**
+ * Generate the combined denvig Caddyfile fragment, one site block per group
+ * of domains sorted by primary domain.
+ */
+export function generateDenvigCaddyfile(
+  services: NginxConfigOptions[],
+): string {
+  const servers = groupGatewayServers(services)
+  const header =
+    '# Managed by denvig — do not edit manually\n# https://denvig.com\n'
+  if (servers.length === 0) {
+    return header
+  }
+  return `${header}\n${servers.map(generateCaddySiteConfig).join('\n')}`
+}
+
+/**
+ * Write the combined denvig Caddyfile fragment.
+ */
+export async function writeDenvigCaddyfile(
+  services: NginxConfigOptions[],
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    const path = getDenvigCaddyfilePath()
+    await mkdir(dirname(path), { recursive: true })
+    await mkdir(getGatewayAccessLogDir(), { recursive: true })
+    await writeFile(path, generateDenvigCaddyfile(services), 'utf-8')
+    return { success: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      success: false,
+      message: `Failed to write Caddyfile: ${message}`,
+    }
+  }
+}
+
+/**
+ * Reload caddy with the main Caddyfile, after checking that it imports the
+ * denvig fragment.
+ */
+export async function reloadCaddy(caddyfile: string): Promise<{
+  success: boolean
+  message?: string
+}> {
+  const fragment = getDenvigCaddyfilePath()
+  try {
+    const content = await safeReadTextFile(caddyfile)
+    if (content === null) {
+      return { success: false, message: `Caddyfile not found at ${caddyfile}` }
+    }
+    if (!content.includes(fragment)) {
+      return {
+        success: false,
+        message: `Add "import ${fragment}" to ${caddyfile}`,
+      }
+    }
+
+    await execAsync(
+      `caddy reload --config ${JSON.stringify(caddyfile)} --adapter caddyfile`,
+    )
+    return { success: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, message: `Failed to reload caddy: ${message}` }
+  }
+}
@@ -1,7 +1,32 @@
 import { deepStrictEqual, strictEqual } from 'node:assert'
-import { describe, it } from 'node:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+import forge from 'node-forge'
 
-import { getParentDomain, groupDomainsForCertGeneration } from './certs.ts'
+import { generateCaCert, generateDomainCert } from '../certs.ts'
+import {
+  findUnrenewableCerts,
+  getParentDomain,
+  groupDomainsForCertGeneration,
+} from './certs.ts'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** A self-signed cert for `domain` from another CA, expiring in `days`. */
+const importedCertPem = (domain: string, days: number): string => {
+  const keys = forge.pki.rsa.generateKeyPair(1024)
+  const cert = forge.pki.createCertificate()
+  cert.publicKey = keys.publicKey
+  cert.serialNumber = '01'
+  cert.validity.notBefore = new Date(Date.now() - DAY_MS)
+  cert.validity.notAfter = new Date(Date.now() + days * DAY_MS)
+  cert.setSubject([{ name: 'commonName', value: domain }])
+  cert.setIssuer([{ name: 'commonName', value: 'Other CA' }])
+  cert.sign(keys.privateKey, forge.md.sha256.create())
+  return forge.pki.certificateToPem(cert)
+}
 
 describe('gateway certs', () => {
   describe('getParentDomain()', () => {
@@ -61,4 +86,51 @@ describe('gateway certs', () => {
       strictEqual(groups.size, 2)
     })
   })
+
+  describe('findUnrenewableCerts()', () => {
+    let dir = ''
+
+    before(() => {
+      dir = mkdtempSync(`${tmpdir()}/denvig-certs-`)
+    })
+    after(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    const cert = (name: string, pem: string) => {
+      const certPath = resolve(dir, `${name}.pem`)
+      writeFileSync(certPath, pem)
+      return { dir, certPath, keyPath: certPath, domains: [] }
+    }
+
+    it('reports imported certs expiring within the window', async () => {
+      const ca = await generateCaCert()
+      const local = await generateDomainCert('local.test', ca.cert, ca.key)
+      const certs = {
+        soon: cert('soon', importedCertPem('soon.test', 10)),
+        later: cert('later', importedCertPem('later.test', 90)),
+        local: cert('local', local.fullchain),
+        missing: { ...cert('missing', ''), certPath: resolve(dir, 'nope') },
+      }
+
+      const result = await findUnrenewableCerts(certs)
+      deepStrictEqual(
+        result.map((r) => [r.name, r.domains, r.expired]),
+        [['soon', ['soon.test'], false]],
+      )
+
+      const expired = await findUnrenewableCerts(
+        certs,
+        0,
+        new Date(Date.now() + 100 * DAY_MS),
+      )
+      deepStrictEqual(
+        expired.map((r) => [r.name, r.expired]),
+        [
+          ['soon', true],
+          ['later', true],
+        ],
+      )
+    })
+  })
 })
@@ -3,14 +3,25 @@ import { resolve } from 'node:path'
 
 import {
   generateDomainCert,
+  getCertExpiry,
   getCertsDir,
   isCaInitialized,
-  loadCaCert,
+  isIssuedByLocalCa,
+  loadIssuingCa,
   parseCertDomains,
   writeDomainCertFiles,
 } from '../certs.ts'
+import { loadRevocationUrls } from '../revocation.ts'
 import { pathExists } from '../safeReadFile.ts'
 
+import type { Cert } from '../services/state.ts'
+
+/**
+ * How long before expiry `denvig certs renew` reissues a certificate by
+ * default, and the reconciler starts warning about ones it can't renew.
+ */
+export const CERT_RENEWAL_WINDOW_MS = 30 * 24 * 60 * 60 * 1000
+
 /**
  * Check if a domain matches a cert domain (exact or wildcard).
  * `*.example.com` matches `api.example.com` but not `example.com` or `a.b.example.com`.
@@ -133,7 +144,8 @@ export async function generateMissingCerts(
   if (uncovered.length === 0) return result
   if (!(await isCaInitialized())) return result
 
-  const { cert: caCert, key: caKey } = await loadCaCert()
+  const { cert: caCert, key: caKey } = await loadIssuingCa()
+  const revocation = await loadRevocationUrls()
   const groups = groupDomainsForCertGeneration(uncovered)
 
   for (const [certDomain, coveredDomains] of groups) {
@@ -141,6 +153,7 @@ export async function generateMissingCerts(
       certDomain,
       caCert,
       caKey,
+      revocation,
     )
     const certDir = await writeDomainCertFiles(certDomain, privkey, fullchain)
     for (const domain of coveredDomains) {
@@ -168,3 +181,41 @@ export async function resolveSslPaths(
   }
   return null
 }
+
+/** A gateway cert nearing expiry that was not issued by the local CA. */
+export type UnrenewableCert = {
+  /** Key of the cert in `state.certs` (its directory name). */
+  name: string
+  domains: string[]
+  /** Expiry as an ISO 8601 timestamp. */
+  expires: string
+  expired: boolean
+}
+
+/**
+ * Find certs (keyed like `state.certs`) that expire within `withinMs` but
+ * were imported rather than issued by the local CA, so `denvig certs renew`
+ * can't reissue them. Certs that can't be read are ignored.
+ */
+export async function findUnrenewableCerts(
+  certs: Record<string, Cert>,
+  withinMs: number = CERT_RENEWAL_WINDOW_MS,
+  now: Date = new Date(),
+): Promise<UnrenewableCert[]> {
+  const result: UnrenewableCert[] = []
+  for (const [name, cert] of Object.entries(certs)) {
+    try {
+      const pem = await readFile(cert.certPath, 'utf-8')
+      if (isIssuedByLocalCa(pem)) continue
+      const expires = getCertExpiry(pem)
+      if (expires.getTime() > now.getTime() + withinMs) continue
+      result.push({
+        name,
+        domains: parseCertDomains(pem),
+        expires: expires.toISOString(),
+        expired: expires <= now,
+      })
+    } catch {}
+  }
+  return result.sort((a, b) => a.expires.localeCompare(b.expires))
+}
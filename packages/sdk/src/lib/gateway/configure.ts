@@ -1,80 +1,135 @@
 import { getGlobalConfig } from '../config.ts'
 import { getServiceStableLogPath } from '../services/paths.ts'
+import { ensureBuiltinGatewayRunning } from './builtin.ts'
+import { ensureDnsServerRunning } from './dns.ts'
+import {
+  CONFIG_FILE_GATEWAY_HANDLERS,
+  type ConfigFileGatewayHandlerName,
+} from './handlers.ts'
 import { writeGatewayHtmlFiles } from './html.ts'
 import {
   type NginxConfigOptions,
-  reloadNginx,
   removeAllNginxConfigs,
-  writeDenvigNginxConfig,
   writeNginxMainConfig,
 } from './nginx.ts'
 import { resolveGatewayServices } from './routes.ts'
 
+import type { GlobalConfigSchema } from '../../schemas/config.ts'
+
 export type ConfigureServiceResult = {
   projectSlug: string
   serviceName: string
   domain: string
   cnames: string[]
+  /** Path prefix routed to the service; `/` for the whole domain. */
+  path: string
+  stripPrefix: boolean
   port: number
   certStatus: 'valid' | 'missing' | 'not_configured'
   certDir?: string
   certMessage?: string
+  /** Clashes with other claims on the route's domains. */
+  conflicts: string[]
   configStatus: 'written' | 'error'
   configMessage?: string
 }
 
 export type ConfigureGatewayResult = {
   success: boolean
+  /** The configured gateway handler (`nginx`, `caddy`, `traefik` or `builtin`). */
+  handler: string
   removed: string[]
   services: ConfigureServiceResult[]
+  /**
+   * Whether the proxy reloaded its config; null for handlers that reload on
+   * their own (`traefik`, `builtin`).
+   */
+  reload: { success: boolean; message?: string } | null
+  /** Whether nginx reloaded (only set for the `nginx` handler). */
   nginxReload: boolean
   nginxReloadMessage?: string
+  /** The builtin gateway process, when it is the handler. */
+  builtin?: { running: boolean; pid: number | null; message?: string }
+  /** The DNS server process, when `gateway.dns.enabled` is set. */
+  dns?: { running: boolean; pid: number | null; message?: string }
   message?: string
 }
 
 /**
- * Remove all denvig nginx configs and rebuild from the runtime gateway
- * routes recorded in `~/.denvig/state.json`.
+ * Rebuild the gateway config from the runtime gateway routes recorded in
+ * `~/.denvig/state.json`, then reload the proxy.
  *
  * The state's `gatewayRoutes` map is the source of truth (resolved via
- * `resolveGatewayServices`): each running route generates an nginx server
- * block that proxies the domain to the service's allocated port. Routes for
- * the same `(project, service)` pair are merged into a single nginx config so
- * cnames sit alongside the primary domain in the same `server_name` directive.
+ * `resolveGatewayServices`): each running route generates a server block
+ * (nginx), site block (caddy) or router (traefik) that proxies the domain to
+ * the service's allocated port. Routes for the same `(project, service)` pair
+ * are merged so cnames sit alongside the primary domain.
+ *
+ * With the `builtin` handler, the denvig-managed proxy is started instead.
+ * With `gateway.dns.enabled`, the DNS server is started as well.
  */
 export async function configureGateway(): Promise<ConfigureGatewayResult> {
   const globalConfig = await getGlobalConfig()
-  const configsPath = globalConfig.gateway.configsPath
-
-  // Write gateway HTML files and nginx.conf
-  await writeGatewayHtmlFiles()
-  const mainConfigResult = await writeNginxMainConfig(configsPath)
-  if (!mainConfigResult.success) {
-    return {
-      success: false,
-      removed: [],
-      services: [],
-      nginxReload: false,
-      message: mainConfigResult.message || 'Failed to write nginx.conf',
-    }
+  const handlerName = globalConfig.gateway.handler
+  const result =
+    handlerName === 'builtin'
+      ? await configureBuiltinGateway()
+      : await configureConfigFileGateway(globalConfig, handlerName)
+  if (!globalConfig.gateway.dns.enabled) {
+    return result
+  }
+
+  // The DNS server reads the routed domains from state.json like the builtin
+  // gateway, so it only needs to be running.
+  const dns = await ensureDnsServerRunning()
+  return {
+    ...result,
+    success: result.success && dns.success,
+    dns: { running: dns.success, pid: dns.pid, message: dns.message },
+    message: dns.success ? result.message : dns.message,
   }
+}
+
+async function configureConfigFileGateway(
+  globalConfig: GlobalConfigSchema,
+  handlerName: ConfigFileGatewayHandlerName,
+): Promise<ConfigureGatewayResult> {
+  const handler = CONFIG_FILE_GATEWAY_HANDLERS[handlerName]
+  const failure = (message: string): ConfigureGatewayResult => ({
+    success: false,
+    handler: handlerName,
+    removed: [],
+    services: [],
+    reload: null,
+    nginxReload: false,
+    message,
+  })
 
-  // Remove all existing denvig nginx configs
-  const removeResult = await removeAllNginxConfigs(configsPath)
-  if (!removeResult.success) {
-    return {
-      success: false,
-      removed: [],
-      services: [],
-      nginxReload: false,
-      message: removeResult.message || 'Failed to remove existing configs',
+  let removed: string[] = []
+  if (handlerName === 'nginx') {
+    const configsPath = globalConfig.gateway.configsPath
+    const mainConfigResult = await writeNginxMainConfig(configsPath)
+    if (!mainConfigResult.success) {
+      return failure(mainConfigResult.message || 'Failed to write nginx.conf')
     }
+
+    // Remove all existing denvig nginx configs
+    const removeResult = await removeAllNginxConfigs(configsPath)
+    if (!removeResult.success) {
+      return failure(
+        removeResult.message || 'Failed to remove existing configs',
+      )
+    }
+    removed = removeResult.removed
   }
 
   // state.json is the single source of truth — the same resolved routes that
-  // `gateway status` reports are rendered into nginx here.
+  // `gateway status` reports are rendered into the handler's config here.
   const routes = await resolveGatewayServices()
 
+  // The dashboard and error pages served for unknown hosts and paths
+  await writeGatewayHtmlFiles(routes)
+
   const services: ConfigureServiceResult[] = []
   const serverConfigs: NginxConfigOptions[] = []
   for (const route of routes) {
@@ -83,10 +138,13 @@ export async function configureGateway(): Promise<ConfigureGatewayResult> {
       serviceName: route.serviceName,
       domain: route.domain,
       cnames: route.cnames,
+      path: route.path,
+      stripPrefix: route.stripPrefix,
       port: route.port,
       certStatus: route.certStatus,
       certDir: route.certDir,
       certMessage: route.certMessage,
+      conflicts: route.conflicts,
       configStatus: 'written',
     })
 
@@ -98,14 +156,16 @@ export async function configureGateway(): Promise<ConfigureGatewayResult> {
       port: route.port,
       domain: route.domain,
       cnames: route.cnames,
+      path: route.path,
+      stripPrefix: route.stripPrefix,
       sslCertPath: route.sslCertPath,
       sslKeyPath: route.sslKeyPath,
       logPath: getServiceStableLogPath(route.projectId, route.serviceName),
     })
   }
 
-  // Write every server block into the single combined denvig nginx config.
-  const writeResult = await writeDenvigNginxConfig(serverConfigs)
+  // Write every service into the handler's single combined denvig config.
+  const writeResult = await handler.write(serverConfigs)
   if (!writeResult.success) {
     for (const result of services) {
       result.configStatus = 'error'
@@ -113,8 +173,9 @@ export async function configureGateway(): Promise<ConfigureGatewayResult> {
     }
   }
 
-  // Reload nginx
-  const reloadResult = await reloadNginx()
+  const reloadResult = handler.reload
+    ? await handler.reload(globalConfig.gateway)
+    : null
 
   const hasErrors = services.some(
     (r) => r.configStatus === 'error' || r.certStatus === 'missing',
@@ -122,12 +183,62 @@ export async function configureGateway(): Promise<ConfigureGatewayResult> {
 
   return {
     success: !hasErrors,
-    removed: removeResult.removed,
+    handler: handlerName,
+    removed,
     services,
-    nginxReload: reloadResult.success,
-    nginxReloadMessage: reloadResult.message,
+    reload: reloadResult,
+    nginxReload: handlerName === 'nginx' && !!reloadResult?.success,
+    nginxReloadMessage:
+      handlerName === 'nginx' ? reloadResult?.message : undefined,
     message: hasErrors
       ? 'Some services have errors or missing certificates'
       : 'Gateway configured successfully',
   }
 }
+
+/**
+ * Make sure the builtin gateway is running. It reads the routes from
+ * `~/.denvig/state.json` itself and reloads whenever the file changes, so
+ * there are no configs to write.
+ */
+async function configureBuiltinGateway(): Promise<ConfigureGatewayResult> {
+  const routes = await resolveGatewayServices()
+  await writeGatewayHtmlFiles(routes)
+  const services: ConfigureServiceResult[] = routes.map((route) => ({
+    projectSlug: route.projectSlug,
+    serviceName: route.serviceName,
+    domain: route.domain,
+    cnames: route.cnames,
+    path: route.path,
+    stripPrefix: route.stripPrefix,
+    port: route.port,
+    certStatus: route.certStatus,
+    certDir: route.certDir,
+    certMessage: route.certMessage,
+    conflicts: route.conflicts,
+    configStatus: 'written',
+  }))
+
+  const gateway = await ensureBuiltinGatewayRunning()
+  const hasErrors =
+    !gateway.success || services.some((r) => r.certStatus === 'missing')
+
+  return {
+    success: !hasErrors,
+    handler: 'builtin',
+    removed: [],
+    services,
+    reload: null,
+    nginxReload: false,
+    builtin: {
+      running: gateway.success,
+      pid: gateway.pid,
+      message: gateway.message,
+    },
+    message: !gateway.success
+      ? gateway.message
+      : hasErrors
+        ? 'Some services have missing certificates'
+        : 'Gateway configured successfully',
+  }
+}
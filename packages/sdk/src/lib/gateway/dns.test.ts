@@ -0,0 +1,340 @@
+import assert from 'node:assert'
+import dgram from 'node:dgram'
+import systemDns, { promises as dns } from 'node:dns'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { connect, createServer, type Server } from 'node:net'
+import { tmpdir } from 'node:os'
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test'
+
+import {
+  isLocalDnsName,
+  parseDnsQuery,
+  parseUpstream,
+  startDnsServer,
+  syncHostsFile,
+  systemUpstream,
+  updateHostsBlock,
+} from './dns.ts'
+
+import type { DnsServer } from './dns.ts'
+
+/** Build a query for `name` with the given record type. */
+const buildQuery = (name: string, type = 1, id = 0x1234): Buffer => {
+  const labels = name.split('.').map((label) => {
+    const bytes = Buffer.from(label, 'latin1')
+    return Buffer.concat([Buffer.from([bytes.length]), bytes])
+  })
+  const header = Buffer.alloc(12)
+  header.writeUInt16BE(id, 0)
+  // Recursion desired, one question.
+  header.writeUInt16BE(0x0100, 2)
+  header.writeUInt16BE(1, 4)
+  const tail = Buffer.from([0, type >> 8, type & 0xff, 0, 1])
+  return Buffer.concat([header, ...labels, tail])
+}
+
+const resolverFor = (port: number): dns.Resolver => {
+  const resolver = new dns.Resolver({ timeout: 1000, tries: 1 })
+  resolver.setServers([`127.0.0.1:${port}`])
+  return resolver
+}
+
+describe('parseDnsQuery()', () => {
+  it('parses the question name, type and class', () => {
+    const query = parseDnsQuery(buildQuery('API.denvig.localhost', 28))
+    assert.strictEqual(query?.id, 0x1234)
+    assert.strictEqual(query?.name, 'api.denvig.localhost')
+    assert.strictEqual(query?.type, 28)
+    assert.strictEqual(query?.class, 1)
+  })
+
+  it('rejects truncated messages and responses', () => {
+    assert.strictEqual(parseDnsQuery(Buffer.alloc(4)), null)
+    assert.strictEqual(
+      parseDnsQuery(buildQuery('a.localhost').subarray(0, 16)),
+      null,
+    )
+    const response = buildQuery('a.localhost')
+    response[2] |= 0x80
+    assert.strictEqual(parseDnsQuery(response), null)
+  })
+})
+
+describe('isLocalDnsName()', () => {
+  const domains = new Set(['api.example.com'])
+
+  it('matches routed domains and the suffix', () => {
+    assert.ok(isLocalDnsName('api.example.com.', domains, 'localhost'))
+    assert.ok(isLocalDnsName('localhost', domains, 'localhost'))
+    assert.ok(isLocalDnsName('a.b.localhost', domains, '.localhost'))
+    assert.ok(!isLocalDnsName('web.example.com', domains, 'localhost'))
+    assert.ok(!isLocalDnsName('notlocalhost', domains, 'localhost'))
+  })
+
+  it('only matches routed domains without a suffix', () => {
+    assert.ok(!isLocalDnsName('a.localhost', domains, ''))
+    assert.ok(isLocalDnsName('api.example.com', domains))
+  })
+})
+
+describe('parseUpstream()', () => {
+  it('splits hosts and ports', () => {
+    assert.deepStrictEqual(parseUpstream('1.1.1.1'), {
+      host: '1.1.1.1',
+      port: 53,
+    })
+    assert.deepStrictEqual(parseUpstream('127.0.0.1:5300'), {
+      host: '127.0.0.1',
+      port: 5300,
+    })
+    assert.deepStrictEqual(parseUpstream('[::1]:5300'), {
+      host: '::1',
+      port: 5300,
+    })
+    assert.deepStrictEqual(parseUpstream('2606:4700::1111'), {
+      host: '2606:4700::1111',
+      port: 53,
+    })
+  })
+})
+
+describe('systemUpstream()', () => {
+  let servers: string[] = []
+
+  beforeEach(() => {
+    servers = systemDns.getServers()
+  })
+
+  afterEach(() => {
+    systemDns.setServers(servers)
+  })
+
+  it('picks the first system resolver that is not the server itself', () => {
+    systemDns.setServers(['127.0.0.1:15353', '192.0.2.1'])
+    assert.strictEqual(
+      systemUpstream({ host: '127.0.0.1', port: 15353 }),
+      '192.0.2.1',
+    )
+    assert.strictEqual(
+      systemUpstream({ host: '127.0.0.1', port: 5300 }),
+      '127.0.0.1:15353',
+    )
+  })
+
+  it('returns null without a system resolver', () => {
+    systemDns.setServers([])
+    assert.strictEqual(systemUpstream({ host: '127.0.0.1', port: 15353 }), null)
+  })
+})
+
+describe('startDnsServer()', () => {
+  let upstream: dgram.Socket
+  let upstreamTcp: Server
+  let upstreamPort = 0
+  let server: DnsServer | null = null
+  let domains: string[] = []
+
+  /** A reply to `message` with a single A record for `address`. */
+  const answer = (message: Buffer, address: number[]): Buffer => {
+    const reply = Buffer.concat([
+      message,
+      Buffer.from([0xc0, 0x0c, 0, 1, 0, 1, 0, 0, 0, 60, 0, 4, ...address]),
+    ])
+    reply.writeUInt16BE(0x8180, 2)
+    reply.writeUInt16BE(1, 6)
+    return reply
+  }
+
+  /** Send a length-prefixed query for `name` over TCP and read the reply. */
+  const queryOverTcp = async (name: string): Promise<Buffer> => {
+    const query = buildQuery(name)
+    const prefix = Buffer.alloc(2)
+    prefix.writeUInt16BE(query.length)
+
+    const socket = connect(server?.ports.tcp ?? 0, '127.0.0.1')
+    const reply = await new Promise<Buffer>((resolve, reject) => {
+      let data = Buffer.alloc(0)
+      socket.on('data', (chunk: Buffer) => {
+        data = Buffer.concat([data, chunk])
+        if (data.length >= 2 && data.length >= 2 + data.readUInt16BE(0)) {
+          resolve(data.subarray(2))
+        }
+      })
+      socket.on('error', reject)
+      socket.write(Buffer.concat([prefix, query]))
+    })
+    socket.destroy()
+    return reply
+  }
+
+  before(async () => {
+    // Answers every A query with 10.0.0.1 over UDP and 10.0.0.2 over TCP.
+    upstream = dgram.createSocket('udp4')
+    upstream.on('message', (message, remote) => {
+      upstream.send(answer(message, [10, 0, 0, 1]), remote.port, remote.address)
+    })
+    await new Promise<void>((resolve) =>
+      upstream.bind(0, '127.0.0.1', () => resolve()),
+    )
+    upstreamPort = upstream.address().port
+
+    upstreamTcp = createServer((socket) => {
+      socket.once('data', (chunk: Buffer) => {
+        const reply = answer(chunk.subarray(2), [10, 0, 0, 2])
+        const prefix = Buffer.alloc(2)
+        prefix.writeUInt16BE(reply.length)
+        socket.end(Buffer.concat([prefix, reply]))
+      })
+    })
+    await new Promise<void>((resolve) =>
+      upstreamTcp.listen(upstreamPort, '127.0.0.1', () => resolve()),
+    )
+  })
+
+  after(() => {
+    upstream.close()
+    upstreamTcp.close()
+  })
+
+  beforeEach(async () => {
+    domains = ['api.example.com']
+    server = await startDnsServer({
+      port: 0,
+      suffix: 'localhost',
+      upstream: `127.0.0.1:${upstreamPort}`,
+      loadDomains: async () => domains,
+      watchPath: null,
+    })
+  })
+
+  afterEach(async () => {
+    await server?.close()
+    server = null
+  })
+
+  it('answers routed domains and the suffix with loopback', async () => {
+    const resolver = resolverFor(server?.ports.udp ?? 0)
+    assert.deepStrictEqual(await resolver.resolve4('api.example.com'), [
+      '127.0.0.1',
+    ])
+    assert.deepStrictEqual(await resolver.resolve4('web.denvig.localhost'), [
+      '127.0.0.1',
+    ])
+    assert.deepStrictEqual(await resolver.resolve6('web.denvig.localhost'), [
+      '::1',
+    ])
+  })
+
+  it('forwards other queries upstream', async () => {
+    const resolver = resolverFor(server?.ports.udp ?? 0)
+    assert.deepStrictEqual(await resolver.resolve4('example.org'), ['10.0.0.1'])
+  })
+
+  it('picks up new domains on reload', async () => {
+    const resolver = resolverFor(server?.ports.udp ?? 0)
+    assert.deepStrictEqual(await resolver.resolve4('new.example.com'), [
+      '10.0.0.1',
+    ])
+
+    domains = [...domains, 'new.example.com']
+    await server?.reload()
+    assert.deepStrictEqual(await resolver.resolve4('new.example.com'), [
+      '127.0.0.1',
+    ])
+  })
+
+  it('answers length-prefixed queries over TCP', async () => {
+    assert.strictEqual(server?.ports.tcp, server?.ports.udp)
+    const reply = await queryOverTcp('api.example.com')
+
+    assert.strictEqual(reply.readUInt16BE(0), 0x1234)
+    assert.strictEqual(reply.readUInt16BE(6), 1)
+    assert.deepStrictEqual([...reply.subarray(-4)], [127, 0, 0, 1])
+  })
+
+  it('forwards to the system resolver without an upstream', async () => {
+    const servers = systemDns.getServers()
+    systemDns.setServers([`127.0.0.1:${upstreamPort}`])
+    const system = await startDnsServer({
+      port: 0,
+      loadDomains: async () => [],
+      watchPath: null,
+    }).finally(() => systemDns.setServers(servers))
+    try {
+      assert.strictEqual(system.upstream, `127.0.0.1:${upstreamPort}`)
+      const resolver = resolverFor(system.ports.udp)
+      assert.deepStrictEqual(await resolver.resolve4('example.org'), [
+        '10.0.0.1',
+      ])
+    } finally {
+      await system.close()
+    }
+  })
+
+  it('forwards TCP queries upstream over TCP', async () => {
+    const reply = await queryOverTcp('example.org')
+
+    assert.strictEqual(reply.readUInt16BE(0), 0x1234)
+    assert.strictEqual(reply.readUInt16BE(6), 1)
+    assert.deepStrictEqual([...reply.subarray(-4)], [10, 0, 0, 2])
+  })
+})
+
+describe('updateHostsBlock()', () => {
+  it('appends a block after the existing entries', () => {
+    const updated = updateHostsBlock('127.0.0.1 localhost\n', ['a.test'])
+    assert.strictEqual(
+      updated,
+      [
+        '127.0.0.1 localhost',
+        '',
+        '# BEGIN denvig gateway',
+        '# Managed by denvig — do not edit manually',
+        '127.0.0.1 a.test',
+        '::1 a.test',
+        '# END denvig gateway',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('replaces an existing block and keeps the surrounding lines', () => {
+    const first = updateHostsBlock('127.0.0.1 localhost\n', ['a.test'])
+    const updated = updateHostsBlock(`${first}10.0.0.1 other\n`, ['b.test'])
+    assert.ok(updated.startsWith('127.0.0.1 localhost\n'))
+    assert.ok(updated.includes('10.0.0.1 other'))
+    assert.ok(updated.includes('127.0.0.1 b.test'))
+    assert.ok(!updated.includes('a.test'))
+    assert.strictEqual(updateHostsBlock(updated, ['b.test']), updated)
+  })
+
+  it('removes the block when there are no domains', () => {
+    const original = '127.0.0.1 localhost\n'
+    const synced = updateHostsBlock(original, ['a.test'])
+    assert.strictEqual(updateHostsBlock(synced, []), original)
+  })
+})
+
+describe('syncHostsFile()', () => {
+  let dir = ''
+
+  before(() => {
+    dir = mkdtempSync(`${tmpdir()}/denvig-dns-`)
+  })
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('only writes the file when the block changes', async () => {
+    const path = `${dir}/hosts`
+    writeFileSync(path, '127.0.0.1 localhost\n')
+
+    const first = await syncHostsFile(path, ['a.test'])
+    assert.deepStrictEqual(first, { success: true, changed: true })
+    assert.ok(readFileSync(path, 'utf-8').includes('::1 a.test'))
+
+    const second = await syncHostsFile(path, ['a.test'])
+    assert.deepStrictEqual(second, { success: true, changed: false })
+  })
+})
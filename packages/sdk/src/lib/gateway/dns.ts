@@ -0,0 +1,527 @@
+import dgram from 'node:dgram'
+import dns from 'node:dns'
+import { readFile, writeFile } from 'node:fs/promises'
+import net from 'node:net'
+
+import {
+  parseGatewayRouteKey,
+  readState,
+  stateFilePath,
+} from '../services/state.ts'
+import {
+  ensureGatewayProcessRunning,
+  type GatewayProcessPidStatus,
+  getGatewayProcessStatus,
+} from './process.ts'
+import { watchForReload } from './watch.ts'
+
+export type DnsServerOptions = {
+  /** Port for both UDP and TCP. `0` picks a free port. */
+  port: number
+  /** Address to bind. Defaults to `127.0.0.1`. */
+  host?: string
+  /**
+   * Answer for this domain and every subdomain of it, besides the routed
+   * domains. Empty to only answer for routed domains.
+   */
+  suffix?: string
+  /**
+   * Resolver that other queries are forwarded to, as `host` or `host:port`.
+   * Defaults to the system resolver (see `systemUpstream()`).
+   */
+  upstream?: string
+  /** Load the routed domains. Defaults to `loadGatewayDomains()`. */
+  loadDomains?: () => Promise<string[]>
+  /**
+   * File whose changes trigger a reload. Defaults to `~/.denvig/state.json`;
+   * pass `null` to only reload on `reload()`.
+   */
+  watchPath?: string | null
+  /** Sink for reload and forwarding error messages. */
+  onLog?: (message: string) => void
+}
+
+export type DnsServer = {
+  /** Ports actually bound, which differ from the options when `0` is used. */
+  ports: { udp: number; tcp: number }
+  /** Resolver other queries are forwarded to; null when there is none. */
+  upstream: string | null
+  /** The routed domains currently answered for. */
+  domains: () => string[]
+  /** Re-read the routed domains. */
+  reload: () => Promise<void>
+  close: () => Promise<void>
+}
+
+/** Short TTL so route changes are seen quickly. */
+const ANSWER_TTL = 5
+
+/** How long to wait for the upstream resolver. */
+const UPSTREAM_TIMEOUT_MS = 2000
+
+const TYPE_A = 1
+const TYPE_AAAA = 28
+const CLASS_IN = 1
+
+const RCODE_FORMERR = 1
+const RCODE_SERVFAIL = 2
+
+/** A parsed DNS query: the header fields a response needs and one question. */
+export type DnsQuery = {
+  id: number
+  flags: number
+  name: string
+  type: number
+  class: number
+  /** The raw question section, echoed back in responses. */
+  question: Buffer
+}
+
+/**
+ * Parse the first question of a DNS query, or return null when the message is
+ * not a well-formed query.
+ */
+export const parseDnsQuery = (message: Buffer): DnsQuery | null => {
+  if (message.length < 12) return null
+  const flags = message.readUInt16BE(2)
+  // Responses (QR set) and queries without a question are ignored.
+  if (flags & 0x8000 || message.readUInt16BE(4) < 1) return null
+
+  const labels: string[] = []
+  let offset = 12
+  while (offset < message.length) {
+    const length = message[offset]
+    offset += 1
+    if (length === 0) break
+    // Queries never use compression pointers for the question name.
+    if (length > 63 || offset + length > message.length) return null
+    labels.push(message.toString('latin1', offset, offset + length))
+    offset += length
+  }
+  if (offset + 4 > message.length) return null
+
+  return {
+    id: message.readUInt16BE(0),
+    flags,
+    name: labels.join('.').toLowerCase(),
+    type: message.readUInt16BE(offset),
+    class: message.readUInt16BE(offset + 2),
+    question: message.subarray(12, offset + 4),
+  }
+}
+
+const buildResponse = (
+  query: DnsQuery,
+  rcode: number,
+  answers: Buffer[] = [],
+): Buffer => {
+  const header = Buffer.alloc(12)
+  header.writeUInt16BE(query.id, 0)
+  // QR + the query's opcode and RD, plus AA (local answers) and RA.
+  const opcodeAndRd = query.flags & 0x7900
+  const authoritative = rcode === 0 ? 0x0400 : 0
+  header.writeUInt16BE(0x8000 | opcodeAndRd | authoritative | 0x0080 | rcode, 2)
+  header.writeUInt16BE(query.question.length > 0 ? 1 : 0, 4)
+  header.writeUInt16BE(answers.length, 6)
+  return Buffer.concat([header, query.question, ...answers])
+}
+
+const buildAnswer = (type: number, address: Buffer): Buffer => {
+  const answer = Buffer.alloc(12 + address.length)
+  // Pointer to the question name at offset 12.
+  answer.writeUInt16BE(0xc00c, 0)
+  answer.writeUInt16BE(type, 2)
+  answer.writeUInt16BE(CLASS_IN, 4)
+  answer.writeUInt32BE(ANSWER_TTL, 6)
+  answer.writeUInt16BE(address.length, 10)
+  address.copy(answer, 12)
+  return answer
+}
+
+const LOOPBACK_V4 = Buffer.from([127, 0, 0, 1])
+const LOOPBACK_V6 = Buffer.from([
+  0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1,
+])
+
+/**
+ * Whether the server answers for `name` itself: a routed domain, the suffix
+ * or any subdomain of the suffix.
+ */
+export const isLocalDnsName = (
+  name: string,
+  domains: ReadonlySet<string>,
+  suffix = '',
+): boolean => {
+  const normalized = name.toLowerCase().replace(/\.$/, '')
+  if (domains.has(normalized)) return true
+  const base = suffix.toLowerCase().replace(/^\.|\.$/g, '')
+  return base !== '' && (normalized === base || normalized.endsWith(`.${base}`))
+}
+
+/**
+ * Answer a query for a local name: loopback addresses for A and AAAA, and an
+ * empty answer for every other type.
+ */
+export const buildLocalDnsResponse = (query: DnsQuery): Buffer => {
+  if (query.class !== CLASS_IN) return buildResponse(query, 0)
+  if (query.type === TYPE_A) {
+    return buildResponse(query, 0, [buildAnswer(TYPE_A, LOOPBACK_V4)])
+  }
+  if (query.type === TYPE_AAAA) {
+    return buildResponse(query, 0, [buildAnswer(TYPE_AAAA, LOOPBACK_V6)])
+  }
+  return buildResponse(query, 0)
+}
+
+/** Split `host`, `host:port` or `[v6]:port` into its parts. */
+export const parseUpstream = (
+  upstream: string,
+): { host: string; port: number } => {
+  const bracketed = upstream.match(/^\[(.+)\](?::(\d+))?$/)
+  if (bracketed) {
+    return { host: bracketed[1], port: Number(bracketed[2] ?? 53) }
+  }
+  const parts = upstream.split(':')
+  if (parts.length === 2) {
+    return { host: parts[0], port: Number(parts[1]) }
+  }
+  return { host: upstream, port: 53 }
+}
+
+const forwardQueryOverUdp = (
+  message: Buffer,
+  upstream: { host: string; port: number },
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const socket = dgram.createSocket(
+      net.isIPv6(upstream.host) ? 'udp6' : 'udp4',
+    )
+    const timer = setTimeout(() => {
+      socket.close()
+      reject(new Error(`No response from ${upstream.host}:${upstream.port}`))
+    }, UPSTREAM_TIMEOUT_MS)
+    socket.on('message', (reply) => {
+      if (reply.length < 2 || reply.readUInt16BE(0) !== message.readUInt16BE(0))
+        return
+      clearTimeout(timer)
+      socket.close()
+      resolve(reply)
+    })
+    socket.on('error', (error) => {
+      clearTimeout(timer)
+      socket.close()
+      reject(error)
+    })
+    socket.send(message, upstream.port, upstream.host)
+  })
+
+/**
+ * Forward a query over TCP, for queries that arrived over TCP: clients retry
+ * over TCP when a UDP reply was truncated, so the upstream reply must not be
+ * limited to a UDP datagram.
+ */
+const forwardQueryOverTcp = (
+  message: Buffer,
+  upstream: { host: string; port: number },
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const socket = net.connect(upstream.port, upstream.host)
+    const timer = setTimeout(() => {
+      socket.destroy()
+      reject(new Error(`No response from ${upstream.host}:${upstream.port}`))
+    }, UPSTREAM_TIMEOUT_MS)
+    let buffered = Buffer.alloc(0)
+    socket.on('connect', () => {
+      const prefix = Buffer.alloc(2)
+      prefix.writeUInt16BE(message.length)
+      socket.write(Buffer.concat([prefix, message]))
+    })
+    socket.on('data', (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk])
+      if (buffered.length < 2) return
+      const length = buffered.readUInt16BE(0)
+      if (buffered.length < 2 + length) return
+      clearTimeout(timer)
+      socket.destroy()
+      resolve(buffered.subarray(2, 2 + length))
+    })
+    socket.on('error', (error) => {
+      clearTimeout(timer)
+      socket.destroy()
+      reject(error)
+    })
+    socket.on('close', () => {
+      clearTimeout(timer)
+      reject(
+        new Error(`Connection to ${upstream.host}:${upstream.port} closed`),
+      )
+    })
+  })
+
+/**
+ * The domains recorded in `~/.denvig/state.json` for running gateway routes.
+ */
+export const loadGatewayDomains = async (): Promise<string[]> => {
+  const state = await readState()
+  const domains = Object.entries(state.gatewayRoutes)
+    .filter(([, route]) => route.desiredStatus === 'running')
+    .map(([key]) => parseGatewayRouteKey(key).domain.toLowerCase())
+  return [...new Set(domains)].sort()
+}
+
+/**
+ * The system's first resolver (as listed in `/etc/resolv.conf`), skipping one
+ * that points back at the DNS server itself. Null when there is none.
+ */
+export const systemUpstream = (self: {
+  host: string
+  port: number
+}): string | null =>
+  dns.getServers().find((server) => {
+    const { host, port } = parseUpstream(server)
+    return host !== self.host || port !== self.port
+  }) ?? null
+
+/**
+ * Start a DNS server on UDP and TCP. Queries for routed domains and the
+ * wildcard suffix are answered with loopback addresses; everything else is
+ * forwarded to the upstream resolver over the transport it arrived on, or
+ * answered with SERVFAIL when there is no upstream.
+ */
+export const startDnsServer = async (
+  options: DnsServerOptions,
+): Promise<DnsServer> => {
+  const host = options.host ?? '127.0.0.1'
+  const loadDomains = options.loadDomains ?? loadGatewayDomains
+  const log = options.onLog ?? (() => {})
+  const upstreamAddress =
+    options.upstream ?? systemUpstream({ host, port: options.port })
+  const upstream = upstreamAddress ? parseUpstream(upstreamAddress) : null
+
+  let domains = await loadDomains()
+  let domainSet = new Set(domains)
+
+  const respond = async (
+    message: Buffer,
+    transport: 'udp' | 'tcp',
+  ): Promise<Buffer | null> => {
+    const query = parseDnsQuery(message)
+    if (!query) {
+      if (message.length < 12) return null
+      return buildResponse(
+        {
+          id: message.readUInt16BE(0),
+          flags: message.readUInt16BE(2),
+          name: '',
+          type: 0,
+          class: 0,
+          question: Buffer.alloc(0),
+        },
+        RCODE_FORMERR,
+      )
+    }
+    if (isLocalDnsName(query.name, domainSet, options.suffix)) {
+      return buildLocalDnsResponse(query)
+    }
+    if (!upstream) {
+      log(`Failed to resolve ${query.name}: no upstream resolver`)
+      return buildResponse(query, RCODE_SERVFAIL)
+    }
+    try {
+      return await (transport === 'tcp'
+        ? forwardQueryOverTcp(message, upstream)
+        : forwardQueryOverUdp(message, upstream))
+    } catch (error) {
+      log(
+        `Failed to resolve ${query.name}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+      return buildResponse(query, RCODE_SERVFAIL)
+    }
+  }
+
+  const udpServer = dgram.createSocket(net.isIPv6(host) ? 'udp6' : 'udp4')
+  udpServer.on('message', (message, remote) => {
+    void respond(message, 'udp').then((reply) => {
+      if (reply) udpServer.send(reply, remote.port, remote.address)
+    })
+  })
+
+  // TCP messages are prefixed with their two-byte length.
+  const connections = new Set<net.Socket>()
+  const tcpServer = net.createServer((socket) => {
+    connections.add(socket)
+    socket.on('close', () => connections.delete(socket))
+    socket.on('error', () => socket.destroy())
+    let buffered = Buffer.alloc(0)
+    socket.on('data', (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk])
+      while (buffered.length >= 2) {
+        const length = buffered.readUInt16BE(0)
+        if (buffered.length < 2 + length) break
+        const message = buffered.subarray(2, 2 + length)
+        buffered = buffered.subarray(2 + length)
+        void respond(message, 'tcp').then((reply) => {
+          if (!reply || socket.destroyed) return
+          const prefix = Buffer.alloc(2)
+          prefix.writeUInt16BE(reply.length)
+          socket.write(Buffer.concat([prefix, reply]))
+        })
+      }
+    })
+  })
+
+  const closeUdp = () =>
+    new Promise<void>((resolveClose) => {
+      try {
+        udpServer.close(() => resolveClose())
+      } catch {
+        resolveClose()
+      }
+    })
+  const closeTcp = () =>
+    new Promise<void>((resolveClose) => {
+      for (const socket of connections) socket.destroy()
+      if (!tcpServer.listening) return resolveClose()
+      tcpServer.close(() => resolveClose())
+    })
+
+  let ports: DnsServer['ports']
+  try {
+    const udp = await new Promise<number>((resolveBind, rejectBind) => {
+      udpServer.once('error', rejectBind)
+      udpServer.bind(options.port, host, () => {
+        udpServer.off('error', rejectBind)
+        resolveBind(udpServer.address().port)
+      })
+    })
+    // Share the UDP port, so a `0` port still serves both on one number.
+    const tcp = await new Promise<number>((resolveListen, rejectListen) => {
+      tcpServer.once('error', rejectListen)
+      tcpServer.listen(udp, host, () => {
+        tcpServer.off('error', rejectListen)
+        resolveListen((tcpServer.address() as net.AddressInfo).port)
+      })
+    })
+    ports = { udp, tcp }
+  } catch (error) {
+    await Promise.all([closeUdp(), closeTcp()])
+    throw error
+  }
+  udpServer.on('error', (error) => log(`DNS server error: ${error.message}`))
+
+  const reload = async () => {
+    try {
+      domains = await loadDomains()
+      domainSet = new Set(domains)
+      log(
+        `Loaded ${domains.length} gateway domain${domains.length === 1 ? '' : 's'}`,
+      )
+    } catch (error) {
+      log(
+        `Failed to reload domains: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  const watchPath =
+    options.watchPath === undefined ? stateFilePath() : options.watchPath
+  const stopWatching = watchPath
+    ? await watchForReload(watchPath, () => void reload())
+    : null
+
+  return {
+    ports,
+    upstream: upstreamAddress,
+    domains: () => domains,
+    reload,
+    close: async () => {
+      stopWatching?.()
+      await Promise.all([closeUdp(), closeTcp()])
+    },
+  }
+}
+
+/** The DNS server process state, from its pid file. */
+export const getDnsServerProcessStatus = (): Promise<GatewayProcessPidStatus> =>
+  getGatewayProcessStatus('dns')
+
+/**
+ * Make sure the DNS server is running, starting `denvig gateway dns serve` in
+ * the background when it isn't.
+ */
+export const ensureDnsServerRunning = () =>
+  ensureGatewayProcessRunning('dns', ['gateway', 'dns', 'serve'], 'DNS server')
+
+const HOSTS_BLOCK_START = '# BEGIN denvig gateway'
+const HOSTS_BLOCK_END = '# END denvig gateway'
+
+/**
+ * Replace the denvig-managed block in a hosts file with one mapping every
+ * domain to loopback. The block is removed when there are no domains, and
+ * everything outside it is left untouched.
+ */
+export const updateHostsBlock = (
+  content: string,
+  domains: string[],
+): string => {
+  const lines = content.split('\n')
+  const start = lines.indexOf(HOSTS_BLOCK_START)
+  const end = lines.indexOf(HOSTS_BLOCK_END, start)
+  const outside =
+    start !== -1 && end !== -1
+      ? [...lines.slice(0, start), ...lines.slice(end + 1)]
+      : lines
+  const kept = outside.join('\n').replace(/\n+$/, '')
+
+  if (domains.length === 0) {
+    return kept === '' ? '' : `${kept}\n`
+  }
+  const block = [
+    HOSTS_BLOCK_START,
+    '# Managed by denvig — do not edit manually',
+    ...domains.flatMap((domain) => [`127.0.0.1 ${domain}`, `::1 ${domain}`]),
+    HOSTS_BLOCK_END,
+  ].join('\n')
+  return kept === '' ? `${block}\n` : `${kept}\n\n${block}\n`
+}
+
+/** Read a hosts file untrimmed, or `''` when it doesn't exist. */
+export const readHostsFile = (path: string): Promise<string> =>
+  readFile(path, 'utf-8').catch((error) => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return ''
+    throw error
+  })
+
+/**
+ * Write the denvig-managed block of a hosts file, only touching the file when
+ * the block changes.
+ */
+export async function syncHostsFile(
+  path: string,
+  domains: string[],
+): Promise<{ success: boolean; changed: boolean; message?: string }> {
+  try {
+    const content = await readHostsFile(path)
+    const updated = updateHostsBlock(content, domains)
+    if (updated === content) {
+      return { success: true, changed: false }
+    }
+    await writeFile(path, updated, 'utf-8')
+    return { success: true, changed: true }
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code
+    if (code === 'EACCES' || code === 'EPERM') {
+      return {
+        success: false,
+        changed: false,
+        message: `Permission denied writing ${path}; re-run with sudo`,
+      }
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      success: false,
+      changed: false,
+      message: `Failed to update ${path}: ${message}`,
+    }
+  }
+}
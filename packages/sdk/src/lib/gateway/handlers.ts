@@ -0,0 +1,81 @@
+import {
+  getDenvigCaddyfilePath,
+  reloadCaddy,
+  writeDenvigCaddyfile,
+} from './caddy.ts'
+import {
+  getDenvigNginxConfPath,
+  type NginxConfigOptions,
+  reloadNginx,
+  writeDenvigNginxConfig,
+} from './nginx.ts'
+import {
+  getDenvigTraefikConfigPath,
+  writeDenvigTraefikConfig,
+} from './traefik.ts'
+
+import type { GlobalConfigSchema } from '../../schemas/config.ts'
+
+export type GatewayConfig = GlobalConfigSchema['gateway']
+
+/** Handlers that serve routes from a config file generated by denvig. */
+export type ConfigFileGatewayHandlerName = Exclude<
+  GatewayConfig['handler'],
+  'builtin'
+>
+
+/**
+ * A proxy driven by one generated config file holding every service. Each
+ * service is tagged with `denvig-{projectId}--{serviceName}` in the file so
+ * `gateway status` can tell whether it is configured.
+ */
+export type ConfigFileGatewayHandler = {
+  /** Display name, e.g. `Nginx`. */
+  label: string
+  /** Homebrew formula whose service runs the proxy. */
+  formula: string
+  /** Path of the generated config. */
+  configPath: () => string
+  write: (
+    services: NginxConfigOptions[],
+  ) => Promise<{ success: boolean; message?: string }>
+  /**
+   * Make the proxy load the new config. Omitted for proxies that watch the
+   * file themselves.
+   */
+  reload?: (
+    config: GatewayConfig,
+  ) => Promise<{ success: boolean; message?: string }>
+}
+
+export const CONFIG_FILE_GATEWAY_HANDLERS: Record<
+  ConfigFileGatewayHandlerName,
+  ConfigFileGatewayHandler
+> = {
+  nginx: {
+    label: 'Nginx',
+    formula: 'nginx',
+    configPath: getDenvigNginxConfPath,
+    write: writeDenvigNginxConfig,
+    reload: () => reloadNginx(),
+  },
+  caddy: {
+    label: 'Caddy',
+    formula: 'caddy',
+    configPath: getDenvigCaddyfilePath,
+    write: writeDenvigCaddyfile,
+    reload: (config) => reloadCaddy(config.caddyfile),
+  },
+  traefik: {
+    label: 'Traefik',
+    formula: 'traefik',
+    configPath: getDenvigTraefikConfigPath,
+    write: writeDenvigTraefikConfig,
+  },
+}
+
+/** The tag identifying a service inside a generated gateway config. */
+export const gatewayServiceTag = (
+  projectId: string,
+  serviceName: string,
+): string => `denvig-${projectId}--${serviceName}`
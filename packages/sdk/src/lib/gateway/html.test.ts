@@ -0,0 +1,112 @@
+import assert from 'node:assert'
+import { describe, it } from 'node:test'
+
+import {
+  generateGateway404Html,
+  generateGatewayIndexHtml,
+  suggestGatewayDomains,
+} from './html.ts'
+
+import type { GatewayServiceRoute } from './routes.ts'
+
+const service = (
+  overrides: Partial<GatewayServiceRoute> = {},
+): GatewayServiceRoute => ({
+  projectId: 'abc123',
+  projectSlug: 'github:owner/app',
+  projectPath: '/tmp/app',
+  serviceName: 'api',
+  port: 3000,
+  secure: false,
+  domain: 'api.denvig.localhost',
+  cnames: [],
+  path: '/',
+  stripPrefix: false,
+  conflicts: [],
+  certStatus: 'not_configured',
+  ...overrides,
+})
+
+describe('generateGatewayIndexHtml()', () => {
+  it('explains how to add routes when there are none', () => {
+    const html = generateGatewayIndexHtml([])
+    assert.match(html, /Configure services with <code>http.domain<\/code>/)
+    assert.doesNotMatch(html, /<table>/)
+  })
+
+  it('lists every route with its links, port and cert status', () => {
+    const html = generateGatewayIndexHtml(
+      [
+        service({ cnames: ['api-alt.denvig.localhost'] }),
+        service({
+          serviceName: 'web',
+          port: 3001,
+          secure: true,
+          domain: 'app.denvig.localhost',
+          path: '/admin',
+          certStatus: 'valid',
+        }),
+      ],
+      new Date('2026-10-19T10:00:00.000Z'),
+    )
+    assert.match(html, /github:owner\/app\/<\/span>api/)
+    assert.match(html, /href="http:\/\/api-alt.denvig.localhost"/)
+    assert.match(html, /href="https:\/\/app.denvig.localhost\/admin"/)
+    assert.match(html, /<td>3001<\/td>/)
+    assert.match(html, /✓ valid/)
+    assert.match(html, /2 running routes · updated 2026-10-19T10:00:00.000Z/)
+  })
+
+  it('escapes project slugs', () => {
+    const html = generateGatewayIndexHtml([
+      service({ projectSlug: 'local:/tmp/<app>' }),
+    ])
+    assert.match(html, /local:\/tmp\/&lt;app&gt;\//)
+  })
+})
+
+describe('suggestGatewayDomains()', () => {
+  const domains = [
+    'api.denvig.localhost',
+    'app.denvig.localhost',
+    'web.other.localhost',
+  ]
+
+  it('suggests domains within a small edit distance', () => {
+    assert.deepStrictEqual(
+      suggestGatewayDomains('apo.denvig.localhost:8080', domains),
+      ['api.denvig.localhost', 'app.denvig.localhost'],
+    )
+    assert.deepStrictEqual(
+      suggestGatewayDomains('zzz.example.com', domains),
+      [],
+    )
+  })
+
+  it('suggests domains sharing the first label', () => {
+    assert.deepStrictEqual(suggestGatewayDomains('web.localhost', domains), [
+      'web.other.localhost',
+    ])
+  })
+
+  it('survives being serialized into the page', () => {
+    const suggest = new Function(`return ${String(suggestGatewayDomains)}`)()
+    assert.deepStrictEqual(suggest('web.localhost', domains), [
+      'web.other.localhost',
+    ])
+  })
+})
+
+describe('generateGateway404Html()', () => {
+  it('embeds the routed domains for suggestions', () => {
+    const html = generateGateway404Html([
+      service({ cnames: ['api-alt.denvig.localhost'] }),
+      service({ serviceName: 'admin', path: '/admin' }),
+    ])
+    assert.match(
+      html,
+      /suggest\(location.host, \["api-alt.denvig.localhost","api.denvig.localhost"\]\)/,
+    )
+    assert.match(html, /Service Not Found/)
+  })
+})
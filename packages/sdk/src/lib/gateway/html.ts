@@ -2,28 +2,95 @@ import { mkdir, writeFile } from 'node:fs/promises'
 import { homedir } from 'node:os'
 import { resolve } from 'node:path'
 
+import type { GatewayServiceRoute } from './routes.ts'
+
 /** Directory where gateway HTML files are written at runtime. */
 export function getGatewayHtmlDir(): string {
   return resolve(homedir(), '.denvig', 'gateway', 'html')
 }
 
 /**
- * Write the gateway HTML files (index, error pages) to ~/.denvig/gateway/html/.
- * Reads from the source HTML files bundled alongside this module.
+ * Write the gateway HTML files (dashboard, error pages) to
+ * ~/.denvig/gateway/html/. The dashboard and 404 page are generated from the
+ * running routes, so this runs on every gateway configure.
  */
-export async function writeGatewayHtmlFiles(): Promise<void> {
+export async function writeGatewayHtmlFiles(
+  services: GatewayServiceRoute[] = [],
+): Promise<void> {
   const htmlDir = getGatewayHtmlDir()
   const errorsDir = resolve(htmlDir, 'errors')
   await mkdir(errorsDir, { recursive: true })
 
-  // Resolve paths relative to this file's source location
-  // Since tsup bundles everything, we embed the content as strings
-  await writeFile(resolve(htmlDir, 'index.html'), indexHtml, 'utf-8')
-  await writeFile(resolve(errorsDir, '404.html'), error404Html, 'utf-8')
+  // Since the bundler inlines everything, the pages are built from strings
+  await writeFile(
+    resolve(htmlDir, 'index.html'),
+    generateGatewayIndexHtml(services),
+    'utf-8',
+  )
+  await writeFile(
+    resolve(errorsDir, '404.html'),
+    generateGateway404Html(services),
+    'utf-8',
+  )
   await writeFile(resolve(errorsDir, '504.html'), error504Html, 'utf-8')
 }
 
-const indexHtml = `<!DOCTYPE html>
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+
+/** The URL a route serves, with its path prefix. */
+const routeUrl = (service: GatewayServiceRoute, domain: string): string =>
+  `${service.secure ? 'https' : 'http'}://${domain}${service.path === '/' ? '' : service.path}`
+
+const CERT_LABELS: Record<GatewayServiceRoute['certStatus'], string> = {
+  valid: '<span class="ok">✓ valid</span>',
+  missing: '<span class="error">✗ missing</span>',
+  not_configured: '<span class="muted">-</span>',
+}
+
+/**
+ * Generate the gateway root page: a dashboard listing every running route
+ * with its project, service, domains, port and cert status. Without routes
+ * it explains how to add one.
+ */
+export function generateGatewayIndexHtml(
+  services: GatewayServiceRoute[],
+  generatedAt: Date = new Date(),
+): string {
+  const rows = services.map((service) => {
+    const domains = [service.domain, ...service.cnames]
+      .map((domain) => {
+        const url = escapeHtml(routeUrl(service, domain))
+        return `<a href="${url}">${url.replace(/^https?:\/\//, '')}</a>`
+      })
+      .join('<br>')
+    return `        <tr>
+          <td><span class="muted">${escapeHtml(service.projectSlug)}/</span>${escapeHtml(service.serviceName)}</td>
+          <td>${domains}</td>
+          <td>${service.port}</td>
+          <td>${CERT_LABELS[service.certStatus]}</td>
+        </tr>`
+  })
+
+  const content =
+    rows.length === 0
+      ? `    <p>This gateway is managed by <a href="https://denvig.com">Denvig</a>.</p>
+    <p>Configure services with <code>http.domain</code> in your <code>.denvig.yml</code> to route traffic here.</p>`
+      : `    <table>
+      <thead>
+        <tr><th>Service</th><th>Domains</th><th>Port</th><th>TLS</th></tr>
+      </thead>
+      <tbody>
+${rows.join('\n')}
+      </tbody>
+    </table>
+    <p class="muted">${rows.length} running route${rows.length === 1 ? '' : 's'} · updated ${escapeHtml(generatedAt.toISOString())} · <a href="https://denvig.com">denvig.com</a></p>`
+
+  return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="utf-8">
@@ -32,25 +99,89 @@ const indexHtml = `<!DOCTYPE html>
   <style>
     * { margin: 0; padding: 0; box-sizing: border-box; }
     body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; background: #0a0a0a; color: #e0e0e0; display: flex; align-items: center; justify-content: center; min-height: 100vh; }
-    .container { text-align: center; max-width: 480px; padding: 2rem; }
+    .container { text-align: center; max-width: 960px; padding: 2rem; }
     h1 { font-size: 1.5rem; font-weight: 600; margin-bottom: 0.75rem; color: #fff; }
     p { font-size: 0.95rem; line-height: 1.6; color: #888; margin-bottom: 1.5rem; }
     a { color: #6ea4f7; text-decoration: none; }
     a:hover { text-decoration: underline; }
     code { background: #1a1a1a; padding: 0.15rem 0.4rem; border-radius: 4px; font-size: 0.85rem; color: #ccc; }
+    table { border-collapse: collapse; margin: 1rem auto 1.5rem; text-align: left; font-size: 0.9rem; }
+    th { color: #888; font-weight: 500; border-bottom: 1px solid #222; }
+    th, td { padding: 0.5rem 1rem; vertical-align: top; }
+    tbody tr + tr td { border-top: 1px solid #1a1a1a; }
+    .muted { color: #666; }
+    .ok { color: #5fb760; }
+    .error { color: #e5534b; }
   </style>
 </head>
 <body>
   <div class="container">
     <h1>Denvig Gateway</h1>
-    <p>This nginx server is managed by <a href="https://denvig.com">Denvig</a>.</p>
-    <p>Configure services with <code>http.domain</code> in your <code>.denvig.yml</code> to route traffic here.</p>
+${content}
   </div>
 </body>
 </html>
 `
+}
 
-const error404Html = `<!DOCTYPE html>
+/**
+ * Up to `limit` routed domains close to a requested host: within a small
+ * edit distance, or sharing its first label (`api.localhost` for
+ * `api.denvig.localhost`). The 404 page runs this in the browser, so it must
+ * not reference anything outside its own body.
+ */
+export const suggestGatewayDomains = (
+  host: string,
+  domains: string[],
+  limit = 3,
+): string[] => {
+  const distance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i]
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        )
+      }
+      previous = current
+    }
+    return previous[b.length]
+  }
+
+  const name = host.toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '')
+  const label = name.split('.')[0]
+  return domains
+    .filter((domain) => domain !== name)
+    .map((domain) => ({ domain, score: distance(name, domain) }))
+    .filter(
+      ({ domain, score }) =>
+        score <= Math.max(2, Math.floor(domain.length / 4)) ||
+        domain.split('.')[0] === label,
+    )
+    .sort((a, b) => a.score - b.score || a.domain.localeCompare(b.domain))
+    .slice(0, limit)
+    .map(({ domain }) => domain)
+}
+
+/**
+ * Generate the 404 page. It embeds every routed domain and, in the browser,
+ * suggests the ones closest to the requested host.
+ */
+export function generateGateway404Html(
+  services: GatewayServiceRoute[],
+): string {
+  const domains = [
+    ...new Set(
+      services.flatMap((service) => [service.domain, ...service.cnames]),
+    ),
+  ].sort()
+  // Escape `<` so a domain can never close the script element.
+  const domainsJson = JSON.stringify(domains).replace(/</g, '\\u003c')
+
+  return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="utf-8">
@@ -63,9 +194,12 @@ const error404Html = `<!DOCTYPE html>
     .code { font-size: 3rem; font-weight: 700; color: #555; margin-bottom: 0.5rem; }
     h1 { font-size: 1.5rem; font-weight: 600; margin-bottom: 0.75rem; color: #fff; }
     p { font-size: 0.95rem; line-height: 1.6; color: #888; margin-bottom: 1rem; }
+    ul { list-style: none; margin-bottom: 1rem; }
+    li { line-height: 1.8; }
     a { color: #6ea4f7; text-decoration: none; }
     a:hover { text-decoration: underline; }
     code { background: #1a1a1a; padding: 0.15rem 0.4rem; border-radius: 4px; font-size: 0.85rem; color: #ccc; }
+    [hidden] { display: none; }
   </style>
 </head>
 <body>
@@ -73,14 +207,41 @@ const error404Html = `<!DOCTYPE html>
     <div class="code">404</div>
     <h1>Service Not Found</h1>
     <p>No service is configured for this domain. The project may not exist or the domain is not set up in <code>.denvig.yml</code>.</p>
+    <div id="suggestions" hidden>
+      <p>Did you mean:</p>
+      <ul></ul>
+    </div>
     <p>Check your configuration with <code>denvig gateway status</code></p>
-    <p><a href="https://denvig.com">denvig.com</a></p>
+    <p><a href="/">All routes</a> · <a href="https://denvig.com">denvig.com</a></p>
   </div>
+  <script>
+    const suggest = ${String(suggestGatewayDomains)}
+    const matches = suggest(location.host, ${domainsJson})
+    if (matches.length > 0) {
+      const section = document.getElementById('suggestions')
+      for (const domain of matches) {
+        const link = document.createElement('a')
+        link.href = location.protocol + '//' + domain + location.pathname + location.search
+        link.textContent = domain
+        const item = document.createElement('li')
+        item.append(link)
+        section.querySelector('ul').append(item)
+      }
+      section.hidden = false
+    }
+  </script>
 </body>
 </html>
 `
+}
+
+/** Root page served before any route is configured. */
+export const indexHtml = generateGatewayIndexHtml([])
+
+/** 404 page served before any route is configured. */
+export const error404Html = generateGateway404Html([])
 
-const error504Html = `<!DOCTYPE html>
+export const error504Html = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="utf-8">
@@ -0,0 +1,188 @@
+import assert from 'node:assert'
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  followGatewayAccessLogs,
+  getGatewayAccessLogDir,
+  getGatewaySharedAccessLogPath,
+  parseGatewayAccessLogLine,
+  parseGatewayStatusFilter,
+  readGatewayAccessLogs,
+  writeGatewayAccessLog,
+} from './logs.ts'
+
+import type { GatewayAccessLogRecord } from './logs.ts'
+
+const record = (
+  overrides: Partial<GatewayAccessLogRecord> = {},
+): GatewayAccessLogRecord => ({
+  time: '2026-10-19T10:00:00.000Z',
+  handler: 'builtin',
+  host: 'api.denvig.localhost',
+  method: 'GET',
+  path: '/users',
+  status: 200,
+  upstreamMs: 12,
+  projectId: 'abc123',
+  serviceName: 'api',
+  ...overrides,
+})
+
+describe('parseGatewayAccessLogLine()', () => {
+  it('parses the nginx format using the file tag for the service', () => {
+    const line =
+      '{"time":"2026-10-19T10:00:00+00:00","handler":"nginx","host":"api.localhost","method":"POST","path":"/users?x=1","status":502,"upstreamTime":"0.004, 0.120"}'
+    assert.deepStrictEqual(
+      parseGatewayAccessLogLine(line, 'denvig-abc123--api'),
+      {
+        time: '2026-10-19T10:00:00+00:00',
+        handler: 'nginx',
+        host: 'api.localhost',
+        method: 'POST',
+        path: '/users?x=1',
+        status: 502,
+        upstreamMs: 120,
+        projectId: 'abc123',
+        serviceName: 'api',
+      },
+    )
+    assert.strictEqual(
+      parseGatewayAccessLogLine(line.replace('0.004, 0.120', ''), 'denvig-a--b')
+        ?.upstreamMs,
+      null,
+    )
+    assert.strictEqual(parseGatewayAccessLogLine(line, 'other'), null)
+  })
+
+  it('parses caddy entries tagged with their service', () => {
+    const line = JSON.stringify({
+      ts: 1792404000.5,
+      status: 404,
+      duration: 0.0123,
+      denvig_service: 'denvig-abc123--web',
+      request: { host: 'app.localhost', method: 'GET', uri: '/missing' },
+    })
+    const parsed = parseGatewayAccessLogLine(line, 'caddy')
+    assert.strictEqual(parsed?.handler, 'caddy')
+    assert.strictEqual(parsed?.time, '2026-10-19T10:00:00.500Z')
+    assert.strictEqual(parsed?.status, 404)
+    assert.strictEqual(parsed?.upstreamMs, 12)
+    assert.strictEqual(parsed?.serviceName, 'web')
+  })
+
+  it('parses traefik entries by their service name', () => {
+    const line = JSON.stringify({
+      StartUTC: '2026-10-19T10:00:00Z',
+      RequestHost: 'app.localhost',
+      RequestMethod: 'GET',
+      RequestPath: '/api',
+      DownstreamStatus: 200,
+      OriginDuration: 3_400_000,
+      ServiceName: 'denvig-abc123--api@file',
+    })
+    const parsed = parseGatewayAccessLogLine(line, 'traefik')
+    assert.strictEqual(parsed?.handler, 'traefik')
+    assert.strictEqual(parsed?.upstreamMs, 3)
+    assert.strictEqual(parsed?.projectId, 'abc123')
+    assert.strictEqual(
+      parseGatewayAccessLogLine(
+        line.replace('denvig-abc123--api@file', 'dashboard@internal'),
+      ),
+      null,
+    )
+  })
+
+  it('ignores lines that are not JSON', () => {
+    assert.strictEqual(parseGatewayAccessLogLine('GET /', 'denvig-a--b'), null)
+  })
+})
+
+describe('parseGatewayStatusFilter()', () => {
+  it('matches exact codes and classes', () => {
+    const matches = parseGatewayStatusFilter('404, 5xx')
+    assert.ok(matches(404))
+    assert.ok(matches(503))
+    assert.ok(!matches(400))
+    assert.ok(!matches(200))
+  })
+
+  it('rejects anything else', () => {
+    assert.throws(
+      () => parseGatewayStatusFilter('5xx,oops'),
+      /Invalid status filter "oops"/,
+    )
+  })
+})
+
+describe('gateway access logs', () => {
+  let originalHome: string | undefined
+  let tmpHome = ''
+
+  beforeEach(() => {
+    originalHome = process.env.HOME
+    tmpHome = mkdtempSync(`${tmpdir()}/denvig-logs-`)
+    process.env.HOME = tmpHome
+  })
+  afterEach(() => {
+    if (originalHome !== undefined) process.env.HOME = originalHome
+    else delete process.env.HOME
+    rmSync(tmpHome, { recursive: true, force: true })
+  })
+
+  it('reads every log file back in time order', async () => {
+    await writeGatewayAccessLog(record({ time: '2026-10-19T10:00:02.000Z' }))
+    await writeGatewayAccessLog(
+      record({
+        time: '2026-10-19T10:00:01.000Z',
+        serviceName: 'web',
+        upstreamMs: null,
+        status: 502,
+      }),
+    )
+    appendFileSync(
+      getGatewaySharedAccessLogPath('caddy'),
+      `${JSON.stringify({ ts: 1, status: 200, request: {} })}\n`,
+    )
+
+    const records = await readGatewayAccessLogs()
+    assert.deepStrictEqual(
+      records.map((r) => [r.serviceName, r.status, r.upstreamMs]),
+      [
+        ['web', 502, null],
+        ['api', 200, 12],
+      ],
+    )
+  })
+
+  it('follows requests appended after it starts', async () => {
+    await writeGatewayAccessLog(record({ path: '/before' }))
+    const seen: string[] = []
+    const stop = await followGatewayAccessLogs((r) => seen.push(r.path), 20)
+    try {
+      await writeGatewayAccessLog(record({ path: '/after' }))
+      await writeGatewayAccessLog(record({ serviceName: 'web', path: '/new' }))
+      await new Promise((resolve) => setTimeout(resolve, 150))
+    } finally {
+      stop()
+    }
+    assert.deepStrictEqual(seen.sort(), ['/after', '/new'])
+  })
+
+  it('keeps following when a log file cannot be read', async () => {
+    await writeGatewayAccessLog(record({ path: '/before' }))
+    const seen: string[] = []
+    const stop = await followGatewayAccessLogs((r) => seen.push(r.path), 20)
+    try {
+      // Listed like a log file, but reading it fails.
+      mkdirSync(`${getGatewayAccessLogDir()}/broken.log`)
+      await new Promise((resolve) => setTimeout(resolve, 60))
+      await writeGatewayAccessLog(record({ path: '/after' }))
+      await new Promise((resolve) => setTimeout(resolve, 150))
+    } finally {
+      stop()
+    }
+    assert.deepStrictEqual(seen, ['/after'])
+  })
+})
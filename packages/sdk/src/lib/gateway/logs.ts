@@ -0,0 +1,307 @@
+import {
+  appendFile,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  stat,
+} from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+import { DenvigValidationError } from '../errors.ts'
+import { getGatewayProcessDir } from './process.ts'
+
+/** One request the gateway proxied to a service. */
+export type GatewayAccessLogRecord = {
+  /** ISO timestamp of the request. */
+  time: string
+  /** The gateway handler that served the request. */
+  handler: 'nginx' | 'caddy' | 'traefik' | 'builtin'
+  host: string
+  method: string
+  /** Request path and query as sent by the client. */
+  path: string
+  status: number
+  /** Time the service took to respond, or null when it never answered. */
+  upstreamMs: number | null
+  projectId: string
+  serviceName: string
+}
+
+/**
+ * Directory holding the gateway access logs: one JSON-lines file per service
+ * written by nginx and the builtin proxy, plus `caddy.log` and `traefik.log`
+ * for the handlers that log every site to one file.
+ */
+export const getGatewayAccessLogDir = (): string =>
+  resolve(getGatewayProcessDir(), 'access')
+
+/** Access log file for a service, named after its gateway service tag. */
+export const getGatewayAccessLogPath = (
+  projectId: string,
+  serviceName: string,
+): string =>
+  resolve(getGatewayAccessLogDir(), `denvig-${projectId}--${serviceName}.log`)
+
+/**
+ * Shared access log for the handlers that cannot write one file per
+ * service. Caddy tags each entry with `denvig_service` and Traefik with its
+ * `ServiceName`, so requests are still attributed to their service.
+ */
+export const getGatewaySharedAccessLogPath = (
+  handler: 'caddy' | 'traefik',
+): string => resolve(getGatewayAccessLogDir(), `${handler}.log`)
+
+/** Split a `denvig-{projectId}--{serviceName}` tag, or null for other names. */
+export const parseGatewayServiceTag = (
+  tag: string,
+): { projectId: string; serviceName: string } | null => {
+  const match = /^denvig-(.+?)--(.+)$/.exec(tag)
+  return match ? { projectId: match[1], serviceName: match[2] } : null
+}
+
+/**
+ * Append a request to a service's access log in the format the generated
+ * nginx config writes.
+ */
+export const writeGatewayAccessLog = async (
+  record: GatewayAccessLogRecord,
+): Promise<void> => {
+  const line = JSON.stringify({
+    time: record.time,
+    handler: record.handler,
+    host: record.host,
+    method: record.method,
+    path: record.path,
+    status: record.status,
+    upstreamTime:
+      record.upstreamMs === null ? '' : (record.upstreamMs / 1000).toFixed(3),
+  })
+  await mkdir(getGatewayAccessLogDir(), { recursive: true })
+  await appendFile(
+    getGatewayAccessLogPath(record.projectId, record.serviceName),
+    `${line}\n`,
+    'utf-8',
+  )
+}
+
+type JsonObject = Record<string, unknown>
+
+const asString = (value: unknown): string =>
+  typeof value === 'string' ? value : ''
+
+const asNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+/**
+ * Parse nginx's `$upstream_response_time` (seconds). Retried requests list
+ * one time per upstream attempt; the last one answered.
+ */
+const parseUpstreamSeconds = (value: unknown): number | null => {
+  const last = asString(value).split(/[,:]/).pop()?.trim() ?? ''
+  const seconds = Number.parseFloat(last)
+  return Number.isNaN(seconds) ? null : Math.round(seconds * 1000)
+}
+
+/**
+ * Parse one access log line into a record. Understands the denvig format
+ * written by nginx and the builtin proxy (attributed by the file's service
+ * tag), Caddy's JSON access log and Traefik's JSON access log. Lines that
+ * are not JSON or belong to no denvig service return null.
+ */
+export const parseGatewayAccessLogLine = (
+  line: string,
+  fileTag?: string,
+): GatewayAccessLogRecord | null => {
+  let json: JsonObject
+  try {
+    const parsed: unknown = JSON.parse(line)
+    if (!parsed || typeof parsed !== 'object') return null
+    json = parsed as JsonObject
+  } catch {
+    return null
+  }
+
+  if (typeof json.request === 'object' && json.request !== null) {
+    const service = parseGatewayServiceTag(asString(json.denvig_service))
+    if (!service) return null
+    const request = json.request as JsonObject
+    const ts = asNumber(json.ts)
+    const duration = asNumber(json.duration)
+    return {
+      time: ts === null ? '' : new Date(ts * 1000).toISOString(),
+      handler: 'caddy',
+      host: asString(request.host),
+      method: asString(request.method),
+      path: asString(request.uri),
+      status: asNumber(json.status) ?? 0,
+      upstreamMs: duration === null ? null : Math.round(duration * 1000),
+      ...service,
+    }
+  }
+
+  if ('RequestMethod' in json) {
+    const service = parseGatewayServiceTag(
+      asString(json.ServiceName).replace(/@.*$/, ''),
+    )
+    if (!service) return null
+    const origin = asNumber(json.OriginDuration)
+    return {
+      time: asString(json.StartUTC) || asString(json.time),
+      handler: 'traefik',
+      host: asString(json.RequestHost),
+      method: asString(json.RequestMethod),
+      path: asString(json.RequestPath),
+      status: asNumber(json.DownstreamStatus) ?? 0,
+      upstreamMs: origin === null ? null : Math.round(origin / 1e6),
+      ...service,
+    }
+  }
+
+  const service = fileTag ? parseGatewayServiceTag(fileTag) : null
+  if (!service || typeof json.status !== 'number') return null
+  return {
+    time: asString(json.time),
+    handler: json.handler === 'builtin' ? 'builtin' : 'nginx',
+    host: asString(json.host),
+    method: asString(json.method),
+    path: asString(json.path),
+    status: json.status,
+    upstreamMs: parseUpstreamSeconds(json.upstreamTime),
+    ...service,
+  }
+}
+
+/**
+ * Build a status predicate from a comma-separated list of exact codes
+ * (`404`) and classes (`5xx`).
+ */
+export const parseGatewayStatusFilter = (
+  filter: string,
+): ((status: number) => boolean) => {
+  const tests = filter.split(',').map((token) => {
+    const value = token.trim().toLowerCase()
+    if (/^[1-5]xx$/.test(value)) {
+      const digit = Number(value[0])
+      return (status: number) => Math.floor(status / 100) === digit
+    }
+    if (/^[1-5]\d\d$/.test(value)) {
+      return (status: number) => status === Number(value)
+    }
+    throw new DenvigValidationError(
+      `Invalid status filter "${token.trim()}": use a code such as 404 or a class such as 5xx`,
+    )
+  })
+  return (status) => tests.some((test) => test(status))
+}
+
+const listAccessLogFiles = async (): Promise<string[]> => {
+  try {
+    const files = await readdir(getGatewayAccessLogDir())
+    return files.filter((file) => file.endsWith('.log')).sort()
+  } catch {
+    return []
+  }
+}
+
+const parseLines = (
+  content: string,
+  file: string,
+): GatewayAccessLogRecord[] => {
+  const tag = file.replace(/\.log$/, '')
+  const records: GatewayAccessLogRecord[] = []
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') continue
+    const record = parseGatewayAccessLogLine(line, tag)
+    if (record) records.push(record)
+  }
+  return records
+}
+
+/** Read every gateway access log, oldest request first. */
+export const readGatewayAccessLogs = async (): Promise<
+  GatewayAccessLogRecord[]
+> => {
+  const dir = getGatewayAccessLogDir()
+  const records: GatewayAccessLogRecord[] = []
+  for (const file of await listAccessLogFiles()) {
+    const content = await readFile(resolve(dir, file), 'utf-8').catch(() => '')
+    records.push(...parseLines(content, file))
+  }
+  return records.sort((a, b) => a.time.localeCompare(b.time))
+}
+
+/**
+ * Call `onRecord` for every request appended to the access logs from now
+ * on, polling the log directory so files created later are picked up. A
+ * file that shrinks was truncated and is read again from the start.
+ * Resolves to a function that stops following.
+ */
+export const followGatewayAccessLogs = async (
+  onRecord: (record: GatewayAccessLogRecord) => void,
+  intervalMs = 250,
+): Promise<() => void> => {
+  const dir = getGatewayAccessLogDir()
+  const offsets = new Map<string, number>()
+  const partial = new Map<string, string>()
+
+  const sizeOf = async (file: string): Promise<number | null> => {
+    try {
+      return (await stat(resolve(dir, file))).size
+    } catch {
+      return null
+    }
+  }
+
+  for (const file of await listAccessLogFiles()) {
+    offsets.set(file, (await sizeOf(file)) ?? 0)
+  }
+
+  const read = async (file: string) => {
+    const size = await sizeOf(file)
+    if (size === null) return
+    let offset = offsets.get(file) ?? 0
+    if (size < offset) {
+      offset = 0
+      partial.delete(file)
+    }
+    if (size === offset) return
+
+    const handle = await open(resolve(dir, file), 'r')
+    const buffer = Buffer.alloc(size - offset)
+    try {
+      await handle.read(buffer, 0, buffer.length, offset)
+    } finally {
+      await handle.close()
+    }
+    offsets.set(file, size)
+
+    const text = (partial.get(file) ?? '') + buffer.toString('utf-8')
+    const end = text.lastIndexOf('\n')
+    partial.set(file, text.slice(end + 1))
+    for (const record of parseLines(text.slice(0, end + 1), file)) {
+      onRecord(record)
+    }
+  }
+
+  let polling = false
+  const poll = async () => {
+    if (polling) return
+    polling = true
+    try {
+      for (const file of await listAccessLogFiles()) {
+        // A file removed or rotated mid-read is read again from the start
+        // when it next appears.
+        await read(file).catch(() => {
+          offsets.delete(file)
+          partial.delete(file)
+        })
+      }
+    } finally {
+      polling = false
+    }
+  }
+
+  const timer = setInterval(() => void poll(), intervalMs)
+  return () => clearInterval(timer)
+}
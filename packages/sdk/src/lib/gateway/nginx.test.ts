@@ -1,4 +1,4 @@
-import { ok } from 'node:assert'
+import { ok, strictEqual } from 'node:assert'
 import { describe, it } from 'node:test'
 
 import {
@@ -223,5 +223,66 @@ describe('nginx gateway', () => {
       ok(config.includes('upstream denvig-abc123--api'))
       ok(config.includes('upstream denvig-abc123--web'))
     })
+
+    it('should route path prefixes of a shared domain to their services', () => {
+      const config = generateDenvigNginxConfig([
+        { ...base, serviceName: 'web', domain: 'app.denvig.localhost' },
+        {
+          ...base,
+          serviceName: 'api',
+          port: 4000,
+          domain: 'app.denvig.localhost',
+          path: '/api',
+          stripPrefix: true,
+        },
+      ])
+
+      strictEqual(
+        config.match(/server_name app\.denvig\.localhost;/g)?.length,
+        1,
+      )
+      ok(config.includes('# route: /api (prefix stripped)'))
+      ok(config.includes('location ~ ^/api(?:/|$) {'))
+      ok(config.includes('rewrite ^/api/?(.*)$ /$1 break;'))
+      ok(
+        config.indexOf('proxy_pass http://denvig-abc123--api') <
+          config.indexOf('proxy_pass http://denvig-abc123--web'),
+      )
+    })
+
+    it('should declare the access log format once and log per service', () => {
+      const config = generateDenvigNginxConfig([
+        { ...base, serviceName: 'api', domain: 'api.denvig.localhost' },
+        { ...base, serviceName: 'web', domain: 'web.denvig.localhost' },
+      ])
+
+      strictEqual(config.match(/log_format denvig_access /g)?.length, 1)
+      ok(
+        config.includes(
+          '/.denvig/gateway/access/denvig-abc123--api.log denvig_access;',
+        ),
+      )
+      ok(
+        config.includes(
+          '/.denvig/gateway/access/denvig-abc123--web.log denvig_access;',
+        ),
+      )
+    })
+
+    it('should declare each upstream once and 404 unclaimed paths', () => {
+      const config = generateDenvigNginxConfig([
+        { ...base, serviceName: 'api', domain: 'api.denvig.localhost' },
+        {
+          ...base,
+          serviceName: 'api',
+          domain: 'app.denvig.localhost',
+          path: '/api',
+        },
+      ])
+
+      strictEqual(config.match(/upstream denvig-abc123--api /g)?.length, 1)
+      ok(config.includes('return 404;'))
+      ok(!config.includes('rewrite '))
+    })
   })
 })
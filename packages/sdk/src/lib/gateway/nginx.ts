@@ -5,6 +5,10 @@ import { dirname, resolve } from 'node:path'
 import { promisify } from 'node:util'
 
 import { getGatewayHtmlDir } from './html.ts'
+import { getGatewayAccessLogDir, getGatewayAccessLogPath } from './logs.ts'
+import { groupGatewayServers } from './servers.ts'
+
+import type { GatewayServer } from './servers.ts'
 
 const execAsync = promisify(exec)
 
@@ -16,6 +20,10 @@ export type NginxConfigOptions = {
   port: number
   domain: string
   cnames?: string[]
+  /** Path prefix routed to the service; defaults to `/` (every path). */
+  path?: string
+  /** Remove `path` from the request before proxying it. */
+  stripPrefix?: boolean
   sslCertPath?: string
   sslKeyPath?: string
   /** Stable log file for the service, surfaced as a comment for debugging. */
@@ -26,23 +34,41 @@ export type NginxConfigOptions = {
  * Generate nginx config content for a service.
  */
 export function generateNginxConfig(options: NginxConfigOptions): string {
-  const {
-    projectId,
-    projectPath,
-    projectSlug,
-    serviceName,
-    port,
-    domain,
-    cnames,
-    sslCertPath,
-    sslKeyPath,
-    logPath,
-  } = options
-
-  const upstreamName = `denvig-${projectId}--${serviceName}`
+  return generateNginxServerConfig({
+    domains: [options.domain, ...(options.cnames || [])],
+    sslCertPath: options.sslCertPath,
+    sslKeyPath: options.sslKeyPath,
+    routes: [options],
+  })
+}
+
+/** Name of the JSON access log format declared by the denvig nginx config. */
+const NGINX_ACCESS_LOG_FORMAT = 'denvig_access'
+
+/**
+ * The access log format, in the JSON-lines shape `gateway logs` reads. The
+ * service is identified by the file each location logs to.
+ */
+const nginxAccessLogFormat = (): string =>
+  `log_format ${NGINX_ACCESS_LOG_FORMAT} escape=json '{"time":"$time_iso8601","handler":"nginx","host":"$host","method":"$request_method","path":"$request_uri","status":$status,"upstreamTime":"$upstream_response_time"}';`
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Generate the upstreams and server block for a group of domains. Each route
+ * gets a location: `/` for the whole domain, or a regex location matching the
+ * prefix and everything below it, which nginx checks before `location /`.
+ * Upstreams already in `declaredUpstreams` are not repeated.
+ */
+export function generateNginxServerConfig(
+  server: GatewayServer,
+  declaredUpstreams: Set<string> = new Set(),
+): string {
+  const { domains, sslCertPath, sslKeyPath, routes } = server
 
   // Combine domain and cnames for server_name
-  const allDomains = [domain, ...(cnames || [])].join(' ')
+  const allDomains = domains.join(' ')
 
   const hasSsl = !!(sslCertPath && sslKeyPath)
 
@@ -62,19 +88,67 @@ export function generateNginxConfig(options: NginxConfigOptions): string {
 
   const htmlDir = getGatewayHtmlDir()
 
-  const logComment = logPath ? `\n# log: ${logPath}` : ''
+  const upstreams = routes.map((route) => {
+    const upstreamName = `denvig-${route.projectId}--${route.serviceName}`
+    const path = route.path ?? '/'
+    const logComment = route.logPath ? `\n# log: ${route.logPath}` : ''
+    const routeComment =
+      path === '/'
+        ? ''
+        : `\n# route: ${path}${route.stripPrefix ? ' (prefix stripped)' : ''}`
+    const upstream = declaredUpstreams.has(upstreamName)
+      ? ''
+      : `\nupstream ${upstreamName} { server 127.0.0.1:${route.port} max_fails=0 fail_timeout=30; }`
+    declaredUpstreams.add(upstreamName)
+
+    return `# denvig:
+# slug: ${route.projectSlug}
+# path: ${route.projectPath}
+# service: ${route.serviceName}
+# domain: ${allDomains}${routeComment}
+# port: ${route.port}${logComment}${upstream}`
+  })
+
+  const rootRoute = routes.find((route) => (route.path ?? '/') === '/')
+  const locations = routes.map((route) => {
+    const upstreamName = `denvig-${route.projectId}--${route.serviceName}`
+    const path = route.path ?? '/'
+    const match = path === '/' ? '/' : `~ ^${escapeRegExp(path)}(?:/|$)`
+    const rewrite =
+      path !== '/' && route.stripPrefix
+        ? `
+    rewrite ^${escapeRegExp(path)}/?(.*)$ /$1 break;`
+        : ''
+
+    return `  location ${match} {${rewrite}
+    access_log ${getGatewayAccessLogPath(route.projectId, route.serviceName)} ${NGINX_ACCESS_LOG_FORMAT};
+    proxy_pass http://${upstreamName};
+    proxy_set_header Host $host;
+    proxy_set_header X-Forwarded-Host $host;
+    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
+    proxy_redirect off;
+    proxy_buffering off;
 
-  return `# denvig:
-# slug: ${projectSlug}
-# path: ${projectPath}
-# service: ${serviceName}
-# domain: ${allDomains}
-# port: ${port}${logComment}
-upstream ${upstreamName} { server 127.0.0.1:${port} max_fails=0 fail_timeout=30; }
+    proxy_http_version 1.1;
+    proxy_set_header Upgrade $http_upgrade;
+    proxy_set_header Connection "upgrade";
+  }`
+  })
+  // Paths no route claims get the gateway's not-found page.
+  const notFound = rootRoute
+    ? ''
+    : `
+
+  error_page 404 /denvig-errors/404.html;
+  location / {
+    return 404;
+  }`
+
+  return `${upstreams.join('\n')}
 server {
 ${listenBlock}
   server_name ${allDomains};
-  root ${projectPath}/public;
+  root ${(rootRoute ?? routes[0]).projectPath}/public;
   index index.html;
   client_max_body_size 100M;
 ${sslBlock}
@@ -83,20 +157,9 @@ ${sslBlock}
   location /denvig-errors/ {
     alias ${htmlDir}/errors/;
     internal;
-  }
+  }${notFound}
 
-  location / {
-    proxy_pass http://${upstreamName};
-    proxy_set_header Host $host;
-    proxy_set_header X-Forwarded-Host $host;
-    proxy_set_header X-Forwarded-For $proxy_add_x_forwarded_for;
-    proxy_redirect off;
-    proxy_buffering off;
-
-    proxy_http_version 1.1;
-    proxy_set_header Upgrade $http_upgrade;
-    proxy_set_header Connection "upgrade";
-  }
+${locations.join('\n\n')}
 }
 `
 }
@@ -181,20 +244,24 @@ export function getDenvigNginxConfPath(): string {
 
 /**
  * Generate the combined denvig nginx config containing one server block per
- * service, sorted alphabetically by primary domain so the file is stable and
- * easy to scan.
+ * group of domains (usually one per service), sorted alphabetically by
+ * primary domain so the file is stable and easy to scan. The access log
+ * format the locations use is declared at the top.
  */
 export function generateDenvigNginxConfig(
   services: NginxConfigOptions[],
 ): string {
-  const sorted = [...services].sort((a, b) => a.domain.localeCompare(b.domain))
+  const servers = groupGatewayServers(services)
   const header =
     '# Managed by denvig — do not edit manually\n# https://denvig.com\n'
-  if (sorted.length === 0) {
+  if (servers.length === 0) {
     return `${header}`
   }
-  const blocks = sorted.map((service) => generateNginxConfig(service))
-  return `${header}\n${blocks.join('\n')}`
+  const declaredUpstreams = new Set<string>()
+  const blocks = servers.map((server) =>
+    generateNginxServerConfig(server, declaredUpstreams),
+  )
+  return `${header}\n${nginxAccessLogFormat()}\n\n${blocks.join('\n')}`
 }
 
 /**
@@ -206,6 +273,8 @@ export async function writeDenvigNginxConfig(
   try {
     const confPath = getDenvigNginxConfPath()
     await mkdir(dirname(confPath), { recursive: true })
+    // nginx refuses to start when an access log directory is missing.
+    await mkdir(getGatewayAccessLogDir(), { recursive: true })
     const content = generateDenvigNginxConfig(services)
     await writeFile(confPath, content, 'utf-8')
 
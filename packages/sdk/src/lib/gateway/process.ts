@@ -0,0 +1,90 @@
+import { homedir } from 'node:os'
+import { resolve } from 'node:path'
+
+import {
+  readLivePid,
+  removePidFile,
+  startBackgroundProcess,
+  writePidFile,
+} from '../background.ts'
+
+/**
+ * Background processes denvig runs for the gateway: the `builtin` proxy
+ * (`denvig gateway serve`) and the `dns` server (`denvig gateway dns serve`).
+ */
+export type GatewayProcessName = 'builtin' | 'dns'
+
+/** A gateway process state, from its pid file. */
+export type GatewayProcessPidStatus = {
+  running: boolean
+  pid: number | null
+  status: 'started' | 'stopped'
+}
+
+/** Directory holding the gateway processes' pid and log files. */
+export const getGatewayProcessDir = (): string =>
+  resolve(homedir(), '.denvig', 'gateway')
+
+const pidPath = (name: GatewayProcessName): string =>
+  resolve(getGatewayProcessDir(), `${name}.pid`)
+
+/** Log file a background gateway process writes to. */
+export const getGatewayProcessLogPath = (name: GatewayProcessName): string =>
+  resolve(getGatewayProcessDir(), `${name}.log`)
+
+/** Record the pid of the process serving `name`. */
+export const writeGatewayProcessPid = (
+  name: GatewayProcessName,
+  pid: number,
+): Promise<void> => writePidFile(pidPath(name), pid)
+
+/** Remove the pid file, unless another process has since claimed it. */
+export const removeGatewayProcessPid = (
+  name: GatewayProcessName,
+  pid: number,
+): Promise<void> => removePidFile(pidPath(name), pid)
+
+export const getGatewayProcessStatus = async (
+  name: GatewayProcessName,
+): Promise<GatewayProcessPidStatus> => {
+  const pid = await readLivePid(pidPath(name))
+  if (pid === null) return { running: false, pid: null, status: 'stopped' }
+  return { running: true, pid, status: 'started' }
+}
+
+/**
+ * Make sure the gateway process `name` is running, starting `denvig <args>`
+ * in the background when it isn't. A running process picks up route changes
+ * on its own, so nothing is restarted. `label` names it in error messages.
+ */
+export const ensureGatewayProcessRunning = async (
+  name: GatewayProcessName,
+  args: string[],
+  label: string,
+): Promise<{
+  success: boolean
+  pid: number | null
+  started: boolean
+  message?: string
+}> => {
+  const current = await getGatewayProcessStatus(name)
+  if (current.running) {
+    return { success: true, pid: current.pid, started: false }
+  }
+
+  const result = await startBackgroundProcess({
+    args,
+    logPath: getGatewayProcessLogPath(name),
+    label,
+    ready: () => readLivePid(pidPath(name)),
+  })
+  if (!result.success) {
+    return {
+      success: false,
+      pid: null,
+      started: false,
+      message: result.message,
+    }
+  }
+  return { success: true, pid: result.value, started: true }
+}
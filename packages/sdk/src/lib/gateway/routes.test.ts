@@ -4,7 +4,11 @@ import { tmpdir } from 'node:os'
 import { afterEach, beforeEach, describe, it } from 'node:test'
 
 import { createGlobalProject } from '../services/global.ts'
-import { setCert, setGatewayRoute } from '../services/state.ts'
+import {
+  setCert,
+  setGatewayRoute,
+  updateServiceState,
+} from '../services/state.ts'
 import { resolveGatewayServices } from './routes.ts'
 
 let originalHome: string | undefined
@@ -145,4 +149,82 @@ describe('resolveGatewayServices', () => {
       ['api.denvig.localhost', 'mail.denvig.localhost', 'web.denvig.localhost'],
     )
   })
+
+  it('resolves path prefixes of a shared domain as separate services', async () => {
+    const project = await globalId()
+    await setGatewayRoute('app.denvig.localhost', {
+      project,
+      service: 'web',
+      port: 3000,
+      defaultService: true,
+      secure: false,
+      desiredStatus: 'running',
+    })
+    await setGatewayRoute('app.denvig.localhost/api', {
+      project,
+      service: 'api',
+      port: 4000,
+      defaultService: true,
+      secure: false,
+      desiredStatus: 'running',
+      stripPrefix: true,
+    })
+
+    const services = await resolveGatewayServices()
+    assert.deepStrictEqual(
+      services.map((s) => [s.serviceName, s.domain, s.path, s.stripPrefix]),
+      [
+        ['web', 'app.denvig.localhost', '/', false],
+        ['api', 'app.denvig.localhost', '/api', true],
+      ],
+    )
+    assert.deepStrictEqual(
+      services.map((s) => s.conflicts),
+      [[], []],
+    )
+  })
+
+  it('reports shadowed claims and secure mismatches as conflicts', async () => {
+    const project = await globalId()
+    await setGatewayRoute('app.denvig.localhost', {
+      project,
+      service: 'web',
+      port: 3000,
+      defaultService: true,
+      secure: true,
+      desiredStatus: 'running',
+    })
+    await setGatewayRoute('app.denvig.localhost/api', {
+      project,
+      service: 'api',
+      port: 4000,
+      defaultService: true,
+      secure: false,
+      desiredStatus: 'running',
+    })
+    await updateServiceState('other', 'web', {
+      cwd: '/tmp/other',
+      port: 3001,
+      domains: ['app.denvig.localhost'],
+      desiredStatus: 'running',
+      project: {
+        id: 'other',
+        slug: 'local:/tmp/other',
+        name: 'other',
+        path: '/tmp/other',
+      },
+      serviceName: 'web',
+    })
+
+    const services = await resolveGatewayServices()
+    const web = services.find((s) => s.serviceName === 'web')
+    const api = services.find((s) => s.serviceName === 'api')
+    assert.deepStrictEqual(web?.conflicts, [
+      'app.denvig.localhost is also claimed by local:/tmp/other/web, which is not routed',
+      'app.denvig.localhost is secure but app.denvig.localhost/api (global/api) is not secure',
+    ])
+    assert.deepStrictEqual(api?.conflicts, [
+      'app.denvig.localhost/api is not secure but app.denvig.localhost (global/web) is secure',
+    ])
+  })
 })
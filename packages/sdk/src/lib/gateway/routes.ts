@@ -1,8 +1,13 @@
 import { resolveProjectCheckouts } from '../projects.ts'
 import { createGlobalProject } from '../services/global.ts'
-import { readState } from '../services/state.ts'
+import {
+  claimedGatewayPaths,
+  gatewayRouteKey,
+  parseGatewayRouteKey,
+  readState,
+} from '../services/state.ts'
 
-import type { Cert } from '../services/state.ts'
+import type { Cert, DenvigState } from '../services/state.ts'
 
 /**
  * A running gateway route resolved from `~/.denvig/state.json`, with the
@@ -20,6 +25,16 @@ export type GatewayServiceRoute = {
   /** Primary domain (first claimed); cnames follow in `cnames`. */
   domain: string
   cnames: string[]
+  /** Path prefix routed to the service on its domains; `/` for all paths. */
+  path: string
+  /** Whether `path` is removed before the request is forwarded. */
+  stripPrefix: boolean
+  /**
+   * Problems with how the route shares its domains: other running services
+   * claiming the same domain and path, or a mix of secure and insecure
+   * routes on one domain.
+   */
+  conflicts: string[]
   certStatus: 'valid' | 'missing' | 'not_configured'
   sslCertPath?: string
   sslKeyPath?: string
@@ -32,6 +47,8 @@ type RouteGroup = {
   serviceName: string
   port: number
   secure: boolean
+  path: string
+  stripPrefix: boolean
   /** Order: first entry is the primary domain, the rest are cnames. */
   domains: string[]
   /** Key into `state.certs` shared by all routes in this group, if any. */
@@ -59,9 +76,10 @@ export async function resolveGatewayServices(): Promise<GatewayServiceRoute[]> {
 
   const state = await readState()
   const groups = new Map<string, RouteGroup>()
-  for (const [domain, route] of Object.entries(state.gatewayRoutes)) {
+  for (const [routeKey, route] of Object.entries(state.gatewayRoutes)) {
     if (route.desiredStatus !== 'running') continue
-    const key = `${route.project}.${route.service}`
+    const { domain, path } = parseGatewayRouteKey(routeKey)
+    const key = `${route.project}.${route.service}${path}`
     const existing = groups.get(key)
     if (existing) {
       existing.domains.push(domain)
@@ -74,6 +92,8 @@ export async function resolveGatewayServices(): Promise<GatewayServiceRoute[]> {
         serviceName: route.service,
         port: route.port,
         secure: route.secure,
+        path,
+        stripPrefix: route.stripPrefix ?? false,
         domains: [domain],
         certKey: route.cert,
       })
@@ -119,6 +139,9 @@ export async function resolveGatewayServices(): Promise<GatewayServiceRoute[]> {
       secure: group.secure,
       domain: primary,
       cnames,
+      path: group.path,
+      stripPrefix: group.stripPrefix,
+      conflicts: findRouteConflicts(group, groups, state, projectsById),
       certStatus,
       sslCertPath,
       sslKeyPath,
@@ -127,6 +150,58 @@ export async function resolveGatewayServices(): Promise<GatewayServiceRoute[]> {
     })
   }
 
-  resolved.sort((a, b) => a.domain.localeCompare(b.domain))
+  resolved.sort(
+    (a, b) => a.domain.localeCompare(b.domain) || a.path.localeCompare(b.path),
+  )
   return resolved
 }
+
+/**
+ * Explain how a route group clashes with other claims on its domains. A
+ * domain and path has a single owner (the last service to start claims it),
+ * so another running service declaring it is shadowed; and TLS is set up per
+ * domain, so every path on a domain must agree on `secure`.
+ */
+function findRouteConflicts(
+  group: RouteGroup,
+  groups: Map<string, RouteGroup>,
+  state: DenvigState,
+  projectsById: Map<string, { slug: string }>,
+): string[] {
+  const conflicts: string[] = []
+  const label = (projectId: string, serviceName: string) =>
+    `${projectsById.get(projectId)?.slug ?? projectId}/${serviceName}`
+
+  for (const domain of group.domains) {
+    const where = gatewayRouteKey(domain, group.path)
+    const shadowed = Object.values(state.services).filter(
+      (entry) =>
+        entry.desiredStatus === 'running' &&
+        entry.project !== undefined &&
+        entry.serviceName !== undefined &&
+        !(
+          entry.project.id === group.projectId &&
+          entry.serviceName === group.serviceName
+        ) &&
+        entry.domains.includes(domain) &&
+        claimedGatewayPaths(entry.config?.http).some(
+          (claim) => claim.path === group.path,
+        ),
+    )
+    for (const entry of shadowed) {
+      conflicts.push(
+        `${where} is also claimed by ${entry.project?.slug}/${entry.serviceName}, which is not routed`,
+      )
+    }
+
+    for (const other of groups.values()) {
+      if (other === group || !other.domains.includes(domain)) continue
+      if (other.secure !== group.secure) {
+        conflicts.push(
+          `${where} is ${group.secure ? 'secure' : 'not secure'} but ${gatewayRouteKey(domain, other.path)} (${label(other.projectId, other.serviceName)}) is ${other.secure ? 'secure' : 'not secure'}`,
+        )
+      }
+    }
+  }
+  return conflicts
+}
@@ -0,0 +1,70 @@
+import type { NginxConfigOptions } from './nginx.ts'
+
+/**
+ * Domains served by the same set of routes, rendered as one nginx server or
+ * Caddy site block. A domain shared by several services on different paths
+ * gets one server holding a route per path.
+ */
+export type GatewayServer = {
+  /** Primary domain first, then the other domains with identical routes. */
+  domains: string[]
+  sslCertPath?: string
+  sslKeyPath?: string
+  /** Routes on the domains, the most specific path first and `/` last. */
+  routes: NginxConfigOptions[]
+}
+
+const routePath = (route: NginxConfigOptions): string => route.path ?? '/'
+
+/**
+ * Group service routes into servers. Domains claimed by exactly the same
+ * routes share a server, so a service's cnames stay in its server block, and
+ * servers are sorted by primary domain.
+ */
+export function groupGatewayServers(
+  services: NginxConfigOptions[],
+): GatewayServer[] {
+  const sorted = [...services].sort(
+    (a, b) =>
+      a.domain.localeCompare(b.domain) ||
+      routePath(a).localeCompare(routePath(b)),
+  )
+
+  const routesByDomain = new Map<string, number[]>()
+  sorted.forEach((service, index) => {
+    for (const domain of [service.domain, ...(service.cnames || [])]) {
+      const indexes = routesByDomain.get(domain) ?? []
+      indexes.push(index)
+      routesByDomain.set(domain, indexes)
+    }
+  })
+
+  const servers = new Map<string, GatewayServer>()
+  for (const service of sorted) {
+    for (const domain of [service.domain, ...(service.cnames || [])]) {
+      const indexes = routesByDomain.get(domain) ?? []
+      const signature = indexes.join(',')
+      const existing = servers.get(signature)
+      if (existing) {
+        if (!existing.domains.includes(domain)) existing.domains.push(domain)
+        continue
+      }
+      const routes = indexes
+        .map((index) => sorted[index])
+        .sort((a, b) => routePath(b).length - routePath(a).length)
+      const secure = routes.find(
+        (route) => route.sslCertPath && route.sslKeyPath,
+      )
+      servers.set(signature, {
+        domains: [domain],
+        sslCertPath: secure?.sslCertPath,
+        sslKeyPath: secure?.sslKeyPath,
+        routes,
+      })
+    }
+  }
+
+  return [...servers.values()].sort((a, b) =>
+    a.domains[0].localeCompare(b.domains[0]),
+  )
+}
@@ -0,0 +1,97 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+import { parse } from 'yaml'
+
+import {
+  generateDenvigTraefikConfig,
+  getDenvigTraefikConfigPath,
+} from './traefik.ts'
+
+const base = {
+  projectId: 'abc123',
+  projectPath: '/Users/test/project',
+  projectSlug: 'test/project',
+  serviceName: 'api',
+  port: 3000,
+  domain: 'api.denvig.localhost',
+}
+
+describe('traefik gateway', () => {
+  describe('getDenvigTraefikConfigPath()', () => {
+    it('should resolve to ~/.denvig/traefik.yml', () => {
+      ok(getDenvigTraefikConfigPath().endsWith('/.denvig/traefik.yml'))
+    })
+  })
+
+  describe('generateDenvigTraefikConfig()', () => {
+    it('should only contain the header when there are no services', () => {
+      const config = generateDenvigTraefikConfig([])
+      ok(config.includes('Managed by denvig'))
+      strictEqual(parse(config), null)
+    })
+
+    it('should route every host to the service port', () => {
+      const config = parse(
+        generateDenvigTraefikConfig([
+          { ...base, cnames: ['www.denvig.localhost'] },
+        ]),
+      )
+
+      deepStrictEqual(config.http.routers['denvig-abc123--api'], {
+        rule: 'Host(`api.denvig.localhost`) || Host(`www.denvig.localhost`)',
+        entryPoints: ['web'],
+        service: 'denvig-abc123--api',
+      })
+      deepStrictEqual(config.http.services['denvig-abc123--api'], {
+        loadBalancer: { servers: [{ url: 'http://127.0.0.1:3000' }] },
+      })
+      strictEqual(config.http.routers['denvig-abc123--api-secure'], undefined)
+      strictEqual(config.tls, undefined)
+    })
+
+    it('should match and strip path prefixes', () => {
+      const config = parse(
+        generateDenvigTraefikConfig([
+          { ...base, path: '/api/v1', stripPrefix: true },
+        ]),
+      )
+
+      const router = config.http.routers['denvig-abc123--api--api-v1']
+      strictEqual(
+        router.rule,
+        '(Host(`api.denvig.localhost`)) && (Path(`/api/v1`) || PathPrefix(`/api/v1/`))',
+      )
+      strictEqual(router.service, 'denvig-abc123--api')
+      deepStrictEqual(router.middlewares, ['denvig-abc123--api--api-v1-strip'])
+      deepStrictEqual(
+        config.http.middlewares['denvig-abc123--api--api-v1-strip'],
+        { stripPrefix: { prefixes: ['/api/v1'] } },
+      )
+    })
+
+    it('should add a TLS router and certificate for secure services', () => {
+      const secure = {
+        sslCertPath: '/certs/fullchain.pem',
+        sslKeyPath: '/certs/privkey.pem',
+      }
+      const config = parse(
+        generateDenvigTraefikConfig([
+          { ...base, ...secure },
+          {
+            ...base,
+            serviceName: 'web',
+            domain: 'web.denvig.localhost',
+            ...secure,
+          },
+        ]),
+      )
+
+      const router = config.http.routers['denvig-abc123--api-secure']
+      deepStrictEqual(router.entryPoints, ['websecure'])
+      deepStrictEqual(router.tls, {})
+      deepStrictEqual(config.tls.certificates, [
+        { certFile: '/certs/fullchain.pem', keyFile: '/certs/privkey.pem' },
+      ])
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, resolve } from 'node:path'
+import { stringify } from 'yaml'
+
+import type { NginxConfigOptions } from './nginx.ts'
+
+/** Entry points the generated routers attach to (Traefik's conventional names). */
+export const TRAEFIK_ENTRY_POINTS = { http: 'web', https: 'websecure' }
+
+/**
+ * Path to the dynamic config for Traefik's file provider. Point
+ * `providers.file.filename` at it with `watch: true` and Traefik picks up
+ * every change without a reload.
+ */
+export function getDenvigTraefikConfigPath(): string {
+  return resolve(homedir(), '.denvig', 'traefik.yml')
+}
+
+type TraefikRouter = {
+  rule: string
+  entryPoints: string[]
+  service: string
+  middlewares?: string[]
+  tls?: Record<string, never>
+}
+
+/**
+ * Generate the Traefik dynamic config: one HTTP router per service route, plus
+ * a TLS router and certificate for secure services, all forwarding to a load
+ * balancer on the service's port. Routes for a path prefix also match the
+ * path (Traefik prefers the longer rule) and strip it through a middleware
+ * when `stripPrefix` is set. Services are sorted by primary domain.
+ */
+export function generateDenvigTraefikConfig(
+  services: NginxConfigOptions[],
+): string {
+  const sorted = [...services].sort(
+    (a, b) =>
+      a.domain.localeCompare(b.domain) ||
+      (a.path ?? '/').localeCompare(b.path ?? '/'),
+  )
+  const header =
+    '# Managed by denvig — do not edit manually\n# https://denvig.com\n'
+  if (sorted.length === 0) {
+    return header
+  }
+
+  const routers: Record<string, TraefikRouter> = {}
+  const loadBalancers: Record<
+    string,
+    { loadBalancer: { servers: Array<{ url: string }> } }
+  > = {}
+  const middlewares: Record<string, { stripPrefix: { prefixes: string[] } }> =
+    {}
+  const certificates: Array<{ certFile: string; keyFile: string }> = []
+
+  for (const service of sorted) {
+    const name = `denvig-${service.projectId}--${service.serviceName}`
+    const path = service.path ?? '/'
+    const routerName =
+      path === '/'
+        ? name
+        : `${name}--${path.slice(1).replace(/[^a-zA-Z0-9]+/g, '-')}`
+    const hosts = [service.domain, ...(service.cnames || [])]
+      .map((domain) => `Host(\`${domain}\`)`)
+      .join(' || ')
+    const rule =
+      path === '/'
+        ? hosts
+        : `(${hosts}) && (Path(\`${path}\`) || PathPrefix(\`${path}/\`))`
+
+    let routerMiddlewares: string[] | undefined
+    if (path !== '/' && service.stripPrefix) {
+      middlewares[`${routerName}-strip`] = { stripPrefix: { prefixes: [path] } }
+      routerMiddlewares = [`${routerName}-strip`]
+    }
+
+    routers[routerName] = {
+      rule,
+      entryPoints: [TRAEFIK_ENTRY_POINTS.http],
+      service: name,
+      ...(routerMiddlewares ? { middlewares: routerMiddlewares } : {}),
+    }
+    if (service.sslCertPath && service.sslKeyPath) {
+      routers[`${routerName}-secure`] = {
+        rule,
+        entryPoints: [TRAEFIK_ENTRY_POINTS.https],
+        service: name,
+        ...(routerMiddlewares ? { middlewares: routerMiddlewares } : {}),
+        tls: {},
+      }
+      if (!certificates.some((cert) => cert.certFile === service.sslCertPath)) {
+        certificates.push({
+          certFile: service.sslCertPath,
+          keyFile: service.sslKeyPath,
+        })
+      }
+    }
+    loadBalancers[name] = {
+      loadBalancer: { servers: [{ url: `http://127.0.0.1:${service.port}` }] },
+    }
+  }
+
+  const config = {
+    http: {
+      routers,
+      ...(Object.keys(middlewares).length > 0 ? { middlewares } : {}),
+      services: loadBalancers,
+    },
+    ...(certificates.length > 0 ? { tls: { certificates } } : {}),
+  }
+  return `${header}\n${stringify(config)}`
+}
+
+/**
+ * Write the Traefik dynamic config file.
+ */
+export async function writeDenvigTraefikConfig(
+  services: NginxConfigOptions[],
+): Promise<{ success: boolean; message?: string }> {
+  try {
+    const path = getDenvigTraefikConfigPath()
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(path, generateDenvigTraefikConfig(services), 'utf-8')
+    return { success: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return {
+      success: false,
+      message: `Failed to write Traefik config: ${message}`,
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { type FSWatcher, watch } from 'node:fs'
+import { mkdir } from 'node:fs/promises'
+import { basename, dirname } from 'node:path'
+
+/** Delay before reloading, so a burst of state writes reloads once. */
+const RELOAD_DEBOUNCE_MS = 100
+
+/**
+ * Call `onChange` whenever `path` is written. The parent directory is watched
+ * rather than the file, since the state file is replaced on every write.
+ * Returns a function that stops watching.
+ */
+export const watchForReload = async (
+  path: string,
+  onChange: () => void,
+): Promise<() => void> => {
+  await mkdir(dirname(path), { recursive: true })
+  let timer: NodeJS.Timeout | null = null
+  const watcher: FSWatcher = watch(dirname(path), (_, filename) => {
+    if (filename !== basename(path)) return
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      onChange()
+    }, RELOAD_DEBOUNCE_MS)
+  })
+  return () => {
+    watcher.close()
+    if (timer) clearTimeout(timer)
+  }
+}
@@ -0,0 +1,149 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  discoverWorkspace,
+  filterWorkspacePackages,
+  globToRegExp,
+  readWorkspacePatterns,
+} from './workspaces.ts'
+
+let root = ''
+
+const writePackage = async (
+  directory: string,
+  content: Record<string, unknown>,
+) => {
+  await mkdir(join(root, directory), { recursive: true })
+  await writeFile(
+    join(root, directory, 'package.json'),
+    JSON.stringify(content),
+  )
+}
+
+describe('workspaces', () => {
+  beforeEach(() => {
+    root = mkdtempSync(`${tmpdir()}/denvig-workspaces-`)
+  })
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  describe('readWorkspacePatterns()', () => {
+    it('should read packages from pnpm-workspace.yaml', async () => {
+      await writeFile(
+        join(root, 'pnpm-workspace.yaml'),
+        'packages:\n  - packages/*\n',
+      )
+      deepStrictEqual(await readWorkspacePatterns(root), {
+        manager: 'pnpm',
+        patterns: ['packages/*'],
+      })
+    })
+
+    it('should read workspaces from package.json', async () => {
+      await writePackage('.', { workspaces: ['apps/*'] })
+      deepStrictEqual(await readWorkspacePatterns(root), {
+        manager: 'npm',
+        patterns: ['apps/*'],
+      })
+    })
+
+    it('should detect yarn and the object form of workspaces', async () => {
+      await writePackage('.', { workspaces: { packages: ['libs/*'] } })
+      await writeFile(join(root, 'yarn.lock'), '')
+      deepStrictEqual(await readWorkspacePatterns(root), {
+        manager: 'yarn',
+        patterns: ['libs/*'],
+      })
+    })
+
+    it('should return null outside a workspace', async () => {
+      await writePackage('.', { name: 'single' })
+      strictEqual(await readWorkspacePatterns(root), null)
+    })
+  })
+
+  describe('discoverWorkspace()', () => {
+    it('should list packages with their workspace dependencies', async () => {
+      await writePackage('.', { workspaces: ['packages/*', '!packages/skip'] })
+      await writePackage('packages/core', {
+        name: '@acme/core',
+        scripts: { build: 'tsc' },
+        dependencies: { zod: '^4.0.0' },
+      })
+      await writePackage('packages/web', {
+        name: '@acme/web',
+        scripts: { build: 'vite build' },
+        devDependencies: { '@acme/core': 'workspace:*' },
+      })
+      await writePackage('packages/skip', { name: '@acme/skip' })
+      await writePackage('packages/web/node_modules/dep', { name: 'dep' })
+
+      const workspace = await discoverWorkspace(root)
+      strictEqual(workspace?.manager, 'npm')
+      deepStrictEqual(
+        workspace?.packages.map((pkg) => ({
+          name: pkg.name,
+          relativePath: pkg.relativePath,
+          dependencies: pkg.dependencies,
+        })),
+        [
+          {
+            name: '@acme/core',
+            relativePath: 'packages/core',
+            dependencies: [],
+          },
+          {
+            name: '@acme/web',
+            relativePath: 'packages/web',
+            dependencies: ['@acme/core'],
+          },
+        ],
+      )
+    })
+  })
+
+  describe('globToRegExp()', () => {
+    it('should match single and multiple path segments', () => {
+      strictEqual(globToRegExp('@acme/*').test('@acme/web'), true)
+      strictEqual(globToRegExp('apps/*').test('apps/web/nested'), false)
+      strictEqual(globToRegExp('apps/**').test('apps/web/nested'), true)
+      strictEqual(globToRegExp('a.b').test('axb'), false)
+    })
+
+    it('should let **/ match no directories', () => {
+      strictEqual(globToRegExp('**/*.go').test('main.go'), true)
+      strictEqual(globToRegExp('**/*.go').test('cmd/api/main.go'), true)
+      strictEqual(globToRegExp('src/**/*.py').test('src/app.py'), true)
+      strictEqual(globToRegExp('src/**/*.py').test('lib/app.py'), false)
+    })
+  })
+
+  describe('filterWorkspacePackages()', () => {
+    it('should match names or relative paths', () => {
+      const pkg = (name: string, relativePath: string) => ({
+        name,
+        path: join(root, relativePath),
+        relativePath,
+        scripts: {},
+        dependencies: [],
+      })
+      const packages = [
+        pkg('@acme/core', 'packages/core'),
+        pkg('@acme/web', 'apps/web'),
+        pkg('docs', 'docs'),
+      ]
+      deepStrictEqual(
+        filterWorkspacePackages(packages, '@acme/core, apps/*').map(
+          (p) => p.name,
+        ),
+        ['@acme/core', '@acme/web'],
+      )
+    })
+  })
+})
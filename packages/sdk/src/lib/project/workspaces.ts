@@ -0,0 +1,178 @@
+import { glob, readFile } from 'node:fs/promises'
+import { join, relative } from 'node:path'
+import { parse } from 'yaml'
+
+import { pathExists } from '../safeReadFile.ts'
+
+/** Package managers whose workspaces denvig can discover and run. */
+export type WorkspaceManager = 'pnpm' | 'yarn' | 'npm'
+
+/** A package in a pnpm, yarn or npm workspace. */
+export type WorkspacePackage = {
+  name: string
+  /** Absolute path of the package directory. */
+  path: string
+  /** Path of the package directory relative to the workspace root. */
+  relativePath: string
+  scripts: Record<string, string>
+  /** Names of the other workspace packages this one depends on. */
+  dependencies: string[]
+}
+
+export type Workspace = {
+  manager: WorkspaceManager
+  packages: WorkspacePackage[]
+}
+
+type WorkspacePackageJson = {
+  name?: string
+  scripts?: Record<string, string>
+  dependencies?: Record<string, string>
+  devDependencies?: Record<string, string>
+  optionalDependencies?: Record<string, string>
+  peerDependencies?: Record<string, string>
+  workspaces?: string[] | { packages?: string[] }
+}
+
+const readJson = async (path: string): Promise<WorkspacePackageJson | null> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf-8')) as WorkspacePackageJson
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read the workspace package globs and the package manager that owns them:
+ * `packages` in `pnpm-workspace.yaml`, or `workspaces` in the root
+ * `package.json` (yarn when there is a `yarn.lock`, npm otherwise). Returns
+ * null when the directory is not a workspace root.
+ */
+export const readWorkspacePatterns = async (
+  rootPath: string,
+): Promise<{ manager: WorkspaceManager; patterns: string[] } | null> => {
+  try {
+    const content = await readFile(
+      join(rootPath, 'pnpm-workspace.yaml'),
+      'utf-8',
+    )
+    const config = parse(content) as { packages?: string[] } | null
+    if (Array.isArray(config?.packages)) {
+      return { manager: 'pnpm', patterns: config.packages }
+    }
+  } catch {
+    // Not a pnpm workspace, fall through to package.json workspaces.
+  }
+
+  const packageJson = await readJson(join(rootPath, 'package.json'))
+  const workspaces = Array.isArray(packageJson?.workspaces)
+    ? packageJson.workspaces
+    : packageJson?.workspaces?.packages
+  if (!Array.isArray(workspaces)) return null
+
+  const manager = (await pathExists(join(rootPath, 'yarn.lock')))
+    ? 'yarn'
+    : 'npm'
+  return { manager, patterns: workspaces }
+}
+
+/**
+ * Discover the packages of a workspace, sorted by relative path. Patterns
+ * starting with `!` exclude packages; `node_modules` is always excluded.
+ * Returns null when the directory is not a workspace root.
+ */
+export const discoverWorkspace = async (
+  rootPath: string,
+): Promise<Workspace | null> => {
+  const config = await readWorkspacePatterns(rootPath)
+  if (!config) return null
+
+  const include = config.patterns.filter((pattern) => !pattern.startsWith('!'))
+  const exclude = config.patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => globToRegExp(pattern.slice(1).replace(/\/$/, '')))
+
+  const directories = new Set<string>()
+  for await (const file of glob(
+    include.map((pattern) => `${pattern.replace(/\/$/, '')}/package.json`),
+    { cwd: rootPath },
+  )) {
+    const directory = relative(rootPath, join(rootPath, file, '..'))
+    if (directory.split('/').includes('node_modules')) continue
+    if (exclude.some((regexp) => regexp.test(directory))) continue
+    directories.add(directory)
+  }
+
+  const packages: WorkspacePackage[] = []
+  for (const directory of [...directories].sort()) {
+    const packageJson = await readJson(
+      join(rootPath, directory, 'package.json'),
+    )
+    if (!packageJson) continue
+    packages.push({
+      name: packageJson.name ?? directory,
+      path: join(rootPath, directory),
+      relativePath: directory,
+      scripts: packageJson.scripts ?? {},
+      dependencies: Object.keys({
+        ...packageJson.dependencies,
+        ...packageJson.devDependencies,
+        ...packageJson.optionalDependencies,
+        ...packageJson.peerDependencies,
+      }),
+    })
+  }
+
+  // Keep only dependencies on other packages in the workspace.
+  const names = new Set(packages.map((pkg) => pkg.name))
+  for (const pkg of packages) {
+    pkg.dependencies = pkg.dependencies
+      .filter((name) => names.has(name) && name !== pkg.name)
+      .sort()
+  }
+
+  return { manager: config.manager, packages }
+}
+
+/**
+ * Convert a simple glob (`*` within a path segment, `**` across segments)
+ * into an anchored regular expression. A `**` path segment also matches zero
+ * directories, so a glob for Go files under any directory matches `main.go`.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('**/')
+    .map((segments) =>
+      segments
+        .split('**')
+        .map((part) =>
+          part
+            .split('*')
+            .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[^/]*'),
+        )
+        .join('.*'),
+    )
+    .join('(?:.*/)?')
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Select workspace packages whose name or relative path matches any of the
+ * comma-separated glob patterns (e.g. `@acme/*,apps/web`).
+ */
+export const filterWorkspacePackages = (
+  packages: WorkspacePackage[],
+  filter: string,
+): WorkspacePackage[] => {
+  const patterns = filter
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .map(globToRegExp)
+  return packages.filter((pkg) =>
+    patterns.some(
+      (regexp) => regexp.test(pkg.name) || regexp.test(pkg.relativePath),
+    ),
+  )
+}
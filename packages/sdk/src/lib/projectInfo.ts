@@ -1,9 +1,10 @@
-import launchctl, { type LaunchctlListItem } from './services/launchctl.ts'
 import { ServiceManager } from './services/manager.ts'
+import { getServiceSupervisor } from './services/supervisor.ts'
 
 import type { ProjectConfigSchema } from '../schemas/config.ts'
 import type { ProjectWorktree } from './project/git.ts'
 import type { DenvigProject } from './project.ts'
+import type { LaunchctlListItem } from './services/launchctl.ts'
 
 export type ServiceStatus = 'running' | 'stopped' | 'none'
 
@@ -19,9 +20,9 @@ export type ProjectInfo = {
 }
 
 export type GetProjectInfoOptions = {
-  /** Pre-fetched launchctl list to avoid repeated shell calls */
+  /** Pre-fetched supervisor list to avoid repeated shell calls */
   launchctlList?: LaunchctlListItem[]
-  /** Include service status in the response (requires launchctl calls) */
+  /** Include service status in the response (requires supervisor calls) */
   includeServiceStatus?: boolean
 }
 
@@ -48,9 +49,9 @@ export const getProjectInfo = async (
     const serviceNames = Object.keys(services)
 
     if (serviceNames.length > 0) {
-      // Use provided launchctl list or fetch it
+      // Use provided supervisor list or fetch it
       const launchctlList =
-        options?.launchctlList ?? (await launchctl.list('denvig.'))
+        options?.launchctlList ?? (await getServiceSupervisor().list('denvig.'))
 
       const manager = new ServiceManager(active)
       let hasRunningService = false
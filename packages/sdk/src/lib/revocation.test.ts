@@ -0,0 +1,277 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import {
+  createHash,
+  generateKeyPairSync,
+  verify,
+  X509Certificate,
+} from 'node:crypto'
+import { before, describe, it } from 'node:test'
+import forge from 'node-forge'
+
+import {
+  generateCaCert,
+  generateDomainCert,
+  generateIntermediateCaCert,
+  issueDomainCert,
+} from './certs.ts'
+import {
+  answerOcspRequest,
+  buildCrl,
+  getCertSerialNumber,
+  revocationUrls,
+} from './revocation.ts'
+
+const { asn1 } = forge
+
+const sequence = (value: forge.asn1.Asn1[]) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, value)
+const primitive = (type: number, bytes: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, type, false, bytes)
+const children = (value: forge.asn1.Asn1) => value.value as forge.asn1.Asn1[]
+const fromDer = (der: Buffer) => asn1.fromDer(der.toString('binary'))
+
+/** Check the signature of a CRL or basic OCSP response against a cert. */
+const verifySigned = (signed: forge.asn1.Asn1, certPem: string): boolean => {
+  const [tbs, , signature] = children(signed)
+  return verify(
+    'sha256',
+    Buffer.from(asn1.toDer(tbs).getBytes(), 'binary'),
+    new X509Certificate(certPem).publicKey,
+    Buffer.from((signature.value as string).slice(1), 'binary'),
+  )
+}
+
+/** A DER OCSP request for `serial`, identifying `issuer` by SHA-1 hashes. */
+const ocspRequest = (
+  issuer: forge.pki.Certificate,
+  serial: string,
+  nonce?: string,
+): Buffer => {
+  const sha1 = (bytes: string) =>
+    createHash('sha1').update(Buffer.from(bytes, 'binary')).digest('binary')
+  const certId = sequence([
+    sequence([
+      primitive(asn1.Type.OID, asn1.oidToDer('1.3.14.3.2.26').getBytes()),
+      primitive(asn1.Type.NULL, ''),
+    ]),
+    primitive(
+      asn1.Type.OCTETSTRING,
+      sha1(
+        asn1
+          .toDer(forge.pki.distinguishedNameToAsn1(issuer.subject))
+          .getBytes(),
+      ),
+    ),
+    primitive(
+      asn1.Type.OCTETSTRING,
+      sha1(
+        asn1
+          .toDer(forge.pki.publicKeyToRSAPublicKey(issuer.publicKey))
+          .getBytes(),
+      ),
+    ),
+    primitive(asn1.Type.INTEGER, forge.util.hexToBytes(serial)),
+  ])
+  const extensions = nonce
+    ? [
+        asn1.create(asn1.Class.CONTEXT_SPECIFIC, 2, true, [
+          sequence([
+            sequence([
+              primitive(
+                asn1.Type.OID,
+                asn1.oidToDer('1.3.6.1.5.5.7.48.1.2').getBytes(),
+              ),
+              primitive(
+                asn1.Type.OCTETSTRING,
+                asn1.toDer(primitive(asn1.Type.OCTETSTRING, nonce)).getBytes(),
+              ),
+            ]),
+          ]),
+        ]),
+      ]
+    : []
+  const request = sequence([
+    sequence([sequence([sequence([certId])]), ...extensions]),
+  ])
+  return Buffer.from(asn1.toDer(request).getBytes(), 'binary')
+}
+
+/** The response status and basic response of a DER OCSP response. */
+const parseOcspResponse = (der: Buffer) => {
+  const [status, bytes] = children(fromDer(der))
+  const basic = bytes
+    ? asn1.fromDer(children(children(bytes)[0])[1].value as string)
+    : null
+  return { status: (status.value as string).charCodeAt(0), basic }
+}
+
+describe('revocationUrls()', () => {
+  it('is empty without a gateway URL', () => {
+    deepStrictEqual(revocationUrls({ url: null, ocsp: true }), {})
+  })
+
+  it('points at the builtin gateway paths', () => {
+    deepStrictEqual(revocationUrls({ url: 'http://localhost/', ocsp: false }), {
+      crlUrl: 'http://localhost/.denvig/ca/intermediate.crl',
+    })
+    deepStrictEqual(
+      revocationUrls({ url: 'http://127.0.0.1:8080', ocsp: true }),
+      {
+        crlUrl: 'http://127.0.0.1:8080/.denvig/ca/intermediate.crl',
+        ocspUrl: 'http://127.0.0.1:8080/.denvig/ca/ocsp',
+      },
+    )
+  })
+})
+
+describe('getCertSerialNumber()', () => {
+  it('returns the encoded serial of RSA and EC certificates', async () => {
+    const ca = await generateCaCert()
+    const { fullchain } = await generateDomainCert(
+      'a.localhost',
+      ca.cert,
+      ca.key,
+    )
+    strictEqual(
+      await getCertSerialNumber(fullchain),
+      forge.pki.certificateFromPem(fullchain).serialNumber,
+    )
+
+    const { publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const ecPem = await issueDomainCert(
+      ['b.localhost'],
+      publicKey.export({ type: 'spki', format: 'der' }),
+      ca.cert,
+      ca.key,
+    )
+    // forge can't parse certificates for EC keys, which is why the DER is read.
+    ok(/^[0-9a-f]{32}$/.test(await getCertSerialNumber(ecPem)))
+  })
+})
+
+describe('revocation data', () => {
+  let issuer: Awaited<ReturnType<typeof generateIntermediateCaCert>>
+  let otherIssuer: Awaited<ReturnType<typeof generateCaCert>>
+  const revoked = [
+    {
+      serialNumber: '0a1b2c3d',
+      revokedAt: '2026-01-02T03:04:05.000Z',
+      name: 'app.localhost',
+      domains: ['app.localhost'],
+    },
+  ]
+
+  before(async () => {
+    const root = await generateCaCert()
+    issuer = await generateIntermediateCaCert(root.cert, root.key)
+    otherIssuer = await generateCaCert()
+  })
+
+  describe('buildCrl()', () => {
+    it('lists the revoked serials, signed by the issuer', async () => {
+      const now = new Date('2026-02-01T00:00:00Z')
+      const crl = fromDer(
+        await buildCrl(issuer, { crlNumber: 7, revoked }, now),
+      )
+      ok(verifySigned(crl, issuer.certPem))
+
+      const [version, , , thisUpdate, nextUpdate, entries, extensions] =
+        children(children(crl)[0])
+      strictEqual(asn1.derToInteger(version.value as string), 1)
+      deepStrictEqual(asn1.utcTimeToDate(thisUpdate.value as string), now)
+      strictEqual(
+        asn1.utcTimeToDate(nextUpdate.value as string).getTime(),
+        now.getTime() + 7 * 24 * 60 * 60 * 1000,
+      )
+      const [serial, revokedAt] = children(children(entries)[0])
+      strictEqual(forge.util.bytesToHex(serial.value as string), '0a1b2c3d')
+      deepStrictEqual(
+        asn1.utcTimeToDate(revokedAt.value as string),
+        new Date(revoked[0].revokedAt),
+      )
+      const crlNumber = children(children(extensions)[0])[0]
+      strictEqual(
+        asn1.derToInteger(
+          asn1.fromDer(children(crlNumber)[1].value as string).value as string,
+        ),
+        7,
+      )
+    })
+
+    it('omits the revoked list when nothing was revoked', async () => {
+      const crl = fromDer(await buildCrl(issuer, { crlNumber: 1, revoked: [] }))
+      const fields = children(children(crl)[0])
+      strictEqual(fields.length, 6)
+      strictEqual(fields[5].tagClass, asn1.Class.CONTEXT_SPECIFIC)
+    })
+  })
+
+  describe('answerOcspRequest()', () => {
+    const certStatus = (der: Buffer) => {
+      const { status, basic } = parseOcspResponse(der)
+      strictEqual(status, 0)
+      ok(basic)
+      const responses = children(children(children(basic)[0])[2])
+      return children(responses[0])[1]
+    }
+
+    it('reports revoked serials with their revocation time', async () => {
+      const der = await answerOcspRequest(
+        ocspRequest(issuer.cert, '0a1b2c3d'),
+        issuer,
+        revoked,
+      )
+      const { basic } = parseOcspResponse(der)
+      ok(basic && verifySigned(basic, issuer.certPem))
+      const status = certStatus(der)
+      strictEqual(status.type, 1)
+      deepStrictEqual(
+        asn1.generalizedTimeToDate(children(status)[0].value as string),
+        new Date(revoked[0].revokedAt),
+      )
+    })
+
+    it('reports other serials as good', async () => {
+      const der = await answerOcspRequest(
+        ocspRequest(issuer.cert, '0a1b2c3e'),
+        issuer,
+        revoked,
+      )
+      strictEqual(certStatus(der).type, 0)
+    })
+
+    it('reports certificates of other issuers as unknown', async () => {
+      const der = await answerOcspRequest(
+        ocspRequest(otherIssuer.cert, '0a1b2c3d'),
+        issuer,
+        revoked,
+      )
+      strictEqual(certStatus(der).type, 2)
+    })
+
+    it('echoes the request nonce', async () => {
+      const der = await answerOcspRequest(
+        ocspRequest(issuer.cert, '01', 'nonce-1234'),
+        issuer,
+        revoked,
+      )
+      const { basic } = parseOcspResponse(der)
+      ok(basic)
+      const extensions = children(children(basic)[0])[3]
+      const nonce = children(children(children(extensions)[0])[0])[1]
+      strictEqual(
+        asn1.fromDer(nonce.value as string).value as string,
+        'nonce-1234',
+      )
+    })
+
+    it('answers malformed requests with malformedRequest', async () => {
+      const der = await answerOcspRequest(
+        Buffer.from('not an ocsp request'),
+        issuer,
+        revoked,
+      )
+      deepStrictEqual(parseOcspResponse(der), { status: 1, basic: null })
+    })
+  })
+})
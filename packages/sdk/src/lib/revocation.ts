@@ -0,0 +1,389 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+
+import { getCaDir, loadIssuingCa } from './certs.ts'
+import { getGlobalConfig } from './config.ts'
+
+import type forge from 'node-forge'
+import type { GlobalConfigSchema } from '../schemas/config.ts'
+import type { RevocationUrls } from './certs.ts'
+
+let _nodeForge: typeof forge | undefined
+const importNodeForge = async (): Promise<typeof forge> => {
+  if (!_nodeForge) {
+    _nodeForge = (await import('node-forge')).default
+  }
+  return _nodeForge
+}
+
+/** Path the builtin gateway serves the CRL and OCSP responder under. */
+export const REVOCATION_PATH = '/.denvig/ca'
+
+/** How long a CRL or OCSP response is valid before clients fetch a new one. */
+const REVOCATION_VALIDITY_MS = 7 * 24 * 60 * 60 * 1000
+
+const SHA256_WITH_RSA_OID = '1.2.840.113549.1.1.11'
+const CRL_NUMBER_OID = '2.5.29.20'
+const AUTHORITY_KEY_IDENTIFIER_OID = '2.5.29.35'
+const OCSP_BASIC_OID = '1.3.6.1.5.5.7.48.1.1'
+const OCSP_NONCE_OID = '1.3.6.1.5.5.7.48.1.2'
+
+/** Hash algorithms OCSP clients identify the issuer with. */
+const OCSP_HASH_ALGORITHMS: Record<string, string> = {
+  '1.3.14.3.2.26': 'sha1',
+  '2.16.840.1.101.3.4.2.1': 'sha256',
+  '2.16.840.1.101.3.4.2.2': 'sha384',
+  '2.16.840.1.101.3.4.2.3': 'sha512',
+}
+
+/** A certificate revoked with `denvig certs revoke`. */
+export type RevokedCertificate = {
+  /** Hex of the certificate's serial number, as encoded in it. */
+  serialNumber: string
+  /** When it was revoked, as an ISO 8601 timestamp. */
+  revokedAt: string
+  /** The certificate directory name. */
+  name: string
+  domains: string[]
+}
+
+/** The revocations recorded for the intermediate CA. */
+export type RevocationList = {
+  /** Number of the last CRL written, incremented on every write. */
+  crlNumber: number
+  revoked: RevokedCertificate[]
+}
+
+/** The CA that signs revocation data: the intermediate CA. */
+type RevocationIssuer = {
+  cert: forge.pki.Certificate
+  key: forge.pki.rsa.PrivateKey
+}
+
+/** Path to the list of revoked certificates. */
+export const getRevocationListPath = (): string =>
+  resolve(getCaDir(), 'revoked.json')
+
+/** Path to the PEM CRL signed by the intermediate CA. */
+export const getCrlPath = (): string =>
+  resolve(getCaDir(), 'intermediateCA.crl.pem')
+
+/**
+ * The CRL and OCSP URLs embedded in issued certificates, from the
+ * `certs.revocation` config. Empty unless a gateway URL is configured.
+ */
+export const revocationUrls = (
+  config: GlobalConfigSchema['certs']['revocation'],
+): RevocationUrls => {
+  if (!config.url) return {}
+  const base = `${config.url.replace(/\/+$/, '')}${REVOCATION_PATH}`
+  return {
+    crlUrl: `${base}/intermediate.crl`,
+    ...(config.ocsp ? { ocspUrl: `${base}/ocsp` } : {}),
+  }
+}
+
+/** `revocationUrls()` for the global config. */
+export const loadRevocationUrls = async (): Promise<RevocationUrls> =>
+  revocationUrls((await getGlobalConfig()).certs.revocation)
+
+const toBuffer = (bytes: string): Buffer => Buffer.from(bytes, 'binary')
+
+/** ASN.1 builders for the DER structures below. */
+const derBuilders = (nodeForge: typeof forge) => {
+  const { asn1 } = nodeForge
+  const derBytes = (value: forge.asn1.Asn1): string =>
+    asn1.toDer(value).getBytes()
+  const primitive = (type: number, bytes: string) =>
+    asn1.create(asn1.Class.UNIVERSAL, type, false, bytes)
+  const sequence = (value: forge.asn1.Asn1[]) =>
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, value)
+  const oid = (id: string) =>
+    primitive(asn1.Type.OID, asn1.oidToDer(id).getBytes())
+  const signatureAlgorithm = () =>
+    sequence([oid(SHA256_WITH_RSA_OID), primitive(asn1.Type.NULL, '')])
+
+  return {
+    derBytes,
+    primitive,
+    sequence,
+    oid,
+    integer: (bytes: string) => primitive(asn1.Type.INTEGER, bytes),
+    utcTime: (date: Date) =>
+      primitive(asn1.Type.UTCTIME, asn1.dateToUtcTime(date)),
+    generalizedTime: (date: Date) =>
+      primitive(asn1.Type.GENERALIZEDTIME, asn1.dateToGeneralizedTime(date)),
+    explicit: (tag: number, value: forge.asn1.Asn1[]) =>
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, tag, true, value),
+    extension: (id: string, value: forge.asn1.Asn1) =>
+      sequence([oid(id), primitive(asn1.Type.OCTETSTRING, derBytes(value))]),
+    /** Sign `tbs` and wrap it with the algorithm and signature, as X.509 does. */
+    signed: (tbs: forge.asn1.Asn1, key: forge.pki.rsa.PrivateKey) => {
+      const md = nodeForge.md.sha256.create()
+      md.update(derBytes(tbs))
+      return sequence([
+        tbs,
+        signatureAlgorithm(),
+        primitive(asn1.Type.BITSTRING, `\0${key.sign(md)}`),
+      ])
+    },
+    signatureAlgorithm,
+  }
+}
+
+/**
+ * The serial number of a PEM certificate (the first in a bundle), as the hex
+ * of its encoded bytes. Read from the DER directly because forge can't parse
+ * certificates for non-RSA keys.
+ */
+export const getCertSerialNumber = async (certPem: string): Promise<string> => {
+  const forge = await importNodeForge()
+  const message = forge.pem
+    .decode(certPem)
+    .find((entry) => entry.type === 'CERTIFICATE')
+  if (!message) throw new Error('No certificate found')
+  const tbs = (forge.asn1.fromDer(message.body).value as forge.asn1.Asn1[])[0]
+  const fields = tbs.value as forge.asn1.Asn1[]
+  // The version is an optional explicit [0] before the serial number.
+  const serial =
+    fields[0].tagClass === forge.asn1.Class.CONTEXT_SPECIFIC ? 1 : 0
+  return forge.util.bytesToHex(fields[serial].value as string)
+}
+
+/**
+ * Build a v2 CRL listing the revoked certificates, signed by `issuer` and
+ * valid for a week from `now`. Returns the DER encoding.
+ */
+export const buildCrl = async (
+  issuer: RevocationIssuer,
+  list: RevocationList,
+  now: Date = new Date(),
+): Promise<Buffer> => {
+  const forge = await importNodeForge()
+  const der = derBuilders(forge)
+  const revoked = list.revoked.map((cert) =>
+    der.sequence([
+      der.integer(forge.util.hexToBytes(cert.serialNumber)),
+      der.utcTime(new Date(cert.revokedAt)),
+    ]),
+  )
+  const tbs = der.sequence([
+    // v2, required for extensions.
+    der.integer(forge.asn1.integerToDer(1).getBytes()),
+    der.signatureAlgorithm(),
+    forge.pki.distinguishedNameToAsn1(issuer.cert.subject),
+    der.utcTime(now),
+    der.utcTime(new Date(now.getTime() + REVOCATION_VALIDITY_MS)),
+    ...(revoked.length > 0 ? [der.sequence(revoked)] : []),
+    der.explicit(0, [
+      der.sequence([
+        der.extension(
+          CRL_NUMBER_OID,
+          der.integer(forge.asn1.integerToDer(list.crlNumber).getBytes()),
+        ),
+        der.extension(
+          AUTHORITY_KEY_IDENTIFIER_OID,
+          der.sequence([
+            forge.asn1.create(
+              forge.asn1.Class.CONTEXT_SPECIFIC,
+              0,
+              false,
+              issuer.cert.generateSubjectKeyIdentifier().getBytes(),
+            ),
+          ]),
+        ),
+      ]),
+    ]),
+  ])
+  return toBuffer(der.derBytes(der.signed(tbs, issuer.key)))
+}
+
+/** The revocations recorded so far; empty when nothing was revoked. */
+export const readRevocationList = async (): Promise<RevocationList> => {
+  try {
+    return JSON.parse(
+      await readFile(getRevocationListPath(), 'utf-8'),
+    ) as RevocationList
+  } catch {
+    return { crlNumber: 0, revoked: [] }
+  }
+}
+
+/**
+ * Record revoked certificates and write a new CRL listing every revocation
+ * so far, signed by the intermediate CA. Pass no certificates to just
+ * refresh the CRL.
+ */
+export const writeRevocations = async (
+  revoked: RevokedCertificate[] = [],
+): Promise<RevocationList> => {
+  const forge = await importNodeForge()
+  const previous = await readRevocationList()
+  const list: RevocationList = {
+    crlNumber: previous.crlNumber + 1,
+    revoked: [...previous.revoked, ...revoked],
+  }
+  const crl = await buildCrl(await loadIssuingCa(), list)
+  await mkdir(getCaDir(), { recursive: true })
+  await writeFile(
+    getCrlPath(),
+    forge.pem.encode({ type: 'X509 CRL', body: crl.toString('binary') }),
+  )
+  await writeFile(getRevocationListPath(), `${JSON.stringify(list, null, 2)}\n`)
+  return list
+}
+
+/**
+ * The current CRL as DER, rewritten first when it is missing or expires
+ * within a day, so the gateway never serves a stale one.
+ */
+export const loadCrl = async (): Promise<Buffer> => {
+  const forge = await importNodeForge()
+  const read = async () =>
+    toBuffer(forge.pem.decode(await readFile(getCrlPath(), 'utf-8'))[0].body)
+  try {
+    const crl = await read()
+    const tbs = (
+      forge.asn1.fromDer(crl.toString('binary')).value as forge.asn1.Asn1[]
+    )[0]
+    const nextUpdate = (tbs.value as forge.asn1.Asn1[])[4]
+    const expires = forge.asn1.utcTimeToDate(nextUpdate.value as string)
+    if (expires.getTime() - Date.now() > 24 * 60 * 60 * 1000) return crl
+  } catch {}
+  await writeRevocations()
+  return read()
+}
+
+/**
+ * Answer a DER OCSP request for certificates issued by `issuer`: `good`
+ * unless revoked, and `unknown` for other issuers. The response is signed by
+ * the issuer itself and echoes the request nonce. Malformed requests get a
+ * `malformedRequest` response rather than an error.
+ */
+export const answerOcspRequest = async (
+  request: Buffer,
+  issuer: RevocationIssuer,
+  revoked: RevokedCertificate[],
+  now: Date = new Date(),
+): Promise<Buffer> => {
+  const forge = await importNodeForge()
+  const { asn1 } = forge
+  const der = derBuilders(forge)
+  const children = (value: forge.asn1.Asn1 | undefined) =>
+    (value?.value ?? []) as forge.asn1.Asn1[]
+
+  let requests: forge.asn1.Asn1[]
+  let nonce: forge.asn1.Asn1 | undefined
+  try {
+    const fields = children(
+      children(asn1.fromDer(request.toString('binary')))[0],
+    )
+    const requestList = fields.find(
+      (field) =>
+        field.tagClass === asn1.Class.UNIVERSAL &&
+        field.type === asn1.Type.SEQUENCE,
+    )
+    if (!requestList) throw new Error('No requests')
+    requests = children(requestList)
+    const extensions = fields.find(
+      (field) =>
+        field.tagClass === asn1.Class.CONTEXT_SPECIFIC && field.type === 2,
+    )
+    nonce = children(children(extensions)[0]).find(
+      (ext) =>
+        asn1.derToOid(children(ext)[0].value as string) === OCSP_NONCE_OID,
+    )
+  } catch {
+    // malformedRequest
+    return toBuffer(
+      der.derBytes(der.sequence([der.primitive(asn1.Type.ENUMERATED, '\x01')])),
+    )
+  }
+
+  const issuerName = der.derBytes(
+    forge.pki.distinguishedNameToAsn1(issuer.cert.subject),
+  )
+  const issuerKey = der.derBytes(
+    forge.pki.publicKeyToRSAPublicKey(issuer.cert.publicKey),
+  )
+  const revokedAt = new Map(
+    revoked.map((cert) => [cert.serialNumber, cert.revokedAt]),
+  )
+
+  const responses = requests.map((single) => {
+    const certId = children(single)[0]
+    const [hashAlgorithm, nameHash, keyHash, serial] = children(certId)
+    const algorithm =
+      OCSP_HASH_ALGORITHMS[
+        asn1.derToOid(children(hashAlgorithm)[0].value as string)
+      ]
+    const hash = (bytes: string) =>
+      algorithm &&
+      createHash(algorithm).update(toBuffer(bytes)).digest('binary')
+    const fromIssuer =
+      !!algorithm &&
+      hash(issuerName) === nameHash.value &&
+      hash(issuerKey) === keyHash.value
+    const revokedTime = revokedAt.get(
+      forge.util.bytesToHex(serial.value as string),
+    )
+
+    let status: forge.asn1.Asn1
+    if (!fromIssuer) {
+      // unknown [2] IMPLICIT NULL
+      status = asn1.create(asn1.Class.CONTEXT_SPECIFIC, 2, false, '')
+    } else if (revokedTime) {
+      status = der.explicit(1, [der.generalizedTime(new Date(revokedTime))])
+    } else {
+      // good [0] IMPLICIT NULL
+      status = asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, false, '')
+    }
+    return der.sequence([
+      certId,
+      status,
+      der.generalizedTime(now),
+      der.explicit(0, [
+        der.generalizedTime(new Date(now.getTime() + REVOCATION_VALIDITY_MS)),
+      ]),
+    ])
+  })
+
+  const responseData = der.sequence([
+    // responderID byName [1]
+    der.explicit(1, [forge.pki.distinguishedNameToAsn1(issuer.cert.subject)]),
+    der.generalizedTime(now),
+    der.sequence(responses),
+    ...(nonce ? [der.explicit(1, [der.sequence([nonce])])] : []),
+  ])
+  const basic = der.signed(responseData, issuer.key)
+
+  return toBuffer(
+    der.derBytes(
+      der.sequence([
+        // successful
+        der.primitive(asn1.Type.ENUMERATED, '\x00'),
+        der.explicit(0, [
+          der.sequence([
+            der.oid(OCSP_BASIC_OID),
+            der.primitive(asn1.Type.OCTETSTRING, der.derBytes(basic)),
+          ]),
+        ]),
+      ]),
+    ),
+  )
+}
+
+/**
+ * Answer an OCSP request with the intermediate CA and the revocations on
+ * disk, as the builtin gateway's responder does.
+ */
+export const respondToOcspRequest = async (
+  request: Buffer,
+): Promise<Buffer> => {
+  const [issuer, list] = await Promise.all([
+    loadIssuingCa(),
+    readRevocationList(),
+  ])
+  return answerOcspRequest(request, issuer, list.revoked)
+}
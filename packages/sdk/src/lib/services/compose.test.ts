@@ -0,0 +1,185 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+import { parse } from 'yaml'
+
+import {
+  addServicesToConfigYaml,
+  composeServiceName,
+  translateCompose,
+} from './compose.ts'
+
+const options = { composeDir: '/project', projectDir: '/project' }
+
+describe('compose', () => {
+  describe('composeServiceName()', () => {
+    it('normalizes names to valid service names', () => {
+      strictEqual(composeServiceName('postgres'), 'postgres')
+      strictEqual(composeServiceName('My_App.web'), 'my-app-web')
+      strictEqual(composeServiceName('1cache_'), 'cache')
+    })
+  })
+
+  describe('translateCompose()', () => {
+    it('translates supported keys into a docker service', () => {
+      const result = translateCompose(
+        {
+          services: {
+            db: {
+              image: 'postgres:17',
+              ports: ['5432:5432', { published: 8080, target: 80 }],
+              volumes: ['pgdata:/var/lib/postgresql/data', './init:/init:ro'],
+              environment: { POSTGRES_PASSWORD: 'secret', PGPORT: 5432 },
+              restart: 'unless-stopped',
+            },
+            api: {
+              image: 'node:24',
+              command: ['node', 'server.js', '--name', 'my api'],
+              environment: ['NODE_ENV=development'],
+              env_file: '.env',
+              depends_on: { db: { condition: 'service_healthy' } },
+            },
+          },
+        },
+        options,
+      )
+
+      deepStrictEqual(result.services.db, {
+        runtime: 'docker',
+        image: 'postgres:17',
+        container: {
+          mountProject: false,
+          ports: ['5432:5432', '8080:80'],
+          volumes: ['pgdata:/var/lib/postgresql/data', './init:/init:ro'],
+        },
+        env: { POSTGRES_PASSWORD: 'secret', PGPORT: '5432' },
+        keepAlive: true,
+      })
+      deepStrictEqual(result.services.api, {
+        runtime: 'docker',
+        image: 'node:24',
+        container: { mountProject: false },
+        command: "node server.js --name 'my api'",
+        env: { NODE_ENV: 'development' },
+        envFiles: ['.env'],
+        dependsOn: ['db'],
+      })
+      deepStrictEqual(result.unsupported, [])
+    })
+
+    it('rebases relative paths onto the project root', () => {
+      const result = translateCompose(
+        {
+          services: {
+            db: {
+              image: 'postgres:17',
+              volumes: [
+                './data:/data',
+                { type: 'bind', source: '../seed', target: '/seed' },
+              ],
+            },
+          },
+        },
+        { composeDir: '/project/docker', projectDir: '/project' },
+      )
+      deepStrictEqual(result.services.db?.container?.volumes, [
+        './docker/data:/data',
+        './seed:/seed',
+      ])
+    })
+
+    it('reports keys it cannot translate', () => {
+      const result = translateCompose(
+        {
+          version: '3.8',
+          services: {
+            web: { build: '.', ports: ['3000:3000'] },
+            db: {
+              image: 'postgres:17',
+              healthcheck: { test: ['CMD', 'pg_isready'] },
+              environment: ['PASSTHROUGH'],
+            },
+          },
+          volumes: { pgdata: {} },
+        },
+        options,
+      )
+      deepStrictEqual(Object.keys(result.services), ['db'])
+      deepStrictEqual(
+        result.unsupported.map(({ service, key }) => `${service}.${key}`),
+        [
+          'undefined.volumes',
+          'web.build',
+          'web.image',
+          'db.healthcheck',
+          'db.environment',
+        ],
+      )
+    })
+
+    it('renames services and their dependencies', () => {
+      const result = translateCompose(
+        {
+          services: {
+            my_db: { image: 'postgres:17' },
+            api: { image: 'node:24', depends_on: ['my_db'] },
+          },
+        },
+        options,
+      )
+      deepStrictEqual(result.renamed, [{ from: 'my_db', to: 'my-db' }])
+      deepStrictEqual(result.services.api?.dependsOn, ['my-db'])
+      ok(result.services['my-db'])
+    })
+
+    it('returns nothing for a file without services', () => {
+      deepStrictEqual(translateCompose(null, options), {
+        services: {},
+        unsupported: [],
+        renamed: [],
+      })
+    })
+  })
+
+  describe('addServicesToConfigYaml()', () => {
+    const service = { runtime: 'docker' as const, image: 'redis:8' }
+
+    it('adds services while keeping existing content', () => {
+      const source =
+        '# Project config\nname: app\nservices:\n  api:\n    command: pnpm dev\n'
+      const result = addServicesToConfigYaml(source, { redis: service })
+      deepStrictEqual(result.added, ['redis'])
+      ok(result.content.startsWith('# Project config\n'))
+      deepStrictEqual(parse(result.content), {
+        name: 'app',
+        services: {
+          api: { command: 'pnpm dev' },
+          redis: { runtime: 'docker', image: 'redis:8' },
+        },
+      })
+    })
+
+    it('creates the services map in an empty config', () => {
+      const result = addServicesToConfigYaml('', { redis: service })
+      deepStrictEqual(parse(result.content), {
+        services: { redis: { runtime: 'docker', image: 'redis:8' } },
+      })
+    })
+
+    it('skips existing services unless overwriting', () => {
+      const source = 'services:\n  redis:\n    command: redis-server\n'
+      const skipped = addServicesToConfigYaml(source, { redis: service })
+      deepStrictEqual(skipped.skipped, ['redis'])
+      deepStrictEqual(parse(skipped.content).services.redis, {
+        command: 'redis-server',
+      })
+
+      const replaced = addServicesToConfigYaml(
+        source,
+        { redis: service },
+        { overwrite: true },
+      )
+      deepStrictEqual(replaced.added, ['redis'])
+      deepStrictEqual(parse(replaced.content).services.redis, service)
+    })
+  })
+})
@@ -0,0 +1,400 @@
+import { isAbsolute, relative, resolve } from 'node:path'
+import { Document, isMap, parseDocument } from 'yaml'
+
+import { ServiceConfigSchema, ServiceNameSchema } from '../../schemas/config.ts'
+
+import type { ProjectConfigSchema } from '../../schemas/config.ts'
+
+type ServiceConfig = NonNullable<ProjectConfigSchema['services']>[string]
+
+/**
+ * Default compose file names, in the order docker compose looks for them.
+ */
+export const COMPOSE_FILE_NAMES = [
+  'compose.yaml',
+  'compose.yml',
+  'docker-compose.yaml',
+  'docker-compose.yml',
+]
+
+/**
+ * A compose key that has no denvig equivalent. `service` is absent for
+ * top-level keys.
+ */
+export type ComposeUnsupportedKey = {
+  service?: string
+  key: string
+  reason: string
+}
+
+export type ComposeTranslation = {
+  /** Translated services, keyed by their denvig service name. */
+  services: Record<string, ServiceConfig>
+  /** Keys that were not translated, so nothing is dropped silently. */
+  unsupported: ComposeUnsupportedKey[]
+  /** Compose service names that had to change to be valid denvig names. */
+  renamed: Array<{ from: string; to: string }>
+}
+
+export type ComposeTranslateOptions = {
+  /** Directory of the compose file; relative paths in it resolve from here. */
+  composeDir: string
+  /**
+   * Project root the services will run from. Relative host paths are
+   * rewritten relative to it, since denvig resolves them against the service
+   * directory.
+   */
+  projectDir: string
+}
+
+/** Top-level keys that carry no service definitions of their own. */
+const IGNORED_TOP_LEVEL_KEYS = new Set(['services', 'version', 'name'])
+
+/** Service keys handled by {@link translateComposeService}. */
+const TRANSLATED_KEYS = new Set([
+  'image',
+  'command',
+  'ports',
+  'volumes',
+  'environment',
+  'env_file',
+  'depends_on',
+  'restart',
+])
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Turn a compose service name into a valid denvig service name: lowercase,
+ * with anything other than letters, digits and hyphens replaced by hyphens.
+ */
+export const composeServiceName = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^[^a-z]+/, '')
+    .replace(/-+$/, '')
+
+/**
+ * Quote a single argument for a POSIX shell when it needs it.
+ */
+const shellQuote = (arg: string): string =>
+  /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+
+/**
+ * Whether a volume source is a host path rather than a named volume.
+ */
+const isHostPath = (source: string): boolean =>
+  source.startsWith('.') || source.startsWith('/') || source.startsWith('~')
+
+/**
+ * Re-anchor a relative path from the compose file's directory to the project
+ * root. Absolute and home-relative paths are kept as they are.
+ */
+const rebasePath = (path: string, options: ComposeTranslateOptions): string => {
+  if (isAbsolute(path) || path.startsWith('~')) return path
+  return relative(options.projectDir, resolve(options.composeDir, path)) || '.'
+}
+
+/**
+ * Rebase a bind mount source, keeping it recognisable as a host path rather
+ * than a named volume.
+ */
+const rebaseHostPath = (
+  path: string,
+  options: ComposeTranslateOptions,
+): string => {
+  const rebased = rebasePath(path, options)
+  return isHostPath(rebased) ? rebased : `./${rebased}`
+}
+
+/**
+ * Translate compose `ports` entries into `host:container` publish specs.
+ */
+const translatePorts = (
+  ports: unknown[],
+  report: (reason: string) => void,
+): string[] => {
+  const specs: string[] = []
+  for (const port of ports) {
+    if (typeof port === 'string' || typeof port === 'number') {
+      specs.push(String(port))
+    } else if (isRecord(port) && port.target !== undefined) {
+      const target = `${port.target}${port.protocol && port.protocol !== 'tcp' ? `/${port.protocol}` : ''}`
+      const published = port.published ?? ''
+      const hostIp = port.host_ip ? `${port.host_ip}:` : ''
+      specs.push(published === '' ? target : `${hostIp}${published}:${target}`)
+    } else {
+      report(`unrecognised port ${JSON.stringify(port)}`)
+    }
+  }
+  return specs
+}
+
+/**
+ * Translate compose `volumes` entries into `-v` specs. Bind mounts with
+ * relative host paths are rebased onto the project root.
+ */
+const translateVolumes = (
+  volumes: unknown[],
+  options: ComposeTranslateOptions,
+  report: (reason: string) => void,
+): string[] => {
+  const specs: string[] = []
+  for (const volume of volumes) {
+    if (typeof volume === 'string') {
+      const [source, ...rest] = volume.split(':')
+      if (rest.length === 0 || !source) {
+        // An anonymous volume (container path only).
+        specs.push(volume)
+      } else {
+        const host = isHostPath(source)
+          ? rebaseHostPath(source, options)
+          : source
+        specs.push([host, ...rest].join(':'))
+      }
+    } else if (
+      isRecord(volume) &&
+      (volume.type === 'bind' || volume.type === 'volume') &&
+      typeof volume.target === 'string'
+    ) {
+      const source =
+        typeof volume.source === 'string'
+          ? volume.type === 'bind'
+            ? rebaseHostPath(volume.source, options)
+            : volume.source
+          : undefined
+      const spec = source ? `${source}:${volume.target}` : volume.target
+      specs.push(volume.read_only ? `${spec}:ro` : spec)
+    } else {
+      report(`unsupported volume ${JSON.stringify(volume)}`)
+    }
+  }
+  return specs
+}
+
+/**
+ * Translate compose `environment` (a map or a `KEY=value` list). Entries
+ * without a value pass the host's value through in compose, which denvig
+ * can't express, so they are reported instead.
+ */
+const translateEnvironment = (
+  environment: unknown,
+  report: (reason: string) => void,
+): Record<string, string> => {
+  const env: Record<string, string> = {}
+  const entries: Array<[string, unknown]> = Array.isArray(environment)
+    ? environment.map((entry) => {
+        const text = String(entry)
+        const eq = text.indexOf('=')
+        return eq === -1
+          ? [text, null]
+          : [text.slice(0, eq), text.slice(eq + 1)]
+      })
+    : isRecord(environment)
+      ? Object.entries(environment)
+      : []
+  for (const [key, value] of entries) {
+    if (value === null || value === undefined) {
+      report(`${key} has no value (passthrough from the host is not supported)`)
+    } else {
+      env[key] = String(value)
+    }
+  }
+  return env
+}
+
+/**
+ * Translate a single compose service into a docker-runtime service config.
+ */
+const translateComposeService = (
+  name: string,
+  definition: Record<string, unknown>,
+  serviceNames: Map<string, string>,
+  options: ComposeTranslateOptions,
+  unsupported: ComposeUnsupportedKey[],
+): ServiceConfig | null => {
+  const report = (key: string) => (reason: string) =>
+    unsupported.push({ service: name, key, reason })
+
+  for (const key of Object.keys(definition)) {
+    if (key === 'build') {
+      report(key)('building images is not supported; use a prebuilt image')
+    } else if (!TRANSLATED_KEYS.has(key)) {
+      report(key)('no denvig equivalent')
+    }
+  }
+
+  if (typeof definition.image !== 'string') {
+    report('image')('no image to run; service skipped')
+    return null
+  }
+
+  const config: ServiceConfig = {
+    runtime: 'docker',
+    image: definition.image,
+    container: { mountProject: false },
+  }
+
+  if (typeof definition.command === 'string') {
+    config.command = definition.command
+  } else if (Array.isArray(definition.command)) {
+    config.command = definition.command
+      .map((arg) => shellQuote(String(arg)))
+      .join(' ')
+  }
+
+  if (Array.isArray(definition.ports)) {
+    const ports = translatePorts(definition.ports, report('ports'))
+    if (ports.length > 0) config.container = { ...config.container, ports }
+  }
+
+  if (Array.isArray(definition.volumes)) {
+    const volumes = translateVolumes(
+      definition.volumes,
+      options,
+      report('volumes'),
+    )
+    if (volumes.length > 0) config.container = { ...config.container, volumes }
+  }
+
+  if (definition.environment !== undefined) {
+    const env = translateEnvironment(
+      definition.environment,
+      report('environment'),
+    )
+    if (Object.keys(env).length > 0) config.env = env
+  }
+
+  if (definition.env_file !== undefined) {
+    const files = Array.isArray(definition.env_file)
+      ? definition.env_file
+      : [definition.env_file]
+    config.envFiles = files.flatMap((file) => {
+      const path = isRecord(file) ? file.path : file
+      return typeof path === 'string' ? [rebasePath(path, options)] : []
+    })
+  }
+
+  if (definition.depends_on !== undefined) {
+    const dependencies = Array.isArray(definition.depends_on)
+      ? definition.depends_on.map(String)
+      : isRecord(definition.depends_on)
+        ? Object.keys(definition.depends_on)
+        : []
+    config.dependsOn = dependencies.map(
+      (dependency) => serviceNames.get(dependency) ?? dependency,
+    )
+  }
+
+  if (typeof definition.restart === 'string') {
+    config.keepAlive = definition.restart !== 'no'
+  }
+
+  return config
+}
+
+/**
+ * Translate a parsed compose file into denvig `runtime: docker` services.
+ *
+ * Supported keys map onto the service config (`image`, `command`, `ports` →
+ * `container.ports`, `volumes` → `container.volumes`, `environment` → `env`,
+ * `env_file` → `envFiles`, `depends_on` → `dependsOn`, `restart` →
+ * `keepAlive`). Everything else is listed in `unsupported` rather than being
+ * dropped silently. Each translated service is checked against the service
+ * config schema.
+ */
+export const translateCompose = (
+  compose: unknown,
+  options: ComposeTranslateOptions,
+): ComposeTranslation => {
+  const result: ComposeTranslation = {
+    services: {},
+    unsupported: [],
+    renamed: [],
+  }
+  if (!isRecord(compose) || !isRecord(compose.services)) {
+    return result
+  }
+
+  for (const key of Object.keys(compose)) {
+    if (!IGNORED_TOP_LEVEL_KEYS.has(key)) {
+      result.unsupported.push({ key, reason: 'no denvig equivalent' })
+    }
+  }
+
+  const serviceNames = new Map<string, string>()
+  for (const name of Object.keys(compose.services)) {
+    const denvigName = composeServiceName(name)
+    serviceNames.set(name, denvigName)
+    if (denvigName !== name) {
+      result.renamed.push({ from: name, to: denvigName })
+    }
+  }
+
+  for (const [name, definition] of Object.entries(compose.services)) {
+    if (!isRecord(definition)) continue
+    const denvigName = serviceNames.get(name) ?? name
+    const validName = ServiceNameSchema.safeParse(denvigName)
+    if (!validName.success) {
+      result.unsupported.push({
+        service: name,
+        key: '(name)',
+        reason: `${validName.error.issues[0]?.message}; skipped`,
+      })
+      continue
+    }
+    const config = translateComposeService(
+      name,
+      definition,
+      serviceNames,
+      options,
+      result.unsupported,
+    )
+    if (!config) continue
+
+    const parsed = ServiceConfigSchema.safeParse(config)
+    if (!parsed.success) {
+      result.unsupported.push({
+        service: name,
+        key: '(service)',
+        reason: parsed.error.issues.map((issue) => issue.message).join('; '),
+      })
+      continue
+    }
+    result.services[denvigName] = parsed.data
+  }
+
+  return result
+}
+
+/**
+ * Add services to the YAML source of a `.denvig.yml`, keeping the rest of
+ * the document (comments included) intact. Services that already exist are
+ * skipped unless `overwrite` is set.
+ */
+export const addServicesToConfigYaml = (
+  source: string,
+  services: Record<string, ServiceConfig>,
+  options: { overwrite?: boolean } = {},
+): { content: string; added: string[]; skipped: string[] } => {
+  const parsed = parseDocument(source)
+  const document: Document = isMap(parsed.contents) ? parsed : new Document({})
+
+  const added: string[] = []
+  const skipped: string[] = []
+  for (const [name, config] of Object.entries(services)) {
+    if (document.hasIn(['services', name]) && !options.overwrite) {
+      skipped.push(name)
+      continue
+    }
+    if (!isMap(document.get('services'))) {
+      document.set('services', document.createNode({}))
+    }
+    document.setIn(['services', name], document.createNode(config))
+    added.push(name)
+  }
+
+  return { content: document.toString({ indent: 2 }), added, skipped }
+}
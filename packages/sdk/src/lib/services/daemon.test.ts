@@ -0,0 +1,223 @@
+import { deepStrictEqual, ok, rejects, strictEqual } from 'node:assert'
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  renderSupervisorUnit,
+  restartDelay,
+  startSupervisorDaemon,
+} from './daemon.ts'
+import daemonctl from './daemonctl.ts'
+
+import type { SupervisorDaemon } from './daemon.ts'
+
+const BACKOFF = { initialMs: 50, maxMs: 200, resetAfterMs: 10_000 }
+
+/** Poll until `check` passes or two seconds elapse. */
+const waitFor = async (check: () => boolean | Promise<boolean>) => {
+  const deadline = Date.now() + 2000
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error('Timed out')
+    await new Promise((resolveWait) => setTimeout(resolveWait, 20))
+  }
+}
+
+describe('restartDelay()', () => {
+  it('doubles from the initial delay up to the maximum', () => {
+    const delays = [1, 2, 3, 4, 5, 10].map((failures) => restartDelay(failures))
+    deepStrictEqual(delays, [1000, 2000, 4000, 8000, 16_000, 60_000])
+  })
+})
+
+describe('startSupervisorDaemon()', () => {
+  let dir: string
+  let socketPath: string
+  let daemon: SupervisorDaemon | null
+
+  /** Write a service script and its unit, returning the unit path. */
+  const writeUnit = (
+    label: string,
+    script: string,
+    options: { keepAlive?: boolean; startOnBoot?: boolean } = {},
+  ) => {
+    const programPath = resolve(dir, `${label}.sh`)
+    writeFileSync(programPath, `#!/bin/sh\n${script}\n`)
+    chmodSync(programPath, 0o755)
+    const unitPath = resolve(dir, 'units', `${label}.json`)
+    writeFileSync(
+      unitPath,
+      renderSupervisorUnit({
+        label,
+        programPath,
+        workingDirectory: dir,
+        environmentVariables: { GREETING: 'hello' },
+        standardOutPath: resolve(dir, 'logs', `${label}.log`),
+        keepAlive: options.keepAlive ?? true,
+        startOnBoot: options.startOnBoot ?? false,
+      }),
+    )
+    return unitPath
+  }
+
+  const start = async () => {
+    daemon = await startSupervisorDaemon({
+      socketPath,
+      unitDir: resolve(dir, 'units'),
+      backoff: BACKOFF,
+    })
+    return daemon
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(resolve(tmpdir(), 'denvig-supervisor-'))
+    mkdirSync(resolve(dir, 'units'))
+    socketPath = resolve(dir, 'control.sock')
+    daemon = null
+  })
+
+  afterEach(async () => {
+    await daemon?.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('runs a unit with its environment and logs its output', async () => {
+    await start()
+    const unitPath = writeUnit(
+      'denvig.p.api',
+      'echo "$GREETING"; exec sleep 30',
+    )
+    const loaded = await daemonctl.request(
+      { command: 'load', label: 'denvig.p.api', unitPath },
+      socketPath,
+    )
+    strictEqual(loaded?.success, true)
+
+    const printed = await daemonctl.request(
+      { command: 'print', label: 'denvig.p.api' },
+      socketPath,
+    )
+    strictEqual(printed?.info?.state, 'running')
+    ok(printed?.info?.pid)
+    await waitFor(() =>
+      readFileSync(resolve(dir, 'logs', 'denvig.p.api.log'), 'utf-8').includes(
+        'hello',
+      ),
+    )
+
+    const listed = await daemonctl.request(
+      { command: 'list', pattern: 'denvig.p.' },
+      socketPath,
+    )
+    deepStrictEqual(listed?.items, [
+      { pid: printed?.info?.pid, status: 0, label: 'denvig.p.api' },
+    ])
+  })
+
+  it('restarts keepAlive units that exit', async () => {
+    await start()
+    const unitPath = writeUnit('denvig.p.worker', 'echo run; exit 3')
+    await daemonctl.request(
+      { command: 'load', label: 'denvig.p.worker', unitPath },
+      socketPath,
+    )
+    await waitFor(
+      () =>
+        readFileSync(resolve(dir, 'logs', 'denvig.p.worker.log'), 'utf-8')
+          .trim()
+          .split('\n').length >= 3,
+    )
+    const printed = await daemonctl.request(
+      { command: 'print', label: 'denvig.p.worker' },
+      socketPath,
+    )
+    strictEqual(printed?.info?.lastExitCode, 3)
+  })
+
+  it('leaves other units exited with their exit code', async () => {
+    await start()
+    const unitPath = writeUnit('denvig.p.once', 'exit 2', { keepAlive: false })
+    await daemonctl.request(
+      { command: 'load', label: 'denvig.p.once', unitPath },
+      socketPath,
+    )
+    await waitFor(async () => {
+      const printed = await daemonctl.request(
+        { command: 'print', label: 'denvig.p.once' },
+        socketPath,
+      )
+      return printed?.info?.state === 'exited'
+    })
+    const printed = await daemonctl.request(
+      { command: 'print', label: 'denvig.p.once' },
+      socketPath,
+    )
+    strictEqual(printed?.info?.lastExitCode, 2)
+    strictEqual(printed?.info?.pid, undefined)
+  })
+
+  it('stops and unloads units', async () => {
+    await start()
+    const unitPath = writeUnit('denvig.p.api', 'exec sleep 30')
+    await daemonctl.request(
+      { command: 'load', label: 'denvig.p.api', unitPath },
+      socketPath,
+    )
+
+    const stopped = await daemonctl.request(
+      { command: 'stop', label: 'denvig.p.api' },
+      socketPath,
+    )
+    strictEqual(stopped?.success, true)
+    const printed = await daemonctl.request(
+      { command: 'print', label: 'denvig.p.api' },
+      socketPath,
+    )
+    strictEqual(printed?.info, undefined)
+    deepStrictEqual(daemon?.labels(), ['denvig.p.api'])
+
+    await daemonctl.request(
+      { command: 'unload', label: 'denvig.p.api' },
+      socketPath,
+    )
+    deepStrictEqual(daemon?.labels(), [])
+  })
+
+  it('loads startOnBoot units when it starts', async () => {
+    writeUnit('denvig.p.boot', 'exec sleep 30', { startOnBoot: true })
+    writeUnit('denvig.p.manual', 'exec sleep 30')
+    await start()
+    deepStrictEqual(daemon?.labels(), ['denvig.p.boot'])
+  })
+
+  it('refuses to share a socket with a running daemon', async () => {
+    await start()
+    await rejects(
+      startSupervisorDaemon({ socketPath, unitDir: null }),
+      /Another supervisor daemon/,
+    )
+    strictEqual(await daemonctl.isRunning(socketPath), true)
+  })
+
+  it('takes over a socket left behind by a stopped daemon', async () => {
+    writeFileSync(socketPath, '')
+    await start()
+    strictEqual(await daemonctl.isRunning(socketPath), true)
+  })
+})
+
+describe('daemonctl', () => {
+  it('reports nothing loaded when no daemon is running', async () => {
+    const socketPath = resolve(tmpdir(), `denvig-missing-${process.pid}.sock`)
+    strictEqual(await daemonctl.isRunning(socketPath), false)
+    strictEqual(await daemonctl.request({ command: 'list' }, socketPath), null)
+  })
+})
@@ -0,0 +1,463 @@
+import { spawn } from 'node:child_process'
+import { closeSync, openSync } from 'node:fs'
+import { mkdir, readdir, readFile, rm } from 'node:fs/promises'
+import net from 'node:net'
+import { constants, homedir } from 'node:os'
+import { dirname, resolve } from 'node:path'
+
+import type { ChildProcess } from 'node:child_process'
+import type { LaunchctlListItem, LaunchctlPrintOutput } from './launchctl.ts'
+import type { ServiceUnitOptions } from './supervisor.ts'
+
+/**
+ * Directory holding the denvig supervisor's control socket, unit files and
+ * log.
+ */
+export const getSupervisorDaemonDir = (): string =>
+  resolve(homedir(), '.denvig', 'supervisor')
+
+/** Unix socket the supervisor daemon accepts requests on. */
+export const getSupervisorSocketPath = (): string =>
+  resolve(getSupervisorDaemonDir(), 'control.sock')
+
+/** Directory holding the JSON unit files the daemon loads. */
+export const getSupervisorUnitDir = (): string =>
+  resolve(getSupervisorDaemonDir(), 'units')
+
+/** Log file the background daemon writes its own messages to. */
+export const getSupervisorDaemonLogPath = (): string =>
+  resolve(getSupervisorDaemonDir(), 'daemon.log')
+
+/**
+ * A request sent to the daemon over its control socket, as one line of JSON.
+ * The commands mirror the `ServiceSupervisor` operations.
+ */
+export type SupervisorRequest =
+  | { command: 'ping' }
+  | { command: 'load'; label: string; unitPath: string }
+  | { command: 'unload'; label: string }
+  | { command: 'stop'; label: string }
+  | { command: 'print'; label: string }
+  | { command: 'list'; pattern?: string }
+
+/** The daemon's answer to a {@link SupervisorRequest}. */
+export type SupervisorResponse = {
+  success: boolean
+  output: string
+  /** Set for `print` when the unit is loaded. */
+  info?: LaunchctlPrintOutput
+  /** Set for `list`. */
+  items?: LaunchctlListItem[]
+}
+
+/** Delays between restarts of a `keepAlive` service that keeps exiting. */
+export type RestartBackoff = {
+  /** Delay before the first restart. */
+  initialMs: number
+  /** Upper bound the delay doubles towards. */
+  maxMs: number
+  /**
+   * A process that ran at least this long is considered to have started
+   * fine, so its next restart waits `initialMs` again.
+   */
+  resetAfterMs: number
+}
+
+export const DEFAULT_RESTART_BACKOFF: RestartBackoff = {
+  initialMs: 1000,
+  maxMs: 60_000,
+  resetAfterMs: 10_000,
+}
+
+/** How long a stopped process gets to exit before it is killed. */
+const STOP_TIMEOUT_MS = 10_000
+
+/**
+ * Environment variables passed through from the daemon to services. Like
+ * launchd and systemd, services otherwise only see their unit's variables;
+ * the wrapper script's login shell sets up the rest.
+ */
+const INHERITED_ENV = [
+  'HOME',
+  'USER',
+  'LOGNAME',
+  'SHELL',
+  'PATH',
+  'LANG',
+  'TMPDIR',
+]
+
+/**
+ * The delay before restarting a `keepAlive` service after `failures`
+ * consecutive quick exits: `initialMs`, doubling each time up to `maxMs`.
+ */
+export const restartDelay = (
+  failures: number,
+  backoff: RestartBackoff = DEFAULT_RESTART_BACKOFF,
+): number =>
+  Math.min(backoff.initialMs * 2 ** Math.max(failures - 1, 0), backoff.maxMs)
+
+/** Render the JSON unit file the daemon loads for a service. */
+export const renderSupervisorUnit = (options: ServiceUnitOptions): string =>
+  `${JSON.stringify(options, null, 2)}\n`
+
+export type SupervisorDaemonOptions = {
+  /** Defaults to `~/.denvig/supervisor/control.sock`. */
+  socketPath?: string
+  /**
+   * Directory scanned on startup for `startOnBoot` units to load. Defaults to
+   * `~/.denvig/supervisor/units`; pass `null` to skip.
+   */
+  unitDir?: string | null
+  backoff?: RestartBackoff
+  /** Sink for process start, exit and restart messages. */
+  onLog?: (message: string) => void
+}
+
+export type SupervisorDaemon = {
+  socketPath: string
+  /** Labels of the loaded units. */
+  labels: () => string[]
+  /** Stop every service and the control socket. */
+  close: () => Promise<void>
+}
+
+/**
+ * The state of a loaded unit. `stopped` units stay registered (like a
+ * stopped launchd job) but are reported as not loaded, as systemd does.
+ */
+type SupervisedUnit = {
+  label: string
+  unit: ServiceUnitOptions
+  child: ChildProcess | null
+  state: 'running' | 'waiting' | 'exited' | 'stopped'
+  lastExitCode?: number
+  /** Consecutive quick exits, driving the restart backoff. */
+  failures: number
+  startedAt: number
+  restartTimer: NodeJS.Timeout | null
+  /** Resolves once the current process has exited. */
+  exited: Promise<void>
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+/** Send a signal to a service's process group, ignoring gone processes. */
+const signalGroup = (child: ChildProcess, signal: NodeJS.Signals): void => {
+  if (child.pid === undefined) return
+  try {
+    process.kill(-child.pid, signal)
+  } catch {
+    // Already exited.
+  }
+}
+
+/**
+ * Check whether something accepts connections on a unix socket.
+ */
+const isSocketLive = (socketPath: string): Promise<boolean> =>
+  new Promise((resolveLive) => {
+    const socket = net.connect(socketPath)
+    socket.once('connect', () => {
+      socket.destroy()
+      resolveLive(true)
+    })
+    socket.once('error', () => resolveLive(false))
+  })
+
+/**
+ * Start the denvig supervisor: a process supervisor for machines without
+ * launchd or a systemd user manager, such as containers, WSL and CI runners.
+ *
+ * Services are spawned from their generated wrapper scripts in their own
+ * process group, with output appended to their stable log path. `keepAlive`
+ * services are restarted when they exit, backing off exponentially while
+ * they keep exiting quickly. Requests arrive as JSON lines on a unix socket
+ * and are handled one at a time.
+ *
+ * Throws when another daemon already serves the socket.
+ */
+export const startSupervisorDaemon = async (
+  options: SupervisorDaemonOptions = {},
+): Promise<SupervisorDaemon> => {
+  const socketPath = options.socketPath ?? getSupervisorSocketPath()
+  const unitDir =
+    options.unitDir === undefined ? getSupervisorUnitDir() : options.unitDir
+  const backoff = options.backoff ?? DEFAULT_RESTART_BACKOFF
+  const log = options.onLog ?? (() => {})
+  const units = new Map<string, SupervisedUnit>()
+  let closing = false
+
+  const spawnUnit = (entry: SupervisedUnit): void => {
+    const { unit } = entry
+    entry.restartTimer = null
+    const env: Record<string, string> = {}
+    for (const key of INHERITED_ENV) {
+      const value = process.env[key]
+      if (value !== undefined) env[key] = value
+    }
+    Object.assign(env, unit.environmentVariables)
+
+    let child: ChildProcess
+    let output: number | null = null
+    try {
+      // Opened per spawn so a log rotated by a restart is followed.
+      output = openSync(unit.standardOutPath, 'a')
+      child = spawn(unit.programPath, [], {
+        cwd: unit.workingDirectory,
+        env,
+        detached: true,
+        stdio: ['ignore', output, output],
+      })
+    } catch (error) {
+      log(`Failed to start ${entry.label}: ${errorMessage(error)}`)
+      onExit(entry, 1)
+      return
+    } finally {
+      if (output !== null) closeSync(output)
+    }
+
+    entry.child = child
+    entry.state = 'running'
+    entry.startedAt = Date.now()
+    entry.exited = new Promise((resolveExited) => {
+      child.once('error', (error) => {
+        log(`Failed to start ${entry.label}: ${error.message}`)
+      })
+      child.once('close', (code, signal) => {
+        const signalCode = signal ? constants.signals[signal] : undefined
+        if (entry.child === child) {
+          onExit(entry, code ?? (signalCode ? 128 + signalCode : 1))
+        }
+        resolveExited()
+      })
+    })
+    if (child.pid !== undefined) {
+      log(`Started ${entry.label} (pid ${child.pid})`)
+    }
+  }
+
+  const onExit = (entry: SupervisedUnit, exitCode: number): void => {
+    entry.child = null
+    entry.lastExitCode = exitCode
+    if (entry.state === 'stopped' || closing) return
+    if (!entry.unit.keepAlive) {
+      entry.state = 'exited'
+      log(`${entry.label} exited with code ${exitCode}`)
+      return
+    }
+    const ranFor = Date.now() - entry.startedAt
+    entry.failures = ranFor >= backoff.resetAfterMs ? 1 : entry.failures + 1
+    const delay = restartDelay(entry.failures, backoff)
+    entry.state = 'waiting'
+    log(
+      `${entry.label} exited with code ${exitCode}; restarting in ${delay / 1000}s`,
+    )
+    entry.restartTimer = setTimeout(() => spawnUnit(entry), delay)
+  }
+
+  /** Stop a unit's process, killing its group if it doesn't exit in time. */
+  const stopUnit = async (entry: SupervisedUnit): Promise<void> => {
+    entry.state = 'stopped'
+    if (entry.restartTimer) {
+      clearTimeout(entry.restartTimer)
+      entry.restartTimer = null
+    }
+    const child = entry.child
+    if (!child) return
+    signalGroup(child, 'SIGTERM')
+    const timeout = setTimeout(
+      () => signalGroup(child, 'SIGKILL'),
+      STOP_TIMEOUT_MS,
+    )
+    await entry.exited
+    clearTimeout(timeout)
+  }
+
+  const loadUnit = async (
+    label: string,
+    unitPath: string,
+  ): Promise<SupervisorResponse> => {
+    let unit: ServiceUnitOptions
+    try {
+      unit = JSON.parse(await readFile(unitPath, 'utf-8'))
+    } catch (error) {
+      return {
+        success: false,
+        output: `Failed to read unit ${unitPath}: ${errorMessage(error)}`,
+      }
+    }
+    const existing = units.get(label)
+    if (
+      existing &&
+      existing.state !== 'stopped' &&
+      existing.state !== 'exited'
+    ) {
+      return { success: false, output: `${label} is already loaded` }
+    }
+    const entry: SupervisedUnit = {
+      label,
+      unit,
+      child: null,
+      state: 'running',
+      failures: 0,
+      startedAt: Date.now(),
+      restartTimer: null,
+      exited: Promise.resolve(),
+    }
+    units.set(label, entry)
+    await mkdir(dirname(unit.standardOutPath), { recursive: true })
+    spawnUnit(entry)
+    return { success: true, output: '' }
+  }
+
+  const printUnit = (label: string): LaunchctlPrintOutput | undefined => {
+    const entry = units.get(label)
+    if (!entry || entry.state === 'stopped') return undefined
+    return {
+      label,
+      pid: entry.child?.pid,
+      state: entry.state,
+      status: entry.state,
+      lastExitCode: entry.lastExitCode,
+    }
+  }
+
+  const handle = async (
+    request: SupervisorRequest,
+  ): Promise<SupervisorResponse> => {
+    switch (request.command) {
+      case 'ping':
+        return { success: true, output: 'pong' }
+      case 'load':
+        return loadUnit(request.label, request.unitPath)
+      case 'unload': {
+        const entry = units.get(request.label)
+        if (entry) {
+          await stopUnit(entry)
+          units.delete(request.label)
+        }
+        return { success: true, output: '' }
+      }
+      case 'stop': {
+        const entry = units.get(request.label)
+        if (entry) await stopUnit(entry)
+        return { success: true, output: '' }
+      }
+      case 'print': {
+        const info = printUnit(request.label)
+        return info
+          ? { success: true, output: '', info }
+          : { success: false, output: `${request.label} is not loaded` }
+      }
+      case 'list': {
+        const items: LaunchctlListItem[] = []
+        for (const label of units.keys()) {
+          if (request.pattern && !label.includes(request.pattern)) continue
+          const info = printUnit(label)
+          if (!info) continue
+          items.push({
+            pid: info.pid ?? '-',
+            status: info.lastExitCode ?? 0,
+            label,
+          })
+        }
+        return { success: true, output: '', items }
+      }
+      default:
+        return { success: false, output: 'Unknown command' }
+    }
+  }
+
+  // Requests are handled one at a time, so a start can't race a stop.
+  let queue: Promise<unknown> = Promise.resolve()
+  const enqueue = (request: SupervisorRequest): Promise<SupervisorResponse> => {
+    const result = queue.then(() => handle(request))
+    queue = result.catch(() => {})
+    return result.catch((error) => ({
+      success: false,
+      output: errorMessage(error),
+    }))
+  }
+
+  const connections = new Set<net.Socket>()
+  const server = net.createServer((socket) => {
+    connections.add(socket)
+    socket.on('close', () => connections.delete(socket))
+    socket.on('error', () => socket.destroy())
+    let buffered = ''
+    socket.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString('utf-8')
+      let newline = buffered.indexOf('\n')
+      while (newline !== -1) {
+        const line = buffered.slice(0, newline)
+        buffered = buffered.slice(newline + 1)
+        newline = buffered.indexOf('\n')
+        let request: SupervisorRequest
+        try {
+          request = JSON.parse(line)
+        } catch {
+          socket.write(
+            `${JSON.stringify({ success: false, output: 'Malformed request' })}\n`,
+          )
+          continue
+        }
+        void enqueue(request).then((response) => {
+          if (!socket.destroyed) socket.write(`${JSON.stringify(response)}\n`)
+        })
+      }
+    })
+  })
+
+  const listen = () =>
+    new Promise<void>((resolveListen, rejectListen) => {
+      server.once('error', rejectListen)
+      server.listen(socketPath, () => {
+        server.off('error', rejectListen)
+        resolveListen()
+      })
+    })
+
+  await mkdir(dirname(socketPath), { recursive: true })
+  try {
+    await listen()
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE') throw error
+    // A socket left behind by a daemon that didn't shut down cleanly.
+    if (await isSocketLive(socketPath)) {
+      throw new Error(`Another supervisor daemon is listening on ${socketPath}`)
+    }
+    await rm(socketPath, { force: true })
+    await listen()
+  }
+
+  // Like launchd at login, load the units that start on boot.
+  if (unitDir) {
+    const files = await readdir(unitDir).catch(() => [] as string[])
+    for (const file of files.filter((name) => name.endsWith('.json')).sort()) {
+      const unitPath = resolve(unitDir, file)
+      const unit = await readFile(unitPath, 'utf-8')
+        .then((content) => JSON.parse(content) as ServiceUnitOptions)
+        .catch(() => null)
+      if (!unit?.startOnBoot) continue
+      const result = await loadUnit(unit.label, unitPath)
+      if (!result.success) log(result.output)
+    }
+  }
+
+  return {
+    socketPath,
+    labels: () => [...units.keys()],
+    close: async () => {
+      closing = true
+      await queue
+      await Promise.all([...units.values()].map((entry) => stopUnit(entry)))
+      units.clear()
+      for (const socket of connections) socket.destroy()
+      await new Promise<void>((resolveClose) =>
+        server.close(() => resolveClose()),
+      )
+    },
+  }
+}
@@ -0,0 +1,170 @@
+import net from 'node:net'
+
+import { startBackgroundProcess } from '../background.ts'
+import {
+  getSupervisorDaemonLogPath,
+  getSupervisorSocketPath,
+  type SupervisorRequest,
+  type SupervisorResponse,
+} from './daemon.ts'
+
+import type { LaunchctlListItem, LaunchctlPrintOutput } from './launchctl.ts'
+
+/** How long to wait for the daemon to answer a request. */
+const REQUEST_TIMEOUT_MS = 30_000
+
+/**
+ * Send one request to the supervisor daemon.
+ *
+ * @returns The daemon's response, or null when no daemon is listening
+ */
+export async function request(
+  message: SupervisorRequest,
+  socketPath: string = getSupervisorSocketPath(),
+): Promise<SupervisorResponse | null> {
+  return new Promise((resolveResponse) => {
+    const socket = net.connect(socketPath)
+    let buffered = ''
+    const done = (response: SupervisorResponse | null) => {
+      clearTimeout(timeout)
+      socket.destroy()
+      resolveResponse(response)
+    }
+    const timeout = setTimeout(
+      () =>
+        done({
+          success: false,
+          output: 'Timed out waiting for the supervisor',
+        }),
+      REQUEST_TIMEOUT_MS,
+    )
+    socket.once('connect', () => {
+      socket.write(`${JSON.stringify(message)}\n`)
+    })
+    socket.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString('utf-8')
+      const newline = buffered.indexOf('\n')
+      if (newline === -1) return
+      try {
+        done(JSON.parse(buffered.slice(0, newline)))
+      } catch {
+        done({ success: false, output: 'Malformed supervisor response' })
+      }
+    })
+    socket.once('error', () => done(null))
+  })
+}
+
+/**
+ * Whether the supervisor daemon is running.
+ */
+export async function isRunning(
+  socketPath: string = getSupervisorSocketPath(),
+): Promise<boolean> {
+  return (await request({ command: 'ping' }, socketPath)) !== null
+}
+
+/**
+ * Make sure the supervisor daemon is running, starting
+ * `denvig services supervisor serve` in the background when it isn't.
+ *
+ * @returns Result with success status and output
+ */
+export async function ensureRunning(): Promise<{
+  success: boolean
+  output: string
+}> {
+  if (await isRunning()) return { success: true, output: '' }
+
+  // A daemon started concurrently by another command wins the socket, and
+  // this one exits; either way the socket answers.
+  const result = await startBackgroundProcess({
+    args: ['services', 'supervisor', 'serve'],
+    logPath: getSupervisorDaemonLogPath(),
+    label: 'Supervisor daemon',
+    ready: async () => ((await isRunning()) ? true : null),
+  })
+  return result.success
+    ? { success: true, output: '' }
+    : { success: false, output: result.message }
+}
+
+/**
+ * Load a unit and start its process, starting the daemon if needed.
+ *
+ * @param label - Service label
+ * @param unitPath - Path to the JSON unit file
+ * @returns Result with success status and output
+ */
+export async function load(
+  label: string,
+  unitPath: string,
+): Promise<{ success: boolean; output: string }> {
+  const started = await ensureRunning()
+  if (!started.success) return started
+  const response = await request({ command: 'load', label, unitPath })
+  return response ?? { success: false, output: 'Supervisor is not running' }
+}
+
+/**
+ * Stop a unit's process and forget the unit. Nothing is running when the
+ * daemon isn't, so that counts as success.
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function unload(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  const response = await request({ command: 'unload', label })
+  return response ?? { success: true, output: '' }
+}
+
+/**
+ * Stop a unit's process, keeping the unit registered.
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function stop(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  const response = await request({ command: 'stop', label })
+  return response ?? { success: true, output: '' }
+}
+
+/**
+ * Get unit information.
+ *
+ * @param label - Service label
+ * @returns Service info or null if the unit is not loaded
+ */
+export async function print(
+  label: string,
+): Promise<LaunchctlPrintOutput | null> {
+  const response = await request({ command: 'print', label })
+  return response?.info ?? null
+}
+
+/**
+ * List loaded units whose label contains a pattern.
+ *
+ * @param pattern - Optional pattern to filter units
+ * @returns Array of service items in the same shape as `launchctl list`
+ */
+export async function list(pattern?: string): Promise<LaunchctlListItem[]> {
+  const response = await request({ command: 'list', pattern })
+  return response?.items ?? []
+}
+
+// Default export containing all functions
+export default {
+  request,
+  isRunning,
+  ensureRunning,
+  load,
+  unload,
+  stop,
+  print,
+  list,
+}
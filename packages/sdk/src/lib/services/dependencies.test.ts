@@ -0,0 +1,78 @@
+import { deepStrictEqual, rejects } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import { createMockInternalProject } from '../../test/mock.ts'
+import { resolveServiceStartOrder } from './dependencies.ts'
+import { ServiceManager } from './manager.ts'
+
+import type { Worktree } from '../project/worktree.ts'
+
+const createTarget = (
+  services: NonNullable<Worktree['config']['services']>,
+  serviceName: string,
+) => {
+  const project = createMockInternalProject({
+    config: { name: 'test', $sources: [], services },
+  })
+  return {
+    currentProject: project,
+    target: { manager: new ServiceManager(project), serviceName, project },
+  }
+}
+
+describe('dependencies', () => {
+  describe('resolveServiceStartOrder()', () => {
+    it('returns an empty list for a service without dependencies', async () => {
+      const { target, currentProject } = createTarget(
+        { api: { command: 'pnpm dev' } },
+        'api',
+      )
+      deepStrictEqual(
+        await resolveServiceStartOrder(target, currentProject),
+        [],
+      )
+    })
+
+    it('orders transitive dependencies before their dependents', async () => {
+      const { target, currentProject } = createTarget(
+        {
+          api: { command: 'pnpm dev', dependsOn: ['worker', 'postgres'] },
+          worker: { command: 'pnpm worker', dependsOn: ['postgres', 'redis'] },
+          postgres: { command: 'postgres' },
+          redis: { command: 'redis-server' },
+        },
+        'api',
+      )
+      const order = await resolveServiceStartOrder(target, currentProject)
+      deepStrictEqual(
+        order.map((entry) => entry.serviceName),
+        ['postgres', 'redis', 'worker'],
+      )
+    })
+
+    it('rejects a dependency cycle', async () => {
+      const { target, currentProject } = createTarget(
+        {
+          api: { command: 'pnpm dev', dependsOn: ['worker'] },
+          worker: { command: 'pnpm worker', dependsOn: ['api'] },
+        },
+        'api',
+      )
+      await rejects(resolveServiceStartOrder(target, currentProject), {
+        name: 'DenvigValidationError',
+        message: 'Service dependency cycle: api → worker → api',
+      })
+    })
+
+    it('rejects a dependency that is not configured', async () => {
+      const { target, currentProject } = createTarget(
+        { api: { command: 'pnpm dev', dependsOn: ['postgres'] } },
+        'api',
+      )
+      await rejects(resolveServiceStartOrder(target, currentProject), {
+        name: 'DenvigValidationError',
+        message: 'Service "api" depends on "postgres", which is not configured',
+      })
+    })
+  })
+})
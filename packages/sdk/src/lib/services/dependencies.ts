@@ -0,0 +1,192 @@
+import { DenvigValidationError } from '../errors.ts'
+import { DenvigProject } from '../project.ts'
+import { listProjects } from '../projects.ts'
+import { createGlobalProject, isGlobalSlug } from './global.ts'
+import { formatDependencyCycle, isLocalDependency } from './graph.ts'
+import { getServiceContext } from './identifier.ts'
+import { ServiceManager, type ServiceManagerProject } from './manager.ts'
+
+/**
+ * A resolved service: the manager that owns it, its name and its project.
+ */
+export type ServiceDependencyTarget = {
+  manager: ServiceManager
+  serviceName: string
+  project: ServiceManagerProject
+}
+
+/**
+ * Unique key for a resolved service. The supervisor label is already unique
+ * per project and service, so it doubles as the graph node id.
+ */
+const targetKey = (target: ServiceDependencyTarget): string =>
+  target.manager.getServiceLabel(target.serviceName)
+
+/**
+ * Display name for a service, relative to the service an operation started
+ * from: bare for the same project, prefixed for anything else.
+ */
+export const describeServiceTarget = (
+  target: ServiceDependencyTarget,
+  root: ServiceDependencyTarget,
+): string => {
+  if (target.project.path === root.project.path) return target.serviceName
+  if (isGlobalSlug(target.project.slug)) return `global:${target.serviceName}`
+  return `${target.project.slug}/${target.serviceName}`
+}
+
+/**
+ * Resolve dependency identifiers relative to the service that declares them.
+ * Bare names stay within the declaring project (or worktree); cross-project
+ * identifiers go through `getServiceContext` and are cached, since they
+ * resolve the same way regardless of who declares them.
+ */
+const createDependencyResolver = (currentProject: DenvigProject) => {
+  const cache = new Map<string, Promise<ServiceDependencyTarget>>()
+
+  return (
+    identifier: string,
+    owner: ServiceDependencyTarget,
+  ): Promise<ServiceDependencyTarget> => {
+    if (isLocalDependency(identifier)) {
+      return Promise.resolve({
+        manager: owner.manager,
+        serviceName: identifier,
+        project: owner.project,
+      })
+    }
+    let resolved = cache.get(identifier)
+    if (!resolved) {
+      resolved = getServiceContext(identifier, currentProject)
+      cache.set(identifier, resolved)
+    }
+    return resolved
+  }
+}
+
+/**
+ * Resolve everything a service transitively depends on, in the order it should
+ * be started: each dependency comes before the services that depend on it. The
+ * service itself is not included.
+ *
+ * Throws {@link DenvigValidationError} when a dependency isn't configured or
+ * the dependencies form a cycle.
+ */
+export const resolveServiceStartOrder = async (
+  target: ServiceDependencyTarget,
+  currentProject: DenvigProject,
+): Promise<ServiceDependencyTarget[]> => {
+  const resolve = createDependencyResolver(currentProject)
+  const order: ServiceDependencyTarget[] = []
+  const done = new Set<string>()
+  const stack: ServiceDependencyTarget[] = []
+
+  const visit = async (node: ServiceDependencyTarget): Promise<void> => {
+    const key = targetKey(node)
+    const onStack = stack.findIndex((entry) => targetKey(entry) === key)
+    if (onStack !== -1) {
+      const cycle = [...stack.slice(onStack), node].map((entry) =>
+        describeServiceTarget(entry, target),
+      )
+      throw new DenvigValidationError(
+        `Service dependency cycle: ${formatDependencyCycle(cycle)}`,
+      )
+    }
+    if (done.has(key)) return
+
+    const config = node.manager.getServiceConfig(node.serviceName)
+    if (!config) {
+      const parent = stack.at(-1)
+      throw new DenvigValidationError(
+        parent
+          ? `Service "${describeServiceTarget(parent, target)}" depends on "${describeServiceTarget(node, target)}", which is not configured`
+          : `Service "${node.serviceName}" not found in configuration`,
+      )
+    }
+
+    stack.push(node)
+    for (const identifier of config.dependsOn ?? []) {
+      await visit(await resolve(identifier, node))
+    }
+    stack.pop()
+
+    done.add(key)
+    order.push(node)
+  }
+
+  await visit(target)
+  return order.slice(0, -1)
+}
+
+/**
+ * Find running services that depend on a service, directly or transitively,
+ * across the global services and every project with a config. Results are in
+ * the order they should be stopped: dependents of dependents come first.
+ */
+export const findRunningDependents = async (
+  target: ServiceDependencyTarget,
+  currentProject: DenvigProject,
+): Promise<ServiceDependencyTarget[]> => {
+  const resolve = createDependencyResolver(currentProject)
+
+  // Every service that declares dependencies, starting with the target's own
+  // project so a sibling worktree is searched as well as active checkouts.
+  const owners: ServiceManagerProject[] = [
+    target.project,
+    await createGlobalProject(),
+  ]
+  for (const { path } of await listProjects({ withConfig: true })) {
+    owners.push((await DenvigProject.retrieve(path)).activeWorktree)
+  }
+  const seenPaths = new Set<string>()
+  const candidates: Array<{
+    service: ServiceDependencyTarget
+    dependencies: string[]
+  }> = []
+  for (const project of owners) {
+    const ownerKey = `${project.slug}:${project.path}`
+    if (seenPaths.has(ownerKey)) continue
+    seenPaths.add(ownerKey)
+    const manager = new ServiceManager(project)
+    for (const [serviceName, config] of Object.entries(
+      project.config.services ?? {},
+    )) {
+      if (!config.dependsOn?.length) continue
+      candidates.push({
+        service: { manager, serviceName, project },
+        dependencies: config.dependsOn,
+      })
+    }
+  }
+
+  // Walk outwards from the target until no further dependents turn up.
+  const dependents: ServiceDependencyTarget[] = []
+  const affected = new Set([targetKey(target)])
+  let frontier = true
+  while (frontier) {
+    frontier = false
+    for (const candidate of candidates) {
+      const key = targetKey(candidate.service)
+      if (affected.has(key)) continue
+      for (const identifier of candidate.dependencies) {
+        const dependency = await resolve(identifier, candidate.service).catch(
+          () => null,
+        )
+        if (dependency && affected.has(targetKey(dependency))) {
+          affected.add(key)
+          dependents.push(candidate.service)
+          frontier = true
+          break
+        }
+      }
+    }
+  }
+
+  const running: ServiceDependencyTarget[] = []
+  for (const dependent of dependents.reverse()) {
+    if (await dependent.manager.isServiceBootstrapped(dependent.serviceName)) {
+      running.push(dependent)
+    }
+  }
+  return running
+}
@@ -0,0 +1,129 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import {
+  dependencyLevels,
+  findDependencyCycle,
+  isLocalDependency,
+  localDependencyEdges,
+  verifyServiceDependencies,
+} from './graph.ts'
+
+describe('graph', () => {
+  describe('isLocalDependency()', () => {
+    it('treats bare service names as same-project dependencies', () => {
+      strictEqual(isLocalDependency('postgres'), true)
+    })
+
+    it('treats prefixed and slug identifiers as cross-project', () => {
+      strictEqual(isLocalDependency('global:redis'), false)
+      strictEqual(isLocalDependency('github:owner/repo/api'), false)
+      strictEqual(isLocalDependency('owner/repo/api'), false)
+      strictEqual(isLocalDependency('id:a1b2c3d4/api'), false)
+    })
+  })
+
+  describe('localDependencyEdges()', () => {
+    it('keeps only same-project dependencies', () => {
+      deepStrictEqual(
+        localDependencyEdges({
+          api: { dependsOn: ['postgres', 'global:redis'] },
+          postgres: {},
+        }),
+        { api: ['postgres'], postgres: [] },
+      )
+    })
+  })
+
+  describe('findDependencyCycle()', () => {
+    it('returns null for an acyclic graph', () => {
+      strictEqual(
+        findDependencyCycle({ api: ['db', 'cache'], db: [], cache: ['db'] }),
+        null,
+      )
+    })
+
+    it('returns the cycle path', () => {
+      deepStrictEqual(
+        findDependencyCycle({
+          api: ['worker'],
+          worker: ['queue'],
+          queue: ['api'],
+        }),
+        ['api', 'worker', 'queue', 'api'],
+      )
+    })
+
+    it('detects a service depending on itself', () => {
+      deepStrictEqual(findDependencyCycle({ api: ['api'] }), ['api', 'api'])
+    })
+  })
+
+  describe('dependencyLevels()', () => {
+    it('orders dependencies before their dependents', () => {
+      deepStrictEqual(
+        dependencyLevels({
+          api: ['postgres', 'redis'],
+          postgres: [],
+          redis: [],
+          worker: ['api'],
+        }),
+        [['postgres', 'redis'], ['api'], ['worker']],
+      )
+    })
+
+    it('ignores dependencies outside the graph', () => {
+      deepStrictEqual(dependencyLevels({ api: ['missing'] }), [['api']])
+    })
+
+    it('returns services caught in a cycle as a final level', () => {
+      deepStrictEqual(dependencyLevels({ a: ['b'], b: ['a'], c: [] }), [
+        ['c'],
+        ['a', 'b'],
+      ])
+    })
+  })
+
+  describe('verifyServiceDependencies()', () => {
+    it('returns no issues for valid dependencies', () => {
+      deepStrictEqual(
+        verifyServiceDependencies({
+          api: { dependsOn: ['postgres', 'global:redis'] },
+          postgres: {},
+        }),
+        [],
+      )
+    })
+
+    it('returns no issues without services', () => {
+      deepStrictEqual(verifyServiceDependencies(undefined), [])
+    })
+
+    it('reports unknown same-project services', () => {
+      deepStrictEqual(
+        verifyServiceDependencies({ api: { dependsOn: ['db'] } }),
+        [
+          {
+            path: ['services', 'api', 'dependsOn', '0'],
+            message: 'Unknown service "db"',
+          },
+        ],
+      )
+    })
+
+    it('reports dependency cycles', () => {
+      deepStrictEqual(
+        verifyServiceDependencies({
+          api: { dependsOn: ['worker'] },
+          worker: { dependsOn: ['api'] },
+        }),
+        [
+          {
+            path: ['services', 'api', 'dependsOn'],
+            message: 'Dependency cycle: api → worker → api',
+          },
+        ],
+      )
+    })
+  })
+})
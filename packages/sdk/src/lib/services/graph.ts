@@ -0,0 +1,137 @@
+/**
+ * Service config shape needed to walk `dependsOn` edges.
+ */
+type DependsOnServices = Record<string, { dependsOn?: string[] }>
+
+/**
+ * A problem with a project's service dependencies, in the same path/message
+ * shape as a schema issue so `config verify` can report both together.
+ */
+export type ServiceDependencyIssue = {
+  path: string[]
+  message: string
+}
+
+/**
+ * Whether a `dependsOn` entry names a service in the same project (a bare
+ * service name) rather than a cross-project identifier like `global:redis`.
+ */
+export const isLocalDependency = (identifier: string): boolean =>
+  !identifier.includes(':') && !identifier.includes('/')
+
+/**
+ * Build the dependency edges between services of a single project. Only
+ * same-project dependencies are included; cross-project identifiers can only
+ * be followed once their project has been resolved.
+ */
+export const localDependencyEdges = (
+  services: DependsOnServices = {},
+): Record<string, string[]> =>
+  Object.fromEntries(
+    Object.entries(services).map(([name, config]) => [
+      name,
+      (config.dependsOn ?? []).filter(isLocalDependency),
+    ]),
+  )
+
+/**
+ * Find a cycle in a dependency graph. The cycle is returned as a path that
+ * starts and ends on the same node (e.g. `['api', 'worker', 'api']`), or
+ * `null` when the graph is acyclic.
+ */
+export const findDependencyCycle = (
+  edges: Record<string, string[]>,
+): string[] | null => {
+  const visited = new Set<string>()
+  const stack: string[] = []
+
+  const visit = (node: string): string[] | null => {
+    const onStack = stack.indexOf(node)
+    if (onStack !== -1) return [...stack.slice(onStack), node]
+    if (visited.has(node)) return null
+
+    visited.add(node)
+    stack.push(node)
+    for (const next of edges[node] ?? []) {
+      const cycle = visit(next)
+      if (cycle) return cycle
+    }
+    stack.pop()
+    return null
+  }
+
+  for (const node of Object.keys(edges)) {
+    const cycle = visit(node)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Format a cycle path for display (`api → worker → api`).
+ */
+export const formatDependencyCycle = (cycle: string[]): string =>
+  cycle.join(' → ')
+
+/**
+ * Group services into start levels. Every service only depends on services in
+ * earlier levels, so each level can be started in parallel once the previous
+ * one is up. Services caught in a cycle can't be ordered and are returned
+ * together as a final level.
+ */
+export const dependencyLevels = (
+  edges: Record<string, string[]>,
+): string[][] => {
+  const levels: string[][] = []
+  const placed = new Set<string>()
+  let remaining = Object.keys(edges)
+
+  while (remaining.length > 0) {
+    const level = remaining.filter((name) =>
+      (edges[name] ?? []).every(
+        (dependency) => placed.has(dependency) || !(dependency in edges),
+      ),
+    )
+    if (level.length === 0) {
+      levels.push(remaining)
+      break
+    }
+    levels.push(level)
+    for (const name of level) placed.add(name)
+    remaining = remaining.filter((name) => !placed.has(name))
+  }
+
+  return levels
+}
+
+/**
+ * Check the `dependsOn` entries of a project's services: same-project
+ * dependencies must name a configured service and must not form a cycle.
+ * Cross-project identifiers are resolved at start time instead.
+ */
+export const verifyServiceDependencies = (
+  services: DependsOnServices = {},
+): ServiceDependencyIssue[] => {
+  const issues: ServiceDependencyIssue[] = []
+
+  for (const [name, config] of Object.entries(services)) {
+    for (const [index, dependency] of (config.dependsOn ?? []).entries()) {
+      if (isLocalDependency(dependency) && !services[dependency]) {
+        issues.push({
+          path: ['services', name, 'dependsOn', String(index)],
+          message: `Unknown service "${dependency}"`,
+        })
+      }
+    }
+  }
+
+  const cycle = findDependencyCycle(localDependencyEdges(services))
+  if (cycle) {
+    issues.push({
+      path: ['services', cycle[0] as string, 'dependsOn'],
+      message: `Dependency cycle: ${formatDependencyCycle(cycle)}`,
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,146 @@
+import { strictEqual } from 'node:assert'
+import { createServer as createHttpServer } from 'node:http'
+import { type AddressInfo, createServer } from 'node:net'
+import { tmpdir } from 'node:os'
+import { describe, it } from 'node:test'
+
+import {
+  classifyHealth,
+  healthcheckGracePeriodMs,
+  healthcheckUrl,
+  probeHealthcheck,
+} from './health.ts'
+
+describe('health', () => {
+  describe('healthcheckGracePeriodMs()', () => {
+    it('uses the defaults', () => {
+      strictEqual(healthcheckGracePeriodMs({ tcp: true }), 6000)
+    })
+
+    it('adds the start period to the retry window', () => {
+      strictEqual(
+        healthcheckGracePeriodMs({
+          tcp: true,
+          interval: 1,
+          retries: 5,
+          startPeriod: 10,
+        }),
+        15000,
+      )
+    })
+  })
+
+  describe('classifyHealth()', () => {
+    const check = { tcp: true as const, interval: 1, retries: 2 }
+    const startedAt = '2026-01-01T00:00:00.000Z'
+    const started = Date.parse(startedAt)
+
+    it('is healthy when the check passes', () => {
+      strictEqual(classifyHealth(true, check, undefined), 'healthy')
+    })
+
+    it('is starting when the check fails within the grace period', () => {
+      strictEqual(
+        classifyHealth(false, check, startedAt, started + 1000),
+        'starting',
+      )
+    })
+
+    it('is unhealthy when the check fails after the grace period', () => {
+      strictEqual(
+        classifyHealth(false, check, startedAt, started + 2000),
+        'unhealthy',
+      )
+    })
+
+    it('is unhealthy when the start time is unknown', () => {
+      strictEqual(classifyHealth(false, check, undefined), 'unhealthy')
+    })
+  })
+
+  describe('healthcheckUrl()', () => {
+    it('requests paths on the service port', () => {
+      strictEqual(
+        healthcheckUrl('/health', 3000),
+        'http://127.0.0.1:3000/health',
+      )
+      strictEqual(
+        healthcheckUrl('health', 3000),
+        'http://127.0.0.1:3000/health',
+      )
+    })
+
+    it('uses full URLs as-is', () => {
+      strictEqual(
+        healthcheckUrl('https://api.localhost/up', undefined),
+        'https://api.localhost/up',
+      )
+    })
+
+    it('returns null for a path without a port', () => {
+      strictEqual(healthcheckUrl('/health', undefined), null)
+    })
+  })
+
+  describe('probeHealthcheck()', () => {
+    const target = { cwd: tmpdir() }
+
+    it('passes a tcp check when the port accepts connections', async () => {
+      const server = createServer()
+      await new Promise<void>((resolve) => server.listen(0, resolve))
+      const port = (server.address() as AddressInfo).port
+      try {
+        strictEqual(
+          await probeHealthcheck({ tcp: true }, { ...target, port }),
+          true,
+        )
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()))
+      }
+      strictEqual(
+        await probeHealthcheck({ tcp: port, timeout: 1 }, target),
+        false,
+      )
+    })
+
+    it('fails a tcp check for a service without a port', async () => {
+      strictEqual(await probeHealthcheck({ tcp: true }, target), false)
+    })
+
+    it('checks the http response status', async () => {
+      const server = createHttpServer((req, res) => {
+        res.statusCode = req.url === '/health' ? 200 : 503
+        res.end()
+      })
+      await new Promise<void>((resolve) => server.listen(0, resolve))
+      const port = (server.address() as AddressInfo).port
+      try {
+        strictEqual(
+          await probeHealthcheck({ http: '/health' }, { ...target, port }),
+          true,
+        )
+        strictEqual(
+          await probeHealthcheck({ http: '/broken' }, { ...target, port }),
+          false,
+        )
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()))
+      }
+    })
+
+    it('passes a command check when it exits 0', async () => {
+      strictEqual(await probeHealthcheck({ command: 'true' }, target), true)
+      strictEqual(await probeHealthcheck({ command: 'false' }, target), false)
+    })
+
+    it('runs command checks with the service environment', async () => {
+      strictEqual(
+        await probeHealthcheck(
+          { command: 'test "$READY" = yes' },
+          { ...target, env: { READY: 'yes' } },
+        ),
+        true,
+      )
+    })
+  })
+})
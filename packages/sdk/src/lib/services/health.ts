@@ -0,0 +1,141 @@
+import { exec } from 'node:child_process'
+import { connect } from 'node:net'
+
+import type { ProjectConfigSchema } from '../../schemas/config.ts'
+
+type ServiceConfig = NonNullable<ProjectConfigSchema['services']>[string]
+
+export type HealthcheckConfig = NonNullable<ServiceConfig['healthcheck']>
+
+/**
+ * Health of a running service with a healthcheck. `starting` covers failed
+ * checks while the service is still within its boot allowance.
+ */
+export type ServiceHealth = 'healthy' | 'unhealthy' | 'starting'
+
+export const HEALTHCHECK_DEFAULTS = {
+  interval: 2,
+  timeout: 5,
+  retries: 3,
+  startPeriod: 0,
+} as const
+
+/**
+ * Context a probe runs against: the service's effective port plus the cwd and
+ * environment command checks run with.
+ */
+export type HealthcheckTarget = {
+  port?: number
+  cwd: string
+  env?: Record<string, string>
+}
+
+/**
+ * How long after a (re)start failed checks still count as `starting`: the
+ * start period plus the configured number of retries at the check interval.
+ */
+export const healthcheckGracePeriodMs = (check: HealthcheckConfig): number => {
+  const interval = check.interval ?? HEALTHCHECK_DEFAULTS.interval
+  const retries = check.retries ?? HEALTHCHECK_DEFAULTS.retries
+  const startPeriod = check.startPeriod ?? HEALTHCHECK_DEFAULTS.startPeriod
+  return (startPeriod + interval * retries) * 1000
+}
+
+/**
+ * Classify a probe result. A failed probe within the grace period after the
+ * service was started is `starting`; after that it's `unhealthy`.
+ */
+export const classifyHealth = (
+  passed: boolean,
+  check: HealthcheckConfig,
+  startedAt: string | undefined,
+  now: number = Date.now(),
+): ServiceHealth => {
+  if (passed) return 'healthy'
+  const started = startedAt ? Date.parse(startedAt) : Number.NaN
+  if (
+    !Number.isNaN(started) &&
+    now - started < healthcheckGracePeriodMs(check)
+  ) {
+    return 'starting'
+  }
+  return 'unhealthy'
+}
+
+/**
+ * Resolve the URL an HTTP check requests. Paths are requested on the
+ * service's port on localhost; full URLs are used as-is.
+ */
+export const healthcheckUrl = (
+  path: string,
+  port: number | undefined,
+): string | null => {
+  if (/^https?:\/\//.test(path)) return path
+  if (port === undefined) return null
+  return `http://127.0.0.1:${port}${path.startsWith('/') ? path : `/${path}`}`
+}
+
+const probeHttp = async (url: string, timeoutMs: number): Promise<boolean> => {
+  try {
+    const response = await fetch(url, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    return response.status >= 200 && response.status < 400
+  } catch {
+    return false
+  }
+}
+
+const probeTcp = (port: number, timeoutMs: number): Promise<boolean> =>
+  new Promise((resolve) => {
+    const socket = connect({ host: '127.0.0.1', port })
+    const finish = (passed: boolean) => {
+      socket.destroy()
+      resolve(passed)
+    }
+    socket.setTimeout(timeoutMs, () => finish(false))
+    socket.once('connect', () => finish(true))
+    socket.once('error', () => finish(false))
+  })
+
+const probeCommand = (
+  command: string,
+  target: HealthcheckTarget,
+  timeoutMs: number,
+): Promise<boolean> =>
+  new Promise((resolve) => {
+    exec(
+      command,
+      {
+        cwd: target.cwd,
+        env: { ...process.env, ...target.env },
+        timeout: timeoutMs,
+      },
+      (error) => resolve(!error),
+    )
+  })
+
+/**
+ * Run a healthcheck once. Returns false when the check fails, times out or
+ * can't be run (e.g. a port check for a service without a port).
+ */
+export const probeHealthcheck = async (
+  check: HealthcheckConfig,
+  target: HealthcheckTarget,
+): Promise<boolean> => {
+  const timeoutMs = (check.timeout ?? HEALTHCHECK_DEFAULTS.timeout) * 1000
+
+  if (check.http !== undefined) {
+    const url = healthcheckUrl(check.http, target.port)
+    return url ? probeHttp(url, timeoutMs) : false
+  }
+  if (check.tcp !== undefined) {
+    const port = check.tcp === true ? target.port : check.tcp
+    return port === undefined ? false : probeTcp(port, timeoutMs)
+  }
+  if (check.command !== undefined) {
+    return probeCommand(check.command, target, timeoutMs)
+  }
+  return false
+}
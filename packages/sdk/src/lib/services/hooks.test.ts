@@ -0,0 +1,73 @@
+import { deepStrictEqual, strictEqual } from 'node:assert'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { formatServiceHooks, runServiceHook } from './hooks.ts'
+
+describe('runServiceHook()', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(resolve(tmpdir(), 'denvig-hooks-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('runs in the cwd with the service environment and streams its output', async () => {
+    const lines: string[] = []
+    const result = await runServiceHook(
+      'preStart',
+      'echo "port=$PORT"; pwd; echo oops >&2',
+      {
+        cwd: dir,
+        env: { PORT: '3001' },
+        onOutput: (line) => lines.push(line),
+      },
+    )
+
+    strictEqual(result.exitCode, 0)
+    strictEqual(result.hook, 'preStart')
+    deepStrictEqual(result.output.sort(), ['oops', 'port=3001', dir].sort())
+    deepStrictEqual(lines.sort(), result.output.sort())
+  })
+
+  it('reports the exit code of a failing command', async () => {
+    const result = await runServiceHook('postStop', 'printf partial; exit 3', {
+      cwd: dir,
+      env: {},
+    })
+
+    strictEqual(result.exitCode, 3)
+    deepStrictEqual(result.output, ['partial'])
+  })
+
+  it('reports a cwd that does not exist', async () => {
+    const result = await runServiceHook('preStop', 'true', {
+      cwd: resolve(dir, 'missing'),
+      env: {},
+    })
+
+    strictEqual(result.exitCode, null)
+    strictEqual(result.output.length, 1)
+  })
+})
+
+describe('formatServiceHooks()', () => {
+  it('lists configured hooks in lifecycle order on single lines', () => {
+    deepStrictEqual(
+      formatServiceHooks({
+        postStop: 'pg_dump app > dump.sql',
+        preStart: 'pnpm db:migrate\npnpm db:seed',
+      }),
+      [
+        'preStart: pnpm db:migrate\\npnpm db:seed',
+        'postStop: pg_dump app > dump.sql',
+      ],
+    )
+    deepStrictEqual(formatServiceHooks(undefined), [])
+  })
+})
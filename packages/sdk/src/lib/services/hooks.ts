@@ -0,0 +1,100 @@
+import { spawn } from 'node:child_process'
+
+import type { z } from 'zod'
+import type { ServiceConfigSchema } from '../../schemas/config.ts'
+
+export type ServiceHooks = NonNullable<
+  z.infer<typeof ServiceConfigSchema>['hooks']
+>
+
+/** Lifecycle hook names, in the order they appear in config. */
+export const SERVICE_HOOKS = [
+  'preStart',
+  'postStart',
+  'preStop',
+  'postStop',
+] as const
+
+export type ServiceHookName = (typeof SERVICE_HOOKS)[number]
+
+/** Outcome of running one lifecycle hook. */
+export type ServiceHookResult = {
+  hook: ServiceHookName
+  command: string
+  /** Exit code, or null when the command couldn't be run or was killed. */
+  exitCode: number | null
+  /** stdout and stderr, interleaved as written. */
+  output: string[]
+}
+
+/** Receives each line a hook writes, tagged with the hook it came from. */
+export type ServiceHookOutputHandler = (
+  hook: ServiceHookName,
+  line: string,
+) => void
+
+export type RunServiceHookOptions = {
+  cwd: string
+  /** Service environment, layered over the current process environment. */
+  env: Record<string, string>
+  /** Called with each line of output as it is written. */
+  onOutput?: (line: string) => void
+}
+
+/**
+ * Run a lifecycle hook command through the shell in the service cwd, the
+ * same way `healthcheck.command` runs.
+ */
+export const runServiceHook = (
+  hook: ServiceHookName,
+  command: string,
+  options: RunServiceHookOptions,
+): Promise<ServiceHookResult> =>
+  new Promise((resolveHook) => {
+    const output: string[] = []
+    let partial = ''
+    let settled = false
+    const write = (chunk: Buffer) => {
+      const lines = (partial + chunk.toString('utf-8')).split('\n')
+      partial = lines.pop() ?? ''
+      for (const line of lines) {
+        output.push(line)
+        options.onOutput?.(line)
+      }
+    }
+    const finish = (exitCode: number | null, error?: Error) => {
+      // A child that fails to spawn emits both `error` and `close`.
+      if (settled) return
+      settled = true
+      if (partial) {
+        output.push(partial)
+        options.onOutput?.(partial)
+        partial = ''
+      }
+      if (error) {
+        output.push(error.message)
+        options.onOutput?.(error.message)
+      }
+      resolveHook({ hook, command, exitCode, output })
+    }
+
+    const child = spawn(command, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      shell: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    })
+    child.stdout.on('data', write)
+    child.stderr.on('data', write)
+    child.once('error', (error) => finish(null, error))
+    child.once('close', (code) => finish(code))
+  })
+
+/**
+ * Render hooks as `name: command` lines for supervisor units, so changing a
+ * hook changes the unit and shows up in its config diff.
+ */
+export const formatServiceHooks = (hooks: ServiceHooks | undefined): string[] =>
+  SERVICE_HOOKS.filter((hook) => hooks?.[hook]).map(
+    (hook) => `${hook}: ${hooks?.[hook]?.replace(/\n/g, '\\n')}`,
+  )
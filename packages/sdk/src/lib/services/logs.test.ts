@@ -0,0 +1,293 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  symlinkSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  directorySize,
+  followServiceLogFiles,
+  parseServiceLogLines,
+  resolveLogRetention,
+  rotateServiceLogs,
+} from './logs.ts'
+
+import type { LogRetention, ServiceLogLine } from './logs.ts'
+
+const NOW = Date.UTC(2026, 0, 10)
+const DAY = 24 * 60 * 60 * 1000
+
+const RETENTION: LogRetention = {
+  maxSize: null,
+  maxFiles: 10,
+  maxAge: null,
+  compress: false,
+}
+
+describe('resolveLogRetention()', () => {
+  const global = { maxSize: '50MB', maxFiles: 10, compress: false }
+
+  it('uses the global settings', () => {
+    deepStrictEqual(resolveLogRetention(global), {
+      maxSize: 50 * 1024 * 1024,
+      maxFiles: 10,
+      maxAge: null,
+      compress: false,
+    })
+  })
+
+  it('prefers the service settings', () => {
+    deepStrictEqual(
+      resolveLogRetention(global, {
+        maxSize: '1KB',
+        maxFiles: 2,
+        maxAge: '7d',
+        compress: true,
+      }),
+      { maxSize: 1024, maxFiles: 2, maxAge: 7 * DAY, compress: true },
+    )
+  })
+})
+
+describe('rotateServiceLogs()', () => {
+  let dir: string
+
+  /** Write a log file last modified `daysAgo` days before NOW. */
+  const writeLog = (name: string, content: string, daysAgo = 0) => {
+    const path = resolve(dir, name)
+    writeFileSync(path, content)
+    const time = new Date(NOW - daysAgo * DAY)
+    utimesSync(path, time, time)
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(resolve(tmpdir(), 'denvig-logs-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('copies an oversized current log aside and truncates it', async () => {
+    writeLog('1000.log', 'x'.repeat(100))
+    symlinkSync('1000.log', resolve(dir, 'latest.log'))
+
+    const result = await rotateServiceLogs(
+      dir,
+      { ...RETENTION, maxSize: 50 },
+      NOW,
+    )
+
+    const rotated = `1000-${NOW / 1000}.log`
+    strictEqual(result.rotated, rotated)
+    strictEqual(statSync(resolve(dir, '1000.log')).size, 0)
+    strictEqual(readFileSync(resolve(dir, rotated), 'utf-8'), 'x'.repeat(100))
+  })
+
+  it('leaves a current log within maxSize alone', async () => {
+    writeLog('1000.log', 'x'.repeat(10))
+    symlinkSync('1000.log', resolve(dir, 'latest.log'))
+
+    const result = await rotateServiceLogs(
+      dir,
+      { ...RETENTION, maxSize: 50 },
+      NOW,
+    )
+
+    strictEqual(result.rotated, null)
+    strictEqual(statSync(resolve(dir, '1000.log')).size, 10)
+  })
+
+  it('removes the oldest files beyond maxFiles and those past maxAge', async () => {
+    writeLog('1000.log', 'aaaa', 30)
+    writeLog('2000.log', 'bb', 3)
+    writeLog('3000.log', 'c', 2)
+    writeLog('4000.log', 'd', 1)
+    writeLog('5000.log', 'current')
+    symlinkSync('5000.log', resolve(dir, 'latest.log'))
+    writeLog('notes.txt', 'not a log', 60)
+
+    const result = await rotateServiceLogs(
+      dir,
+      { ...RETENTION, maxFiles: 3, maxAge: 7 * DAY },
+      NOW,
+    )
+
+    deepStrictEqual(result.removed, ['2000.log', '1000.log'])
+    strictEqual(result.reclaimedBytes, 6)
+    deepStrictEqual(readdirSync(dir).sort(), [
+      '3000.log',
+      '4000.log',
+      '5000.log',
+      'latest.log',
+      'notes.txt',
+    ])
+  })
+
+  it('never touches the targets of latest symlinks', async () => {
+    writeLog('1000.log', 'stdout', 30)
+    writeLog('1000.err.log', 'stderr', 30)
+    symlinkSync('1000.log', resolve(dir, 'latest.log'))
+    symlinkSync('1000.err.log', resolve(dir, 'latest.err.log'))
+
+    const result = await rotateServiceLogs(
+      dir,
+      { ...RETENTION, maxFiles: 1, maxAge: DAY, compress: true },
+      NOW,
+    )
+
+    deepStrictEqual(result.removed, [])
+    deepStrictEqual(result.compressed, [])
+    ok(existsSync(resolve(dir, '1000.log')))
+  })
+
+  it('compresses kept files, preserving their modification time', async () => {
+    writeLog('1000.log', 'x'.repeat(10_000), 2)
+    writeLog('2000.log', 'current')
+    symlinkSync('2000.log', resolve(dir, 'latest.log'))
+
+    const result = await rotateServiceLogs(
+      dir,
+      { ...RETENTION, compress: true },
+      NOW,
+    )
+
+    deepStrictEqual(result.compressed, ['1000.log'])
+    ok(result.reclaimedBytes > 0)
+    ok(!existsSync(resolve(dir, '1000.log')))
+    strictEqual(statSync(resolve(dir, '1000.log.gz')).mtimeMs, NOW - 2 * DAY)
+
+    // Compressed files still count towards retention.
+    const pruned = await rotateServiceLogs(
+      dir,
+      { ...RETENTION, maxFiles: 1 },
+      NOW,
+    )
+    deepStrictEqual(pruned.removed, ['1000.log.gz'])
+  })
+
+  it('does nothing when the directory does not exist', async () => {
+    deepStrictEqual(
+      await rotateServiceLogs(resolve(dir, 'missing'), RETENTION),
+      {
+        rotated: null,
+        removed: [],
+        compressed: [],
+        reclaimedBytes: 0,
+      },
+    )
+  })
+})
+
+describe('directorySize()', () => {
+  it('sums file sizes recursively', async () => {
+    const dir = mkdtempSync(resolve(tmpdir(), 'denvig-size-'))
+    try {
+      writeFileSync(resolve(dir, 'a.log'), 'abc')
+      mkdirSync(resolve(dir, 'nested'))
+      writeFileSync(resolve(dir, 'nested', 'b.log'), 'defg')
+      strictEqual(await directorySize(dir), 7)
+      strictEqual(await directorySize(resolve(dir, 'missing')), 0)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('parseServiceLogLines()', () => {
+  it('reads the time prefix and carries it over to lines without one', () => {
+    deepStrictEqual(
+      parseServiceLogLines(
+        '[2026-10-19T10:00:01Z] Error: boom\n    at main.js:1\n\n[2026-10-19T10:00:02.500Z] Service Stopped\n',
+      ),
+      [
+        {
+          time: '2026-10-19T10:00:01Z',
+          line: '[2026-10-19T10:00:01Z] Error: boom',
+        },
+        { time: '2026-10-19T10:00:01Z', line: '    at main.js:1' },
+        {
+          time: '2026-10-19T10:00:02.500Z',
+          line: '[2026-10-19T10:00:02.500Z] Service Stopped',
+        },
+      ],
+    )
+  })
+
+  it('leaves lines before the first time without one', () => {
+    deepStrictEqual(parseServiceLogLines('booting\n'), [
+      { time: null, line: 'booting' },
+    ])
+    deepStrictEqual(parseServiceLogLines('more\n', '2026-10-19T10:00:01Z'), [
+      { time: '2026-10-19T10:00:01Z', line: 'more' },
+    ])
+  })
+})
+
+describe('followServiceLogFiles()', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(resolve(tmpdir(), 'denvig-follow-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  /** Poll until `check` passes or two seconds elapse. */
+  const waitFor = async (check: () => boolean) => {
+    const deadline = Date.now() + 2000
+    while (!check()) {
+      if (Date.now() > deadline) throw new Error('Timed out')
+      await new Promise((resolveWait) => setTimeout(resolveWait, 20))
+    }
+  }
+
+  it('reports appended lines and follows the symlink to a new file', async () => {
+    const logPath = resolve(dir, 'latest.log')
+    writeFileSync(resolve(dir, '1000.log'), 'old\n')
+    symlinkSync('1000.log', logPath)
+
+    const seen: [string, ServiceLogLine][] = []
+    const stop = await followServiceLogFiles(
+      [{ name: 'api', logPath }],
+      (log, line) => seen.push([log.name, line]),
+      20,
+    )
+    try {
+      appendFileSync(resolve(dir, '1000.log'), '[2026-10-19T10:00:01Z] one\ntw')
+      await waitFor(() => seen.length === 1)
+      appendFileSync(resolve(dir, '1000.log'), 'o\n')
+      await waitFor(() => seen.length === 2)
+
+      writeFileSync(resolve(dir, '2000.log'), 'restarted\n')
+      rmSync(logPath)
+      symlinkSync('2000.log', logPath)
+      await waitFor(() => seen.length === 3)
+
+      deepStrictEqual(seen, [
+        [
+          'api',
+          { time: '2026-10-19T10:00:01Z', line: '[2026-10-19T10:00:01Z] one' },
+        ],
+        ['api', { time: '2026-10-19T10:00:01Z', line: 'two' }],
+        ['api', { time: null, line: 'restarted' }],
+      ])
+    } finally {
+      stop()
+    }
+  })
+})
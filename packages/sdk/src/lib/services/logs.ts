@@ -0,0 +1,349 @@
+import { createReadStream, createWriteStream } from 'node:fs'
+import {
+  copyFile,
+  lstat,
+  open,
+  readdir,
+  readFile,
+  readlink,
+  realpath,
+  rm,
+  stat,
+  truncate,
+  utimes,
+} from 'node:fs/promises'
+import { basename, resolve } from 'node:path'
+import { pipeline } from 'node:stream/promises'
+import { createGzip } from 'node:zlib'
+
+import { parseDuration } from '../formatters/duration.ts'
+import { parseSize } from '../formatters/size.ts'
+
+import type { z } from 'zod'
+import type {
+  GlobalConfigSchema,
+  ServiceConfigSchema,
+} from '../../schemas/config.ts'
+
+type LogsConfig = NonNullable<z.infer<typeof ServiceConfigSchema>['logs']>
+
+/** Resolved log rotation and retention limits for one service. */
+export type LogRetention = {
+  /** Bytes the current log may grow to before it is rotated. */
+  maxSize: number | null
+  /** Log files kept, including the current one. */
+  maxFiles: number
+  /** Milliseconds after which rotated and previous log files are removed. */
+  maxAge: number | null
+  compress: boolean
+}
+
+/** What a rotation pass did to a service's log directory. */
+export type LogRotationResult = {
+  /** Name of the rotated copy of the current log, when it was rotated. */
+  rotated: string | null
+  /** Log files removed for exceeding `maxFiles` or `maxAge`. */
+  removed: string[]
+  /** Log files gzipped in place. */
+  compressed: string[]
+  /** Bytes freed by removing and compressing files. */
+  reclaimedBytes: number
+}
+
+/**
+ * Timestamped log files: `<started>.log` for each start, and
+ * `<started>-<rotated>.log` for copies rotated out of a running service's
+ * log, optionally gzipped.
+ */
+const LOG_FILE_PATTERN = /^\d+(-\d+)?\.log(\.gz)?$/
+
+/**
+ * Merge a service's `logs` settings over the global ones.
+ */
+export const resolveLogRetention = (
+  global: GlobalConfigSchema['logs'],
+  service?: LogsConfig,
+): LogRetention => {
+  const maxSize = service?.maxSize ?? global.maxSize
+  const maxAge = service?.maxAge ?? global.maxAge
+  return {
+    maxSize: maxSize ? parseSize(maxSize) : null,
+    maxFiles: service?.maxFiles ?? global.maxFiles,
+    maxAge: maxAge ? parseDuration(maxAge) : null,
+    compress: service?.compress ?? global.compress,
+  }
+}
+
+/**
+ * The log files the `latest*.log` symlinks point at. A live process may be
+ * appending to any of them, so they are never removed or compressed.
+ */
+const currentLogFiles = async (
+  logDir: string,
+  entries: string[],
+): Promise<Set<string>> => {
+  const current = new Set<string>()
+  for (const entry of entries) {
+    if (!/^latest(\..+)?\.log$/.test(entry)) continue
+    const target = await readlink(resolve(logDir, entry)).catch(() => null)
+    if (target) current.add(basename(target))
+  }
+  return current
+}
+
+const gzipFile = async (path: string): Promise<number> => {
+  const before = await stat(path)
+  const target = `${path}.gz`
+  await pipeline(
+    createReadStream(path),
+    createGzip(),
+    createWriteStream(target),
+  )
+  // Keep the original time so age-based retention still applies.
+  await utimes(target, before.atime, before.mtime)
+  await rm(path)
+  return before.size - (await stat(target)).size
+}
+
+/**
+ * Apply log retention to a service's log directory:
+ *
+ * 1. When the current log (the `latest.log` target) exceeds `maxSize`, its
+ *    contents are copied to `<started>-<now>.log` and it is truncated in
+ *    place. Supervisors append to the file, so the running process keeps
+ *    writing to it without a restart.
+ * 2. Other log files beyond the newest `maxFiles` (counting the current
+ *    log), or older than `maxAge`, are removed.
+ * 3. With `compress`, the remaining ones are gzipped.
+ *
+ * Errors on individual files are skipped so rotation never blocks a start.
+ */
+export const rotateServiceLogs = async (
+  logDir: string,
+  retention: LogRetention,
+  now: number = Date.now(),
+): Promise<LogRotationResult> => {
+  const result: LogRotationResult = {
+    rotated: null,
+    removed: [],
+    compressed: [],
+    reclaimedBytes: 0,
+  }
+  let entries: string[]
+  try {
+    entries = await readdir(logDir)
+  } catch {
+    return result
+  }
+  const current = await currentLogFiles(logDir, entries)
+
+  const active = await readlink(resolve(logDir, 'latest.log')).catch(() => null)
+  if (active && retention.maxSize !== null) {
+    const activePath = resolve(logDir, basename(active))
+    const size = await stat(activePath)
+      .then((stats) => stats.size)
+      .catch(() => 0)
+    if (size > retention.maxSize) {
+      const rotated = `${basename(active, '.log')}-${Math.floor(now / 1000)}.log`
+      try {
+        await copyFile(activePath, resolve(logDir, rotated))
+        await truncate(activePath, 0)
+        result.rotated = rotated
+        entries.push(rotated)
+      } catch {
+        // Leave the log to grow rather than lose it.
+      }
+    }
+  }
+
+  const archived: { name: string; size: number; mtime: number }[] = []
+  for (const name of entries) {
+    if (!LOG_FILE_PATTERN.test(name) || current.has(name)) continue
+    const stats = await lstat(resolve(logDir, name)).catch(() => null)
+    if (!stats?.isFile()) continue
+    archived.push({ name, size: stats.size, mtime: stats.mtimeMs })
+  }
+  archived.sort((a, b) => b.mtime - a.mtime || b.name.localeCompare(a.name))
+
+  const keep = retention.maxFiles - (active ? 1 : 0)
+  const kept: typeof archived = []
+  for (const [index, file] of archived.entries()) {
+    const expired =
+      retention.maxAge !== null && now - file.mtime > retention.maxAge
+    if (index < keep && !expired) {
+      kept.push(file)
+      continue
+    }
+    try {
+      await rm(resolve(logDir, file.name))
+      result.removed.push(file.name)
+      result.reclaimedBytes += file.size
+    } catch {
+      // Skip files that can't be removed.
+    }
+  }
+
+  if (retention.compress) {
+    for (const file of kept) {
+      if (file.name.endsWith('.gz')) continue
+      try {
+        result.reclaimedBytes += await gzipFile(resolve(logDir, file.name))
+        result.compressed.push(file.name)
+      } catch {
+        // Leave the file uncompressed.
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Total size of the files in a directory tree, for reporting space freed by
+ * removing it. Symlinks are not followed.
+ */
+export const directorySize = async (dir: string): Promise<number> => {
+  let total = 0
+  let entries: string[]
+  try {
+    entries = await readdir(dir)
+  } catch {
+    return 0
+  }
+  for (const entry of entries) {
+    const path = resolve(dir, entry)
+    const stats = await lstat(path).catch(() => null)
+    if (!stats) continue
+    if (stats.isDirectory()) total += await directorySize(path)
+    else if (stats.isFile()) total += stats.size
+  }
+  return total
+}
+
+/** One line of a service log. */
+export type ServiceLogLine = {
+  /**
+   * ISO time the line was written, from the `[time]` prefix the service
+   * wrapper adds. Lines without one take the time of the line before, and are
+   * null at the start of a file.
+   */
+  time: string | null
+  /** The line as written, including its time prefix. */
+  line: string
+}
+
+const LOG_TIME_PATTERN = /^\[(\d{4}-\d{2}-\d{2}T[\d:.]+Z)\]/
+
+/**
+ * Split log text into lines with their times. `previousTime` carries the time
+ * over from earlier text of the same file.
+ */
+export const parseServiceLogLines = (
+  text: string,
+  previousTime: string | null = null,
+): ServiceLogLine[] => {
+  const lines: ServiceLogLine[] = []
+  let time = previousTime
+  for (const line of text.split('\n')) {
+    if (!line) continue
+    time = LOG_TIME_PATTERN.exec(line)?.[1] ?? time
+    lines.push({ time, line })
+  }
+  return lines
+}
+
+/**
+ * Read every line of a service log, or none when it doesn't exist.
+ */
+export const readServiceLogLines = async (
+  logPath: string,
+): Promise<ServiceLogLine[]> => {
+  try {
+    return parseServiceLogLines(await readFile(logPath, 'utf-8'))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Call `onLine` for every line appended to any of the logs from now on.
+ * Each path is a `latest` symlink; when it moves to a new file (the service
+ * restarted) or the file shrinks (it was rotated), reading restarts from the
+ * top of the file. Resolves to a function that stops following.
+ */
+export const followServiceLogFiles = async <T extends { logPath: string }>(
+  logs: T[],
+  onLine: (log: T, line: ServiceLogLine) => void,
+  intervalMs = 250,
+): Promise<() => void> => {
+  type Position = {
+    target: string | null
+    offset: number
+    partial: string
+    time: string | null
+  }
+  const positionOf = async (logPath: string): Promise<Position> => {
+    try {
+      const target = await realpath(logPath)
+      return {
+        target,
+        offset: (await stat(target)).size,
+        partial: '',
+        time: null,
+      }
+    } catch {
+      return { target: null, offset: 0, partial: '', time: null }
+    }
+  }
+  const positions = new Map<T, Position>()
+  for (const log of logs) positions.set(log, await positionOf(log.logPath))
+
+  const read = async (log: T, position: Position) => {
+    const target = await realpath(log.logPath).catch(() => null)
+    if (!target) return
+    const size = (await stat(target)).size
+    if (target !== position.target || size < position.offset) {
+      position.target = target
+      position.offset = 0
+      position.partial = ''
+      position.time = null
+    }
+    if (size === position.offset) return
+
+    const handle = await open(target, 'r')
+    const buffer = Buffer.alloc(size - position.offset)
+    try {
+      await handle.read(buffer, 0, buffer.length, position.offset)
+    } finally {
+      await handle.close()
+    }
+    position.offset = size
+
+    const text = position.partial + buffer.toString('utf-8')
+    const end = text.lastIndexOf('\n')
+    position.partial = text.slice(end + 1)
+    for (const line of parseServiceLogLines(
+      text.slice(0, end + 1),
+      position.time,
+    )) {
+      position.time = line.time
+      onLine(log, line)
+    }
+  }
+
+  let polling = false
+  const poll = async () => {
+    if (polling) return
+    polling = true
+    try {
+      for (const [log, position] of positions) {
+        await read(log, position).catch(() => {})
+      }
+    } finally {
+      polling = false
+    }
+  }
+
+  const timer = setInterval(() => void poll(), intervalMs)
+  return () => clearInterval(timer)
+}
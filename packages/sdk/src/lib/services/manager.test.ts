@@ -25,6 +25,10 @@ import {
   updateServiceState,
 } from './state.ts'
 
+// These tests drive the launchd backend through mocked launchctl calls, so pin
+// it regardless of the platform running the suite.
+process.env.DENVIG_SERVICE_SUPERVISOR = 'launchd'
+
 /** Bind an ephemeral TCP port and return it with a release callback. */
 const occupyPort = async (): Promise<{
   port: number
@@ -82,12 +86,12 @@ describe('ServiceManager', () => {
     })
   })
 
-  describe('getPlistPath()', () => {
+  describe('getUnitPath()', () => {
     it('should generate correct plist path using project ID', () => {
       const project = createMockInternalProject('workspace/my-app')
       const manager = new ServiceManager(project)
 
-      const path = manager.getPlistPath('api')
+      const path = manager.getUnitPath('api')
 
       ok(path.includes('Library/LaunchAgents'))
       ok(path.includes(`denvig.${project.id}.api.plist`))
@@ -97,7 +101,7 @@ describe('ServiceManager', () => {
       const project = createMockInternalProject('workspace/my-app')
       const manager = new ServiceManager(project)
 
-      const path = manager.getPlistPath('dev:watch')
+      const path = manager.getUnitPath('dev:watch')
 
       ok(path.includes('Library/LaunchAgents'))
       ok(path.includes(`denvig.${project.id}.dev-watch.plist`))
@@ -214,64 +218,89 @@ describe('ServiceManager', () => {
     })
   })
 
-  describe('pruneOldLogFiles()', () => {
+  describe('rotateLogs()', () => {
+    let originalHome: string | undefined
+    let tmpHome = ''
+
+    beforeEach(() => {
+      originalHome = process.env.HOME
+      tmpHome = mkdtempSync(`${tmpdir()}/denvig-manager-rotate-`)
+      process.env.HOME = tmpHome
+    })
+    afterEach(() => {
+      if (originalHome !== undefined) process.env.HOME = originalHome
+      else delete process.env.HOME
+      rmSync(tmpHome, { recursive: true, force: true })
+    })
+
     it('should keep only the 10 most recent log files and preserve symlinks', async () => {
       const project = createMockInternalProject('workspace/my-app')
       const manager = new ServiceManager(project)
+      const logDir = manager.getServiceLogDir('api')
+      mkdirSync(logDir, { recursive: true })
 
-      const logDir = mkdtempSync(resolve(tmpdir(), 'denvig-prune-'))
-      try {
-        // Create 15 timestamped log files
-        const timestamps = Array.from({ length: 15 }, (_, i) => 1700000000 + i)
-        for (const ts of timestamps) {
-          writeFileSync(resolve(logDir, `${ts}.log`), '')
-        }
-        // Symlinks should always be preserved regardless of count
-        symlinkSync('1700000014.log', resolve(logDir, 'latest.log'))
-        symlinkSync(
-          '1700000014.log',
-          resolve(logDir, `latest.${hostname()}.log`),
-        )
-
-        await (manager as any).pruneOldLogFiles(logDir)
-
-        const remaining = readdirSync(logDir)
-        const logFiles = remaining
-          .filter((name) => /^\d+\.log$/.test(name))
-          .sort()
-        strictEqual(logFiles.length, 10, 'should keep 10 timestamped logs')
-        strictEqual(logFiles[0], '1700000005.log', 'should keep newest 10')
-        strictEqual(logFiles[9], '1700000014.log')
-
-        ok(remaining.includes('latest.log'), 'latest.log preserved')
-        ok(
-          remaining.includes(`latest.${hostname()}.log`),
-          'host symlink preserved',
-        )
-      } finally {
-        rmSync(logDir, { recursive: true, force: true })
+      // Create 15 timestamped log files
+      const timestamps = Array.from({ length: 15 }, (_, i) => 1700000000 + i)
+      for (const ts of timestamps) {
+        writeFileSync(resolve(logDir, `${ts}.log`), '')
       }
+      // Symlinks should always be preserved regardless of count
+      symlinkSync('1700000014.log', resolve(logDir, 'latest.log'))
+      symlinkSync('1700000014.log', resolve(logDir, `latest.${hostname()}.log`))
+
+      await manager.rotateLogs('api')
+
+      const remaining = readdirSync(logDir)
+      const logFiles = remaining
+        .filter((name) => /^\d+\.log$/.test(name))
+        .sort()
+      strictEqual(logFiles.length, 10, 'should keep 10 timestamped logs')
+      strictEqual(logFiles[0], '1700000005.log', 'should keep newest 10')
+      strictEqual(logFiles[9], '1700000014.log')
+
+      ok(remaining.includes('latest.log'), 'latest.log preserved')
+      ok(
+        remaining.includes(`latest.${hostname()}.log`),
+        'host symlink preserved',
+      )
     })
 
     it('should leave files untouched when fewer than the limit exist', async () => {
       const project = createMockInternalProject('workspace/my-app')
       const manager = new ServiceManager(project)
+      const logDir = manager.getServiceLogDir('api')
+      mkdirSync(logDir, { recursive: true })
+      for (const ts of [1700000000, 1700000001, 1700000002]) {
+        writeFileSync(resolve(logDir, `${ts}.log`), '')
+      }
 
-      const logDir = mkdtempSync(resolve(tmpdir(), 'denvig-prune-'))
-      try {
-        for (const ts of [1700000000, 1700000001, 1700000002]) {
-          writeFileSync(resolve(logDir, `${ts}.log`), '')
-        }
+      await manager.rotateLogs('api')
 
-        await (manager as any).pruneOldLogFiles(logDir)
+      const logFiles = readdirSync(logDir).filter((name) =>
+        /^\d+\.log$/.test(name),
+      )
+      strictEqual(logFiles.length, 3)
+    })
 
-        const logFiles = readdirSync(logDir).filter((name) =>
-          /^\d+\.log$/.test(name),
-        )
-        strictEqual(logFiles.length, 3)
-      } finally {
-        rmSync(logDir, { recursive: true, force: true })
+    it('should apply the service logs settings over the global ones', async () => {
+      const project = createMockInternalProject('workspace/my-app')
+      project.config.services = {
+        api: { command: 'echo hi', logs: { maxFiles: 2 } },
+      }
+      const manager = new ServiceManager(project)
+      const logDir = manager.getServiceLogDir('api')
+      mkdirSync(logDir, { recursive: true })
+      for (const ts of [1700000000, 1700000001, 1700000002]) {
+        writeFileSync(resolve(logDir, `${ts}.log`), '')
       }
+      writeFileSync(
+        resolve(tmpHome, '.denvig', 'config.yml'),
+        'logs:\n  maxFiles: 20\n',
+      )
+
+      const result = await manager.rotateLogs('api')
+
+      deepStrictEqual(result.removed, ['1700000000.log'])
     })
   })
 
@@ -398,6 +427,96 @@ describe('ServiceManager', () => {
     })
   })
 
+  describe('lifecycle hooks', () => {
+    let originalHome: string | undefined
+    let tmpHome = ''
+
+    beforeEach(() => {
+      originalHome = process.env.HOME
+      tmpHome = mkdtempSync(`${tmpdir()}/denvig-manager-hooks-`)
+      process.env.HOME = tmpHome
+      mkdirSync(`${tmpHome}/Library/LaunchAgents`, { recursive: true })
+    })
+    afterEach(() => {
+      if (originalHome !== undefined) process.env.HOME = originalHome
+      else delete process.env.HOME
+      rmSync(tmpHome, { recursive: true, force: true })
+    })
+
+    it('runs the stop hooks when a running service is relaunched for a config change', async (t) => {
+      const project = createMockInternalProject({
+        slug: 'github:owner/repo',
+        path: `${tmpHome}/repo`,
+      })
+      const hooks = {
+        preStart: 'echo "preStart $PORT" >> hooks.log',
+        postStart: 'echo "postStart $PORT" >> hooks.log',
+        preStop: 'echo "preStop $PORT" >> hooks.log',
+        postStop: 'echo "postStop $PORT" >> hooks.log',
+      }
+      project.config.services = {
+        api: { command: 'node server.js', http: { port: 4100 }, hooks },
+      }
+      t.mock.method(launchctl, 'print', async () => null)
+      t.mock.method(launchctl, 'enable', async () => ({
+        success: true,
+        output: '',
+      }))
+      t.mock.method(launchctl, 'bootstrap', async () => ({
+        success: true,
+        output: '',
+      }))
+      const manager = new ServiceManager(project)
+      ok(
+        (await manager.startService('api', { port: 4100, portResolved: true }))
+          .success,
+      )
+
+      // The running service's command changes, so the reconciler relaunches it.
+      t.mock.restoreAll()
+      t.mock.method(launchctl, 'print', async () => ({
+        label: 'test',
+        pid: 123,
+        state: 'running',
+        status: 'running',
+      }))
+      t.mock.method(launchctl, 'enable', async () => ({
+        success: true,
+        output: '',
+      }))
+      const hooksLog = resolve(project.path, 'hooks.log')
+      const bootout = t.mock.method(launchctl, 'bootout', async () => {
+        writeFileSync(hooksLog, 'bootout\n', { flag: 'a' })
+        return { success: true, output: '' }
+      })
+      t.mock.method(launchctl, 'bootstrap', async () => ({
+        success: true,
+        output: '',
+      }))
+      project.config.services = {
+        api: { command: 'node server.js --v2', http: { port: 4100 }, hooks },
+      }
+      writeFileSync(hooksLog, '')
+
+      const result = await new ServiceManager(project).startService('api', {
+        port: 4101,
+        portResolved: true,
+        reviveIfNotRunning: false,
+      })
+
+      ok(result.success, result.message)
+      strictEqual(bootout.mock.callCount(), 1)
+      deepStrictEqual(
+        result.hooks?.map((hook) => hook.hook),
+        ['preStop', 'postStop', 'preStart', 'postStart'],
+      )
+      strictEqual(
+        readFileSync(hooksLog, 'utf-8'),
+        'preStop 4100\nbootout\npostStop 4100\npreStart 4101\npostStart 4101\n',
+      )
+    })
+  })
+
   describe('buildServiceEnvironment()', () => {
     it('should skip missing env files when explicitly specified', async () => {
       const project = createMockInternalProject({
@@ -672,6 +791,130 @@ describe('ServiceManager', () => {
     })
   })
 
+  describe('healthchecks', () => {
+    let originalHome: string | undefined
+    let tmpHome = ''
+
+    beforeEach(() => {
+      originalHome = process.env.HOME
+      tmpHome = mkdtempSync(`${tmpdir()}/denvig-manager-health-`)
+      process.env.HOME = tmpHome
+      mkdirSync(`${tmpHome}/Library/LaunchAgents`, { recursive: true })
+    })
+    afterEach(() => {
+      if (originalHome !== undefined) process.env.HOME = originalHome
+      else delete process.env.HOME
+      rmSync(tmpHome, { recursive: true, force: true })
+    })
+
+    const createProject = (port: number) => {
+      const project = createMockInternalProject({
+        slug: 'github:owner/repo',
+        path: `${tmpHome}/repo`,
+      })
+      project.config.services = {
+        api: {
+          command: 'node server.js',
+          http: { port },
+          healthcheck: { tcp: true, timeout: 1 },
+        },
+        worker: { command: 'node worker.js' },
+      }
+      return project
+    }
+
+    it('returns null for a service without a healthcheck', async () => {
+      const manager = new ServiceManager(createProject(4000))
+      strictEqual(await manager.getServiceHealth('worker'), null)
+    })
+
+    it('is healthy when the check passes', async () => {
+      const { port, release } = await occupyPort()
+      try {
+        const manager = new ServiceManager(createProject(port))
+        strictEqual(await manager.getServiceHealth('api'), 'healthy')
+      } finally {
+        await release()
+      }
+    })
+
+    it('is starting when the check fails shortly after a start', async () => {
+      const { port, release } = await occupyPort()
+      await release()
+      const project = createProject(port)
+      await updateServiceState(project.id, 'api', {
+        cwd: project.path,
+        startedAt: new Date().toISOString(),
+      })
+      const manager = new ServiceManager(project)
+      strictEqual(await manager.getServiceHealth('api'), 'starting')
+    })
+
+    it('is unhealthy when the check keeps failing after the grace period', async () => {
+      const { port, release } = await occupyPort()
+      await release()
+      const project = createProject(port)
+      await updateServiceState(project.id, 'api', {
+        cwd: project.path,
+        startedAt: new Date(Date.now() - 60_000).toISOString(),
+      })
+      const manager = new ServiceManager(project)
+      strictEqual(await manager.getServiceHealth('api'), 'unhealthy')
+    })
+
+    it('only probes a running service when the response asks for health', async () => {
+      const { port, release } = await occupyPort()
+      try {
+        const manager = new ServiceManager(createProject(port))
+        const launchctlList = [
+          { pid: 123, status: 0, label: manager.getServiceLabel('api') },
+        ]
+        const listed = await manager.getServiceResponse('api', {
+          launchctlList,
+        })
+        strictEqual(listed?.status, 'running')
+        strictEqual(listed?.health, null)
+
+        const probed = await manager.getServiceResponse('api', {
+          launchctlList,
+          includeHealth: true,
+        })
+        strictEqual(probed?.health, 'healthy')
+      } finally {
+        await release()
+      }
+    })
+
+    it('records the start time when the service is launched', async (t) => {
+      const project = createProject(4000)
+      const manager = new ServiceManager(project)
+      t.mock.method(launchctl, 'print', async () => null)
+      t.mock.method(launchctl, 'enable', async () => ({
+        success: true,
+        output: '',
+      }))
+      t.mock.method(launchctl, 'bootstrap', async () => ({
+        success: true,
+        output: '',
+      }))
+
+      const result = await manager.startService('worker', {
+        portResolved: true,
+      })
+      ok(result.success, result.message)
+      ok((await getServiceState(project.id, 'worker'))?.startedAt)
+    })
+
+    it('stops waiting when the service is not running', async (t) => {
+      const manager = new ServiceManager(createProject(4000))
+      t.mock.method(launchctl, 'print', async () => null)
+
+      const readiness = await manager.waitForService('api')
+      strictEqual(readiness.ready, false)
+      strictEqual(readiness.health, 'unhealthy')
+    })
+  })
+
   describe('gateway domain mapping', () => {
     let originalHome: string | undefined
     let tmpHome = ''
@@ -3,7 +3,6 @@ import {
   appendFile,
   chmod,
   mkdir,
-  readdir,
   readFile,
   rm,
   symlink,
@@ -11,8 +10,9 @@ import {
   writeFile,
 } from 'node:fs/promises'
 import { homedir, hostname } from 'node:os'
-import { basename, isAbsolute, relative, resolve } from 'node:path'
+import { basename, dirname, isAbsolute, relative, resolve } from 'node:path'
 
+import { getGlobalConfig } from '../config.ts'
 import { findCertForDomain, resolveSslPaths } from '../gateway/certs.ts'
 import { configureGateway } from '../gateway/configure.ts'
 import { detectGitWorktree } from '../project/git.ts'
@@ -24,11 +24,32 @@ import {
 } from './docker.ts'
 import { DEFAULT_ENV_FILES, loadEnvFiles } from './env.ts'
 import { isGlobalSlug } from './global.ts'
-import launchctl, { type LaunchctlListItem } from './launchctl.ts'
+import { dependencyLevels, localDependencyEdges } from './graph.ts'
+import {
+  classifyHealth,
+  HEALTHCHECK_DEFAULTS,
+  probeHealthcheck,
+  type ServiceHealth,
+} from './health.ts'
+import {
+  runServiceHook,
+  type ServiceHookName,
+  type ServiceHookOutputHandler,
+  type ServiceHookResult,
+} from './hooks.ts'
+import {
+  directorySize,
+  type LogRetention,
+  type LogRotationResult,
+  resolveLogRetention,
+  rotateServiceLogs,
+} from './logs.ts'
 import { normalizeServiceLabel } from './paths.ts'
-import { generatePlist, generateServiceScript } from './plist.ts'
+import { generateServiceScript } from './plist.ts'
 import { allocateRandomPort, isPortInUse } from './ports.ts'
 import {
+  claimedGatewayPaths,
+  gatewayRouteKey,
   getGatewayRoute,
   getServiceState,
   markServiceStopped,
@@ -39,12 +60,15 @@ import {
   setGatewayRoute,
   updateServiceState,
 } from './state.ts'
+import { getServiceSupervisor, type ServiceSupervisor } from './supervisor.ts'
 
 import type { ProjectConfigSchema } from '../../schemas/config.ts'
+import type { LaunchctlListItem } from './launchctl.ts'
 
 // Re-export service types from shared types file
 export type {
   ServiceInfo,
+  ServiceReadiness,
   ServiceResponse,
   ServiceResult,
   ServiceStatus,
@@ -52,6 +76,7 @@ export type {
 
 import type {
   ServiceInfo,
+  ServiceReadiness,
   ServiceResponse,
   ServiceResult,
   ServiceStatus,
@@ -76,9 +101,18 @@ export type ServiceManagerProject = {
  */
 export class ServiceManager {
   private project: ServiceManagerProject
+  private supervisor: ServiceSupervisor
 
-  constructor(project: ServiceManagerProject) {
+  /**
+   * @param options.supervisor - Process supervisor backend to drive. Defaults
+   *   to the active backend for this machine (see `getServiceSupervisor`).
+   */
+  constructor(
+    project: ServiceManagerProject,
+    options?: { supervisor?: ServiceSupervisor },
+  ) {
     this.project = project
+    this.supervisor = options?.supervisor ?? getServiceSupervisor()
   }
 
   /**
@@ -119,16 +153,16 @@ export class ServiceManager {
   }
 
   /**
-   * Build the actual command launchd executes for a service. Host services
+   * Build the actual command the supervisor executes for a service. Host services
    * run their command verbatim; docker services run a generated `docker run`
    * invocation that mounts the project at /denvig/project and forwards the
    * resolved environment into the container.
    *
-   * @param options.hostPort - The resolved host port (the one launchd/gateway
-   *   sees). Mapped to the container port for docker services.
+   * @param options.hostPort - The resolved host port (the one the
+   *   supervisor/gateway sees). Mapped to the container port for docker services.
    * @param options.containerPort - The port the container listens on.
    * @param options.envKeys - Environment variable names to forward into the
-   *   container (their values come from the plist environment).
+   *   container (their values come from the unit environment).
    */
   private buildRunCommand(
     name: string,
@@ -468,12 +502,12 @@ export class ServiceManager {
    *   without claiming any domain (it runs on its port only and does not take
    *   over an existing route).
    * @param options.reviveIfNotRunning - When the service is already
-   *   bootstrapped with an unchanged plist but isn't currently running,
+   *   bootstrapped with an unchanged unit but isn't currently running,
    *   bootout and bootstrap again to kick it (`true`, the default — what an
    *   explicit `start` wants). The reconciler passes `false`: a bootstrapped
-   *   service's liveness is launchd's job (`KeepAlive` respawns it, one-shot
-   *   services are meant to stay exited), so re-bootstrapping an unchanged
-   *   plist is needless churn that fights launchd.
+   *   service's liveness is the supervisor's job (`keepAlive` respawns it,
+   *   one-shot services are meant to stay exited), so re-bootstrapping an
+   *   unchanged unit is needless churn that fights the supervisor.
    */
   async startService(
     name: string,
@@ -482,6 +516,7 @@ export class ServiceManager {
       portResolved?: boolean
       domains?: string[]
       reviveIfNotRunning?: boolean
+      onHookOutput?: ServiceHookOutputHandler
     },
   ): Promise<ServiceResult> {
     const config = this.getServiceConfig(name)
@@ -533,7 +568,7 @@ export class ServiceManager {
     }
     const label = this.getServiceLabel(name)
 
-    // Resolve the actual command launchd runs. For docker services this is a
+    // Resolve the actual command the supervisor runs. For docker services this is a
     // generated `docker run` invocation; the snapshot keeps the original
     // command plus runtime/image so the reconciler can rebuild it identically.
     const runResult = this.buildRunCommand(name, config, {
@@ -546,7 +581,7 @@ export class ServiceManager {
     }
     const runCommand = runResult.command
 
-    const printInfo = await launchctl.print(label)
+    const printInfo = await this.supervisor.print(label)
     const isBootstrapped = printInfo !== null
     // "Live" means the service has an active PID. A bootstrapped service
     // can still be dead (crashed and not yet restarted, exited cleanly,
@@ -570,6 +605,9 @@ export class ServiceManager {
     // means "claim nothing" (run on the port only, don't take over a route).
     // Only an omitted `domains` falls back to the configured domains.
     const domains = options?.domains ?? configuredDomains
+    // The port a running process was started with, for its stop hooks if it
+    // has to be relaunched.
+    const previousPort = isLive ? await this.getEffectivePort(name) : undefined
     await updateServiceState(this.project.id, name, {
       cwd: this.resolveServiceCwd(config),
       port: effectivePort,
@@ -592,6 +630,9 @@ export class ServiceManager {
         http: config.http,
         keepAlive: config.keepAlive,
         startOnBoot: config.startOnBoot,
+        logs: config.logs,
+        watch: config.watch,
+        hooks: config.hooks,
       },
     })
 
@@ -621,16 +662,21 @@ export class ServiceManager {
           }
         }
       }
+      // With `http.paths`, only those prefixes of each domain are claimed so
+      // other services can serve the rest of it.
       for (const domain of domains) {
-        await setGatewayRoute(domain, {
-          project: this.project.id,
-          service: name,
-          port: effectivePort,
-          secure,
-          defaultService: true,
-          desiredStatus: 'running',
-          cert: certKey,
-        })
+        for (const claim of claimedGatewayPaths(config.http)) {
+          await setGatewayRoute(gatewayRouteKey(domain, claim.path), {
+            project: this.project.id,
+            service: name,
+            port: effectivePort,
+            secure,
+            defaultService: true,
+            desiredStatus: 'running',
+            cert: certKey,
+            stripPrefix: claim.stripPrefix || undefined,
+          })
+        }
       }
     }
 
@@ -638,16 +684,16 @@ export class ServiceManager {
     await this.ensureDenvigDirectories()
 
     // A fresh timestamped log file (and the `latest.log` / `latest.<host>.log`
-    // symlinks pointing at it) is created only when launchd actually (re)opens
-    // it below — on a genuine bootstrap or restart. A no-op start (an
-    // already-running service whose plist is unchanged, which the reconciler
+    // symlinks pointing at it) is created only when the supervisor actually
+    // (re)opens it below — on a genuine bootstrap or restart. A no-op start (an
+    // already-running service whose unit is unchanged, which the reconciler
     // performs after every command for every running service) must leave the
     // existing symlinks pointing at the file the live process is still writing
     // to, rather than swapping them for a fresh empty file it will never touch.
     let logFilePath: string | undefined
 
-    // Ensure plist file exists
-    const plistPath = this.getPlistPath(name)
+    // Ensure the unit file (launchd plist or systemd unit) exists
+    const unitPath = this.getUnitPath(name)
     const workingDirectory = this.resolveServiceCwd(config)
 
     // Ensure working directory exists (e.g. global services use auto-generated paths)
@@ -667,6 +713,11 @@ export class ServiceManager {
       projectPath: this.project.path,
       projectSlug: this.project.slug,
       workingDirectory,
+      shell: this.supervisor.shell,
+      trapSignal:
+        config.watch?.action === 'signal'
+          ? (config.watch.signal ?? 'SIGHUP')
+          : undefined,
     })
     let existingScriptContent: string | null = null
     try {
@@ -679,63 +730,96 @@ export class ServiceManager {
       await chmod(scriptPath, 0o755)
     }
 
-    const plistContent = generatePlist({
+    const unitContent = this.supervisor.renderUnit({
       label,
       programPath: scriptPath,
       workingDirectory,
       environmentVariables: envResult.env,
       standardOutPath: this.getStableLogPath(name),
       keepAlive: config.keepAlive ?? true,
-      runAtLoad: config.startOnBoot ?? false,
+      startOnBoot: config.startOnBoot ?? false,
+      hooks: config.hooks,
     })
 
-    // Only write plist if content changed to avoid macOS "new login item" popups
-    let existingPlistContent: string | null = null
+    // Only write unit if content changed to avoid macOS "new login item" popups
+    let existingUnitContent: string | null = null
     try {
-      existingPlistContent = await readFile(plistPath, 'utf-8')
+      existingUnitContent = await readFile(unitPath, 'utf-8')
     } catch {
       // File doesn't exist yet
     }
-    const plistChanged = existingPlistContent !== plistContent
+    const unitChanged = existingUnitContent !== unitContent
     // Diff the rendered config so callers can show *what* changed (and hence
-    // why a running service needs restarting). Only when an earlier plist
+    // why a running service needs restarting). Only when an earlier unit
     // existed — a freshly created one has nothing to compare against.
     const configDiff =
-      plistChanged && existingPlistContent !== null
-        ? diffLines(existingPlistContent, plistContent)
+      unitChanged && existingUnitContent !== null
+        ? diffLines(existingUnitContent, unitContent)
         : undefined
 
-    // The plist is written only as part of an actual (re)bootstrap below, never
-    // eagerly. Writing it without relaunching would let the on-disk plist run
-    // ahead of the live process: a later reconcile would then see plist ==
+    // The unit is written only as part of an actual (re)bootstrap below, never
+    // eagerly. Writing it without relaunching would let the on-disk unit run
+    // ahead of the live process: a later reconcile would then see unit ==
     // desired and skip, leaving the process stuck on its old config forever.
-    // Keeping the write paired with the bootstrap means an unchanged plist is a
+    // Keeping the write paired with the bootstrap means an unchanged unit is a
     // reliable signal that the running process is already up to date.
-    const writePlist = async () => {
-      if (plistChanged) await writeFile(plistPath, plistContent, 'utf-8')
+    const writeUnit = async () => {
+      if (!unitChanged) return
+      await mkdir(dirname(unitPath), { recursive: true })
+      await writeFile(unitPath, unitContent, 'utf-8')
+    }
+
+    // Hooks run with the same environment as the service, but on the host,
+    // so they see the host port even for docker services.
+    const hooks: ServiceHookResult[] = []
+    const withHooks = (result: ServiceResult): ServiceResult =>
+      hooks.length > 0 ? { ...result, hooks } : result
+    const runHook = async (hook: ServiceHookName, port = effectivePort) => {
+      const result = await this.runHook(name, hook, {
+        port,
+        onOutput: options?.onHookOutput,
+      })
+      if (result) hooks.push(result)
+      return result
+    }
+    const runPreStart = async (): Promise<string | null> => {
+      const hook = await runHook('preStart')
+      if (!hook) return null
+      return hook.exitCode === 0
+        ? null
+        : `preStart hook failed${hook.exitCode === null ? '' : ` with exit code ${hook.exitCode}`}`
     }
 
-    // Enable service so launchd will start it (reverses disable from stop)
-    await launchctl.enable(label)
+    // Enable service so the supervisor will start it (reverses disable from stop)
+    await this.supervisor.enable(label)
 
-    // Bootstrap or reload using the plist directly in ~/Library/LaunchAgents.
-    // The reconciler relies on this being idempotent: if the plist is
+    // Bootstrap or reload using the unit file directly in the supervisor's
+    // unit directory. The reconciler relies on this being idempotent: if the unit is
     // unchanged and the service is already bootstrapped, do nothing.
     if (!isBootstrapped) {
+      const preStartError = await runPreStart()
+      if (preStartError) {
+        // Nothing was launched. Leave the service stopped so the reconciler
+        // doesn't run the failing hook again after every command. The same
+        // goes for a relaunch below.
+        await markServiceStopped(this.project.id, name)
+        await releaseGatewayRoutesForService(this.project.id, name)
+        return withHooks({ name, success: false, message: preStartError })
+      }
       logFilePath = await this.createLogFile(name)
-      await writePlist()
-      const bootstrapResult = await launchctl.bootstrap(plistPath)
+      await writeUnit()
+      const bootstrapResult = await this.supervisor.load(label, unitPath)
       if (!bootstrapResult.success) {
-        return {
+        return withHooks({
           name,
           success: false,
           message: `Failed to bootstrap service: ${bootstrapResult.output}`,
-        }
+        })
       }
-    } else if (isLive && !plistChanged) {
-      // The service is already running with an up-to-date plist. Domains live
-      // in the gateway routes, not the plist, so a domain-only change leaves
-      // the plist untouched: the routes were written to state above and the
+    } else if (isLive && !unitChanged) {
+      // The service is already running with an up-to-date unit. Domains live
+      // in the gateway routes, not the unit, so a domain-only change leaves
+      // the unit untouched: the routes were written to state above and the
       // caller refreshes the gateway, applying the change without interrupting
       // the process. Nothing to restart.
       return {
@@ -744,38 +828,47 @@ export class ServiceManager {
         message: 'Service already running; refreshed gateway',
         alreadyRunning: true,
       }
-    } else if (plistChanged || options?.reviveIfNotRunning !== false) {
+    } else if (unitChanged || options?.reviveIfNotRunning !== false) {
       // Restart by booting out and bootstrapping again. This covers a running
-      // service whose plist actually changed (a new port, command or env can
+      // service whose unit actually changed (a new port, command or env can
       // only take effect by relaunching the process), a bootstrapped-but-dead
       // service being revived on an explicit start, or a dead service whose
-      // plist changed. The reconciler opts out of revival
+      // unit changed. The reconciler opts out of revival
       // (`reviveIfNotRunning: false`): a bootstrapped service's liveness is
-      // launchd's to manage, so it leaves an unchanged plist alone — but a
-      // genuine config change is still applied here.
-      const bootoutResult = await launchctl.bootout(label)
+      // the supervisor's to manage, so it leaves an unchanged unit alone — but
+      // a genuine config change is still applied here. A running process gets
+      // its stop hooks, in the same order as `restartService`.
+      if (isLive) await runHook('preStop', previousPort)
+      const bootoutResult = await this.supervisor.unload(label)
       if (!bootoutResult.success) {
-        return {
+        return withHooks({
           name,
           success: false,
           message: `Failed to bootout service: ${bootoutResult.output}`,
-        }
+        })
       }
+      if (isLive) await runHook('postStop', previousPort)
 
       // sleep for 1 second to allow bootout to complete
       await new Promise((resolve) => setTimeout(resolve, 1000))
+      const preStartError = await runPreStart()
+      if (preStartError) {
+        await markServiceStopped(this.project.id, name)
+        await releaseGatewayRoutesForService(this.project.id, name)
+        return withHooks({ name, success: false, message: preStartError })
+      }
       logFilePath = await this.createLogFile(name)
-      await writePlist()
-      const bootstrapResult = await launchctl.bootstrap(plistPath)
+      await writeUnit()
+      const bootstrapResult = await this.supervisor.load(label, unitPath)
       if (!bootstrapResult.success) {
-        return {
+        return withHooks({
           name,
           success: false,
           message: `Failed to bootstrap service: ${bootstrapResult.output}`,
-        }
+        })
       }
     } else {
-      // Bootstrapped, idle, unchanged plist and the reconciler opted out of
+      // Bootstrapped, idle, unchanged unit and the reconciler opted out of
       // revival — nothing to do.
       return {
         name,
@@ -785,6 +878,13 @@ export class ServiceManager {
       }
     }
 
+    // The process was (re)launched: record when, so health checks can tell a
+    // service that's still booting from one that's unhealthy.
+    await updateServiceState(this.project.id, name, {
+      cwd: workingDirectory,
+      startedAt: new Date().toISOString(),
+    })
+
     // Append Service Started entry to the new log file
     if (logFilePath) {
       try {
@@ -799,12 +899,15 @@ export class ServiceManager {
       }
     }
 
-    return {
+    // A failing postStart hook is reported, but the service is already up.
+    await runHook('postStart')
+
+    return withHooks({
       name,
       success: true,
       message: 'Service started successfully',
       configDiff,
-    }
+    })
   }
 
   /**
@@ -814,10 +917,12 @@ export class ServiceManager {
    *   instead of releasing them. Used by restart, where the service comes
    *   straight back up and should retain its domains (including claims taken
    *   from other services).
+   * @param options.onHookOutput - Called with each line the `preStop` and
+   *   `postStop` hooks write. Failing stop hooks don't prevent the stop.
    */
   async stopService(
     name: string,
-    options?: { keepRoutes?: boolean },
+    options?: { keepRoutes?: boolean; onHookOutput?: ServiceHookOutputHandler },
   ): Promise<ServiceResult> {
     const config = this.getServiceConfig(name)
     if (!config) {
@@ -839,30 +944,41 @@ export class ServiceManager {
       }
     }
 
+    const hooks: ServiceHookResult[] = []
+    const withHooks = (result: ServiceResult): ServiceResult =>
+      hooks.length > 0 ? { ...result, hooks } : result
+    const hookOptions = {
+      port: await this.getEffectivePort(name),
+      onOutput: options?.onHookOutput,
+    }
+    const preStop = await this.runHook(name, 'preStop', hookOptions)
+    if (preStop) hooks.push(preStop)
+
     // For startOnBoot services, use stop() to keep them registered for next boot
     // For regular services, use bootout() to fully unload them
     let shouldReconfigureGateway = false
     if (config.startOnBoot) {
-      const result = await launchctl.stop(label)
+      const result = await this.supervisor.stop(label)
       if (!result.success) {
-        return {
+        return withHooks({
           name,
           success: false,
           message: `Failed to stop service: ${result.output}`,
-        }
+        })
       }
-      // Keep plist file so service starts on next boot
+      // Keep unit file so service starts on next boot
     } else {
-      const result = await launchctl.bootout(label)
+      const result = await this.supervisor.unload(label)
       if (!result.success) {
-        return {
+        return withHooks({
           name,
           success: false,
           message: `Failed to stop service: ${result.output}`,
-        }
+        })
       }
-      // Disable so launchd won't auto-start on login (plist stays for next manual start)
-      await launchctl.disable(label)
+      // Disable so the supervisor won't auto-start on login (the unit file
+      // stays for next manual start)
+      await this.supervisor.disable(label)
       shouldReconfigureGateway = true
     }
 
@@ -878,6 +994,9 @@ export class ServiceManager {
       // ignore logging errors
     }
 
+    const postStop = await this.runHook(name, 'postStop', hookOptions)
+    if (postStop) hooks.push(postStop)
+
     // Mark the service stopped in state so its port becomes available to
     // other services, while keeping the allocation around so a restart can
     // reclaim the same port if it's still free. Gateway routes are then
@@ -895,11 +1014,11 @@ export class ServiceManager {
       await this.reconfigureGateway()
     }
 
-    return {
+    return withHooks({
       name,
       success: true,
       message: 'Service stopped successfully',
-    }
+    })
   }
 
   /**
@@ -911,6 +1030,7 @@ export class ServiceManager {
       port?: number
       portResolved?: boolean
       domains?: string[]
+      onHookOutput?: ServiceHookOutputHandler
     },
   ): Promise<ServiceResult> {
     const config = this.getServiceConfig(name)
@@ -927,15 +1047,50 @@ export class ServiceManager {
     // Stop the service if bootstrapped. Routes are kept registered so the
     // restarted service retains its domains — including a dynamically
     // assigned domain or a claim taken from another service.
+    let stopHooks: ServiceHookResult[] = []
     if (isBootstrapped) {
-      const stopResult = await this.stopService(name, { keepRoutes: true })
+      const stopResult = await this.stopService(name, {
+        keepRoutes: true,
+        onHookOutput: options?.onHookOutput,
+      })
       if (!stopResult.success) {
         return stopResult
       }
+      stopHooks = stopResult.hooks ?? []
     }
 
     // Start the service
-    return await this.startService(name, options)
+    const startResult = await this.startService(name, options)
+    const hooks = [...stopHooks, ...(startResult.hooks ?? [])]
+    return hooks.length > 0 ? { ...startResult, hooks } : startResult
+  }
+
+  /**
+   * Send a signal to a running service's process group, e.g. so it reloads
+   * after its files change.
+   */
+  async signalService(
+    name: string,
+    signal: NodeJS.Signals,
+  ): Promise<ServiceResult> {
+    const info = await this.supervisor.print(this.getServiceLabel(name))
+    if (!info?.pid || info.state !== 'running') {
+      return {
+        name,
+        success: false,
+        message: `Service "${name}" is not running`,
+      }
+    }
+    try {
+      process.kill(-info.pid, signal)
+    } catch (e) {
+      return {
+        name,
+        success: false,
+        message: `Failed to send ${signal}: ${e instanceof Error ? e.message : String(e)}`,
+      }
+    }
+    return { name, success: true, message: `Sent ${signal}` }
   }
 
   /**
@@ -948,7 +1103,7 @@ export class ServiceManager {
     }
 
     const label = this.getServiceLabel(name)
-    const info = await launchctl.print(label)
+    const info = await this.supervisor.print(label)
 
     if (!info) {
       return {
@@ -976,15 +1131,117 @@ export class ServiceManager {
   }
 
   /**
-   * Start all services.
+   * Check the health of a service with a `healthcheck`. Returns null when the
+   * service has no healthcheck configured. Failed checks within the grace
+   * period after the service was last started report `starting`.
+   */
+  async getServiceHealth(name: string): Promise<ServiceHealth | null> {
+    const config = this.getServiceConfig(name)
+    if (!config?.healthcheck) return null
+
+    const state = await getServiceState(this.project.id, name)
+    const passed = await this.probeService(name)
+    return classifyHealth(passed, config.healthcheck, state?.startedAt)
+  }
+
+  /**
+   * Run a service's healthcheck once against its effective port, cwd and
+   * environment.
+   */
+  private async probeService(name: string): Promise<boolean> {
+    const config = this.getServiceConfig(name)
+    if (!config?.healthcheck) return false
+
+    const port = await this.getEffectivePort(name)
+    // Only command checks need the service environment; skip loading env
+    // files for port and HTTP checks.
+    let env: Record<string, string> | undefined
+    if (config.healthcheck.command !== undefined) {
+      const envResult = await this.buildServiceEnvironment(name, { port })
+      if (envResult.success) env = envResult.env
+    }
+    return probeHealthcheck(config.healthcheck, {
+      port,
+      cwd: this.resolveServiceCwd(config),
+      env,
+    })
+  }
+
+  /**
+   * Wait for a freshly started service to become ready. Services with a
+   * healthcheck are probed every `interval` until a check passes, the grace
+   * period runs out (`unhealthy`) or the process exits. Services without one
+   * are ready when they are still running after a short settle delay.
+   */
+  async waitForService(name: string): Promise<ServiceReadiness> {
+    const config = this.getServiceConfig(name)
+    if (!config) {
+      return {
+        ready: false,
+        health: null,
+        message: `Service "${name}" not found in configuration`,
+      }
+    }
+
+    const check = config.healthcheck
+    if (!check) {
+      await new Promise((resolve) => setTimeout(resolve, 2000))
+      const status = await this.getServiceStatus(name)
+      return status?.running
+        ? { ready: true, health: null, message: 'Service is running' }
+        : { ready: false, health: null, message: 'Service is not running' }
+    }
+
+    // Services started before start times were recorded are measured from
+    // the start of the wait instead.
+    const state = await getServiceState(this.project.id, name)
+    const startedAt = state?.startedAt ?? new Date().toISOString()
+    const intervalMs = (check.interval ?? HEALTHCHECK_DEFAULTS.interval) * 1000
+
+    while (true) {
+      const status = await this.getServiceStatus(name)
+      if (!status?.running) {
+        return {
+          ready: false,
+          health: 'unhealthy',
+          message: 'Service exited before becoming healthy',
+        }
+      }
+      const health = classifyHealth(
+        await this.probeService(name),
+        check,
+        startedAt,
+      )
+      if (health === 'healthy') {
+        return { ready: true, health, message: 'Service is healthy' }
+      }
+      if (health === 'unhealthy') {
+        return {
+          ready: false,
+          health,
+          message: 'Service did not pass its healthcheck',
+        }
+      }
+      await new Promise((resolve) => setTimeout(resolve, intervalMs))
+    }
+  }
+
+  /**
+   * Start all services. Services are started in dependency order: each level
+   * of the `dependsOn` graph starts in parallel once the level before it has
+   * been started.
    */
   async startAll(): Promise<ServiceResult[]> {
     const services = this.project.config.services || {}
-    const serviceNames = Object.keys(services)
+    const results: ServiceResult[] = []
 
-    return await Promise.all(
-      serviceNames.map((name) => this.startService(name)),
-    )
+    for (const level of dependencyLevels(localDependencyEdges(services))) {
+      results.push(
+        ...(await Promise.all(level.map((name) => this.startService(name)))),
+      )
+    }
+
+    return results
   }
 
   /**
@@ -1041,22 +1298,25 @@ export class ServiceManager {
 
   /**
    * Teardown all services for this project.
-   * Stops all services, removes them from launchctl, and deletes plist files.
+   * Stops all services, removes them from the supervisor, and deletes their
+   * unit files.
    * @param options.removeLogs - Also remove log files (default: false)
+   * @returns The per-service results and the bytes freed by removing logs
    */
   async teardownAll(options?: {
     removeLogs?: boolean
-  }): Promise<ServiceResult[]> {
+  }): Promise<{ services: ServiceResult[]; reclaimedBytes: number }> {
     const results: ServiceResult[] = []
+    let reclaimedBytes = 0
     const labelPrefix = `denvig.${this.project.id}.`
     const successfullyRemovedLabels: string[] = []
 
-    // Get all denvig services for this project from launchctl
-    const allServices = await launchctl.list(labelPrefix)
+    // Get all denvig services for this project from the supervisor
+    const allServices = await this.supervisor.list(labelPrefix)
 
-    // Bootout all services from launchctl
+    // Bootout all services from the supervisor
     for (const service of allServices) {
-      const bootoutResult = await launchctl.bootout(service.label)
+      const bootoutResult = await this.supervisor.unload(service.label)
       const serviceName = service.label.replace(labelPrefix, '')
 
       if (!bootoutResult.success) {
@@ -1070,22 +1330,24 @@ export class ServiceManager {
         results.push({
           name: serviceName,
           success: true,
-          message: 'Service removed from launchctl',
+          message: `Service removed from ${this.supervisor.name}`,
         })
       }
     }
 
-    // Only remove plist files for services that were successfully booted out
-    const launchAgentsDir = resolve(homedir(), 'Library', 'LaunchAgents')
+    // Only remove unit files for services that were successfully booted out
     await Promise.all(
       successfullyRemovedLabels.map(async (label) => {
         try {
-          await unlink(resolve(launchAgentsDir, `${label}.plist`))
+          await unlink(this.supervisor.unitPath(label))
         } catch {
-          // Ignore errors removing individual plist files
+          // Ignore errors removing individual unit files
         }
       }),
     )
+    if (successfullyRemovedLabels.length > 0) {
+      await this.supervisor.reload()
+    }
 
     // Optionally remove log files for successfully removed services
     if (options?.removeLogs && successfullyRemovedLabels.length > 0) {
@@ -1097,6 +1359,11 @@ export class ServiceManager {
         label.replace('denvig.', ''),
       )
 
+      for (const serviceId of serviceIds) {
+        reclaimedBytes += await directorySize(
+          resolve(denvigDir, 'services', serviceId, 'logs'),
+        )
+      }
       await Promise.all(
         serviceIds.flatMap((serviceId) => [
           // Remove new-format service log directory
@@ -1125,20 +1392,20 @@ export class ServiceManager {
     // Reconfigure gateway to remove this project's nginx configs
     await this.reconfigureGateway()
 
-    return results
+    return { services: results, reclaimedBytes }
   }
 
   /**
-   * Check if a service is bootstrapped (loaded in launchctl).
+   * Check if a service is bootstrapped (loaded in the supervisor).
    */
   async isServiceBootstrapped(name: string): Promise<boolean> {
     const label = this.getServiceLabel(name)
-    const info = await launchctl.print(label)
+    const info = await this.supervisor.print(label)
     return info !== null
   }
 
   /**
-   * Normalize a string for use in launchctl labels and filenames.
+   * Normalize a string for use in supervisor labels and filenames.
    * Replaces special characters with safe alternatives.
    */
   private normalizeForLabel(str: string): string {
@@ -1146,7 +1413,7 @@ export class ServiceManager {
   }
 
   /**
-   * Get the service label for launchctl.
+   * Get the service label used by the supervisor.
    * Format: denvig.[projectId].[serviceName]
    */
   getServiceLabel(name: string): string {
@@ -1162,11 +1429,17 @@ export class ServiceManager {
   }
 
   /**
-   * Get the plist file path.
+   * Get the supervisor unit file path (a launchd plist or systemd unit).
    */
-  getPlistPath(name: string): string {
-    const label = this.getServiceLabel(name)
-    return resolve(homedir(), 'Library', 'LaunchAgents', `${label}.plist`)
+  getUnitPath(name: string): string {
+    return this.supervisor.unitPath(this.getServiceLabel(name))
+  }
+
+  /**
+   * The name of the supervisor backend driving this manager's services.
+   */
+  getSupervisorName(): ServiceSupervisor['name'] {
+    return this.supervisor.name
   }
 
   /**
@@ -1205,7 +1478,7 @@ export class ServiceManager {
   }
 
   /**
-   * Get the stable log path used by the plist StandardOutPath.
+   * Get the stable log path the unit writes stdout to.
    * This is a symlink that always points to the current timestamped log file.
    * Format: ~/.denvig/services/[serviceId]/logs/latest.log
    */
@@ -1251,31 +1524,30 @@ export class ServiceManager {
       }),
     )
 
-    await this.pruneOldLogFiles(logDir)
+    // Ignore rotation errors - they should never block service startup
+    await this.rotateLogs(name).catch(() => {})
 
     return logPath
   }
 
   /**
-   * Remove old timestamped log files, keeping only the most recent ones.
-   * Symlinks (latest.log, latest.[hostname].log) are always preserved.
+   * The service's log rotation and retention limits: its `logs` settings
+   * over the global ones.
    */
-  private async pruneOldLogFiles(logDir: string, keep = 10): Promise<void> {
-    try {
-      const entries = await readdir(logDir)
-      const timestamped = entries
-        .filter((name) => /^\d+\.log$/.test(name))
-        .sort()
-        .reverse()
+  async getLogRetention(name: string): Promise<LogRetention> {
+    const { logs } = await getGlobalConfig()
+    return resolveLogRetention(logs, this.getServiceConfig(name)?.logs)
+  }
 
-      await Promise.all(
-        timestamped
-          .slice(keep)
-          .map((name) => unlink(resolve(logDir, name)).catch(() => {})),
-      )
-    } catch {
-      // Ignore pruning errors - they should never block service startup
-    }
+  /**
+   * Rotate the service's current log when it is too large and remove or
+   * compress older log files, per {@link getLogRetention}.
+   */
+  async rotateLogs(name: string): Promise<LogRotationResult> {
+    return rotateServiceLogs(
+      this.getServiceLogDir(name),
+      await this.getLogRetention(name),
+    )
   }
 
   /**
@@ -1307,6 +1579,33 @@ export class ServiceManager {
     return resolve(this.project.path, config.cwd || '.')
   }
 
+  /**
+   * Run one of a service's lifecycle hooks in its cwd, with the environment
+   * `buildServiceEnvironment` gives the service itself. Resolves to null when
+   * the service has no such hook.
+   */
+  async runHook(
+    name: string,
+    hook: ServiceHookName,
+    options: { port?: number; onOutput?: ServiceHookOutputHandler } = {},
+  ): Promise<ServiceHookResult | null> {
+    const config = this.getServiceConfig(name)
+    const command = config?.hooks?.[hook]
+    if (!config || !command) return null
+    const envResult = await this.buildServiceEnvironment(name, {
+      port: options.port,
+    })
+    if (!envResult.success) {
+      options.onOutput?.(hook, envResult.message)
+      return { hook, command, exitCode: null, output: [envResult.message] }
+    }
+    return runServiceHook(hook, command, {
+      cwd: this.resolveServiceCwd(config),
+      env: envResult.env,
+      onOutput: (line) => options.onOutput?.(hook, line),
+    })
+  }
+
   /**
    * Get the configuration for a specific service.
    */
@@ -1339,8 +1638,10 @@ export class ServiceManager {
 
     if (config.http) {
       const protocol = config.http.secure ? 'https' : 'http'
+      // The URL points at the first path the service claims on the domain.
+      const [{ path }] = claimedGatewayPaths(config.http)
       const ownsRunningRoute = async (domain: string): Promise<boolean> => {
-        const route = await getGatewayRoute(domain)
+        const route = await getGatewayRoute(gatewayRouteKey(domain, path))
         return (
           route?.project === this.project.id &&
           route?.service === name &&
@@ -1358,7 +1659,7 @@ export class ServiceManager {
       const candidates = state?.domains ?? configuredDomains
       for (const domain of candidates) {
         if (await ownsRunningRoute(domain)) {
-          return `${protocol}://${domain}`
+          return `${protocol}://${domain}${path === '/' ? '' : path}`
         }
       }
     }
@@ -1390,11 +1691,11 @@ export class ServiceManager {
   }
 
   /**
-   * Check if a plist file exists for a service.
+   * Check if a unit file exists for a service.
    */
-  async plistExists(name: string): Promise<boolean> {
+  async unitExists(name: string): Promise<boolean> {
     try {
-      await access(this.getPlistPath(name))
+      await access(this.getUnitPath(name))
       return true
     } catch {
       return false
@@ -1407,7 +1708,8 @@ export class ServiceManager {
    * @param name - Service name
    * @param options.includeLogs - Whether to include recent logs (default: false)
    * @param options.logLines - Number of log lines to include (default: 20)
-   * @param options.launchctlList - Pre-fetched launchctl list for batch operations (avoids N shell calls)
+   * @param options.launchctlList - Pre-fetched supervisor list for batch operations (avoids N shell calls)
+   * @param options.includeHealth - Whether to run the healthcheck of a running service (default: false)
    */
   async getServiceResponse(
     name: string,
@@ -1415,6 +1717,7 @@ export class ServiceManager {
       includeLogs?: boolean
       logLines?: number
       launchctlList?: LaunchctlListItem[]
+      includeHealth?: boolean
     },
   ): Promise<ServiceResponse | null> {
     const config = this.getServiceConfig(name)
@@ -1447,11 +1750,11 @@ export class ServiceManager {
       }
       // If not in list, status remains 'stopped'
     } else {
-      // Fallback to individual launchctl.print call (slower)
-      // First check if plist exists to avoid unnecessary shell calls
-      const hasPlist = await this.plistExists(name)
-      if (hasPlist) {
-        const info = await launchctl.print(label)
+      // Fallback to individual supervisor print call (slower)
+      // First check if the unit file exists to avoid unnecessary shell calls
+      const hasUnit = await this.unitExists(name)
+      if (hasUnit) {
+        const info = await this.supervisor.print(label)
         if (info) {
           pid = info.pid ?? null
           lastExitCode = info.lastExitCode ?? null
@@ -1490,6 +1793,10 @@ export class ServiceManager {
         resolve(this.resolveServiceCwd(config), f),
       ),
       lastExitCode,
+      health:
+        options?.includeHealth && status === 'running'
+          ? await this.getServiceHealth(name)
+          : null,
     }
 
     if (options?.includeLogs) {
@@ -1,4 +1,4 @@
-import { ok } from 'node:assert'
+import { ok, strictEqual } from 'node:assert'
 import { describe, it } from 'node:test'
 
 import plist, {
@@ -78,6 +78,22 @@ describe('plist', () => {
       ok(plistXml.includes('<key>EnvironmentVariables</key>'))
     })
 
+    it('should list hooks in a comment without double hyphens', () => {
+      const plistXml = generatePlist({
+        label: 'com.denvig.test.hooks',
+        programPath: '/tmp/denvig-hooks',
+        workingDirectory: '/tmp/test',
+        standardOutPath: '/tmp/test.log',
+        keepAlive: true,
+        runAtLoad: false,
+        hooks: { postStart: 'curl --retry 5 localhost' },
+      })
+
+      ok(plistXml.includes('<!-- Hooks run by denvig around start and stop:'))
+      ok(plistXml.includes('postStart: curl - -retry 5 localhost'))
+      strictEqual(plistXml.match(/--/g)?.length, 2)
+    })
+
     it('should escape special XML characters', () => {
       const plistXml = generatePlist({
         label: 'com.denvig.test.escape',
@@ -147,6 +163,15 @@ describe('plist', () => {
       ok(!wrapped.includes('  node'))
     })
 
+    it('should trap a reload signal in every wrapper shell', () => {
+      const wrapped = wrapCommandWithTimestamp('python worker.py', 'SIGHUP')
+
+      strictEqual(
+        wrapped,
+        `trap : HUP; { trap : HUP; python worker.py; } 2>&1 | { trap : HUP; while IFS= read -r line; do printf '[%s] %s\\n' "$(date -u +%Y-%m-%dT%H:%M:%SZ)" "$line"; done; }`,
+      )
+    })
+
     it('should work via default export', () => {
       const wrapped = plist.wrapCommandWithTimestamp('echo test')
 
@@ -1,3 +1,5 @@
+import { formatServiceHooks, type ServiceHooks } from './hooks.ts'
+
 /**
  * Options for generating a launchd plist file.
  */
@@ -9,6 +11,7 @@ export type PlistOptions = {
   standardOutPath: string
   keepAlive: boolean
   runAtLoad: boolean
+  hooks?: ServiceHooks
 }
 
 /**
@@ -31,11 +34,19 @@ export function escapeXml(str: string): string {
  * Uses pure shell (zsh) for maximum compatibility with macOS.
  *
  * @param command - The original command to wrap
+ * @param trapSignal - Signal the service reloads on (`watch.signal`). It is
+ *   sent to the whole process group, so every wrapper shell traps it with a
+ *   no-op to stay alive; the command itself still gets the default handler.
  * @returns The wrapped command with timestamp injection
  */
-export function wrapCommandWithTimestamp(command: string): string {
+export function wrapCommandWithTimestamp(
+  command: string,
+  trapSignal?: string,
+): string {
   const trimmedCommand = command.trim()
-  return `{ ${trimmedCommand}; } 2>&1 | while IFS= read -r line; do printf '[%s] %s\\n' "$(date -u +%Y-%m-%dT%H:%M:%SZ)" "$line"; done`
+  const trap = trapSignal ? `trap : ${trapSignal.replace(/^SIG/, '')}; ` : ''
+  const timestamp = `while IFS= read -r line; do printf '[%s] %s\\n' "$(date -u +%Y-%m-%dT%H:%M:%SZ)" "$line"; done`
+  return `${trap}{ ${trap}${trimmedCommand}; } 2>&1 | ${trap ? `{ ${trap}${timestamp}; }` : timestamp}`
 }
 
 /**
@@ -52,15 +63,26 @@ export type ServiceScriptOptions = {
   projectPath: string
   projectSlug: string
   workingDirectory: string
+  /**
+   * Login shell used to run the command. Defaults to zsh (the macOS default);
+   * the systemd supervisor passes bash since zsh is rarely installed on Linux.
+   */
+  shell?: string
+  /** Signal the wrapper shells should survive, see `wrapCommandWithTimestamp`. */
+  trapSignal?: string
 }
 
 /**
- * Generate a bash wrapper script that executes a command via zsh login shell.
+ * Generate a bash wrapper script that executes a command via a login shell
+ * (zsh unless `shell` is given).
  * This allows launchd to show the script name instead of "zsh" in Login Items.
  * Includes metadata comments so users can identify which project owns the service.
  */
 export function generateServiceScript(options: ServiceScriptOptions): string {
-  const wrappedCommand = wrapCommandWithTimestamp(options.command)
+  const wrappedCommand = wrapCommandWithTimestamp(
+    options.command,
+    options.trapSignal,
+  )
   return `#!/bin/bash
 #
 # Denvig service wrapper
@@ -70,7 +92,7 @@ export function generateServiceScript(options: ServiceScriptOptions): string {
 # Command: ${options.command}
 # Workdir: ${options.workingDirectory}
 #
-exec /bin/zsh -l -c '${escapeForSingleQuote(wrappedCommand)}'
+exec ${options.shell ?? '/bin/zsh'} -l -c '${escapeForSingleQuote(wrappedCommand)}'
 `
 }
 
@@ -89,6 +111,7 @@ export function generatePlist(options: PlistOptions): string {
     standardOutPath,
     keepAlive,
     runAtLoad,
+    hooks,
   } = options
 
   // Build environment variables section
@@ -99,6 +122,18 @@ export function generatePlist(options: PlistOptions): string {
     )
     .join('\n')
 
+  // Hooks are run by denvig rather than launchd, so they are only listed in a
+  // comment (which can't contain `--`).
+  const hookLines = formatServiceHooks(hooks)
+  const hooksXml =
+    hookLines.length > 0
+      ? `
+  <!-- Hooks run by denvig around start and stop:
+${hookLines.map((line) => `       ${line.replace(/-(?=-)/g, '- ')}`).join('\n')}
+  -->
+`
+      : ''
+
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
 <plist version="1.0">
@@ -127,7 +162,7 @@ ${envVarsXml}
 
   <key>RunAtLoad</key>
   <${runAtLoad ? 'true' : 'false'}/>
-</dict>
+${hooksXml}</dict>
 </plist>
 `
 }
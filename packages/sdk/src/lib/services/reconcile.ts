@@ -1,9 +1,9 @@
 import { unlink } from 'node:fs/promises'
 
+import { findUnrenewableCerts } from '../gateway/certs.ts'
 import { configureGateway } from '../gateway/configure.ts'
 import { resolveProjectCheckouts } from '../projects.ts'
 import { createGlobalProject } from './global.ts'
-import launchctl from './launchctl.ts'
 import { ServiceManager, type ServiceManagerProject } from './manager.ts'
 import {
   readState,
@@ -11,6 +11,8 @@ import {
   removeServiceState,
   type ServiceStateEntry,
 } from './state.ts'
+import { getServiceSupervisor } from './supervisor.ts'
+import { ensureServiceWatcherRunning } from './watch.ts'
 
 export type ReconcileAction =
   | { type: 'started'; project: string; service: string; reason: string }
@@ -20,7 +22,7 @@ export type ReconcileAction =
       project: string
       service: string
       reason: string
-      /** Unified-style plist diff explaining the config change. */
+      /** Unified-style unit diff explaining the config change. */
       diff?: string[]
     }
   | { type: 'skipped'; project: string; service: string; reason: string }
@@ -32,6 +34,12 @@ export type ReconcileResult = {
     service: string
     message: string
   }>
+  /**
+   * Imported certs served by running gateway routes that expire soon.
+   * `denvig certs renew` only reissues locally-signed certs, so these need
+   * replacing by hand.
+   */
+  warnings: Array<{ cert: string; message: string }>
 }
 
 const LABEL_PREFIX = 'denvig.'
@@ -44,7 +52,7 @@ const LABEL_PREFIX = 'denvig.'
 export const CONFIG_CHANGED_REASON = 'config changed since last bootstrap'
 
 /**
- * Parse a launchctl label of the form `denvig.{projectId}.{serviceName}`.
+ * Parse a supervisor label of the form `denvig.{projectId}.{serviceName}`.
  * Service names can contain dots, so the project ID is the first segment
  * after `denvig.` (project IDs are sha1 hashes — hex only).
  */
@@ -64,7 +72,7 @@ const parseLabel = (
  * `.denvig.yml`. This is what makes state.json the source of truth — the
  * reconciler operates entirely off the snapshot captured at start time.
  */
-const projectFromStateEntry = (
+export const projectFromStateEntry = (
   entry: ServiceStateEntry,
 ): ServiceManagerProject | null => {
   if (!entry.project || !entry.serviceName || !entry.config) return null
@@ -90,6 +98,9 @@ const projectFromStateEntry = (
           http: entry.config.http,
           keepAlive: entry.config.keepAlive,
           startOnBoot: entry.config.startOnBoot,
+          logs: entry.config.logs,
+          watch: entry.config.watch,
+          hooks: entry.config.hooks,
         },
       },
     },
@@ -97,35 +108,40 @@ const projectFromStateEntry = (
 }
 
 /**
- * Reconcile actual launchctl state with the desired state recorded in
- * `~/.denvig/state.json`.
+ * Reconcile actual supervisor state (launchd or systemd, whichever backend is
+ * active) with the desired state recorded in `~/.denvig/state.json`.
  *
  * Categories of action:
  * 0. A service whose recorded checkout no longer resolves to a real
- *    project (a deleted worktree) is orphaned → bootout it, drop its plist
- *    and remove its state and gateway routes so the project that
+ *    project (a deleted worktree) is orphaned → bootout it, drop its unit
+ *    file and remove its state and gateway routes so the project that
  *    legitimately owns its domain can reclaim it.
- * 1. State says running, launchctl agrees, plist matches → no-op.
- * 2. State says running, but launchctl is missing the service or the
- *    plist on disk differs from what the snapshot would produce → call
- *    startService (idempotent: it only re-bootstraps when the plist
- *    content actually changed).
- * 3. launchctl has a `denvig.*` service that state doesn't know about,
+ * 1. State says running, the supervisor agrees, unit matches → no-op.
+ * 2. State says running, but the supervisor is missing the service or the
+ *    unit on disk differs from what the snapshot would produce → call
+ *    startService (idempotent: it only re-bootstraps when the unit
+ *    content actually changed). Either way the service's logs are rotated
+ *    per its `logs` settings.
+ * 3. The supervisor has a `denvig.*` service that state doesn't know about,
  *    or marks as `desiredStatus: stopped` → bootout it.
+ *
+ * Afterwards the file watcher is started when a running service has a
+ * `watch` block.
  */
 export const reconcileServices = async (): Promise<ReconcileResult> => {
   const state = await readState()
-  const launchctlEntries = await launchctl.list(LABEL_PREFIX)
-  const result: ReconcileResult = { actions: [], errors: [] }
+  const supervisor = getServiceSupervisor()
+  const supervisorEntries = await supervisor.list(LABEL_PREFIX)
+  const result: ReconcileResult = { actions: [], errors: [], warnings: [] }
 
-  // Index launchctl entries by label for quick lookup.
-  const launchctlByLabel = new Map<
+  // Index supervisor entries by label for quick lookup.
+  const supervisorByLabel = new Map<
     string,
     { projectId: string; serviceName: string }
   >()
-  for (const item of launchctlEntries) {
+  for (const item of supervisorEntries) {
     const parsed = parseLabel(item.label)
-    if (parsed) launchctlByLabel.set(item.label, parsed)
+    if (parsed) supervisorByLabel.set(item.label, parsed)
   }
 
   // Labels we shouldn't bootout in pass 2 — either because we've launched
@@ -133,7 +149,7 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
   // them yet due to a missing snapshot).
   const protectedLabels = new Set<string>()
 
-  // Helper: derive the launchctl label from a serviceStateKey
+  // Helper: derive the supervisor label from a serviceStateKey
   // (`id:<projectId>:<serviceName>`). Used when we can't construct a full
   // ServiceManager from the state entry (legacy entry without snapshot).
   const labelFromKey = (key: string): string | null => {
@@ -147,7 +163,7 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
   // Pass 0: prune orphaned services and routes. A service whose recorded
   // checkout no longer resolves to its captured project id (the worktree was
   // deleted) would otherwise be resurrected by pass 1 on every run —
-  // recreating the checkout directory, re-bootstrapping a launchd agent and
+  // recreating the checkout directory, re-bootstrapping a supervisor unit and
   // holding the service's gateway domain hostage from the project that
   // legitimately owns it. Tearing it down here lets the real service reclaim
   // its domain in pass 1.
@@ -164,14 +180,14 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
     const project = projectFromStateEntry(entry)
     let label: string | null
     if (project) {
-      const manager = new ServiceManager(project)
+      const manager = new ServiceManager(project, { supervisor })
       label = manager.getServiceLabel(entry.serviceName)
-      await unlink(manager.getPlistPath(entry.serviceName)).catch(() => {})
+      await unlink(manager.getUnitPath(entry.serviceName)).catch(() => {})
     } else {
       label = labelFromKey(key)
     }
     if (label) {
-      await launchctl.bootout(label)
+      await supervisor.unload(label)
       // Already handled — keep pass 2 from booting the stale label again.
       protectedLabels.add(label)
     }
@@ -195,7 +211,7 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
   }
 
   // Pass 1: drive state entries with desiredStatus 'running' towards being
-  // bootstrapped with up-to-date plists.
+  // bootstrapped with up-to-date units.
   for (const [key, entry] of Object.entries(state.services)) {
     if (entry.desiredStatus !== 'running') continue
     const project = projectFromStateEntry(entry)
@@ -207,7 +223,7 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
       if (legacyLabel) protectedLabels.add(legacyLabel)
       continue
     }
-    const manager = new ServiceManager(project)
+    const manager = new ServiceManager(project, { supervisor })
     const label = manager.getServiceLabel(entry.serviceName)
     protectedLabels.add(label)
     try {
@@ -221,7 +237,7 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
         // (domains: []) — without it, the reconciler would re-expand to the
         // configured domains and steal a route the user chose not to take.
         domains: entry.domains,
-        // Liveness is launchd's job — only re-bootstrap on a real plist
+        // Liveness is the supervisor's job — only re-bootstrap on a real unit
         // change, never just because the process is momentarily down.
         reviveIfNotRunning: false,
       })
@@ -233,10 +249,13 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
         })
         continue
       }
+      // Long-running services never pass through a fresh start, so their
+      // current log is rotated here once it outgrows the `logs` limits.
+      await manager.rotateLogs(entry.serviceName).catch(() => {})
       const configChanged = !!start.configDiff && start.configDiff.length > 0
-      if (launchctlByLabel.has(label)) {
+      if (supervisorByLabel.has(label)) {
         // The service was already bootstrapped. Only report a restart when the
-        // rendered plist actually changed — otherwise the service was left
+        // rendered unit actually changed — otherwise the service was left
         // running untouched. Without this guard a running service is reported
         // as "restarted / config changed" on every reconcile, because the
         // start path returns a "refreshed gateway" message rather than the
@@ -274,10 +293,10 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
     }
   }
 
-  // Pass 2: bootout any launchctl entries that state doesn't claim.
-  for (const item of launchctlEntries) {
+  // Pass 2: bootout any supervisor entries that state doesn't claim.
+  for (const item of supervisorEntries) {
     if (protectedLabels.has(item.label)) continue
-    const bootoutResult = await launchctl.bootout(item.label)
+    const bootoutResult = await supervisor.unload(item.label)
     const parsed = parseLabel(item.label)
     const slug = parsed?.projectId.slice(0, 8) ?? 'unknown'
     const serviceName = parsed?.serviceName ?? item.label
@@ -300,8 +319,47 @@ export const reconcileServices = async (): Promise<ReconcileResult> => {
   // Regenerate nginx after pruning orphans so the domain the real service
   // reclaimed in pass 1 is rendered (and the orphan's stale config dropped).
   if (prunedOrphan) {
+    await supervisor.reload()
     await configureGateway()
   }
 
+  const latest = await readState()
+
+  // Services with a `watch` block rely on the watcher process to restart
+  // them. It follows state.json, so it only has to be running.
+  const watched = Object.values(latest.services).filter(
+    (entry) => entry.desiredStatus === 'running' && entry.config?.watch,
+  )
+  if (watched.length > 0) {
+    const watcher = await ensureServiceWatcherRunning()
+    if (!watcher.success) {
+      for (const entry of watched) {
+        result.errors.push({
+          project: entry.project?.slug ?? 'unknown',
+          service: entry.serviceName ?? 'unknown',
+          message: `Failed to start the file watcher: ${watcher.message}`,
+        })
+      }
+    }
+  }
+
+  // Only certs a running route serves matter; stale entries are harmless.
+  const servedCerts = new Set(
+    Object.values(latest.gatewayRoutes)
+      .filter((route) => route.desiredStatus === 'running' && route.cert)
+      .map((route) => route.cert as string),
+  )
+  const unrenewable = await findUnrenewableCerts(
+    Object.fromEntries(
+      Object.entries(latest.certs).filter(([key]) => servedCerts.has(key)),
+    ),
+  )
+  for (const cert of unrenewable) {
+    result.warnings.push({
+      cert: cert.name,
+      message: `imported certificate for ${cert.domains.join(', ')} ${cert.expired ? 'expired' : 'expires'} ${cert.expires.slice(0, 10)} and can't be renewed by denvig; replace it with \`denvig certs import\``,
+    })
+  }
+
   return result
 }
@@ -5,11 +5,14 @@ import { tmpdir } from 'node:os'
 import { afterEach, beforeEach, describe, it } from 'node:test'
 
 import {
+  claimedGatewayPaths,
+  gatewayRouteKey,
   getCert,
   getGatewayRoute,
   getServiceState,
   markGatewayRoutesStoppedForService,
   markServiceStopped,
+  parseGatewayRouteKey,
   readState,
   releaseGatewayRoutesForService,
   removeGatewayRoute,
@@ -290,6 +293,38 @@ describe('service state', () => {
     assert.strictEqual(route?.desiredStatus, 'stopped')
   })
 
+  it('only hands a released path back to a service claiming the same path', async () => {
+    const snapshot = (id: string) => ({
+      cwd: `/tmp/${id}`,
+      domains: ['app.test'],
+      desiredStatus: 'running' as const,
+      project: { id, slug: `local:/tmp/${id}`, name: id, path: `/tmp/${id}` },
+      serviceName: 'api',
+    })
+    await updateServiceState('web', 'api', {
+      ...snapshot('web'),
+      port: 8080,
+    })
+    await updateServiceState('orig', 'api', {
+      ...snapshot('orig'),
+      port: 8081,
+      config: { http: { paths: [{ prefix: '/api', stripPrefix: true }] } },
+    })
+    await setGatewayRoute('app.test/api', {
+      project: 'wt',
+      service: 'api',
+      port: 9001,
+      secure: false,
+      defaultService: false,
+      desiredStatus: 'running',
+    })
+    await releaseGatewayRoutesForService('wt', 'api')
+    const route = await getGatewayRoute('app.test/api')
+    assert.strictEqual(route?.project, 'orig')
+    assert.strictEqual(route?.port, 8081)
+    assert.strictEqual(route?.stripPrefix, true)
+  })
+
   it('leaves routes owned by other services alone when releasing', async () => {
     await setGatewayRoute('other.test', {
       project: 'xyz',
@@ -339,3 +374,32 @@ describe('service state', () => {
     })
   })
 })
+
+describe('gateway route keys', () => {
+  it('keys path prefixes under their domain', () => {
+    assert.strictEqual(gatewayRouteKey('app.test'), 'app.test')
+    assert.strictEqual(gatewayRouteKey('app.test', '/'), 'app.test')
+    assert.strictEqual(gatewayRouteKey('app.test', 'api/'), 'app.test/api')
+  })
+
+  it('parses keys back into a domain and path', () => {
+    assert.deepStrictEqual(parseGatewayRouteKey('app.test'), {
+      domain: 'app.test',
+      path: '/',
+    })
+    assert.deepStrictEqual(parseGatewayRouteKey('app.test/api/v1'), {
+      domain: 'app.test',
+      path: '/api/v1',
+    })
+  })
+
+  it('claims the whole domain when no paths are configured', () => {
+    assert.deepStrictEqual(claimedGatewayPaths(undefined), [
+      { path: '/', stripPrefix: false },
+    ])
+    assert.deepStrictEqual(
+      claimedGatewayPaths({ paths: [{ prefix: '/api/', stripPrefix: true }] }),
+      [{ path: '/api', stripPrefix: true }],
+    )
+  })
+})
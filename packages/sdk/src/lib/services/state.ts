@@ -41,10 +41,43 @@ export const ServiceConfigSnapshotSchema = z.object({
       domain: z.string().optional(),
       cnames: z.array(z.string()).optional(),
       secure: z.boolean().optional(),
+      paths: z
+        .array(
+          z.object({
+            prefix: z.string(),
+            stripPrefix: z.boolean().optional(),
+          }),
+        )
+        .optional(),
     })
     .optional(),
   keepAlive: z.boolean().optional(),
   startOnBoot: z.boolean().optional(),
+  logs: z
+    .object({
+      maxSize: z.string().optional(),
+      maxFiles: z.number().optional(),
+      maxAge: z.string().optional(),
+      compress: z.boolean().optional(),
+    })
+    .optional(),
+  watch: z
+    .object({
+      include: z.array(z.string()).optional(),
+      exclude: z.array(z.string()).optional(),
+      debounce: z.number().optional(),
+      action: z.enum(['restart', 'signal']).optional(),
+      signal: z.string().optional(),
+    })
+    .optional(),
+  hooks: z
+    .object({
+      preStart: z.string().optional(),
+      postStart: z.string().optional(),
+      preStop: z.string().optional(),
+      postStop: z.string().optional(),
+    })
+    .optional(),
 })
 
 export const ServiceStateEntrySchema = z.object({
@@ -58,6 +91,11 @@ export const ServiceStateEntrySchema = z.object({
    */
   domains: z.array(z.string()).default([]),
   desiredStatus: z.enum(['running', 'stopped']).default('running'),
+  /**
+   * ISO timestamp of the last time the service process was (re)launched.
+   * Health checks treat failures shortly after this as still starting.
+   */
+  startedAt: z.string().optional(),
   /**
    * Project + service config snapshot. Optional so entries written by
    * older versions of denvig still parse — the reconciler skips entries
@@ -76,6 +114,10 @@ export const ServiceStateEntrySchema = z.object({
  * `cert` is the key into `state.certs` for the cert this route should
  * present in nginx. Only populated for secure routes whose cert was
  * resolved at start time.
+ *
+ * Routes are keyed by domain, or by `domain/prefix` for a service that only
+ * claims a path prefix of the domain (see `gatewayRouteKey`). `stripPrefix`
+ * removes that prefix before the request is forwarded.
  */
 export const GatewayRouteSchema = z.object({
   project: z.string(),
@@ -85,6 +127,7 @@ export const GatewayRouteSchema = z.object({
   secure: z.boolean().default(false),
   desiredStatus: z.enum(['running', 'stopped']).default('running'),
   cert: z.string().optional(),
+  stripPrefix: z.boolean().optional(),
 })
 
 /**
@@ -112,7 +155,9 @@ export type GatewayRoute = z.infer<typeof GatewayRouteSchema>
 export type Cert = z.infer<typeof CertSchema>
 export type DenvigState = z.infer<typeof DenvigStateSchema>
 
-const stateFilePath = (): string => resolve(homedir(), '.denvig', 'state.json')
+/** Path of the state file, `~/.denvig/state.json`. */
+export const stateFilePath = (): string =>
+  resolve(homedir(), '.denvig', 'state.json')
 
 const emptyState = (): DenvigState => ({
   services: {},
@@ -175,6 +220,7 @@ export const updateServiceState = async (
     port: 'port' in entry ? entry.port : existing?.port,
     domains: entry.domains ?? existing?.domains ?? [],
     desiredStatus: entry.desiredStatus ?? existing?.desiredStatus ?? 'running',
+    startedAt: entry.startedAt ?? existing?.startedAt,
     project: entry.project ?? existing?.project,
     serviceName: entry.serviceName ?? existing?.serviceName ?? serviceName,
     config: entry.config ?? existing?.config,
@@ -222,21 +268,68 @@ export const reservedPorts = (state: DenvigState): Set<number> => {
   return ports
 }
 
-/** Get the gateway route for a domain, or null when none is recorded. */
+/** Normalize a path prefix to `/` or `/segment` without a trailing slash. */
+export const normalizeGatewayPath = (path: string | undefined): string => {
+  const trimmed = (path ?? '').replace(/\/+$/, '')
+  if (trimmed === '') return '/'
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+}
+
+/**
+ * Key of a gateway route in `state.gatewayRoutes`: the bare domain for the
+ * whole domain, or `domain/prefix` for a path prefix of it.
+ */
+export const gatewayRouteKey = (domain: string, path?: string): string => {
+  const normalized = normalizeGatewayPath(path)
+  return normalized === '/' ? domain : `${domain}${normalized}`
+}
+
+/** Split a `state.gatewayRoutes` key into its domain and path prefix. */
+export const parseGatewayRouteKey = (
+  key: string,
+): { domain: string; path: string } => {
+  const slash = key.indexOf('/')
+  if (slash === -1) return { domain: key, path: '/' }
+  return {
+    domain: key.slice(0, slash),
+    path: normalizeGatewayPath(key.slice(slash)),
+  }
+}
+
+/**
+ * The path prefixes a service config claims on its domains: the configured
+ * `http.paths`, or the whole domain when there are none.
+ */
+export const claimedGatewayPaths = (
+  http:
+    | { paths?: Array<{ prefix: string; stripPrefix?: boolean }> }
+    | undefined,
+): Array<{ path: string; stripPrefix: boolean }> =>
+  http?.paths && http.paths.length > 0
+    ? http.paths.map((entry) => ({
+        path: normalizeGatewayPath(entry.prefix),
+        stripPrefix: entry.stripPrefix ?? false,
+      }))
+    : [{ path: '/', stripPrefix: false }]
+
+/**
+ * Get the gateway route for a route key (a domain, or `domain/prefix`), or
+ * null when none is recorded.
+ */
 export const getGatewayRoute = async (
-  domain: string,
+  key: string,
 ): Promise<GatewayRoute | null> => {
   const state = await readState()
-  return state.gatewayRoutes[domain] ?? null
+  return state.gatewayRoutes[key] ?? null
 }
 
-/** Write a gateway route, replacing any existing entry for the domain. */
+/** Write a gateway route, replacing any existing entry for the route key. */
 export const setGatewayRoute = async (
-  domain: string,
+  key: string,
   route: GatewayRoute,
 ): Promise<void> => {
   const state = await readState()
-  state.gatewayRoutes[domain] = route
+  state.gatewayRoutes[key] = route
   await writeState(state)
 }
 
@@ -260,22 +353,29 @@ export const releaseGatewayRoutesForService = async (
 ): Promise<void> => {
   const state = await readState()
   let changed = false
-  for (const [domain, route] of Object.entries(state.gatewayRoutes)) {
+  for (const [key, route] of Object.entries(state.gatewayRoutes)) {
     if (route.project !== projectId || route.service !== serviceName) continue
     changed = true
-    const heir = Object.values(state.services).find(
-      (entry) =>
-        entry.desiredStatus === 'running' &&
-        entry.project !== undefined &&
-        entry.serviceName !== undefined &&
-        !(
-          entry.project.id === projectId && entry.serviceName === serviceName
-        ) &&
-        entry.port !== undefined &&
-        entry.domains.includes(domain),
-    )
+    const { domain, path } = parseGatewayRouteKey(key)
+    let heirClaim: { path: string; stripPrefix: boolean } | undefined
+    const heir = Object.values(state.services).find((entry) => {
+      if (
+        entry.desiredStatus !== 'running' ||
+        entry.project === undefined ||
+        entry.serviceName === undefined ||
+        (entry.project.id === projectId && entry.serviceName === serviceName) ||
+        entry.port === undefined ||
+        !entry.domains.includes(domain)
+      ) {
+        return false
+      }
+      heirClaim = claimedGatewayPaths(entry.config?.http).find(
+        (claim) => claim.path === path,
+      )
+      return heirClaim !== undefined
+    })
     if (heir?.project && heir.serviceName && heir.port !== undefined) {
-      state.gatewayRoutes[domain] = {
+      state.gatewayRoutes[key] = {
         project: heir.project.id,
         service: heir.serviceName,
         port: heir.port,
@@ -283,9 +383,10 @@ export const releaseGatewayRoutesForService = async (
         defaultService: true,
         desiredStatus: 'running',
         cert: route.cert,
+        stripPrefix: heirClaim?.stripPrefix || undefined,
       }
     } else {
-      state.gatewayRoutes[domain] = { ...route, desiredStatus: 'stopped' }
+      state.gatewayRoutes[key] = { ...route, desiredStatus: 'stopped' }
     }
   }
   if (changed) await writeState(state)
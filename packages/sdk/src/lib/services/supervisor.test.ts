@@ -0,0 +1,144 @@
+import { deepStrictEqual, ok, strictEqual, throws } from 'node:assert'
+import { homedir } from 'node:os'
+import { resolve } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import {
+  denvigSupervisor,
+  getServiceSupervisor,
+  launchdSupervisor,
+  resolveSupervisorName,
+  systemdSupervisor,
+} from './supervisor.ts'
+
+describe('supervisor', () => {
+  let originalOverride: string | undefined
+  let originalXdg: string | undefined
+
+  beforeEach(() => {
+    originalOverride = process.env.DENVIG_SERVICE_SUPERVISOR
+    originalXdg = process.env.XDG_CONFIG_HOME
+    delete process.env.DENVIG_SERVICE_SUPERVISOR
+    delete process.env.XDG_CONFIG_HOME
+  })
+  afterEach(() => {
+    if (originalOverride !== undefined) {
+      process.env.DENVIG_SERVICE_SUPERVISOR = originalOverride
+    } else delete process.env.DENVIG_SERVICE_SUPERVISOR
+    if (originalXdg !== undefined) process.env.XDG_CONFIG_HOME = originalXdg
+    else delete process.env.XDG_CONFIG_HOME
+  })
+
+  describe('resolveSupervisorName()', () => {
+    it('should default to the platform supervisor', () => {
+      strictEqual(
+        resolveSupervisorName(() => true),
+        process.platform === 'linux' ? 'systemd' : 'launchd',
+      )
+    })
+
+    it('should fall back to the denvig supervisor when the platform one is unavailable', () => {
+      strictEqual(
+        resolveSupervisorName((name) => name === 'denvig'),
+        'denvig',
+      )
+    })
+
+    it('should honour DENVIG_SERVICE_SUPERVISOR', () => {
+      process.env.DENVIG_SERVICE_SUPERVISOR = 'systemd'
+      strictEqual(resolveSupervisorName(), 'systemd')
+      process.env.DENVIG_SERVICE_SUPERVISOR = 'launchd'
+      strictEqual(resolveSupervisorName(), 'launchd')
+      process.env.DENVIG_SERVICE_SUPERVISOR = 'denvig'
+      strictEqual(resolveSupervisorName(), 'denvig')
+    })
+
+    it('should reject an unknown override', () => {
+      process.env.DENVIG_SERVICE_SUPERVISOR = 'upstart'
+      throws(() => resolveSupervisorName(), /Invalid DENVIG_SERVICE_SUPERVISOR/)
+    })
+  })
+
+  describe('getServiceSupervisor()', () => {
+    it('should return the named backend', () => {
+      strictEqual(getServiceSupervisor('launchd'), launchdSupervisor)
+      strictEqual(getServiceSupervisor('systemd'), systemdSupervisor)
+      strictEqual(getServiceSupervisor('denvig'), denvigSupervisor)
+    })
+  })
+
+  describe('launchdSupervisor', () => {
+    it('should place plists in ~/Library/LaunchAgents', () => {
+      strictEqual(
+        launchdSupervisor.unitPath('denvig.abc.api'),
+        resolve(homedir(), 'Library', 'LaunchAgents', 'denvig.abc.api.plist'),
+      )
+    })
+
+    it('should render startOnBoot as RunAtLoad', () => {
+      const plist = launchdSupervisor.renderUnit({
+        label: 'denvig.abc.api',
+        programPath: '/tmp/denvig-api',
+        workingDirectory: '/tmp',
+        standardOutPath: '/tmp/latest.log',
+        keepAlive: true,
+        startOnBoot: true,
+      })
+      ok(plist.includes('<key>RunAtLoad</key>\n  <true/>'))
+    })
+  })
+
+  describe('systemdSupervisor', () => {
+    it('should place units in ~/.config/systemd/user', () => {
+      strictEqual(
+        systemdSupervisor.unitPath('denvig.abc.api'),
+        resolve(
+          homedir(),
+          '.config',
+          'systemd',
+          'user',
+          'denvig.abc.api.service',
+        ),
+      )
+    })
+
+    it('should honour XDG_CONFIG_HOME', () => {
+      process.env.XDG_CONFIG_HOME = '/tmp/xdg'
+      strictEqual(
+        systemdSupervisor.unitPath('denvig.abc.api'),
+        '/tmp/xdg/systemd/user/denvig.abc.api.service',
+      )
+    })
+
+    it('should run service scripts with bash', () => {
+      strictEqual(systemdSupervisor.shell, '/bin/bash')
+    })
+  })
+
+  describe('denvigSupervisor', () => {
+    it('should place units in ~/.denvig/supervisor/units', () => {
+      strictEqual(
+        denvigSupervisor.unitPath('denvig.abc.api'),
+        resolve(
+          homedir(),
+          '.denvig',
+          'supervisor',
+          'units',
+          'denvig.abc.api.json',
+        ),
+      )
+    })
+
+    it('should render the unit options as JSON', () => {
+      const options = {
+        label: 'denvig.abc.api',
+        programPath: '/tmp/denvig-api',
+        workingDirectory: '/tmp',
+        standardOutPath: '/tmp/latest.log',
+        keepAlive: true,
+        startOnBoot: false,
+      }
+      deepStrictEqual(JSON.parse(denvigSupervisor.renderUnit(options)), options)
+    })
+  })
+})
@@ -0,0 +1,236 @@
+import { spawnSync } from 'node:child_process'
+import { readFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { resolve } from 'node:path'
+
+import { DenvigValidationError } from '../errors.ts'
+import { getSupervisorUnitDir, renderSupervisorUnit } from './daemon.ts'
+import daemonctl from './daemonctl.ts'
+import launchctl, {
+  type LaunchctlListItem,
+  type LaunchctlPrintOutput,
+} from './launchctl.ts'
+import { generatePlist } from './plist.ts'
+import systemctl from './systemctl.ts'
+import { generateSystemdUnit } from './systemd.ts'
+
+import type { ServiceHooks } from './hooks.ts'
+
+/**
+ * Process supervisors denvig can hand services to.
+ */
+export const SUPERVISOR_NAMES = ['launchd', 'systemd', 'denvig'] as const
+
+export type SupervisorName = (typeof SUPERVISOR_NAMES)[number]
+
+/**
+ * Options for rendering a supervisor unit definition (a launchd plist or a
+ * systemd unit file).
+ */
+export type ServiceUnitOptions = {
+  label: string
+  programPath: string
+  workingDirectory: string
+  environmentVariables?: Record<string, string>
+  standardOutPath: string
+  keepAlive: boolean
+  startOnBoot: boolean
+  /** Lifecycle hooks, recorded in the unit so changing one changes it. */
+  hooks?: ServiceHooks
+}
+
+export type SupervisorResult = { success: boolean; output: string }
+
+/**
+ * A backend that keeps service processes alive on behalf of the
+ * ServiceManager. The operations mirror launchd's model, which the manager
+ * and reconciler were originally written against:
+ *
+ * - `load` / `unload` register and deregister a unit (launchd bootstrap /
+ *   bootout) — a loaded unit is what `print` and `list` report.
+ * - `stop` stops the process but keeps the unit registered for next boot.
+ * - `enable` / `disable` control whether the unit may start automatically.
+ */
+export type ServiceSupervisor = {
+  name: SupervisorName
+  /** Login shell the generated service wrapper script runs commands with. */
+  shell: string
+  /** Directory that holds the unit definitions. */
+  unitDir: () => string
+  /** File extension (including the dot) of unit definitions. */
+  unitExtension: string
+  /** Path of the unit definition for a label. */
+  unitPath: (label: string) => string
+  /** Render the unit definition for a service. */
+  renderUnit: (options: ServiceUnitOptions) => string
+  load: (label: string, unitPath: string) => Promise<SupervisorResult>
+  unload: (label: string) => Promise<SupervisorResult>
+  stop: (label: string) => Promise<SupervisorResult>
+  enable: (label: string) => Promise<SupervisorResult>
+  disable: (label: string) => Promise<SupervisorResult>
+  print: (label: string) => Promise<LaunchctlPrintOutput | null>
+  list: (pattern?: string) => Promise<LaunchctlListItem[]>
+  /** Pick up unit definitions that were removed from disk. */
+  reload: () => Promise<void>
+}
+
+/**
+ * launchd (macOS) supervisor backed by `launchctl` and plists in
+ * `~/Library/LaunchAgents`.
+ */
+export const launchdSupervisor: ServiceSupervisor = {
+  name: 'launchd',
+  shell: '/bin/zsh',
+  unitDir: () => resolve(homedir(), 'Library', 'LaunchAgents'),
+  unitExtension: '.plist',
+  unitPath: (label) =>
+    resolve(homedir(), 'Library', 'LaunchAgents', `${label}.plist`),
+  renderUnit: ({ startOnBoot, ...options }) =>
+    generatePlist({ ...options, runAtLoad: startOnBoot }),
+  load: (_label, unitPath) => launchctl.bootstrap(unitPath),
+  unload: (label) => launchctl.bootout(label),
+  stop: (label) => launchctl.stop(label),
+  enable: (label) => launchctl.enable(label),
+  disable: (label) => launchctl.disable(label),
+  print: (label) => launchctl.print(label),
+  list: (pattern) => launchctl.list(pattern),
+  reload: async () => {},
+}
+
+/**
+ * Directory systemd reads user units from, honouring `XDG_CONFIG_HOME`.
+ */
+const systemdUserUnitDir = (): string =>
+  resolve(
+    process.env.XDG_CONFIG_HOME || resolve(homedir(), '.config'),
+    'systemd',
+    'user',
+  )
+
+/**
+ * systemd (Linux) supervisor backed by `systemctl --user` and unit files in
+ * `~/.config/systemd/user`.
+ */
+export const systemdSupervisor: ServiceSupervisor = {
+  name: 'systemd',
+  shell: '/bin/bash',
+  unitDir: systemdUserUnitDir,
+  unitExtension: '.service',
+  unitPath: (label) => resolve(systemdUserUnitDir(), systemctl.unitName(label)),
+  renderUnit: (options) => generateSystemdUnit(options),
+  load: async (label, unitPath) => {
+    const reload = await systemctl.daemonReload()
+    if (!reload.success) return reload
+    // Enablement follows the unit's [Install] section, which is only
+    // rendered for startOnBoot services.
+    const content = await readFile(unitPath, 'utf-8').catch(() => '')
+    if (content.includes('[Install]')) {
+      await systemctl.enable(label)
+    } else {
+      await systemctl.disable(label)
+    }
+    await systemctl.resetFailed(label)
+    return systemctl.start(label)
+  },
+  unload: async (label) => {
+    const result = await systemctl.stop(label)
+    await systemctl.resetFailed(label)
+    return result
+  },
+  stop: (label) => systemctl.stop(label),
+  // Units are enabled from their [Install] section when loaded, so there is
+  // nothing to re-enable ahead of a start.
+  enable: async () => ({ success: true, output: '' }),
+  disable: (label) => systemctl.disable(label),
+  print: (label) => systemctl.show(label),
+  list: (pattern) => systemctl.list(pattern),
+  reload: async () => {
+    await systemctl.daemonReload()
+  },
+}
+
+/**
+ * denvig's own supervisor daemon (`denvig services supervisor serve`), for
+ * machines without launchd or a systemd user manager. It is started on
+ * demand and reads JSON units from `~/.denvig/supervisor/units`.
+ */
+export const denvigSupervisor: ServiceSupervisor = {
+  name: 'denvig',
+  shell: '/bin/bash',
+  unitDir: getSupervisorUnitDir,
+  unitExtension: '.json',
+  unitPath: (label) => resolve(getSupervisorUnitDir(), `${label}.json`),
+  renderUnit: renderSupervisorUnit,
+  load: (label, unitPath) => daemonctl.load(label, unitPath),
+  unload: (label) => daemonctl.unload(label),
+  stop: (label) => daemonctl.stop(label),
+  // startOnBoot units are loaded when the daemon starts, so there is nothing
+  // to enable or disable.
+  enable: async () => ({ success: true, output: '' }),
+  disable: async () => ({ success: true, output: '' }),
+  print: (label) => daemonctl.print(label),
+  list: (pattern) => daemonctl.list(pattern),
+  // Units are read when loaded.
+  reload: async () => {},
+}
+
+const SUPERVISORS: Record<SupervisorName, ServiceSupervisor> = {
+  launchd: launchdSupervisor,
+  systemd: systemdSupervisor,
+  denvig: denvigSupervisor,
+}
+
+const availability = new Map<SupervisorName, boolean>()
+
+/**
+ * Whether a supervisor can run services on this machine: launchd needs
+ * macOS, systemd a reachable user manager (often missing in
+ * containers, WSL and CI runners). The denvig supervisor always can.
+ * Results are cached for the life of the process.
+ */
+export const isSupervisorAvailable = (name: SupervisorName): boolean => {
+  const cached = availability.get(name)
+  if (cached !== undefined) return cached
+  let available = true
+  if (name === 'launchd') {
+    available = process.platform === 'darwin'
+  } else if (name === 'systemd') {
+    available =
+      process.platform === 'linux' &&
+      spawnSync('systemctl', ['--user', 'show-environment'], {
+        stdio: 'ignore',
+      }).status === 0
+  }
+  availability.set(name, available)
+  return available
+}
+
+/**
+ * Decide which supervisor backend is active. `DENVIG_SERVICE_SUPERVISOR`
+ * forces a backend; otherwise Linux uses systemd and everything else launchd,
+ * falling back to the denvig supervisor when that one isn't available.
+ *
+ * Throws {@link DenvigValidationError} for an unknown override.
+ */
+export const resolveSupervisorName = (
+  isAvailable: (name: SupervisorName) => boolean = isSupervisorAvailable,
+): SupervisorName => {
+  const override = process.env.DENVIG_SERVICE_SUPERVISOR?.trim()
+  if (override) {
+    if (!(SUPERVISOR_NAMES as readonly string[]).includes(override)) {
+      throw new DenvigValidationError(
+        `Invalid DENVIG_SERVICE_SUPERVISOR "${override}". Allowed: ${SUPERVISOR_NAMES.join(', ')}.`,
+      )
+    }
+    return override as SupervisorName
+  }
+  const platformDefault = process.platform === 'linux' ? 'systemd' : 'launchd'
+  return isAvailable(platformDefault) ? platformDefault : 'denvig'
+}
+
+/**
+ * Get a supervisor backend, defaulting to the active one for this machine.
+ */
+export const getServiceSupervisor = (
+  name: SupervisorName = resolveSupervisorName(),
+): ServiceSupervisor => SUPERVISORS[name]
@@ -0,0 +1,72 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import systemctl, {
+  list,
+  parseShowOutput,
+  show,
+  unitName,
+} from './systemctl.ts'
+
+describe('systemctl', () => {
+  describe('unitName()', () => {
+    it('should append the .service suffix to the label', () => {
+      strictEqual(unitName('denvig.abc123.api'), 'denvig.abc123.api.service')
+    })
+  })
+
+  describe('parseShowOutput()', () => {
+    it('should parse a single unit block', () => {
+      const parsed = parseShowOutput(
+        'Id=denvig.abc.api.service\nLoadState=loaded\nActiveState=active\nSubState=running\nMainPID=4242\nExecMainStatus=0\n',
+      )
+      deepStrictEqual(parsed, [
+        {
+          Id: 'denvig.abc.api.service',
+          LoadState: 'loaded',
+          ActiveState: 'active',
+          SubState: 'running',
+          MainPID: '4242',
+          ExecMainStatus: '0',
+        },
+      ])
+    })
+
+    it('should split multiple units on blank lines', () => {
+      const parsed = parseShowOutput(
+        'Id=a.service\nMainPID=1\n\nId=b.service\nMainPID=0\n',
+      )
+      strictEqual(parsed.length, 2)
+      strictEqual(parsed[0].Id, 'a.service')
+      strictEqual(parsed[1].Id, 'b.service')
+    })
+
+    it('should keep = signs inside values', () => {
+      const [parsed] = parseShowOutput('Environment=A=1 B=2\n')
+      strictEqual(parsed.Environment, 'A=1 B=2')
+    })
+
+    it('should return an empty array for empty output', () => {
+      deepStrictEqual(parseShowOutput(''), [])
+    })
+  })
+
+  describe('show()', () => {
+    it('should return null for a non-existent unit', async () => {
+      const info = await show('denvig.nonexistent.service')
+      strictEqual(info, null)
+    })
+  })
+
+  describe('list()', () => {
+    it('should return an array', async () => {
+      const units = await list('denvig.')
+      ok(Array.isArray(units))
+    })
+
+    it('should work via default export', async () => {
+      const units = await systemctl.list('denvig.')
+      ok(Array.isArray(units))
+    })
+  })
+})
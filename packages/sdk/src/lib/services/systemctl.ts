@@ -0,0 +1,242 @@
+import { exec } from 'node:child_process'
+import { promisify } from 'node:util'
+
+import type { LaunchctlListItem, LaunchctlPrintOutput } from './launchctl.ts'
+
+const execAsync = promisify(exec)
+
+/**
+ * Properties requested from `systemctl --user show`. Kept minimal so the
+ * output stays cheap to parse.
+ */
+const SHOW_PROPERTIES = [
+  'Id',
+  'LoadState',
+  'ActiveState',
+  'SubState',
+  'MainPID',
+  'ExecMainStatus',
+]
+
+/**
+ * The systemd unit name for a denvig service label.
+ */
+export function unitName(label: string): string {
+  return `${label}.service`
+}
+
+/**
+ * Run a `systemctl --user` subcommand.
+ *
+ * @param args - Arguments appended after `systemctl --user`
+ * @returns Result with success status and output
+ */
+async function run(
+  args: string,
+): Promise<{ success: boolean; output: string }> {
+  try {
+    const { stdout, stderr } = await execAsync(`systemctl --user ${args}`)
+    return { success: true, output: stdout || stderr }
+  } catch (error) {
+    const execError = error as { stderr?: string; message?: string }
+    return {
+      success: false,
+      output: execError.stderr || execError.message || 'Unknown error',
+    }
+  }
+}
+
+/**
+ * Reload unit files from disk so new or changed units are picked up.
+ *
+ * @returns Result with success status and output
+ */
+export async function daemonReload(): Promise<{
+  success: boolean
+  output: string
+}> {
+  return run('daemon-reload')
+}
+
+/**
+ * Start a unit.
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function start(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  return run(`start "${unitName(label)}"`)
+}
+
+/**
+ * Stop a unit. The unit file stays on disk (and enabled, if it was).
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function stop(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  return run(`stop "${unitName(label)}"`)
+}
+
+/**
+ * Clear the failed state of a unit so it no longer shows up as loaded.
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function resetFailed(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  return run(`reset-failed "${unitName(label)}"`)
+}
+
+/**
+ * Enable a unit so it starts with the user session (via its `[Install]`
+ * section's `WantedBy=default.target`).
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function enable(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  return run(`enable "${unitName(label)}"`)
+}
+
+/**
+ * Disable a unit so it no longer starts with the user session.
+ *
+ * @param label - Service label
+ * @returns Result with success status and output
+ */
+export async function disable(
+  label: string,
+): Promise<{ success: boolean; output: string }> {
+  return run(`disable "${unitName(label)}"`)
+}
+
+/**
+ * Parse the `Key=Value` blocks printed by `systemctl show`. Multiple units
+ * are separated by a blank line.
+ */
+export function parseShowOutput(stdout: string): Array<Record<string, string>> {
+  return stdout
+    .split(/\n\s*\n/)
+    .map((block) => {
+      const properties: Record<string, string> = {}
+      for (const line of block.split('\n')) {
+        const eq = line.indexOf('=')
+        if (eq <= 0) continue
+        properties[line.slice(0, eq).trim()] = line.slice(eq + 1).trim()
+      }
+      return properties
+    })
+    .filter((properties) => Object.keys(properties).length > 0)
+}
+
+/**
+ * Whether a parsed `show` block describes a unit that is currently loaded
+ * into the user manager. Units that are missing or fully stopped are
+ * treated as not loaded, mirroring a booted-out launchd service.
+ */
+const isLoaded = (properties: Record<string, string>): boolean =>
+  properties.LoadState === 'loaded' &&
+  properties.ActiveState !== undefined &&
+  properties.ActiveState !== 'inactive'
+
+/**
+ * Convert a parsed `show` block into the launchctl-shaped print output the
+ * ServiceManager consumes.
+ */
+const toPrintOutput = (
+  label: string,
+  properties: Record<string, string>,
+): LaunchctlPrintOutput => {
+  const pid = Number.parseInt(properties.MainPID ?? '0', 10)
+  const exitCode = Number.parseInt(properties.ExecMainStatus ?? '', 10)
+  const state =
+    properties.SubState === 'running' ? 'running' : properties.SubState
+  return {
+    label,
+    pid: pid > 0 ? pid : undefined,
+    state: state ?? 'unknown',
+    status: properties.ActiveState ?? 'unknown',
+    lastExitCode: Number.isNaN(exitCode) ? undefined : exitCode,
+  }
+}
+
+/**
+ * Get unit information via `systemctl --user show`.
+ *
+ * @param label - Service label
+ * @returns Parsed service info or null if the unit is not loaded
+ */
+export async function show(
+  label: string,
+): Promise<LaunchctlPrintOutput | null> {
+  try {
+    const { stdout } = await execAsync(
+      `systemctl --user show "${unitName(label)}" --property=${SHOW_PROPERTIES.join(',')}`,
+    )
+    const [properties] = parseShowOutput(stdout)
+    if (!properties || !isLoaded(properties)) return null
+    return toPrintOutput(label, properties)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List all loaded units whose label contains a pattern.
+ *
+ * @param pattern - Optional pattern to filter units
+ * @returns Array of service items in the same shape as `launchctl list`
+ */
+export async function list(pattern?: string): Promise<LaunchctlListItem[]> {
+  try {
+    const { stdout: unitsOutput } = await execAsync(
+      'systemctl --user list-units --all --plain --no-legend --no-pager --type=service',
+    )
+    const units = unitsOutput
+      .trim()
+      .split('\n')
+      .map((line) => line.trim().split(/\s+/)[0])
+      .filter((unit) => unit?.endsWith('.service'))
+      .filter((unit) => !pattern || unit.includes(pattern))
+    if (units.length === 0) return []
+
+    const { stdout } = await execAsync(
+      `systemctl --user show ${units.map((u) => `"${u}"`).join(' ')} --property=${SHOW_PROPERTIES.join(',')}`,
+    )
+    return parseShowOutput(stdout)
+      .filter(isLoaded)
+      .map((properties) => {
+        const label = (properties.Id ?? '').replace(/\.service$/, '')
+        const info = toPrintOutput(label, properties)
+        return {
+          pid: info.pid ?? '-',
+          status: info.lastExitCode ?? 0,
+          label,
+        } satisfies LaunchctlListItem
+      })
+  } catch {
+    return []
+  }
+}
+
+// Default export containing all functions
+export default {
+  daemonReload,
+  start,
+  stop,
+  resetFailed,
+  enable,
+  disable,
+  show,
+  list,
+  unitName,
+}
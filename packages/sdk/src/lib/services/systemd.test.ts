@@ -0,0 +1,134 @@
+import { ok, strictEqual } from 'node:assert'
+import { describe, it } from 'node:test'
+
+import systemd, {
+  escapeSpecifiers,
+  generateSystemdUnit,
+  quoteUnitValue,
+} from './systemd.ts'
+
+describe('systemd', () => {
+  describe('generateSystemdUnit()', () => {
+    it('should generate a unit with all fields', () => {
+      const unit = generateSystemdUnit({
+        label: 'denvig.abc123.api',
+        programPath: '/home/test/.denvig/services/abc123.api/denvig-api',
+        workingDirectory: '/home/test/src/owner/repo/apps/api',
+        environmentVariables: {
+          NODE_ENV: 'development',
+          PORT: '3000',
+        },
+        standardOutPath:
+          '/home/test/.denvig/services/abc123.api/logs/latest.log',
+        keepAlive: true,
+        startOnBoot: false,
+      })
+
+      ok(unit.includes('[Unit]\nDescription=denvig service denvig.abc123.api'))
+      ok(unit.includes('[Service]\nType=simple'))
+      ok(
+        unit.includes(
+          'ExecStart="/home/test/.denvig/services/abc123.api/denvig-api"',
+        ),
+      )
+      ok(unit.includes('WorkingDirectory=/home/test/src/owner/repo/apps/api'))
+      ok(unit.includes('Environment="NODE_ENV=development"'))
+      ok(unit.includes('Environment="PORT=3000"'))
+      ok(
+        unit.includes(
+          'StandardOutput=append:/home/test/.denvig/services/abc123.api/logs/latest.log',
+        ),
+      )
+      ok(unit.includes('StandardError=append:'))
+      ok(unit.includes('Restart=always'))
+      ok(!unit.includes('[Install]'))
+    })
+
+    it('should map keepAlive false to Restart=no and keep the unit loaded', () => {
+      const unit = generateSystemdUnit({
+        label: 'denvig.abc123.once',
+        programPath: '/tmp/denvig-once',
+        workingDirectory: '/tmp/test',
+        standardOutPath: '/tmp/test.log',
+        keepAlive: false,
+        startOnBoot: false,
+      })
+
+      ok(unit.includes('Restart=no'))
+      ok(unit.includes('RemainAfterExit=yes'))
+      ok(!unit.includes('Restart=always'))
+    })
+
+    it('should add an [Install] section wanted by default.target when startOnBoot is true', () => {
+      const unit = generateSystemdUnit({
+        label: 'denvig.abc123.boot',
+        programPath: '/tmp/denvig-boot',
+        workingDirectory: '/tmp/test',
+        standardOutPath: '/tmp/test.log',
+        keepAlive: true,
+        startOnBoot: true,
+      })
+
+      ok(unit.includes('[Install]\nWantedBy=default.target'))
+    })
+
+    it('should list hooks in comments', () => {
+      const unit = generateSystemdUnit({
+        label: 'denvig.abc123.api',
+        programPath: '/tmp/denvig-api',
+        workingDirectory: '/tmp/test',
+        standardOutPath: '/tmp/test.log',
+        keepAlive: true,
+        startOnBoot: false,
+        hooks: { preStart: 'pnpm db:migrate', postStop: 'echo bye' },
+      })
+
+      ok(
+        unit.includes(
+          '# Hooks run by denvig around start and stop:\n# preStart: pnpm db:migrate\n# postStop: echo bye',
+        ),
+      )
+    })
+
+    it('should quote and escape environment values', () => {
+      const unit = generateSystemdUnit({
+        label: 'denvig.abc123.escape',
+        programPath: '/tmp/denvig-escape',
+        workingDirectory: '/tmp/test',
+        environmentVariables: {
+          TEST: 'say "hi" \\ 100%',
+        },
+        standardOutPath: '/tmp/test.log',
+        keepAlive: true,
+        startOnBoot: false,
+      })
+
+      ok(unit.includes('Environment="TEST=say \\"hi\\" \\\\ 100%%"'))
+    })
+
+    it('should work via default export', () => {
+      const unit = systemd.generateSystemdUnit({
+        label: 'denvig.abc123.export',
+        programPath: '/tmp/denvig-export',
+        workingDirectory: '/tmp/test',
+        standardOutPath: '/tmp/test.log',
+        keepAlive: true,
+        startOnBoot: false,
+      })
+
+      ok(unit.includes('denvig.abc123.export'))
+    })
+  })
+
+  describe('escapeSpecifiers()', () => {
+    it('should double percent signs', () => {
+      strictEqual(escapeSpecifiers('/tmp/100%/%h'), '/tmp/100%%/%%h')
+    })
+  })
+
+  describe('quoteUnitValue()', () => {
+    it('should wrap in double quotes and escape newlines', () => {
+      strictEqual(quoteUnitValue('a\nb'), '"a\\nb"')
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { formatServiceHooks, type ServiceHooks } from './hooks.ts'
+
+/**
+ * Options for generating a systemd user unit file.
+ */
+export type SystemdUnitOptions = {
+  label: string
+  programPath: string
+  workingDirectory: string
+  environmentVariables?: Record<string, string>
+  standardOutPath: string
+  keepAlive: boolean
+  startOnBoot: boolean
+  hooks?: ServiceHooks
+}
+
+/**
+ * Escape `%` so systemd doesn't treat it as a unit specifier.
+ *
+ * @param str - String to escape
+ * @returns String safe to embed in a unit file value
+ */
+export function escapeSpecifiers(str: string): string {
+  return str.replace(/%/g, '%%')
+}
+
+/**
+ * Quote a value for a unit file setting that supports C-style quoting
+ * (`Environment=`, `ExecStart=`). Backslashes, double quotes and newlines are
+ * escaped and specifiers are neutralised.
+ *
+ * @param str - String to quote
+ * @returns Double-quoted string safe for systemd
+ */
+export function quoteUnitValue(str: string): string {
+  const escaped = escapeSpecifiers(str)
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+  return `"${escaped}"`
+}
+
+/**
+ * Generate a systemd user unit from the given options.
+ *
+ * `keepAlive` maps to `Restart=always` (otherwise `Restart=no` with
+ * `RemainAfterExit=yes`, so a one-shot service that exits cleanly stays loaded
+ * like it does under launchd). `startOnBoot` adds an `[Install]` section
+ * wanted by `default.target` so enabling the unit starts it with the user
+ * session. Lifecycle hooks are run by denvig rather than systemd, so they are
+ * only listed in comments.
+ *
+ * @param options - Unit configuration options
+ * @returns Unit file contents
+ */
+export function generateSystemdUnit(options: SystemdUnitOptions): string {
+  const {
+    label,
+    programPath,
+    workingDirectory,
+    environmentVariables = {},
+    standardOutPath,
+    keepAlive,
+    startOnBoot,
+    hooks,
+  } = options
+
+  const hookLines = formatServiceHooks(hooks)
+  const serviceLines = [
+    'Type=simple',
+    `ExecStart=${quoteUnitValue(programPath)}`,
+    `WorkingDirectory=${escapeSpecifiers(workingDirectory)}`,
+    ...Object.entries(environmentVariables).map(
+      ([key, value]) => `Environment=${quoteUnitValue(`${key}=${value}`)}`,
+    ),
+    `StandardOutput=append:${escapeSpecifiers(standardOutPath)}`,
+    `StandardError=append:${escapeSpecifiers(standardOutPath)}`,
+    ...(keepAlive
+      ? ['Restart=always', 'RestartSec=1']
+      : ['Restart=no', 'RemainAfterExit=yes']),
+    ...(hookLines.length > 0
+      ? ['# Hooks run by denvig around start and stop:']
+      : []),
+    ...hookLines.map((line) => `# ${line}`),
+  ]
+
+  const installSection = startOnBoot
+    ? `
+[Install]
+WantedBy=default.target
+`
+    : ''
+
+  return `# Generated by denvig. Changes will be overwritten.
+[Unit]
+Description=denvig service ${escapeSpecifiers(label)}
+
+[Service]
+${serviceLines.join('\n')}
+${installSection}`
+}
+
+// Default export containing all functions
+export default {
+  generateSystemdUnit,
+  escapeSpecifiers,
+  quoteUnitValue,
+}
@@ -0,0 +1,185 @@
+import { deepStrictEqual, ok, strictEqual } from 'node:assert'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+
+import { updateServiceState } from './state.ts'
+import {
+  createWatchMatcher,
+  resolveWatchSettings,
+  startServiceWatcher,
+  watchServiceFiles,
+} from './watch.ts'
+
+import type { ServiceWatchChange, ServiceWatcher } from './watch.ts'
+
+/** Poll until `check` passes or two seconds elapse. */
+const waitFor = async (check: () => boolean) => {
+  const deadline = Date.now() + 2000
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out')
+    await new Promise((resolveWait) => setTimeout(resolveWait, 20))
+  }
+}
+
+describe('resolveWatchSettings()', () => {
+  it('fills in the defaults', () => {
+    deepStrictEqual(resolveWatchSettings({}), {
+      include: ['**'],
+      exclude: [],
+      debounce: 300,
+      action: 'restart',
+      signal: 'SIGHUP',
+    })
+  })
+})
+
+describe('createWatchMatcher()', () => {
+  it('matches included globs at any depth', () => {
+    const matches = createWatchMatcher({ include: ['**/*.go'], exclude: [] })
+    strictEqual(matches('main.go'), true)
+    strictEqual(matches('internal/api/handler.go'), true)
+    strictEqual(matches('README.md'), false)
+  })
+
+  it('excludes paths under excluded directories', () => {
+    const matches = createWatchMatcher({
+      include: ['**'],
+      exclude: ['tmp', '**/*.log'],
+    })
+    strictEqual(matches('app.py'), true)
+    strictEqual(matches('tmp/cache/state.db'), false)
+    strictEqual(matches('logs/debug.log'), false)
+  })
+
+  it('always ignores node_modules and .git', () => {
+    const matches = createWatchMatcher({ include: ['**'], exclude: [] })
+    strictEqual(matches('node_modules/pkg/index.js'), false)
+    strictEqual(matches('.git/HEAD'), false)
+  })
+})
+
+describe('watchServiceFiles()', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(resolve(tmpdir(), 'denvig-watch-'))
+    mkdirSync(resolve(dir, 'src'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reports a burst of matching changes once', async () => {
+    const calls: string[][] = []
+    const stop = watchServiceFiles(
+      dir,
+      { ...resolveWatchSettings({ include: ['**/*.py'] }), debounce: 100 },
+      (files) => calls.push(files),
+    )
+    try {
+      writeFileSync(resolve(dir, 'src', 'app.py'), 'print(1)\n')
+      writeFileSync(resolve(dir, 'worker.py'), 'print(2)\n')
+      writeFileSync(resolve(dir, 'notes.txt'), 'ignored\n')
+      await waitFor(() => calls.length > 0)
+      await new Promise((resolveWait) => setTimeout(resolveWait, 200))
+      deepStrictEqual(calls, [['src/app.py', 'worker.py']])
+    } finally {
+      stop()
+    }
+  })
+
+  it('watches directories created later and skips excluded ones', async () => {
+    mkdirSync(resolve(dir, 'node_modules', 'pkg'), { recursive: true })
+    const calls: string[][] = []
+    const stop = watchServiceFiles(
+      dir,
+      { ...resolveWatchSettings({ include: ['**/*.py'] }), debounce: 50 },
+      (files) => calls.push(files),
+    )
+    try {
+      mkdirSync(resolve(dir, 'src', 'jobs'))
+      // Give the new directory's watch a moment to be set up.
+      await new Promise((resolveWait) => setTimeout(resolveWait, 100))
+      writeFileSync(resolve(dir, 'node_modules', 'pkg', 'ignored.py'), '')
+      writeFileSync(resolve(dir, 'src', 'jobs', 'nightly.py'), 'print(1)\n')
+      await waitFor(() => calls.length > 0)
+      deepStrictEqual(calls, [['src/jobs/nightly.py']])
+    } finally {
+      stop()
+    }
+  })
+})
+
+describe('startServiceWatcher()', () => {
+  let home: string
+  let cwd: string
+  let originalHome: string | undefined
+  let watcher: ServiceWatcher | null
+
+  const project = {
+    id: 'abc123',
+    slug: 'local:/tmp/app',
+    name: 'app',
+    path: '/tmp/app',
+  }
+
+  beforeEach(() => {
+    home = mkdtempSync(resolve(tmpdir(), 'denvig-watch-home-'))
+    cwd = mkdtempSync(resolve(tmpdir(), 'denvig-watch-cwd-'))
+    originalHome = process.env.HOME
+    process.env.HOME = home
+    watcher = null
+  })
+
+  afterEach(async () => {
+    await watcher?.close()
+    if (originalHome !== undefined) process.env.HOME = originalHome
+    else delete process.env.HOME
+    rmSync(home, { recursive: true, force: true })
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  it('hands changes to running services with a watch block to onChange', async () => {
+    await updateServiceState(project.id, 'worker', {
+      cwd,
+      project,
+      serviceName: 'worker',
+      config: { command: 'python worker.py', watch: { debounce: 50 } },
+    })
+    await updateServiceState(project.id, 'api', {
+      cwd,
+      project,
+      serviceName: 'api',
+      config: { command: 'go run .' },
+    })
+
+    const changes: ServiceWatchChange[] = []
+    let idle = false
+    watcher = await startServiceWatcher({
+      onChange: async (change) => {
+        changes.push(change)
+      },
+      onIdle: () => {
+        idle = true
+      },
+    })
+    deepStrictEqual(watcher.services(), ['local:/tmp/app/worker'])
+
+    writeFileSync(resolve(cwd, 'worker.py'), 'print(1)\n')
+    await waitFor(() => changes.length === 1)
+    strictEqual(changes[0].entry.serviceName, 'worker')
+    strictEqual(changes[0].settings.action, 'restart')
+    deepStrictEqual(changes[0].files, ['worker.py'])
+
+    await updateServiceState(project.id, 'worker', {
+      cwd,
+      desiredStatus: 'stopped',
+    })
+    await waitFor(() => idle)
+    deepStrictEqual(watcher.services(), [])
+    ok(!changes.some((change) => change.entry.serviceName === 'api'))
+  })
+})
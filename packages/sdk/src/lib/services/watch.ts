@@ -0,0 +1,418 @@
+import {
+  type Dirent,
+  type FSWatcher,
+  readdirSync,
+  statSync,
+  watch,
+} from 'node:fs'
+import { homedir } from 'node:os'
+import { resolve } from 'node:path'
+
+import {
+  readLivePid,
+  removePidFile,
+  startBackgroundProcess,
+  writePidFile,
+} from '../background.ts'
+import { watchForReload } from '../gateway/watch.ts'
+import { globToRegExp } from '../project/workspaces.ts'
+import { readState, type ServiceStateEntry, stateFilePath } from './state.ts'
+
+import type { z } from 'zod'
+import type { ServiceConfigSchema } from '../../schemas/config.ts'
+
+type WatchConfig = NonNullable<z.infer<typeof ServiceConfigSchema>['watch']>
+
+/** A service's `watch` settings with their defaults applied. */
+export type ServiceWatchSettings = {
+  include: string[]
+  exclude: string[]
+  debounce: number
+  action: 'restart' | 'signal'
+  signal: NodeJS.Signals
+}
+
+/** Directories that are never watched, whatever the `exclude` globs say. */
+const ALWAYS_EXCLUDED = ['node_modules', '.git']
+
+const DEFAULT_DEBOUNCE_MS = 300
+
+/** Apply the defaults to a service's `watch` settings. */
+export const resolveWatchSettings = (
+  config: WatchConfig,
+): ServiceWatchSettings => ({
+  include: config.include ?? ['**'],
+  exclude: config.exclude ?? [],
+  debounce: config.debounce ?? DEFAULT_DEBOUNCE_MS,
+  action: config.action ?? 'restart',
+  signal: (config.signal ?? 'SIGHUP') as NodeJS.Signals,
+})
+
+/**
+ * Build a test for paths relative to the service cwd that are excluded: a
+ * path is excluded when it, or any directory above it, matches an `exclude`
+ * glob, so `exclude: ['tmp']` ignores everything under `tmp/`.
+ */
+const createExcludeMatcher = (
+  exclude: string[],
+): ((path: string) => boolean) => {
+  const patterns = exclude.map(globToRegExp)
+  return (path) => {
+    const segments = path.split('/')
+    if (segments.some((segment) => ALWAYS_EXCLUDED.includes(segment))) {
+      return true
+    }
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const prefix = segments.slice(0, depth).join('/')
+      if (patterns.some((regexp) => regexp.test(prefix))) return true
+    }
+    return false
+  }
+}
+
+/**
+ * Build a test for paths relative to the service cwd: included by an
+ * `include` glob and not excluded.
+ */
+export const createWatchMatcher = (
+  settings: Pick<ServiceWatchSettings, 'include' | 'exclude'>,
+): ((path: string) => boolean) => {
+  const include = settings.include.map(globToRegExp)
+  const excluded = createExcludeMatcher(settings.exclude)
+  return (path) =>
+    !excluded(path) && include.some((regexp) => regexp.test(path))
+}
+
+/**
+ * Call `onChange` with the changed paths once matching files under `cwd`
+ * stop changing for `debounce` milliseconds. Returns a function that stops
+ * watching.
+ *
+ * Each directory is watched on its own rather than with one recursive
+ * watch, so excluded directories (`node_modules` in particular) never use
+ * up inotify watches. Directories created later are watched as they appear.
+ */
+export const watchServiceFiles = (
+  cwd: string,
+  settings: ServiceWatchSettings,
+  onChange: (files: string[]) => void,
+): (() => void) => {
+  const matches = createWatchMatcher(settings)
+  const excluded = createExcludeMatcher(settings.exclude)
+  const watchers = new Map<string, FSWatcher>()
+  const changed = new Set<string>()
+  let timer: NodeJS.Timeout | null = null
+  let closed = false
+
+  const join = (dir: string, name: string) => (dir ? `${dir}/${name}` : name)
+
+  const unwatchDirectory = (dir: string) => {
+    for (const [path, watcher] of watchers) {
+      if (dir && path !== dir && !path.startsWith(`${dir}/`)) continue
+      watcher.close()
+      watchers.delete(path)
+    }
+  }
+
+  const onEvent = (dir: string, event: string, filename: string) => {
+    const path = join(dir, filename.split('\\').join('/'))
+    if (event === 'rename') {
+      const stats = statSync(resolve(cwd, path), { throwIfNoEntry: false })
+      if (stats?.isDirectory()) watchDirectory(path)
+      else unwatchDirectory(path)
+    }
+    if (!matches(path)) return
+    changed.add(path)
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(() => {
+      timer = null
+      const files = [...changed].sort()
+      changed.clear()
+      onChange(files)
+    }, settings.debounce)
+  }
+
+  const watchDirectory = (dir: string) => {
+    if (closed || watchers.has(dir) || (dir && excluded(dir))) return
+    let watcher: FSWatcher
+    try {
+      watcher = watch(resolve(cwd, dir), (event, filename) => {
+        if (filename) onEvent(dir, event, filename.toString())
+      })
+    } catch {
+      return
+    }
+    // A directory going away (including a deleted worktree, which the state
+    // reload picks up) shouldn't take the watcher process down.
+    watcher.on('error', () => unwatchDirectory(dir))
+    watchers.set(dir, watcher)
+    let entries: Dirent[]
+    try {
+      entries = readdirSync(resolve(cwd, dir), { withFileTypes: true })
+    } catch {
+      return
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) watchDirectory(join(dir, entry.name))
+    }
+  }
+
+  watchDirectory('')
+  return () => {
+    closed = true
+    unwatchDirectory('')
+    if (timer) clearTimeout(timer)
+  }
+}
+
+/** Matching files changed under a watched service's cwd. */
+export type ServiceWatchChange = {
+  entry: ServiceStateEntry & {
+    project: NonNullable<ServiceStateEntry['project']>
+    serviceName: string
+  }
+  settings: ServiceWatchSettings
+  files: string[]
+}
+
+export type ServiceWatcherOptions = {
+  /**
+   * Act on a change, e.g. by restarting the service. Changes that arrive
+   * while a service's previous change is being handled are batched into one
+   * more call once it settles.
+   */
+  onChange: (change: ServiceWatchChange) => Promise<void>
+  /** Called when a reload leaves no services to watch. */
+  onIdle?: () => void
+  onLog?: (message: string) => void
+}
+
+export type ServiceWatcher = {
+  /** `project/service` names currently being watched. */
+  services: () => string[]
+  /** Re-read state.json and update what is being watched. */
+  reload: () => Promise<void>
+  close: () => Promise<void>
+}
+
+type WatchedService = {
+  name: string
+  /** The cwd and settings the watch was set up with, to spot changes. */
+  fingerprint: string
+  stop: () => void
+  running: Promise<void> | null
+  pending: Set<string>
+}
+
+/**
+ * Watch the files of every running service with a `watch` block in its
+ * state snapshot. state.json is followed, so services that start, stop or
+ * change their settings are picked up without restarting the watcher.
+ */
+export const startServiceWatcher = async (
+  options: ServiceWatcherOptions,
+): Promise<ServiceWatcher> => {
+  const log = options.onLog ?? (() => {})
+  const watched = new Map<string, WatchedService>()
+  let closed = false
+
+  const handle = (
+    service: WatchedService,
+    change: ServiceWatchChange,
+  ): void => {
+    if (closed) return
+    if (service.running) {
+      for (const file of change.files) service.pending.add(file)
+      return
+    }
+    log(
+      `${service.name}: ${change.files.length} file${change.files.length === 1 ? '' : 's'} changed (${change.files.slice(0, 3).join(', ')}${change.files.length > 3 ? ', …' : ''}); ${change.settings.action === 'signal' ? `sending ${change.settings.signal}` : 'restarting'}`,
+    )
+    service.running = options
+      .onChange(change)
+      .catch((error) => {
+        log(
+          `${service.name}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+      })
+      .finally(() => {
+        service.running = null
+        if (service.pending.size > 0) {
+          const files = [...service.pending].sort()
+          service.pending.clear()
+          handle(service, { ...change, files })
+        }
+        // Reloads skip a service while it restarts, since a restart stops it
+        // for a moment; catch up with whatever changed since.
+        void reload().catch(() => {})
+      })
+  }
+
+  const reload = async (): Promise<void> => {
+    const state = await readState()
+    if (closed) return
+    const desired = new Map<string, ServiceWatchChange['entry']>()
+    for (const [key, entry] of Object.entries(state.services)) {
+      if (entry.desiredStatus !== 'running') continue
+      if (!entry.config?.watch || !entry.project || !entry.serviceName) continue
+      desired.set(key, {
+        ...entry,
+        project: entry.project,
+        serviceName: entry.serviceName,
+      })
+    }
+
+    for (const [key, service] of watched) {
+      if (service.running) continue
+      const entry = desired.get(key)
+      if (entry && service.fingerprint === fingerprintOf(entry)) continue
+      service.stop()
+      watched.delete(key)
+      if (!entry) log(`${service.name}: stopped watching`)
+    }
+
+    for (const [key, entry] of desired) {
+      if (watched.has(key)) continue
+      const name = `${entry.project.slug}/${entry.serviceName}`
+      const settings = resolveWatchSettings(entry.config?.watch ?? {})
+      const service: WatchedService = {
+        name,
+        fingerprint: fingerprintOf(entry),
+        stop: () => {},
+        running: null,
+        pending: new Set(),
+      }
+      try {
+        service.stop = watchServiceFiles(entry.cwd, settings, (files) =>
+          handle(service, { entry, settings, files }),
+        )
+      } catch (error) {
+        log(
+          `${name}: cannot watch ${entry.cwd}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+        continue
+      }
+      watched.set(key, service)
+      log(`${name}: watching ${entry.cwd}`)
+    }
+
+    if (watched.size === 0) options.onIdle?.()
+  }
+
+  await reload()
+  const stopReload = await watchForReload(stateFilePath(), () => {
+    reload().catch((error) => {
+      log(
+        `Failed to reload state: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    })
+  })
+
+  return {
+    services: () => [...watched.values()].map((service) => service.name),
+    reload,
+    close: async () => {
+      closed = true
+      stopReload()
+      for (const service of watched.values()) service.stop()
+      await Promise.all([...watched.values()].map((service) => service.running))
+      watched.clear()
+    },
+  }
+}
+
+const fingerprintOf = (entry: ServiceStateEntry): string =>
+  JSON.stringify({ cwd: entry.cwd, watch: entry.config?.watch })
+
+/** Directory holding the service watcher's pid and log files. */
+export const getServiceWatcherDir = (): string =>
+  resolve(homedir(), '.denvig', 'watcher')
+
+const pidPath = (): string => resolve(getServiceWatcherDir(), 'watcher.pid')
+
+/** Log file the background service watcher writes to. */
+export const getServiceWatcherLogPath = (): string =>
+  resolve(getServiceWatcherDir(), 'watcher.log')
+
+/** Record the pid of the process running the service watcher. */
+export const writeServiceWatcherPid = (pid: number): Promise<void> =>
+  writePidFile(pidPath(), pid)
+
+/** Remove the pid file, unless another process has since claimed it. */
+export const removeServiceWatcherPid = (pid: number): Promise<void> =>
+  removePidFile(pidPath(), pid)
+
+/** The pid of the running service watcher, or null when it isn't running. */
+export const getServiceWatcherPid = (): Promise<number | null> =>
+  readLivePid(pidPath())
+
+/** The watcher process and the services it watches, for `services watch`. */
+export type ServiceWatcherStatus = {
+  running: boolean
+  pid: number | null
+  logPath: string
+  services: Array<{
+    project: string
+    service: string
+    cwd: string
+    settings: ServiceWatchSettings
+  }>
+}
+
+export const getServiceWatcherStatus =
+  async (): Promise<ServiceWatcherStatus> => {
+    const pid = await getServiceWatcherPid()
+    const state = await readState()
+    const services: ServiceWatcherStatus['services'] = []
+    for (const entry of Object.values(state.services)) {
+      if (entry.desiredStatus !== 'running' || !entry.config?.watch) continue
+      if (!entry.project || !entry.serviceName) continue
+      services.push({
+        project: entry.project.slug,
+        service: entry.serviceName,
+        cwd: entry.cwd,
+        settings: resolveWatchSettings(entry.config.watch),
+      })
+    }
+    return {
+      running: pid !== null,
+      pid,
+      logPath: getServiceWatcherLogPath(),
+      services: services.sort(
+        (a, b) =>
+          a.project.localeCompare(b.project) ||
+          a.service.localeCompare(b.service),
+      ),
+    }
+  }
+
+/**
+ * Make sure the service watcher is running, starting
+ * `denvig services watch serve` in the background when it isn't. A running
+ * watcher follows state.json on its own, so nothing is restarted.
+ */
+export const ensureServiceWatcherRunning = async (): Promise<{
+  success: boolean
+  pid: number | null
+  started: boolean
+  message?: string
+}> => {
+  const current = await getServiceWatcherPid()
+  if (current !== null) return { success: true, pid: current, started: false }
+
+  const result = await startBackgroundProcess({
+    args: ['services', 'watch', 'serve'],
+    logPath: getServiceWatcherLogPath(),
+    label: 'Service watcher',
+    ready: getServiceWatcherPid,
+  })
+  if (!result.success) {
+    return {
+      success: false,
+      pid: null,
+      started: false,
+      message: result.message,
+    }
+  }
+  return { success: true, pid: result.value, started: true }
+}
@@ -2,8 +2,9 @@ import { readdir, rm, unlink, writeFile } from 'node:fs/promises'
 import { homedir } from 'node:os'
 import { resolve } from 'node:path'
 
-import launchctl from './services/launchctl.ts'
+import { directorySize } from './services/logs.ts'
 import { ServiceManager } from './services/manager.ts'
+import { getServiceSupervisor } from './services/supervisor.ts'
 
 import type { DenvigProject } from './project.ts'
 import type { ServiceResult } from './services/manager.ts'
@@ -12,6 +13,8 @@ export type TeardownResult = {
   success: boolean
   services: ServiceResult[]
   logsRemoved: boolean
+  /** Bytes freed by removing log files. */
+  reclaimedBytes: number
 }
 
 export type ProjectTeardownResult = TeardownResult & {
@@ -30,13 +33,15 @@ export async function teardownGlobal(
 ): Promise<TeardownResult> {
   const results: ServiceResult[] = []
   const successfullyRemovedLabels: string[] = []
+  const supervisor = getServiceSupervisor()
+  let reclaimedBytes = 0
 
-  // Get all denvig services from launchctl
-  const allServices = await launchctl.list('denvig.')
+  // Get all denvig services from the active supervisor
+  const allServices = await supervisor.list('denvig.')
 
   // Bootout all services
   for (const service of allServices) {
-    const bootoutResult = await launchctl.bootout(service.label)
+    const bootoutResult = await supervisor.unload(service.label)
 
     if (!bootoutResult.success) {
       results.push({
@@ -49,27 +54,31 @@ export async function teardownGlobal(
       results.push({
         name: service.label,
         success: true,
-        message: 'Service removed from launchctl',
+        message: `Service removed from ${supervisor.name}`,
       })
     }
   }
 
-  // Remove all denvig plist files from LaunchAgents directory
-  const launchAgentsDir = resolve(homedir(), 'Library', 'LaunchAgents')
+  // Remove all denvig unit files (plists or systemd units) from the
+  // supervisor's unit directory
+  const unitDir = supervisor.unitDir()
   try {
-    const files = await readdir(launchAgentsDir)
-    const denvigPlists = files.filter(
-      (f) => f.startsWith('denvig.') && f.endsWith('.plist'),
+    const files = await readdir(unitDir)
+    const denvigUnits = files.filter(
+      (f) => f.startsWith('denvig.') && f.endsWith(supervisor.unitExtension),
     )
     await Promise.all(
-      denvigPlists.map(async (file) => {
+      denvigUnits.map(async (file) => {
         try {
-          await unlink(resolve(launchAgentsDir, file))
+          await unlink(resolve(unitDir, file))
         } catch {
-          // Ignore errors removing individual plist files
+          // Ignore errors removing individual unit files
         }
       }),
     )
+    if (denvigUnits.length > 0) {
+      await supervisor.reload()
+    }
   } catch {
     // Ignore errors reading directory (may not exist)
   }
@@ -80,6 +89,7 @@ export async function teardownGlobal(
 
     // Remove old-format log files from ~/.denvig/logs/
     const logsDir = resolve(denvigDir, 'logs')
+    reclaimedBytes += await directorySize(logsDir)
     try {
       const logFiles = await readdir(logsDir)
       await Promise.all(
@@ -98,20 +108,23 @@ export async function teardownGlobal(
     // Remove new-format service log directories from ~/.denvig/services/
     const servicesDir = resolve(denvigDir, 'services')
     try {
-      const serviceDirs = await readdir(servicesDir)
+      const serviceDirs = (await readdir(servicesDir)).filter(
+        (d) => d.startsWith('denvig.') || d.includes('.'),
+      )
+      for (const dir of serviceDirs) {
+        reclaimedBytes += await directorySize(resolve(servicesDir, dir, 'logs'))
+      }
       await Promise.all(
-        serviceDirs
-          .filter((d) => d.startsWith('denvig.') || d.includes('.'))
-          .map(async (dir) => {
-            try {
-              await rm(resolve(servicesDir, dir, 'logs'), {
-                recursive: true,
-                force: true,
-              })
-            } catch {
-              // Ignore errors removing individual service log dirs
-            }
-          }),
+        serviceDirs.map(async (dir) => {
+          try {
+            await rm(resolve(servicesDir, dir, 'logs'), {
+              recursive: true,
+              force: true,
+            })
+          } catch {
+            // Ignore errors removing individual service log dirs
+          }
+        }),
       )
     } catch {
       // Ignore errors reading directory (may not exist)
@@ -134,6 +147,7 @@ export async function teardownGlobal(
     success: true,
     services: results,
     logsRemoved: options?.removeLogs ?? false,
+    reclaimedBytes,
   }
 }
 
@@ -146,7 +160,7 @@ export async function teardownProject(
 ): Promise<ProjectTeardownResult> {
   const worktree = project.activeWorktree
   const manager = new ServiceManager(worktree)
-  const services = await manager.teardownAll({
+  const { services, reclaimedBytes } = await manager.teardownAll({
     removeLogs: options?.removeLogs,
   })
 
@@ -155,5 +169,6 @@ export async function teardownProject(
     project: worktree.slug,
     services,
     logsRemoved: options?.removeLogs ?? false,
+    reclaimedBytes,
   }
 }
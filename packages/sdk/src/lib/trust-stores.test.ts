@@ -0,0 +1,83 @@
+import assert from 'node:assert'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { resolve } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+
+import { generateCaCert } from './certs.ts'
+import { bundleContainsCert, findNssDatabases } from './trust-stores.ts'
+
+describe('bundleContainsCert()', () => {
+  let certPem: string
+  let otherPem: string
+
+  before(async () => {
+    certPem = (await generateCaCert()).certPem
+    otherPem = (await generateCaCert()).certPem
+  })
+
+  it('finds a certificate in a bundle of several', () => {
+    const bundle = `${otherPem}\n${certPem}`
+    assert.ok(bundleContainsCert(bundle, certPem))
+    assert.ok(!bundleContainsCert(otherPem, certPem))
+  })
+
+  it('ignores how the base64 lines are wrapped', () => {
+    const body = certPem
+      .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+      .replace(/\s+/g, '')
+    const rewrapped = `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,76}/g)?.join('\r\n')}\n-----END CERTIFICATE-----\n`
+    assert.ok(bundleContainsCert(rewrapped, certPem))
+  })
+
+  it('does not match an empty certificate', () => {
+    assert.ok(!bundleContainsCert(certPem, ''))
+  })
+})
+
+describe('findNssDatabases()', () => {
+  let home: string
+
+  before(() => {
+    home = mkdtempSync(resolve(tmpdir(), 'denvig-nss-'))
+    const database = (...path: string[]) => {
+      mkdirSync(resolve(home, ...path), { recursive: true })
+      writeFileSync(resolve(home, ...path, 'cert9.db'), '')
+    }
+    database('.pki', 'nssdb')
+    database('.mozilla', 'firefox', 'b.default-release')
+    database('.mozilla', 'firefox', 'a.dev-edition')
+    database('snap', 'firefox', 'common', '.mozilla', 'firefox', 'c.default')
+    mkdirSync(resolve(home, '.mozilla', 'firefox', 'legacy.default'))
+    writeFileSync(resolve(home, '.mozilla', 'firefox', 'profiles.ini'), '')
+  })
+  after(() => {
+    rmSync(home, { recursive: true, force: true })
+  })
+
+  it('lists Chromium and Firefox databases that have a cert9.db', () => {
+    assert.deepStrictEqual(findNssDatabases(home), [
+      resolve(home, '.pki', 'nssdb'),
+      resolve(home, '.mozilla', 'firefox', 'a.dev-edition'),
+      resolve(home, '.mozilla', 'firefox', 'b.default-release'),
+      resolve(
+        home,
+        'snap',
+        'firefox',
+        'common',
+        '.mozilla',
+        'firefox',
+        'c.default',
+      ),
+    ])
+  })
+
+  it('returns nothing for a home without browsers', () => {
+    const empty = mkdtempSync(resolve(tmpdir(), 'denvig-nss-'))
+    try {
+      assert.deepStrictEqual(findNssDatabases(empty), [])
+    } finally {
+      rmSync(empty, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,313 @@
+import { execFileSync, spawnSync } from 'node:child_process'
+import { existsSync, readdirSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { resolve } from 'node:path'
+
+import {
+  getCaCertPath,
+  installCaToKeychain,
+  isCaTrustedInKeychain,
+  uninstallCaFromKeychain,
+} from './certs.ts'
+
+/**
+ * Trust stores the local CA can be installed into:
+ *
+ * - `keychain`: the macOS System keychain (`security`).
+ * - `ca-certificates`: the Debian/Ubuntu system store (`update-ca-certificates`).
+ * - `ca-trust`: the Fedora/RHEL/Arch system store (`update-ca-trust`, or
+ *   p11-kit's `trust anchor`).
+ * - `nss`: the NSS databases Firefox and Chromium read (`certutil`).
+ */
+export const TRUST_STORE_NAMES = [
+  'keychain',
+  'ca-certificates',
+  'ca-trust',
+  'nss',
+] as const
+
+export type TrustStoreName = (typeof TRUST_STORE_NAMES)[number]
+
+/** Whether the local CA is trusted by one trust store. */
+export type CaTrustStoreStatus = {
+  name: TrustStoreName
+  /** Human-readable name of the store. */
+  label: string
+  trusted: boolean
+  /** Extra detail, such as how many NSS databases trust the CA. */
+  detail?: string
+}
+
+/** The outcome of installing or removing the CA in one trust store. */
+export type CaTrustStoreResult = {
+  name: TrustStoreName
+  label: string
+  success: boolean
+  message?: string
+}
+
+type TrustStore = {
+  name: TrustStoreName
+  label: string
+  isAvailable: () => boolean
+  status: (caCertPath: string) => Promise<Omit<CaTrustStoreStatus, 'label'>>
+  install: (caCertPath: string) => void
+  uninstall: (caCertPath: string) => void
+}
+
+/** File name the CA is installed under in system anchor directories. */
+const ANCHOR_NAME = 'denvig-local-ca'
+
+/** Nickname of the CA in NSS databases. */
+const NSS_NICKNAME = 'Denvig Local CA'
+
+const DEBIAN_ANCHOR = `/usr/local/share/ca-certificates/${ANCHOR_NAME}.crt`
+const DEBIAN_BUNDLE = '/etc/ssl/certs/ca-certificates.crt'
+
+/** Anchor directories read by `update-ca-trust` on Fedora/RHEL and Arch. */
+const CA_TRUST_ANCHOR_DIRS = [
+  '/etc/pki/ca-trust/source/anchors',
+  '/etc/ca-certificates/trust-source/anchors',
+]
+const CA_TRUST_BUNDLES = [
+  '/etc/pki/ca-trust/extracted/pem/tls-ca-bundle.pem',
+  '/etc/ssl/certs/ca-certificates.crt',
+]
+
+const hasCommand = (command: string): boolean =>
+  spawnSync('sh', ['-c', `command -v ${command}`], { stdio: 'ignore' })
+    .status === 0
+
+/** Run a command as root, through sudo unless denvig already runs as root. */
+const runAsRoot = (command: string, args: string[]): void => {
+  if (process.getuid?.() === 0) {
+    execFileSync(command, args, { stdio: 'inherit' })
+  } else {
+    execFileSync('sudo', [command, ...args], { stdio: 'inherit' })
+  }
+}
+
+/**
+ * Check whether a PEM bundle contains a certificate, ignoring how either
+ * one wraps its base64 lines.
+ */
+export const bundleContainsCert = (
+  bundle: string,
+  certPem: string,
+): boolean => {
+  const body = certPem
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '')
+  return body !== '' && bundle.replace(/\s+/g, '').includes(body)
+}
+
+const anyBundleContains = (bundles: string[], caCertPath: string): boolean => {
+  const certPem = readFileSync(caCertPath, 'utf-8')
+  return bundles.some((bundle) => {
+    try {
+      return bundleContainsCert(readFileSync(bundle, 'utf-8'), certPem)
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * NSS databases under `home`: the shared Chromium database in `~/.pki/nssdb`
+ * and every Firefox profile (including the snap and macOS locations).
+ */
+export const findNssDatabases = (home: string = homedir()): string[] => {
+  const databases: string[] = []
+  const chromium = resolve(home, '.pki', 'nssdb')
+  if (existsSync(resolve(chromium, 'cert9.db'))) databases.push(chromium)
+
+  const profileRoots = [
+    resolve(home, '.mozilla', 'firefox'),
+    resolve(home, 'snap', 'firefox', 'common', '.mozilla', 'firefox'),
+    resolve(home, 'Library', 'Application Support', 'Firefox', 'Profiles'),
+  ]
+  for (const root of profileRoots) {
+    let profiles: string[]
+    try {
+      profiles = readdirSync(root).sort()
+    } catch {
+      continue
+    }
+    for (const profile of profiles) {
+      const dir = resolve(root, profile)
+      if (existsSync(resolve(dir, 'cert9.db'))) databases.push(dir)
+    }
+  }
+  return databases
+}
+
+const certutil = (database: string, args: string[]) =>
+  spawnSync('certutil', ['-d', `sql:${database}`, ...args], {
+    stdio: 'pipe',
+  })
+
+const TRUST_STORES: TrustStore[] = [
+  {
+    name: 'keychain',
+    label: 'macOS System keychain',
+    isAvailable: () => process.platform === 'darwin',
+    status: async () => ({
+      name: 'keychain',
+      trusted: await isCaTrustedInKeychain(),
+    }),
+    install: installCaToKeychain,
+    uninstall: uninstallCaFromKeychain,
+  },
+  {
+    name: 'ca-certificates',
+    label: 'system store (update-ca-certificates)',
+    isAvailable: () =>
+      process.platform === 'linux' && hasCommand('update-ca-certificates'),
+    status: async (caCertPath) => ({
+      name: 'ca-certificates',
+      trusted: anyBundleContains([DEBIAN_BUNDLE], caCertPath),
+    }),
+    install: (caCertPath) => {
+      runAsRoot('install', ['-D', '-m', '644', caCertPath, DEBIAN_ANCHOR])
+      runAsRoot('update-ca-certificates', [])
+    },
+    uninstall: () => {
+      runAsRoot('rm', ['-f', DEBIAN_ANCHOR])
+      runAsRoot('update-ca-certificates', ['--fresh'])
+    },
+  },
+  {
+    name: 'ca-trust',
+    label: 'system store (update-ca-trust)',
+    // Debian ships p11-kit's `trust` too, but its store is ca-certificates.
+    isAvailable: () =>
+      process.platform === 'linux' &&
+      !hasCommand('update-ca-certificates') &&
+      (hasCommand('update-ca-trust') || hasCommand('trust')),
+    status: async (caCertPath) => ({
+      name: 'ca-trust',
+      trusted: anyBundleContains(CA_TRUST_BUNDLES, caCertPath),
+    }),
+    install: (caCertPath) => {
+      const anchorDir = CA_TRUST_ANCHOR_DIRS.find((dir) => existsSync(dir))
+      if (anchorDir && hasCommand('update-ca-trust')) {
+        const anchor = resolve(anchorDir, `${ANCHOR_NAME}.pem`)
+        runAsRoot('install', ['-m', '644', caCertPath, anchor])
+        runAsRoot('update-ca-trust', ['extract'])
+      } else {
+        runAsRoot('trust', ['anchor', '--store', caCertPath])
+      }
+    },
+    uninstall: (caCertPath) => {
+      const anchorDir = CA_TRUST_ANCHOR_DIRS.find((dir) => existsSync(dir))
+      if (anchorDir && hasCommand('update-ca-trust')) {
+        runAsRoot('rm', ['-f', resolve(anchorDir, `${ANCHOR_NAME}.pem`)])
+        runAsRoot('update-ca-trust', ['extract'])
+      } else {
+        runAsRoot('trust', ['anchor', '--remove', caCertPath])
+      }
+    },
+  },
+  {
+    name: 'nss',
+    label: 'NSS databases (Firefox, Chromium)',
+    isAvailable: () => hasCommand('certutil') && findNssDatabases().length > 0,
+    status: async () => {
+      const databases = findNssDatabases()
+      const trusted = databases.filter(
+        (database) =>
+          certutil(database, ['-L', '-n', NSS_NICKNAME]).status === 0,
+      )
+      return {
+        name: 'nss',
+        trusted: databases.length > 0 && trusted.length === databases.length,
+        detail: `${trusted.length}/${databases.length} databases`,
+      }
+    },
+    install: (caCertPath) => {
+      for (const database of findNssDatabases()) {
+        const result = certutil(database, [
+          '-A',
+          '-t',
+          'C,,',
+          '-n',
+          NSS_NICKNAME,
+          '-i',
+          caCertPath,
+        ])
+        if (result.status !== 0) {
+          throw new Error(
+            `certutil failed for ${database}: ${result.stderr.toString().trim()}`,
+          )
+        }
+      }
+    },
+    uninstall: () => {
+      for (const database of findNssDatabases()) {
+        // Fails when the CA was never added, which is fine.
+        certutil(database, ['-D', '-n', NSS_NICKNAME])
+      }
+    },
+  },
+]
+
+/** Trust stores present on this machine. */
+const availableTrustStores = (): TrustStore[] =>
+  TRUST_STORES.filter((store) => store.isAvailable())
+
+/**
+ * Report whether each trust store on this machine trusts the local CA. An
+ * empty list means no supported trust store was found.
+ */
+export const getCaTrustStatus = async (
+  caCertPath: string = getCaCertPath(),
+): Promise<CaTrustStoreStatus[]> => {
+  if (!existsSync(caCertPath)) return []
+  const statuses: CaTrustStoreStatus[] = []
+  for (const store of availableTrustStores()) {
+    statuses.push({ ...(await store.status(caCertPath)), label: store.label })
+  }
+  return statuses
+}
+
+/**
+ * Check whether the operating system trusts the local CA, i.e. the macOS
+ * keychain or the Linux system store does. NSS databases are not counted,
+ * as most tools don't read them.
+ */
+export const isCaTrusted = async (): Promise<boolean> => {
+  const statuses = await getCaTrustStatus()
+  return statuses.some((status) => status.name !== 'nss' && status.trusted)
+}
+
+const applyToTrustStores = (
+  caCertPath: string,
+  action: 'install' | 'uninstall',
+): CaTrustStoreResult[] =>
+  availableTrustStores().map((store) => {
+    try {
+      store[action](caCertPath)
+      return { name: store.name, label: store.label, success: true }
+    } catch (error) {
+      return {
+        name: store.name,
+        label: store.label,
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      }
+    }
+  })
+
+/**
+ * Install the CA certificate into every trust store on this machine. System
+ * stores need root, so their commands run through sudo. A store that fails
+ * doesn't stop the others.
+ */
+export const installCaToTrustStores = (
+  caCertPath: string,
+): CaTrustStoreResult[] => applyToTrustStores(caCertPath, 'install')
+
+/** Remove the CA certificate from every trust store on this machine. */
+export const uninstallCaFromTrustStores = (
+  caCertPath: string,
+): CaTrustStoreResult[] => applyToTrustStores(caCertPath, 'uninstall')
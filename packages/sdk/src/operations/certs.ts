@@ -20,20 +20,41 @@ import {
   getCertExpiry,
   getCertIssuerCN,
   getCertsDir,
-  installCaToKeychain,
+  getIntermediateCaCertPath,
   isCaInitialized,
-  isCaTrustedInKeychain,
   isCertIssuedBy,
   isIssuedByLocalCa,
-  loadCaCert,
+  loadIssuingCa,
   parseCertDomains,
-  uninstallCaFromKeychain,
   writeCaFiles,
+  writeCertFilesToDir,
   writeDomainCertFiles,
 } from '../lib/certs.ts'
 import { DenvigValidationError } from '../lib/errors.ts'
+import { parseDuration } from '../lib/formatters/duration.ts'
+import { CERT_RENEWAL_WINDOW_MS } from '../lib/gateway/certs.ts'
+import { configureGateway } from '../lib/gateway/configure.ts'
+import {
+  getCertSerialNumber,
+  getCrlPath,
+  loadRevocationUrls,
+  readRevocationList,
+  writeRevocations,
+} from '../lib/revocation.ts'
+import { readState, setCert } from '../lib/services/state.ts'
+import {
+  getCaTrustStatus,
+  installCaToTrustStores,
+  isCaTrusted,
+  uninstallCaFromTrustStores,
+} from '../lib/trust-stores.ts'
+
+import type {
+  CaTrustStoreResult,
+  CaTrustStoreStatus,
+} from '../lib/trust-stores.ts'
 
-export type CertificateStatus = 'valid' | 'expired' | 'untrusted'
+export type CertificateStatus = 'valid' | 'expired' | 'untrusted' | 'revoked'
 
 /** A managed TLS certificate under `~/.denvig/certs`. */
 export type DenvigCertificate = {
@@ -45,11 +66,14 @@ export type DenvigCertificate = {
   issuer: string | null
   /** Expiry as an ISO 8601 timestamp. */
   expires: string
-  /** `expired` when past expiry, `untrusted` for an untrusted local CA cert. */
+  /**
+   * `expired` when past expiry, `revoked` after `certs revoke`, `untrusted`
+   * for an untrusted local CA cert.
+   */
   status: CertificateStatus
   /** Whether the certificate was signed by the local denvig CA. */
   signedByLocalCa: boolean
-  /** Whether the local CA is currently trusted in the system keychain. */
+  /** Whether the local CA is currently trusted by the system trust store. */
   caTrusted: boolean
 }
 
@@ -87,7 +111,10 @@ export const listCertificates = async (
   const caCertPem = caInitialized
     ? readFileSync(getCaCertPath(), 'utf-8')
     : null
-  const caTrusted = caInitialized ? await isCaTrustedInKeychain() : false
+  const caTrusted = caInitialized ? await isCaTrusted() : false
+  const revokedSerials = new Set(
+    (await readRevocationList()).revoked.map((cert) => cert.serialNumber),
+  )
 
   const now = new Date()
   const certs: DenvigCertificate[] = []
@@ -108,6 +135,11 @@ export const listCertificates = async (
       let status: CertificateStatus
       if (expires <= now) {
         status = 'expired'
+      } else if (
+        signedByLocalCa &&
+        revokedSerials.has(await getCertSerialNumber(pem))
+      ) {
+        status = 'revoked'
       } else if (signedByLocalCa && !caTrusted) {
         status = 'untrusted'
       } else {
@@ -205,8 +237,13 @@ export const createCertificate = async (
     )
   }
 
-  const { cert: caCert, key: caKey } = await loadCaCert()
-  const { privkey, fullchain } = await generateDomainCert(domain, caCert, caKey)
+  const { cert: caCert, key: caKey } = await loadIssuingCa()
+  const { privkey, fullchain } = await generateDomainCert(
+    domain,
+    caCert,
+    caKey,
+    await loadRevocationUrls(),
+  )
   await writeDomainCertFiles(domain, privkey, fullchain)
 
   return {
@@ -217,6 +254,201 @@ export const createCertificate = async (
   }
 }
 
+export type RenewCertificatesOptions = {
+  /**
+   * Renew certificates expiring within this duration, e.g. `30d` or `2w`.
+   * Defaults to 30 days.
+   */
+  within?: string
+  /** Renew every locally-signed certificate, however far from expiry. */
+  all?: boolean
+}
+
+/** A certificate reissued by `renewCertificates()`. */
+export type RenewedCertificate = {
+  name: string
+  domains: string[]
+  /** Expiry of the replaced certificate, as an ISO 8601 timestamp. */
+  previousExpires: string
+  expires: string
+}
+
+/** A certificate `renewCertificates()` left alone, and why. */
+export type SkippedCertificateRenewal = {
+  name: string
+  domains: string[]
+  expires: string
+  /**
+   * `not_due` when it expires after the renewal window; `imported` when it
+   * is due but was not issued by the local CA, so it can't be reissued.
+   */
+  reason: 'not_due' | 'imported'
+}
+
+export type RenewCertificatesResult = {
+  renewed: RenewedCertificate[]
+  skipped: SkippedCertificateRenewal[]
+  /**
+   * The gateway reconfiguration run because a renewed cert is referenced in
+   * `state.certs`, or null when no gateway route uses one.
+   */
+  gateway: { success: boolean; message?: string } | null
+}
+
+/**
+ * Reissue locally-signed certificates that expire within `within` or were
+ * revoked (or all of them with `all`), keeping each one's directory and SANs. Entries in
+ * `state.certs` pointing at a renewed directory are refreshed and the gateway
+ * reconfigured so it serves the new certificates.
+ */
+export const renewCertificates = async (
+  options: RenewCertificatesOptions = {},
+): Promise<RenewCertificatesResult> => {
+  const withinMs =
+    options.within === undefined
+      ? CERT_RENEWAL_WINDOW_MS
+      : parseDuration(options.within)
+  if (withinMs === null) {
+    throw new DenvigValidationError(
+      `Invalid duration "${options.within}": use a value such as 30d or 2w`,
+    )
+  }
+  if (!(await isCaInitialized())) {
+    throw new DenvigValidationError(
+      'The local CA is not configured. Run `ca.configure()` first.',
+    )
+  }
+
+  const threshold = Date.now() + withinMs
+  const renewed: RenewedCertificate[] = []
+  const skipped: SkippedCertificateRenewal[] = []
+  const renewedDirs: string[] = []
+  let ca: Awaited<ReturnType<typeof loadIssuingCa>> | null = null
+  const revocation = await loadRevocationUrls()
+
+  for (const cert of await listCertificates()) {
+    const certDir = resolve(getCertsDir(), cert.name)
+    const entry = { name: cert.name, domains: cert.domains }
+    const due =
+      cert.status === 'revoked' || new Date(cert.expires).getTime() <= threshold
+    if (!options.all && !due) {
+      skipped.push({ ...entry, expires: cert.expires, reason: 'not_due' })
+      continue
+    }
+    // Certs from an earlier denvig CA are renewable too: only the issuer
+    // name is checked, not the signature.
+    const certFile = findCertFile(certDir)
+    const pem = certFile ? readFileSync(certFile, 'utf-8') : ''
+    if (!cert.signedByLocalCa && !isIssuedByLocalCa(pem)) {
+      skipped.push({ ...entry, expires: cert.expires, reason: 'imported' })
+      continue
+    }
+
+    ca ??= await loadIssuingCa()
+    const { privkey, fullchain } = await generateDomainCert(
+      cert.domains,
+      ca.cert,
+      ca.key,
+      revocation,
+    )
+    await writeCertFilesToDir(certDir, privkey, fullchain)
+    renewedDirs.push(certDir)
+    renewed.push({
+      ...entry,
+      previousExpires: cert.expires,
+      expires: getCertExpiry(fullchain).toISOString(),
+    })
+  }
+
+  // Point state.certs at the rewritten files, which may replace a cert.pem.
+  const state = await readState()
+  const referenced = Object.entries(state.certs).filter(([, cert]) =>
+    renewedDirs.includes(resolve(cert.dir)),
+  )
+  for (const [key, cert] of referenced) {
+    await setCert(key, {
+      ...cert,
+      certPath: resolve(cert.dir, 'fullchain.pem'),
+      keyPath: resolve(cert.dir, 'privkey.pem'),
+    })
+  }
+
+  let gateway: RenewCertificatesResult['gateway'] = null
+  if (referenced.length > 0) {
+    const result = await configureGateway()
+    gateway = { success: result.success, message: result.message }
+  }
+
+  return { renewed, skipped, gateway }
+}
+
+export type RevokeCertificateResult = {
+  name: string
+  domains: string[]
+  /** Hex of the revoked certificate's serial number. */
+  serialNumber: string
+  revokedAt: string
+  /** Absolute path of the rewritten PEM CRL. */
+  crl: string
+}
+
+/**
+ * Revoke a certificate issued by the intermediate CA, by domain or directory
+ * name: its serial number is added to the CRL, which the builtin gateway
+ * serves along with an OCSP responder. The files are kept so the certificate
+ * can be reissued with `renewCertificates()`.
+ */
+export const revokeCertificate = async (
+  ref: CertificateRef,
+): Promise<RevokeCertificateResult> => {
+  const location = await retrieveCertificate(ref)
+  const certFile = location ? findCertFile(location.path) : null
+  if (!location || !certFile) {
+    throw new DenvigValidationError(
+      `Certificate "${ref.name ?? ref.domain}" not found.`,
+    )
+  }
+  if (!(await isCaInitialized())) {
+    throw new DenvigValidationError(
+      'The local CA is not configured. Run `ca.configure()` first.',
+    )
+  }
+
+  const pem = readFileSync(certFile, 'utf-8')
+  const intermediatePath = getIntermediateCaCertPath()
+  if (
+    !existsSync(intermediatePath) ||
+    !isCertIssuedBy(pem, readFileSync(intermediatePath, 'utf-8'))
+  ) {
+    throw new DenvigValidationError(
+      isIssuedByLocalCa(pem)
+        ? `Certificate "${location.name}" was signed by the root CA before the intermediate CA existed, so it can't be revoked. Remove it instead.`
+        : `Certificate "${location.name}" was not issued by the local CA.`,
+    )
+  }
+
+  const serialNumber = await getCertSerialNumber(pem)
+  const { revoked } = await readRevocationList()
+  if (revoked.some((cert) => cert.serialNumber === serialNumber)) {
+    throw new DenvigValidationError(
+      `Certificate "${location.name}" is already revoked.`,
+    )
+  }
+
+  const domains = parseCertDomains(pem)
+  const revokedAt = new Date().toISOString()
+  await writeRevocations([
+    { serialNumber, revokedAt, name: location.name, domains },
+  ])
+  return {
+    name: location.name,
+    domains,
+    serialNumber,
+    revokedAt,
+    crl: getCrlPath(),
+  }
+}
+
 export type RemoveCertificateResult = {
   name: string
   files: string[]
@@ -295,10 +527,12 @@ export const importCertificate = async (
 export type CaStatus = {
   /** Whether the CA certificate and key exist on disk. */
   initialized: boolean
-  /** Whether the CA is trusted in the system keychain. */
+  /** Whether the CA is trusted by the macOS keychain or Linux system store. */
   trusted: boolean
   /** Absolute path of the CA certificate. */
   path: string
+  /** Trust status in every trust store found on this machine. */
+  stores: CaTrustStoreStatus[]
   subject?: string
   issuer?: string
   validFrom?: string
@@ -311,15 +545,16 @@ export type CaStatus = {
 export const getCaStatus = async (): Promise<CaStatus> => {
   const path = getCaCertPath()
   if (!(await isCaInitialized())) {
-    return { initialized: false, trusted: false, path }
+    return { initialized: false, trusted: false, path, stores: [] }
   }
 
-  const trusted = await isCaTrustedInKeychain()
+  const stores = await getCaTrustStatus(path)
   const cert = new X509Certificate(readFileSync(path, 'utf-8'))
   return {
     initialized: true,
-    trusted,
+    trusted: stores.some((store) => store.name !== 'nss' && store.trusted),
     path,
+    stores,
     subject: cert.subject,
     issuer: cert.issuer,
     validFrom: cert.validFrom,
@@ -334,33 +569,40 @@ export type ConfigureCaResult = {
   created: boolean
   /** Absolute path of the CA certificate. */
   path: string
+  /** The install outcome per trust store; empty when none was found. */
+  stores: CaTrustStoreResult[]
 }
 
 /**
- * Configure the local CA: generate it if missing, then (re)install it into the
- * system keychain so locally-signed certificates are trusted.
+ * Configure the local CA: generate it if missing, then (re)install it into
+ * every trust store on this machine (the macOS keychain, the Linux system
+ * store and NSS databases) so locally-signed certificates are trusted.
  */
 export const configureCa = async (): Promise<ConfigureCaResult> => {
   const path = getCaCertPath()
   if (await isCaInitialized()) {
-    installCaToKeychain(path)
-    return { created: false, path }
+    return { created: false, path, stores: installCaToTrustStores(path) }
   }
 
   const { certPem, keyPem } = await generateCaCert()
   await writeCaFiles(certPem, keyPem)
-  installCaToKeychain(path)
-  return { created: true, path }
+  return { created: true, path, stores: installCaToTrustStores(path) }
+}
+
+export type RemoveCaResult = {
+  /** Absolute path of the CA certificate, which is left on disk. */
+  path: string
+  /** The removal outcome per trust store. */
+  stores: CaTrustStoreResult[]
 }
 
-/** Remove the local CA from the system keychain. */
-export const removeCa = async (): Promise<{ path: string }> => {
+/** Remove the local CA from every trust store on this machine. */
+export const removeCa = async (): Promise<RemoveCaResult> => {
   const path = getCaCertPath()
   if (!(await isCaInitialized())) {
     throw new DenvigValidationError(
       'The local CA is not configured. Run `ca.configure()` first.',
     )
   }
-  uninstallCaFromKeychain(path)
-  return { path }
+  return { path, stores: uninstallCaFromTrustStores(path) }
 }
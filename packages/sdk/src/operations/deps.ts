@@ -1,3 +1,25 @@
+import { readFile, writeFile } from 'node:fs/promises'
+import { join, normalize } from 'node:path'
+
+import { planAction } from '../lib/actions/plan.ts'
+import { detectActionsByEcosystem } from '../lib/actions/resolve.ts'
+import { runActionCommands } from '../lib/actions/run.ts'
+import {
+  ADVISORY_SEVERITIES,
+  advisoryAffects,
+  advisoryKey,
+  advisorySeverity,
+  fixedVersions,
+  getAdvisoryDatabaseDir,
+  loadAdvisories,
+  severityAtLeast,
+} from '../lib/deps/audit.ts'
+import { buildReverseChain, isDevDependenciesSource } from '../lib/deps/tree.ts'
+import {
+  DEPENDENCY_MANIFESTS,
+  selectUpgradeVersion,
+  upgradeSpecifier,
+} from '../lib/deps/upgrade.ts'
 import { DenvigValidationError } from '../lib/errors.ts'
 import { parseDuration } from '../lib/formatters/duration.ts'
 import { fetchJsrPackageInfo } from '../lib/jsr/info.ts'
@@ -5,12 +27,16 @@ import { fetchNpmPackageInfo } from '../lib/npm/info.ts'
 import { readPnpmReleaseAgeConfig } from '../lib/pnpm-config.ts'
 import { fetchRubygemInfo } from '../lib/rubygems/info.ts'
 import { outdatedMatchesSemverFilter } from '../lib/semver.ts'
+import { diffLines } from '../lib/services/diff.ts'
 import { fetchPyPIPackageInfo } from '../lib/uv/info.ts'
 
+import type { RunActionOptions } from '../lib/actions/run.ts'
 import type {
   OutdatedDependencySchema,
   ProjectDependencySchema,
 } from '../lib/dependencies.ts'
+import type { AdvisorySeverity } from '../lib/deps/audit.ts'
+import type { TreeNode } from '../lib/formatters/tree-node.ts'
 import type { Worktree } from '../lib/project/worktree.ts'
 
 export type SemverLevel = 'patch' | 'minor' | 'major'
@@ -121,6 +147,14 @@ export const listDependencies = (
 const getCurrent = (dep: OutdatedDependencySchema): string =>
   dep.versions[0]?.resolved || ''
 
+const assertSemverLevel = (level: string | undefined): void => {
+  if (level && level !== 'patch' && level !== 'minor' && level !== 'major') {
+    throw new DenvigValidationError(
+      `Invalid semver value: "${level}". Must be "patch", "minor", or "major".`,
+    )
+  }
+}
+
 /**
  * Resolve outdated dependencies, applying ecosystem, semver-level and
  * release-latency filters. This is the shared data path behind both
@@ -133,16 +167,7 @@ export const outdatedDependencies = async (
   const { semver: semverFilter, ecosystem: ecosystemFilter } = options
   const cache = options.cache ?? true
 
-  if (
-    semverFilter &&
-    semverFilter !== 'patch' &&
-    semverFilter !== 'minor' &&
-    semverFilter !== 'major'
-  ) {
-    throw new DenvigValidationError(
-      `Invalid semver value: "${semverFilter}". Must be "patch", "minor", or "major".`,
-    )
-  }
+  assertSemverLevel(semverFilter)
 
   let entries = await worktree.outdatedDependencies({ cache })
 
@@ -219,3 +244,392 @@ export const outdatedDependencies = async (
     return a.name.localeCompare(b.name)
   })
 }
+
+export type UpgradeDependenciesOptions = {
+  /** Only upgrade these packages. Defaults to every outdated dependency. */
+  names?: string[]
+  /**
+   * Highest update level to apply: `patch`, `minor` (minor and patch) or
+   * `major` (any update).
+   * @default 'major'
+   */
+  semver?: SemverLevel
+  /** Only upgrade dependencies from this ecosystem (e.g. npm, rubygems). */
+  ecosystem?: string
+  /** Report the changes without writing manifests or installing. */
+  dryRun?: boolean
+  /** Run the ecosystem's `install` action after rewriting. @default true */
+  install?: boolean
+  /** Skip cache and fetch fresh data from the registry. */
+  cache?: boolean
+  /** See {@link OutdatedDependenciesOptions.releaseLatency}. */
+  releaseLatency?: string
+  /** Sink for the install commands' `$ <command>` echo lines. */
+  onCommand?: RunActionOptions['onCommand']
+  /** Receive the install commands' output instead of inheriting stdio. */
+  onOutput?: RunActionOptions['onOutput']
+}
+
+/** A dependency whose version range was (or would be) rewritten. */
+export type DependencyUpgrade = {
+  name: string
+  ecosystem: string
+  /** Currently resolved version. */
+  from: string
+  /** Version the new range requires. */
+  to: string
+  level: SemverLevel
+  isDevDependency: boolean
+  /** Manifests rewritten, relative to the worktree root. */
+  files: string[]
+}
+
+export type SkippedDependencyUpgrade = {
+  name: string
+  ecosystem: string | null
+  reason: string
+}
+
+/** The rewritten content of one manifest, as a line diff. */
+export type DependencyManifestChange = {
+  /** Manifest path relative to the worktree root. */
+  path: string
+  /** See `diffLines()`: changed lines prefixed `-`/`+` with context. */
+  diff: string[]
+}
+
+export type UpgradeDependenciesResult = {
+  dryRun: boolean
+  upgrades: DependencyUpgrade[]
+  skipped: SkippedDependencyUpgrade[]
+  changes: DependencyManifestChange[]
+  /** Install actions run after rewriting, by plugin ecosystem. */
+  installs: Array<{ ecosystem: string; success: boolean }>
+}
+
+/**
+ * Upgrade outdated dependencies by rewriting the version ranges declared in
+ * `package.json`, `deno.json`, `Gemfile` and `pyproject.toml`, then running
+ * the `install` action of each affected ecosystem. Each range keeps its
+ * operator (`^1.2.0` → `^2.0.1`). With `dryRun`, manifests are left untouched
+ * and the result only describes the changes.
+ *
+ * Dependencies are skipped when no allowed update exists, their range can't
+ * be rewritten (e.g. `workspace:*`, `catalog:`, compound ranges) or their
+ * manifest doesn't declare them.
+ */
+export const upgradeDependencies = async (
+  worktree: Worktree,
+  options: UpgradeDependenciesOptions = {},
+): Promise<UpgradeDependenciesResult> => {
+  assertSemverLevel(options.semver)
+  const maxLevel = options.semver ?? 'major'
+
+  let entries = await outdatedDependencies(worktree, {
+    cache: options.cache,
+    ecosystem: options.ecosystem,
+    releaseLatency: options.releaseLatency,
+  })
+
+  const skipped: SkippedDependencyUpgrade[] = []
+  if (options.names && options.names.length > 0) {
+    const names = options.names
+    entries = entries.filter((dep) => names.includes(dep.name))
+    for (const name of names) {
+      if (!entries.some((dep) => dep.name === name)) {
+        skipped.push({ name, ecosystem: null, reason: 'not outdated' })
+      }
+    }
+  }
+
+  const originals = new Map<string, string | null>()
+  const contents = new Map<string, string>()
+  const readManifest = async (path: string): Promise<string | null> => {
+    if (!originals.has(path)) {
+      const content = await readFile(join(worktree.path, path), 'utf-8').catch(
+        () => null,
+      )
+      originals.set(path, content)
+      if (content !== null) contents.set(path, content)
+    }
+    return contents.get(path) ?? null
+  }
+
+  const upgrades: DependencyUpgrade[] = []
+  const installEcosystems = new Set<string>()
+
+  for (const dep of entries) {
+    const current = getCurrent(dep)
+    let target = selectUpgradeVersion(
+      { current, wanted: dep.wanted, latest: dep.latest },
+      maxLevel,
+    )
+    if (!target && maxLevel !== 'major') {
+      const info = await dependencyInfo(`${dep.ecosystem}:${dep.name}`, {
+        noCache: options.cache === false,
+      }).catch(() => null)
+      target = selectUpgradeVersion(
+        {
+          current,
+          wanted: dep.wanted,
+          latest: dep.latest,
+          versions: info?.versions,
+        },
+        maxLevel,
+      )
+    }
+    if (!target) {
+      skipped.push({
+        name: dep.name,
+        ecosystem: dep.ecosystem,
+        reason: `no ${maxLevel}-level update`,
+      })
+      continue
+    }
+
+    const files: string[] = []
+    const reasons: string[] = []
+    for (const version of dep.versions) {
+      const source = version.source.match(
+        /^(.+)#(dependencies|devDependencies)$/,
+      )
+      if (!source) continue
+      const specifier = upgradeSpecifier(version.specifier, target.version)
+      if (!specifier) {
+        reasons.push(`can't rewrite "${version.specifier}"`)
+        continue
+      }
+
+      for (const manifest of DEPENDENCY_MANIFESTS) {
+        if (!manifest.ecosystems.includes(dep.ecosystem)) continue
+        const path = normalize(join(source[1], manifest.file))
+        const content = await readManifest(path)
+        if (content === null) continue
+        const rewritten = manifest.rewrite(
+          content,
+          {
+            ecosystem: dep.ecosystem,
+            name: dep.name,
+            specifier: version.specifier,
+          },
+          specifier,
+        )
+        if (rewritten === null) continue
+        contents.set(path, rewritten)
+        if (!files.includes(path)) files.push(path)
+        for (const ecosystem of manifest.installEcosystems) {
+          installEcosystems.add(ecosystem)
+        }
+        break
+      }
+    }
+
+    if (files.length === 0) {
+      skipped.push({
+        name: dep.name,
+        ecosystem: dep.ecosystem,
+        reason: reasons[0] ?? 'not declared in a supported manifest',
+      })
+      continue
+    }
+    upgrades.push({
+      name: dep.name,
+      ecosystem: dep.ecosystem,
+      from: current,
+      to: target.version,
+      level: target.level,
+      isDevDependency: dep.isDevDependency,
+      files,
+    })
+  }
+
+  const changes: DependencyManifestChange[] = []
+  for (const [path, content] of contents) {
+    const original = originals.get(path) ?? ''
+    if (content === original) continue
+    changes.push({ path, diff: diffLines(original, content) })
+  }
+
+  const result: UpgradeDependenciesResult = {
+    dryRun: !!options.dryRun,
+    upgrades,
+    skipped,
+    changes,
+    installs: [],
+  }
+  if (options.dryRun || changes.length === 0) return result
+
+  for (const change of changes) {
+    await writeFile(
+      join(worktree.path, change.path),
+      contents.get(change.path) as string,
+    )
+  }
+
+  if (options.install === false) return result
+
+  // Run one install per manifest kind, using the first plugin that provides
+  // an install action (e.g. pnpm for a package.json with a pnpm lockfile).
+  const resolved = await detectActionsByEcosystem(worktree)
+  const installed = new Set<string>()
+  for (const manifest of DEPENDENCY_MANIFESTS) {
+    const ecosystem = manifest.installEcosystems.find(
+      (name) =>
+        installEcosystems.has(name) &&
+        resolved.some(
+          (action) => action.name === 'install' && action.ecosystem === name,
+        ),
+    )
+    if (!ecosystem || installed.has(ecosystem)) continue
+    installed.add(ecosystem)
+
+    const steps = planAction(resolved, 'install', {
+      ecosystem,
+      rootPath: worktree.path,
+    })
+    const { success } = await runActionCommands(steps, {
+      projectSlug: worktree.slug,
+      cwd: worktree.path,
+      onCommand: options.onCommand,
+      onOutput: options.onOutput,
+    })
+    result.installs.push({ ecosystem, success })
+  }
+
+  return result
+}
+
+export type AuditDependenciesOptions = {
+  /**
+   * OSV advisory file or directory of files.
+   * @default `~/.cache/denvig/advisories`
+   */
+  database?: string
+  /** Only report advisories at or above this severity. @default 'low' */
+  severity?: AdvisorySeverity
+}
+
+/** A resolved dependency version affected by an advisory. */
+export type DependencyAdvisory = {
+  /** Advisory ID (e.g. `GHSA-xxxx-xxxx-xxxx`). */
+  id: string
+  aliases: string[]
+  summary: string
+  /** Null when the advisory has neither a severity label nor a CVSS vector. */
+  severity: AdvisorySeverity | null
+  /** CVSS v3 base score, when the advisory has a vector. */
+  score: number | null
+  name: string
+  ecosystem: string
+  version: string
+  /** Versions that fix the advisory, lowest first. */
+  fixed: string[]
+  /** Whether the version is only installed through dev dependencies. */
+  isDevDependency: boolean
+  /** Chains from a direct dependency down to the affected version. */
+  paths: TreeNode[]
+}
+
+export type AuditDependenciesResult = {
+  /** Advisory database that was read. */
+  database: string
+  advisories: DependencyAdvisory[]
+  counts: Record<AdvisorySeverity, number>
+}
+
+/**
+ * Check every resolved dependency version against an OSV advisory database
+ * read from disk, such as an unzipped export from
+ * https://osv-vulnerabilities.storage.googleapis.com. Each finding includes
+ * the dependency paths that pull the affected version in.
+ */
+export const auditDependencies = async (
+  worktree: Worktree,
+  options: AuditDependenciesOptions = {},
+): Promise<AuditDependenciesResult> => {
+  const threshold = options.severity ?? 'low'
+  if (!ADVISORY_SEVERITIES.includes(threshold)) {
+    throw new DenvigValidationError(
+      `Invalid severity "${threshold}". Must be one of: ${ADVISORY_SEVERITIES.join(', ')}.`,
+    )
+  }
+  const database = options.database ?? getAdvisoryDatabaseDir()
+
+  const dependencies = await worktree.dependencies()
+  const keys = new Set(
+    dependencies
+      .map((dep) => advisoryKey(dep.ecosystem, dep.name))
+      .filter((key): key is string => key !== null),
+  )
+  const { advisories } = await loadAdvisories(database, keys)
+
+  const depsMap = new Map<string, ProjectDependencySchema>()
+  for (const dep of dependencies) {
+    depsMap.set(dep.name, dep)
+  }
+
+  const findings: DependencyAdvisory[] = []
+  for (const dep of dependencies) {
+    const key = advisoryKey(dep.ecosystem, dep.name)
+    const candidates = key ? advisories.get(key) : undefined
+    if (!key || !candidates) continue
+
+    const versions = [...new Set(dep.versions.map((v) => v.resolved))]
+    for (const advisory of candidates) {
+      const { severity, score } = advisorySeverity(advisory)
+      if (!severityAtLeast(severity, threshold)) continue
+      for (const version of versions) {
+        if (!advisoryAffects(advisory, key, version)) continue
+        const paths: TreeNode[] = []
+        let isDevDependency = true
+        for (const v of dep.versions.filter((v) => v.resolved === version)) {
+          const chain = buildReverseChain(dep.name, version, v.source, depsMap)
+          if (!chain) continue
+          // A version can be declared by several workspace packages at once.
+          if (paths.some((p) => JSON.stringify(p) === JSON.stringify(chain))) {
+            continue
+          }
+          paths.push(chain)
+          const root = depsMap
+            .get(chain.name)
+            ?.versions.find((rv) => rv.resolved === chain.version)
+          if (!root || !isDevDependenciesSource(root.source)) {
+            isDevDependency = false
+          }
+        }
+
+        findings.push({
+          id: advisory.id,
+          aliases: advisory.aliases ?? [],
+          summary: advisory.summary ?? advisory.details?.split('\n')[0] ?? '',
+          severity,
+          score,
+          name: dep.name,
+          ecosystem: dep.ecosystem,
+          version,
+          fixed: fixedVersions(advisory, key),
+          isDevDependency: paths.length > 0 && isDevDependency,
+          paths,
+        })
+      }
+    }
+  }
+
+  const rank = (severity: AdvisorySeverity | null) =>
+    ADVISORY_SEVERITIES.indexOf(severity ?? 'low')
+  findings.sort(
+    (a, b) =>
+      rank(b.severity) - rank(a.severity) ||
+      a.name.localeCompare(b.name) ||
+      a.id.localeCompare(b.id),
+  )
+
+  const counts = Object.fromEntries(
+    ADVISORY_SEVERITIES.map((level) => [level, 0]),
+  ) as Record<AdvisorySeverity, number>
+  for (const finding of findings) {
+    counts[finding.severity ?? 'low']++
+  }
+
+  return { database, advisories: findings, counts }
+}
@@ -1,31 +1,59 @@
 import { execSync } from 'node:child_process'
 
 import { getGlobalConfig } from '../lib/config.ts'
+import { getBuiltinGatewayProcessStatus } from '../lib/gateway/builtin.ts'
 import {
   type ConfigureGatewayResult,
   configureGateway,
 } from '../lib/gateway/configure.ts'
 import {
-  getDenvigNginxConfPath,
-  getNginxConfPath,
-} from '../lib/gateway/nginx.ts'
+  getDnsServerProcessStatus,
+  loadGatewayDomains,
+  readHostsFile,
+  syncHostsFile,
+  systemUpstream,
+  updateHostsBlock,
+} from '../lib/gateway/dns.ts'
+import {
+  CONFIG_FILE_GATEWAY_HANDLERS,
+  gatewayServiceTag,
+} from '../lib/gateway/handlers.ts'
+import {
+  followGatewayAccessLogs,
+  type GatewayAccessLogRecord,
+  parseGatewayStatusFilter,
+  readGatewayAccessLogs,
+} from '../lib/gateway/logs.ts'
+import { getNginxConfPath } from '../lib/gateway/nginx.ts'
 import { resolveGatewayServices } from '../lib/gateway/routes.ts'
+import { resolveProjectCheckouts } from '../lib/projects.ts'
 import { safeReadTextFile } from '../lib/safeReadFile.ts'
+import { createGlobalProject } from '../lib/services/global.ts'
 import {
   type ReconcileResult,
   reconcileServices,
 } from '../lib/services/reconcile.ts'
+import { stateFilePath } from '../lib/services/state.ts'
 
-/** The nginx process state as reported by `brew services`. */
-export type NginxProcessStatus = {
+/** A gateway process state, e.g. as reported by `brew services`. */
+export type GatewayProcessStatus = {
   running: boolean
   pid: number | null
   status: string | null
 }
 
-const getNginxProcessStatus = (): NginxProcessStatus => {
+/** The nginx process state as reported by `brew services`. */
+export type NginxProcessStatus = GatewayProcessStatus
+
+const STOPPED: GatewayProcessStatus = {
+  running: false,
+  pid: null,
+  status: null,
+}
+
+const getBrewServiceStatus = (formula: string): GatewayProcessStatus => {
   try {
-    const output = execSync('brew services info nginx --json', {
+    const output = execSync(`brew services info ${formula} --json`, {
       stdio: ['pipe', 'pipe', 'pipe'],
       encoding: 'utf-8',
     })
@@ -37,7 +65,7 @@ const getNginxProcessStatus = (): NginxProcessStatus => {
       status: info.status ?? null,
     }
   } catch {
-    return { running: false, pid: null, status: null }
+    return STOPPED
   }
 }
 
@@ -48,28 +76,48 @@ export type GatewayServiceStatus = {
   projectSlug: string
   domain: string
   cnames: string[]
+  /** Path prefix routed to the service; `/` for the whole domain. */
+  path: string
+  /** Whether `path` is removed before the request is forwarded. */
+  stripPrefix: boolean
   port: number
   secure: boolean
+  /**
+   * Clashes with other claims on the route's domains, e.g. another running
+   * service declaring the same domain and path.
+   */
+  conflicts: string[]
   /** Cert resolution for a secure route; `not_configured` when not secure. */
   certStatus: 'valid' | 'missing' | 'not_configured'
   /** The certificate directory backing the domain, if any. */
   certDir: string | null
   /** Explanation when `certStatus` is `missing`. */
   certMessage?: string
-  /** The nginx config path for this service. */
+  /** The generated config holding this service (named for nginx). */
   nginxConfigPath: string
+  /**
+   * Whether the handler serves the route: whether the generated config
+   * contains it, or for the builtin handler whether the gateway is running.
+   */
   nginxConfigExists: boolean
 }
 
 export type GatewayStatus = {
-  /** The gateway handler (currently always `nginx`). */
+  /** The gateway handler: `nginx`, `caddy`, `traefik` or `builtin`. */
   handler: string
+  /**
+   * The config generated for the handler; for `builtin`, the state file it
+   * reads routes from.
+   */
+  configPath: string
   /** Directory nginx server configs are written to. */
   configsPath: string
   /** Path of the generated nginx include file. */
   nginxConf: string
-  /** The nginx process state. */
+  /** The nginx process state. Only queried for the `nginx` handler. */
   nginx: NginxProcessStatus
+  /** State of the process serving the configured handler. */
+  process: GatewayProcessStatus
   /** Every running gateway service recorded in state.json. */
   services: GatewayServiceStatus[]
 }
@@ -83,39 +131,210 @@ export type GatewayStatus = {
 export const getGatewayStatus = async (): Promise<GatewayStatus> => {
   const globalConfig = await getGlobalConfig()
   const gateway = globalConfig.gateway
+  const builtin = gateway.handler === 'builtin'
+  const handler =
+    gateway.handler === 'builtin'
+      ? null
+      : CONFIG_FILE_GATEWAY_HANDLERS[gateway.handler]
 
   // Every service shares the single combined denvig config; read it once and
-  // detect a service's presence by its upstream block.
-  const nginxConfigPath = getDenvigNginxConfPath()
-  const nginxConfigContent = await safeReadTextFile(nginxConfigPath)
+  // detect a service's presence by its tag.
+  const configPath = handler ? handler.configPath() : stateFilePath()
+  const configContent = handler ? await safeReadTextFile(configPath) : null
+
+  const nginx =
+    gateway.handler === 'nginx' ? getBrewServiceStatus('nginx') : STOPPED
+  const processStatus = builtin
+    ? await getBuiltinGatewayProcessStatus()
+    : gateway.handler === 'nginx'
+      ? nginx
+      : getBrewServiceStatus(handler?.formula ?? gateway.handler)
 
   const routes = await resolveGatewayServices()
-  const services: GatewayServiceStatus[] = routes.map((route) => {
-    const upstreamName = `denvig-${route.projectId}--${route.serviceName}`
-    return {
-      name: route.serviceName,
-      projectSlug: route.projectSlug,
-      domain: route.domain,
-      cnames: route.cnames,
-      port: route.port,
-      secure: route.secure,
-      certStatus: route.certStatus,
-      certDir: route.certDir ?? null,
-      certMessage: route.certMessage,
-      nginxConfigPath,
-      nginxConfigExists: nginxConfigContent?.includes(upstreamName) ?? false,
-    }
-  })
+  const services: GatewayServiceStatus[] = routes.map((route) => ({
+    name: route.serviceName,
+    projectSlug: route.projectSlug,
+    domain: route.domain,
+    cnames: route.cnames,
+    path: route.path,
+    stripPrefix: route.stripPrefix,
+    port: route.port,
+    secure: route.secure,
+    conflicts: route.conflicts,
+    certStatus: route.certStatus,
+    certDir: route.certDir ?? null,
+    certMessage: route.certMessage,
+    nginxConfigPath: configPath,
+    nginxConfigExists: builtin
+      ? processStatus.running
+      : (configContent?.includes(
+          gatewayServiceTag(route.projectId, route.serviceName),
+        ) ?? false),
+  }))
 
   return {
     handler: gateway.handler,
+    configPath,
     configsPath: gateway.configsPath,
     nginxConf: getNginxConfPath(gateway.configsPath),
-    nginx: getNginxProcessStatus(),
+    nginx,
+    process: processStatus,
     services,
   }
 }
 
+export type GatewayDnsStatus = {
+  /** Whether `gateway.dns.enabled` starts the server automatically. */
+  enabled: boolean
+  host: string
+  port: number
+  /** Wildcard suffix answered besides the routed domains; empty for none. */
+  suffix: string
+  /**
+   * Resolver other queries are forwarded to: `gateway.dns.upstream`, or the
+   * system resolver when unset. Null when neither is available.
+   */
+  upstream: string | null
+  /** State of the `denvig gateway dns serve` process. */
+  process: GatewayProcessStatus
+  /** Routed domains the server answers for. */
+  domains: string[]
+  hostsFile: string
+  /** Whether the hosts file's denvig block lists exactly `domains`. */
+  hostsSynced: boolean
+}
+
+/**
+ * Report the DNS server's config and process state, the routed domains it
+ * answers for and whether the hosts file block is up to date.
+ */
+export const getGatewayDnsStatus = async (): Promise<GatewayDnsStatus> => {
+  const { dns } = (await getGlobalConfig()).gateway
+  const domains = await loadGatewayDomains()
+  const hosts = await readHostsFile(dns.hostsFile).catch(() => '')
+
+  return {
+    enabled: dns.enabled,
+    host: dns.host,
+    port: dns.port,
+    suffix: dns.suffix,
+    upstream:
+      dns.upstream ?? systemUpstream({ host: dns.host, port: dns.port }),
+    process: await getDnsServerProcessStatus(),
+    domains,
+    hostsFile: dns.hostsFile,
+    hostsSynced: updateHostsBlock(hosts, domains) === hosts,
+  }
+}
+
+export type SyncGatewayHostsOptions = {
+  /** Hosts file to write. Defaults to `gateway.dns.hostsFile`. */
+  file?: string
+  /** Remove the denvig block instead of writing the routed domains. */
+  remove?: boolean
+}
+
+export type SyncGatewayHostsResult = {
+  success: boolean
+  file: string
+  /** Domains written to the block; empty when it was removed. */
+  domains: string[]
+  /** Whether the file was modified. */
+  changed: boolean
+  message?: string
+}
+
+/**
+ * Write every routed domain into a denvig-managed block of the hosts file, as
+ * an alternative to running the DNS server.
+ */
+export const syncGatewayHosts = async (
+  options: SyncGatewayHostsOptions = {},
+): Promise<SyncGatewayHostsResult> => {
+  const { dns } = (await getGlobalConfig()).gateway
+  const file = options.file ?? dns.hostsFile
+  const domains = options.remove ? [] : await loadGatewayDomains()
+  const result = await syncHostsFile(file, domains)
+  return { ...result, file, domains }
+}
+
+/** A request from the gateway access logs, with its project's slug. */
+export type GatewayLogEntry = GatewayAccessLogRecord & {
+  /** Slug of the project that handled the request, or its id when unknown. */
+  project: string
+}
+
+export type GatewayLogsOptions = {
+  /** Only requests handled by this service: a name, or `slug/name`. */
+  service?: string
+  /** Comma-separated status codes (`404`) and classes (`5xx`). */
+  status?: string
+  /** How many of the most recent matching requests to return. */
+  lines?: number
+}
+
+/**
+ * Build the filter for `gateway logs`, resolving project ids to slugs.
+ * Throws a validation error for an invalid status filter.
+ */
+const createGatewayLogFilter = async (
+  options: GatewayLogsOptions,
+): Promise<(record: GatewayAccessLogRecord) => GatewayLogEntry | null> => {
+  const matchesStatus = options.status
+    ? parseGatewayStatusFilter(options.status)
+    : () => true
+  const slugs = new Map<string, string>()
+  for (const [id, checkout] of await resolveProjectCheckouts()) {
+    slugs.set(id, checkout.slug)
+  }
+  const globalProject = await createGlobalProject()
+  slugs.set(globalProject.id, globalProject.slug)
+
+  return (record) => {
+    const project = slugs.get(record.projectId) ?? record.projectId
+    if (
+      options.service &&
+      options.service !== record.serviceName &&
+      options.service !== `${project}/${record.serviceName}`
+    ) {
+      return null
+    }
+    if (!matchesStatus(record.status)) return null
+    return { ...record, project }
+  }
+}
+
+/**
+ * Read the most recent requests from the gateway access logs, oldest first,
+ * optionally narrowed to a service and status codes.
+ */
+export const getGatewayLogs = async (
+  options: GatewayLogsOptions = {},
+): Promise<GatewayLogEntry[]> => {
+  const filter = await createGatewayLogFilter(options)
+  const entries: GatewayLogEntry[] = []
+  for (const record of await readGatewayAccessLogs()) {
+    const entry = filter(record)
+    if (entry) entries.push(entry)
+  }
+  return options.lines === undefined ? entries : entries.slice(-options.lines)
+}
+
+/**
+ * Call `onEntry` for every matching request the gateway logs from now on.
+ * Resolves to a function that stops following.
+ */
+export const followGatewayLogs = async (
+  options: Omit<GatewayLogsOptions, 'lines'>,
+  onEntry: (entry: GatewayLogEntry) => void,
+): Promise<() => void> => {
+  const filter = await createGatewayLogFilter(options)
+  return followGatewayAccessLogs((record) => {
+    const entry = filter(record)
+    if (entry) onEntry(entry)
+  })
+}
+
 export type ConfigureGatewayOutput = {
   reconcile: ReconcileResult
   /** The gateway rebuild result. */
@@ -123,8 +342,8 @@ export type ConfigureGatewayOutput = {
 }
 
 /**
- * Reconcile launchctl with the recorded state, then rebuild every nginx config
- * from the runtime gateway routes. Shared by `denvig gateway configure` and
+ * Reconcile the service supervisor with the recorded state, then rebuild every
+ * nginx config from the runtime gateway routes (or start the builtin gateway). Shared by `denvig gateway configure` and
  * `sdk.gateway.configure()`.
  */
 export const configureGatewayAll =
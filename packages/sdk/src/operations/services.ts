@@ -1,16 +1,44 @@
+import { writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { parse } from 'yaml'
+
 import { DenvigOperationError, DenvigValidationError } from '../lib/errors.ts'
+import { parseDuration } from '../lib/formatters/duration.ts'
 import { DenvigProject } from '../lib/project.ts'
 import { listProjects } from '../lib/projects.ts'
-import { createGlobalProject } from '../lib/services/global.ts'
+import { pathExists, safeReadTextFile } from '../lib/safeReadFile.ts'
+import {
+  addServicesToConfigYaml,
+  COMPOSE_FILE_NAMES,
+  type ComposeTranslation,
+  translateCompose,
+} from '../lib/services/compose.ts'
+import {
+  describeServiceTarget,
+  findRunningDependents,
+  resolveServiceStartOrder,
+} from '../lib/services/dependencies.ts'
+import { createGlobalProject, isGlobalSlug } from '../lib/services/global.ts'
 import { getServiceContext } from '../lib/services/identifier.ts'
-import launchctl from '../lib/services/launchctl.ts'
+import {
+  followServiceLogFiles,
+  readServiceLogLines,
+  type ServiceLogLine,
+} from '../lib/services/logs.ts'
 import {
   ServiceManager,
+  type ServiceReadiness,
   type ServiceResponse,
 } from '../lib/services/manager.ts'
+import { projectFromStateEntry } from '../lib/services/reconcile.ts'
+import { readState } from '../lib/services/state.ts'
+import { getServiceSupervisor } from '../lib/services/supervisor.ts'
+import { startServiceWatcher } from '../lib/services/watch.ts'
 import { resolveWorktree } from '../lib/services/worktree.ts'
 
 import type { Worktree } from '../lib/project/worktree.ts'
+import type { LogRotationResult } from '../lib/services/logs.ts'
+import type { ServiceWatcher } from '../lib/services/watch.ts'
 
 export type ServiceRuntimeStatus = 'running' | 'stopped' | 'error'
 
@@ -32,6 +60,11 @@ export type ListServicesOptions = {
    * comma-separated string; invalid values throw a validation error.
    */
   status?: string | string[]
+  /**
+   * Run the healthcheck of each running service to fill in `health`. Off by
+   * default, as each probe can take up to its timeout.
+   */
+  health?: boolean
 }
 
 /** A rendered row: a service plus where it sits in the project/worktree tree. */
@@ -86,6 +119,7 @@ export const collectServiceRows = async (
   const showWorktrees =
     options.worktrees ?? (!globalOnly && worktreeFlag === null)
   const statusFilter = normalizeStatusFilter(options.status)
+  const includeHealth = !!options.health
 
   if ((all || globalOnly) && worktreeFlag !== null) {
     throw new DenvigValidationError(
@@ -115,8 +149,8 @@ export const collectServiceRows = async (
     activeWorktree = resolveWorktree(project, worktreeFlag)
   }
 
-  // Pre-fetch launchctl list once to avoid N shell calls.
-  const launchctlList = await launchctl.list('denvig.')
+  // Pre-fetch the supervisor list once to avoid N shell calls.
+  const launchctlList = await getServiceSupervisor().list('denvig.')
 
   const collectFromManager = async (
     manager: ServiceManager,
@@ -129,6 +163,7 @@ export const collectServiceRows = async (
     for (const service of services) {
       const response = await manager.getServiceResponse(service.name, {
         launchctlList,
+        includeHealth,
       })
       if (response) out.push({ service: response, depth, label })
     }
@@ -139,6 +174,7 @@ export const collectServiceRows = async (
     for (const service of await manager.listServices()) {
       const response = await manager.getServiceResponse(service.name, {
         launchctlList,
+        includeHealth,
       })
       if (response) map.set(service.name, response)
     }
@@ -276,6 +312,20 @@ export type StartServiceOptions = ServiceOperationOptions & {
    * falling back to a random port when it's already in use.
    */
   port?: number | 'random'
+  /**
+   * Wait for the service (and each dependency before the next starts) to
+   * pass its `healthcheck`, or to stay running when it has none. Throws when
+   * the service exits or is unhealthy instead of returning its status.
+   */
+  wait?: boolean
+}
+
+export type StopServiceOptions = ServiceOperationOptions & {
+  /**
+   * Also stop running services that depend on this one (via `dependsOn`),
+   * dependents first. Without it, dependents are left running.
+   */
+  withDependents?: boolean
 }
 
 /**
@@ -308,6 +358,7 @@ export const getService = async (
   )
   const response = await manager.getServiceResponse(serviceName, {
     includeLogs: options.includeLogs ?? false,
+    includeHealth: true,
   })
   if (!response) {
     throw new DenvigValidationError(
@@ -324,7 +375,8 @@ const waitForStart = () =>
 
 /**
  * Start a service and return its resulting status. Uses non-interactive port
- * resolution (config port, falling back to a random port when busy).
+ * resolution (config port, falling back to a random port when busy). Services
+ * listed in `dependsOn` are started first, in dependency order.
  */
 export const startService = async (
   project: DenvigProject,
@@ -337,6 +389,36 @@ export const startService = async (
     project: targetProject,
   } = await resolveServiceTarget(project, name, options.worktree)
 
+  const target = { manager, serviceName, project: targetProject }
+  for (const dependency of await resolveServiceStartOrder(target, project)) {
+    const result = await dependency.manager.startService(dependency.serviceName)
+    if (!result.success) {
+      throw new DenvigOperationError(
+        `Dependency "${describeServiceTarget(dependency, target)}" failed to start: ${result.message}`,
+        {
+          service: serviceName,
+          project: targetProject.slug,
+          dependency: dependency.serviceName,
+        },
+      )
+    }
+    if (options.wait && !result.alreadyRunning) {
+      const readiness = await dependency.manager.waitForService(
+        dependency.serviceName,
+      )
+      if (!readiness.ready) {
+        throw new DenvigOperationError(
+          `Dependency "${describeServiceTarget(dependency, target)}" is not ready: ${readiness.message}`,
+          {
+            service: serviceName,
+            project: targetProject.slug,
+            dependency: dependency.serviceName,
+          },
+        )
+      }
+    }
+  }
+
   const resolution = await manager.resolveServicePort(serviceName, {
     port: options.port,
   })
@@ -352,7 +434,12 @@ export const startService = async (
     })
   }
 
-  await waitForStart()
+  let readiness: ServiceReadiness | null = null
+  if (options.wait) {
+    readiness = await manager.waitForService(serviceName)
+  } else {
+    await waitForStart()
+  }
   const response = await manager.getServiceResponse(serviceName, {
     includeLogs: true,
   })
@@ -365,16 +452,24 @@ export const startService = async (
       project: targetProject.slug,
     })
   }
+  if (readiness && !readiness.ready) {
+    throw new DenvigOperationError(readiness.message, {
+      service: serviceName,
+      project: targetProject.slug,
+      health: readiness.health,
+    })
+  }
   return response
 }
 
 /**
- * Stop a service and return its resulting status.
+ * Stop a service and return its resulting status. Pass `withDependents` to stop
+ * running services that depend on it first.
  */
 export const stopService = async (
   project: DenvigProject,
   name: string,
-  options: ServiceOperationOptions = {},
+  options: StopServiceOptions = {},
 ): Promise<ServiceResponse> => {
   const {
     manager,
@@ -382,6 +477,23 @@ export const stopService = async (
     project: targetProject,
   } = await resolveServiceTarget(project, name, options.worktree)
 
+  if (options.withDependents) {
+    const target = { manager, serviceName, project: targetProject }
+    for (const dependent of await findRunningDependents(target, project)) {
+      const result = await dependent.manager.stopService(dependent.serviceName)
+      if (!result.success) {
+        throw new DenvigOperationError(
+          `Dependent "${describeServiceTarget(dependent, target)}" failed to stop: ${result.message}`,
+          {
+            service: serviceName,
+            project: targetProject.slug,
+            dependent: dependent.serviceName,
+          },
+        )
+      }
+    }
+  }
+
   const result = await manager.stopService(serviceName)
   if (!result.success) {
     throw new DenvigOperationError(result.message, {
@@ -443,3 +555,373 @@ export const restartService = async (
   }
   return response
 }
+
+export type PruneServiceLogsOptions = {
+  /** Prune the logs of every service recorded in state, across all projects. */
+  all?: boolean
+}
+
+/** What pruning did to one service's log directory. */
+export type ServiceLogsPruneResult = LogRotationResult & {
+  project: string
+  service: string
+}
+
+export type PruneServiceLogsResult = {
+  services: ServiceLogsPruneResult[]
+  /** Bytes freed across all services. */
+  reclaimedBytes: number
+}
+
+/**
+ * Apply each service's `logs` settings now: rotate oversized current logs and
+ * remove or compress older log files. Covers the checkout's services, or with
+ * `all` every service recorded in state, using the settings it was started
+ * with.
+ */
+export const pruneServiceLogs = async (
+  worktree: Worktree,
+  options: PruneServiceLogsOptions = {},
+): Promise<PruneServiceLogsResult> => {
+  const targets: {
+    manager: ServiceManager
+    project: string
+    service: string
+  }[] = []
+  if (options.all) {
+    const state = await readState()
+    for (const entry of Object.values(state.services)) {
+      const project = projectFromStateEntry(entry)
+      if (!project || !entry.serviceName) continue
+      targets.push({
+        manager: new ServiceManager(project),
+        project: project.slug,
+        service: entry.serviceName,
+      })
+    }
+  } else {
+    const manager = new ServiceManager(worktree)
+    for (const { name } of await manager.listServices()) {
+      targets.push({ manager, project: worktree.slug, service: name })
+    }
+  }
+
+  const services: ServiceLogsPruneResult[] = []
+  for (const { manager, project, service } of targets) {
+    const result = await manager.rotateLogs(service)
+    services.push({ project, service, ...result })
+  }
+  return {
+    services,
+    reclaimedBytes: services.reduce(
+      (total, service) => total + service.reclaimedBytes,
+      0,
+    ),
+  }
+}
+
+export type ServiceLogsOptions = {
+  /** Service identifiers to read, as accepted by `services.retrieve()`. */
+  services?: string[]
+  /** Read every service of the active checkout. */
+  all?: boolean
+  /** Target a sibling git worktree by branch name (use "main" for primary). */
+  worktree?: string
+  /** Only lines matching this regular expression. */
+  grep?: string
+  /** Only lines written within this duration, e.g. `10m` or `2h`. */
+  since?: string
+  /** How many of each service's most recent matching lines to return. */
+  lines?: number
+}
+
+/** A line from a service's current log. */
+export type ServiceLogEntry = ServiceLogLine & {
+  project: string
+  service: string
+}
+
+type ServiceLogTarget = {
+  project: string
+  service: string
+  logPath: string
+}
+
+/**
+ * Resolve the services and filter for `services logs`. Throws a validation
+ * error for unknown services and invalid `grep` or `since` values.
+ */
+const resolveServiceLogs = async (
+  project: DenvigProject,
+  options: ServiceLogsOptions,
+): Promise<{
+  targets: ServiceLogTarget[]
+  matches: (line: ServiceLogLine) => boolean
+}> => {
+  const names = options.services ?? []
+  if (options.all && names.length > 0) {
+    throw new DenvigValidationError(
+      'Cannot combine all with service names. Choose one.',
+    )
+  }
+  if (!options.all && names.length === 0) {
+    throw new DenvigValidationError('No service provided.')
+  }
+  if (options.worktree) {
+    project.activeWorktree = resolveWorktree(project, options.worktree)
+  }
+
+  let pattern: RegExp | null = null
+  if (options.grep !== undefined) {
+    try {
+      pattern = new RegExp(options.grep)
+    } catch {
+      throw new DenvigValidationError(`Invalid grep pattern "${options.grep}".`)
+    }
+  }
+  let cutoff: number | null = null
+  if (options.since !== undefined) {
+    const ms = parseDuration(options.since)
+    if (ms === null) {
+      throw new DenvigValidationError(
+        `Invalid since "${options.since}". Use a duration such as 30s, 10m or 2h.`,
+      )
+    }
+    cutoff = Date.now() - ms
+  }
+
+  const targets: ServiceLogTarget[] = []
+  if (options.all) {
+    const manager = new ServiceManager(project.activeWorktree)
+    for (const { name } of await manager.listServices()) {
+      targets.push({
+        project: project.activeWorktree.slug,
+        service: name,
+        logPath: manager.getLogPath(name),
+      })
+    }
+  } else {
+    for (const name of names) {
+      const target = await getServiceContext(name, project)
+      if (!target.manager.getServiceConfig(target.serviceName)) {
+        throw new DenvigValidationError(
+          `Service "${target.serviceName}" not found in configuration.`,
+        )
+      }
+      targets.push({
+        project: target.project.slug,
+        service: target.serviceName,
+        logPath: target.manager.getLogPath(target.serviceName),
+      })
+    }
+  }
+
+  const matches = (line: ServiceLogLine) =>
+    (!pattern || pattern.test(line.line)) &&
+    (cutoff === null || (line.time !== null && Date.parse(line.time) >= cutoff))
+  return { targets, matches }
+}
+
+/**
+ * Read the current logs of several services, merged into one list ordered by
+ * time (oldest first). Lines keep their file order within a service.
+ */
+export const getServiceLogs = async (
+  project: DenvigProject,
+  options: ServiceLogsOptions,
+): Promise<ServiceLogEntry[]> => {
+  const { targets, matches } = await resolveServiceLogs(project, options)
+  const entries: ServiceLogEntry[] = []
+  for (const { project: slug, service, logPath } of targets) {
+    const lines = (await readServiceLogLines(logPath)).filter(matches)
+    const recent =
+      options.lines === undefined ? lines : lines.slice(-options.lines)
+    for (const line of recent) {
+      entries.push({ project: slug, service, ...line })
+    }
+  }
+  // Lines without a time sort first; the sort is stable, so each service's
+  // lines stay in file order.
+  const timeOf = (entry: ServiceLogEntry) =>
+    entry.time === null ? Number.NEGATIVE_INFINITY : Date.parse(entry.time)
+  return entries.sort((a, b) => timeOf(a) - timeOf(b))
+}
+
+/**
+ * Call `onEntry` for every matching line the services log from now on.
+ * Resolves to a function that stops following.
+ */
+export const followServiceLogs = async (
+  project: DenvigProject,
+  options: Omit<ServiceLogsOptions, 'lines'>,
+  onEntry: (entry: ServiceLogEntry) => void,
+): Promise<() => void> => {
+  const { targets, matches } = await resolveServiceLogs(project, options)
+  return followServiceLogFiles(targets, (target, line) => {
+    if (matches(line)) {
+      onEntry({ project: target.project, service: target.service, ...line })
+    }
+  })
+}
+
+/** What the service watcher did after a service's files changed. */
+export type ServiceWatchEvent = {
+  project: string
+  service: string
+  /** Changed paths, relative to the service cwd. */
+  files: string[]
+  action: 'restart' | 'signal'
+  success: boolean
+  message: string
+}
+
+export type WatchServicesOptions = {
+  onEvent?: (event: ServiceWatchEvent) => void
+  /** Called when no running service has a `watch` block left. */
+  onIdle?: () => void
+  onLog?: (message: string) => void
+}
+
+/**
+ * Watch the files of every running service with a `watch` block, restarting
+ * the service (through `restartService`, so it picks up its current config
+ * like `denvig services restart` would) or sending it its reload signal when
+ * matching files change.
+ */
+export const watchServices = (
+  options: WatchServicesOptions = {},
+): Promise<ServiceWatcher> =>
+  startServiceWatcher({
+    onIdle: options.onIdle,
+    onLog: options.onLog,
+    onChange: async ({ entry, settings, files }) => {
+      const event = {
+        project: entry.project.slug,
+        service: entry.serviceName,
+        files,
+        action: settings.action,
+      }
+      try {
+        if (settings.action === 'signal') {
+          const snapshot = projectFromStateEntry(entry)
+          const result = snapshot
+            ? await new ServiceManager(snapshot).signalService(
+                entry.serviceName,
+                settings.signal,
+              )
+            : { success: false, message: 'Service has no config snapshot' }
+          options.onEvent?.({
+            ...event,
+            success: result.success,
+            message: result.message,
+          })
+          return
+        }
+        const project = await DenvigProject.retrieve(entry.project.path)
+        const name = isGlobalSlug(entry.project.slug)
+          ? `global:${entry.serviceName}`
+          : entry.serviceName
+        const response = await restartService(project, name)
+        options.onEvent?.({
+          ...event,
+          success: response.status === 'running',
+          message:
+            response.status === 'running'
+              ? 'Service restarted'
+              : `Service is ${response.status} after restarting`,
+        })
+      } catch (e) {
+        options.onEvent?.({
+          ...event,
+          success: false,
+          message: e instanceof Error ? e.message : String(e),
+        })
+      }
+    },
+  })
+
+export type ImportComposeOptions = {
+  /**
+   * Compose file to import, relative to the worktree. Defaults to the first
+   * of `compose.yaml`, `compose.yml`, `docker-compose.yaml` and
+   * `docker-compose.yml` that exists.
+   */
+  file?: string
+  /** Translate without writing `.denvig.yml`. */
+  dryRun?: boolean
+  /** Replace services that are already configured instead of skipping them. */
+  overwrite?: boolean
+}
+
+export type ImportComposeResult = ComposeTranslation & {
+  /** Absolute path of the compose file that was read. */
+  composePath: string
+  /** Absolute path of the `.denvig.yml` that was (or would be) written. */
+  configPath: string
+  /** Services written to the config. */
+  added: string[]
+  /** Services left alone because they were already configured. */
+  skipped: string[]
+  /** The resulting `.denvig.yml` contents. */
+  content: string
+}
+
+/**
+ * Import the services of a docker compose file into a worktree's
+ * `.denvig.yml` as `runtime: docker` services. Compose keys without a denvig
+ * equivalent are returned in `unsupported` rather than dropped silently.
+ *
+ * Throws {@link DenvigValidationError} when no compose file is found or it
+ * can't be parsed.
+ */
+export const importComposeServices = async (
+  worktree: Worktree,
+  options: ImportComposeOptions = {},
+): Promise<ImportComposeResult> => {
+  let composePath: string | undefined
+  if (options.file) {
+    composePath = resolve(worktree.path, options.file)
+    if (!(await pathExists(composePath))) {
+      throw new DenvigValidationError(`Compose file not found: ${options.file}`)
+    }
+  } else {
+    for (const name of COMPOSE_FILE_NAMES) {
+      const candidate = resolve(worktree.path, name)
+      if (await pathExists(candidate)) {
+        composePath = candidate
+        break
+      }
+    }
+    if (!composePath) {
+      throw new DenvigValidationError(
+        `No compose file found (looked for ${COMPOSE_FILE_NAMES.join(', ')})`,
+      )
+    }
+  }
+
+  let compose: unknown
+  try {
+    compose = parse((await safeReadTextFile(composePath)) ?? '')
+  } catch (e) {
+    throw new DenvigValidationError(
+      `Failed to parse ${composePath}: ${e instanceof Error ? e.message : String(e)}`,
+    )
+  }
+
+  const translation = translateCompose(compose, {
+    composeDir: dirname(composePath),
+    projectDir: worktree.path,
+  })
+
+  const configPath = resolve(worktree.path, '.denvig.yml')
+  const { content, added, skipped } = addServicesToConfigYaml(
+    (await safeReadTextFile(configPath)) ?? '',
+    translation.services,
+    { overwrite: options.overwrite },
+  )
+  if (!options.dryRun && added.length > 0) {
+    await writeFile(configPath, content)
+  }
+
+  return { ...translation, composePath, configPath, added, skipped, content }
+}
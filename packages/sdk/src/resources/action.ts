@@ -1,27 +1,37 @@
 import { runActionCommands } from '../lib/actions/run.ts'
 import { track } from './context.ts'
 
+import type { ActionStep } from '../lib/actions/types.ts'
 import type { Worktree } from '../lib/project/worktree.ts'
 import type { ResourceContext } from './context.ts'
 
+export type ActionRunOptions = {
+  /** Extra arguments appended to the action's own commands. */
+  args?: string[]
+  /** Run actions with `inputs` even when nothing changed since a cached run. */
+  force?: boolean
+  /** Print why each action with `inputs` missed the cache. */
+  explain?: boolean
+}
+
 /**
  * A runnable action resolved for a worktree. `run()` streams the underlying
  * command(s) to the parent process, TTY-aware, exactly as the CLI does.
  */
 export class DenvigAction {
   private readonly _name: string
-  private readonly _commands: string[]
+  private readonly _steps: ActionStep[]
   private readonly worktree: Worktree
   private readonly ctx: ResourceContext
 
   constructor(
     name: string,
-    commands: string[],
+    steps: ActionStep[],
     worktree: Worktree,
     ctx: ResourceContext,
   ) {
     this._name = name
-    this._commands = commands
+    this._steps = steps
     this.worktree = worktree
     this.ctx = ctx
   }
@@ -30,16 +40,34 @@ export class DenvigAction {
     return this._name
   }
 
-  /** The resolved shell command(s) this action runs, in order. */
+  /**
+   * The resolved shell command(s) this action runs, in order, including
+   * those of the actions it depends on or references.
+   */
   get commands(): string[] {
-    return this._commands
+    return this._steps.map((step) => step.command)
+  }
+
+  /**
+   * Whether this action, or an action it depends on or references, declares
+   * `inputs` and so may be skipped by the run cache.
+   */
+  get cached(): boolean {
+    return this._steps.some((step) => step.cache !== undefined)
   }
 
-  /** Run the action's commands, streaming output to the parent process. */
-  async run(options?: { args?: string[] }): Promise<{ success: boolean }> {
+  /**
+   * Run the action's commands, streaming output to the parent process. The
+   * first failing command stops the run unless its action sets
+   * `continueOnError`. Actions with `inputs` are skipped (restoring their
+   * `outputs`) when nothing changed since their last successful run.
+   */
+  async run(options?: ActionRunOptions): Promise<{ success: boolean }> {
     return track(this.ctx, 'actions.run', this.worktree.slug, () =>
-      runActionCommands(this._commands, {
+      runActionCommands(this._steps, {
         args: options?.args,
+        force: options?.force,
+        explain: options?.explain,
         projectSlug: this.worktree.slug,
         cwd: this.worktree.path,
       }),
@@ -1,30 +1,55 @@
+import { planAction } from '../lib/actions/plan.ts'
 import {
   detectActionsByEcosystem,
   resolveAction,
 } from '../lib/actions/resolve.ts'
+import {
+  type RunWorkspaceActionOptions,
+  runWorkspaceAction,
+  type WorkspaceRunResult,
+} from '../lib/actions/workspaces.ts'
 import {
   buildDependencyTree,
   type TreeDependencyEntry,
 } from '../lib/deps/tree.ts'
 import { DenvigValidationError } from '../lib/errors.ts'
+import {
+  discoverWorkspace,
+  type WorkspacePackage,
+} from '../lib/project/workspaces.ts'
 import { getProjectInfo } from '../lib/projectInfo.ts'
 import {
   constructDenvigResourceId,
   generateDenvigResourceHash,
 } from '../lib/resources.ts'
+import {
+  findRunningDependents,
+  resolveServiceStartOrder,
+} from '../lib/services/dependencies.ts'
 import { getServiceContext } from '../lib/services/identifier.ts'
 import { resolveWorktree } from '../lib/services/worktree.ts'
 import { teardownProject } from '../lib/teardown.ts'
 import {
+  type AuditDependenciesResult,
+  auditDependencies,
   type DependencyInfo,
   type DependencyInfoOptions,
   dependencyInfo,
   listDependencies,
   outdatedDependencies,
   type SemverLevel,
+  type UpgradeDependenciesOptions,
+  type UpgradeDependenciesResult,
+  upgradeDependencies,
 } from '../operations/deps.ts'
 import { listPlugins, type PluginInfo } from '../operations/plugins.ts'
-import { collectServiceRows } from '../operations/services.ts'
+import {
+  collectServiceRows,
+  followServiceLogs,
+  getServiceLogs,
+  importComposeServices,
+  pruneServiceLogs,
+} from '../operations/services.ts'
 import { DenvigAction } from './action.ts'
 import { track } from './context.ts'
 import { DenvigService } from './service.ts'
@@ -35,6 +60,7 @@ import type {
   OutdatedDependencySchema,
   ProjectDependencySchema,
 } from '../lib/dependencies.ts'
+import type { AdvisorySeverity } from '../lib/deps/audit.ts'
 import type { Worktree as InternalWorktree } from '../lib/project/worktree.ts'
 import type { DenvigProject as InternalProject } from '../lib/project.ts'
 import type { GetProjectInfoOptions, ProjectInfo } from '../lib/projectInfo.ts'
@@ -43,7 +69,16 @@ import type {
   ServiceManagerProject,
 } from '../lib/services/manager.ts'
 import type { ProjectTeardownResult } from '../lib/teardown.ts'
-import type { ListServicesOptions, ServiceRow } from '../operations/services.ts'
+import type {
+  ImportComposeOptions,
+  ImportComposeResult,
+  ListServicesOptions,
+  PruneServiceLogsOptions,
+  PruneServiceLogsResult,
+  ServiceLogEntry,
+  ServiceLogsOptions,
+  ServiceRow,
+} from '../operations/services.ts'
 import type { ProjectConfigSchema } from '../schemas/config.ts'
 import type { ResourceContext } from './context.ts'
 
@@ -79,6 +114,25 @@ export type DependenciesOutdatedOptions = {
   noCache?: boolean
 }
 
+export type DependenciesUpgradeOptions = Omit<
+  UpgradeDependenciesOptions,
+  'cache'
+> & {
+  /** Upgrade dependencies in a sibling worktree by branch name. */
+  worktree?: string
+  /** Skip cache and fetch fresh data from the registry. */
+  noCache?: boolean
+}
+
+export type DependenciesAuditOptions = {
+  /** OSV advisory file or directory (defaults to `~/.cache/denvig/advisories`). */
+  database?: string
+  /** Only report advisories at or above this severity. */
+  severity?: AdvisorySeverity
+  /** Audit a sibling worktree by branch name. */
+  worktree?: string
+}
+
 export type ResourceIdentifierOptions = {
   /** Workspace within the project (defaults to `root`). */
   workspace?: string
@@ -202,10 +256,38 @@ export class DenvigProject {
       const worktree = this.worktreeFor(options?.worktree)
       const resolved = await detectActionsByEcosystem(worktree)
       const action = resolveAction(resolved, name, options?.ecosystem)
-      return new DenvigAction(action.name, action.commands, worktree, this.ctx)
+      const steps = planAction(resolved, name, {
+        ecosystem: options?.ecosystem,
+        rootPath: worktree.path,
+      })
+      return new DenvigAction(action.name, steps, worktree, this.ctx)
     },
   }
 
+  workspaces = {
+    /**
+     * List the packages of the active checkout's pnpm, yarn or npm workspace.
+     * Returns an empty list when it isn't a workspace root.
+     */
+    list: async (): Promise<WorkspacePackage[]> =>
+      (await discoverWorkspace(this.internal.activeWorktree.path))?.packages ??
+      [],
+    /**
+     * Run an action (package script) in every workspace package that
+     * defines it, in dependency order, with prefixed output.
+     */
+    run: (
+      action: string,
+      options?: Omit<RunWorkspaceActionOptions, 'projectSlug'>,
+    ): Promise<WorkspaceRunResult[]> =>
+      track(this.ctx, 'workspaces.run', this.internal.slug, () =>
+        runWorkspaceAction(this.internal.activeWorktree.path, action, {
+          ...options,
+          projectSlug: this.internal.activeWorktree.slug,
+        }),
+      ),
+  }
+
   services = {
     retrieve: async (
       name: string,
@@ -232,6 +314,82 @@ export class DenvigProject {
       )
       return { manager, serviceName, target: project }
     },
+    /**
+     * Resolve the services a resolved service depends on (via `dependsOn`),
+     * transitively and in the order they should be started. The service
+     * itself is not included. Throws a validation error on a dependency cycle.
+     */
+    dependencies: async (
+      context: DenvigServiceContext,
+    ): Promise<DenvigServiceContext[]> => {
+      const order = await resolveServiceStartOrder(
+        { ...context, project: context.target },
+        this.internal,
+      )
+      return order.map(({ manager, serviceName, project }) => ({
+        manager,
+        serviceName,
+        target: project,
+      }))
+    },
+    /**
+     * Find running services that depend on a resolved service, in the order
+     * they should be stopped (dependents of dependents first).
+     */
+    dependents: async (
+      context: DenvigServiceContext,
+    ): Promise<DenvigServiceContext[]> => {
+      const dependents = await findRunningDependents(
+        { ...context, project: context.target },
+        this.internal,
+      )
+      return dependents.map(({ manager, serviceName, project }) => ({
+        manager,
+        serviceName,
+        target: project,
+      }))
+    },
+    /**
+     * Read the current logs of several services (`services` names, or `all`
+     * for every service of the active checkout), merged and ordered by time.
+     * Throws a validation error for unknown services or invalid filters.
+     */
+    logs: (options: ServiceLogsOptions): Promise<ServiceLogEntry[]> =>
+      track(this.ctx, 'services.logs', this.internal.slug, () =>
+        getServiceLogs(this.internal, options),
+      ),
+    /**
+     * Call `onEntry` for every matching line the services log from now on.
+     * Resolves to a function that stops following.
+     */
+    followLogs: (
+      options: Omit<ServiceLogsOptions, 'lines'>,
+      onEntry: (entry: ServiceLogEntry) => void,
+    ): Promise<() => void> =>
+      track(this.ctx, 'services.followLogs', this.internal.slug, () =>
+        followServiceLogs(this.internal, options, onEntry),
+      ),
+    /**
+     * Rotate and prune the active checkout's service logs per their `logs`
+     * settings, or with `all` the logs of every service recorded in state.
+     */
+    pruneLogs: (
+      options?: PruneServiceLogsOptions,
+    ): Promise<PruneServiceLogsResult> =>
+      track(this.ctx, 'services.pruneLogs', this.internal.slug, () =>
+        pruneServiceLogs(this.internal.activeWorktree, options),
+      ),
+    /**
+     * Import a docker compose file's services into the active checkout's
+     * `.denvig.yml` as `runtime: docker` services. Unsupported compose keys
+     * are reported in the result instead of being dropped.
+     */
+    importCompose: (
+      options?: ImportComposeOptions,
+    ): Promise<ImportComposeResult> =>
+      track(this.ctx, 'services.importCompose', this.internal.slug, () =>
+        importComposeServices(this.internal.activeWorktree, options),
+      ),
   }
 
   dependencies = {
@@ -280,6 +438,35 @@ export class DenvigProject {
         }),
       )
     },
+    /**
+     * Rewrite the version ranges of outdated dependencies in their manifests
+     * and run the ecosystem's install action. Pass `dryRun` to preview.
+     */
+    upgrade: (
+      options?: DependenciesUpgradeOptions,
+    ): Promise<UpgradeDependenciesResult> => {
+      const { worktree: branch, noCache, ...upgradeOptions } = options ?? {}
+      const worktree = this.worktreeFor(branch)
+      return track(this.ctx, 'dependencies.upgrade', this.internal.slug, () =>
+        upgradeDependencies(worktree, {
+          ...upgradeOptions,
+          cache: noCache ? false : undefined,
+        }),
+      )
+    },
+    /**
+     * Check resolved dependency versions against a local OSV advisory
+     * database, with the dependency paths leading to each affected version.
+     */
+    audit: (
+      options?: DependenciesAuditOptions,
+    ): Promise<AuditDependenciesResult> => {
+      const { worktree: branch, ...auditOptions } = options ?? {}
+      const worktree = this.worktreeFor(branch)
+      return track(this.ctx, 'dependencies.audit', this.internal.slug, () =>
+        auditDependencies(worktree, auditOptions),
+      )
+    },
   }
 
   config = {
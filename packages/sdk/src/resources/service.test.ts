@@ -8,6 +8,10 @@ import launchctl from '../lib/services/launchctl.ts'
 import { getGatewayRoute, setGatewayRoute } from '../lib/services/state.ts'
 import { createMockProject } from '../test/mock.ts'
 
+// These tests drive the launchd backend through mocked launchctl calls, so pin
+// it regardless of the platform running the suite.
+process.env.DENVIG_SERVICE_SUPERVISOR = 'launchd'
+
 describe('DenvigService', () => {
   let originalHome: string | undefined
   let tmpHome = ''
@@ -25,6 +25,20 @@ export type ServiceStartOptions = {
    * falling back to a random port when it's already in use.
    */
   port?: number | 'random'
+  /**
+   * Wait for the service (and each dependency before the next starts) to
+   * pass its `healthcheck`, or to stay running when it has none. Throws when
+   * the service exits or is unhealthy instead of returning its status.
+   */
+  wait?: boolean
+}
+
+export type ServiceStopOptions = {
+  /**
+   * Also stop running services that depend on this one (via `dependsOn`),
+   * dependents first. Without it, dependents are left running.
+   */
+  withDependents?: boolean
 }
 
 /**
@@ -54,22 +68,27 @@ export class DenvigService {
     return this.serviceName
   }
 
-  /** Start the service and return its resulting status. */
+  /**
+   * Start the service and return its resulting status. Services it depends on
+   * (via `dependsOn`) are started first.
+   */
   async start(options: ServiceStartOptions = {}): Promise<ServiceResponse> {
     return track(this.ctx, 'services.start', this.project.slug, () =>
       startService(this.project, this.serviceName, {
         worktree: this.worktreeName,
         domains: options.domains,
         port: options.port,
+        wait: options.wait,
       }),
     )
   }
 
   /** Stop the service and return its resulting status. */
-  async stop(): Promise<ServiceResponse> {
+  async stop(options: ServiceStopOptions = {}): Promise<ServiceResponse> {
     return track(this.ctx, 'services.stop', this.project.slug, () =>
       stopService(this.project, this.serviceName, {
         worktree: this.worktreeName,
+        withDependents: options.withDependents,
       }),
     )
   }
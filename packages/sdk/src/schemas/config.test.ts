@@ -125,6 +125,45 @@ describe('ProjectConfigSchema', () => {
     const result = ProjectConfigSchema.safeParse(configWithoutName)
     ok(result.success)
   })
+
+  it('should parse an action pipeline', () => {
+    const result = ProjectConfigSchema.safeParse({
+      actions: {
+        ci: {
+          dependsOn: ['install'],
+          steps: ['pnpm lint', { action: 'test' }],
+          cwd: 'apps/web',
+          env: { CI: 'true' },
+          envFiles: ['.env.test'],
+          continueOnError: true,
+        },
+        install: { command: 'pnpm install' },
+        test: { command: 'pnpm test' },
+      },
+    })
+    ok(result.success)
+  })
+
+  it('should parse an action with only dependencies', () => {
+    const result = ProjectConfigSchema.safeParse({
+      actions: { check: { dependsOn: ['lint', 'test'] } },
+    })
+    ok(result.success)
+  })
+
+  it('should reject an action with both command and steps', () => {
+    const result = ProjectConfigSchema.safeParse({
+      actions: { build: { command: 'tsc', steps: ['vite build'] } },
+    })
+    ok(!result.success)
+  })
+
+  it('should reject an action with nothing to run', () => {
+    const result = ProjectConfigSchema.safeParse({
+      actions: { build: { cwd: 'apps/web' } },
+    })
+    ok(!result.success)
+  })
 })
 
 describe('ProjectConfigSchema - services', () => {
@@ -327,6 +366,38 @@ describe('ProjectConfigSchema - services', () => {
     ok(!result.success)
   })
 
+  it('should parse a service healthcheck', () => {
+    const config = {
+      services: {
+        api: {
+          command: 'pnpm dev',
+          http: { port: 3000 },
+          healthcheck: { http: '/health', interval: 1, retries: 5 },
+        },
+      },
+    }
+
+    const result = ProjectConfigSchema.safeParse(config)
+    ok(result.success)
+  })
+
+  it('should reject a healthcheck without exactly one probe', () => {
+    const none = ProjectConfigSchema.safeParse({
+      services: { api: { command: 'pnpm dev', healthcheck: { interval: 1 } } },
+    })
+    ok(!none.success)
+
+    const both = ProjectConfigSchema.safeParse({
+      services: {
+        api: {
+          command: 'pnpm dev',
+          healthcheck: { tcp: true, command: 'true' },
+        },
+      },
+    })
+    ok(!both.success)
+  })
+
   it('should reject an unknown runtime', () => {
     const config = {
       name: 'my-project',
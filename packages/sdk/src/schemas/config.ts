@@ -24,6 +24,103 @@ export const ServiceNameSchema = z
     'Service name must start with a letter, contain only lowercase alphanumeric and hyphens, and not end with a hyphen',
   )
 
+const LOG_SIZE_PATTERN = /^\d+(\.\d+)?\s*(b|k|kb|m|mb|g|gb)?$/i
+const LOG_AGE_PATTERN = /^\d+(s|m|h|d|w)$/
+
+/**
+ * Log rotation and retention settings. Services inherit the global `logs`
+ * settings and may override any of them.
+ */
+export const LogsConfigSchema = z.object({
+  maxSize: z
+    .string()
+    .regex(LOG_SIZE_PATTERN, 'maxSize must be a size such as 512K or 10MB')
+    .optional()
+    .describe(
+      'Rotate the current log file once it grows past this size, e.g. 10MB',
+    ),
+  maxFiles: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Log files to keep, including the current one'),
+  maxAge: z
+    .string()
+    .regex(LOG_AGE_PATTERN, 'maxAge must be a duration such as 7d or 2w')
+    .optional()
+    .describe(
+      'Remove rotated and previous log files older than this, e.g. 14d',
+    ),
+  compress: z
+    .boolean()
+    .optional()
+    .describe('Gzip rotated and previous log files'),
+})
+
+/**
+ * File watching for services without their own reload. Matching changes under
+ * the service `cwd` restart the service, or send it a signal.
+ */
+export const WatchConfigSchema = z.object({
+  include: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Globs of files to watch, relative to the service cwd (defaults to every file)',
+    ),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Globs of files to ignore, relative to the service cwd. node_modules and .git are always ignored',
+    ),
+  debounce: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe(
+      'Milliseconds to wait for changes to settle before acting (defaults to 300)',
+    ),
+  action: z
+    .enum(['restart', 'signal'])
+    .optional()
+    .describe(
+      'Restart the service (default), or send it `signal` so it reloads itself',
+    ),
+  signal: z
+    .string()
+    .regex(/^SIG[A-Z0-9]+$/, 'signal must be a signal name such as SIGHUP')
+    .optional()
+    .describe('Signal sent when action is signal (defaults to SIGHUP)'),
+})
+
+/**
+ * Commands run around a service's start and stop, in the service cwd with
+ * the service environment.
+ */
+export const HooksConfigSchema = z.object({
+  preStart: z
+    .string()
+    .optional()
+    .describe(
+      'Command run before the service starts; the start is aborted when it fails',
+    ),
+  postStart: z
+    .string()
+    .optional()
+    .describe('Command run after the service has been launched'),
+  preStop: z
+    .string()
+    .optional()
+    .describe('Command run before the service is stopped'),
+  postStop: z
+    .string()
+    .optional()
+    .describe('Command run after the service has stopped'),
+})
+
 /**
  * Schema for a single service configuration entry.
  */
@@ -90,6 +187,23 @@ export const ServiceConfigSchema = z
           .optional()
           .describe('Additional hosts that can be used via gateway'),
         secure: z.boolean().optional().describe('Use HTTPS instead of HTTP'),
+        paths: z
+          .array(
+            z.object({
+              prefix: z
+                .string()
+                .regex(/^\//, 'Path prefixes must start with "/"')
+                .describe('Path prefix routed to this service, e.g. /api'),
+              stripPrefix: z
+                .boolean()
+                .optional()
+                .describe('Remove the prefix before forwarding the request'),
+            }),
+          )
+          .optional()
+          .describe(
+            'Only route these path prefixes of the domains to this service, so several services can share a domain',
+          ),
       })
       .optional()
       .describe('HTTP configuration for the service URL'),
@@ -106,6 +220,80 @@ export const ServiceConfigSchema = z
       .boolean()
       .optional()
       .describe('Start service automatically when system boots'),
+    healthcheck: z
+      .object({
+        http: z
+          .string()
+          .optional()
+          .describe(
+            'HTTP path (e.g. /health) requested on the service port, or a full URL; healthy on a 2xx or 3xx response',
+          ),
+        tcp: z
+          .union([z.literal(true), z.number().int().positive()])
+          .optional()
+          .describe(
+            'Port that must accept TCP connections, or true for the service port',
+          ),
+        command: z
+          .string()
+          .optional()
+          .describe(
+            'Shell command run in the service cwd with its environment; healthy when it exits 0',
+          ),
+        interval: z
+          .number()
+          .positive()
+          .optional()
+          .describe('Seconds between checks (default 2)'),
+        timeout: z
+          .number()
+          .positive()
+          .optional()
+          .describe('Seconds before a single check fails (default 5)'),
+        retries: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            'Failed checks after the start period before the service is unhealthy (default 3)',
+          ),
+        startPeriod: z
+          .number()
+          .nonnegative()
+          .optional()
+          .describe(
+            'Seconds to allow the service to boot before failed checks count (default 0)',
+          ),
+      })
+      .superRefine((check, ctx) => {
+        const probes = [check.http, check.tcp, check.command].filter(
+          (probe) => probe !== undefined,
+        )
+        if (probes.length !== 1) {
+          ctx.addIssue({
+            code: 'custom',
+            message: 'healthcheck requires exactly one of http, tcp or command',
+          })
+        }
+      })
+      .optional()
+      .describe('Readiness check used to report service health'),
+    dependsOn: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Services to start before this one: a service name in the same project, or a cross-project identifier (e.g. global:redis, github:owner/repo/service)',
+      ),
+    logs: LogsConfigSchema.optional().describe(
+      'Log rotation and retention for this service, overriding the global logs settings',
+    ),
+    watch: WatchConfigSchema.optional().describe(
+      'Restart or signal the service when files under its cwd change',
+    ),
+    hooks: HooksConfigSchema.optional().describe(
+      'Commands run before and after the service starts and stops',
+    ),
   })
   .superRefine((config, ctx) => {
     // Host services run an explicit command. Docker services may omit it and
@@ -128,6 +316,96 @@ export const ServicesConfigSchema = z
   .optional()
   .describe('Services that can be managed')
 
+/**
+ * Schema for a single project action. An action runs either one `command` or
+ * a list of `steps`, after any actions it `dependsOn`.
+ */
+export const ActionConfigSchema = z
+  .object({
+    command: z
+      .string()
+      .optional()
+      .describe('Shell command to run for the action'),
+    steps: z
+      .array(
+        z.union([
+          z.string().describe('Shell command to run'),
+          z.object({
+            action: z
+              .string()
+              .describe('Name of another action to run at this point'),
+          }),
+        ]),
+      )
+      .optional()
+      .describe(
+        'Commands, or references to other actions, run in order instead of a single command',
+      ),
+    dependsOn: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Actions to run before this one; each runs once even when several actions depend on it',
+      ),
+    cwd: z
+      .string()
+      .optional()
+      .describe('Working directory for the action (relative to project root)'),
+    env: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Environment variables'),
+    envFiles: z
+      .array(z.string())
+      .optional()
+      .describe('Paths to .env files (relative to the action cwd)'),
+    continueOnError: z
+      .boolean()
+      .optional()
+      .describe(
+        'Keep running the remaining commands after one fails (the action still reports the failure)',
+      ),
+    inputs: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Globs (relative to the action cwd) of files the action reads; the action is skipped when they, its commands and its env are unchanged since a successful run',
+      ),
+    outputs: z
+      .array(z.string())
+      .optional()
+      .describe(
+        'Globs (relative to the action cwd) of files the action produces; stored with each cached run and restored when the action is skipped',
+      ),
+  })
+  .superRefine((config, ctx) => {
+    if (config.command !== undefined && config.steps !== undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['steps'],
+        message: 'An action can have a command or steps, not both',
+      })
+    }
+    if (
+      config.command === undefined &&
+      config.steps === undefined &&
+      !config.dependsOn?.length
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['command'],
+        message: 'An action needs a command, steps or dependsOn',
+      })
+    }
+    if (config.outputs !== undefined && config.inputs === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['outputs'],
+        message: 'outputs are only cached for actions with inputs',
+      })
+    }
+  })
+
 /**
  * Global configuration for the system.
  *
@@ -149,10 +427,145 @@ export const GlobalConfigSchema = z.object({
   ),
   gateway: z
     .object({
-      handler: z.enum(['nginx']).default('nginx'),
-      configsPath: z.string().default(`/opt/homebrew/etc/nginx/servers`),
+      handler: z
+        .enum(['nginx', 'caddy', 'traefik', 'builtin'])
+        .default('nginx')
+        .describe(
+          'Proxy that serves gateway routes: nginx, Caddy or Traefik from a generated config, or a denvig-managed Node.js proxy',
+        ),
+      configsPath: z
+        .string()
+        .default(`/opt/homebrew/etc/nginx/servers`)
+        .describe('Directory nginx server configs are included from'),
+      caddyfile: z
+        .string()
+        .default('/opt/homebrew/etc/Caddyfile')
+        .describe(
+          'Main Caddyfile that imports ~/.denvig/Caddyfile, reloaded by the caddy handler',
+        ),
+      httpPort: z
+        .number()
+        .int()
+        .positive()
+        .default(80)
+        .describe('Port the builtin handler listens on for HTTP'),
+      httpsPort: z
+        .number()
+        .int()
+        .positive()
+        .default(443)
+        .describe('Port the builtin handler listens on for HTTPS'),
+      dns: z
+        .object({
+          enabled: z
+            .boolean()
+            .default(false)
+            .describe(
+              'Run the denvig DNS server, started by gateway configure and service starts',
+            ),
+          host: z
+            .string()
+            .default('127.0.0.1')
+            .describe('Address the DNS server listens on'),
+          port: z
+            .number()
+            .int()
+            .positive()
+            .default(15353)
+            .describe('Port the DNS server listens on for UDP and TCP'),
+          suffix: z
+            .string()
+            .default('localhost')
+            .describe(
+              'Answer for this domain and all its subdomains besides the routed domains; empty to only answer for routed domains',
+            ),
+          upstream: z
+            .string()
+            .optional()
+            .describe(
+              'Resolver other queries are forwarded to, as host or host:port; defaults to the system resolver',
+            ),
+          hostsFile: z
+            .string()
+            .default('/etc/hosts')
+            .describe('Hosts file synced by denvig gateway dns hosts'),
+        })
+        .prefault({})
+        .describe('Local DNS server answering for gateway domains'),
     })
     .prefault({}),
+  certs: z
+    .object({
+      acme: z
+        .object({
+          host: z
+            .string()
+            .default('127.0.0.1')
+            .describe('Address the ACME server listens on'),
+          port: z
+            .number()
+            .int()
+            .positive()
+            .default(14000)
+            .describe('Port the ACME server listens on for HTTPS'),
+          domains: z
+            .array(z.string())
+            .default(['localhost', '*.localhost'])
+            .describe(
+              'Names the ACME server issues certificates for besides the routed gateway domains; *.suffix matches every subdomain',
+            ),
+        })
+        .prefault({})
+        .describe(
+          'Local ACME server issuing certificates signed by the denvig CA',
+        ),
+      revocation: z
+        .object({
+          url: z
+            .string()
+            .nullable()
+            .default(null)
+            .describe(
+              'Builtin gateway URL (e.g. http://localhost) serving the CRL and OCSP responder under /.denvig/ca; listed in newly issued certificates when set',
+            ),
+          ocsp: z
+            .boolean()
+            .default(false)
+            .describe(
+              'List the OCSP responder in newly issued certificates besides the CRL',
+            ),
+        })
+        .prefault({})
+        .describe('Where clients check whether a certificate was revoked'),
+    })
+    .prefault({}),
+  logs: z
+    .object({
+      maxSize: z
+        .string()
+        .regex(LOG_SIZE_PATTERN, 'maxSize must be a size such as 512K or 10MB')
+        .default('50MB')
+        .describe('Rotate the current log file once it grows past this size'),
+      maxFiles: z
+        .number()
+        .int()
+        .positive()
+        .default(10)
+        .describe('Log files to keep, including the current one'),
+      maxAge: z
+        .string()
+        .regex(LOG_AGE_PATTERN, 'maxAge must be a duration such as 7d or 2w')
+        .optional()
+        .describe(
+          'Remove rotated and previous log files older than this, e.g. 14d',
+        ),
+      compress: z
+        .boolean()
+        .default(false)
+        .describe('Gzip rotated and previous log files'),
+    })
+    .prefault({})
+    .describe('Log rotation and retention for all services'),
 })
 
 export type GlobalConfigSchema = z.infer<typeof GlobalConfigSchema>
@@ -172,12 +585,7 @@ export type GlobalConfigSchema = z.infer<typeof GlobalConfigSchema>
 export const ProjectConfigSchema = z.object({
   name: z.string().optional().describe('Display name for the project'),
   actions: z
-    .record(
-      z.string().describe('Name of the action'),
-      z.object({
-        command: z.string().describe('Shell command to run for the action'),
-      }),
-    )
+    .record(z.string().describe('Name of the action'), ActionConfigSchema)
     .optional()
     .describe('Actions that can be run against the project'),
   quickActions: z
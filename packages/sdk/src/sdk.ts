@@ -1,3 +1,4 @@
+import { runActionInProjects } from './lib/actions/projects.ts'
 import { getGlobalConfig } from './lib/config.ts'
 import { resolveProjectContext } from './lib/context.ts'
 import { DenvigValidationError } from './lib/errors.ts'
@@ -12,12 +13,25 @@ import {
   listCertificates,
   removeCa,
   removeCertificate,
+  renewCertificates,
   retrieveCertificate,
+  revokeCertificate,
 } from './operations/certs.ts'
-import { configureGatewayAll, getGatewayStatus } from './operations/gateway.ts'
+import {
+  configureGatewayAll,
+  followGatewayLogs,
+  getGatewayDnsStatus,
+  getGatewayLogs,
+  getGatewayStatus,
+  syncGatewayHosts,
+} from './operations/gateway.ts'
 import { track } from './resources/context.ts'
 import { DenvigProject } from './resources/project.ts'
 
+import type {
+  ProjectRunResult,
+  RunProjectsActionOptions,
+} from './lib/actions/projects.ts'
 import type { ListProjectsOptions } from './lib/projects.ts'
 import type {
   CaStatus,
@@ -30,11 +44,20 @@ import type {
   ImportCertificateOptions,
   ImportCertificateResult,
   ListCertificatesOptions,
+  RemoveCaResult,
   RemoveCertificateResult,
+  RenewCertificatesOptions,
+  RenewCertificatesResult,
+  RevokeCertificateResult,
 } from './operations/certs.ts'
 import type {
   ConfigureGatewayOutput,
+  GatewayDnsStatus,
+  GatewayLogEntry,
+  GatewayLogsOptions,
   GatewayStatus,
+  SyncGatewayHostsOptions,
+  SyncGatewayHostsResult,
 } from './operations/gateway.ts'
 import type { DenvigConfig } from './resources/config.ts'
 import type { ResourceContext } from './resources/context.ts'
@@ -97,6 +120,25 @@ export class DenvigSDK {
     this.ctx = { client: options.client, cwd: options.cwd ?? process.cwd() }
   }
 
+  /**
+   * Discover project families under the configured project paths, each rooted
+   * at its primary checkout and sorted by path.
+   */
+  private async discoverProjects(
+    options?: ListProjectsOptions,
+  ): Promise<InternalProject[]> {
+    const discovered = await listProjects(options)
+    const families = new Map<string, InternalProject>()
+    for (const { path } of discovered) {
+      const internal = await InternalProject.retrieve(path)
+      const key = internal.primaryWorktree.path
+      if (families.has(key)) continue
+      internal.activeWorktree = internal.primaryWorktree
+      families.set(key, internal)
+    }
+    return [...families.values()].sort((a, b) => a.path.localeCompare(b.path))
+  }
+
   /** The version denvig was compiled with. */
   version(): string {
     return getDenvigVersion()
@@ -125,20 +167,27 @@ export class DenvigSDK {
      * rooted at the primary.
      */
     list: (options?: ListProjectsOptions): Promise<DenvigProject[]> =>
-      track(this.ctx, 'projects.list', null, async () => {
-        const discovered = await listProjects(options)
-        const families = new Map<string, DenvigProject>()
-        for (const { path } of discovered) {
-          const internal = await InternalProject.retrieve(path)
-          const key = internal.primaryWorktree.path
-          if (families.has(key)) continue
-          internal.activeWorktree = internal.primaryWorktree
-          families.set(key, new DenvigProject(internal, this.ctx))
-        }
-        return [...families.values()].sort((a, b) =>
-          a.path.localeCompare(b.path),
-        )
-      }),
+      track(this.ctx, 'projects.list', null, async () =>
+        (await this.discoverProjects(options)).map(
+          (internal) => new DenvigProject(internal, this.ctx),
+        ),
+      ),
+
+    /**
+     * Run an action in the primary checkout of every project (optionally only
+     * those with a `.denvig.yml`), skipping projects that don't define it.
+     */
+    run: (
+      action: string,
+      options?: RunProjectsActionOptions & ListProjectsOptions,
+    ): Promise<ProjectRunResult[]> =>
+      track(this.ctx, 'projects.run', null, async () =>
+        runActionInProjects(
+          await this.discoverProjects(options),
+          action,
+          options,
+        ),
+      ),
 
     /**
      * Detect the active project from the SDK's `cwd` or an explicit identifier,
@@ -185,18 +234,37 @@ export class DenvigSDK {
     ): Promise<ImportCertificateResult> =>
       track(this.ctx, 'certs.import', null, () => importCertificate(options)),
 
+    /**
+     * Reissue locally-signed certificates nearing expiry, keeping their SANs,
+     * and reconfigure the gateway when it serves any of them.
+     */
+    renew: (
+      options?: RenewCertificatesOptions,
+    ): Promise<RenewCertificatesResult> =>
+      track(this.ctx, 'certs.renew', null, () => renewCertificates(options)),
+
+    /**
+     * Revoke a certificate issued by the intermediate CA, adding it to the
+     * CRL the builtin gateway serves. Renew it to issue a replacement.
+     */
+    revoke: (ref: CertificateRef): Promise<RevokeCertificateResult> =>
+      track(this.ctx, 'certs.revoke', null, () => revokeCertificate(ref)),
+
     /** The local Certificate Authority that signs locally-issued certs. */
     ca: {
       /** Report whether the local CA is configured and its details. */
       status: (): Promise<CaStatus> =>
         track(this.ctx, 'certs.ca.status', null, () => getCaStatus()),
 
-      /** Generate the local CA if missing and install it to the keychain. */
+      /**
+       * Generate the local CA if missing and install it into every trust
+       * store on this machine.
+       */
       configure: (): Promise<ConfigureCaResult> =>
         track(this.ctx, 'certs.ca.configure', null, () => configureCa()),
 
-      /** Remove the local CA from the system keychain. */
-      remove: (): Promise<{ path: string }> =>
+      /** Remove the local CA from every trust store on this machine. */
+      remove: (): Promise<RemoveCaResult> =>
         track(this.ctx, 'certs.ca.remove', null, () => removeCa()),
     },
   }
@@ -212,6 +280,42 @@ export class DenvigSDK {
     /** Reconcile services and rebuild every nginx config from runtime state. */
     configure: (): Promise<ConfigureGatewayOutput> =>
       track(this.ctx, 'gateway.configure', null, () => configureGatewayAll()),
+
+    /**
+     * Read the most recent requests from the gateway access logs. Throws a
+     * validation error for an invalid `status` filter.
+     */
+    logs: (options?: GatewayLogsOptions): Promise<GatewayLogEntry[]> =>
+      track(this.ctx, 'gateway.logs', null, () => getGatewayLogs(options)),
+
+    /**
+     * Call `onEntry` for every request the gateway logs from now on. Resolves
+     * to a function that stops following.
+     */
+    followLogs: (
+      options: Omit<GatewayLogsOptions, 'lines'>,
+      onEntry: (entry: GatewayLogEntry) => void,
+    ): Promise<() => void> =>
+      track(this.ctx, 'gateway.followLogs', null, () =>
+        followGatewayLogs(options, onEntry),
+      ),
+
+    /** The local DNS server answering for gateway domains. */
+    dns: {
+      /** Report the DNS server state and the domains it answers for. */
+      status: (): Promise<GatewayDnsStatus> =>
+        track(this.ctx, 'gateway.dns.status', null, () =>
+          getGatewayDnsStatus(),
+        ),
+
+      /** Sync the routed domains into a denvig block of the hosts file. */
+      hosts: (
+        options?: SyncGatewayHostsOptions,
+      ): Promise<SyncGatewayHostsResult> =>
+        track(this.ctx, 'gateway.dns.hosts', null, () =>
+          syncGatewayHosts(options),
+        ),
+    },
   }
 
   config = {
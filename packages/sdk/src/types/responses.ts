@@ -5,6 +5,8 @@
  */
 
 import type { ProjectInfo } from '../lib/projectInfo.ts'
+import type { ServiceHealth } from '../lib/services/health.ts'
+import type { ServiceHookResult } from '../lib/services/hooks.ts'
 
 /**
  * Service information for display.
@@ -40,6 +42,18 @@ export type ServiceResult = {
    * launch and report "already running" instead.
    */
   alreadyRunning?: boolean
+  /** Lifecycle hooks that ran, in order. Absent when none ran. */
+  hooks?: ServiceHookResult[]
+}
+
+/**
+ * Outcome of waiting for a started service to become ready.
+ */
+export type ServiceReadiness = {
+  ready: boolean
+  /** Health at the end of the wait; null for services without a healthcheck. */
+  health: ServiceHealth | null
+  message: string
 }
 
 /**
@@ -96,6 +110,13 @@ export type ServiceResponse = {
   logPath: string
   envFiles: string[]
   lastExitCode: number | null
+  /**
+   * Result of the service's `healthcheck` while it's running: `starting`
+   * while failed checks are still within the boot allowance. Null when the
+   * service has no healthcheck, isn't running or wasn't probed (listings
+   * only probe when asked to).
+   */
+  health: ServiceHealth | null
   logs?: string[]
 }
 